@@ -1,17 +1,19 @@
-
-import { Component, signal } from '@angular/core';
+import { Component, inject } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
+import { DatabaseService } from './core/services/database';
+import { DbUnlockComponent } from './features/db-unlock/db-unlock';
 
 @Component({
   selector: 'app-root',
   standalone: true,
   imports: [
-   
-    RouterOutlet
-],
+    RouterOutlet,
+    DbUnlockComponent
+  ],
   templateUrl: './app.html',
   styleUrl: './app.scss'
 })
 export class App {
- 
-}
\ No newline at end of file
+  // Banco criptografado bloqueado: tela de desbloqueio no lugar das rotas
+  protected readonly dbService = inject(DatabaseService);
+}
@@ -0,0 +1,110 @@
+// ========================================
+// src/app/core/models/archive.model.ts
+// ========================================
+
+/**
+ * Critérios para mover vendas para um arquivo
+ * Vendas em comandas abertas nunca são arquivadas.
+ */
+export interface SalesArchiveCriteria {
+  finalizedEvents: boolean;         // Vendas de eventos finalizados
+  olderThanMonths: number | null;   // Vendas com mais de N meses (null = ignorar)
+}
+
+/**
+ * Arquivo de vendas (tabela prd_sales_archives)
+ * O índice fica no banco; as vendas ficam compactadas fora dele
+ * (IndexedDB próprio, chave desc_key).
+ */
+export interface SalesArchive {
+  num_id: number;
+  desc_key: string;                 // Chave do arquivo compactado
+  dt_created_at: string;            // ISO 8601
+  desc_criteria: string;            // Descrição legível dos critérios usados
+  num_sales_count: number;
+  dt_first_sale: string | null;     // Venda mais antiga do arquivo
+  dt_last_sale: string | null;      // Venda mais recente do arquivo
+  num_size_bytes: number;           // Tamanho compactado
+  desc_beer_ids: string;            // JSON: cervejas referenciadas (não podem ser excluídas)
+  desc_event_ids: string;           // JSON: eventos referenciados (não podem ser excluídos)
+}
+
+/**
+ * Prévia das vendas que seriam arquivadas
+ */
+export interface SalesArchivePreview {
+  salesCount: number;
+  firstSale: string | null;
+  lastSale: string | null;
+}
+
+/**
+ * Conteúdo de um arquivo de vendas (antes da compactação)
+ * Linhas no formato colunar (columns + values) do sql.js: as colunas
+ * acompanham o arquivo, que continua legível após novas migrations.
+ */
+export interface SalesArchiveFile {
+  version: number;
+  createdAt: string;
+  dbVersion: number;
+  criteria: SalesArchiveCriteria;
+  columns: string[];
+  rows: unknown[][];
+}
+
+export const SALES_ARCHIVE_FILE_VERSION = 1;
+
+/**
+ * Meses padrão sugeridos na tela de arquivamento
+ */
+export const DEFAULT_ARCHIVE_MONTHS = 6;
+
+/**
+ * Type guard para validar SalesArchive
+ */
+export function isSalesArchive(obj: any): obj is SalesArchive {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_id === 'number' &&
+    typeof obj.desc_key === 'string' &&
+    typeof obj.dt_created_at === 'string' &&
+    typeof obj.desc_criteria === 'string' &&
+    typeof obj.num_sales_count === 'number' &&
+    (obj.dt_first_sale === null || typeof obj.dt_first_sale === 'string') &&
+    (obj.dt_last_sale === null || typeof obj.dt_last_sale === 'string') &&
+    typeof obj.num_size_bytes === 'number' &&
+    typeof obj.desc_beer_ids === 'string' &&
+    typeof obj.desc_event_ids === 'string'
+  );
+}
+
+/**
+ * Type guard para validar o conteúdo descompactado de um arquivo
+ */
+export function isSalesArchiveFile(obj: any): obj is SalesArchiveFile {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.version === 'number' &&
+    typeof obj.createdAt === 'string' &&
+    Array.isArray(obj.columns) &&
+    obj.columns.every((column: unknown) => typeof column === 'string') &&
+    Array.isArray(obj.rows) &&
+    obj.rows.every((row: unknown) => Array.isArray(row))
+  );
+}
+
+/**
+ * Descrição legível dos critérios (exibida na lista de arquivos)
+ */
+export function describeArchiveCriteria(criteria: SalesArchiveCriteria): string {
+  const parts: string[] = [];
+  if (criteria.finalizedEvents) {
+    parts.push('eventos finalizados');
+  }
+  if (criteria.olderThanMonths !== null) {
+    parts.push(`vendas com mais de ${criteria.olderThanMonths} ${criteria.olderThanMonths === 1 ? 'mês' : 'meses'}`);
+  }
+  return parts.join(' ou ');
+}
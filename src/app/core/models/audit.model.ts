@@ -0,0 +1,121 @@
+// ========================================
+// src/app/core/models/audit.model.ts
+// ========================================
+
+/**
+ * Operação auditada
+ */
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+/**
+ * Registro de auditoria (tabela prd_audit_log)
+ * Gravado pelas triggers de db-audit.ts a cada alteração do banco.
+ */
+export interface AuditLogEntry {
+  num_id: number;
+  dt_created_at: string;            // ISO 8601 (UTC)
+  num_user_id: number | null;       // Usuário logado no momento (null = sistema/login)
+  desc_username: string | null;
+  desc_origin: string | null;       // Tela de origem (ex: sales, settings/admin)
+  desc_table: string;
+  num_row_id: number | null;
+  desc_action: AuditAction;
+  desc_before: string | null;       // JSON da linha antes (UPDATE/DELETE)
+  desc_after: string | null;        // JSON da linha depois (INSERT/UPDATE)
+}
+
+/**
+ * Filtros da consulta de auditoria
+ */
+export interface AuditLogFilter {
+  username?: string | null;
+  table?: string | null;
+  startDate?: Date | null;
+  endDate?: Date | null;
+}
+
+/**
+ * Alteração de uma coluna (comparação antes/depois)
+ */
+export interface AuditFieldChange {
+  column: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Retenção da auditoria (tabela config_audit)
+ * Registros mais antigos que retentionDays ou além dos maxRows mais
+ * recentes são removidos na abertura do banco e a cada verificação de snapshot.
+ */
+export interface AuditRetentionConfig {
+  retentionDays: number;
+  maxRows: number;
+}
+
+export const DEFAULT_AUDIT_RETENTION: AuditRetentionConfig = {
+  retentionDays: 180,
+  maxRows: 200000
+};
+
+/**
+ * Mínimo de registros mantidos (evita apagar a auditoria por engano)
+ */
+export const MIN_AUDIT_MAX_ROWS = 1000;
+
+/**
+ * Máximo de registros por consulta na tela de auditoria
+ */
+export const AUDIT_PAGE_LIMIT = 500;
+
+export function isAuditAction(action: string): action is AuditAction {
+  return ['INSERT', 'UPDATE', 'DELETE'].includes(action);
+}
+
+/**
+ * Type guard para validar AuditLogEntry
+ */
+export function isAuditLogEntry(obj: any): obj is AuditLogEntry {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_id === 'number' &&
+    typeof obj.dt_created_at === 'string' &&
+    (obj.num_user_id === null || typeof obj.num_user_id === 'number') &&
+    (obj.desc_username === null || typeof obj.desc_username === 'string') &&
+    (obj.desc_origin === null || typeof obj.desc_origin === 'string') &&
+    typeof obj.desc_table === 'string' &&
+    (obj.num_row_id === null || typeof obj.num_row_id === 'number') &&
+    isAuditAction(obj.desc_action) &&
+    (obj.desc_before === null || typeof obj.desc_before === 'string') &&
+    (obj.desc_after === null || typeof obj.desc_after === 'string')
+  );
+}
+
+/**
+ * Colunas alteradas entre o antes e o depois de um registro
+ * INSERT: todas as colunas (antes = null); DELETE: todas (depois = null)
+ */
+export function diffAuditEntry(entry: AuditLogEntry): AuditFieldChange[] {
+  const before = parseAuditJson(entry.desc_before);
+  const after = parseAuditJson(entry.desc_after);
+  const columns = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return columns
+    .filter(column => entry.desc_action !== 'UPDATE' || before[column] !== after[column])
+    .map(column => ({
+      column,
+      before: column in before ? before[column] : null,
+      after: column in after ? after[column] : null
+    }));
+}
+
+function parseAuditJson(json: string | null): Record<string, unknown> {
+  if (!json) return {};
+  try {
+    const parsed = JSON.parse(json);
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,82 @@
+// ========================================
+// src/app/core/models/backup.model.ts
+// ========================================
+
+/**
+ * Identificação do aplicativo gravada no manifesto
+ */
+export const BACKUP_APP_NAME = 'black-beer';
+
+/**
+ * Versão do formato do manifesto (não confundir com a versão do schema)
+ */
+export const BACKUP_FORMAT_VERSION = 1;
+
+/**
+ * Manifesto JSON que acompanha o arquivo .sqlite exportado
+ */
+export interface BackupManifest {
+  appName: string;
+  formatVersion: number;
+  dbVersion: number;
+  createdAt: string;                  // ISO 8601
+  fileName: string;                   // Nome do arquivo .sqlite correspondente
+  sizeBytes: number;
+  checksumSha256: string;             // Hex do SHA-256 do arquivo .sqlite
+  rowCounts: Record<string, number>;  // Tabela → quantidade de registros
+}
+
+/**
+ * Resultado da inspeção de um arquivo SQLite (sem carregá-lo como banco ativo)
+ */
+export interface DatabaseFileInspection {
+  dbVersion: number;
+  integrityCheck: string;             // 'ok' quando íntegro
+  tables: string[];
+  rowCounts: Record<string, number>;
+}
+
+/**
+ * Diferença de registros por tabela entre o banco atual e o backup
+ */
+export interface BackupTableDiff {
+  tableName: string;
+  currentRows: number;
+  backupRows: number;
+  difference: number;                 // backupRows - currentRows
+}
+
+/**
+ * Resultado da validação de um backup antes da restauração
+ */
+export interface BackupValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  fileName: string;
+  sizeBytes: number;
+  dbVersion: number;
+  currentDbVersion: number;
+  manifest: BackupManifest | null;
+  diff: BackupTableDiff[];
+  data: Uint8Array;
+}
+
+/**
+ * Type guard para validar um manifesto lido de JSON
+ */
+export function isBackupManifest(obj: any): obj is BackupManifest {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.appName === 'string' &&
+    typeof obj.formatVersion === 'number' &&
+    typeof obj.dbVersion === 'number' &&
+    typeof obj.createdAt === 'string' &&
+    typeof obj.fileName === 'string' &&
+    typeof obj.sizeBytes === 'number' &&
+    typeof obj.checksumSha256 === 'string' &&
+    typeof obj.rowCounts === 'object' &&
+    obj.rowCounts !== null
+  );
+}
@@ -3,7 +3,24 @@
 // ========================================
 
 /**
- * Interface para tipos de cerveja
+ * Tipos de produto do catálogo
+ * - draft: chope vendido por volume (tamanho de copo, estoque em litros)
+ * - unit: item vendido por unidade (água, refrigerante, petisco, copo personalizado)
+ */
+export type ProductKind = 'draft' | 'unit';
+
+export const PRODUCT_KIND_LABELS: Record<ProductKind, string> = {
+  draft: 'Chope (por volume)',
+  unit: 'Unidade'
+};
+
+/**
+ * Volume gravado em prd_sales.num_cup_size nas vendas de produtos unitários
+ */
+export const UNIT_SALE_CUP_SIZE = 0;
+
+/**
+ * Interface para tipos de cerveja (catálogo de produtos)
  * Convenção de nomenclatura:
  * - num_ : Colunas INTEGER e REAL
  * - desc_ : Colunas TEXT (dados gerais)
@@ -14,6 +31,8 @@ export interface BeerType {
   desc_name: string;
   desc_color: string;
   desc_description: string;
+  desc_kind: ProductKind;          // Chope por volume ou item por unidade
+  dt_archived_at?: string | null;  // Arquivada: fora das vendas, mantida nos relatórios
 }
 
 /**
@@ -27,13 +46,27 @@ export interface Sale {
   num_id: number;
   num_beer_id: number;           // FK para prd_beer_types.num_id
   desc_beer_name: string;
-  num_cup_size: 300 | 500 | 1000; // em ml
+  num_cup_size: CupSize;         // em ml (volume do catálogo config_cup_sizes); 0 = produto unitário
   num_quantity: number;
   dt_timestamp: string;          // ISO string para SQLite
-  num_total_volume: number;      // em ml
+  num_total_volume: number;      // em ml (0 em produtos unitários)
+  num_unit_price: number;        // Preço do copo no momento da venda (R$)
+  num_discount: number;          // Desconto das promoções (R$)
+  num_total_price: number;       // num_quantity × num_unit_price − num_discount (R$)
+  desc_promotions?: string | null; // Promoções aplicadas ("Happy Hour + Combo")
   num_comanda_id?: number | null; // FK opcional para prd_comandas
   num_user_id: number;           // FK obrigatória para prd_users.num_id
   num_event_id?: number | null;  // FK opcional para prd_events
+  desc_sync_id?: string | null;  // ID global entre terminais (sincronização)
+  desc_bill_id?: string | null;  // Conta paga (prd_payments.desc_bill_id)
+  num_voided_quantity?: number;  // Copos estornados (prd_sale_voids); igual a num_quantity = estorno total
+}
+
+/**
+ * Venda com o nome do usuário que a registrou (join com prd_users)
+ */
+export interface SaleWithUser extends Sale {
+  username: string | null;
 }
 
 /**
@@ -67,10 +100,26 @@ export function isBeerType(obj: any): obj is BeerType {
     typeof obj.num_id === 'number' &&
     typeof obj.desc_name === 'string' &&
     typeof obj.desc_color === 'string' &&
-    typeof obj.desc_description === 'string'
+    typeof obj.desc_description === 'string' &&
+    isProductKind(obj.desc_kind) &&
+    (obj.dt_archived_at === undefined || obj.dt_archived_at === null || typeof obj.dt_archived_at === 'string')
   );
 }
 
+/**
+ * Type guard para validar ProductKind
+ */
+export function isProductKind(value: unknown): value is ProductKind {
+  return value === 'draft' || value === 'unit';
+}
+
+/**
+ * Indica se a venda é de um produto unitário (sem volume)
+ */
+export function isUnitSale(sale: Pick<Sale, 'num_cup_size'>): boolean {
+  return sale.num_cup_size === UNIT_SALE_CUP_SIZE;
+}
+
 /**
  * Type guard para validar Sale
  */
@@ -81,10 +130,13 @@ export function isSale(obj: any): obj is Sale {
     typeof obj.num_id === 'number' &&
     typeof obj.num_beer_id === 'number' &&
     typeof obj.desc_beer_name === 'string' &&
-    (obj.num_cup_size === 300 || obj.num_cup_size === 500 || obj.num_cup_size === 1000) &&
+    typeof obj.num_cup_size === 'number' && obj.num_cup_size >= 0 &&
     typeof obj.num_quantity === 'number' &&
     typeof obj.dt_timestamp === 'string' &&
     typeof obj.num_total_volume === 'number' &&
+    typeof obj.num_unit_price === 'number' &&
+    typeof obj.num_discount === 'number' &&
+    typeof obj.num_total_price === 'number' &&
     typeof obj.num_user_id === 'number' &&
     (obj.num_event_id === undefined || obj.num_event_id === null || typeof obj.num_event_id === 'number')
   );
@@ -104,16 +156,10 @@ export function isAppSettings(obj: any): obj is AppSettings {
 }
 
 /**
- * Constantes para tamanhos de copo
- * NOVO: Centraliza valores mágicos
+ * Volume do copo em ml
+ * Os tamanhos vendidos vêm do catálogo config_cup_sizes (cup-size.model.ts)
  */
-export const CUP_SIZES = {
-  SMALL: 300,
-  MEDIUM: 500,
-  LARGE: 1000  // ← NOVO: 1 litro
-} as const;
-
-export type CupSize = typeof CUP_SIZES[keyof typeof CUP_SIZES];
+export type CupSize = number;
 
 /**
  * Helper para converter valores do banco em boolean
@@ -0,0 +1,23 @@
+// ========================================
+// src/app/core/models/cart.model.ts
+// ========================================
+
+import { CupSize, ProductKind } from './beer.model';
+
+/**
+ * Item do carrinho do formulário de vendas
+ */
+export interface CartItem {
+  id: string;              // `${beerId}-${cupSize}`
+  beerId: number;
+  beerName: string;
+  beerColor: string;
+  kind: ProductKind;       // chope (por volume) ou produto unitário
+  cupSize: CupSize;        // UNIT_SALE_CUP_SIZE nos produtos unitários
+  quantity: number;
+  totalVolume: number;     // em ml (0 nos produtos unitários)
+  unitPrice: number;       // preço unitário do copo ou da unidade
+  discount: number;        // desconto das promoções vigentes
+  promotions: string[];    // promoções aplicadas
+  totalPrice: number;      // unitPrice * quantity - discount
+}
@@ -35,6 +35,26 @@ export interface ClientConfig {
    */
   desc_logo_file_name?: string;
 
+  /**
+   * Chave PIX do recebedor (BR Code gerado no pagamento)
+   */
+  desc_pix_key?: string;
+
+  /**
+   * Nome do recebedor exibido no app do banco (até 25 caracteres)
+   */
+  desc_pix_merchant_name?: string;
+
+  /**
+   * Cidade do recebedor (até 15 caracteres)
+   */
+  desc_pix_merchant_city?: string;
+
+  /**
+   * Largura da bobina da impressora de recibos em mm (58 ou 80)
+   */
+  num_receipt_width?: number;
+
   /**
    * Timestamp da última atualização
    */
@@ -21,6 +21,10 @@ export interface Comanda {
   num_numero: number;
   desc_status: ComandaStatus;
   num_total_value: number;
+  num_service_rate: number;         // Taxa de serviço (%) definida no fechamento
+  num_tip: number;                  // Gorjeta (R$) informada no fechamento
+  num_closed_by: number | null;     // Atendente que fechou a comanda
+  desc_pix_txid: string | null;     // txid do QR Code PIX impresso na via (reutilizado no pagamento)
   dt_opened_at: string | null;
   dt_closed_at: string | null;
   dt_paid_at: string | null;
@@ -35,7 +39,8 @@ export interface ComandaItem {
   num_sale_id: number;
   num_beer_id: number;
   desc_beer_name: string;
-  num_cup_size: number;
+  num_cup_size: number;             // Volume em ml (0 = produto unitário)
+  desc_cup_size_label: string;      // Nome no catálogo de tamanhos (ou volume formatado)
   num_quantity: number;
   num_unit_price: number;
   num_total_price: number;
@@ -44,9 +49,12 @@ export interface ComandaItem {
 
 /**
  * Comanda completa com seus itens de venda
+ * num_total_value = itens + taxa de serviço + gorjeta
  */
 export interface ComandaWithItems extends Comanda {
   items: ComandaItem[];
+  num_items_total: number;          // Soma dos itens (sem taxa e gorjeta)
+  num_service_charge: number;       // Taxa de serviço em R$
 }
 
 /**
@@ -62,3 +70,21 @@ export function isComanda(obj: any): obj is Comanda {
     Object.values(ComandaStatus).includes(obj.desc_status)
   );
 }
+
+/**
+ * Type guard para verificar se um objeto é um ComandaItem válido
+ */
+export function isComandaItem(obj: any): obj is ComandaItem {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_sale_id === 'number' &&
+    typeof obj.num_beer_id === 'number' &&
+    typeof obj.desc_beer_name === 'string' &&
+    typeof obj.num_cup_size === 'number' &&
+    typeof obj.desc_cup_size_label === 'string' &&
+    typeof obj.num_quantity === 'number' &&
+    typeof obj.num_total_price === 'number' &&
+    typeof obj.dt_timestamp === 'string'
+  );
+}
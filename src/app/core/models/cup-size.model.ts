@@ -0,0 +1,68 @@
+// ========================================
+// src/app/core/models/cup-size.model.ts
+// ========================================
+
+import { PRODUCT_KIND_LABELS, UNIT_SALE_CUP_SIZE } from './beer.model';
+
+/**
+ * Tamanho de copo do catálogo (tabela config_cup_sizes)
+ * Convenção de nomenclatura:
+ * - num_ : Colunas INTEGER e REAL
+ * - desc_ : Colunas TEXT (dados gerais)
+ * - int_ : Colunas INTEGER 0/1 (booleanos)
+ * - dt_ : Colunas TEXT com DEFAULT CURRENT_TIMESTAMP
+ */
+export interface CupSizeConfig {
+  num_id: number;
+  desc_label: string;               // Nome exibido (ex: "Pint", "Growler 1,8L")
+  num_volume_ml: number;            // Volume em ml (único; gravado em prd_sales.num_cup_size)
+  int_active: number;               // 1 = disponível nas vendas
+  num_order: number;                // Posição na tela de vendas
+  dt_created_at: string;
+  dt_updated_at: string;
+}
+
+/**
+ * Dados informados ao criar ou editar um tamanho
+ */
+export interface CupSizeInput {
+  label: string;
+  volumeMl: number;
+}
+
+/**
+ * Type guard para validar CupSizeConfig
+ */
+export function isCupSizeConfig(obj: any): obj is CupSizeConfig {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_id === 'number' &&
+    typeof obj.desc_label === 'string' &&
+    typeof obj.num_volume_ml === 'number' &&
+    obj.num_volume_ml > 0 &&
+    (obj.int_active === 0 || obj.int_active === 1) &&
+    typeof obj.num_order === 'number'
+  );
+}
+
+/**
+ * Volume legível: 300 → "300ml", 1800 → "1,8L"
+ * Vendas de produtos unitários (volume 0) aparecem como "Unidade"
+ */
+export function formatCupVolume(volumeMl: number): string {
+  if (volumeMl === UNIT_SALE_CUP_SIZE) {
+    return PRODUCT_KIND_LABELS.unit;
+  }
+  if (volumeMl >= 1000) {
+    return `${(volumeMl / 1000).toLocaleString('pt-BR', { maximumFractionDigits: 2 })}L`;
+  }
+  return `${volumeMl}ml`;
+}
+
+/**
+ * Nome do tamanho no catálogo, ou o volume formatado se não estiver cadastrado
+ */
+export function getCupSizeLabel(cupSizes: readonly CupSizeConfig[], volumeMl: number): string {
+  return cupSizes.find(size => size.num_volume_ml === volumeMl)?.desc_label ?? formatCupVolume(volumeMl);
+}
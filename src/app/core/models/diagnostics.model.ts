@@ -0,0 +1,80 @@
+// src/app/core/models/diagnostics.model.ts
+
+/**
+ * Diagnóstico de integridade do banco (tela de diagnóstico do admin)
+ */
+
+/**
+ * Verificações executadas
+ * - integrity: PRAGMA integrity_check (arquivo corrompido)
+ * - foreign_keys: PRAGMA foreign_key_check (referências quebradas)
+ * - orphan_sales_beer: vendas de cervejas inexistentes
+ * - orphan_sales_event: vendas de eventos inexistentes
+ * - orphan_sales_comanda: vendas de comandas inexistentes
+ * - orphan_sales_user: vendas de usuários inexistentes
+ * - orphan_config: preço/estoque de cervejas, eventos ou tamanhos de copo inexistentes
+ * - invalid_stock: estoque ou alerta negativo/não numérico
+ * - stuck_comandas: comandas abertas/fechadas sem itens
+ * - available_comandas_with_items: comandas disponíveis com vendas vinculadas
+ * - duplicate_stock: mais de um estoque por cerveja/evento
+ */
+export type DiagnosticCheckId =
+  | 'integrity'
+  | 'foreign_keys'
+  | 'orphan_sales_beer'
+  | 'orphan_sales_event'
+  | 'orphan_sales_comanda'
+  | 'orphan_sales_user'
+  | 'orphan_config'
+  | 'invalid_stock'
+  | 'stuck_comandas'
+  | 'available_comandas_with_items'
+  | 'duplicate_stock';
+
+/**
+ * Gravidade do problema
+ * - error: dados inconsistentes ou corrompidos
+ * - warn: estado suspeito (pode ser legítimo)
+ */
+export type DiagnosticSeverity = 'error' | 'warn';
+
+/**
+ * Problema encontrado por uma verificação
+ */
+export interface DiagnosticIssue {
+  check: DiagnosticCheckId;
+  title: string;
+  description: string;
+  severity: DiagnosticSeverity;
+  count: number;
+  samples: string[];            // Até DIAGNOSTIC_SAMPLE_LIMIT exemplos legíveis
+  repairLabel: string | null;   // null = sem reparo automático
+}
+
+/**
+ * Resultado de um diagnóstico completo
+ */
+export interface DiagnosticReport {
+  checkedAt: string;            // ISO 8601
+  issues: DiagnosticIssue[];
+}
+
+/**
+ * Resultado de um reparo: o que foi alterado
+ */
+export interface DiagnosticRepairResult {
+  check: DiagnosticCheckId;
+  title: string;
+  repairedAt: string;           // ISO 8601
+  changes: string[];
+}
+
+/**
+ * Exemplos listados por problema
+ */
+export const DIAGNOSTIC_SAMPLE_LIMIT = 10;
+
+/**
+ * Comanda aberta sem itens há mais que este tempo é considerada travada
+ */
+export const STUCK_COMANDA_HOURS = 12;
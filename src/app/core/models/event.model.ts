@@ -27,6 +27,7 @@ export interface Event {
   desc_status: EventStatus;            // Status do evento
   dt_created_at: string;               // Data de criação (ISO string)
   dt_updated_at: string;               // Data de última atualização (ISO string)
+  dt_archived_at?: string | null;      // Arquivado: oculto na gestão, mantido nos relatórios
 }
 
 /**
@@ -54,6 +55,37 @@ export interface UpdateEventDto {
   desc_status?: EventStatus;
 }
 
+/**
+ * Vendas de uma cerveja dentro de um evento
+ */
+export interface EventBeerStatistics {
+  beerName: string;
+  salesCount: number;
+  totalQuantity: number;
+  totalVolume: number;      // em ml
+  revenue: number;          // em R$
+}
+
+/**
+ * Estatísticas consolidadas de um evento
+ */
+export interface EventStatistics {
+  totalSales: number;
+  totalVolume: number;      // em ml
+  totalRevenue: number;     // em R$
+  salesByBeer: EventBeerStatistics[];
+}
+
+/**
+ * Estatísticas de um evento sem vendas
+ */
+export const EMPTY_EVENT_STATISTICS: EventStatistics = {
+  totalSales: 0,
+  totalVolume: 0,
+  totalRevenue: 0,
+  salesByBeer: []
+};
+
 /**
  * Type guard para validar EventStatus
  * @param status String a ser validada
@@ -84,7 +116,8 @@ export function isValidEvent(obj: any): obj is Event {
     (obj.desc_name_contact_event === undefined || obj.desc_name_contact_event === null || typeof obj.desc_name_contact_event === 'string') &&
     isEventStatus(obj.desc_status) &&
     typeof obj.dt_created_at === 'string' &&
-    typeof obj.dt_updated_at === 'string'
+    typeof obj.dt_updated_at === 'string' &&
+    (obj.dt_archived_at === undefined || obj.dt_archived_at === null || typeof obj.dt_archived_at === 'string')
   );
 }
 
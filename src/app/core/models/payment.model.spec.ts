@@ -0,0 +1,60 @@
+import { calculateChange, calculateRemaining, validatePayments } from './payment.model';
+
+describe('calculateChange', () => {
+  it('devolve o troco em dinheiro, arredondado em centavos', () => {
+    expect(calculateChange({ method: 'cash', amount: 37.3, received: 50 })).toBe(12.7);
+    expect(calculateChange({ method: 'cash', amount: 0.1 + 0.2, received: 0.5 })).toBe(0.2);
+  });
+
+  it('é zero sem valor recebido, com valor exato ou em outras formas', () => {
+    expect(calculateChange({ method: 'cash', amount: 20 })).toBe(0);
+    expect(calculateChange({ method: 'cash', amount: 20, received: 20 })).toBe(0);
+    expect(calculateChange({ method: 'cash', amount: 20, received: 10 })).toBe(0);
+    expect(calculateChange({ method: 'credit', amount: 20, received: 50 })).toBe(0);
+  });
+});
+
+describe('calculateRemaining', () => {
+  it('soma os pagamentos em centavos (sem erro de ponto flutuante)', () => {
+    expect(calculateRemaining(0.3, [{ method: 'pix', amount: 0.1 }, { method: 'cash', amount: 0.2 }])).toBe(0);
+    expect(calculateRemaining(50, [{ method: 'debit', amount: 30 }])).toBe(20);
+    expect(calculateRemaining(50, [{ method: 'debit', amount: 60 }])).toBe(-10);
+  });
+});
+
+describe('validatePayments', () => {
+  it('aceita pagamentos divididos que fecham o total', () => {
+    expect(() => validatePayments(100, [
+      { method: 'credit', amount: 60.5, reference: 'NSU 123' },
+      { method: 'cash', amount: 39.5, received: 50 }
+    ])).not.toThrow();
+  });
+
+  it('conta zerada dispensa pagamento', () => {
+    expect(() => validatePayments(0, [])).not.toThrow();
+  });
+
+  it('exige forma de pagamento e valor positivo', () => {
+    expect(() => validatePayments(10, [])).toThrowError('Informe a forma de pagamento');
+    expect(() => validatePayments(10, [{ method: 'pix', amount: 0 }])).toThrowError('Informe o valor pago em PIX');
+    expect(() => validatePayments(10, [{ method: 'pix', amount: NaN }])).toThrowError('Informe o valor pago em PIX');
+  });
+
+  it('troco só em dinheiro e recebido não menor que o valor pago', () => {
+    expect(() => validatePayments(10, [{ method: 'debit', amount: 10, received: 20 }]))
+      .toThrowError('Troco só é permitido em dinheiro (Débito)');
+    expect(() => validatePayments(10, [{ method: 'cash', amount: 10, received: 5 }]))
+      .toThrowError('O valor recebido em dinheiro é menor que o valor pago');
+  });
+
+  it('txid PIX só em pagamento PIX', () => {
+    expect(() => validatePayments(10, [{ method: 'credit', amount: 10, pixTxid: 'BB123' }]))
+      .toThrowError('txid PIX informado em Crédito');
+    expect(() => validatePayments(10, [{ method: 'pix', amount: 10, pixTxid: 'BB123' }])).not.toThrow();
+  });
+
+  it('rejeita pagamentos que faltam ou passam do total', () => {
+    expect(() => validatePayments(50, [{ method: 'pix', amount: 30 }])).toThrowError('Faltam R$ 20.00 para fechar a conta');
+    expect(() => validatePayments(50, [{ method: 'pix', amount: 50.01 }])).toThrowError('Os pagamentos passam do total em R$ 0.01');
+  });
+});
@@ -0,0 +1,128 @@
+// ========================================
+// src/app/core/models/payment.model.ts
+// ========================================
+
+/**
+ * Formas de pagamento aceitas
+ */
+export type PaymentMethod = 'cash' | 'credit' | 'debit' | 'pix' | 'other';
+
+export const PAYMENT_METHODS: readonly { value: PaymentMethod; label: string; icon: string }[] = [
+  { value: 'cash', label: 'Dinheiro', icon: 'pi pi-money-bill' },
+  { value: 'credit', label: 'Crédito', icon: 'pi pi-credit-card' },
+  { value: 'debit', label: 'Débito', icon: 'pi pi-credit-card' },
+  { value: 'pix', label: 'PIX', icon: 'pi pi-qrcode' },
+  { value: 'other', label: 'Outro', icon: 'pi pi-wallet' }
+];
+
+/**
+ * Nome da forma de pagamento para exibição
+ */
+export function getPaymentMethodLabel(method: string): string {
+  return PAYMENT_METHODS.find(entry => entry.value === method)?.label ?? method;
+}
+
+/**
+ * Pagamento de uma conta (tabela prd_payments)
+ * Convenção de nomenclatura:
+ * - num_ : Colunas INTEGER e REAL
+ * - desc_ : Colunas TEXT (dados gerais)
+ * - dt_ : Colunas TEXT de data
+ *
+ * Uma conta (venda direta ou comanda) pode ser dividida em vários
+ * pagamentos; todos compartilham o desc_bill_id gravado nas vendas.
+ */
+export interface Payment {
+  num_id: number;
+  desc_bill_id: string;             // Conta paga (prd_sales.desc_bill_id)
+  desc_method: PaymentMethod;
+  num_amount: number;               // Valor abatido da conta (R$, sem o troco)
+  num_change: number;               // Troco devolvido (R$, somente dinheiro)
+  desc_reference: string | null;    // NSU do cartão, ID da transação PIX etc.
+  desc_pix_txid: string | null;     // txid do QR Code PIX gerado no caixa (conciliação)
+  num_comanda_id: number | null;    // FK para prd_comandas (null = venda direta)
+  num_user_id: number;
+  num_event_id: number | null;
+  dt_timestamp: string;             // ISO 8601
+}
+
+/**
+ * Pagamento informado no caixa
+ */
+export interface PaymentInput {
+  method: PaymentMethod;
+  amount: number;                   // Valor abatido da conta (R$)
+  received?: number | null;         // Dinheiro entregue pelo cliente (calcula o troco)
+  reference?: string | null;
+  pixTxid?: string | null;          // txid do BR Code exibido (somente PIX)
+}
+
+/**
+ * Type guard para validar Payment
+ */
+export function isPayment(obj: any): obj is Payment {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_id === 'number' &&
+    typeof obj.desc_bill_id === 'string' &&
+    PAYMENT_METHODS.some(entry => entry.value === obj.desc_method) &&
+    typeof obj.num_amount === 'number' &&
+    typeof obj.num_change === 'number' &&
+    typeof obj.num_user_id === 'number' &&
+    typeof obj.dt_timestamp === 'string'
+  );
+}
+
+const toCents = (value: number): number => Math.round(value * 100);
+
+/**
+ * Troco de um pagamento em dinheiro (0 nas demais formas ou sem valor recebido)
+ */
+export function calculateChange(payment: PaymentInput): number {
+  if (payment.method !== 'cash' || payment.received == null) return 0;
+  return Math.max(0, toCents(payment.received) - toCents(payment.amount)) / 100;
+}
+
+/**
+ * Valor da conta ainda não coberto pelos pagamentos (negativo = excedente)
+ */
+export function calculateRemaining(total: number, payments: PaymentInput[]): number {
+  return (toCents(total) - payments.reduce((sum, payment) => sum + toCents(payment.amount), 0)) / 100;
+}
+
+/**
+ * Valida os pagamentos de uma conta
+ * A soma dos valores deve fechar exatamente o total (o troco fica à parte).
+ *
+ * @throws Error com a primeira regra violada
+ */
+export function validatePayments(total: number, payments: PaymentInput[]): void {
+  if (toCents(total) > 0 && payments.length === 0) {
+    throw new Error('Informe a forma de pagamento');
+  }
+
+  for (const payment of payments) {
+    const label = getPaymentMethodLabel(payment.method);
+    if (!(payment.amount > 0)) {
+      throw new Error(`Informe o valor pago em ${label}`);
+    }
+    if (payment.received != null && payment.method !== 'cash') {
+      throw new Error(`Troco só é permitido em dinheiro (${label})`);
+    }
+    if (payment.pixTxid && payment.method !== 'pix') {
+      throw new Error(`txid PIX informado em ${label}`);
+    }
+    if (payment.received != null && toCents(payment.received) < toCents(payment.amount)) {
+      throw new Error('O valor recebido em dinheiro é menor que o valor pago');
+    }
+  }
+
+  const remaining = calculateRemaining(total, payments);
+  if (remaining > 0) {
+    throw new Error(`Faltam R$ ${remaining.toFixed(2)} para fechar a conta`);
+  }
+  if (remaining < 0) {
+    throw new Error(`Os pagamentos passam do total em R$ ${(-remaining).toFixed(2)}`);
+  }
+}
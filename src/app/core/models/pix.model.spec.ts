@@ -0,0 +1,84 @@
+import { PixMerchant, buildPixPayload, crc16Ccitt, normalizePixKey } from './pix.model';
+
+const MERCHANT: PixMerchant = { key: '+5511999999999', name: 'Black Beer', city: 'Sao Paulo' };
+
+describe('crc16Ccitt', () => {
+  it('confere com o valor de verificação do CRC-16/CCITT-FALSE', () => {
+    expect(crc16Ccitt('123456789')).toBe('29B1');
+  });
+
+  it('devolve sempre 4 dígitos hexadecimais maiúsculos', () => {
+    expect(crc16Ccitt('')).toBe('FFFF');
+    expect(crc16Ccitt('A')).toMatch(/^[0-9A-F]{4}$/);
+  });
+});
+
+describe('normalizePixKey', () => {
+  it('telefone com "+" ou máscara vira +55 e só dígitos', () => {
+    expect(normalizePixKey('+55 (11) 99999-9999')).toBe('+5511999999999');
+    expect(normalizePixKey('(11) 99999-9999')).toBe('+5511999999999');
+    expect(normalizePixKey('11 99999-9999')).toBe('+5511999999999');
+    expect(normalizePixKey('55 11 99999-9999')).toBe('+5511999999999');
+    expect(normalizePixKey('5511999999999')).toBe('+5511999999999');
+  });
+
+  it('11 dígitos sem máscara: CPF válido fica CPF, senão é celular com DDD', () => {
+    expect(normalizePixKey('52998224725')).toBe('52998224725');
+    expect(normalizePixKey('11999999999')).toBe('+5511999999999');
+    expect(normalizePixKey('1133334444')).toBe('+551133334444');
+  });
+
+  it('CPF e CNPJ com máscara ficam só com dígitos', () => {
+    expect(normalizePixKey('529.982.247-25')).toBe('52998224725');
+    expect(normalizePixKey('11.222.333/0001-81')).toBe('11222333000181');
+  });
+
+  it('e-mail e chave aleatória em minúsculas (a aleatória mantém os hífens)', () => {
+    expect(normalizePixKey(' Caixa@BlackBeer.com.br ')).toBe('caixa@blackbeer.com.br');
+    expect(normalizePixKey('123E4567-E89B-12D3-A456-426614174000')).toBe('123e4567-e89b-12d3-a456-426614174000');
+  });
+});
+
+describe('buildPixPayload', () => {
+  it('monta o BR Code com os campos EMV e o CRC final', () => {
+    expect(buildPixPayload(MERCHANT, 37.5, 'BB123')).toBe(
+      '000201' +
+      '26360014br.gov.bcb.pix0114+5511999999999' +
+      '52040000' +
+      '5303986' +
+      '540537.50' +
+      '5802BR' +
+      '5910BLACK BEER' +
+      '6009SAO PAULO' +
+      '62090505BB123' +
+      '63042B45'
+    );
+  });
+
+  it('o CRC cobre o payload até o "6304"', () => {
+    const payload = buildPixPayload(MERCHANT, 10, 'BB1');
+    expect(payload.slice(-4)).toBe(crc16Ccitt(payload.slice(0, -4)));
+  });
+
+  it('normaliza chave, nome, cidade e txid', () => {
+    const payload = buildPixPayload(
+      { key: '(11) 99999-9999', name: 'Cervejaria São João & Filhos Artesanais', city: 'Ribeirão das Neves' },
+      5,
+      'bb-12/3'
+    );
+
+    expect(payload).toContain('0114+5511999999999');
+    expect(payload).toContain('5925CERVEJARIA SAO JOAO FILH');
+    expect(payload).toContain('6015RIBEIRAO DAS NE');
+    expect(payload).toContain('62090505bb123');
+  });
+
+  it('usa "***" quando o txid fica vazio', () => {
+    expect(buildPixPayload(MERCHANT, 5, '--')).toContain('62070503***');
+  });
+
+  it('rejeita chave vazia ou valor não positivo', () => {
+    expect(() => buildPixPayload({ ...MERCHANT, key: '  ' }, 5, 'BB1')).toThrowError('Configure a chave PIX da empresa');
+    expect(() => buildPixPayload(MERCHANT, 0, 'BB1')).toThrowError('O valor do PIX deve ser maior que zero');
+  });
+});
@@ -0,0 +1,161 @@
+// ========================================
+// src/app/core/models/pix.model.ts
+// ========================================
+
+/**
+ * PIX estático (BR Code, padrão EMV QRCPS-MPM do Banco Central)
+ *
+ * O payload "copia e cola" é montado e exibido em QR Code inteiramente
+ * offline. O txid identifica o pagamento na conciliação com o extrato e
+ * fica gravado em prd_payments.desc_pix_txid.
+ */
+
+/**
+ * Dados do recebedor (configurações da empresa, config_client)
+ */
+export interface PixMerchant {
+  key: string;                      // Chave PIX (CPF/CNPJ, e-mail, telefone +55 ou aleatória)
+  name: string;                     // Nome do recebedor (até 25 caracteres)
+  city: string;                     // Cidade do recebedor (até 15 caracteres)
+}
+
+const PIX_GUI = 'br.gov.bcb.pix';
+const MAX_MERCHANT_NAME = 25;
+const MAX_MERCHANT_CITY = 15;
+const MAX_TXID = 25;
+
+/**
+ * Campo EMV: ID (2 dígitos) + tamanho (2 dígitos) + valor
+ */
+function emvField(id: string, value: string): string {
+  if (value.length > 99) {
+    throw new Error(`Campo ${id} do PIX passa de 99 caracteres`);
+  }
+  return `${id}${String(value.length).padStart(2, '0')}${value}`;
+}
+
+/**
+ * Texto sem acentos e só com caracteres aceitos pelos bancos
+ */
+export function normalizePixText(text: string, maxLength: number): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9 .-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength)
+    .trim();
+}
+
+/**
+ * Chave aleatória (EVP): UUID com hífens
+ */
+const PIX_EVP_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Dígitos verificadores do CPF (distingue CPF de celular com DDD, ambos com 11 dígitos)
+ */
+function isValidCpf(digits: string): boolean {
+  if (!/^\d{11}$/.test(digits) || /^(\d)\1{10}$/.test(digits)) return false;
+
+  const checkDigit = (length: number) => {
+    const sum = Array.from(digits.slice(0, length)).reduce((total, digit, index) => total + Number(digit) * (length + 1 - index), 0);
+    return (sum * 10) % 11 % 10;
+  };
+  return checkDigit(9) === Number(digits[9]) && checkDigit(10) === Number(digits[10]);
+}
+
+/**
+ * Telefone no formato da chave: +55 seguido de DDD e número
+ */
+function formatPixPhone(digits: string): string {
+  return [12, 13].includes(digits.length) && digits.startsWith('55') ? `+${digits}` : `+55${digits}`;
+}
+
+/**
+ * Chave como o banco espera
+ * - E-mail e chave aleatória (EVP): minúsculas (a EVP mantém os hífens)
+ * - Telefone: +55 seguido só dos dígitos; reconhecido pelo "+" inicial, pela
+ *   máscara ("(11) 99999-9999"), pelo 55 inicial ou por 10/11 dígitos que
+ *   não formam um CPF válido
+ * - CPF/CNPJ: só dígitos
+ */
+export function normalizePixKey(key: string): string {
+  const trimmed = key.trim();
+  if (trimmed.includes('@') || PIX_EVP_PATTERN.test(trimmed)) {
+    return trimmed.toLowerCase();
+  }
+  if (!/^\+?[\d.\-/()\s]+$/.test(trimmed)) {
+    return trimmed.replace(/\s/g, '');
+  }
+
+  const digits = trimmed.replace(/\D/g, '');
+  if (trimmed.startsWith('+')) {
+    return `+${digits}`;
+  }
+  if (/[()\s]/.test(trimmed)) {
+    return formatPixPhone(digits);
+  }
+  if (digits.length === 14 || /^\d{3}\.\d{3}\.\d{3}-\d{2}$/.test(trimmed) || isValidCpf(digits)) {
+    return digits;
+  }
+  return [10, 11].includes(digits.length) || /^55\d{10,11}$/.test(digits) ? formatPixPhone(digits) : digits;
+}
+
+/**
+ * Indica se os dados do recebedor permitem gerar o QR Code
+ */
+export function isPixMerchantConfigured(merchant: Partial<PixMerchant> | null | undefined): merchant is PixMerchant {
+  return !!merchant?.key?.trim() && !!merchant.name?.trim() && !!merchant.city?.trim();
+}
+
+/**
+ * Identificador da transação (até 25 caracteres alfanuméricos)
+ */
+export function createPixTxid(): string {
+  const random = Array.from({ length: 12 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+  return `BB${Date.now().toString(36)}${random}`.toUpperCase().slice(0, MAX_TXID);
+}
+
+/**
+ * CRC16-CCITT (polinômio 0x1021, valor inicial 0xFFFF) em 4 dígitos hexadecimais
+ */
+export function crc16Ccitt(payload: string): string {
+  let crc = 0xFFFF;
+  for (const byte of new TextEncoder().encode(payload)) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xFFFF : (crc << 1) & 0xFFFF;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/**
+ * Monta o payload do PIX copia e cola com valor e txid
+ * @throws Error se a chave for vazia ou o valor não for positivo
+ */
+export function buildPixPayload(merchant: PixMerchant, amount: number, txid: string): string {
+  const key = normalizePixKey(merchant.key);
+  if (!key) {
+    throw new Error('Configure a chave PIX da empresa');
+  }
+  if (!(amount > 0)) {
+    throw new Error('O valor do PIX deve ser maior que zero');
+  }
+
+  const payload = [
+    emvField('00', '01'),
+    emvField('26', emvField('00', PIX_GUI) + emvField('01', key)),
+    emvField('52', '0000'),
+    emvField('53', '986'),
+    emvField('54', amount.toFixed(2)),
+    emvField('58', 'BR'),
+    emvField('59', normalizePixText(merchant.name, MAX_MERCHANT_NAME).toUpperCase()),
+    emvField('60', normalizePixText(merchant.city, MAX_MERCHANT_CITY).toUpperCase()),
+    emvField('62', emvField('05', txid.replace(/[^A-Za-z0-9]/g, '').slice(0, MAX_TXID) || '***'))
+  ].join('') + '6304';
+
+  return payload + crc16Ccitt(payload);
+}
@@ -0,0 +1,63 @@
+// ========================================
+// src/app/core/models/price.model.ts
+// ========================================
+
+/**
+ * Preço de uma cerveja em um tamanho de copo (tabela config_sale_prices)
+ * Convenção de nomenclatura:
+ * - num_ : Colunas INTEGER e REAL
+ * - dt_ : Colunas TEXT com DEFAULT CURRENT_TIMESTAMP
+ */
+export interface SalePrice {
+  num_id: number;
+  num_beer_id: number;              // FK para prd_beer_types.num_id
+  num_cup_size_id: number;          // FK para config_cup_sizes.num_id
+  num_event_id: number | null;      // FK para prd_events (null = preço geral)
+  num_price: number;                // Preço do copo (R$)
+  dt_updated_at: string;
+}
+
+/**
+ * Preço de um produto vendido por unidade (tabela config_unit_prices)
+ */
+export interface UnitPrice {
+  num_id: number;
+  num_beer_id: number;              // FK para prd_beer_types.num_id (desc_kind = 'unit')
+  num_event_id: number | null;      // FK para prd_events (null = preço geral)
+  num_price: number;                // Preço da unidade (R$)
+  dt_updated_at: string;
+}
+
+/**
+ * Preços informados ao salvar: ID do tamanho de copo → preço (R$)
+ */
+export type SalePriceInput = Record<number, number>;
+
+/**
+ * Type guard para validar SalePrice
+ */
+export function isSalePrice(obj: any): obj is SalePrice {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_id === 'number' &&
+    typeof obj.num_beer_id === 'number' &&
+    typeof obj.num_cup_size_id === 'number' &&
+    (obj.num_event_id === null || typeof obj.num_event_id === 'number') &&
+    typeof obj.num_price === 'number'
+  );
+}
+
+/**
+ * Type guard para validar UnitPrice
+ */
+export function isUnitPrice(obj: any): obj is UnitPrice {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_id === 'number' &&
+    typeof obj.num_beer_id === 'number' &&
+    (obj.num_event_id === null || typeof obj.num_event_id === 'number') &&
+    typeof obj.num_price === 'number'
+  );
+}
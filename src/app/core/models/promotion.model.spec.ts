@@ -0,0 +1,123 @@
+import { Promotion, PromotionLine, applyPromotions, isPromotionInEffect } from './promotion.model';
+
+// 13/03/2026 é uma sexta-feira (relógio local)
+const FRIDAY_NIGHT = new Date(2026, 2, 13, 23, 0);
+const SATURDAY_DAWN = new Date(2026, 2, 14, 1, 30);
+const SATURDAY_NIGHT = new Date(2026, 2, 14, 23, 0);
+
+function promotion(overrides: Partial<Promotion> = {}): Promotion {
+  return {
+    num_id: 1,
+    desc_name: 'Promo',
+    desc_type: 'percent',
+    num_value: 10,
+    num_buy_qty: null,
+    num_free_qty: null,
+    num_event_id: null,
+    num_beer_id: null,
+    num_cup_size_id: null,
+    num_cup_volume_ml: null,
+    dt_starts_at: null,
+    dt_ends_at: null,
+    desc_start_time: null,
+    desc_end_time: null,
+    desc_weekdays: null,
+    int_stackable: 0,
+    int_active: 1,
+    dt_created_at: '2026-03-01T00:00:00Z',
+    dt_updated_at: '2026-03-01T00:00:00Z',
+    ...overrides
+  };
+}
+
+const line: PromotionLine = { beerId: 1, cupSize: 500, quantity: 4, unitPrice: 15 };
+
+describe('isPromotionInEffect', () => {
+  it('respeita ativação e período de datas (inclusivo)', () => {
+    expect(isPromotionInEffect(promotion({ int_active: 0 }), FRIDAY_NIGHT)).toBeFalse();
+    expect(isPromotionInEffect(promotion({ dt_starts_at: '2026-03-13', dt_ends_at: '2026-03-13' }), FRIDAY_NIGHT)).toBeTrue();
+    expect(isPromotionInEffect(promotion({ dt_starts_at: '2026-03-14' }), FRIDAY_NIGHT)).toBeFalse();
+    expect(isPromotionInEffect(promotion({ dt_ends_at: '2026-03-12' }), FRIDAY_NIGHT)).toBeFalse();
+  });
+
+  it('respeita a janela diária (fim exclusivo)', () => {
+    const happyHour = promotion({ desc_start_time: '18:00', desc_end_time: '23:00' });
+
+    expect(isPromotionInEffect(happyHour, new Date(2026, 2, 13, 18, 0))).toBeTrue();
+    expect(isPromotionInEffect(happyHour, new Date(2026, 2, 13, 22, 59))).toBeTrue();
+    expect(isPromotionInEffect(happyHour, FRIDAY_NIGHT)).toBeFalse();
+  });
+
+  it('janela que vira a meia-noite vale antes e depois da meia-noite', () => {
+    const night = promotion({ desc_start_time: '22:00', desc_end_time: '02:00' });
+
+    expect(isPromotionInEffect(night, FRIDAY_NIGHT)).toBeTrue();
+    expect(isPromotionInEffect(night, SATURDAY_DAWN)).toBeTrue();
+    expect(isPromotionInEffect(night, new Date(2026, 2, 14, 2, 0))).toBeFalse();
+  });
+
+  it('na madrugada usa o dia da semana em que a janela começou', () => {
+    const fridayNight = promotion({ desc_start_time: '22:00', desc_end_time: '02:00', desc_weekdays: '5' });
+
+    expect(isPromotionInEffect(fridayNight, FRIDAY_NIGHT)).toBeTrue();
+    expect(isPromotionInEffect(fridayNight, SATURDAY_DAWN)).toBeTrue();
+    expect(isPromotionInEffect(fridayNight, SATURDAY_NIGHT)).toBeFalse();
+    expect(isPromotionInEffect(fridayNight, new Date(2026, 2, 13, 1, 30))).toBeFalse();
+  });
+
+  it('na madrugada usa a data em que a janela começou', () => {
+    const lastNight = promotion({ desc_start_time: '22:00', desc_end_time: '02:00', dt_ends_at: '2026-03-13' });
+
+    expect(isPromotionInEffect(lastNight, SATURDAY_DAWN)).toBeTrue();
+    expect(isPromotionInEffect(lastNight, SATURDAY_NIGHT)).toBeFalse();
+  });
+});
+
+describe('applyPromotions', () => {
+  it('sem promoção vigente não há desconto', () => {
+    expect(applyPromotions(line, [promotion({ int_active: 0 })], FRIDAY_NIGHT)).toEqual({ discount: 0, names: [] });
+  });
+
+  it('calcula preço fixo, percentual e leve X ganhe Y', () => {
+    expect(applyPromotions(line, [promotion({ desc_type: 'fixed_price', num_value: 12 })], FRIDAY_NIGHT).discount).toBe(12);
+    expect(applyPromotions(line, [promotion({ desc_type: 'percent', num_value: 10 })], FRIDAY_NIGHT).discount).toBe(6);
+    expect(applyPromotions(line, [promotion({ desc_type: 'buy_x_get_y', num_buy_qty: 1, num_free_qty: 1 })], FRIDAY_NIGHT).discount).toBe(30);
+  });
+
+  it('ignora promoções de outra cerveja ou outro tamanho', () => {
+    const promotions = [
+      promotion({ num_beer_id: 2 }),
+      promotion({ num_cup_size_id: 7, num_cup_volume_ml: 300 })
+    ];
+    expect(applyPromotions(line, promotions, FRIDAY_NIGHT).discount).toBe(0);
+  });
+
+  it('entre não acumuláveis vale a de maior desconto', () => {
+    const result = applyPromotions(line, [
+      promotion({ desc_name: 'Dez', num_value: 10 }),
+      promotion({ num_id: 2, desc_name: 'Vinte', num_value: 20 })
+    ], FRIDAY_NIGHT);
+
+    expect(result).toEqual({ discount: 12, names: ['Vinte'] });
+  });
+
+  it('acumuláveis somam e vencem a melhor não acumulável se derem mais desconto', () => {
+    const result = applyPromotions(line, [
+      promotion({ desc_name: 'Vinte', num_value: 20 }),
+      promotion({ num_id: 2, desc_name: 'Happy Hour', num_value: 15, int_stackable: 1 }),
+      promotion({ num_id: 3, desc_name: 'Sócio', num_value: 10, int_stackable: 1 })
+    ], FRIDAY_NIGHT);
+
+    expect(result).toEqual({ discount: 15, names: ['Happy Hour', 'Sócio'] });
+  });
+
+  it('o desconto nunca passa do valor bruto e é arredondado em centavos', () => {
+    expect(applyPromotions(line, [
+      promotion({ num_value: 80, int_stackable: 1 }),
+      promotion({ num_id: 2, num_value: 50, int_stackable: 1 })
+    ], FRIDAY_NIGHT).discount).toBe(60);
+
+    const odd: PromotionLine = { ...line, quantity: 1, unitPrice: 9.99 };
+    expect(applyPromotions(odd, [promotion({ num_value: 33 })], FRIDAY_NIGHT).discount).toBe(3.3);
+  });
+});
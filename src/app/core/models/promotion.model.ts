@@ -0,0 +1,234 @@
+// ========================================
+// src/app/core/models/promotion.model.ts
+// ========================================
+
+/**
+ * Tipos de regra de promoção
+ * - fixed_price: o copo sai pelo preço informado (ex: 500ml por R$ 12)
+ * - percent: desconto percentual sobre o preço do copo
+ * - buy_x_get_y: a cada X copos pagos, Y saem de graça (ex: 3 pelo preço de 2)
+ */
+export type PromotionType = 'fixed_price' | 'percent' | 'buy_x_get_y';
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  fixed_price: 'Preço fixo',
+  percent: 'Desconto %',
+  buy_x_get_y: 'Leve X, ganhe Y'
+};
+
+/**
+ * Promoção (tabela config_promotions)
+ * Convenção de nomenclatura:
+ * - num_ : Colunas INTEGER e REAL
+ * - desc_ : Colunas TEXT (dados gerais)
+ * - int_ : Colunas INTEGER 0/1 (booleanos)
+ * - dt_ : Colunas TEXT de data
+ *
+ * Campos de escopo nulos valem para todos (eventos, cervejas, tamanhos, dias).
+ */
+export interface Promotion {
+  num_id: number;
+  desc_name: string;
+  desc_type: PromotionType;
+  num_value: number;                // Preço fixo (R$) ou percentual (0-100)
+  num_buy_qty: number | null;       // buy_x_get_y: copos pagos
+  num_free_qty: number | null;      // buy_x_get_y: copos grátis
+  num_event_id: number | null;      // FK para prd_events (null = qualquer venda)
+  num_beer_id: number | null;       // FK para prd_beer_types (null = todas)
+  num_cup_size_id: number | null;   // FK para config_cup_sizes (null = todos)
+  num_cup_volume_ml: number | null; // Volume do tamanho alvo (join com config_cup_sizes)
+  dt_starts_at: string | null;      // AAAA-MM-DD, inclusivo
+  dt_ends_at: string | null;        // AAAA-MM-DD, inclusivo
+  desc_start_time: string | null;   // HH:MM (janela diária, pode virar a meia-noite)
+  desc_end_time: string | null;     // HH:MM, exclusivo
+  desc_weekdays: string | null;     // Dias da semana "0,5,6" (0 = domingo)
+  int_stackable: number;            // 1 = acumula com outras promoções acumuláveis
+  int_active: number;
+  dt_created_at: string;
+  dt_updated_at: string;
+}
+
+/**
+ * Dados editáveis de uma promoção
+ */
+export type PromotionDto = Omit<Promotion, 'num_id' | 'num_cup_volume_ml' | 'dt_created_at' | 'dt_updated_at'>;
+
+/**
+ * Item do carrinho avaliado pelas promoções (mesma cerveja e tamanho)
+ */
+export interface PromotionLine {
+  beerId: number;
+  cupSize: number;                  // Volume em ml
+  quantity: number;
+  unitPrice: number;                // Preço de tabela do copo (R$)
+}
+
+/**
+ * Resultado da avaliação de um item
+ */
+export interface AppliedPromotions {
+  discount: number;                 // Desconto total do item (R$)
+  names: string[];                  // Promoções aplicadas
+}
+
+export const NO_PROMOTION: AppliedPromotions = { discount: 0, names: [] };
+
+/**
+ * Separador dos nomes gravados em prd_sales.desc_promotions
+ */
+export const PROMOTION_NAMES_SEPARATOR = ' + ';
+
+/**
+ * Type guard para validar Promotion
+ */
+export function isPromotion(obj: any): obj is Promotion {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_id === 'number' &&
+    typeof obj.desc_name === 'string' &&
+    ['fixed_price', 'percent', 'buy_x_get_y'].includes(obj.desc_type) &&
+    typeof obj.num_value === 'number' &&
+    (obj.int_stackable === 0 || obj.int_stackable === 1) &&
+    (obj.int_active === 0 || obj.int_active === 1)
+  );
+}
+
+/**
+ * Valida os dados de uma promoção antes de gravar
+ * @throws Error com a primeira regra violada
+ */
+export function validatePromotion(dto: PromotionDto): void {
+  if (!dto.desc_name.trim()) {
+    throw new Error('Informe o nome da promoção');
+  }
+  if (dto.desc_type === 'percent' && (dto.num_value <= 0 || dto.num_value > 100)) {
+    throw new Error('O desconto percentual deve estar entre 0 e 100');
+  }
+  if (dto.desc_type === 'fixed_price' && dto.num_value < 0) {
+    throw new Error('O preço promocional não pode ser negativo');
+  }
+  if (dto.desc_type === 'buy_x_get_y' && (!dto.num_buy_qty || dto.num_buy_qty < 1 || !dto.num_free_qty || dto.num_free_qty < 1)) {
+    throw new Error('Informe quantos copos são pagos e quantos saem de graça');
+  }
+  if ((dto.desc_start_time === null) !== (dto.desc_end_time === null)) {
+    throw new Error('Informe o início e o fim do horário da promoção');
+  }
+  if (dto.dt_starts_at && dto.dt_ends_at && dto.dt_starts_at > dto.dt_ends_at) {
+    throw new Error('A data final da promoção é anterior à inicial');
+  }
+}
+
+// ==================== AVALIAÇÃO ====================
+
+/**
+ * Indica se a promoção vale no instante informado (ativa, datas, dias e horário)
+ * Datas e horários usam o relógio local do terminal. Na madrugada de uma
+ * janela que vira a meia-noite (ex: 01:00 de sábado em 22:00–02:00), datas e
+ * dias da semana são os do dia em que a janela começou (sexta).
+ */
+export function isPromotionInEffect(promotion: Promotion, now: Date): boolean {
+  if (promotion.int_active !== 1) return false;
+
+  const pad = (value: number) => String(value).padStart(2, '0');
+  let windowDay = now;
+
+  const start = promotion.desc_start_time;
+  const end = promotion.desc_end_time;
+  if (start && end) {
+    const time = `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+    const inWindow = start <= end
+      ? time >= start && time < end
+      : time >= start || time < end;
+    if (!inWindow) return false;
+
+    if (start > end && time < end) {
+      windowDay = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+    }
+  }
+
+  const day = `${windowDay.getFullYear()}-${pad(windowDay.getMonth() + 1)}-${pad(windowDay.getDate())}`;
+  if (promotion.dt_starts_at && day < promotion.dt_starts_at) return false;
+  if (promotion.dt_ends_at && day > promotion.dt_ends_at) return false;
+
+  if (promotion.desc_weekdays) {
+    const days = promotion.desc_weekdays.split(',').map(Number);
+    if (!days.includes(windowDay.getDay())) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Indica se a promoção se aplica à cerveja e ao tamanho do item
+ */
+export function isPromotionTarget(promotion: Promotion, line: PromotionLine): boolean {
+  return (
+    (promotion.num_beer_id === null || promotion.num_beer_id === line.beerId) &&
+    (promotion.num_cup_size_id === null || promotion.num_cup_volume_ml === line.cupSize)
+  );
+}
+
+/**
+ * Desconto de uma promoção sobre o item (sem considerar outras promoções)
+ */
+export function calculatePromotionDiscount(promotion: Promotion, line: PromotionLine): number {
+  const gross = line.unitPrice * line.quantity;
+
+  switch (promotion.desc_type) {
+    case 'fixed_price':
+      return Math.max(0, line.unitPrice - promotion.num_value) * line.quantity;
+    case 'percent':
+      return gross * Math.min(promotion.num_value, 100) / 100;
+    case 'buy_x_get_y': {
+      const paid = promotion.num_buy_qty ?? 0;
+      const free = promotion.num_free_qty ?? 0;
+      if (paid < 1 || free < 1) return 0;
+      const freeCups = Math.floor(line.quantity / (paid + free)) * free;
+      return freeCups * line.unitPrice;
+    }
+  }
+}
+
+/**
+ * Aplica as promoções vigentes a um item do carrinho
+ *
+ * REGRAS DE ACÚMULO:
+ * - Promoções não acumuláveis concorrem entre si: vale a de maior desconto
+ * - Promoções acumuláveis somam os descontos, todos calculados sobre o preço de tabela
+ * - Entre a melhor não acumulável e a soma das acumuláveis, vale o maior desconto
+ * - O desconto nunca passa do valor bruto do item
+ *
+ * @param promotions Promoções do escopo do evento (PromotionRepository.findApplicable)
+ */
+export function applyPromotions(line: PromotionLine, promotions: Promotion[], now: Date): AppliedPromotions {
+  const candidates = promotions
+    .filter(promotion => isPromotionTarget(promotion, line) && isPromotionInEffect(promotion, now))
+    .map(promotion => ({ promotion, discount: calculatePromotionDiscount(promotion, line) }))
+    .filter(candidate => candidate.discount > 0);
+
+  const exclusive = candidates
+    .filter(candidate => candidate.promotion.int_stackable !== 1)
+    .reduce<AppliedPromotions>(
+      (best, candidate) => candidate.discount > best.discount
+        ? { discount: candidate.discount, names: [candidate.promotion.desc_name] }
+        : best,
+      NO_PROMOTION
+    );
+
+  const stacked = candidates
+    .filter(candidate => candidate.promotion.int_stackable === 1)
+    .reduce<AppliedPromotions>(
+      (total, candidate) => ({
+        discount: total.discount + candidate.discount,
+        names: [...total.names, candidate.promotion.desc_name]
+      }),
+      NO_PROMOTION
+    );
+
+  const chosen = stacked.discount > exclusive.discount ? stacked : exclusive;
+  const gross = line.unitPrice * line.quantity;
+  const discount = Math.round(Math.min(chosen.discount, gross) * 100) / 100;
+
+  return discount > 0 ? { discount, names: chosen.names } : NO_PROMOTION;
+}
@@ -0,0 +1,35 @@
+import { normalizeReadOnlyQuery } from './query-console.model';
+
+describe('normalizeReadOnlyQuery', () => {
+  it('aceita SELECT e WITH sem diferenciar maiúsculas', () => {
+    expect(normalizeReadOnlyQuery('select * from prd_sales')).toBe('select * from prd_sales');
+    expect(normalizeReadOnlyQuery('WITH t AS (SELECT 1) SELECT * FROM t')).toBe('WITH t AS (SELECT 1) SELECT * FROM t');
+  });
+
+  it('remove espaços e ponto e vírgula finais', () => {
+    expect(normalizeReadOnlyQuery('  SELECT 1 ;; \n ')).toBe('SELECT 1');
+  });
+
+  it('ignora comentários antes da palavra-chave, mantendo-os na consulta', () => {
+    const sql = '-- vendas do dia\n/* relatório */\nSELECT COUNT(*) FROM prd_sales';
+    expect(normalizeReadOnlyQuery(sql)).toBe(sql);
+  });
+
+  it('rejeita consulta vazia ou só com comentários', () => {
+    expect(() => normalizeReadOnlyQuery('  ; ')).toThrowError('Informe uma consulta SQL');
+    expect(() => normalizeReadOnlyQuery('-- nada\n/* nada */')).toThrowError('Informe uma consulta SQL');
+  });
+
+  it('rejeita comandos que não são SELECT/WITH', () => {
+    [
+      'DELETE FROM prd_sales',
+      'update prd_sales set num_quantity = 0',
+      'PRAGMA query_only = 0',
+      "ATTACH DATABASE 'x' AS y",
+      '/* SELECT */ DROP TABLE prd_sales',
+      'SELECTED'
+    ].forEach(sql => {
+      expect(() => normalizeReadOnlyQuery(sql)).withContext(sql).toThrowError('Somente consultas SELECT são permitidas no console');
+    });
+  });
+});
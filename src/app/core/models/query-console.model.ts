@@ -0,0 +1,73 @@
+// ========================================
+// src/app/core/models/query-console.model.ts
+// ========================================
+
+/**
+ * Consulta salva do console SQL (tabela prd_saved_queries)
+ */
+export interface SavedQuery {
+  num_id: number;
+  desc_name: string;                // Nome único escolhido pelo admin
+  desc_sql: string;
+  dt_created_at: string;            // ISO 8601
+  dt_updated_at: string;            // ISO 8601
+}
+
+/**
+ * Resultado de uma consulta do console
+ */
+export interface QueryConsoleResult {
+  columns: string[];
+  rows: unknown[][];
+  truncated: boolean;               // Mais linhas que o limite (só as primeiras foram lidas)
+  durationMs: number;
+}
+
+/**
+ * Máximo de linhas lidas por consulta do console
+ */
+export const QUERY_CONSOLE_ROW_LIMIT = 5000;
+
+/**
+ * Palavras-chave aceitas no início de uma consulta
+ */
+const READ_ONLY_KEYWORDS = ['SELECT', 'WITH'];
+
+/**
+ * Type guard para validar SavedQuery
+ */
+export function isSavedQuery(obj: any): obj is SavedQuery {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_id === 'number' &&
+    typeof obj.desc_name === 'string' &&
+    typeof obj.desc_sql === 'string' &&
+    typeof obj.dt_created_at === 'string' &&
+    typeof obj.dt_updated_at === 'string'
+  );
+}
+
+/**
+ * Valida e normaliza uma consulta do console (somente SELECT)
+ * Remove comentários iniciais e ponto e vírgula final. A execução ainda
+ * envolve a consulta em um SELECT externo, o que rejeita múltiplos
+ * comandos e CTEs que terminam em INSERT/UPDATE/DELETE.
+ *
+ * @throws Error se a consulta estiver vazia ou não começar com SELECT/WITH
+ */
+export function normalizeReadOnlyQuery(sql: string): string {
+  const normalized = sql.trim().replace(/[;\s]+$/, '');
+  const statement = normalized.replace(/^(\s+|--[^\n]*(\n|$)|\/\*[\s\S]*?\*\/)+/, '');
+
+  if (statement.length === 0) {
+    throw new Error('Informe uma consulta SQL');
+  }
+
+  const keyword = statement.match(/^[a-z]+/i)?.[0].toUpperCase() ?? '';
+  if (!READ_ONLY_KEYWORDS.includes(keyword)) {
+    throw new Error('Somente consultas SELECT são permitidas no console');
+  }
+
+  return normalized;
+}
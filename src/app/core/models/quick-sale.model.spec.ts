@@ -0,0 +1,117 @@
+import {
+  QuickSaleBinding,
+  QuickSaleSettings,
+  findShortcutBinding,
+  normalizeQuickSaleSettings,
+  parseComandaCode,
+  parseQuantityPrefix,
+  parseQuickSaleInput,
+  validateQuickSaleSettings
+} from './quick-sale.model';
+
+const PILSEN: QuickSaleBinding = { beerId: 1, cupSize: 500, shortcut: 'a', barcode: '7891234' };
+const IPA: QuickSaleBinding = { beerId: 2, cupSize: 300, shortcut: null, barcode: 'IPA300' };
+
+const SETTINGS: QuickSaleSettings = { enabled: true, comandaPrefix: 'C', bindings: [PILSEN, IPA] };
+
+const withBindings = (...bindings: QuickSaleBinding[]): QuickSaleSettings => ({ ...SETTINGS, bindings });
+
+describe('parseQuickSaleInput', () => {
+  it('Enter com a entrada vazia finaliza a venda', () => {
+    expect(parseQuickSaleInput('', SETTINGS)).toEqual({ type: 'finalize' });
+    expect(parseQuickSaleInput('   ', SETTINGS)).toEqual({ type: 'finalize' });
+  });
+
+  it('reconhece a comanda pelo prefixo, sem diferenciar maiúsculas', () => {
+    expect(parseQuickSaleInput('c12', SETTINGS)).toEqual({ type: 'comanda', numero: 12 });
+  });
+
+  it('reconhece o código com e sem quantidade', () => {
+    expect(parseQuickSaleInput('7891234', SETTINGS)).toEqual({ type: 'item', binding: PILSEN, quantity: 1 });
+    expect(parseQuickSaleInput('3*7891234', SETTINGS)).toEqual({ type: 'item', binding: PILSEN, quantity: 3 });
+    expect(parseQuickSaleInput('2ipa300', SETTINGS)).toEqual({ type: 'item', binding: IPA, quantity: 2 });
+  });
+
+  it('aceita a quantidade colada ao atalho', () => {
+    expect(parseQuickSaleInput('4A', SETTINGS)).toEqual({ type: 'item', binding: PILSEN, quantity: 4 });
+  });
+
+  it('devolve a entrada não reconhecida', () => {
+    expect(parseQuickSaleInput(' zz ', SETTINGS)).toEqual({ type: 'unknown', input: 'zz' });
+    expect(parseQuickSaleInput('C0', SETTINGS)).toEqual({ type: 'unknown', input: 'C0' });
+    expect(parseQuickSaleInput('0*7891234', SETTINGS)).toEqual({ type: 'unknown', input: '0*7891234' });
+  });
+});
+
+describe('findShortcutBinding', () => {
+  it('encontra o atalho de uma única tecla', () => {
+    expect(findShortcutBinding('A', SETTINGS)).toBe(PILSEN);
+    expect(findShortcutBinding('b', SETTINGS)).toBeNull();
+    expect(findShortcutBinding('Enter', SETTINGS)).toBeNull();
+  });
+});
+
+describe('parseQuantityPrefix', () => {
+  it('aceita de 1 a 99 (1 sem prefixo)', () => {
+    expect(parseQuantityPrefix('')).toBe(1);
+    expect(parseQuantityPrefix('12')).toBe(12);
+    expect(parseQuantityPrefix('0')).toBeNull();
+    expect(parseQuantityPrefix('100')).toBeNull();
+    expect(parseQuantityPrefix('3a')).toBeNull();
+  });
+});
+
+describe('parseComandaCode', () => {
+  it('exige o prefixo seguido do número', () => {
+    expect(parseComandaCode('CMD7', 'cmd')).toBe(7);
+    expect(parseComandaCode('12', 'C')).toBeNull();
+    expect(parseComandaCode('C12', '')).toBeNull();
+  });
+});
+
+describe('validateQuickSaleSettings', () => {
+  it('aceita a configuração válida', () => {
+    expect(() => validateQuickSaleSettings(SETTINGS)).not.toThrow();
+  });
+
+  it('exige prefixo de 1 a 3 letras', () => {
+    expect(() => validateQuickSaleSettings({ ...SETTINGS, comandaPrefix: '12' }))
+      .toThrowError('O prefixo da comanda deve ter de 1 a 3 letras (ex: C)');
+  });
+
+  it('recusa atalhos numéricos, repetidos ou iguais ao prefixo', () => {
+    expect(() => validateQuickSaleSettings(withBindings({ ...PILSEN, shortcut: '1' })))
+      .toThrowError('Atalho "1" inválido: use uma única tecla que não seja número');
+    expect(() => validateQuickSaleSettings(withBindings(PILSEN, { ...IPA, shortcut: 'A' })))
+      .toThrowError('O atalho "A" está em mais de um produto');
+    expect(() => validateQuickSaleSettings(withBindings({ ...PILSEN, shortcut: 'c' })))
+      .toThrowError('O atalho "C" conflita com o prefixo de comanda "C"');
+  });
+
+  it('recusa códigos que conflitam com comandas, atalhos ou outros códigos', () => {
+    expect(() => validateQuickSaleSettings(withBindings({ ...IPA, barcode: '3*IPA' })))
+      .toThrowError('Código "3*IPA" inválido: não use espaços nem "*"');
+    expect(() => validateQuickSaleSettings(withBindings({ ...IPA, barcode: 'c123' })))
+      .toThrowError('O código "C123" conflita com o prefixo de comanda "C"');
+    expect(() => validateQuickSaleSettings(withBindings(PILSEN, { ...IPA, barcode: '12A9' })))
+      .toThrowError('O código "12A9" conflita com o atalho "A"');
+    expect(() => validateQuickSaleSettings(withBindings(PILSEN, { ...IPA, barcode: '7891234' })))
+      .toThrowError('O código "7891234" está em mais de um produto');
+  });
+});
+
+describe('normalizeQuickSaleSettings', () => {
+  it('grava em maiúsculas e remove combinações sem atalho nem código', () => {
+    const normalized = normalizeQuickSaleSettings({
+      enabled: true,
+      comandaPrefix: ' c ',
+      bindings: [PILSEN, { beerId: 3, cupSize: 500, shortcut: ' ', barcode: '' }]
+    });
+
+    expect(normalized).toEqual({
+      enabled: true,
+      comandaPrefix: 'C',
+      bindings: [{ beerId: 1, cupSize: 500, shortcut: 'A', barcode: '7891234' }]
+    });
+  });
+});
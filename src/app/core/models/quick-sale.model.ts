@@ -0,0 +1,242 @@
+// ========================================
+// src/app/core/models/quick-sale.model.ts
+// ========================================
+
+import { CupSize } from './beer.model';
+
+/**
+ * Venda rápida pelo teclado ou leitor de código de barras
+ *
+ * Cada combinação produto/copo pode ter uma tecla de atalho (adiciona na
+ * hora) e/ou um código lido pelo leitor (que "digita" o código e Enter).
+ * Números digitados antes definem a quantidade ("3" + atalho, "3*código");
+ * Enter com a entrada vazia finaliza a venda. Comandas são lidas pelo
+ * prefixo + número ("C12").
+ *
+ * A configuração é por dispositivo (localStorage): cada caixa tem seu
+ * teclado e seu leitor.
+ */
+
+/**
+ * Atalho e código de uma combinação produto/copo
+ */
+export interface QuickSaleBinding {
+  beerId: number;
+  cupSize: CupSize;                 // UNIT_SALE_CUP_SIZE nos produtos unitários
+  shortcut: string | null;          // Uma tecla (letra ou símbolo, sem dígitos)
+  barcode: string | null;           // Código lido pelo leitor
+}
+
+/**
+ * Configuração da venda rápida neste dispositivo
+ */
+export interface QuickSaleSettings {
+  enabled: boolean;
+  comandaPrefix: string;            // "C" → "C12" seleciona a comanda 12
+  bindings: QuickSaleBinding[];
+}
+
+/**
+ * Comando reconhecido na entrada da venda rápida
+ */
+export type QuickSaleCommand =
+  | { type: 'item'; binding: QuickSaleBinding; quantity: number }
+  | { type: 'comanda'; numero: number }
+  | { type: 'finalize' }
+  | { type: 'unknown'; input: string };
+
+export const QUICK_SALE_STORAGE_KEY = 'blackbeer_quick_sale';
+
+export const DEFAULT_COMANDA_PREFIX = 'C';
+
+/**
+ * Maior quantidade aceita no prefixo numérico
+ */
+export const MAX_QUICK_SALE_QUANTITY = 99;
+
+/**
+ * Separador entre a quantidade e um código numérico ("3*7891234567890")
+ */
+export const QUANTITY_SEPARATOR = '*';
+
+export const DEFAULT_QUICK_SALE_SETTINGS: QuickSaleSettings = {
+  enabled: false,
+  comandaPrefix: DEFAULT_COMANDA_PREFIX,
+  bindings: []
+};
+
+/**
+ * Type guard para validar QuickSaleBinding
+ */
+export function isQuickSaleBinding(obj: any): obj is QuickSaleBinding {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.beerId === 'number' &&
+    typeof obj.cupSize === 'number' &&
+    (obj.shortcut === null || typeof obj.shortcut === 'string') &&
+    (obj.barcode === null || typeof obj.barcode === 'string')
+  );
+}
+
+/**
+ * Type guard para validar QuickSaleSettings (lido do localStorage)
+ */
+export function isQuickSaleSettings(obj: any): obj is QuickSaleSettings {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.enabled === 'boolean' &&
+    typeof obj.comandaPrefix === 'string' &&
+    Array.isArray(obj.bindings) &&
+    obj.bindings.every(isQuickSaleBinding)
+  );
+}
+
+/**
+ * Identificador da combinação produto/copo (mesmo formato do carrinho)
+ */
+export function getQuickSaleBindingKey(beerId: number, cupSize: CupSize): string {
+  return `${beerId}-${cupSize}`;
+}
+
+const normalizeCode = (code: string): string => code.trim().toUpperCase();
+
+/**
+ * Reconhece a entrada confirmada com Enter (código, comanda ou finalizar)
+ * Aceita "código", "3*código" e, em códigos que não começam com dígito, "3código".
+ */
+export function parseQuickSaleInput(input: string, settings: QuickSaleSettings): QuickSaleCommand {
+  const text = normalizeCode(input);
+  if (!text) return { type: 'finalize' };
+
+  const comanda = parseComandaCode(text, settings.comandaPrefix);
+  if (comanda !== null) return { type: 'comanda', numero: comanda };
+
+  const candidates: Array<{ quantity: number; code: string }> = [{ quantity: 1, code: text }];
+  const separated = text.match(/^(\d{1,2})\*(.+)$/);
+  if (separated) candidates.unshift({ quantity: Number(separated[1]), code: separated[2] });
+  const prefixed = text.match(/^(\d{1,2})(\D.*)$/);
+  if (prefixed) candidates.push({ quantity: Number(prefixed[1]), code: prefixed[2] });
+
+  for (const { quantity, code } of candidates) {
+    const binding = findBinding(settings, b => b.barcode !== null && normalizeCode(b.barcode) === code)
+      ?? findBinding(settings, b => b.shortcut !== null && normalizeCode(b.shortcut) === code);
+    if (binding && quantity >= 1 && quantity <= MAX_QUICK_SALE_QUANTITY) {
+      return { type: 'item', binding, quantity };
+    }
+  }
+
+  return { type: 'unknown', input: input.trim() };
+}
+
+/**
+ * Combinação da tecla de atalho pressionada (null se a tecla não for atalho)
+ */
+export function findShortcutBinding(key: string, settings: QuickSaleSettings): QuickSaleBinding | null {
+  if (key.length !== 1) return null;
+  const code = normalizeCode(key);
+  return findBinding(settings, binding => binding.shortcut !== null && normalizeCode(binding.shortcut) === code) ?? null;
+}
+
+/**
+ * Quantidade digitada antes do atalho (1 se não houver)
+ * @returns null se a entrada não for só o prefixo numérico
+ */
+export function parseQuantityPrefix(input: string): number | null {
+  const text = input.trim();
+  if (!text) return 1;
+  if (!/^\d{1,2}$/.test(text)) return null;
+  const quantity = Number(text);
+  return quantity >= 1 && quantity <= MAX_QUICK_SALE_QUANTITY ? quantity : null;
+}
+
+/**
+ * Número da comanda lida ("C12" → 12)
+ */
+export function parseComandaCode(input: string, prefix: string): number | null {
+  const normalizedPrefix = normalizeCode(prefix);
+  if (!normalizedPrefix) return null;
+
+  const text = normalizeCode(input);
+  if (!text.startsWith(normalizedPrefix)) return null;
+
+  const digits = text.slice(normalizedPrefix.length);
+  if (!/^\d{1,6}$/.test(digits)) return null;
+  const numero = Number(digits);
+  return numero > 0 ? numero : null;
+}
+
+/**
+ * Valida a configuração antes de gravar
+ * @throws Error com a primeira regra violada
+ */
+export function validateQuickSaleSettings(settings: QuickSaleSettings): void {
+  const prefix = normalizeCode(settings.comandaPrefix);
+  if (!/^[A-Z]{1,3}$/.test(prefix)) {
+    throw new Error('O prefixo da comanda deve ter de 1 a 3 letras (ex: C)');
+  }
+
+  const shortcuts = new Set<string>();
+  const barcodes = new Set<string>();
+
+  for (const binding of settings.bindings) {
+    if (binding.shortcut !== null) {
+      const shortcut = normalizeCode(binding.shortcut);
+      if (shortcut.length !== 1 || /[\d\s*]/.test(shortcut)) {
+        throw new Error(`Atalho "${binding.shortcut}" inválido: use uma única tecla que não seja número`);
+      }
+      if (shortcuts.has(shortcut)) {
+        throw new Error(`O atalho "${shortcut}" está em mais de um produto`);
+      }
+      if (shortcut === prefix[0]) {
+        throw new Error(`O atalho "${shortcut}" conflita com o prefixo de comanda "${prefix}"`);
+      }
+      shortcuts.add(shortcut);
+    }
+  }
+
+  // O atalho age já na tecla: o leitor não pode "digitar" um atalho antes do Enter
+  for (const binding of settings.bindings) {
+    if (binding.barcode !== null) {
+      const barcode = normalizeCode(binding.barcode);
+      if (!barcode || /\s|\*/.test(barcode)) {
+        throw new Error(`Código "${binding.barcode}" inválido: não use espaços nem "${QUANTITY_SEPARATOR}"`);
+      }
+      if (parseComandaCode(barcode, prefix) !== null) {
+        throw new Error(`O código "${barcode}" conflita com o prefixo de comanda "${prefix}"`);
+      }
+      const firstLetter = barcode.replace(/^\d+/, '')[0];
+      if (firstLetter !== undefined && shortcuts.has(firstLetter)) {
+        throw new Error(`O código "${barcode}" conflita com o atalho "${firstLetter}"`);
+      }
+      if (barcodes.has(barcode)) {
+        throw new Error(`O código "${barcode}" está em mais de um produto`);
+      }
+      barcodes.add(barcode);
+    }
+  }
+}
+
+/**
+ * Normaliza a configuração para gravação: códigos em maiúsculas,
+ * campos vazios como null e combinações sem atalho nem código removidas
+ */
+export function normalizeQuickSaleSettings(settings: QuickSaleSettings): QuickSaleSettings {
+  return {
+    enabled: settings.enabled,
+    comandaPrefix: normalizeCode(settings.comandaPrefix),
+    bindings: settings.bindings
+      .map(binding => ({
+        beerId: binding.beerId,
+        cupSize: binding.cupSize,
+        shortcut: binding.shortcut ? normalizeCode(binding.shortcut) || null : null,
+        barcode: binding.barcode ? normalizeCode(binding.barcode) || null : null
+      }))
+      .filter(binding => binding.shortcut !== null || binding.barcode !== null)
+  };
+}
+
+function findBinding(settings: QuickSaleSettings, predicate: (binding: QuickSaleBinding) => boolean): QuickSaleBinding | undefined {
+  return settings.bindings.find(predicate);
+}
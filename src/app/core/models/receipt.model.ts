@@ -0,0 +1,173 @@
+// ========================================
+// src/app/core/models/receipt.model.ts
+// ========================================
+
+import { ComandaWithItems } from './comanda.model';
+import { PaymentInput, PaymentMethod, calculateChange } from './payment.model';
+
+/**
+ * Recibo (não fiscal) de uma venda direta ou via de conferência de comanda
+ *
+ * O mesmo recibo é renderizado em ESC/POS (impressora térmica) ou em
+ * HTML (impressão pelo navegador). Valores em R$.
+ */
+
+/**
+ * Larguras de bobina suportadas (mm)
+ */
+export type ReceiptPaperWidth = 58 | 80;
+
+export const RECEIPT_PAPER_WIDTHS: readonly ReceiptPaperWidth[] = [58, 80];
+
+export const DEFAULT_RECEIPT_WIDTH: ReceiptPaperWidth = 80;
+
+/**
+ * Colunas de texto por linha (fonte A, 12×24 pontos)
+ */
+export const RECEIPT_COLUMNS: Record<ReceiptPaperWidth, number> = { 58: 32, 80: 48 };
+
+/**
+ * Largura imprimível em pontos (203 dpi)
+ */
+export const RECEIPT_DOTS: Record<ReceiptPaperWidth, number> = { 58: 384, 80: 576 };
+
+/**
+ * Item do recibo
+ */
+export interface ReceiptItem {
+  description: string;              // "Pilsen (300ml)"
+  quantity: number;
+  unitPrice: number;
+  discount: number;                 // Desconto das promoções
+  total: number;                    // unitPrice * quantity - discount
+}
+
+/**
+ * Pagamento impresso no recibo
+ */
+export interface ReceiptPayment {
+  method: PaymentMethod;
+  amount: number;
+  change: number;
+}
+
+/**
+ * Conteúdo do recibo, independente do formato de saída
+ */
+export interface Receipt {
+  title: string;                    // "RECIBO" ou "COMANDA 12"
+  companyName: string | null;
+  timestamp: string;                // ISO 8601
+  items: ReceiptItem[];
+  subtotal: number;                 // Itens antes dos descontos
+  discount: number;
+  serviceRate: number;              // Taxa de serviço (%)
+  serviceCharge: number;
+  tip: number;
+  total: number;                    // Valor da conta
+  payments: ReceiptPayment[];
+  pixPayload: string | null;        // BR Code do valor em aberto (QR Code no rodapé)
+  footer: string | null;
+}
+
+/**
+ * Dados comuns informados por quem gera o recibo
+ */
+export interface ReceiptContext {
+  companyName: string | null;
+  timestamp?: string;
+  pixPayload?: string | null;
+  footer?: string | null;
+}
+
+export const RECEIPT_FOOTER = 'Obrigado pela preferência!';
+
+/**
+ * Type guard para a largura da bobina
+ */
+export function isReceiptPaperWidth(value: unknown): value is ReceiptPaperWidth {
+  return RECEIPT_PAPER_WIDTHS.includes(value as ReceiptPaperWidth);
+}
+
+const toCents = (value: number): number => Math.round(value * 100);
+const sumCents = (values: number[]): number => values.reduce((sum, value) => sum + toCents(value), 0) / 100;
+
+function toReceiptPayments(payments: PaymentInput[]): ReceiptPayment[] {
+  return payments.map(payment => ({
+    method: payment.method,
+    amount: payment.amount,
+    change: calculateChange(payment)
+  }));
+}
+
+/**
+ * Recibo de uma venda direta (itens do carrinho e pagamentos)
+ */
+export function buildSaleReceipt(items: ReceiptItem[], payments: PaymentInput[], context: ReceiptContext): Receipt {
+  return {
+    title: 'RECIBO',
+    companyName: context.companyName,
+    timestamp: context.timestamp ?? new Date().toISOString(),
+    items,
+    subtotal: sumCents(items.map(item => item.unitPrice * item.quantity)),
+    discount: sumCents(items.map(item => item.discount)),
+    serviceRate: 0,
+    serviceCharge: 0,
+    tip: 0,
+    total: sumCents(items.map(item => item.total)),
+    payments: toReceiptPayments(payments),
+    pixPayload: context.pixPayload ?? null,
+    footer: context.footer ?? RECEIPT_FOOTER
+  };
+}
+
+/**
+ * Via de conferência de uma comanda (itens, taxa de serviço e gorjeta)
+ * Itens estornados já vêm descontados em ComandaWithItems.
+ */
+export function buildComandaReceipt(comanda: ComandaWithItems, payments: PaymentInput[], context: ReceiptContext): Receipt {
+  const items: ReceiptItem[] = comanda.items.map(item => {
+    const gross = item.num_unit_price * item.num_quantity;
+    return {
+      description: `${item.desc_beer_name} (${item.desc_cup_size_label})`,
+      quantity: item.num_quantity,
+      unitPrice: item.num_unit_price,
+      discount: Math.max(0, (toCents(gross) - toCents(item.num_total_price)) / 100),
+      total: item.num_total_price
+    };
+  });
+
+  return {
+    title: `COMANDA ${comanda.num_numero}`,
+    companyName: context.companyName,
+    timestamp: context.timestamp ?? new Date().toISOString(),
+    items,
+    subtotal: sumCents(items.map(item => item.unitPrice * item.quantity)),
+    discount: sumCents(items.map(item => item.discount)),
+    serviceRate: comanda.num_service_rate,
+    serviceCharge: comanda.num_service_charge,
+    tip: comanda.num_tip,
+    total: comanda.num_total_value,
+    payments: toReceiptPayments(payments),
+    pixPayload: context.pixPayload ?? null,
+    footer: context.footer ?? RECEIPT_FOOTER
+  };
+}
+
+/**
+ * Valor em reais no padrão brasileiro ("R$ 1.234,50")
+ */
+export function formatReceiptMoney(value: number): string {
+  const [integer, decimals] = Math.abs(value).toFixed(2).split('.');
+  const grouped = integer.replace(/\B(?=(\d{3})+(?!\d))/g, '.');
+  return `${value < 0 ? '-' : ''}R$ ${grouped},${decimals}`;
+}
+
+/**
+ * Data e hora do recibo ("18/10/2026 21:05")
+ */
+export function formatReceiptDate(timestamp: string): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
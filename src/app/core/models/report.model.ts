@@ -2,6 +2,8 @@
 // src/app/core/models/report.model.ts
 // ========================================
 
+import { ProductKind, isProductKind } from './beer.model';
+
 /**
  * Resumo geral das vendas
  * Convenção de nomenclatura:
@@ -10,13 +12,15 @@
 export interface SalesSummary {
   num_total_sales: number;
   num_total_volume_liters: number;
+  num_total_units: number;          // Itens de produtos unitários vendidos
 }
 
 /**
- * Vendas agrupadas por tamanho de copo
+ * Vendas agrupadas por tamanho de copo (somente chope)
  */
 export interface SalesByCupSize {
-  num_cup_size: number;
+  num_cup_size: number;             // Volume em ml
+  desc_label: string;               // Nome no catálogo de tamanhos (ou volume formatado)
   num_count: number;
 }
 
@@ -31,19 +35,66 @@ export interface SalesByBeerType {
   desc_name: string;
   desc_color: string;
   desc_description: string;
+  desc_kind: ProductKind;
   num_total_liters: number;
-  num_total_cups: number;
+  num_total_cups: number;       // copos (chope) ou unidades (produto unitário)
   num_total_revenue: number;    // valor total em R$ deste tipo de cerveja
 }
 
+/**
+ * Descontos concedidos agrupados pelas promoções aplicadas
+ */
+export interface SalesByPromotion {
+  desc_promotions: string;          // Promoções da venda ("Happy Hour + Combo")
+  num_sales: number;
+  num_discount: number;             // Desconto total em R$
+}
+
+/**
+ * Valores recebidos agrupados por forma de pagamento (prd_payments)
+ */
+export interface SalesByPaymentMethod {
+  desc_method: string;              // PaymentMethod
+  num_payments: number;
+  num_amount: number;               // Valor recebido em R$ (sem o troco)
+  num_change: number;               // Troco devolvido em R$
+}
+
+/**
+ * Taxa de serviço e gorjetas por atendente (prd_bill_charges)
+ * Ficam fora da receita dos produtos; o atendente é quem fechou a comanda.
+ */
+export interface ServiceChargeByUser {
+  num_user_id: number;
+  desc_username: string;
+  num_bills: number;                // Contas com taxa ou gorjeta
+  num_service_charge: number;       // Taxa de serviço em R$
+  num_tip: number;                  // Gorjetas em R$
+}
+
+/**
+ * Estornos do período (prd_sale_voids), exibidos à parte das vendas
+ * As vendas estornadas continuam nos totais brutos; a receita líquida
+ * é o total de vendas menos num_amount.
+ */
+export interface SalesVoidSummary {
+  num_voids: number;
+  num_quantity: number;             // Copos e unidades estornados
+  num_liters: number;               // Litros devolvidos ao estoque
+  num_amount: number;               // Valor estornado em R$
+}
+
 /**
  * Relatório completo com todos os dados agregados
- * SEM MUDANÇAS - estrutura mantida
  */
 export interface FullReport {
   summary: SalesSummary;
   salesByCupSize: SalesByCupSize[];
   salesByBeerType: SalesByBeerType[];
+  salesByPromotion: SalesByPromotion[];
+  salesByPaymentMethod: SalesByPaymentMethod[];
+  serviceChargesByUser: ServiceChargeByUser[];
+  voids: SalesVoidSummary;
 }
 
 /**
@@ -171,6 +222,7 @@ export function isSalesByBeerType(obj: any): obj is SalesByBeerType {
     typeof obj.desc_name === 'string' &&
     typeof obj.desc_color === 'string' &&
     typeof obj.desc_description === 'string' &&
+    isProductKind(obj.desc_kind) &&
     typeof obj.num_total_liters === 'number' &&
     typeof obj.num_total_cups === 'number'
   );
@@ -186,6 +238,87 @@ export function isFullReport(obj: any): obj is FullReport {
     obj !== null &&
     typeof obj.summary === 'object' &&
     Array.isArray(obj.salesByCupSize) &&
-    Array.isArray(obj.salesByBeerType)
+    Array.isArray(obj.salesByBeerType) &&
+    Array.isArray(obj.salesByPromotion) &&
+    Array.isArray(obj.salesByPaymentMethod) &&
+    Array.isArray(obj.serviceChargesByUser) &&
+    typeof obj.voids === 'object'
   );
-}
\ No newline at end of file
+}
+/**
+ * Vendas de um dia agrupadas por usuário (relatório CSV detalhado)
+ */
+export interface SalesDetail {
+  saleDate: string;          // AAAA-MM-DD
+  username: string;
+  salesCount: number;
+  totalQuantity: number;
+  totalLiters: number;
+  totalRevenue: number;
+}
+
+/**
+ * Vendas diárias vinculadas a um evento
+ */
+export interface EventSalesDetail extends SalesDetail {
+  eventId: number;
+  nameEvent: string;
+  localEvent: string;
+  dataEvent: string;
+}
+
+/**
+ * Totais de vendas de um evento
+ */
+export interface EventSalesTotals {
+  eventId: number;
+  nameEvent: string;
+  salesCount: number;
+  totalQuantity: number;
+  totalLiters: number;
+  totalRevenue: number;
+}
+
+/**
+ * Type guard para SalesDetail
+ */
+export function isSalesDetail(obj: any): obj is SalesDetail {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.saleDate === 'string' &&
+    typeof obj.username === 'string' &&
+    typeof obj.salesCount === 'number' &&
+    typeof obj.totalQuantity === 'number' &&
+    typeof obj.totalLiters === 'number' &&
+    typeof obj.totalRevenue === 'number'
+  );
+}
+
+/**
+ * Type guard para EventSalesDetail
+ */
+export function isEventSalesDetail(obj: any): obj is EventSalesDetail {
+  return (
+    isSalesDetail(obj) &&
+    typeof (obj as EventSalesDetail).eventId === 'number' &&
+    typeof (obj as EventSalesDetail).nameEvent === 'string' &&
+    typeof (obj as EventSalesDetail).localEvent === 'string' &&
+    typeof (obj as EventSalesDetail).dataEvent === 'string'
+  );
+}
+
+/**
+ * Type guard para EventSalesTotals
+ */
+export function isEventSalesTotals(obj: any): obj is EventSalesTotals {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.eventId === 'number' &&
+    typeof obj.nameEvent === 'string' &&
+    typeof obj.salesCount === 'number' &&
+    typeof obj.totalLiters === 'number' &&
+    typeof obj.totalRevenue === 'number'
+  );
+}
@@ -0,0 +1,60 @@
+import { calculateVoidAmount, calculateVoidVolume, getVoidableQuantity, validateSaleVoid } from './sale-void.model';
+
+describe('calculateVoidAmount', () => {
+  const sale = { num_quantity: 3, num_voided_quantity: 0, num_total_price: 10 };
+
+  it('é proporcional ao total pago', () => {
+    expect(calculateVoidAmount({ num_quantity: 4, num_voided_quantity: 0, num_total_price: 50 }, 1)).toBe(12.5);
+    expect(calculateVoidAmount(sale, 3)).toBe(10);
+  });
+
+  it('acumula o arredondamento: estornos parciais somam exatamente o total', () => {
+    const first = calculateVoidAmount(sale, 1);
+    const second = calculateVoidAmount({ ...sale, num_voided_quantity: 1 }, 1);
+    const third = calculateVoidAmount({ ...sale, num_voided_quantity: 2 }, 1);
+
+    expect([first, second, third]).toEqual([3.33, 3.34, 3.33]);
+    expect(Math.round((first + second + third) * 100)).toBe(1000);
+  });
+
+  it('usa o total já com desconto e é zero em venda sem copos', () => {
+    expect(calculateVoidAmount({ num_quantity: 2, num_voided_quantity: 0, num_total_price: 18 }, 1)).toBe(9);
+    expect(calculateVoidAmount({ num_quantity: 0, num_voided_quantity: 0, num_total_price: 10 }, 1)).toBe(0);
+  });
+});
+
+describe('calculateVoidVolume', () => {
+  it('devolve o volume proporcional aos copos', () => {
+    expect(calculateVoidVolume({ num_quantity: 2, num_total_volume: 1000 }, 1)).toBe(500);
+  });
+});
+
+describe('getVoidableQuantity', () => {
+  it('desconta os copos já estornados', () => {
+    expect(getVoidableQuantity({ num_quantity: 5, num_voided_quantity: 2 })).toBe(3);
+    expect(getVoidableQuantity({ num_quantity: 5, num_voided_quantity: 5 })).toBe(0);
+  });
+});
+
+describe('validateSaleVoid', () => {
+  const sale = { num_quantity: 3, num_voided_quantity: 1 };
+
+  it('aceita um estorno dentro do disponível com motivo', () => {
+    expect(() => validateSaleVoid(sale, 2, 'Copo derramado')).not.toThrow();
+  });
+
+  it('recusa venda já estornada por completo', () => {
+    expect(() => validateSaleVoid({ num_quantity: 3, num_voided_quantity: 3 }, 1, 'Copo derramado'))
+      .toThrowError('Esta venda já foi estornada');
+  });
+
+  it('recusa quantidade inválida ou acima do disponível', () => {
+    expect(() => validateSaleVoid(sale, 0, 'Copo derramado')).toThrowError('Informe a quantidade a estornar');
+    expect(() => validateSaleVoid(sale, 1.5, 'Copo derramado')).toThrowError('Informe a quantidade a estornar');
+    expect(() => validateSaleVoid(sale, 3, 'Copo derramado')).toThrowError('Só é possível estornar até 2 item(ns) desta venda');
+  });
+
+  it('exige motivo com o tamanho mínimo (sem contar espaços)', () => {
+    expect(() => validateSaleVoid(sale, 1, '  erro  ')).toThrowError('Informe o motivo do estorno (mínimo 5 caracteres)');
+  });
+});
@@ -0,0 +1,126 @@
+// ========================================
+// src/app/core/models/sale-void.model.ts
+// ========================================
+
+import { Sale } from './beer.model';
+import { LoginDto, UserRole } from './user.model';
+
+/**
+ * Estorno (total ou parcial) de uma venda (tabela prd_sale_voids)
+ * Convenção de nomenclatura:
+ * - num_ : Colunas INTEGER e REAL
+ * - desc_ : Colunas TEXT (dados gerais)
+ * - dt_ : Colunas TEXT de data
+ *
+ * A venda original continua em prd_sales com num_voided_quantity somando
+ * os copos estornados; cada estorno guarda motivo, operador e quem autorizou.
+ */
+export interface SaleVoid {
+  num_id: number;
+  num_sale_id: number;              // Venda estornada (prd_sales.num_id)
+  num_beer_id: number;
+  desc_beer_name: string;
+  num_quantity: number;             // Copos (ou unidades) estornados
+  num_total_volume: number;         // ml devolvidos ao estoque (0 em produtos unitários)
+  num_amount: number;               // Valor estornado (R$)
+  desc_reason: string;
+  num_user_id: number;              // Operador que registrou o estorno
+  num_authorized_by: number;        // Gestor/admin que autorizou
+  num_comanda_id: number | null;    // Comanda em aberto da venda (null = venda paga)
+  num_event_id: number | null;
+  dt_timestamp: string;             // ISO 8601
+}
+
+/**
+ * Pedido de estorno informado no caixa
+ */
+export interface SaleVoidRequest {
+  quantity: number;                 // Copos a estornar
+  reason: string;
+  authorization: LoginDto;          // Credenciais do gestor/admin que autoriza
+}
+
+/**
+ * Papéis que podem autorizar estornos
+ */
+export const VOID_AUTHORIZER_ROLES: readonly UserRole[] = ['gestor', 'admin'];
+
+/**
+ * Tamanho mínimo do motivo do estorno
+ */
+export const MIN_VOID_REASON_LENGTH = 5;
+
+/**
+ * Type guard para validar SaleVoid
+ */
+export function isSaleVoid(obj: any): obj is SaleVoid {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_id === 'number' &&
+    typeof obj.num_sale_id === 'number' &&
+    typeof obj.desc_beer_name === 'string' &&
+    typeof obj.num_quantity === 'number' &&
+    typeof obj.num_amount === 'number' &&
+    typeof obj.desc_reason === 'string' &&
+    typeof obj.num_user_id === 'number' &&
+    typeof obj.num_authorized_by === 'number' &&
+    typeof obj.dt_timestamp === 'string'
+  );
+}
+
+const toCents = (value: number): number => Math.round(value * 100);
+
+/**
+ * Copos da venda que ainda podem ser estornados
+ */
+export function getVoidableQuantity(sale: Pick<Sale, 'num_quantity' | 'num_voided_quantity'>): number {
+  return Math.max(0, sale.num_quantity - (sale.num_voided_quantity ?? 0));
+}
+
+/**
+ * Valor estornado ao devolver `quantity` copos
+ * Proporcional ao total pago (já com desconto); o arredondamento é
+ * acumulado, de modo que estornar todos os copos devolve exatamente o total.
+ */
+export function calculateVoidAmount(
+  sale: Pick<Sale, 'num_quantity' | 'num_voided_quantity' | 'num_total_price'>,
+  quantity: number
+): number {
+  if (sale.num_quantity <= 0) return 0;
+  const voided = sale.num_voided_quantity ?? 0;
+  const totalCents = toCents(sale.num_total_price);
+  const amountUntil = (cups: number) => Math.round(totalCents * cups / sale.num_quantity);
+  return (amountUntil(voided + quantity) - amountUntil(voided)) / 100;
+}
+
+/**
+ * Volume (ml) devolvido ao estoque ao estornar `quantity` copos
+ */
+export function calculateVoidVolume(sale: Pick<Sale, 'num_quantity' | 'num_total_volume'>, quantity: number): number {
+  return sale.num_quantity > 0 ? sale.num_total_volume * quantity / sale.num_quantity : 0;
+}
+
+/**
+ * Valida um pedido de estorno
+ * @throws Error com a primeira regra violada
+ */
+export function validateSaleVoid(
+  sale: Pick<Sale, 'num_quantity' | 'num_voided_quantity'>,
+  quantity: number,
+  reason: string
+): void {
+  const available = getVoidableQuantity(sale);
+  if (available === 0) {
+    throw new Error('Esta venda já foi estornada');
+  }
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new Error('Informe a quantidade a estornar');
+  }
+  if (quantity > available) {
+    throw new Error(`Só é possível estornar até ${available} item(ns) desta venda`);
+  }
+  if (reason.trim().length < MIN_VOID_REASON_LENGTH) {
+    throw new Error(`Informe o motivo do estorno (mínimo ${MIN_VOID_REASON_LENGTH} caracteres)`);
+  }
+}
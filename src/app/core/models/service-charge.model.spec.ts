@@ -0,0 +1,46 @@
+import { calculateAmountDue, calculateServiceCharge, validateComandaClosing, validateServiceRate } from './service-charge.model';
+
+describe('calculateServiceCharge', () => {
+  it('aplica o percentual sobre os itens, arredondado ao centavo', () => {
+    expect(calculateServiceCharge(100, 10)).toBe(10);
+    expect(calculateServiceCharge(123.45, 10)).toBe(12.35);
+    expect(calculateServiceCharge(0.1 + 0.2, 10)).toBe(0.03);
+  });
+
+  it('é zero sem taxa ou sem itens', () => {
+    expect(calculateServiceCharge(100, 0)).toBe(0);
+    expect(calculateServiceCharge(0, 10)).toBe(0);
+    expect(calculateServiceCharge(100, NaN)).toBe(0);
+  });
+});
+
+describe('calculateAmountDue', () => {
+  it('soma itens, taxa de serviço e gorjeta em centavos', () => {
+    expect(calculateAmountDue(123.45, 10, 5)).toBe(140.8);
+    expect(calculateAmountDue(0.1 + 0.2, 0, 0.1)).toBe(0.4);
+  });
+
+  it('sem taxa nem gorjeta é o valor dos itens', () => {
+    expect(calculateAmountDue(57.9, 0, 0)).toBe(57.9);
+  });
+});
+
+describe('validateServiceRate', () => {
+  it('aceita de 0% a 100%', () => {
+    expect(() => validateServiceRate(0)).not.toThrow();
+    expect(() => validateServiceRate(100)).not.toThrow();
+  });
+
+  it('recusa percentual negativo, acima do máximo ou inválido', () => {
+    [-1, 100.5, NaN].forEach(rate => {
+      expect(() => validateServiceRate(rate)).withContext(String(rate)).toThrowError('A taxa de serviço deve estar entre 0% e 100%');
+    });
+  });
+});
+
+describe('validateComandaClosing', () => {
+  it('recusa gorjeta negativa', () => {
+    expect(() => validateComandaClosing({ serviceRate: 10, tip: 0 })).not.toThrow();
+    expect(() => validateComandaClosing({ serviceRate: 10, tip: -2 })).toThrowError('A gorjeta não pode ser negativa');
+  });
+});
@@ -0,0 +1,118 @@
+// ========================================
+// src/app/core/models/service-charge.model.ts
+// ========================================
+
+/**
+ * Taxa de serviço configurada (tabela config_service_charge)
+ * Convenção de nomenclatura:
+ * - num_ : Colunas INTEGER e REAL
+ * - dt_ : Colunas TEXT de data
+ *
+ * num_event_id NULL = taxa geral, usada quando o evento não tem a sua.
+ */
+export interface ServiceChargeConfig {
+  num_id: number;
+  num_event_id: number | null;
+  num_rate: number;                 // Percentual sobre os itens (0 = sem taxa)
+  dt_updated_at: string;
+}
+
+/**
+ * Taxa de serviço e gorjeta informadas ao fechar uma comanda
+ */
+export interface ComandaClosingInput {
+  serviceRate: number;              // Percentual aplicado (0 = cliente dispensou a taxa)
+  tip: number;                      // Gorjeta livre em R$
+}
+
+/**
+ * Taxa de serviço e gorjeta de uma conta paga (tabela prd_bill_charges)
+ * Ficam à parte da receita dos produtos (prd_sales); os pagamentos
+ * da conta (mesmo desc_bill_id) cobrem itens + taxa + gorjeta.
+ */
+export interface BillCharge {
+  num_id: number;
+  desc_bill_id: string;             // Conta paga (prd_payments.desc_bill_id)
+  num_comanda_id: number | null;
+  num_items_total: number;          // Valor dos itens (R$, já sem estornos)
+  num_service_rate: number;         // Percentual aplicado
+  num_service_charge: number;       // Taxa de serviço (R$)
+  num_tip: number;                  // Gorjeta (R$)
+  num_user_id: number;              // Atendente que fechou a comanda
+  num_event_id: number | null;
+  dt_timestamp: string;             // ISO 8601 (pagamento)
+}
+
+/**
+ * Percentual máximo aceito para a taxa de serviço
+ */
+export const MAX_SERVICE_RATE = 100;
+
+/**
+ * Type guard para validar ServiceChargeConfig
+ */
+export function isServiceChargeConfig(obj: any): obj is ServiceChargeConfig {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_id === 'number' &&
+    typeof obj.num_rate === 'number' &&
+    typeof obj.dt_updated_at === 'string'
+  );
+}
+
+/**
+ * Type guard para validar BillCharge
+ */
+export function isBillCharge(obj: any): obj is BillCharge {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_id === 'number' &&
+    typeof obj.desc_bill_id === 'string' &&
+    typeof obj.num_items_total === 'number' &&
+    typeof obj.num_service_rate === 'number' &&
+    typeof obj.num_service_charge === 'number' &&
+    typeof obj.num_tip === 'number' &&
+    typeof obj.num_user_id === 'number' &&
+    typeof obj.dt_timestamp === 'string'
+  );
+}
+
+const toCents = (value: number): number => Math.round(value * 100);
+
+/**
+ * Taxa de serviço (R$) sobre o valor dos itens, arredondada ao centavo
+ */
+export function calculateServiceCharge(itemsTotal: number, rate: number): number {
+  if (!(rate > 0) || !(itemsTotal > 0)) return 0;
+  return Math.round(toCents(itemsTotal) * rate / 100) / 100;
+}
+
+/**
+ * Total a pagar: itens + taxa de serviço + gorjeta
+ */
+export function calculateAmountDue(itemsTotal: number, rate: number, tip: number): number {
+  return (toCents(itemsTotal) + toCents(calculateServiceCharge(itemsTotal, rate)) + toCents(tip)) / 100;
+}
+
+/**
+ * Valida o percentual da taxa de serviço
+ * @throws Error se estiver fora de 0–MAX_SERVICE_RATE
+ */
+export function validateServiceRate(rate: number): void {
+  if (!Number.isFinite(rate) || rate < 0 || rate > MAX_SERVICE_RATE) {
+    throw new Error(`A taxa de serviço deve estar entre 0% e ${MAX_SERVICE_RATE}%`);
+  }
+}
+
+/**
+ * Valida a taxa e a gorjeta informadas no fechamento da comanda
+ * @throws Error com a primeira regra violada
+ */
+export function validateComandaClosing(input: ComandaClosingInput): void {
+  validateServiceRate(input.serviceRate);
+  if (!Number.isFinite(input.tip) || input.tip < 0) {
+    throw new Error('A gorjeta não pode ser negativa');
+  }
+}
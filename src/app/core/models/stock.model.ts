@@ -0,0 +1,126 @@
+// ========================================
+// src/app/core/models/stock.model.ts
+// ========================================
+
+/**
+ * Estoque de uma cerveja (tabela config_event_sale)
+ * Convenção de nomenclatura:
+ * - num_ : Colunas INTEGER e REAL
+ * - desc_ : Colunas TEXT (dados gerais)
+ * - dt_ : Colunas TEXT com DEFAULT CURRENT_TIMESTAMP
+ */
+export interface EventStock {
+  num_id: number;
+  num_beer_id: number;              // FK para prd_beer_types.num_id
+  desc_beer_name: string;
+  num_quantidade_litros: number;    // Litros disponíveis
+  num_min_liters_alert: number;     // Limite individual para alerta de estoque baixo
+  num_event_id: number | null;      // FK para prd_events (null = estoque geral)
+  dt_created_at: string;
+  dt_updated_at: string;
+}
+
+/**
+ * Estoque de um produto vendido por unidade (tabela config_event_unit_stock)
+ */
+export interface UnitStock {
+  num_id: number;
+  num_beer_id: number;              // FK para prd_beer_types.num_id (desc_kind = 'unit')
+  desc_beer_name: string;
+  num_quantity: number;             // Unidades disponíveis
+  num_min_units_alert: number;      // Limite para alerta de estoque baixo
+  num_event_id: number | null;      // FK para prd_events (null = estoque geral)
+  dt_created_at: string;
+  dt_updated_at: string;
+}
+
+/**
+ * Cerveja com estoque abaixo do limite configurado
+ * Formato usado pelos templates de alerta
+ */
+export interface StockAlert {
+  beerId: number;
+  beerName: string;
+  quantidadeLitros: number;
+  color: string;
+}
+
+/**
+ * Configuração global do alerta de estoque (tabela config_stock_alert)
+ */
+export interface StockAlertConfig {
+  num_id: number;
+  num_min_liters: number;
+  dt_updated_at: string;
+}
+
+/**
+ * Limite padrão de alerta (litros)
+ */
+export const DEFAULT_MIN_LITERS_ALERT = 5.0;
+
+/**
+ * Limite padrão de alerta dos produtos unitários (unidades)
+ */
+export const DEFAULT_MIN_UNITS_ALERT = 10;
+
+/**
+ * Type guard para validar EventStock
+ */
+export function isEventStock(obj: any): obj is EventStock {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_id === 'number' &&
+    typeof obj.num_beer_id === 'number' &&
+    typeof obj.desc_beer_name === 'string' &&
+    typeof obj.num_quantidade_litros === 'number' &&
+    obj.num_quantidade_litros >= 0 &&
+    typeof obj.num_min_liters_alert === 'number' &&
+    (obj.num_event_id === null || typeof obj.num_event_id === 'number')
+  );
+}
+
+/**
+ * Type guard para validar UnitStock
+ */
+export function isUnitStock(obj: any): obj is UnitStock {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_id === 'number' &&
+    typeof obj.num_beer_id === 'number' &&
+    typeof obj.desc_beer_name === 'string' &&
+    Number.isInteger(obj.num_quantity) &&
+    obj.num_quantity >= 0 &&
+    typeof obj.num_min_units_alert === 'number' &&
+    (obj.num_event_id === null || typeof obj.num_event_id === 'number')
+  );
+}
+
+/**
+ * Type guard para validar StockAlert
+ */
+export function isStockAlert(obj: any): obj is StockAlert {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.beerId === 'number' &&
+    typeof obj.beerName === 'string' &&
+    typeof obj.quantidadeLitros === 'number' &&
+    typeof obj.color === 'string'
+  );
+}
+
+/**
+ * Type guard para validar StockAlertConfig
+ */
+export function isStockAlertConfig(obj: any): obj is StockAlertConfig {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_id === 'number' &&
+    typeof obj.num_min_liters === 'number' &&
+    obj.num_min_liters >= 0
+  );
+}
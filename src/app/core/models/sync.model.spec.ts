@@ -0,0 +1,21 @@
+import { isSyncChange } from './sync.model';
+
+describe('isSyncChange', () => {
+  const stockChange = (amount: Record<string, unknown>) => ({
+    opId: 'op-1',
+    entity: 'stock',
+    createdAt: '2026-10-18T20:00:00.000Z',
+    payload: { beerSyncId: 'beer-1', eventSyncId: null, beerName: 'Long Neck', mode: 'adjust', ...amount }
+  });
+
+  it('aceita alteração de estoque em litros ou em unidades', () => {
+    expect(isSyncChange(stockChange({ liters: -0.5 }))).toBeTrue();
+    expect(isSyncChange(stockChange({ units: -3 }))).toBeTrue();
+  });
+
+  it('rejeita alteração de estoque sem quantidade ou com litros e unidades', () => {
+    expect(isSyncChange(stockChange({}))).toBeFalse();
+    expect(isSyncChange(stockChange({ liters: 1, units: 1 }))).toBeFalse();
+    expect(isSyncChange(stockChange({ units: '3' }))).toBeFalse();
+  });
+});
@@ -0,0 +1,388 @@
+// src/app/core/models/sync.model.ts
+import { ComandaStatus } from './comanda.model';
+import { EventStatus } from './event.model';
+import { ProductKind } from './beer.model';
+import { PAYMENT_METHODS, PaymentMethod } from './payment.model';
+
+/**
+ * Sincronização entre terminais (tablets) via servidor
+ *
+ * Compartilhado entre o app (SyncService) e o servidor (src/server/sync-*).
+ * Os IDs locais (AUTOINCREMENT) diferem entre os terminais: cervejas e
+ * eventos são identificados pelo desc_sync_id, propagado pelas alterações
+ * de catálogo (beer/event); vendas pelo desc_sync_id da venda; comandas pelo
+ * número impresso e usuários pelo username. Uma alteração que cita uma
+ * cerveja ou evento ainda desconhecido neste terminal fica estacionada
+ * (prd_sync_parked) até o cadastro chegar; o mesmo vale para estornos e
+ * contas pagas que citam uma venda ainda não recebida.
+ *
+ * O servidor é a referência do catálogo: uma cerveja cadastrada em dois
+ * terminais com o mesmo nome (nome é único) fica com o identificador da
+ * primeira a chegar e o outro vira apelido (resolvedSyncId no push).
+ */
+
+/**
+ * Entidades sincronizadas
+ */
+export const SYNC_ENTITIES = ['sale', 'stock', 'comanda', 'beer', 'event', 'void', 'bill'] as const;
+
+export type SyncEntity = typeof SYNC_ENTITIES[number];
+
+/**
+ * Entidades do catálogo (identificadas pelo desc_sync_id)
+ */
+export type SyncCatalogEntity = 'beer' | 'event';
+
+/**
+ * Venda registrada em um terminal (somente inclusão)
+ */
+export interface SyncSalePayload {
+  saleUid: string;              // desc_sync_id da venda (único entre terminais)
+  beerSyncId: string;
+  beerName: string;
+  cupSize: number;
+  quantity: number;
+  totalVolume: number;          // ml
+  unitPrice?: number;           // R$ (ausente em terminais sem preço na venda)
+  totalPrice?: number;          // R$ (líquido, após o desconto)
+  discount?: number;            // R$ (ausente em terminais sem promoções)
+  promotions?: string | null;   // Promoções aplicadas
+  timestamp: string;            // ISO 8601
+  comandaNumero: number | null;
+  username: string | null;
+  eventSyncId: string | null;
+  eventName: string | null;
+}
+
+/**
+ * Estorno de copos de uma venda (somente inclusão)
+ * A devolução ao estoque segue à parte, como ajuste de estoque (stock).
+ */
+export interface SyncVoidPayload {
+  voidUid: string;              // desc_sync_id do estorno
+  saleUid: string;
+  quantity: number;
+  totalVolume: number;          // ml
+  amount: number;               // R$
+  reason: string;
+  username: string | null;
+  authorizedBy: string | null;  // Username do gestor/admin que autorizou
+  timestamp: string;            // ISO 8601
+}
+
+/**
+ * Pagamento de uma conta paga
+ */
+export interface SyncBillPayment {
+  method: PaymentMethod;
+  amount: number;
+  change: number;
+  reference: string | null;
+  pixTxid: string | null;
+}
+
+/**
+ * Conta paga (somente inclusão): pagamentos, taxa de serviço/gorjeta e as
+ * vendas ligadas à conta (desc_bill_id)
+ */
+export interface SyncBillPayload {
+  billId: string;
+  saleUids: string[];
+  payments: SyncBillPayment[];
+  itemsTotal: number;           // R$ (base da taxa de serviço)
+  serviceRate: number;          // %
+  serviceCharge: number;        // R$
+  tip: number;                  // R$
+  comandaNumero: number | null;
+  username: string | null;
+  eventSyncId: string | null;
+  timestamp: string;            // ISO 8601
+}
+
+/**
+ * Quantidade de estoque: litros do chope (config_event_sale) ou
+ * unidades do produto unitário (config_event_unit_stock)
+ */
+export type SyncStockAmount =
+  | { liters: number; units?: undefined }
+  | { units: number; liters?: undefined };
+
+/**
+ * Alteração de estoque
+ * - set: quantidade definida na configuração de estoque
+ * - adjust: variação (negativa nas vendas)
+ */
+export type SyncStockPayload = SyncStockAmount & {
+  beerSyncId: string;
+  eventSyncId: string | null;
+  beerName: string;             // Apenas para logs
+  mode: 'set' | 'adjust';
+};
+
+/**
+ * Cadastro (inclusão ou alteração) de uma cerveja/produto
+ */
+export interface SyncBeerPayload {
+  beerSyncId: string;
+  name: string;
+  color: string;
+  description: string;
+  kind: ProductKind;
+  archivedAt: string | null;
+}
+
+/**
+ * Cadastro (inclusão ou alteração) de um evento
+ */
+export interface SyncEventPayload {
+  eventSyncId: string;
+  name: string;
+  local: string;
+  date: string;
+  contact: string | null;
+  contactName: string | null;
+  status: EventStatus;
+  archivedAt: string | null;
+}
+
+/**
+ * Transição de status de uma comanda
+ */
+export interface SyncComandaPayload {
+  numero: number;
+  fromStatus: ComandaStatus;
+  toStatus: ComandaStatus;
+  totalValue: number;
+  at: string;                   // ISO 8601
+}
+
+/**
+ * Alteração enviada pela fila offline (prd_sync_outbox)
+ */
+export type SyncChange =
+  | { opId: string; entity: 'sale'; payload: SyncSalePayload; createdAt: string }
+  | { opId: string; entity: 'stock'; payload: SyncStockPayload; createdAt: string }
+  | { opId: string; entity: 'comanda'; payload: SyncComandaPayload; createdAt: string }
+  | { opId: string; entity: 'beer'; payload: SyncBeerPayload; createdAt: string }
+  | { opId: string; entity: 'event'; payload: SyncEventPayload; createdAt: string }
+  | { opId: string; entity: 'void'; payload: SyncVoidPayload; createdAt: string }
+  | { opId: string; entity: 'bill'; payload: SyncBillPayload; createdAt: string };
+
+/**
+ * Alteração aceita pelo servidor, com a ordem global (seq)
+ */
+export type SyncRemoteChange = SyncChange & { seq: number; terminalId: string };
+
+export interface SyncPushRequest {
+  terminalId: string;
+  changes: SyncChange[];
+}
+
+/**
+ * Resultado de cada alteração enviada
+ * - applied: aceita e registrada
+ * - duplicate: já recebida antes (reenvio após falha de rede)
+ * - rejected: conflito; o estado do servidor prevalece no próximo pull
+ */
+export interface SyncPushResult {
+  opId: string;
+  status: 'applied' | 'duplicate' | 'rejected';
+  seq: number | null;
+  reason?: string;
+  resolvedSyncId?: string;      // Cadastro já existente no servidor com outro identificador
+}
+
+export interface SyncPushResponse {
+  results: SyncPushResult[];
+}
+
+/**
+ * Estoque consolidado no servidor
+ */
+export type SyncStockState = SyncStockAmount & {
+  beerSyncId: string;
+  eventSyncId: string | null;
+};
+
+/**
+ * Status consolidado de uma comanda no servidor
+ */
+export interface SyncComandaState {
+  numero: number;
+  status: ComandaStatus;
+  totalValue: number;
+  updatedAt: string;
+}
+
+/**
+ * Resposta do pull: alterações de outros terminais após "since" e o estado
+ * consolidado de estoque e comandas (aplicado por último, prevalece)
+ */
+export interface SyncPullResponse {
+  changes: SyncRemoteChange[];
+  lastSeq: number;
+  hasMore: boolean;
+  stock: SyncStockState[];
+  comandas: SyncComandaState[];
+}
+
+/**
+ * Configuração da sincronização neste terminal (tabela config_sync)
+ */
+export interface SyncConfig {
+  enabled: boolean;
+  serverUrl: string;
+  token: string;
+  terminalId: string;
+  lastSeq: number;
+  lastSyncAt: string | null;
+}
+
+/**
+ * Transições de comanda aceitas pelo servidor
+ * Uma transição só é aplicada se o status atual no servidor for o de origem:
+ * duas aberturas simultâneas da mesma comanda → vence a primeira a chegar.
+ */
+export const COMANDA_TRANSITIONS: Readonly<Record<ComandaStatus, readonly ComandaStatus[]>> = {
+  [ComandaStatus.DISPONIVEL]: [ComandaStatus.EM_USO],
+  [ComandaStatus.EM_USO]: [ComandaStatus.AGUARDANDO_PAGAMENTO],
+  [ComandaStatus.AGUARDANDO_PAGAMENTO]: [ComandaStatus.DISPONIVEL]
+};
+
+/**
+ * Gera um identificador único entre terminais (opId, desc_sync_id)
+ */
+export function createSyncId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+}
+
+const isText = (value: unknown): value is string => typeof value === 'string';
+const isNullableText = (value: unknown): boolean => value === null || typeof value === 'string';
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isComandaStatus = (value: unknown): value is ComandaStatus =>
+  Object.values(ComandaStatus).includes(value as ComandaStatus);
+const isEventStatus = (value: unknown): value is EventStatus =>
+  value === 'planejamento' || value === 'ativo' || value === 'finalizado';
+const isBillPayment = (value: any): value is SyncBillPayment =>
+  typeof value === 'object' &&
+  value !== null &&
+  PAYMENT_METHODS.some(entry => entry.value === value.method) &&
+  isFiniteNumber(value.amount) &&
+  isFiniteNumber(value.change) &&
+  isNullableText(value.reference) &&
+  isNullableText(value.pixTxid);
+
+/**
+ * Type guard de uma alteração recebida (validação no servidor)
+ */
+export function isSyncChange(obj: any): obj is SyncChange {
+  if (typeof obj !== 'object' || obj === null || !isText(obj.opId) || !isText(obj.createdAt)) {
+    return false;
+  }
+
+  const payload = obj.payload;
+  if (typeof payload !== 'object' || payload === null) return false;
+
+  switch (obj.entity) {
+    case 'sale':
+      return (
+        isText(payload.saleUid) &&
+        isText(payload.beerSyncId) &&
+        isText(payload.beerName) &&
+        isFiniteNumber(payload.cupSize) &&
+        isFiniteNumber(payload.quantity) &&
+        isFiniteNumber(payload.totalVolume) &&
+        isText(payload.timestamp) &&
+        (payload.comandaNumero === null || isFiniteNumber(payload.comandaNumero)) &&
+        isNullableText(payload.username) &&
+        isNullableText(payload.eventSyncId) &&
+        isNullableText(payload.eventName)
+      );
+    case 'stock':
+      return (
+        isText(payload.beerSyncId) &&
+        isNullableText(payload.eventSyncId) &&
+        isText(payload.beerName) &&
+        (payload.mode === 'set' || payload.mode === 'adjust') &&
+        (payload.units === undefined
+          ? isFiniteNumber(payload.liters)
+          : isFiniteNumber(payload.units) && payload.liters === undefined)
+      );
+    case 'comanda':
+      return (
+        isFiniteNumber(payload.numero) &&
+        isComandaStatus(payload.fromStatus) &&
+        isComandaStatus(payload.toStatus) &&
+        isFiniteNumber(payload.totalValue) &&
+        isText(payload.at)
+      );
+    case 'beer':
+      return (
+        isText(payload.beerSyncId) &&
+        isText(payload.name) &&
+        payload.name.trim().length > 0 &&
+        isText(payload.color) &&
+        isText(payload.description) &&
+        (payload.kind === 'draft' || payload.kind === 'unit') &&
+        isNullableText(payload.archivedAt)
+      );
+    case 'event':
+      return (
+        isText(payload.eventSyncId) &&
+        isText(payload.name) &&
+        isText(payload.local) &&
+        isText(payload.date) &&
+        isNullableText(payload.contact) &&
+        isNullableText(payload.contactName) &&
+        isEventStatus(payload.status) &&
+        isNullableText(payload.archivedAt)
+      );
+    case 'void':
+      return (
+        isText(payload.voidUid) &&
+        isText(payload.saleUid) &&
+        isFiniteNumber(payload.quantity) &&
+        isFiniteNumber(payload.totalVolume) &&
+        isFiniteNumber(payload.amount) &&
+        isText(payload.reason) &&
+        isNullableText(payload.username) &&
+        isNullableText(payload.authorizedBy) &&
+        isText(payload.timestamp)
+      );
+    case 'bill':
+      return (
+        isText(payload.billId) &&
+        Array.isArray(payload.saleUids) &&
+        payload.saleUids.every(isText) &&
+        Array.isArray(payload.payments) &&
+        payload.payments.every(isBillPayment) &&
+        isFiniteNumber(payload.itemsTotal) &&
+        isFiniteNumber(payload.serviceRate) &&
+        isFiniteNumber(payload.serviceCharge) &&
+        isFiniteNumber(payload.tip) &&
+        (payload.comandaNumero === null || isFiniteNumber(payload.comandaNumero)) &&
+        isNullableText(payload.username) &&
+        isNullableText(payload.eventSyncId) &&
+        isText(payload.timestamp)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Type guard do corpo do push
+ */
+export function isSyncPushRequest(obj: any): obj is SyncPushRequest {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    isText(obj.terminalId) &&
+    obj.terminalId.length > 0 &&
+    Array.isArray(obj.changes) &&
+    obj.changes.every(isSyncChange)
+  );
+}
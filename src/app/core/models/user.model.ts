@@ -29,6 +29,16 @@ export interface User {
   dt_last_login_at?: string;         // Última vez que fez login (opcional)
 }
 
+/**
+ * Usuário sem o hash da senha (listagens do painel de gestão)
+ */
+export type UserSummary = Omit<User, 'desc_password_hash'>;
+
+/**
+ * Opção de gestor para vincular a uma empresa
+ */
+export type GestorOption = Pick<User, 'num_id' | 'desc_username' | 'desc_email'>;
+
 /**
  * DTO para criar novo usuário
  * Usado no cadastro - não inclui ID nem datas
@@ -120,6 +130,35 @@ export function isValidUser(obj: any): obj is User {
   );
 }
 
+/**
+ * Type guard para validar UserSummary (usuário sem senha)
+ */
+export function isUserSummary(obj: any): obj is UserSummary {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_id === 'number' &&
+    typeof obj.desc_username === 'string' &&
+    typeof obj.desc_email === 'string' &&
+    (obj.desc_role === 'user' || obj.desc_role === 'gestor' || obj.desc_role === 'admin') &&
+    typeof obj.int_user_active === 'number' &&
+    typeof obj.dt_created_at === 'string'
+  );
+}
+
+/**
+ * Type guard para validar GestorOption
+ */
+export function isGestorOption(obj: any): obj is GestorOption {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj.num_id === 'number' &&
+    typeof obj.desc_username === 'string' &&
+    typeof obj.desc_email === 'string'
+  );
+}
+
 /**
  * Verifica se um usuário está ativo
  */
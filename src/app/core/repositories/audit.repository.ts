@@ -0,0 +1,127 @@
+// src/app/core/repositories/audit.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import {
+  AUDIT_PAGE_LIMIT,
+  AuditLogEntry,
+  AuditLogFilter,
+  AuditRetentionConfig,
+  DEFAULT_AUDIT_RETENTION,
+  MIN_AUDIT_MAX_ROWS,
+  isAuditLogEntry
+} from '../models/audit.model';
+import { DbRow, mapRows, toNullableNumber, toNullableText, toNumber, toStrictNumber } from './row-mapper';
+
+const mapAuditRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  dt_created_at: row['dt_created_at'],
+  num_user_id: toNullableNumber(row['num_user_id']),
+  desc_username: toNullableText(row['desc_username']),
+  desc_origin: toNullableText(row['desc_origin']),
+  desc_table: row['desc_table'],
+  num_row_id: toNullableNumber(row['num_row_id']),
+  desc_action: row['desc_action'],
+  desc_before: toNullableText(row['desc_before']),
+  desc_after: toNullableText(row['desc_after'])
+});
+
+/**
+ * Repositório da auditoria de alterações (prd_audit_log)
+ * Os registros são gravados pelas triggers e removidos pela retenção
+ * (db-audit.ts); aqui só a consulta e a configuração da retenção.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AuditRepository {
+  private readonly dbService = inject(DatabaseService);
+
+  /**
+   * Registros mais recentes primeiro, com filtros opcionais
+   * Consulta na réplica do worker (tabela pode ser grande)
+   */
+  public async find(filter: AuditLogFilter = {}, limit: number = AUDIT_PAGE_LIMIT): Promise<AuditLogEntry[]> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filter.username) {
+      conditions.push('desc_username = ?');
+      params.push(filter.username);
+    }
+    if (filter.table) {
+      conditions.push('desc_table = ?');
+      params.push(filter.table);
+    }
+    if (filter.startDate) {
+      conditions.push('dt_created_at >= ?');
+      params.push(filter.startDate.toISOString());
+    }
+    if (filter.endDate) {
+      conditions.push('dt_created_at <= ?');
+      params.push(filter.endDate.toISOString());
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await this.dbService.queryAsync(
+      `SELECT * FROM prd_audit_log ${where} ORDER BY num_id DESC LIMIT ?`,
+      [...params, limit]
+    );
+    return mapRows(rows, mapAuditRow, isAuditLogEntry, 'registro de auditoria');
+  }
+
+  /**
+   * Retenção configurada (padrão antes da migration v29)
+   */
+  public getRetention(): AuditRetentionConfig {
+    const row = this.dbService.executeQuery('SELECT * FROM config_audit WHERE num_id = 1 LIMIT 1')[0];
+    if (!row) return { ...DEFAULT_AUDIT_RETENTION };
+
+    return {
+      retentionDays: toNumber(row['num_retention_days']),
+      maxRows: toNumber(row['num_max_rows'])
+    };
+  }
+
+  /**
+   * Atualiza a retenção (aplicada na próxima verificação de snapshot)
+   * @throws Error se os limites forem inválidos
+   */
+  public saveRetention(config: AuditRetentionConfig): void {
+    if (!Number.isInteger(config.retentionDays) || config.retentionDays < 1) {
+      throw new Error('A retenção deve ser de pelo menos 1 dia');
+    }
+    if (!Number.isInteger(config.maxRows) || config.maxRows < MIN_AUDIT_MAX_ROWS) {
+      throw new Error(`Mantenha pelo menos ${MIN_AUDIT_MAX_ROWS} registros de auditoria`);
+    }
+
+    this.dbService.executeRun(
+      `INSERT INTO config_audit (num_id, num_retention_days, num_max_rows, dt_updated_at)
+       VALUES (1, ?, ?, CURRENT_TIMESTAMP)
+       ON CONFLICT(num_id) DO UPDATE SET
+         num_retention_days = excluded.num_retention_days,
+         num_max_rows = excluded.num_max_rows,
+         dt_updated_at = CURRENT_TIMESTAMP`,
+      [config.retentionDays, config.maxRows]
+    );
+  }
+
+  /**
+   * Usuários presentes na auditoria (opções do filtro)
+   */
+  public async findUsernames(): Promise<string[]> {
+    const rows = await this.dbService.queryAsync(
+      'SELECT DISTINCT desc_username FROM prd_audit_log WHERE desc_username IS NOT NULL ORDER BY desc_username'
+    );
+    return rows.map(row => String(row['desc_username']));
+  }
+
+  /**
+   * Tabelas presentes na auditoria (opções do filtro)
+   */
+  public async findTables(): Promise<string[]> {
+    const rows = await this.dbService.queryAsync(
+      'SELECT DISTINCT desc_table FROM prd_audit_log ORDER BY desc_table'
+    );
+    return rows.map(row => String(row['desc_table']));
+  }
+}
@@ -0,0 +1,167 @@
+// src/app/core/repositories/beer.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import { BeerType, isBeerType } from '../models/beer.model';
+import { DbRow, mapFirstRow, mapRows, toNullableText, toNumber, toStrictNumber } from './row-mapper';
+import { SalesArchiveRepository } from './sales-archive.repository';
+import { SyncRepository } from './sync.repository';
+
+const mapBeerRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  desc_name: row['desc_name'],
+  desc_color: row['desc_color'],
+  desc_description: row['desc_description'] ?? '',
+  desc_kind: row['desc_kind'] ?? 'draft',
+  dt_archived_at: toNullableText(row['dt_archived_at'])
+});
+
+/**
+ * Repositório de tipos de cerveja (prd_beer_types)
+ * A tabela é o catálogo de produtos: chope por volume e itens por unidade.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BeerRepository {
+  private readonly dbService = inject(DatabaseService);
+  private readonly archiveRepository = inject(SalesArchiveRepository);
+  private readonly syncRepository = inject(SyncRepository);
+
+  /**
+   * Lista todos os tipos de cerveja ordenados por nome (inclui arquivadas)
+   */
+  public findAll(): BeerType[] {
+    const rows = this.dbService.executeQuery('SELECT * FROM prd_beer_types ORDER BY desc_name');
+    return mapRows(rows, mapBeerRow, isBeerType, 'cerveja');
+  }
+
+  /**
+   * Lista as cervejas disponíveis para venda (não arquivadas)
+   */
+  public findActive(): BeerType[] {
+    const rows = this.dbService.executeQuery(
+      'SELECT * FROM prd_beer_types WHERE dt_archived_at IS NULL ORDER BY desc_name'
+    );
+    return mapRows(rows, mapBeerRow, isBeerType, 'cerveja');
+  }
+
+  /**
+   * Busca um tipo de cerveja por ID
+   */
+  public findById(id: number): BeerType | null {
+    const rows = this.dbService.executeQuery('SELECT * FROM prd_beer_types WHERE num_id = ? LIMIT 1', [id]);
+    return mapFirstRow(rows, mapBeerRow, isBeerType, 'cerveja');
+  }
+
+  /**
+   * Verifica se já existe cerveja com o nome (sem diferenciar maiúsculas)
+   * @param excludeId ID a ignorar na verificação (edição)
+   */
+  public nameExists(name: string, excludeId?: number): boolean {
+    const rows = this.dbService.executeQuery(
+      'SELECT num_id FROM prd_beer_types WHERE LOWER(desc_name) = LOWER(?) AND num_id != ?',
+      [name.trim(), excludeId ?? -1]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Cadastra um tipo de cerveja
+   * @returns ID gerado pelo banco
+   */
+  public create(beer: Omit<BeerType, 'num_id'>): number {
+    return this.dbService.transaction(() => {
+      this.dbService.executeRun(
+        'INSERT INTO prd_beer_types (desc_name, desc_description, desc_color, desc_kind) VALUES (?, ?, ?, ?)',
+        [beer.desc_name, beer.desc_description, beer.desc_color, beer.desc_kind]
+      );
+      const beerId = this.dbService.getLastInsertId();
+      this.syncRepository.enqueueBeer(beerId);
+      return beerId;
+    });
+  }
+
+  /**
+   * Atualiza nome, descrição, cor e tipo de produto
+   * @throws Error se o tipo mudar em um produto com vendas (volume e unidades não se misturam)
+   */
+  public update(beer: BeerType): void {
+    this.dbService.transaction(() => {
+      const current = this.findById(beer.num_id);
+      if (current && current.desc_kind !== beer.desc_kind && this.hasSales(beer.num_id)) {
+        throw new Error('O produto possui vendas registradas e não pode mudar de tipo');
+      }
+      this.dbService.executeRun(
+        'UPDATE prd_beer_types SET desc_name = ?, desc_description = ?, desc_color = ?, desc_kind = ? WHERE num_id = ?',
+        [beer.desc_name, beer.desc_description, beer.desc_color, beer.desc_kind, beer.num_id]
+      );
+      this.syncRepository.enqueueBeer(beer.num_id);
+    });
+  }
+
+  /**
+   * IDs das cervejas com vendas registradas ou arquivadas (não podem ser excluídas)
+   */
+  public findIdsWithSales(): Set<number> {
+    const rows = this.dbService.executeQuery('SELECT DISTINCT num_beer_id FROM prd_sales');
+    const ids = new Set(rows.map(row => toNumber(row['num_beer_id'])));
+    this.archiveRepository.findReferencedBeerIds().forEach(id => ids.add(id));
+    return ids;
+  }
+
+  /**
+   * Verifica se a cerveja possui vendas registradas ou arquivadas
+   */
+  public hasSales(id: number): boolean {
+    const rows = this.dbService.executeQuery(
+      'SELECT COUNT(*) as count FROM prd_sales WHERE num_beer_id = ?',
+      [id]
+    );
+    return toNumber(rows[0]?.['count']) > 0 || this.archiveRepository.findReferencedBeerIds().has(id);
+  }
+
+  /**
+   * Arquiva a cerveja: sai do formulário de vendas e da configuração de
+   * estoque/preços, mas as vendas continuam nos relatórios
+   */
+  public archive(id: number): void {
+    this.dbService.transaction(() => {
+      this.dbService.executeRun(
+        'UPDATE prd_beer_types SET dt_archived_at = ? WHERE num_id = ? AND dt_archived_at IS NULL',
+        [new Date().toISOString(), id]
+      );
+      this.syncRepository.enqueueBeer(id);
+    });
+  }
+
+  /**
+   * Restaura uma cerveja arquivada
+   */
+  public restore(id: number): void {
+    this.dbService.transaction(() => {
+      this.dbService.executeRun('UPDATE prd_beer_types SET dt_archived_at = NULL WHERE num_id = ?', [id]);
+      this.syncRepository.enqueueBeer(id);
+    });
+  }
+
+  /**
+   * Remove definitivamente uma cerveja sem vendas, com seus estoques e preços
+   * As chaves estrangeiras não estão ativas no sql.js (sem CASCADE),
+   * por isso as tabelas dependentes são limpas explicitamente.
+   *
+   * @throws Error se a cerveja possui vendas (deve ser arquivada)
+   */
+  public delete(id: number): void {
+    this.dbService.transaction(() => {
+      if (this.hasSales(id)) {
+        throw new Error('A cerveja possui vendas registradas e só pode ser arquivada');
+      }
+      this.dbService.executeRun('DELETE FROM config_event_sale WHERE num_beer_id = ?', [id]);
+      this.dbService.executeRun('DELETE FROM config_sale_prices WHERE num_beer_id = ?', [id]);
+      this.dbService.executeRun('DELETE FROM config_event_unit_stock WHERE num_beer_id = ?', [id]);
+      this.dbService.executeRun('DELETE FROM config_unit_prices WHERE num_beer_id = ?', [id]);
+      this.dbService.executeRun('DELETE FROM config_promotions WHERE num_beer_id = ?', [id]);
+      this.dbService.executeRun('DELETE FROM prd_beer_types WHERE num_id = ?', [id]);
+    });
+  }
+}
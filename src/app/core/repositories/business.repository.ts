@@ -0,0 +1,183 @@
+// src/app/core/repositories/business.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import {
+  Business,
+  BusinessDisplay,
+  CreateBusinessDto,
+  UpdateBusinessDto,
+  isValidBusiness
+} from '../models/business.model';
+import { DbRow, mapFirstRow, mapRows, toNullableNumber, toNumber, toStrictNumber } from './row-mapper';
+
+const mapBusinessRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  desc_razao_social: row['desc_razao_social'],
+  desc_cnpj: row['desc_cnpj'],
+  desc_endereco: row['desc_endereco'],
+  desc_cep: row['desc_cep'],
+  desc_cidade: row['desc_cidade'],
+  desc_estado: row['desc_estado'],
+  desc_responsavel_empresa: row['desc_responsavel_empresa'],
+  num_gestor_empresa: toNullableNumber(row['num_gestor_empresa']),
+  int_active: toNumber(row['int_active'], 1),
+  dt_created_at: row['dt_created_at'],
+  dt_updated_at: row['dt_updated_at']
+});
+
+const mapBusinessDisplayRow = (row: DbRow) => ({
+  ...mapBusinessRow(row),
+  gestor_username: row['gestor_username'] ?? undefined
+});
+
+/**
+ * Colunas editáveis de prd_empresa
+ */
+const UPDATABLE_BUSINESS_COLUMNS: (keyof UpdateBusinessDto)[] = [
+  'desc_razao_social',
+  'desc_cnpj',
+  'desc_endereco',
+  'desc_cep',
+  'desc_cidade',
+  'desc_estado',
+  'desc_responsavel_empresa',
+  'num_gestor_empresa',
+  'int_active'
+];
+
+/**
+ * Repositório de empresas (prd_empresa)
+ * CNPJ e CEP são gravados apenas com dígitos.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BusinessRepository {
+  private readonly dbService = inject(DatabaseService);
+
+  /**
+   * Lista todas as empresas com o nome do gestor
+   */
+  public findAll(): BusinessDisplay[] {
+    const rows = this.dbService.executeQuery(
+      `SELECT e.*, u.desc_username as gestor_username
+       FROM prd_empresa e
+       LEFT JOIN prd_users u ON e.num_gestor_empresa = u.num_id
+       ORDER BY e.desc_razao_social ASC`
+    );
+    return mapRows(rows, mapBusinessDisplayRow, isValidBusiness, 'empresa');
+  }
+
+  /**
+   * Busca empresa por ID (com o nome do gestor)
+   */
+  public findById(id: number): BusinessDisplay | null {
+    const rows = this.dbService.executeQuery(
+      `SELECT e.*, u.desc_username as gestor_username
+       FROM prd_empresa e
+       LEFT JOIN prd_users u ON e.num_gestor_empresa = u.num_id
+       WHERE e.num_id = ?
+       LIMIT 1`,
+      [id]
+    );
+    return mapFirstRow(rows, mapBusinessDisplayRow, isValidBusiness, 'empresa');
+  }
+
+  /**
+   * Busca empresa por CNPJ (com ou sem máscara)
+   */
+  public findByCnpj(cnpj: string): Business | null {
+    const rows = this.dbService.executeQuery(
+      `SELECT * FROM prd_empresa
+       WHERE REPLACE(REPLACE(REPLACE(desc_cnpj, '.', ''), '/', ''), '-', '') = ?
+       LIMIT 1`,
+      [cnpj.replace(/\D/g, '')]
+    );
+    return mapFirstRow(rows, mapBusinessRow, isValidBusiness, 'empresa');
+  }
+
+  /**
+   * Cadastra uma empresa ativa
+   * @returns ID gerado pelo banco
+   * @throws Error se o banco não retornar o ID gerado
+   */
+  public create(dto: CreateBusinessDto): number {
+    const now = new Date().toISOString();
+
+    this.dbService.executeRun(
+      `INSERT INTO prd_empresa (
+         desc_razao_social, desc_cnpj, desc_endereco, desc_cep, desc_cidade, desc_estado,
+         desc_responsavel_empresa, num_gestor_empresa, int_active, dt_created_at, dt_updated_at
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        dto.desc_razao_social.trim(),
+        dto.desc_cnpj.replace(/\D/g, ''),
+        dto.desc_endereco.trim(),
+        dto.desc_cep.replace(/\D/g, ''),
+        dto.desc_cidade.trim(),
+        dto.desc_estado.trim().toUpperCase(),
+        dto.desc_responsavel_empresa.trim(),
+        dto.num_gestor_empresa ?? null,
+        1,
+        now,
+        now
+      ]
+    );
+
+    const empresaId = this.dbService.getLastInsertId();
+    if (!empresaId) {
+      throw new Error('O banco não retornou o ID da empresa criada');
+    }
+    return empresaId;
+  }
+
+  /**
+   * Atualiza os campos informados de uma empresa
+   * @returns false se nenhum campo foi informado
+   */
+  public update(id: number, dto: UpdateBusinessDto): boolean {
+    const columns = UPDATABLE_BUSINESS_COLUMNS.filter(column => dto[column] !== undefined);
+    if (columns.length === 0) {
+      return false;
+    }
+
+    const values = columns.map(column => this.normalizeColumn(column, dto[column]));
+    this.dbService.executeRun(
+      `UPDATE prd_empresa SET ${columns.map(column => `${column} = ?`).join(', ')}, dt_updated_at = ? WHERE num_id = ?`,
+      [...values, new Date().toISOString(), id]
+    );
+    return true;
+  }
+
+  /**
+   * Ativa ou desativa uma empresa
+   */
+  public setActive(id: number, active: boolean): void {
+    this.update(id, { int_active: active ? 1 : 0 });
+  }
+
+  /**
+   * Remove uma empresa
+   */
+  public delete(id: number): void {
+    this.dbService.executeRun('DELETE FROM prd_empresa WHERE num_id = ?', [id]);
+  }
+
+  /**
+   * Aplica a mesma normalização do cadastro aos campos editados
+   */
+  private normalizeColumn(column: keyof UpdateBusinessDto, value: string | number | null | undefined): string | number | null {
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'number') return value;
+
+    switch (column) {
+      case 'desc_cnpj':
+      case 'desc_cep':
+        return value.replace(/\D/g, '');
+      case 'desc_estado':
+        return value.trim().toUpperCase();
+      default:
+        return value.trim();
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { TestBed } from '@angular/core/testing';
+import { DatabaseService } from '../services/database';
+import { ComandaStatus } from '../models/comanda.model';
+import { InMemoryDatabaseService, createInMemoryDatabase } from '../testing/in-memory-database';
+import { ComandaRepository } from './comanda.repository';
+
+describe('ComandaRepository', () => {
+  let database: InMemoryDatabaseService;
+  let repository: ComandaRepository;
+
+  beforeEach(async () => {
+    database = await createInMemoryDatabase();
+    database.executeRun('UPDATE config_sync SET int_enabled = 1');
+    database.executeRun("INSERT INTO prd_comandas (num_numero, desc_status) VALUES (7, 'disponivel')");
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: DatabaseService, useValue: database }]
+    });
+    repository = TestBed.inject(ComandaRepository);
+  });
+
+  afterEach(() => {
+    database.db.close();
+  });
+
+  it('confirmPayment libera comanda de total zero sem pagamentos e sem conta', () => {
+    const comandaId = Number(database.scalar('SELECT num_id FROM prd_comandas WHERE num_numero = 7'));
+    repository.open(7);
+    expect(repository.close(comandaId, { serviceRate: 0, tip: 0 }, 1)).toBe(0);
+
+    expect(() => repository.confirmPayment(comandaId, [], 1)).not.toThrow();
+
+    expect(repository.findById(comandaId)?.desc_status).toBe(ComandaStatus.DISPONIVEL);
+    expect(database.scalar('SELECT COUNT(*) FROM prd_payments')).toBe(0);
+    expect(database.scalar("SELECT COUNT(*) FROM prd_sync_outbox WHERE desc_entity = 'bill'")).toBe(0);
+    expect(database.scalar("SELECT COUNT(*) FROM prd_sync_outbox WHERE desc_entity = 'comanda'")).toBe(3);
+  });
+});
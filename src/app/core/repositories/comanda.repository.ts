@@ -0,0 +1,303 @@
+// src/app/core/repositories/comanda.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import {
+  Comanda,
+  ComandaItem,
+  ComandaStatus,
+  ComandaWithItems,
+  isComanda,
+  isComandaItem
+} from '../models/comanda.model';
+import { formatCupVolume } from '../models/cup-size.model';
+import { DbRow, mapFirstRow, mapRows, toNullableNumber, toNullableText, toNumber, toStrictNumber } from './row-mapper';
+import { SyncRepository } from './sync.repository';
+import { PaymentRepository } from './payment.repository';
+import { ServiceChargeRepository } from './service-charge.repository';
+import { PaymentInput } from '../models/payment.model';
+import { createPixTxid } from '../models/pix.model';
+import { ComandaClosingInput, calculateAmountDue, calculateServiceCharge } from '../models/service-charge.model';
+import { createSyncId } from '../models/sync.model';
+
+const mapComandaRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  num_numero: toStrictNumber(row['num_numero']),
+  desc_status: row['desc_status'],
+  num_total_value: toNumber(row['num_total_value']),
+  num_service_rate: toNumber(row['num_service_rate']),
+  num_tip: toNumber(row['num_tip']),
+  num_closed_by: toNullableNumber(row['num_closed_by']),
+  desc_pix_txid: toNullableText(row['desc_pix_txid']),
+  dt_opened_at: toNullableText(row['dt_opened_at']),
+  dt_closed_at: toNullableText(row['dt_closed_at']),
+  dt_paid_at: toNullableText(row['dt_paid_at']),
+  dt_created_at: row['dt_created_at'],
+  dt_updated_at: row['dt_updated_at']
+});
+
+const mapComandaItemRow = (row: DbRow) => ({
+  num_sale_id: toStrictNumber(row['num_sale_id']),
+  num_beer_id: toStrictNumber(row['num_beer_id']),
+  desc_beer_name: row['desc_beer_name'],
+  num_cup_size: toStrictNumber(row['num_cup_size']),
+  desc_cup_size_label: toNullableText(row['desc_cup_size_label']) ?? formatCupVolume(toNumber(row['num_cup_size'])),
+  num_quantity: toStrictNumber(row['num_quantity']),
+  num_unit_price: toNumber(row['num_unit_price']),
+  num_total_price: toNumber(row['num_total_price']),
+  dt_timestamp: row['dt_timestamp']
+});
+
+/**
+ * Repositório de comandas (prd_comandas) e seus itens (vendas vinculadas)
+ * As regras de transição de status ficam no ComandaService.
+ * Cada transição entra na fila de sincronização entre terminais.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ComandaRepository {
+  private readonly dbService = inject(DatabaseService);
+  private readonly syncRepository = inject(SyncRepository);
+  private readonly paymentRepository = inject(PaymentRepository);
+  private readonly serviceChargeRepository = inject(ServiceChargeRepository);
+
+  // ==================== CONSULTAS ====================
+
+  /**
+   * Lista todas as comandas ordenadas por número
+   */
+  public findAll(): Comanda[] {
+    const rows = this.dbService.executeQuery('SELECT * FROM prd_comandas ORDER BY num_numero ASC');
+    return mapRows(rows, mapComandaRow, isComanda, 'comanda');
+  }
+
+  /**
+   * Lista comandas por status
+   */
+  public findByStatus(status: ComandaStatus): Comanda[] {
+    const rows = this.dbService.executeQuery(
+      'SELECT * FROM prd_comandas WHERE desc_status = ? ORDER BY num_numero ASC',
+      [status]
+    );
+    return mapRows(rows, mapComandaRow, isComanda, 'comanda');
+  }
+
+  /**
+   * Busca comanda por número
+   */
+  public findByNumero(numero: number): Comanda | null {
+    const rows = this.dbService.executeQuery('SELECT * FROM prd_comandas WHERE num_numero = ? LIMIT 1', [numero]);
+    return mapFirstRow(rows, mapComandaRow, isComanda, 'comanda');
+  }
+
+  /**
+   * Busca comanda por ID
+   */
+  public findById(id: number): Comanda | null {
+    const rows = this.dbService.executeQuery('SELECT * FROM prd_comandas WHERE num_id = ? LIMIT 1', [id]);
+    return mapFirstRow(rows, mapComandaRow, isComanda, 'comanda');
+  }
+
+  /**
+   * Itens (vendas) de uma comanda com os preços gravados em cada venda
+   * Quantidade e total já descontam os estornos; itens estornados por
+   * inteiro saem da comanda.
+   */
+  public findItems(comandaId: number): ComandaItem[] {
+    const rows = this.dbService.executeQuery(
+      `SELECT
+         s.num_id as num_sale_id,
+         s.num_beer_id,
+         s.desc_beer_name,
+         s.num_cup_size,
+         s.num_quantity - s.num_voided_quantity as num_quantity,
+         s.dt_timestamp,
+         s.num_unit_price,
+         s.num_total_price - COALESCE((
+           SELECT SUM(v.num_amount) FROM prd_sale_voids v WHERE v.num_sale_id = s.num_id
+         ), 0) as num_total_price,
+         cs.desc_label as desc_cup_size_label
+       FROM prd_sales s
+       LEFT JOIN config_cup_sizes cs ON cs.num_volume_ml = s.num_cup_size
+       WHERE s.num_comanda_id = ?
+         AND s.num_voided_quantity < s.num_quantity
+       ORDER BY s.dt_timestamp DESC`,
+      [comandaId]
+    );
+
+    return mapRows(rows, mapComandaItemRow, isComandaItem, 'item de comanda');
+  }
+
+  /**
+   * Comanda completa com seus itens
+   * O total é recalculado a partir dos itens (mais confiável que o valor salvo),
+   * somando a taxa de serviço e a gorjeta definidas no fechamento
+   */
+  public findWithItems(comandaId: number): ComandaWithItems | null {
+    const comanda = this.findById(comandaId);
+    if (!comanda) return null;
+
+    const items = this.findItems(comandaId);
+    const itemsTotal = items.reduce((sum, item) => sum + item.num_total_price, 0);
+    return {
+      ...comanda,
+      items,
+      num_items_total: itemsTotal,
+      num_service_charge: calculateServiceCharge(itemsTotal, comanda.num_service_rate),
+      num_total_value: calculateAmountDue(itemsTotal, comanda.num_service_rate, comanda.num_tip)
+    };
+  }
+
+  /**
+   * Soma o valor das vendas vinculadas à comanda
+   */
+  public calculateTotal(comandaId: number): number {
+    return this.findItems(comandaId).reduce((sum, item) => sum + item.num_total_price, 0);
+  }
+
+  /**
+   * Valor a pagar: itens + taxa de serviço + gorjeta gravadas na comanda
+   */
+  public calculateAmountDue(comandaId: number): number {
+    const comanda = this.findById(comandaId);
+    return calculateAmountDue(this.calculateTotal(comandaId), comanda?.num_service_rate ?? 0, comanda?.num_tip ?? 0);
+  }
+
+  /**
+   * Evento da comanda: o da venda mais recente
+   */
+  public findEventId(comandaId: number): number | null {
+    const lastSale = this.dbService.executeQuery(
+      'SELECT num_event_id FROM prd_sales WHERE num_comanda_id = ? ORDER BY dt_timestamp DESC LIMIT 1',
+      [comandaId]
+    )[0];
+    return toNullableNumber(lastSale?.['num_event_id']);
+  }
+
+  // ==================== ESCRITA ====================
+
+  /**
+   * Abre uma comanda disponível (disponivel → em_uso)
+   */
+  public open(numero: number): void {
+    const now = new Date().toISOString();
+
+    this.dbService.transaction(() => {
+      this.dbService.executeRun(
+        `UPDATE prd_comandas
+         SET desc_status = ?, dt_opened_at = ?, dt_updated_at = ?
+         WHERE num_numero = ? AND desc_status = ?`,
+        [ComandaStatus.EM_USO, now, now, numero, ComandaStatus.DISPONIVEL]
+      );
+      this.syncRepository.enqueueComanda(numero, ComandaStatus.DISPONIVEL, ComandaStatus.EM_USO, 0);
+    });
+  }
+
+  /**
+   * Fecha uma comanda (→ aguardando_pagamento) gravando o total calculado
+   * com a taxa de serviço e a gorjeta
+   * @param userId Atendente que fechou a comanda
+   * @returns Valor total gravado
+   */
+  public close(comandaId: number, charges: ComandaClosingInput, userId: number): number {
+    const now = new Date().toISOString();
+    const total = calculateAmountDue(this.calculateTotal(comandaId), charges.serviceRate, charges.tip);
+    const comanda = this.findById(comandaId);
+
+    this.dbService.transaction(() => {
+      this.dbService.executeRun(
+        `UPDATE prd_comandas
+         SET desc_status = ?, dt_closed_at = ?, num_total_value = ?, num_service_rate = ?, num_tip = ?, num_closed_by = ?, dt_updated_at = ?
+         WHERE num_id = ?`,
+        [ComandaStatus.AGUARDANDO_PAGAMENTO, now, total, charges.serviceRate, charges.tip, userId, now, comandaId]
+      );
+      if (comanda) {
+        this.syncRepository.enqueueComanda(comanda.num_numero, ComandaStatus.EM_USO, ComandaStatus.AGUARDANDO_PAGAMENTO, total);
+      }
+    });
+    return total;
+  }
+
+  /**
+   * Regrava o total de uma comanda fechada (após estorno de um item)
+   * A taxa de serviço acompanha o novo valor dos itens; a gorjeta não muda.
+   * Comandas em uso não guardam total: ele é calculado a partir dos itens.
+   */
+  public refreshClosedTotal(comandaId: number): void {
+    this.dbService.executeRun(
+      `UPDATE prd_comandas
+       SET num_total_value = ?, dt_updated_at = ?
+       WHERE num_id = ? AND desc_status = ?`,
+      [this.calculateAmountDue(comandaId), new Date().toISOString(), comandaId, ComandaStatus.AGUARDANDO_PAGAMENTO]
+    );
+  }
+
+  /**
+   * txid do QR Code PIX da via da comanda
+   * Gerado na primeira impressão e mantido até a comanda ser liberada,
+   * para o pagamento usar o mesmo txid do QR Code impresso.
+   */
+  public ensurePixTxid(comandaId: number): string {
+    const current = this.findById(comandaId)?.desc_pix_txid;
+    if (current) return current;
+
+    const txid = createPixTxid();
+    this.dbService.executeRun(
+      'UPDATE prd_comandas SET desc_pix_txid = ?, dt_updated_at = ? WHERE num_id = ?',
+      [txid, new Date().toISOString(), comandaId]
+    );
+    return txid;
+  }
+
+  /**
+   * Confirma o pagamento e libera a comanda para reutilização
+   * As vendas ficam no histórico, sem vínculo com a comanda, e ligadas
+   * aos pagamentos pela conta (desc_bill_id); taxa de serviço e gorjeta
+   * vão para prd_bill_charges com a mesma conta
+   * Comanda zerada por estornos fecha sem pagamentos e sem conta
+   */
+  public confirmPayment(comandaId: number, payments: PaymentInput[], userId: number): void {
+    const now = new Date().toISOString();
+    const comanda = this.findById(comandaId);
+    const billId = payments.length > 0 ? createSyncId() : null;
+
+    this.dbService.transaction(() => {
+      const eventId = this.findEventId(comandaId);
+
+      if (billId && comanda && (comanda.num_service_rate > 0 || comanda.num_tip > 0)) {
+        const itemsTotal = this.calculateTotal(comandaId);
+        this.serviceChargeRepository.insert({
+          desc_bill_id: billId,
+          num_comanda_id: comandaId,
+          num_items_total: itemsTotal,
+          num_service_rate: comanda.num_service_rate,
+          num_service_charge: calculateServiceCharge(itemsTotal, comanda.num_service_rate),
+          num_tip: comanda.num_tip,
+          num_user_id: comanda.num_closed_by ?? userId,
+          num_event_id: eventId,
+          dt_timestamp: now
+        });
+      }
+
+      this.dbService.executeRun(
+        `UPDATE prd_comandas
+         SET desc_status = ?, dt_paid_at = ?, num_total_value = 0, num_service_rate = 0, num_tip = 0, num_closed_by = NULL,
+             desc_pix_txid = NULL, dt_opened_at = NULL, dt_closed_at = NULL, dt_updated_at = ?
+         WHERE num_id = ?`,
+        [ComandaStatus.DISPONIVEL, now, now, comandaId]
+      );
+
+      this.dbService.executeRun(
+        'UPDATE prd_sales SET num_comanda_id = NULL, desc_bill_id = ? WHERE num_comanda_id = ?',
+        [billId, comandaId]
+      );
+      if (billId) {
+        this.paymentRepository.insertForBill(billId, payments, { comandaId, userId, eventId });
+      }
+
+      if (comanda) {
+        this.syncRepository.enqueueComanda(comanda.num_numero, ComandaStatus.AGUARDANDO_PAGAMENTO, ComandaStatus.DISPONIVEL, 0);
+      }
+    });
+  }
+}
@@ -0,0 +1,153 @@
+// src/app/core/repositories/cup-size.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import { CupSizeConfig, CupSizeInput, isCupSizeConfig } from '../models/cup-size.model';
+import { DbRow, mapFirstRow, mapRows, toNumber, toStrictNumber } from './row-mapper';
+
+const mapCupSizeRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  desc_label: row['desc_label'],
+  num_volume_ml: toStrictNumber(row['num_volume_ml']),
+  int_active: toNumber(row['int_active']),
+  num_order: toNumber(row['num_order']),
+  dt_created_at: row['dt_created_at'],
+  dt_updated_at: row['dt_updated_at']
+});
+
+/**
+ * Repositório do catálogo de tamanhos de copo (config_cup_sizes)
+ *
+ * As vendas gravam o volume (prd_sales.num_cup_size), não o ID do tamanho:
+ * editar ou excluir um tamanho não altera vendas já registradas.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CupSizeRepository {
+  private readonly dbService = inject(DatabaseService);
+
+  /**
+   * Lista todos os tamanhos na ordem da tela de vendas
+   */
+  public findAll(): CupSizeConfig[] {
+    if (!this.dbService.tableExists('config_cup_sizes')) return [];
+
+    const rows = this.dbService.executeQuery(
+      'SELECT * FROM config_cup_sizes ORDER BY num_order, num_volume_ml'
+    );
+    return mapRows(rows, mapCupSizeRow, isCupSizeConfig, 'tamanho de copo');
+  }
+
+  /**
+   * Tamanhos disponíveis para venda
+   */
+  public findActive(): CupSizeConfig[] {
+    return this.findAll().filter(size => size.int_active === 1);
+  }
+
+  public findById(id: number): CupSizeConfig | null {
+    const rows = this.dbService.executeQuery('SELECT * FROM config_cup_sizes WHERE num_id = ? LIMIT 1', [id]);
+    return mapFirstRow(rows, mapCupSizeRow, isCupSizeConfig, 'tamanho de copo');
+  }
+
+  /**
+   * Cadastra um tamanho (ativo, no fim da lista)
+   * @returns ID do tamanho criado
+   * @throws Error se o volume já estiver cadastrado ou for inválido
+   */
+  public create(input: CupSizeInput): number {
+    this.validate(input);
+
+    const now = new Date().toISOString();
+    this.dbService.executeRun(
+      `INSERT INTO config_cup_sizes (desc_label, num_volume_ml, int_active, num_order, dt_created_at, dt_updated_at)
+       VALUES (?, ?, 1, (SELECT IFNULL(MAX(num_order), 0) + 1 FROM config_cup_sizes), ?, ?)`,
+      [input.label.trim(), input.volumeMl, now, now]
+    );
+
+    const cupSizeId = this.dbService.getLastInsertId();
+    if (!cupSizeId) {
+      throw new Error('O banco não retornou o ID do tamanho criado');
+    }
+    console.log(`✅ Tamanho de copo criado: ${input.label} (${input.volumeMl}ml)`);
+    return cupSizeId;
+  }
+
+  /**
+   * Altera nome e volume de um tamanho
+   * @throws Error se o volume já pertencer a outro tamanho ou for inválido
+   */
+  public update(id: number, input: CupSizeInput): void {
+    this.validate(input, id);
+
+    this.dbService.executeRun(
+      'UPDATE config_cup_sizes SET desc_label = ?, num_volume_ml = ?, dt_updated_at = ? WHERE num_id = ?',
+      [input.label.trim(), input.volumeMl, new Date().toISOString(), id]
+    );
+  }
+
+  /**
+   * Ativa ou desativa um tamanho nas vendas (preços são mantidos)
+   * @throws Error ao desativar o último tamanho ativo
+   */
+  public setActive(id: number, active: boolean): void {
+    if (!active && this.findActive().every(size => size.num_id === id)) {
+      throw new Error('Mantenha ao menos um tamanho de copo ativo');
+    }
+
+    this.dbService.executeRun(
+      'UPDATE config_cup_sizes SET int_active = ?, dt_updated_at = ? WHERE num_id = ?',
+      [active ? 1 : 0, new Date().toISOString(), id]
+    );
+  }
+
+  /**
+   * Grava a ordem de exibição conforme a lista de IDs informada
+   */
+  public reorder(orderedIds: number[]): void {
+    this.dbService.transaction(() => {
+      orderedIds.forEach((id, index) => {
+        this.dbService.executeRun(
+          'UPDATE config_cup_sizes SET num_order = ? WHERE num_id = ?',
+          [index + 1, id]
+        );
+      });
+    });
+  }
+
+  /**
+   * Exclui um tamanho e seus preços (vendas registradas mantêm o volume)
+   * @throws Error ao excluir o último tamanho ativo
+   */
+  public delete(id: number): void {
+    const size = this.findById(id);
+    if (!size) return;
+    if (size.int_active === 1 && this.findActive().length === 1) {
+      throw new Error('Mantenha ao menos um tamanho de copo ativo');
+    }
+
+    this.dbService.transaction(() => {
+      this.dbService.executeRun('DELETE FROM config_sale_prices WHERE num_cup_size_id = ?', [id]);
+      this.dbService.executeRun('DELETE FROM config_promotions WHERE num_cup_size_id = ?', [id]);
+      this.dbService.executeRun('DELETE FROM config_cup_sizes WHERE num_id = ?', [id]);
+    });
+    console.log(`🗑️ Tamanho de copo excluído: ${size.desc_label}`);
+  }
+
+  private validate(input: CupSizeInput, currentId: number | null = null): void {
+    if (!input.label.trim()) {
+      throw new Error('Informe o nome do tamanho');
+    }
+    if (!Number.isInteger(input.volumeMl) || input.volumeMl <= 0) {
+      throw new Error('O volume deve ser um número inteiro de ml maior que zero');
+    }
+
+    const rows = this.dbService.executeQuery(
+      'SELECT num_id FROM config_cup_sizes WHERE num_volume_ml = ? AND num_id != ?',
+      [input.volumeMl, currentId ?? 0]
+    );
+    if (rows.length > 0) {
+      throw new Error(`Já existe um tamanho de ${input.volumeMl}ml`);
+    }
+  }
+}
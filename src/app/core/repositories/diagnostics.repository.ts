@@ -0,0 +1,482 @@
+// src/app/core/repositories/diagnostics.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import { ComandaStatus } from '../models/comanda.model';
+import {
+  DIAGNOSTIC_SAMPLE_LIMIT,
+  DiagnosticCheckId,
+  DiagnosticIssue,
+  DiagnosticRepairResult,
+  DiagnosticReport,
+  DiagnosticSeverity,
+  STUCK_COMANDA_HOURS
+} from '../models/diagnostics.model';
+import { DbRow, toNullableNumber, toNumber } from './row-mapper';
+import { SyncRepository } from './sync.repository';
+
+/**
+ * Definição de uma verificação
+ * - detect: uma linha legível por ocorrência (vazio = sem problema)
+ * - repair: aplica a correção e descreve cada alteração feita
+ */
+interface DiagnosticCheck {
+  title: string;
+  description: string;
+  severity: DiagnosticSeverity;
+  repairLabel: string | null;
+  detect: () => string[];
+  repair?: () => string[];
+}
+
+const describeEvent = (eventId: number | null) => eventId === null ? 'geral' : `evento #${eventId}`;
+
+/**
+ * Repositório de diagnóstico e reparo do banco
+ *
+ * Verificações na thread principal (mesmo estado que os reparos alteram).
+ * Cada reparo roda em uma transação; o snapshot de segurança fica a cargo
+ * da tela (DatabaseService.createSnapshot('pre_repair')).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DiagnosticsRepository {
+  private readonly dbService = inject(DatabaseService);
+  private readonly syncRepository = inject(SyncRepository);
+
+  private readonly checks: Record<DiagnosticCheckId, DiagnosticCheck> = {
+    integrity: {
+      title: 'Integridade do arquivo',
+      description: 'PRAGMA integrity_check encontrou páginas ou índices corrompidos. Restaure um snapshot ou backup.',
+      severity: 'error',
+      repairLabel: null,
+      detect: () => this.detectIntegrity()
+    },
+    foreign_keys: {
+      title: 'Referências quebradas',
+      description: 'PRAGMA foreign_key_check encontrou registros apontando para registros inexistentes. Os reparos de vendas, preços e estoques órfãos corrigem os casos conhecidos.',
+      severity: 'error',
+      repairLabel: null,
+      detect: () => this.detectForeignKeys()
+    },
+    orphan_sales_beer: {
+      title: 'Vendas de cervejas inexistentes',
+      description: 'A cerveja da venda não existe mais. O reparo religa as vendas à cerveja de mesmo nome ou recria a cerveja como arquivada.',
+      severity: 'error',
+      repairLabel: 'Recuperar cervejas',
+      detect: () => this.detectOrphanSalesBeer(),
+      repair: () => this.repairOrphanSalesBeer()
+    },
+    orphan_sales_event: {
+      title: 'Vendas de eventos inexistentes',
+      description: 'O evento da venda não existe mais. O reparo remove o vínculo (a venda passa a ser geral).',
+      severity: 'error',
+      repairLabel: 'Desvincular do evento',
+      detect: () => this.detectOrphanSalesReference('num_event_id', 'prd_events', 'evento'),
+      repair: () => this.repairOrphanSalesReference('num_event_id', 'prd_events', 'evento')
+    },
+    orphan_sales_comanda: {
+      title: 'Vendas de comandas inexistentes',
+      description: 'A comanda da venda não existe mais. O reparo remove o vínculo (a venda fica no histórico).',
+      severity: 'error',
+      repairLabel: 'Desvincular da comanda',
+      detect: () => this.detectOrphanSalesReference('num_comanda_id', 'prd_comandas', 'comanda'),
+      repair: () => this.repairOrphanSalesReference('num_comanda_id', 'prd_comandas', 'comanda')
+    },
+    orphan_sales_user: {
+      title: 'Vendas de usuários inexistentes',
+      description: 'O usuário que registrou a venda não existe mais. As vendas continuam válidas nos relatórios; não há reparo automático.',
+      severity: 'warn',
+      repairLabel: null,
+      detect: () => this.detectOrphanSalesReference('num_user_id', 'prd_users', 'usuário')
+    },
+    orphan_config: {
+      title: 'Preços e estoques sem cerveja, evento ou tamanho',
+      description: 'Configurações de preço/estoque de cervejas, eventos ou tamanhos de copo que não existem mais. O reparo remove essas configurações.',
+      severity: 'warn',
+      repairLabel: 'Remover configurações órfãs',
+      detect: () => this.detectOrphanConfig(),
+      repair: () => this.repairOrphanConfig()
+    },
+    invalid_stock: {
+      title: 'Estoque inválido',
+      description: 'Quantidade ou alerta de estoque negativo ou não numérico. O reparo zera a quantidade e aplica o alerta padrão.',
+      severity: 'error',
+      repairLabel: 'Corrigir estoques',
+      detect: () => this.detectInvalidStock(),
+      repair: () => this.repairInvalidStock()
+    },
+    stuck_comandas: {
+      title: 'Comandas presas sem itens',
+      description: `Comandas aguardando pagamento sem itens ou em uso há mais de ${STUCK_COMANDA_HOURS}h sem itens. O reparo as libera.`,
+      severity: 'warn',
+      repairLabel: 'Liberar comandas',
+      detect: () => this.detectStuckComandas(),
+      repair: () => this.repairStuckComandas()
+    },
+    available_comandas_with_items: {
+      title: 'Comandas disponíveis com itens',
+      description: 'Comandas marcadas como disponíveis que ainda têm vendas vinculadas. O reparo reabre a comanda para cobrança.',
+      severity: 'error',
+      repairLabel: 'Reabrir comandas',
+      detect: () => this.detectAvailableComandasWithItems(),
+      repair: () => this.repairAvailableComandasWithItems()
+    },
+    duplicate_stock: {
+      title: 'Estoques duplicados',
+      description: 'Mais de uma configuração de estoque para a mesma cerveja/evento. O reparo mantém a alteração mais recente.',
+      severity: 'warn',
+      repairLabel: 'Manter o mais recente',
+      detect: () => this.detectDuplicates('config_event_sale', 'Estoque'),
+      repair: () => this.repairDuplicates('config_event_sale', 'Estoque')
+    }
+  };
+
+  // ==================== DIAGNÓSTICO ====================
+
+  /**
+   * Executa todas as verificações
+   * Uma verificação que falha vira um problema (não interrompe as demais)
+   */
+  public runDiagnostics(): DiagnosticReport {
+    const issues: DiagnosticIssue[] = [];
+
+    for (const [check, definition] of Object.entries(this.checks) as [DiagnosticCheckId, DiagnosticCheck][]) {
+      let findings: string[];
+      try {
+        findings = definition.detect();
+      } catch (error) {
+        console.error(`❌ Erro na verificação ${check}:`, error);
+        findings = [`Falha ao verificar: ${error instanceof Error ? error.message : String(error)}`];
+      }
+
+      if (findings.length === 0) continue;
+
+      issues.push({
+        check,
+        title: definition.title,
+        description: definition.description,
+        severity: definition.severity,
+        count: findings.length,
+        samples: findings.slice(0, DIAGNOSTIC_SAMPLE_LIMIT),
+        repairLabel: definition.repair ? definition.repairLabel : null
+      });
+    }
+
+    return { checkedAt: new Date().toISOString(), issues };
+  }
+
+  /**
+   * Aplica o reparo de uma verificação em uma única transação
+   */
+  public repair(check: DiagnosticCheckId): DiagnosticRepairResult {
+    const definition = this.checks[check];
+    if (!definition.repair) {
+      throw new Error(`Verificação "${definition.title}" não tem reparo automático`);
+    }
+
+    const changes = this.dbService.transaction(() => definition.repair!());
+    console.log(`✅ Reparo ${check}: ${changes.length} alteração(ões)`);
+
+    return {
+      check,
+      title: definition.title,
+      repairedAt: new Date().toISOString(),
+      changes
+    };
+  }
+
+  // ==================== ARQUIVO ====================
+
+  private detectIntegrity(): string[] {
+    const messages = this.dbService.executeQuery('PRAGMA integrity_check')
+      .map((row: DbRow) => String(Object.values(row)[0]));
+    return messages.length === 1 && messages[0] === 'ok' ? [] : messages;
+  }
+
+  private detectForeignKeys(): string[] {
+    return this.dbService.executeQuery('PRAGMA foreign_key_check')
+      .map((row: DbRow) => `${row['table']} #${row['rowid']} → ${row['parent']} inexistente`);
+  }
+
+  // ==================== VENDAS ÓRFÃS ====================
+
+  private detectOrphanSalesBeer(): string[] {
+    return this.dbService.executeQuery(
+      `SELECT s.num_id, s.num_beer_id, s.desc_beer_name
+       FROM prd_sales s
+       LEFT JOIN prd_beer_types b ON b.num_id = s.num_beer_id
+       WHERE b.num_id IS NULL
+       ORDER BY s.num_id`
+    ).map((row: DbRow) => `Venda #${row['num_id']}: cerveja #${row['num_beer_id']} (${row['desc_beer_name']})`);
+  }
+
+  /**
+   * Religa à cerveja de mesmo nome; sem ela, recria a cerveja (mesmo ID)
+   * como arquivada para preservar o histórico
+   */
+  private repairOrphanSalesBeer(): string[] {
+    const missing = this.dbService.executeQuery(
+      `SELECT s.num_beer_id, MIN(s.desc_beer_name) AS desc_beer_name, COUNT(*) AS num_sales
+       FROM prd_sales s
+       LEFT JOIN prd_beer_types b ON b.num_id = s.num_beer_id
+       WHERE b.num_id IS NULL
+       GROUP BY s.num_beer_id`
+    );
+    const now = new Date().toISOString();
+    const changes: string[] = [];
+
+    for (const row of missing) {
+      const missingId = toNumber(row['num_beer_id']);
+      const name = String(row['desc_beer_name']);
+      const sameName = this.dbService.executeQuery(
+        'SELECT num_id FROM prd_beer_types WHERE desc_name = ? COLLATE NOCASE LIMIT 1',
+        [name]
+      )[0];
+
+      if (sameName) {
+        const beerId = toNumber(sameName['num_id']);
+        this.dbService.executeRun('UPDATE prd_sales SET num_beer_id = ? WHERE num_beer_id = ?', [beerId, missingId]);
+        changes.push(`${row['num_sales']} venda(s) da cerveja #${missingId} religada(s) a "${name}" (#${beerId})`);
+      } else {
+        this.dbService.executeRun(
+          'INSERT INTO prd_beer_types (num_id, desc_name, desc_description, dt_archived_at) VALUES (?, ?, ?, ?)',
+          [missingId, name, 'Recuperada pelo diagnóstico', now]
+        );
+        changes.push(`Cerveja "${name}" (#${missingId}) recriada como arquivada para ${row['num_sales']} venda(s)`);
+      }
+    }
+
+    return changes;
+  }
+
+  private detectOrphanSalesReference(column: string, table: string, label: string): string[] {
+    return this.dbService.executeQuery(
+      `SELECT s.num_id, s.${column} AS num_ref_id
+       FROM prd_sales s
+       LEFT JOIN ${table} r ON r.num_id = s.${column}
+       WHERE s.${column} IS NOT NULL AND r.num_id IS NULL
+       ORDER BY s.num_id`
+    ).map((row: DbRow) => `Venda #${row['num_id']}: ${label} #${row['num_ref_id']}`);
+  }
+
+  private repairOrphanSalesReference(column: string, table: string, label: string): string[] {
+    const missing = this.dbService.executeQuery(
+      `SELECT s.${column} AS num_ref_id, COUNT(*) AS num_sales
+       FROM prd_sales s
+       LEFT JOIN ${table} r ON r.num_id = s.${column}
+       WHERE s.${column} IS NOT NULL AND r.num_id IS NULL
+       GROUP BY s.${column}`
+    );
+
+    return missing.map((row: DbRow) => {
+      this.dbService.executeRun(`UPDATE prd_sales SET ${column} = NULL WHERE ${column} = ?`, [toNumber(row['num_ref_id'])]);
+      return `${row['num_sales']} venda(s) desvinculada(s) do(a) ${label} #${row['num_ref_id']}`;
+    });
+  }
+
+  // ==================== PREÇOS E ESTOQUE ====================
+
+  private findOrphanConfig(): { table: string; label: string; id: number; beerId: number; eventId: number | null }[] {
+    const tables = [
+      { table: 'config_sale_prices', label: 'Preço', cupSizeCheck: 'OR cs.num_id IS NULL' },
+      { table: 'config_event_sale', label: 'Estoque', cupSizeCheck: '' },
+      { table: 'config_unit_prices', label: 'Preço unitário', cupSizeCheck: '' },
+      { table: 'config_event_unit_stock', label: 'Estoque em unidades', cupSizeCheck: '' }
+    ];
+
+    return tables.flatMap(({ table, label, cupSizeCheck }) =>
+      this.dbService.executeQuery(
+        `SELECT c.num_id, c.num_beer_id, c.num_event_id
+         FROM ${table} c
+         LEFT JOIN prd_beer_types b ON b.num_id = c.num_beer_id
+         LEFT JOIN prd_events e ON e.num_id = c.num_event_id
+         ${cupSizeCheck ? 'LEFT JOIN config_cup_sizes cs ON cs.num_id = c.num_cup_size_id' : ''}
+         WHERE b.num_id IS NULL OR (c.num_event_id IS NOT NULL AND e.num_id IS NULL) ${cupSizeCheck}
+         ORDER BY c.num_id`
+      ).map((row: DbRow) => ({
+        table,
+        label,
+        id: toNumber(row['num_id']),
+        beerId: toNumber(row['num_beer_id']),
+        eventId: toNullableNumber(row['num_event_id'])
+      }))
+    );
+  }
+
+  private detectOrphanConfig(): string[] {
+    return this.findOrphanConfig()
+      .map(item => `${item.label} #${item.id}: cerveja #${item.beerId}, ${describeEvent(item.eventId)}`);
+  }
+
+  private repairOrphanConfig(): string[] {
+    return this.findOrphanConfig().map(item => {
+      this.dbService.executeRun(`DELETE FROM ${item.table} WHERE num_id = ?`, [item.id]);
+      return `${item.label} #${item.id} removido (cerveja #${item.beerId}, ${describeEvent(item.eventId)})`;
+    });
+  }
+
+  private findInvalidStock(): DbRow[] {
+    return this.dbService.executeQuery(
+      `SELECT num_id, desc_beer_name, num_event_id, num_quantidade_litros, num_min_liters_alert
+       FROM config_event_sale
+       WHERE typeof(num_quantidade_litros) NOT IN ('integer', 'real')
+          OR num_quantidade_litros < 0
+          OR (num_min_liters_alert IS NOT NULL
+              AND (typeof(num_min_liters_alert) NOT IN ('integer', 'real') OR num_min_liters_alert < 0))
+       ORDER BY num_id`
+    );
+  }
+
+  private detectInvalidStock(): string[] {
+    return this.findInvalidStock().map((row: DbRow) =>
+      `Estoque #${row['num_id']} (${row['desc_beer_name']}, ${describeEvent(toNullableNumber(row['num_event_id']))}): ` +
+      `${row['num_quantidade_litros']} L, alerta ${row['num_min_liters_alert'] ?? '—'}`
+    );
+  }
+
+  private repairInvalidStock(): string[] {
+    const defaultAlert = toNumber(
+      this.dbService.executeQuery('SELECT num_min_liters FROM config_stock_alert WHERE num_id = 1')[0]?.['num_min_liters'] ?? 5
+    );
+    const now = new Date().toISOString();
+
+    return this.findInvalidStock().map((row: DbRow) => {
+      const liters = row['num_quantidade_litros'];
+      const alert = row['num_min_liters_alert'];
+      const validLiters = typeof liters === 'number' && liters >= 0 ? liters : 0;
+      const validAlert = alert === null || (typeof alert === 'number' && alert >= 0) ? alert : defaultAlert;
+
+      this.dbService.executeRun(
+        'UPDATE config_event_sale SET num_quantidade_litros = ?, num_min_liters_alert = ?, dt_updated_at = ? WHERE num_id = ?',
+        [validLiters, validAlert, now, toNumber(row['num_id'])]
+      );
+      return `Estoque #${row['num_id']} (${row['desc_beer_name']}): ${liters} → ${validLiters} L, alerta ${alert ?? '—'} → ${validAlert ?? '—'}`;
+    });
+  }
+
+  private findDuplicates(table: string): DbRow[] {
+    return this.dbService.executeQuery(
+      `SELECT num_beer_id, num_event_id, MIN(desc_beer_name) AS desc_beer_name, COUNT(*) AS num_rows
+       FROM ${table}
+       GROUP BY num_beer_id, num_event_id
+       HAVING COUNT(*) > 1`
+    );
+  }
+
+  private detectDuplicates(table: string, label: string): string[] {
+    return this.findDuplicates(table).map((row: DbRow) =>
+      `${label} de "${row['desc_beer_name']}" (${describeEvent(toNullableNumber(row['num_event_id']))}): ${row['num_rows']} registros`
+    );
+  }
+
+  /**
+   * Mantém o registro alterado por último e remove os demais
+   * (UNIQUE não impede duplicatas com num_event_id NULL)
+   */
+  private repairDuplicates(table: string, label: string): string[] {
+    return this.findDuplicates(table).map((row: DbRow) => {
+      const beerId = toNumber(row['num_beer_id']);
+      const eventId = toNullableNumber(row['num_event_id']);
+      const ids = this.dbService.executeQuery(
+        `SELECT num_id FROM ${table}
+         WHERE num_beer_id = ? AND num_event_id IS ?
+         ORDER BY dt_updated_at DESC, num_id DESC`,
+        [beerId, eventId]
+      ).map((idRow: DbRow) => toNumber(idRow['num_id']));
+
+      const [kept, ...removed] = ids;
+      for (const id of removed) {
+        this.dbService.executeRun(`DELETE FROM ${table} WHERE num_id = ?`, [id]);
+      }
+      return `${label} de "${row['desc_beer_name']}" (${describeEvent(eventId)}): mantido #${kept}, removido(s) ${removed.map(id => `#${id}`).join(', ')}`;
+    });
+  }
+
+  // ==================== COMANDAS ====================
+
+  private findStuckComandas(): DbRow[] {
+    const cutoff = new Date(Date.now() - STUCK_COMANDA_HOURS * 60 * 60 * 1000).toISOString();
+    return this.dbService.executeQuery(
+      `SELECT c.num_id, c.num_numero, c.desc_status, c.dt_opened_at
+       FROM prd_comandas c
+       WHERE NOT EXISTS (SELECT 1 FROM prd_sales s WHERE s.num_comanda_id = c.num_id)
+         AND (
+           c.desc_status = ?
+           OR (c.desc_status = ? AND (c.dt_opened_at IS NULL OR c.dt_opened_at < ?))
+         )
+       ORDER BY c.num_numero`,
+      [ComandaStatus.AGUARDANDO_PAGAMENTO, ComandaStatus.EM_USO, cutoff]
+    );
+  }
+
+  private detectStuckComandas(): string[] {
+    return this.findStuckComandas().map((row: DbRow) =>
+      `Comanda ${row['num_numero']}: ${row['desc_status']} desde ${row['dt_opened_at'] ?? '—'}, sem itens`
+    );
+  }
+
+  /**
+   * Libera as comandas; na sincronização, em_uso passa por aguardando_pagamento
+   * (única transição aceita pelo servidor)
+   */
+  private repairStuckComandas(): string[] {
+    const now = new Date().toISOString();
+
+    return this.findStuckComandas().map((row: DbRow) => {
+      const numero = toNumber(row['num_numero']);
+      const status = row['desc_status'] as ComandaStatus;
+
+      this.dbService.executeRun(
+        `UPDATE prd_comandas
+         SET desc_status = ?, num_total_value = 0, num_service_rate = 0, num_tip = 0, num_closed_by = NULL,
+             desc_pix_txid = NULL, dt_opened_at = NULL, dt_closed_at = NULL, dt_updated_at = ?
+         WHERE num_id = ?`,
+        [ComandaStatus.DISPONIVEL, now, toNumber(row['num_id'])]
+      );
+
+      if (status === ComandaStatus.EM_USO) {
+        this.syncRepository.enqueueComanda(numero, ComandaStatus.EM_USO, ComandaStatus.AGUARDANDO_PAGAMENTO, 0);
+      }
+      this.syncRepository.enqueueComanda(numero, ComandaStatus.AGUARDANDO_PAGAMENTO, ComandaStatus.DISPONIVEL, 0);
+
+      return `Comanda ${numero}: ${status} → ${ComandaStatus.DISPONIVEL}`;
+    });
+  }
+
+  private findAvailableComandasWithItems(): DbRow[] {
+    return this.dbService.executeQuery(
+      `SELECT c.num_id, c.num_numero, COUNT(s.num_id) AS num_items, MIN(s.dt_timestamp) AS dt_first_sale
+       FROM prd_comandas c
+       JOIN prd_sales s ON s.num_comanda_id = c.num_id
+       WHERE c.desc_status = ?
+       GROUP BY c.num_id
+       ORDER BY c.num_numero`,
+      [ComandaStatus.DISPONIVEL]
+    );
+  }
+
+  private detectAvailableComandasWithItems(): string[] {
+    return this.findAvailableComandasWithItems().map((row: DbRow) =>
+      `Comanda ${row['num_numero']}: disponível com ${row['num_items']} item(ns)`
+    );
+  }
+
+  private repairAvailableComandasWithItems(): string[] {
+    const now = new Date().toISOString();
+
+    return this.findAvailableComandasWithItems().map((row: DbRow) => {
+      const numero = toNumber(row['num_numero']);
+
+      this.dbService.executeRun(
+        `UPDATE prd_comandas
+         SET desc_status = ?, dt_opened_at = ?, dt_closed_at = NULL, dt_updated_at = ?
+         WHERE num_id = ?`,
+        [ComandaStatus.EM_USO, String(row['dt_first_sale'] ?? now), now, toNumber(row['num_id'])]
+      );
+      this.syncRepository.enqueueComanda(numero, ComandaStatus.DISPONIVEL, ComandaStatus.EM_USO, 0);
+
+      return `Comanda ${numero}: reaberta com ${row['num_items']} item(ns)`;
+    });
+  }
+}
@@ -0,0 +1,191 @@
+// src/app/core/repositories/event.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import {
+  CreateEventDto,
+  Event,
+  EventStatus,
+  UpdateEventDto,
+  isValidEvent
+} from '../models/event.model';
+import { DbRow, mapFirstRow, mapRows, toNullableText, toNumber, toStrictNumber } from './row-mapper';
+import { SalesArchiveRepository } from './sales-archive.repository';
+import { SyncRepository } from './sync.repository';
+
+const mapEventRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  desc_name_event: row['desc_name_event'],
+  desc_local_event: row['desc_local_event'],
+  dt_data_event: row['dt_data_event'],
+  desc_contact_event: row['desc_contact_event'] ?? undefined,
+  desc_name_contact_event: row['desc_name_contact_event'] ?? undefined,
+  desc_status: row['desc_status'],
+  dt_created_at: row['dt_created_at'],
+  dt_updated_at: row['dt_updated_at'],
+  dt_archived_at: toNullableText(row['dt_archived_at'])
+});
+
+/**
+ * Colunas editáveis de prd_events (campo do DTO → coluna)
+ */
+const UPDATABLE_EVENT_COLUMNS: (keyof Omit<UpdateEventDto, 'num_id'>)[] = [
+  'desc_name_event',
+  'desc_local_event',
+  'dt_data_event',
+  'desc_contact_event',
+  'desc_name_contact_event',
+  'desc_status'
+];
+
+/**
+ * Repositório de eventos de venda (prd_events)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class EventRepository {
+  private readonly dbService = inject(DatabaseService);
+  private readonly archiveRepository = inject(SalesArchiveRepository);
+  private readonly syncRepository = inject(SyncRepository);
+
+  /**
+   * Lista todos os eventos (mais recentes primeiro)
+   */
+  public findAll(): Event[] {
+    const rows = this.dbService.executeQuery('SELECT * FROM prd_events ORDER BY dt_data_event DESC');
+    return mapRows(rows, mapEventRow, isValidEvent, 'evento');
+  }
+
+  /**
+   * Lista eventos por status
+   */
+  public findByStatus(status: EventStatus): Event[] {
+    const rows = this.dbService.executeQuery(
+      'SELECT * FROM prd_events WHERE desc_status = ? ORDER BY dt_data_event DESC',
+      [status]
+    );
+    return mapRows(rows, mapEventRow, isValidEvent, 'evento');
+  }
+
+  /**
+   * Busca evento por ID
+   */
+  public findById(id: number): Event | null {
+    const rows = this.dbService.executeQuery('SELECT * FROM prd_events WHERE num_id = ? LIMIT 1', [id]);
+    return mapFirstRow(rows, mapEventRow, isValidEvent, 'evento');
+  }
+
+  /**
+   * Cria um novo evento (status padrão: planejamento)
+   * @returns ID do evento criado
+   * @throws Error se o banco não retornar o ID gerado
+   */
+  public create(dto: CreateEventDto): number {
+    const now = new Date().toISOString();
+
+    return this.dbService.transaction(() => {
+      this.dbService.executeRun(
+        `INSERT INTO prd_events (desc_name_event, desc_local_event, dt_data_event, desc_contact_event, desc_name_contact_event, desc_status, dt_created_at, dt_updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          dto.desc_name_event,
+          dto.desc_local_event,
+          dto.dt_data_event,
+          dto.desc_contact_event || null,
+          dto.desc_name_contact_event || null,
+          dto.desc_status || 'planejamento',
+          now,
+          now
+        ]
+      );
+
+      const eventId = this.dbService.getLastInsertId();
+      if (!eventId) {
+        throw new Error('O banco não retornou o ID do evento criado');
+      }
+      this.syncRepository.enqueueEvent(eventId);
+      return eventId;
+    });
+  }
+
+  /**
+   * Atualiza os campos informados de um evento
+   * @returns false se nenhum campo foi informado
+   */
+  public update(dto: UpdateEventDto): boolean {
+    const columns = UPDATABLE_EVENT_COLUMNS.filter(column => dto[column] !== undefined);
+    if (columns.length === 0) {
+      return false;
+    }
+
+    const values = columns.map(column => dto[column] || null);
+    this.dbService.transaction(() => {
+      this.dbService.executeRun(
+        `UPDATE prd_events SET ${columns.map(column => `${column} = ?`).join(', ')}, dt_updated_at = ? WHERE num_id = ?`,
+        [...values, new Date().toISOString(), dto.num_id]
+      );
+      this.syncRepository.enqueueEvent(dto.num_id);
+    });
+    return true;
+  }
+
+  /**
+   * Muda o status de um evento
+   */
+  public updateStatus(id: number, status: EventStatus): boolean {
+    return this.update({ num_id: id, desc_status: status });
+  }
+
+  /**
+   * Arquiva o evento: sai da gestão de eventos, vendas continuam nos relatórios
+   */
+  public archive(id: number): void {
+    const now = new Date().toISOString();
+    this.dbService.transaction(() => {
+      this.dbService.executeRun(
+        'UPDATE prd_events SET dt_archived_at = ?, dt_updated_at = ? WHERE num_id = ? AND dt_archived_at IS NULL',
+        [now, now, id]
+      );
+      this.syncRepository.enqueueEvent(id);
+    });
+  }
+
+  /**
+   * Restaura um evento arquivado
+   */
+  public restore(id: number): void {
+    this.dbService.transaction(() => {
+      this.dbService.executeRun(
+        'UPDATE prd_events SET dt_archived_at = NULL, dt_updated_at = ? WHERE num_id = ?',
+        [new Date().toISOString(), id]
+      );
+      this.syncRepository.enqueueEvent(id);
+    });
+  }
+
+  /**
+   * Remove definitivamente um evento sem vendas, com seus estoques e preços
+   * As chaves estrangeiras não estão ativas no sql.js (sem CASCADE),
+   * por isso as configurações do evento são removidas explicitamente.
+   *
+   * @throws Error se o evento possui vendas, inclusive em arquivos de vendas (deve ser arquivado)
+   */
+  public delete(id: number): void {
+    this.dbService.transaction(() => {
+      const sales = this.dbService.executeQuery(
+        'SELECT COUNT(*) as count FROM prd_sales WHERE num_event_id = ?',
+        [id]
+      );
+      if (toNumber(sales[0]?.['count']) > 0 || this.archiveRepository.findReferencedEventIds().has(id)) {
+        throw new Error('O evento possui vendas registradas e só pode ser arquivado');
+      }
+      this.dbService.executeRun('DELETE FROM config_event_sale WHERE num_event_id = ?', [id]);
+      this.dbService.executeRun('DELETE FROM config_sale_prices WHERE num_event_id = ?', [id]);
+      this.dbService.executeRun('DELETE FROM config_event_unit_stock WHERE num_event_id = ?', [id]);
+      this.dbService.executeRun('DELETE FROM config_unit_prices WHERE num_event_id = ?', [id]);
+      this.dbService.executeRun('DELETE FROM config_promotions WHERE num_event_id = ?', [id]);
+      this.dbService.executeRun('DELETE FROM config_service_charge WHERE num_event_id = ?', [id]);
+      this.dbService.executeRun('DELETE FROM prd_events WHERE num_id = ?', [id]);
+    });
+  }
+}
@@ -0,0 +1,83 @@
+// src/app/core/repositories/payment.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import { Payment, PaymentInput, calculateChange, isPayment } from '../models/payment.model';
+import { DbRow, mapRows, toNullableNumber, toNullableText, toNumber, toStrictNumber } from './row-mapper';
+import { SyncRepository } from './sync.repository';
+
+const mapPaymentRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  desc_bill_id: row['desc_bill_id'],
+  desc_method: row['desc_method'],
+  num_amount: toNumber(row['num_amount']),
+  num_change: toNumber(row['num_change']),
+  desc_reference: toNullableText(row['desc_reference']),
+  desc_pix_txid: toNullableText(row['desc_pix_txid']),
+  num_comanda_id: toNullableNumber(row['num_comanda_id']),
+  num_user_id: toStrictNumber(row['num_user_id']),
+  num_event_id: toNullableNumber(row['num_event_id']),
+  dt_timestamp: row['dt_timestamp']
+});
+
+/**
+ * Contexto da conta paga
+ */
+export interface PaymentContext {
+  comandaId: number | null;
+  userId: number;
+  eventId: number | null;
+}
+
+/**
+ * Repositório de pagamentos (prd_payments)
+ * Os pagamentos sincronizam por conta paga (entidade bill), com a taxa de
+ * serviço/gorjeta e as vendas da conta.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PaymentRepository {
+  private readonly dbService = inject(DatabaseService);
+  private readonly syncRepository = inject(SyncRepository);
+
+  /**
+   * Pagamentos de uma conta
+   */
+  public findByBill(billId: string): Payment[] {
+    const rows = this.dbService.executeQuery(
+      'SELECT * FROM prd_payments WHERE desc_bill_id = ? ORDER BY num_id',
+      [billId]
+    );
+    return mapRows(rows, mapPaymentRow, isPayment, 'pagamento');
+  }
+
+  /**
+   * Grava os pagamentos de uma conta e a enfileira para sincronização
+   * Deve ser chamado na mesma transação, depois de gravar a taxa da conta e
+   * ligar as vendas a ela (desc_bill_id): a conta sincroniza com ambos.
+   * A validação (validatePayments) é responsabilidade de quem chama.
+   */
+  public insertForBill(billId: string, payments: PaymentInput[], context: PaymentContext): void {
+    const now = new Date().toISOString();
+
+    payments.forEach(payment => {
+      this.dbService.executeRun(
+        `INSERT INTO prd_payments (desc_bill_id, desc_method, num_amount, num_change, desc_reference, desc_pix_txid, num_comanda_id, num_user_id, num_event_id, dt_timestamp)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          billId,
+          payment.method,
+          payment.amount,
+          calculateChange(payment),
+          payment.reference?.trim() || null,
+          payment.method === 'pix' ? payment.pixTxid || null : null,
+          context.comandaId,
+          context.userId,
+          context.eventId,
+          now
+        ]
+      );
+    });
+    this.syncRepository.enqueueBill(billId);
+  }
+}
@@ -0,0 +1,159 @@
+// src/app/core/repositories/price.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import { SalePrice, SalePriceInput, UnitPrice, isSalePrice, isUnitPrice } from '../models/price.model';
+import { DbRow, mapFirstRow, mapRows, toNullableNumber, toNumber, toStrictNumber } from './row-mapper';
+
+const mapPriceRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  num_beer_id: toStrictNumber(row['num_beer_id']),
+  num_cup_size_id: toStrictNumber(row['num_cup_size_id']),
+  num_event_id: toNullableNumber(row['num_event_id']),
+  num_price: toStrictNumber(row['num_price']),
+  dt_updated_at: row['dt_updated_at']
+});
+
+const mapUnitPriceRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  num_beer_id: toStrictNumber(row['num_beer_id']),
+  num_event_id: toNullableNumber(row['num_event_id']),
+  num_price: toStrictNumber(row['num_price']),
+  dt_updated_at: row['dt_updated_at']
+});
+
+/**
+ * Repositório de preços por cerveja × tamanho de copo × evento (config_sale_prices)
+ * e dos preços dos produtos vendidos por unidade (config_unit_prices)
+ *
+ * eventId = null representa o preço geral (vendas sem evento).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PriceRepository {
+  private readonly dbService = inject(DatabaseService);
+
+  /**
+   * Preços de uma cerveja, um por tamanho de copo
+   * @param eventId ID do evento (null = preço geral)
+   */
+  public findByBeer(beerId: number, eventId: number | null = null): SalePrice[] {
+    const rows = this.dbService.executeQuery(
+      'SELECT * FROM config_sale_prices WHERE num_beer_id = ? AND IFNULL(num_event_id, 0) = ?',
+      [beerId, eventId ?? 0]
+    );
+    return mapRows(rows, mapPriceRow, isSalePrice, 'preço');
+  }
+
+  /**
+   * Indica se o produto tem preço configurado (geral ou de evento), por copo ou por unidade
+   */
+  public hasPrices(beerId: number, eventId: number | null = null): boolean {
+    const rows = this.dbService.executeQuery(
+      `SELECT 1 FROM config_sale_prices
+       WHERE num_beer_id = ? AND (num_event_id IS NULL OR num_event_id = ?)
+       UNION ALL
+       SELECT 1 FROM config_unit_prices
+       WHERE num_beer_id = ? AND (num_event_id IS NULL OR num_event_id = ?)
+       LIMIT 1`,
+      [beerId, eventId, beerId, eventId]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Preço vigente de um copo: o do evento, se houver, senão o preço geral
+   * @param volumeMl Volume do copo (config_cup_sizes.num_volume_ml)
+   * @returns Preço em reais ou null se não configurado
+   */
+  public findEffectivePrice(beerId: number, volumeMl: number, eventId: number | null = null): number | null {
+    const rows = this.dbService.executeQuery(
+      `SELECT sp.num_price
+       FROM config_sale_prices sp
+       JOIN config_cup_sizes cs ON cs.num_id = sp.num_cup_size_id
+       WHERE sp.num_beer_id = ? AND cs.num_volume_ml = ?
+         AND (sp.num_event_id IS NULL OR sp.num_event_id = ?)
+       ORDER BY sp.num_event_id IS NULL
+       LIMIT 1`,
+      [beerId, volumeMl, eventId]
+    );
+    return rows.length > 0 ? toNumber(rows[0]['num_price']) : null;
+  }
+
+  /**
+   * Define ou atualiza os preços de uma cerveja
+   * @param prices ID do tamanho de copo → preço
+   * @param eventId ID do evento (null = preço geral)
+   */
+  public save(beerId: number, prices: SalePriceInput, eventId: number | null = null): void {
+    const now = new Date().toISOString();
+
+    this.dbService.transaction(() => {
+      for (const [cupSizeId, price] of Object.entries(prices)) {
+        this.dbService.executeRun(
+          `INSERT INTO config_sale_prices (num_beer_id, num_cup_size_id, num_event_id, num_price, dt_updated_at)
+           VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT(num_beer_id, num_cup_size_id, IFNULL(num_event_id, 0)) DO UPDATE SET
+             num_price = excluded.num_price,
+             dt_updated_at = excluded.dt_updated_at`,
+          [beerId, Number(cupSizeId), eventId, price, now]
+        );
+      }
+    });
+    console.log(`✅ Preços salvos: cerveja ${beerId} [eventId: ${eventId || 'geral'}]`);
+  }
+
+  /**
+   * Remove os preços de uma cerveja em todos os eventos
+   */
+  public remove(beerId: number): void {
+    this.dbService.executeRun('DELETE FROM config_sale_prices WHERE num_beer_id = ?', [beerId]);
+    this.dbService.executeRun('DELETE FROM config_unit_prices WHERE num_beer_id = ?', [beerId]);
+  }
+
+  // ==================== PRODUTOS UNITÁRIOS ====================
+
+  /**
+   * Preço da unidade configurado para o evento (sem fallback para o geral)
+   * @param eventId ID do evento (null = preço geral)
+   */
+  public findUnitPrice(beerId: number, eventId: number | null = null): UnitPrice | null {
+    const rows = this.dbService.executeQuery(
+      'SELECT * FROM config_unit_prices WHERE num_beer_id = ? AND IFNULL(num_event_id, 0) = ?',
+      [beerId, eventId ?? 0]
+    );
+    return mapFirstRow(rows, mapUnitPriceRow, isUnitPrice, 'preço unitário');
+  }
+
+  /**
+   * Preço vigente da unidade: o do evento, se houver, senão o preço geral
+   * @returns Preço em reais ou null se não configurado
+   */
+  public findEffectiveUnitPrice(beerId: number, eventId: number | null = null): number | null {
+    const rows = this.dbService.executeQuery(
+      `SELECT num_price
+       FROM config_unit_prices
+       WHERE num_beer_id = ? AND (num_event_id IS NULL OR num_event_id = ?)
+       ORDER BY num_event_id IS NULL
+       LIMIT 1`,
+      [beerId, eventId]
+    );
+    return rows.length > 0 ? toNumber(rows[0]['num_price']) : null;
+  }
+
+  /**
+   * Define ou atualiza o preço da unidade de um produto
+   * @param eventId ID do evento (null = preço geral)
+   */
+  public saveUnitPrice(beerId: number, price: number, eventId: number | null = null): void {
+    this.dbService.executeRun(
+      `INSERT INTO config_unit_prices (num_beer_id, num_event_id, num_price, dt_updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(num_beer_id, IFNULL(num_event_id, 0)) DO UPDATE SET
+         num_price = excluded.num_price,
+         dt_updated_at = excluded.dt_updated_at`,
+      [beerId, eventId, price, new Date().toISOString()]
+    );
+    console.log(`✅ Preço unitário salvo: produto ${beerId} = R$ ${price.toFixed(2)} [eventId: ${eventId || 'geral'}]`);
+  }
+}
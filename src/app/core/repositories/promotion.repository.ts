@@ -0,0 +1,159 @@
+// src/app/core/repositories/promotion.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import { Promotion, PromotionDto, isPromotion, validatePromotion } from '../models/promotion.model';
+import { DbRow, mapRows, toNullableNumber, toNullableText, toNumber, toStrictNumber } from './row-mapper';
+
+const mapPromotionRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  desc_name: row['desc_name'],
+  desc_type: row['desc_type'],
+  num_value: toNumber(row['num_value']),
+  num_buy_qty: toNullableNumber(row['num_buy_qty']),
+  num_free_qty: toNullableNumber(row['num_free_qty']),
+  num_event_id: toNullableNumber(row['num_event_id']),
+  num_beer_id: toNullableNumber(row['num_beer_id']),
+  num_cup_size_id: toNullableNumber(row['num_cup_size_id']),
+  num_cup_volume_ml: toNullableNumber(row['num_cup_volume_ml']),
+  dt_starts_at: toNullableText(row['dt_starts_at']),
+  dt_ends_at: toNullableText(row['dt_ends_at']),
+  desc_start_time: toNullableText(row['desc_start_time']),
+  desc_end_time: toNullableText(row['desc_end_time']),
+  desc_weekdays: toNullableText(row['desc_weekdays']),
+  int_stackable: toNumber(row['int_stackable']),
+  int_active: toNumber(row['int_active']),
+  dt_created_at: row['dt_created_at'],
+  dt_updated_at: row['dt_updated_at']
+});
+
+const PROMOTION_SELECT = `
+  SELECT p.*, cs.num_volume_ml as num_cup_volume_ml
+  FROM config_promotions p
+  LEFT JOIN config_cup_sizes cs ON cs.num_id = p.num_cup_size_id`;
+
+/**
+ * Colunas gravadas a partir do DTO (mesma ordem dos parâmetros)
+ */
+const PROMOTION_COLUMNS: (keyof PromotionDto)[] = [
+  'desc_name',
+  'desc_type',
+  'num_value',
+  'num_buy_qty',
+  'num_free_qty',
+  'num_event_id',
+  'num_beer_id',
+  'num_cup_size_id',
+  'dt_starts_at',
+  'dt_ends_at',
+  'desc_start_time',
+  'desc_end_time',
+  'desc_weekdays',
+  'int_stackable',
+  'int_active'
+];
+
+/**
+ * Repositório de promoções (config_promotions)
+ * A avaliação das regras fica em promotion.model.ts (applyPromotions).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PromotionRepository {
+  private readonly dbService = inject(DatabaseService);
+
+  /**
+   * Lista todas as promoções (ativas primeiro)
+   */
+  public findAll(): Promotion[] {
+    if (!this.dbService.tableExists('config_promotions')) return [];
+
+    const rows = this.dbService.executeQuery(
+      `${PROMOTION_SELECT} ORDER BY p.int_active DESC, p.desc_name COLLATE NOCASE`
+    );
+    return mapRows(rows, mapPromotionRow, isPromotion, 'promoção');
+  }
+
+  /**
+   * Promoções ativas que valem para vendas do evento informado
+   * (as do próprio evento e as sem evento); horário e alvo são
+   * avaliados por applyPromotions no momento da venda
+   */
+  public findApplicable(eventId: number | null): Promotion[] {
+    if (!this.dbService.tableExists('config_promotions')) return [];
+
+    const rows = this.dbService.executeQuery(
+      `${PROMOTION_SELECT}
+       WHERE p.int_active = 1 AND (p.num_event_id IS NULL OR p.num_event_id = ?)`,
+      [eventId]
+    );
+    return mapRows(rows, mapPromotionRow, isPromotion, 'promoção');
+  }
+
+  /**
+   * Cria uma promoção
+   * @returns ID da promoção criada
+   * @throws Error se os dados forem inválidos
+   */
+  public create(dto: PromotionDto): number {
+    validatePromotion(dto);
+
+    const now = new Date().toISOString();
+    this.dbService.executeRun(
+      `INSERT INTO config_promotions (${PROMOTION_COLUMNS.join(', ')}, dt_created_at, dt_updated_at)
+       VALUES (${PROMOTION_COLUMNS.map(() => '?').join(', ')}, ?, ?)`,
+      [...PROMOTION_COLUMNS.map(column => this.normalize(dto, column)), now, now]
+    );
+
+    const promotionId = this.dbService.getLastInsertId();
+    if (!promotionId) {
+      throw new Error('O banco não retornou o ID da promoção criada');
+    }
+    console.log(`✅ Promoção criada: ${dto.desc_name}`);
+    return promotionId;
+  }
+
+  /**
+   * Atualiza todos os campos de uma promoção
+   * @throws Error se os dados forem inválidos
+   */
+  public update(id: number, dto: PromotionDto): void {
+    validatePromotion(dto);
+
+    this.dbService.executeRun(
+      `UPDATE config_promotions
+       SET ${PROMOTION_COLUMNS.map(column => `${column} = ?`).join(', ')}, dt_updated_at = ?
+       WHERE num_id = ?`,
+      [...PROMOTION_COLUMNS.map(column => this.normalize(dto, column)), new Date().toISOString(), id]
+    );
+  }
+
+  public setActive(id: number, active: boolean): void {
+    this.dbService.executeRun(
+      'UPDATE config_promotions SET int_active = ?, dt_updated_at = ? WHERE num_id = ?',
+      [active ? 1 : 0, new Date().toISOString(), id]
+    );
+  }
+
+  /**
+   * Exclui a promoção (vendas mantêm o desconto e o nome gravados)
+   */
+  public delete(id: number): void {
+    this.dbService.executeRun('DELETE FROM config_promotions WHERE num_id = ?', [id]);
+  }
+
+  /**
+   * Valor da coluna para o banco: texto vazio vira NULL e a
+   * quantidade do "leve X, ganhe Y" só vale para esse tipo
+   */
+  private normalize(dto: PromotionDto, column: keyof PromotionDto): string | number | null {
+    const value = dto[column];
+    if ((column === 'num_buy_qty' || column === 'num_free_qty') && dto.desc_type !== 'buy_x_get_y') {
+      return null;
+    }
+    if (typeof value === 'string') {
+      return value.trim() === '' ? null : value.trim();
+    }
+    return value ?? null;
+  }
+}
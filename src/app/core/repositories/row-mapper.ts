@@ -0,0 +1,86 @@
+// src/app/core/repositories/row-mapper.ts
+
+/**
+ * Linha crua retornada por DatabaseService.executeQuery()
+ */
+export type DbRow = Record<string, any>;
+
+/**
+ * Converte uma linha do banco no formato do model (antes da validação)
+ */
+export type RowMapper = (row: DbRow) => unknown;
+
+/**
+ * Type guard de model (isSale, isValidEvent, isComanda, ...)
+ */
+export type ModelGuard<T> = (obj: any) => obj is T;
+
+/**
+ * Converte valor numérico de agregação (SUM, COUNT...) com valor padrão
+ */
+export function toNumber(value: unknown, fallback: number = 0): number {
+  if (value === null || value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+/**
+ * Converte coluna numérica obrigatória
+ * Valores ausentes ou não numéricos viram undefined, para que o type guard
+ * rejeite a linha em vez de aceitar um 0 inventado.
+ */
+export function toStrictNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Converte valor numérico opcional (null permanece null)
+ */
+export function toNullableNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Converte valor TEXT opcional (null/undefined permanecem null)
+ */
+export function toNullableText(value: unknown): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+/**
+ * Mapeia e valida as linhas de uma query
+ * Linhas que não passam no type guard são descartadas (com aviso no console),
+ * para que um registro corrompido não quebre a tela inteira.
+ *
+ * @param rows Linhas retornadas por executeQuery()
+ * @param mapper Conversão da linha para o formato do model
+ * @param guard Type guard do model
+ * @param entity Nome da entidade (para o log)
+ * @returns Registros válidos já tipados
+ */
+export function mapRows<T>(rows: DbRow[], mapper: RowMapper, guard: ModelGuard<T>, entity: string): T[] {
+  const result: T[] = [];
+
+  for (const row of rows) {
+    const mapped = mapper(row);
+    if (guard(mapped)) {
+      result.push(mapped);
+    } else {
+      console.warn(`⚠️ Registro inválido descartado (${entity}):`, row);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Mapeia e valida a primeira linha de uma query
+ * @returns Registro tipado ou null (sem linhas ou linha inválida)
+ */
+export function mapFirstRow<T>(rows: DbRow[], mapper: RowMapper, guard: ModelGuard<T>, entity: string): T | null {
+  return rows.length > 0 ? mapRows(rows.slice(0, 1), mapper, guard, entity)[0] ?? null : null;
+}
@@ -0,0 +1,84 @@
+// src/app/core/repositories/sale-void.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import { SaleVoid, isSaleVoid } from '../models/sale-void.model';
+import { createSyncId } from '../models/sync.model';
+import { DbRow, mapRows, toNullableNumber, toNumber, toStrictNumber } from './row-mapper';
+import { SyncRepository } from './sync.repository';
+
+const mapSaleVoidRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  num_sale_id: toStrictNumber(row['num_sale_id']),
+  num_beer_id: toStrictNumber(row['num_beer_id']),
+  desc_beer_name: row['desc_beer_name'],
+  num_quantity: toStrictNumber(row['num_quantity']),
+  num_total_volume: toNumber(row['num_total_volume']),
+  num_amount: toNumber(row['num_amount']),
+  desc_reason: row['desc_reason'],
+  num_user_id: toStrictNumber(row['num_user_id']),
+  num_authorized_by: toStrictNumber(row['num_authorized_by']),
+  num_comanda_id: toNullableNumber(row['num_comanda_id']),
+  num_event_id: toNullableNumber(row['num_event_id']),
+  dt_timestamp: row['dt_timestamp']
+});
+
+/**
+ * Repositório de estornos de vendas (prd_sale_voids)
+ * Os estornos sincronizam pela fila (entidade void); a devolução ao
+ * estoque sincroniza à parte, como ajuste de estoque.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SaleVoidRepository {
+  private readonly dbService = inject(DatabaseService);
+  private readonly syncRepository = inject(SyncRepository);
+
+  /**
+   * Estornos de uma venda
+   */
+  public findBySale(saleId: number): SaleVoid[] {
+    const rows = this.dbService.executeQuery(
+      'SELECT * FROM prd_sale_voids WHERE num_sale_id = ? ORDER BY num_id',
+      [saleId]
+    );
+    return mapRows(rows, mapSaleVoidRow, isSaleVoid, 'estorno');
+  }
+
+  /**
+   * Grava o estorno, soma os copos em prd_sales.num_voided_quantity e o
+   * enfileira para sincronização
+   * Deve ser chamado na mesma transação da devolução ao estoque;
+   * a validação (validateSaleVoid) é responsabilidade de quem chama.
+   * @returns ID do estorno
+   */
+  public insert(saleVoid: Omit<SaleVoid, 'num_id'>): number {
+    this.dbService.executeRun(
+      `INSERT INTO prd_sale_voids (num_sale_id, num_beer_id, desc_beer_name, num_quantity, num_total_volume, num_amount, desc_reason, num_user_id, num_authorized_by, num_comanda_id, num_event_id, dt_timestamp, desc_sync_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        saleVoid.num_sale_id,
+        saleVoid.num_beer_id,
+        saleVoid.desc_beer_name,
+        saleVoid.num_quantity,
+        saleVoid.num_total_volume,
+        saleVoid.num_amount,
+        saleVoid.desc_reason.trim(),
+        saleVoid.num_user_id,
+        saleVoid.num_authorized_by,
+        saleVoid.num_comanda_id,
+        saleVoid.num_event_id,
+        saleVoid.dt_timestamp,
+        createSyncId()
+      ]
+    );
+    const voidId = this.dbService.getLastInsertId();
+
+    this.dbService.executeRun(
+      'UPDATE prd_sales SET num_voided_quantity = num_voided_quantity + ? WHERE num_id = ?',
+      [saleVoid.num_quantity, saleVoid.num_sale_id]
+    );
+    this.syncRepository.enqueueVoid(voidId);
+    return voidId;
+  }
+}
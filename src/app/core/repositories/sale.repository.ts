@@ -0,0 +1,584 @@
+// src/app/core/repositories/sale.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import { Sale, SaleWithUser, UNIT_SALE_CUP_SIZE, isSale } from '../models/beer.model';
+import {
+  EventSalesDetail,
+  EventSalesTotals,
+  FullReport,
+  SalesByBeerType,
+  SalesByCupSize,
+  SalesByPaymentMethod,
+  SalesByPromotion,
+  SalesDetail,
+  SalesVoidSummary,
+  ServiceChargeByUser,
+  isEventSalesDetail,
+  isEventSalesTotals,
+  isSalesByBeerType,
+  isSalesDetail
+} from '../models/report.model';
+import { EventBeerStatistics, EventStatistics } from '../models/event.model';
+import { createSyncId } from '../models/sync.model';
+import { formatCupVolume } from '../models/cup-size.model';
+import { DbRow, mapFirstRow, mapRows, toNullableNumber, toNullableText, toNumber, toStrictNumber } from './row-mapper';
+import { SyncRepository } from './sync.repository';
+import { SalesArchiveRepository } from './sales-archive.repository';
+
+const mapSaleRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  num_beer_id: toStrictNumber(row['num_beer_id']),
+  desc_beer_name: row['desc_beer_name'],
+  num_cup_size: toStrictNumber(row['num_cup_size']),
+  num_quantity: toStrictNumber(row['num_quantity']),
+  dt_timestamp: row['dt_timestamp'],
+  num_total_volume: toStrictNumber(row['num_total_volume']),
+  num_unit_price: toNumber(row['num_unit_price']),
+  num_discount: toNumber(row['num_discount']),
+  num_total_price: toNumber(row['num_total_price']),
+  desc_promotions: toNullableText(row['desc_promotions']),
+  num_comanda_id: toNullableNumber(row['num_comanda_id']),
+  num_user_id: toStrictNumber(row['num_user_id']),
+  num_event_id: toNullableNumber(row['num_event_id']),
+  desc_sync_id: toNullableText(row['desc_sync_id']),
+  desc_bill_id: toNullableText(row['desc_bill_id']),
+  num_voided_quantity: toNumber(row['num_voided_quantity'])
+});
+
+const mapSaleWithUserRow = (row: DbRow) => ({
+  ...mapSaleRow(row),
+  username: toNullableText(row['username'])
+});
+
+const isSaleWithUser = (obj: any): obj is SaleWithUser => isSale(obj);
+
+const mapSalesDetailRow = (row: DbRow) => ({
+  saleDate: row['saleDate'],
+  username: row['username'],
+  salesCount: toNumber(row['salesCount']),
+  totalQuantity: toNumber(row['totalQuantity']),
+  totalLiters: toNumber(row['totalLiters']),
+  totalRevenue: toNumber(row['totalRevenue'])
+});
+
+/**
+ * Repositório de vendas (prd_sales) e relatórios de vendas
+ *
+ * Todas as consultas retornam os tipos dos models, já validados pelos
+ * type guards: linhas inválidas são descartadas com aviso no console.
+ * Os relatórios são assíncronos e executam na réplica somente leitura do
+ * Web Worker (DatabaseService.queryAsync), sem travar a tela de vendas.
+ * Relatórios leem a view TEMP report_sales: prd_sales + vendas dos
+ * arquivos carregados sob demanda (db-archive.ts).
+ * A receita vem do preço gravado na venda (num_total_price): alterar a
+ * tabela de preços não muda o valor de vendas já registradas.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SaleRepository {
+  private readonly dbService = inject(DatabaseService);
+  private readonly syncRepository = inject(SyncRepository);
+  private readonly archiveRepository = inject(SalesArchiveRepository);
+
+  // ==================== ESCRITA ====================
+
+  /**
+   * Insere uma venda e a coloca na fila de sincronização
+   * O ID é gerado pelo AUTOINCREMENT
+   * @returns ID da venda criada
+   */
+  public insert(sale: Omit<Sale, 'num_id'>): number {
+    return this.dbService.transaction(() => {
+      this.dbService.executeRun(
+        `INSERT INTO prd_sales (num_beer_id, desc_beer_name, num_cup_size, num_quantity, dt_timestamp, num_total_volume, num_unit_price, num_discount, num_total_price, desc_promotions, num_comanda_id, num_user_id, num_event_id, desc_sync_id, desc_bill_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          sale.num_beer_id,
+          sale.desc_beer_name,
+          sale.num_cup_size,
+          sale.num_quantity,
+          sale.dt_timestamp,
+          sale.num_total_volume,
+          sale.num_unit_price,
+          sale.num_discount,
+          sale.num_total_price,
+          sale.desc_promotions ?? null,
+          sale.num_comanda_id ?? null,
+          sale.num_user_id,
+          sale.num_event_id ?? null,
+          sale.desc_sync_id ?? createSyncId(),
+          sale.desc_bill_id ?? null
+        ]
+      );
+
+      const saleId = this.dbService.getLastInsertId();
+      this.syncRepository.enqueueSale(saleId);
+      return saleId;
+    });
+  }
+
+  // ==================== CONSULTAS ====================
+
+  /**
+   * Busca uma venda por ID
+   */
+  public findById(id: number): Sale | null {
+    const rows = this.dbService.executeQuery('SELECT * FROM prd_sales WHERE num_id = ? LIMIT 1', [id]);
+    return mapFirstRow(rows, mapSaleRow, isSale, 'venda');
+  }
+
+  /**
+   * Últimas vendas que ainda podem ser estornadas (com o nome do usuário)
+   * @param eventId Evento das vendas (null = vendas sem evento)
+   */
+  public findRecentVoidable(eventId: number | null, limit: number): SaleWithUser[] {
+    const rows = this.dbService.executeQuery(
+      `SELECT s.*, u.desc_username as username
+       FROM prd_sales s
+       LEFT JOIN prd_users u ON s.num_user_id = u.num_id
+       WHERE ${eventId !== null ? 's.num_event_id = ?' : 's.num_event_id IS NULL'}
+         AND s.num_voided_quantity < s.num_quantity
+       ORDER BY s.dt_timestamp DESC, s.num_id DESC
+       LIMIT ?`,
+      eventId !== null ? [eventId, limit] : [limit]
+    );
+
+    return mapRows(rows, mapSaleWithUserRow, isSaleWithUser, 'venda');
+  }
+
+  /**
+   * Busca todas as vendas de um evento (com o nome do usuário)
+   */
+  public findByEvent(eventId: number): SaleWithUser[] {
+    const rows = this.dbService.executeQuery(
+      `SELECT s.*, u.desc_username as username
+       FROM prd_sales s
+       LEFT JOIN prd_users u ON s.num_user_id = u.num_id
+       WHERE s.num_event_id = ?
+       ORDER BY s.dt_timestamp DESC`,
+      [eventId]
+    );
+
+    return mapRows(rows, mapSaleWithUserRow, isSaleWithUser, 'venda');
+  }
+
+  /**
+   * Percorre as vendas individuais (com o nome do usuário) em lotes
+   * Para listas grandes: as linhas chegam do worker aos poucos, em ordem
+   * cronológica, sem montar o resultado inteiro de uma vez.
+   *
+   * @param onChunk Chamado a cada lote de vendas validadas
+   * @returns Total de linhas lidas
+   */
+  public streamSales(
+    onChunk: (sales: SaleWithUser[]) => void,
+    startDate?: Date,
+    endDate?: Date,
+    eventId?: number
+  ): Promise<number> {
+    const { where, params } = this.buildFilter('s', startDate, endDate, eventId);
+
+    return this.dbService.streamQuery(
+      `SELECT s.*, u.desc_username as username
+       FROM report_sales s
+       LEFT JOIN prd_users u ON s.num_user_id = u.num_id
+       ${where}
+       ORDER BY s.dt_timestamp ASC, s.num_id ASC`,
+      params,
+      rows => onChunk(mapRows(rows, mapSaleWithUserRow, isSaleWithUser, 'venda'))
+    );
+  }
+
+  /**
+   * Verifica se um evento tem vendas associadas (inclusive arquivadas)
+   */
+  public existsForEvent(eventId: number): boolean {
+    const result = this.dbService.executeQuery(
+      'SELECT COUNT(*) as count FROM prd_sales WHERE num_event_id = ?',
+      [eventId]
+    );
+    return toNumber(result[0]?.['count']) > 0 || this.archiveRepository.findReferencedEventIds().has(eventId);
+  }
+
+  // ==================== RELATÓRIOS ====================
+
+  /**
+   * Gera relatório completo com filtros opcionais de data e evento
+   */
+  public async getFullReport(startDate?: Date, endDate?: Date, eventId?: number): Promise<FullReport> {
+    const { where, params } = this.buildFilter('s', startDate, endDate, eventId);
+
+    const [summary] = await this.dbService.queryAsync(
+      `SELECT
+         COUNT(s.num_id) as num_total_sales,
+         COALESCE(SUM(s.num_total_volume) / 1000.0, 0) as num_total_volume_liters,
+         COALESCE(SUM(CASE WHEN s.num_cup_size = ${UNIT_SALE_CUP_SIZE} THEN s.num_quantity END), 0) as num_total_units
+       FROM report_sales s
+       ${where}`,
+      params
+    );
+
+    // Produtos unitários não têm copo
+    const cupFilter = this.buildFilter('s', startDate, endDate, eventId, `s.num_cup_size <> ${UNIT_SALE_CUP_SIZE}`);
+    const salesByCupSize: SalesByCupSize[] = (await this.dbService.queryAsync(
+      `SELECT s.num_cup_size, cs.desc_label, SUM(s.num_quantity) as num_count
+       FROM report_sales s
+       LEFT JOIN config_cup_sizes cs ON cs.num_volume_ml = s.num_cup_size
+       ${cupFilter.where}
+       GROUP BY s.num_cup_size
+       ORDER BY s.num_cup_size`,
+      cupFilter.params
+    )).map(row => ({
+      num_cup_size: toNumber(row['num_cup_size']),
+      desc_label: toNullableText(row['desc_label']) ?? formatCupVolume(toNumber(row['num_cup_size'])),
+      num_count: toNumber(row['num_count'])
+    }));
+
+    const byBeerTypeRows = await this.dbService.queryAsync(
+      `SELECT
+         bt.num_id as num_beer_id,
+         bt.desc_name,
+         bt.desc_color,
+         bt.desc_description,
+         bt.desc_kind,
+         SUM(s.num_quantity) as num_total_cups,
+         COALESCE(SUM(s.num_total_volume) / 1000.0, 0) as num_total_liters,
+         COALESCE(SUM(s.num_total_price), 0) as num_total_revenue
+       FROM report_sales s
+       INNER JOIN prd_beer_types bt ON s.num_beer_id = bt.num_id
+       ${where}
+       GROUP BY bt.num_id, bt.desc_name, bt.desc_color, bt.desc_description, bt.desc_kind
+       ORDER BY num_total_liters DESC, num_total_revenue DESC`,
+      params
+    );
+
+    const salesByBeerType = mapRows<SalesByBeerType>(
+      byBeerTypeRows,
+      row => ({
+        num_beer_id: toStrictNumber(row['num_beer_id']),
+        desc_name: row['desc_name'],
+        desc_color: row['desc_color'],
+        desc_description: row['desc_description'],
+        desc_kind: row['desc_kind'] ?? 'draft',
+        num_total_cups: toNumber(row['num_total_cups']),
+        num_total_liters: toNumber(row['num_total_liters']),
+        num_total_revenue: toNumber(row['num_total_revenue'])
+      }),
+      isSalesByBeerType,
+      'vendas por cerveja'
+    );
+
+    // Vendas arquivadas antes das promoções não têm num_discount (NULL)
+    const promotionFilter = this.buildFilter('s', startDate, endDate, eventId, 'COALESCE(s.num_discount, 0) > 0');
+    const salesByPromotion: SalesByPromotion[] = (await this.dbService.queryAsync(
+      `SELECT
+         COALESCE(s.desc_promotions, 'Sem nome') as desc_promotions,
+         COUNT(s.num_id) as num_sales,
+         SUM(s.num_discount) as num_discount
+       FROM report_sales s
+       ${promotionFilter.where}
+       GROUP BY COALESCE(s.desc_promotions, 'Sem nome')
+       ORDER BY num_discount DESC`,
+      promotionFilter.params
+    )).map(row => ({
+      desc_promotions: String(row['desc_promotions']),
+      num_sales: toNumber(row['num_sales']),
+      num_discount: toNumber(row['num_discount'])
+    }));
+
+    // Pagamentos têm data e evento próprios (não passam pelos arquivos de vendas)
+    const paymentFilter = this.buildFilter('p', startDate, endDate, eventId);
+    const salesByPaymentMethod: SalesByPaymentMethod[] = (await this.dbService.queryAsync(
+      `SELECT
+         p.desc_method,
+         COUNT(p.num_id) as num_payments,
+         SUM(p.num_amount) as num_amount,
+         SUM(p.num_change) as num_change
+       FROM prd_payments p
+       ${paymentFilter.where}
+       GROUP BY p.desc_method
+       ORDER BY num_amount DESC`,
+      paymentFilter.params
+    )).map(row => ({
+      desc_method: String(row['desc_method']),
+      num_payments: toNumber(row['num_payments']),
+      num_amount: toNumber(row['num_amount']),
+      num_change: toNumber(row['num_change'])
+    }));
+
+    // Taxa de serviço e gorjetas entram pela data do pagamento da conta
+    const chargeFilter = this.buildFilter('c', startDate, endDate, eventId);
+    const serviceChargesByUser: ServiceChargeByUser[] = (await this.dbService.queryAsync(
+      `SELECT
+         c.num_user_id,
+         COALESCE(u.desc_username, 'Usuário #' || c.num_user_id) as desc_username,
+         COUNT(c.num_id) as num_bills,
+         COALESCE(SUM(c.num_service_charge), 0) as num_service_charge,
+         COALESCE(SUM(c.num_tip), 0) as num_tip
+       FROM prd_bill_charges c
+       LEFT JOIN prd_users u ON u.num_id = c.num_user_id
+       ${chargeFilter.where}
+       GROUP BY c.num_user_id
+       ORDER BY num_service_charge + num_tip DESC`,
+      chargeFilter.params
+    )).map(row => ({
+      num_user_id: toNumber(row['num_user_id']),
+      desc_username: String(row['desc_username']),
+      num_bills: toNumber(row['num_bills']),
+      num_service_charge: toNumber(row['num_service_charge']),
+      num_tip: toNumber(row['num_tip'])
+    }));
+
+    // Estornos entram pela data do estorno, como os pagamentos
+    const voidFilter = this.buildFilter('v', startDate, endDate, eventId);
+    const [voidRow] = await this.dbService.queryAsync(
+      `SELECT
+         COUNT(v.num_id) as num_voids,
+         COALESCE(SUM(v.num_quantity), 0) as num_quantity,
+         COALESCE(SUM(v.num_total_volume) / 1000.0, 0) as num_liters,
+         COALESCE(SUM(v.num_amount), 0) as num_amount
+       FROM prd_sale_voids v
+       ${voidFilter.where}`,
+      voidFilter.params
+    );
+    const voids: SalesVoidSummary = {
+      num_voids: toNumber(voidRow?.['num_voids']),
+      num_quantity: toNumber(voidRow?.['num_quantity']),
+      num_liters: toNumber(voidRow?.['num_liters']),
+      num_amount: toNumber(voidRow?.['num_amount'])
+    };
+
+    return {
+      summary: {
+        num_total_sales: toNumber(summary?.['num_total_sales']),
+        num_total_volume_liters: toNumber(summary?.['num_total_volume_liters']),
+        num_total_units: toNumber(summary?.['num_total_units'])
+      },
+      salesByCupSize,
+      salesByBeerType,
+      salesByPromotion,
+      salesByPaymentMethod,
+      serviceChargesByUser,
+      voids
+    };
+  }
+
+  /**
+   * Vendas diárias vinculadas a eventos, agrupadas por evento, data e usuário
+   * Usado no relatório CSV detalhado
+   */
+  public async getDetailedByEvent(startDate?: Date, endDate?: Date): Promise<EventSalesDetail[]> {
+    const { where, params } = this.buildFilter('s', startDate, endDate, undefined, 's.num_event_id IS NOT NULL');
+
+    const rows = await this.dbService.queryAsync(
+      `SELECT
+         e.num_id as eventId,
+         e.desc_name_event as nameEvent,
+         e.desc_local_event as localEvent,
+         e.dt_data_event as dataEvent,
+         DATE(s.dt_timestamp) as saleDate,
+         COALESCE(u.desc_username, 'Usuário Desconhecido') as username,
+         COUNT(s.num_id) as salesCount,
+         SUM(s.num_quantity) as totalQuantity,
+         COALESCE(SUM(s.num_total_volume) / 1000.0, 0) as totalLiters,
+         COALESCE(SUM(s.num_total_price), 0) as totalRevenue
+       FROM report_sales s
+       INNER JOIN prd_events e ON s.num_event_id = e.num_id
+       LEFT JOIN prd_users u ON s.num_user_id = u.num_id
+       ${where}
+       GROUP BY e.num_id, e.desc_name_event, e.desc_local_event, e.dt_data_event, DATE(s.dt_timestamp), username
+       ORDER BY e.dt_data_event DESC, saleDate DESC, username`,
+      params
+    );
+
+    return mapRows(
+      rows,
+      row => ({
+        ...mapSalesDetailRow(row),
+        eventId: toStrictNumber(row['eventId']),
+        nameEvent: row['nameEvent'],
+        localEvent: row['localEvent'],
+        dataEvent: row['dataEvent']
+      }),
+      isEventSalesDetail,
+      'vendas detalhadas por evento'
+    );
+  }
+
+  /**
+   * Vendas diárias SEM evento vinculado, agrupadas por data e usuário
+   * Usado no relatório CSV detalhado
+   */
+  public async getDetailedWithoutEvent(startDate?: Date, endDate?: Date): Promise<SalesDetail[]> {
+    const { where, params } = this.buildFilter('s', startDate, endDate, undefined, 's.num_event_id IS NULL');
+
+    const rows = await this.dbService.queryAsync(
+      `SELECT
+         DATE(s.dt_timestamp) as saleDate,
+         COALESCE(u.desc_username, 'Usuário Desconhecido') as username,
+         COUNT(s.num_id) as salesCount,
+         SUM(s.num_quantity) as totalQuantity,
+         COALESCE(SUM(s.num_total_volume) / 1000.0, 0) as totalLiters,
+         COALESCE(SUM(s.num_total_price), 0) as totalRevenue
+       FROM report_sales s
+       LEFT JOIN prd_users u ON s.num_user_id = u.num_id
+       ${where}
+       GROUP BY DATE(s.dt_timestamp), username
+       ORDER BY saleDate DESC, username`,
+      params
+    );
+
+    return mapRows(rows, mapSalesDetailRow, isSalesDetail, 'vendas detalhadas sem evento');
+  }
+
+  /**
+   * Totais de vendas por evento
+   * Usado nos totalizadores do relatório CSV
+   */
+  public async getEventTotals(startDate?: Date, endDate?: Date): Promise<EventSalesTotals[]> {
+    const { where, params } = this.buildFilter('s', startDate, endDate, undefined, 's.num_event_id IS NOT NULL');
+
+    const rows = await this.dbService.queryAsync(
+      `SELECT
+         e.num_id as eventId,
+         e.desc_name_event as nameEvent,
+         COUNT(s.num_id) as salesCount,
+         SUM(s.num_quantity) as totalQuantity,
+         COALESCE(SUM(s.num_total_volume) / 1000.0, 0) as totalLiters,
+         COALESCE(SUM(s.num_total_price), 0) as totalRevenue
+       FROM report_sales s
+       INNER JOIN prd_events e ON s.num_event_id = e.num_id
+       ${where}
+       GROUP BY e.num_id, e.desc_name_event
+       ORDER BY e.dt_data_event DESC`,
+      params
+    );
+
+    return mapRows(
+      rows,
+      row => ({
+        eventId: toStrictNumber(row['eventId']),
+        nameEvent: row['nameEvent'],
+        salesCount: toNumber(row['salesCount']),
+        totalQuantity: toNumber(row['totalQuantity']),
+        totalLiters: toNumber(row['totalLiters']),
+        totalRevenue: toNumber(row['totalRevenue'])
+      }),
+      isEventSalesTotals,
+      'totais por evento'
+    );
+  }
+
+  /**
+   * Calcula o valor total de vendas (receita) em R$
+   * Filtro de data aplicado somente quando as duas datas são informadas
+   */
+  public getTotalRevenue(startDate?: Date, endDate?: Date, eventId?: number): number {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (startDate && endDate) {
+      conditions.push('s.dt_timestamp BETWEEN ? AND ?');
+      params.push(startDate.toISOString(), endDate.toISOString());
+    }
+    if (eventId !== undefined) {
+      conditions.push('s.num_event_id = ?');
+      params.push(eventId);
+    }
+
+    const result = this.dbService.executeQuery(
+      `SELECT SUM(s.num_total_price) as totalRevenue
+       FROM report_sales s
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}`,
+      params
+    );
+
+    return toNumber(result[0]?.['totalRevenue']);
+  }
+
+  /**
+   * Estatísticas de um evento (total de vendas, volume, receita e vendas por cerveja)
+   */
+  public getEventStatistics(eventId: number): EventStatistics {
+    const summary = this.dbService.executeQuery(
+      `SELECT
+         COUNT(*) as totalSales,
+         COALESCE(SUM(num_total_volume), 0) as totalVolume,
+         COALESCE(SUM(num_total_price), 0) as totalRevenue
+       FROM prd_sales
+       WHERE num_event_id = ?`,
+      [eventId]
+    )[0];
+
+    const salesByBeer: EventBeerStatistics[] = this.dbService.executeQuery(
+      `SELECT
+         s.desc_beer_name as beerName,
+         COUNT(*) as salesCount,
+         COALESCE(SUM(s.num_quantity), 0) as totalQuantity,
+         COALESCE(SUM(s.num_total_volume), 0) as totalVolume,
+         COALESCE(SUM(s.num_total_price), 0) as revenue
+       FROM prd_sales s
+       WHERE s.num_event_id = ?
+       GROUP BY s.num_beer_id, s.desc_beer_name
+       ORDER BY revenue DESC`,
+      [eventId]
+    ).map(row => ({
+      beerName: String(row['beerName'] ?? ''),
+      salesCount: toNumber(row['salesCount']),
+      totalQuantity: toNumber(row['totalQuantity']),
+      totalVolume: toNumber(row['totalVolume']),
+      revenue: toNumber(row['revenue'])
+    }));
+
+    return {
+      totalSales: toNumber(summary?.['totalSales']),
+      totalVolume: toNumber(summary?.['totalVolume']),
+      totalRevenue: toNumber(summary?.['totalRevenue']),
+      salesByBeer
+    };
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  /**
+   * Monta o WHERE dos relatórios
+   * A data final é inclusiva (até 23:59:59 do dia informado)
+   *
+   * @param alias Alias da tabela prd_sales na query
+   * @param baseCondition Condição fixa adicional (ex: "s.num_event_id IS NULL")
+   */
+  private buildFilter(
+    alias: string,
+    startDate?: Date,
+    endDate?: Date,
+    eventId?: number,
+    baseCondition?: string
+  ): { where: string; params: (string | number)[] } {
+    const conditions: string[] = baseCondition ? [baseCondition] : [];
+    const params: (string | number)[] = [];
+
+    if (startDate) {
+      conditions.push(`${alias}.dt_timestamp >= ?`);
+      params.push(startDate.toISOString());
+    }
+
+    if (endDate) {
+      const endOfDay = new Date(endDate);
+      endOfDay.setDate(endOfDay.getDate() + 1);
+      endOfDay.setSeconds(endOfDay.getSeconds() - 1);
+      conditions.push(`${alias}.dt_timestamp <= ?`);
+      params.push(endOfDay.toISOString());
+    }
+
+    if (eventId !== undefined) {
+      conditions.push(`${alias}.num_event_id = ?`);
+      params.push(eventId);
+    }
+
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params
+    };
+  }
+}
@@ -0,0 +1,238 @@
+// src/app/core/repositories/sales-archive.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import {
+  SalesArchive,
+  SalesArchiveCriteria,
+  SalesArchivePreview,
+  isSalesArchive
+} from '../models/archive.model';
+import { DbRow, mapFirstRow, mapRows, toNullableText, toNumber, toStrictNumber } from './row-mapper';
+
+/**
+ * Vendas removidas por DELETE (limite de parâmetros do SQLite)
+ */
+const DELETE_BATCH_SIZE = 500;
+
+const mapArchiveRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  desc_key: row['desc_key'],
+  dt_created_at: row['dt_created_at'],
+  desc_criteria: row['desc_criteria'],
+  num_sales_count: toStrictNumber(row['num_sales_count']),
+  dt_first_sale: toNullableText(row['dt_first_sale']),
+  dt_last_sale: toNullableText(row['dt_last_sale']),
+  num_size_bytes: toStrictNumber(row['num_size_bytes']),
+  desc_beer_ids: row['desc_beer_ids'],
+  desc_event_ids: row['desc_event_ids']
+});
+
+/**
+ * Vendas selecionadas para um arquivo (formato colunar)
+ */
+export interface ArchivableSales {
+  columns: string[];
+  rows: unknown[][];
+  saleIds: number[];
+  beerIds: number[];
+  eventIds: number[];
+}
+
+/**
+ * Repositório dos arquivos de vendas (índice prd_sales_archives)
+ *
+ * Seleciona as vendas que podem ser arquivadas e, depois que o arquivo
+ * compactado foi gravado (SalesArchiveService), registra o índice e remove
+ * as vendas de prd_sales na mesma transação.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SalesArchiveRepository {
+  private readonly dbService = inject(DatabaseService);
+
+  // ==================== CONSULTAS ====================
+
+  /**
+   * Arquivos registrados (mais recente primeiro)
+   */
+  public findAll(): SalesArchive[] {
+    const rows = this.dbService.executeQuery(
+      'SELECT * FROM prd_sales_archives ORDER BY dt_created_at DESC'
+    );
+    return mapRows(rows, mapArchiveRow, isSalesArchive, 'arquivo de vendas');
+  }
+
+  public findByKey(key: string): SalesArchive | null {
+    const rows = this.dbService.executeQuery(
+      'SELECT * FROM prd_sales_archives WHERE desc_key = ? LIMIT 1',
+      [key]
+    );
+    return mapFirstRow(rows, mapArchiveRow, isSalesArchive, 'arquivo de vendas');
+  }
+
+  /**
+   * Quantidade e período das vendas que seriam arquivadas
+   */
+  public preview(criteria: SalesArchiveCriteria, now: Date = new Date()): SalesArchivePreview {
+    const { where, params } = this.buildCriteria(criteria, now);
+    const row = this.dbService.executeQuery(
+      `SELECT COUNT(*) as salesCount, MIN(s.dt_timestamp) as firstSale, MAX(s.dt_timestamp) as lastSale
+       FROM prd_sales s
+       ${where}`,
+      params
+    )[0];
+
+    return {
+      salesCount: toNumber(row?.['salesCount']),
+      firstSale: toNullableText(row?.['firstSale']),
+      lastSale: toNullableText(row?.['lastSale'])
+    };
+  }
+
+  /**
+   * Vendas que atendem aos critérios, com todas as colunas de prd_sales
+   */
+  public selectSales(criteria: SalesArchiveCriteria, now: Date = new Date()): ArchivableSales {
+    const { where, params } = this.buildCriteria(criteria, now);
+    const columns = this.dbService.executeQuery('PRAGMA table_info(prd_sales)')
+      .map(row => String(row['name']));
+    const rows = this.dbService.executeQuery(
+      `SELECT s.* FROM prd_sales s ${where} ORDER BY s.dt_timestamp ASC, s.num_id ASC`,
+      params
+    );
+
+    const distinct = (column: string) => [...new Set(
+      rows.map(row => row[column]).filter(value => value !== null && value !== undefined).map(Number)
+    )];
+
+    return {
+      columns,
+      rows: rows.map(row => columns.map(column => row[column] ?? null)),
+      saleIds: rows.map(row => toNumber(row['num_id'])),
+      beerIds: distinct('num_beer_id'),
+      eventIds: distinct('num_event_id')
+    };
+  }
+
+  /**
+   * Cervejas referenciadas por arquivos (não podem ser excluídas)
+   */
+  public findReferencedBeerIds(): Set<number> {
+    return this.findReferencedIds('desc_beer_ids');
+  }
+
+  /**
+   * Eventos referenciados por arquivos (não podem ser excluídos)
+   */
+  public findReferencedEventIds(): Set<number> {
+    return this.findReferencedIds('desc_event_ids');
+  }
+
+  // ==================== ESCRITA ====================
+
+  /**
+   * Registra o arquivo e remove suas vendas de prd_sales (uma transação)
+   * A remoção não gera uma linha de auditoria por venda: o INSERT no índice
+   * já registra o arquivamento.
+   *
+   * @throws Error se alguma venda mudou desde a seleção (nada é removido)
+   * @returns ID do arquivo registrado
+   */
+  public register(archive: Omit<SalesArchive, 'num_id'>, saleIds: number[]): number {
+    return this.dbService.transaction(() => {
+      this.dbService.executeRun(
+        `INSERT INTO prd_sales_archives (
+           desc_key, dt_created_at, desc_criteria, num_sales_count, dt_first_sale,
+           dt_last_sale, num_size_bytes, desc_beer_ids, desc_event_ids
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          archive.desc_key,
+          archive.dt_created_at,
+          archive.desc_criteria,
+          archive.num_sales_count,
+          archive.dt_first_sale,
+          archive.dt_last_sale,
+          archive.num_size_bytes,
+          archive.desc_beer_ids,
+          archive.desc_event_ids
+        ]
+      );
+      const archiveId = this.dbService.getLastInsertId();
+
+      const removed = this.dbService.withoutAudit(() => {
+        let count = 0;
+        for (let i = 0; i < saleIds.length; i += DELETE_BATCH_SIZE) {
+          const batch = saleIds.slice(i, i + DELETE_BATCH_SIZE);
+          this.dbService.executeRun(
+            `DELETE FROM prd_sales WHERE num_id IN (${batch.map(() => '?').join(', ')}) AND num_comanda_id IS NULL`,
+            batch
+          );
+          count += toNumber(this.dbService.executeQuery('SELECT changes() as count')[0]?.['count']);
+        }
+        return count;
+      });
+
+      // Venda removida ou ligada a uma comanda depois da seleção: o arquivo não confere
+      if (removed !== saleIds.length) {
+        throw new Error('As vendas foram alteradas durante o arquivamento. Tente novamente.');
+      }
+
+      return archiveId;
+    });
+  }
+
+  /**
+   * Remove o registro de um arquivo (as vendas dele deixam de existir)
+   */
+  public delete(id: number): void {
+    this.dbService.executeRun('DELETE FROM prd_sales_archives WHERE num_id = ?', [id]);
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  /**
+   * Monta o WHERE dos critérios
+   * Nunca arquiva vendas de comandas abertas nem de eventos ativos.
+   *
+   * @throws Error se nenhum critério foi informado
+   */
+  private buildCriteria(
+    criteria: SalesArchiveCriteria,
+    now: Date
+  ): { where: string; params: string[] } {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (criteria.finalizedEvents) {
+      conditions.push("s.num_event_id IN (SELECT num_id FROM prd_events WHERE desc_status = 'finalizado')");
+    }
+
+    if (criteria.olderThanMonths !== null && criteria.olderThanMonths > 0) {
+      const cutoff = new Date(now);
+      cutoff.setMonth(cutoff.getMonth() - criteria.olderThanMonths);
+      conditions.push('s.dt_timestamp < ?');
+      params.push(cutoff.toISOString());
+    }
+
+    if (conditions.length === 0) {
+      throw new Error('Informe ao menos um critério de arquivamento');
+    }
+
+    return {
+      where: `WHERE s.num_comanda_id IS NULL
+        AND (s.num_event_id IS NULL OR s.num_event_id NOT IN (SELECT num_id FROM prd_events WHERE desc_status = 'ativo'))
+        AND (${conditions.join(' OR ')})`,
+      params
+    };
+  }
+
+  private findReferencedIds(column: 'desc_beer_ids' | 'desc_event_ids'): Set<number> {
+    if (!this.dbService.tableExists('prd_sales_archives')) return new Set();
+
+    const rows = this.dbService.executeQuery(
+      `SELECT DISTINCT j.value as id FROM prd_sales_archives a, json_each(a.${column}) j`
+    );
+    return new Set(rows.map(row => toNumber(row['id'])));
+  }
+}
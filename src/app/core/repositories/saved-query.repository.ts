@@ -0,0 +1,54 @@
+// src/app/core/repositories/saved-query.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import { SavedQuery, isSavedQuery } from '../models/query-console.model';
+import { DbRow, mapRows, toStrictNumber } from './row-mapper';
+
+const mapSavedQueryRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  desc_name: row['desc_name'],
+  desc_sql: row['desc_sql'],
+  dt_created_at: row['dt_created_at'],
+  dt_updated_at: row['dt_updated_at']
+});
+
+/**
+ * Repositório das consultas salvas do console SQL (prd_saved_queries)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SavedQueryRepository {
+  private readonly dbService = inject(DatabaseService);
+
+  /**
+   * Consultas salvas em ordem alfabética
+   */
+  public findAll(): SavedQuery[] {
+    if (!this.dbService.tableExists('prd_saved_queries')) return [];
+
+    const rows = this.dbService.executeQuery(
+      'SELECT * FROM prd_saved_queries ORDER BY desc_name COLLATE NOCASE'
+    );
+    return mapRows(rows, mapSavedQueryRow, isSavedQuery, 'consulta salva');
+  }
+
+  /**
+   * Salva a consulta com o nome informado (substitui a de mesmo nome)
+   */
+  public save(name: string, sql: string): void {
+    const now = new Date().toISOString();
+    this.dbService.executeRun(
+      `INSERT INTO prd_saved_queries (desc_name, desc_sql, dt_created_at, dt_updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(desc_name) DO UPDATE SET
+         desc_sql = excluded.desc_sql,
+         dt_updated_at = excluded.dt_updated_at`,
+      [name, sql, now, now]
+    );
+  }
+
+  public delete(id: number): void {
+    this.dbService.executeRun('DELETE FROM prd_saved_queries WHERE num_id = ?', [id]);
+  }
+}
@@ -0,0 +1,125 @@
+// src/app/core/repositories/service-charge.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import {
+  BillCharge,
+  ServiceChargeConfig,
+  isBillCharge,
+  isServiceChargeConfig
+} from '../models/service-charge.model';
+import { DbRow, mapFirstRow, toNullableNumber, toNumber, toStrictNumber } from './row-mapper';
+
+const mapConfigRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  num_event_id: toNullableNumber(row['num_event_id']),
+  num_rate: toNumber(row['num_rate']),
+  dt_updated_at: row['dt_updated_at']
+});
+
+const mapBillChargeRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  desc_bill_id: row['desc_bill_id'],
+  num_comanda_id: toNullableNumber(row['num_comanda_id']),
+  num_items_total: toNumber(row['num_items_total']),
+  num_service_rate: toNumber(row['num_service_rate']),
+  num_service_charge: toNumber(row['num_service_charge']),
+  num_tip: toNumber(row['num_tip']),
+  num_user_id: toStrictNumber(row['num_user_id']),
+  num_event_id: toNullableNumber(row['num_event_id']),
+  dt_timestamp: row['dt_timestamp']
+});
+
+/**
+ * Repositório da taxa de serviço por evento (config_service_charge)
+ * e da taxa/gorjeta das contas pagas (prd_bill_charges)
+ *
+ * Taxa e gorjeta sincronizam com os pagamentos, na conta paga (entidade
+ * bill enfileirada por PaymentRepository.insertForBill).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ServiceChargeRepository {
+  private readonly dbService = inject(DatabaseService);
+
+  // ==================== CONFIGURAÇÃO ====================
+
+  /**
+   * Taxa configurada para o evento (sem fallback para a geral)
+   * @param eventId ID do evento (null = taxa geral)
+   */
+  public findConfig(eventId: number | null = null): ServiceChargeConfig | null {
+    const rows = this.dbService.executeQuery(
+      'SELECT * FROM config_service_charge WHERE IFNULL(num_event_id, 0) = ?',
+      [eventId ?? 0]
+    );
+    return mapFirstRow(rows, mapConfigRow, isServiceChargeConfig, 'taxa de serviço');
+  }
+
+  /**
+   * Percentual vigente: o do evento, se houver, senão a taxa geral
+   * @returns Percentual (0 quando nada foi configurado)
+   */
+  public findEffectiveRate(eventId: number | null = null): number {
+    const rows = this.dbService.executeQuery(
+      `SELECT num_rate
+       FROM config_service_charge
+       WHERE num_event_id IS NULL OR num_event_id = ?
+       ORDER BY num_event_id IS NULL
+       LIMIT 1`,
+      [eventId]
+    );
+    return rows.length > 0 ? toNumber(rows[0]['num_rate']) : 0;
+  }
+
+  /**
+   * Define ou atualiza o percentual da taxa de serviço
+   * @param eventId ID do evento (null = taxa geral)
+   */
+  public saveRate(rate: number, eventId: number | null = null): void {
+    this.dbService.executeRun(
+      `INSERT INTO config_service_charge (num_event_id, num_rate, dt_updated_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT(IFNULL(num_event_id, 0)) DO UPDATE SET
+         num_rate = excluded.num_rate,
+         dt_updated_at = excluded.dt_updated_at`,
+      [eventId, rate, new Date().toISOString()]
+    );
+    console.log(`✅ Taxa de serviço salva: ${rate}% [eventId: ${eventId || 'geral'}]`);
+  }
+
+  // ==================== CONTAS PAGAS ====================
+
+  /**
+   * Taxa e gorjeta de uma conta (null se a conta não teve nenhuma)
+   */
+  public findByBill(billId: string): BillCharge | null {
+    const rows = this.dbService.executeQuery(
+      'SELECT * FROM prd_bill_charges WHERE desc_bill_id = ? LIMIT 1',
+      [billId]
+    );
+    return mapFirstRow(rows, mapBillChargeRow, isBillCharge, 'taxa da conta');
+  }
+
+  /**
+   * Grava a taxa e a gorjeta de uma conta paga
+   * Deve ser chamado na mesma transação, antes de gravar os pagamentos.
+   */
+  public insert(charge: Omit<BillCharge, 'num_id'>): void {
+    this.dbService.executeRun(
+      `INSERT INTO prd_bill_charges (desc_bill_id, num_comanda_id, num_items_total, num_service_rate, num_service_charge, num_tip, num_user_id, num_event_id, dt_timestamp)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        charge.desc_bill_id,
+        charge.num_comanda_id,
+        charge.num_items_total,
+        charge.num_service_rate,
+        charge.num_service_charge,
+        charge.num_tip,
+        charge.num_user_id,
+        charge.num_event_id,
+        charge.dt_timestamp
+      ]
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { TestBed } from '@angular/core/testing';
+import { DatabaseService } from '../services/database';
+import { SyncStockPayload } from '../models/sync.model';
+import { InMemoryDatabaseService, createInMemoryDatabase } from '../testing/in-memory-database';
+import { StockRepository } from './stock.repository';
+
+describe('StockRepository', () => {
+  let database: InMemoryDatabaseService;
+  let repository: StockRepository;
+
+  const stockChanges = (): SyncStockPayload[] =>
+    database
+      .executeQuery("SELECT desc_payload FROM prd_sync_outbox WHERE desc_entity = 'stock' ORDER BY num_id")
+      .map(row => JSON.parse(String(row['desc_payload'])));
+
+  beforeEach(async () => {
+    database = await createInMemoryDatabase();
+    database.executeRun('UPDATE config_sync SET int_enabled = 1');
+    database.executeRun(
+      "INSERT INTO prd_beer_types (desc_name, desc_kind, desc_sync_id) VALUES ('Long Neck', 'unit', 'beer-ln'), ('IPA', 'draft', 'beer-ipa')"
+    );
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: DatabaseService, useValue: database }]
+    });
+    repository = TestBed.inject(StockRepository);
+  });
+
+  afterEach(() => {
+    database.db.close();
+  });
+
+  it('sincroniza o estoque em unidades (definição, venda e estorno)', () => {
+    repository.saveUnits(1, 'Long Neck', 24);
+    expect(repository.subtractUnits(1, 3)).toBeTrue();
+    expect(repository.restoreUnits(1, 1)).toBeTrue();
+
+    expect(repository.findUnitStock(1)?.num_quantity).toBe(22);
+    expect(stockChanges().map(({ mode, units, liters }) => ({ mode, units, liters }))).toEqual([
+      { mode: 'set', units: 24, liters: undefined },
+      { mode: 'adjust', units: -3, liters: undefined },
+      { mode: 'adjust', units: 1, liters: undefined }
+    ]);
+    expect(stockChanges().every(change => change.beerSyncId === 'beer-ln')).toBeTrue();
+  });
+
+  it('mantém o estoque em litros dos chopes', () => {
+    repository.save(2, 'IPA', 50);
+    expect(repository.subtract(2, 0.5)).toBeTrue();
+
+    expect(stockChanges().map(({ mode, units, liters }) => ({ mode, units, liters }))).toEqual([
+      { mode: 'set', units: undefined, liters: 50 },
+      { mode: 'adjust', units: undefined, liters: -0.5 }
+    ]);
+  });
+});
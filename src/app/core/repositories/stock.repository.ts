@@ -0,0 +1,333 @@
+// src/app/core/repositories/stock.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import {
+  DEFAULT_MIN_LITERS_ALERT,
+  DEFAULT_MIN_UNITS_ALERT,
+  EventStock,
+  StockAlert,
+  StockAlertConfig,
+  UnitStock,
+  isEventStock,
+  isStockAlert,
+  isStockAlertConfig,
+  isUnitStock
+} from '../models/stock.model';
+import { DbRow, mapFirstRow, mapRows, toNullableNumber, toNumber, toStrictNumber } from './row-mapper';
+import { SyncRepository } from './sync.repository';
+
+const mapStockRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  num_beer_id: toStrictNumber(row['num_beer_id']),
+  desc_beer_name: row['desc_beer_name'],
+  num_quantidade_litros: toStrictNumber(row['num_quantidade_litros']),
+  num_min_liters_alert: toNumber(row['num_min_liters_alert'], DEFAULT_MIN_LITERS_ALERT),
+  num_event_id: toNullableNumber(row['num_event_id']),
+  dt_created_at: row['dt_created_at'],
+  dt_updated_at: row['dt_updated_at']
+});
+
+const mapUnitStockRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  num_beer_id: toStrictNumber(row['num_beer_id']),
+  desc_beer_name: row['desc_beer_name'],
+  num_quantity: toStrictNumber(row['num_quantity']),
+  num_min_units_alert: toNumber(row['num_min_units_alert'], DEFAULT_MIN_UNITS_ALERT),
+  num_event_id: toNullableNumber(row['num_event_id']),
+  dt_created_at: row['dt_created_at'],
+  dt_updated_at: row['dt_updated_at']
+});
+
+const mapStockAlertRow = (row: DbRow) => ({
+  beerId: toStrictNumber(row['num_beer_id']),
+  beerName: row['desc_beer_name'],
+  quantidadeLitros: toStrictNumber(row['num_quantidade_litros']),
+  color: row['desc_color']
+});
+
+const mapStockAlertConfigRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  num_min_liters: toStrictNumber(row['num_min_liters']),
+  dt_updated_at: row['dt_updated_at']
+});
+
+/**
+ * Repositório de estoque por cerveja (config_event_sale), do estoque em
+ * unidades dos produtos unitários (config_event_unit_stock) e da
+ * configuração global de alerta (config_stock_alert)
+ *
+ * eventId = null representa o estoque geral (vendas sem evento).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StockRepository {
+  private readonly dbService = inject(DatabaseService);
+  private readonly syncRepository = inject(SyncRepository);
+
+  // ==================== ESTOQUE ====================
+
+  /**
+   * Lista todos os registros de estoque
+   */
+  public findAll(): EventStock[] {
+    const rows = this.dbService.executeQuery('SELECT * FROM config_event_sale ORDER BY desc_beer_name');
+    return mapRows(rows, mapStockRow, isEventStock, 'estoque');
+  }
+
+  /**
+   * Busca o estoque de uma cerveja
+   * @param eventId ID do evento (null = estoque geral)
+   */
+  public findByBeer(beerId: number, eventId: number | null = null): EventStock | null {
+    const rows = eventId !== null
+      ? this.dbService.executeQuery(
+          'SELECT * FROM config_event_sale WHERE num_beer_id = ? AND num_event_id = ?',
+          [beerId, eventId]
+        )
+      : this.dbService.executeQuery(
+          'SELECT * FROM config_event_sale WHERE num_beer_id = ? AND num_event_id IS NULL',
+          [beerId]
+        );
+    return mapFirstRow(rows, mapStockRow, isEventStock, 'estoque');
+  }
+
+  /**
+   * Define ou atualiza a quantidade de litros de uma cerveja
+   * @param eventId ID do evento (null = estoque geral)
+   */
+  public save(
+    beerId: number,
+    beerName: string,
+    quantidadeLitros: number,
+    minLitersAlert: number = DEFAULT_MIN_LITERS_ALERT,
+    eventId: number | null = null
+  ): void {
+    const existing = this.findByBeer(beerId, eventId);
+
+    if (existing) {
+      this.dbService.executeRun(
+        `UPDATE config_event_sale
+         SET num_quantidade_litros = ?, num_min_liters_alert = ?, dt_updated_at = CURRENT_TIMESTAMP
+         WHERE num_id = ?`,
+        [quantidadeLitros, minLitersAlert, existing.num_id]
+      );
+      console.log(`✅ Estoque atualizado: ${beerName} = ${quantidadeLitros}L (alerta: ${minLitersAlert}L) [eventId: ${eventId || 'geral'}]`);
+    } else {
+      this.dbService.executeRun(
+        `INSERT INTO config_event_sale (num_beer_id, desc_beer_name, num_quantidade_litros, num_min_liters_alert, num_event_id)
+         VALUES (?, ?, ?, ?, ?)`,
+        [beerId, beerName, quantidadeLitros, minLitersAlert, eventId]
+      );
+      console.log(`✅ Estoque criado: ${beerName} = ${quantidadeLitros}L (alerta: ${minLitersAlert}L) [eventId: ${eventId || 'geral'}]`);
+    }
+
+    this.syncRepository.enqueueStock(beerId, eventId, 'set', { liters: quantidadeLitros });
+  }
+
+  /**
+   * Atualiza apenas o limite de alerta de uma cerveja (todos os eventos)
+   */
+  public updateMinLitersAlert(beerId: number, minLitersAlert: number): void {
+    this.dbService.executeRun(
+      `UPDATE config_event_sale
+       SET num_min_liters_alert = ?, dt_updated_at = CURRENT_TIMESTAMP
+       WHERE num_beer_id = ?`,
+      [minLitersAlert, beerId]
+    );
+  }
+
+  /**
+   * Subtrai litros vendidos do estoque (nunca fica negativo)
+   * @returns false se não há estoque controlado para a cerveja (modo normal)
+   * @throws Erro do banco, para que transaction() desfaça a venda
+   */
+  public subtract(beerId: number, litersToSubtract: number, eventId: number | null = null): boolean {
+    const stock = this.findByBeer(beerId, eventId);
+
+    if (!stock || stock.num_quantidade_litros === 0) {
+      console.log(`ℹ️ Sem estoque configurado para beerId ${beerId} (eventId: ${eventId || 'geral'})`);
+      return false;
+    }
+
+    const newQuantity = Math.max(0, stock.num_quantidade_litros - litersToSubtract);
+    this.dbService.executeRun(
+      'UPDATE config_event_sale SET num_quantidade_litros = ?, dt_updated_at = CURRENT_TIMESTAMP WHERE num_id = ?',
+      [newQuantity, stock.num_id]
+    );
+    this.syncRepository.enqueueStock(beerId, eventId, 'adjust', { liters: -litersToSubtract });
+
+    console.log(`✅ Estoque subtraído: ${stock.desc_beer_name} -${litersToSubtract}L = ${newQuantity}L [eventId: ${eventId || 'geral'}]`);
+    return true;
+  }
+
+  /**
+   * Devolve ao estoque litros de uma venda estornada
+   * Estoque zerado pela venda também recebe a devolução.
+   * @returns false se não há estoque controlado para a cerveja (modo normal)
+   * @throws Erro do banco, para que transaction() desfaça o estorno
+   */
+  public restore(beerId: number, litersToRestore: number, eventId: number | null = null): boolean {
+    const stock = this.findByBeer(beerId, eventId);
+
+    if (!stock) {
+      console.log(`ℹ️ Sem estoque configurado para beerId ${beerId} (eventId: ${eventId || 'geral'})`);
+      return false;
+    }
+
+    const newQuantity = stock.num_quantidade_litros + litersToRestore;
+    this.dbService.executeRun(
+      'UPDATE config_event_sale SET num_quantidade_litros = ?, dt_updated_at = CURRENT_TIMESTAMP WHERE num_id = ?',
+      [newQuantity, stock.num_id]
+    );
+    this.syncRepository.enqueueStock(beerId, eventId, 'adjust', { liters: litersToRestore });
+
+    console.log(`✅ Estoque devolvido: ${stock.desc_beer_name} +${litersToRestore}L = ${newQuantity}L [eventId: ${eventId || 'geral'}]`);
+    return true;
+  }
+
+  /**
+   * Remove o estoque de uma cerveja em todos os eventos (volta ao modo normal)
+   */
+  public remove(beerId: number): void {
+    this.dbService.executeRun('DELETE FROM config_event_sale WHERE num_beer_id = ?', [beerId]);
+  }
+
+  /**
+   * Cervejas com estoque abaixo do limite global de alerta
+   */
+  public findAlerts(): StockAlert[] {
+    const minLiters = this.getAlertConfig()?.num_min_liters ?? DEFAULT_MIN_LITERS_ALERT;
+
+    const rows = this.dbService.executeQuery(
+      `SELECT
+         es.num_beer_id,
+         es.desc_beer_name,
+         es.num_quantidade_litros,
+         bt.desc_color
+       FROM config_event_sale es
+       INNER JOIN prd_beer_types bt ON es.num_beer_id = bt.num_id
+       WHERE es.num_quantidade_litros > 0
+         AND es.num_quantidade_litros < ?
+       ORDER BY es.num_quantidade_litros ASC`,
+      [minLiters]
+    );
+    return mapRows(rows, mapStockAlertRow, isStockAlert, 'alerta de estoque');
+  }
+
+  // ==================== ESTOQUE EM UNIDADES ====================
+
+  /**
+   * Busca o estoque em unidades de um produto
+   * @param eventId ID do evento (null = estoque geral)
+   */
+  public findUnitStock(beerId: number, eventId: number | null = null): UnitStock | null {
+    const rows = this.dbService.executeQuery(
+      'SELECT * FROM config_event_unit_stock WHERE num_beer_id = ? AND IFNULL(num_event_id, 0) = ?',
+      [beerId, eventId ?? 0]
+    );
+    return mapFirstRow(rows, mapUnitStockRow, isUnitStock, 'estoque em unidades');
+  }
+
+  /**
+   * Define ou atualiza as unidades disponíveis de um produto
+   * @param eventId ID do evento (null = estoque geral)
+   */
+  public saveUnits(
+    beerId: number,
+    beerName: string,
+    quantity: number,
+    minUnitsAlert: number = DEFAULT_MIN_UNITS_ALERT,
+    eventId: number | null = null
+  ): void {
+    this.dbService.executeRun(
+      `INSERT INTO config_event_unit_stock (num_beer_id, desc_beer_name, num_quantity, num_min_units_alert, num_event_id)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(num_beer_id, IFNULL(num_event_id, 0)) DO UPDATE SET
+         desc_beer_name = excluded.desc_beer_name,
+         num_quantity = excluded.num_quantity,
+         num_min_units_alert = excluded.num_min_units_alert,
+         dt_updated_at = CURRENT_TIMESTAMP`,
+      [beerId, beerName, quantity, minUnitsAlert, eventId]
+    );
+    this.syncRepository.enqueueStock(beerId, eventId, 'set', { units: quantity });
+    console.log(`✅ Estoque salvo: ${beerName} = ${quantity} un. (alerta: ${minUnitsAlert} un.) [eventId: ${eventId || 'geral'}]`);
+  }
+
+  /**
+   * Subtrai unidades vendidas do estoque (nunca fica negativo)
+   * @returns false se não há estoque controlado para o produto (modo normal)
+   * @throws Erro do banco, para que transaction() desfaça a venda
+   */
+  public subtractUnits(beerId: number, units: number, eventId: number | null = null): boolean {
+    const stock = this.findUnitStock(beerId, eventId);
+
+    if (!stock || stock.num_quantity === 0) {
+      console.log(`ℹ️ Sem estoque em unidades para beerId ${beerId} (eventId: ${eventId || 'geral'})`);
+      return false;
+    }
+
+    const newQuantity = Math.max(0, stock.num_quantity - units);
+    this.dbService.executeRun(
+      'UPDATE config_event_unit_stock SET num_quantity = ?, dt_updated_at = CURRENT_TIMESTAMP WHERE num_id = ?',
+      [newQuantity, stock.num_id]
+    );
+    this.syncRepository.enqueueStock(beerId, eventId, 'adjust', { units: -units });
+
+    console.log(`✅ Estoque subtraído: ${stock.desc_beer_name} -${units} un. = ${newQuantity} un. [eventId: ${eventId || 'geral'}]`);
+    return true;
+  }
+
+  /**
+   * Devolve ao estoque unidades de uma venda estornada
+   * @returns false se não há estoque controlado para o produto (modo normal)
+   * @throws Erro do banco, para que transaction() desfaça o estorno
+   */
+  public restoreUnits(beerId: number, units: number, eventId: number | null = null): boolean {
+    const stock = this.findUnitStock(beerId, eventId);
+
+    if (!stock) {
+      console.log(`ℹ️ Sem estoque em unidades para beerId ${beerId} (eventId: ${eventId || 'geral'})`);
+      return false;
+    }
+
+    const newQuantity = stock.num_quantity + units;
+    this.dbService.executeRun(
+      'UPDATE config_event_unit_stock SET num_quantity = ?, dt_updated_at = CURRENT_TIMESTAMP WHERE num_id = ?',
+      [newQuantity, stock.num_id]
+    );
+    this.syncRepository.enqueueStock(beerId, eventId, 'adjust', { units });
+
+    console.log(`✅ Estoque devolvido: ${stock.desc_beer_name} +${units} un. = ${newQuantity} un. [eventId: ${eventId || 'geral'}]`);
+    return true;
+  }
+
+  /**
+   * Remove o estoque em unidades de um produto em todos os eventos (volta ao modo normal)
+   */
+  public removeUnits(beerId: number): void {
+    this.dbService.executeRun('DELETE FROM config_event_unit_stock WHERE num_beer_id = ?', [beerId]);
+  }
+
+  // ==================== CONFIGURAÇÃO DE ALERTA ====================
+
+  /**
+   * Configuração global de alerta (registro único, num_id = 1)
+   */
+  public getAlertConfig(): StockAlertConfig | null {
+    const rows = this.dbService.executeQuery('SELECT * FROM config_stock_alert WHERE num_id = 1');
+    return mapFirstRow(rows, mapStockAlertConfigRow, isStockAlertConfig, 'configuração de alerta');
+  }
+
+  /**
+   * Atualiza o limite global de alerta (litros)
+   */
+  public setAlertConfig(minLiters: number): void {
+    this.dbService.executeRun(
+      `UPDATE config_stock_alert
+       SET num_min_liters = ?, dt_updated_at = CURRENT_TIMESTAMP
+       WHERE num_id = 1`,
+      [minLiters]
+    );
+  }
+}
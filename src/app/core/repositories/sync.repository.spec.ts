@@ -0,0 +1,55 @@
+import { TestBed } from '@angular/core/testing';
+import { DatabaseService } from '../services/database';
+import { SyncPullResponse } from '../models/sync.model';
+import { InMemoryDatabaseService, createInMemoryDatabase } from '../testing/in-memory-database';
+import { SyncRepository } from './sync.repository';
+
+describe('SyncRepository', () => {
+  let database: InMemoryDatabaseService;
+  let repository: SyncRepository;
+
+  const pull = (stock: SyncPullResponse['stock']): SyncPullResponse =>
+    ({ changes: [], lastSeq: 10, hasMore: false, stock, comandas: [] });
+
+  beforeEach(async () => {
+    database = await createInMemoryDatabase();
+    database.executeRun(
+      "INSERT INTO prd_beer_types (desc_name, desc_kind, desc_sync_id) VALUES ('Long Neck', 'unit', 'beer-ln'), ('IPA', 'draft', 'beer-ipa')"
+    );
+    database.executeRun("INSERT INTO prd_events (desc_name_event, desc_local_event, dt_data_event, desc_sync_id) VALUES ('Festival', 'Praça', '2026-10-18', 'event-1')");
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: DatabaseService, useValue: database }]
+    });
+    repository = TestBed.inject(SyncRepository);
+  });
+
+  afterEach(() => {
+    database.db.close();
+  });
+
+  it('applyPull aplica o estoque consolidado em unidades e em litros', () => {
+    repository.applyPull(pull([
+      { beerSyncId: 'beer-ln', eventSyncId: null, units: 20 },
+      { beerSyncId: 'beer-ln', eventSyncId: 'event-1', units: 6 },
+      { beerSyncId: 'beer-ipa', eventSyncId: null, liters: 40 }
+    ]));
+
+    expect(database.scalar('SELECT num_quantity FROM config_event_unit_stock WHERE num_beer_id = 1 AND num_event_id IS NULL')).toBe(20);
+    expect(database.scalar('SELECT num_quantity FROM config_event_unit_stock WHERE num_beer_id = 1 AND num_event_id = 1')).toBe(6);
+    expect(database.scalar('SELECT num_quantidade_litros FROM config_event_sale WHERE num_beer_id = 2')).toBe(40);
+    expect(database.scalar('SELECT COUNT(*) FROM config_event_sale WHERE num_beer_id = 1')).toBe(0);
+  });
+
+  it('applyPull substitui o estoque em unidades local (vendas e estornos de outros terminais)', () => {
+    database.executeRun(
+      "INSERT INTO config_event_unit_stock (num_beer_id, desc_beer_name, num_quantity, num_min_units_alert) VALUES (1, 'Long Neck', 24, 5)"
+    );
+
+    repository.applyPull(pull([{ beerSyncId: 'beer-ln', eventSyncId: null, units: 17 }]));
+
+    expect(database.scalar('SELECT num_quantity FROM config_event_unit_stock WHERE num_beer_id = 1')).toBe(17);
+    expect(database.scalar('SELECT num_min_units_alert FROM config_event_unit_stock WHERE num_beer_id = 1')).toBe(5);
+    expect(database.scalar('SELECT COUNT(*) FROM config_event_unit_stock')).toBe(1);
+  });
+});
@@ -0,0 +1,933 @@
+// src/app/core/repositories/sync.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import { ComandaStatus } from '../models/comanda.model';
+import { PaymentMethod } from '../models/payment.model';
+import {
+  SyncBeerPayload,
+  SyncBillPayload,
+  SyncCatalogEntity,
+  SyncChange,
+  SyncComandaState,
+  SyncConfig,
+  SyncEntity,
+  SyncEventPayload,
+  SyncPullResponse,
+  SyncSalePayload,
+  SyncStockAmount,
+  SyncStockPayload,
+  SyncStockState,
+  SyncVoidPayload,
+  createSyncId,
+  isSyncChange
+} from '../models/sync.model';
+import { DbRow, toNullableNumber, toNullableText, toNumber } from './row-mapper';
+
+/**
+ * Tabela local de cada entidade do catálogo
+ */
+const CATALOG_TABLES: Readonly<Record<SyncCatalogEntity, string>> = {
+  beer: 'prd_beer_types',
+  event: 'prd_events'
+};
+
+/**
+ * Alterações remotas que podem ficar estacionadas: citam cerveja, evento
+ * ou venda ainda não recebidos
+ */
+const PARKABLE_ENTITIES: readonly SyncEntity[] = ['sale', 'void', 'bill'];
+
+/**
+ * Alteração pendente na fila offline
+ */
+export interface PendingSyncChange {
+  outboxId: number;
+  change: SyncChange;
+}
+
+/**
+ * Alteração remota estacionada: cita cerveja, evento ou venda ainda
+ * desconhecido neste terminal e é reprocessada a cada pull
+ */
+export interface ParkedSyncChange {
+  opId: string;
+  entity: SyncEntity;
+  reason: string;
+  attempts: number;
+  createdAt: string;
+}
+
+/**
+ * Repositório da sincronização entre terminais
+ * (config_sync, fila offline prd_sync_outbox e aplicação das alterações remotas)
+ *
+ * As alterações só entram na fila com a sincronização ativada. As alterações
+ * remotas são aplicadas direto nas tabelas, sem voltar para a fila.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SyncRepository {
+  private readonly dbService = inject(DatabaseService);
+
+  // ==================== CONFIGURAÇÃO ====================
+
+  /**
+   * Configuração deste terminal (null antes da migration v14)
+   */
+  public getConfig(): SyncConfig | null {
+    const row = this.dbService.executeQuery('SELECT * FROM config_sync WHERE num_id = 1 LIMIT 1')[0];
+    if (!row) return null;
+
+    return {
+      enabled: toNumber(row['int_enabled']) === 1,
+      serverUrl: String(row['desc_server_url'] ?? ''),
+      token: String(row['desc_token'] ?? ''),
+      terminalId: String(row['desc_terminal_id']),
+      lastSeq: toNumber(row['num_last_seq']),
+      lastSyncAt: toNullableText(row['dt_last_sync_at'])
+    };
+  }
+
+  /**
+   * Atualiza servidor, token e ativação
+   */
+  public saveConfig(config: Pick<SyncConfig, 'enabled' | 'serverUrl' | 'token'>): void {
+    this.dbService.transaction(() => {
+      const wasEnabled = this.isEnabled();
+      this.dbService.executeRun(
+        `UPDATE config_sync
+         SET int_enabled = ?, desc_server_url = ?, desc_token = ?, dt_updated_at = CURRENT_TIMESTAMP
+         WHERE num_id = 1`,
+        [config.enabled ? 1 : 0, config.serverUrl.trim().replace(/\/+$/, ''), config.token.trim()]
+      );
+
+      // Cadastros feitos com a sincronização desligada não passaram pela fila
+      if (config.enabled && !wasEnabled) {
+        this.enqueueCatalog();
+      }
+    });
+  }
+
+  /**
+   * Grava o cursor do último pull
+   */
+  public saveCursor(lastSeq: number): void {
+    this.dbService.executeRun(
+      'UPDATE config_sync SET num_last_seq = ?, dt_last_sync_at = ? WHERE num_id = 1',
+      [lastSeq, new Date().toISOString()]
+    );
+  }
+
+  // ==================== FILA OFFLINE ====================
+
+  /**
+   * Enfileira uma venda recém-gravada
+   * Deve ser chamado na mesma transação do INSERT da venda.
+   */
+  public enqueueSale(saleId: number): void {
+    if (!this.isEnabled()) return;
+
+    const row = this.dbService.executeQuery(
+      `SELECT s.*, u.desc_username, e.desc_name_event, c.num_numero
+       FROM prd_sales s
+       LEFT JOIN prd_users u ON s.num_user_id = u.num_id
+       LEFT JOIN prd_events e ON s.num_event_id = e.num_id
+       LEFT JOIN prd_comandas c ON s.num_comanda_id = c.num_id
+       WHERE s.num_id = ?`,
+      [saleId]
+    )[0];
+
+    if (!row || !row['desc_sync_id']) {
+      throw new Error(`Venda ${saleId} não encontrada para sincronização`);
+    }
+
+    const payload: SyncSalePayload = {
+      saleUid: String(row['desc_sync_id']),
+      beerSyncId: this.catalogSyncId('beer', toNumber(row['num_beer_id'])),
+      beerName: String(row['desc_beer_name']),
+      cupSize: toNumber(row['num_cup_size']),
+      quantity: toNumber(row['num_quantity']),
+      totalVolume: toNumber(row['num_total_volume']),
+      unitPrice: toNumber(row['num_unit_price']),
+      totalPrice: toNumber(row['num_total_price']),
+      discount: toNumber(row['num_discount']),
+      promotions: toNullableText(row['desc_promotions']),
+      timestamp: String(row['dt_timestamp']),
+      comandaNumero: toNullableNumber(row['num_numero']),
+      username: toNullableText(row['desc_username']),
+      eventSyncId: row['num_event_id'] !== null ? this.catalogSyncId('event', toNumber(row['num_event_id'])) : null,
+      eventName: toNullableText(row['desc_name_event'])
+    };
+    this.enqueue('sale', payload);
+  }
+
+  /**
+   * Enfileira um estorno recém-gravado
+   * Deve ser chamado na mesma transação do INSERT do estorno.
+   */
+  public enqueueVoid(voidId: number): void {
+    if (!this.isEnabled()) return;
+
+    const row = this.dbService.executeQuery(
+      `SELECT v.*, s.desc_sync_id as desc_sale_sync_id, u.desc_username, a.desc_username as desc_authorizer_username
+       FROM prd_sale_voids v
+       JOIN prd_sales s ON v.num_sale_id = s.num_id
+       LEFT JOIN prd_users u ON v.num_user_id = u.num_id
+       LEFT JOIN prd_users a ON v.num_authorized_by = a.num_id
+       WHERE v.num_id = ?`,
+      [voidId]
+    )[0];
+
+    if (!row || !row['desc_sync_id']) {
+      throw new Error(`Estorno ${voidId} não encontrado para sincronização`);
+    }
+    // Venda anterior à sincronização: os outros terminais não a conhecem
+    if (!row['desc_sale_sync_id']) return;
+
+    const payload: SyncVoidPayload = {
+      voidUid: String(row['desc_sync_id']),
+      saleUid: String(row['desc_sale_sync_id']),
+      quantity: toNumber(row['num_quantity']),
+      totalVolume: toNumber(row['num_total_volume']),
+      amount: toNumber(row['num_amount']),
+      reason: String(row['desc_reason']),
+      username: toNullableText(row['desc_username']),
+      authorizedBy: toNullableText(row['desc_authorizer_username']),
+      timestamp: String(row['dt_timestamp'])
+    };
+    this.enqueue('void', payload);
+  }
+
+  /**
+   * Enfileira uma conta paga: pagamentos, taxa/gorjeta e as vendas da conta
+   * Deve ser chamado na mesma transação, depois de gravar os pagamentos e
+   * ligar as vendas à conta (desc_bill_id).
+   */
+  public enqueueBill(billId: string): void {
+    if (!this.isEnabled()) return;
+
+    const payments = this.dbService.executeQuery(
+      `SELECT p.*, u.desc_username, c.num_numero
+       FROM prd_payments p
+       LEFT JOIN prd_users u ON p.num_user_id = u.num_id
+       LEFT JOIN prd_comandas c ON p.num_comanda_id = c.num_id
+       WHERE p.desc_bill_id = ?
+       ORDER BY p.num_id`,
+      [billId]
+    );
+    const first = payments[0];
+    if (!first) {
+      throw new Error(`Conta ${billId} não encontrada para sincronização`);
+    }
+
+    const charge = this.dbService.executeQuery('SELECT * FROM prd_bill_charges WHERE desc_bill_id = ? LIMIT 1', [billId])[0];
+    const saleUids = this.dbService.executeQuery(
+      'SELECT desc_sync_id FROM prd_sales WHERE desc_bill_id = ? AND desc_sync_id IS NOT NULL ORDER BY num_id',
+      [billId]
+    ).map(row => String(row['desc_sync_id']));
+
+    const payload: SyncBillPayload = {
+      billId,
+      saleUids,
+      payments: payments.map(row => ({
+        method: row['desc_method'] as PaymentMethod,
+        amount: toNumber(row['num_amount']),
+        change: toNumber(row['num_change']),
+        reference: toNullableText(row['desc_reference']),
+        pixTxid: toNullableText(row['desc_pix_txid'])
+      })),
+      itemsTotal: toNumber(charge?.['num_items_total']),
+      serviceRate: toNumber(charge?.['num_service_rate']),
+      serviceCharge: toNumber(charge?.['num_service_charge']),
+      tip: toNumber(charge?.['num_tip']),
+      comandaNumero: toNullableNumber(first['num_numero']),
+      username: toNullableText(first['desc_username']),
+      eventSyncId: first['num_event_id'] !== null ? this.catalogSyncId('event', toNumber(first['num_event_id'])) : null,
+      timestamp: String(first['dt_timestamp'])
+    };
+    this.enqueue('bill', payload);
+  }
+
+  /**
+   * Enfileira uma alteração de estoque
+   * @param mode 'set' (quantidade definida) ou 'adjust' (variação)
+   * @param amount Litros (chope) ou unidades (produto unitário)
+   */
+  public enqueueStock(beerId: number, eventId: number | null, mode: SyncStockPayload['mode'], amount: SyncStockAmount): void {
+    if (!this.isEnabled()) return;
+
+    const payload: SyncStockPayload = {
+      beerSyncId: this.catalogSyncId('beer', beerId),
+      eventSyncId: eventId !== null ? this.catalogSyncId('event', eventId) : null,
+      beerName: this.findBeerName(beerId),
+      mode,
+      ...amount
+    };
+    this.enqueue('stock', payload);
+  }
+
+  /**
+   * Enfileira o cadastro atual de uma cerveja (inclusão, edição, arquivamento)
+   */
+  public enqueueBeer(beerId: number): void {
+    if (!this.isEnabled()) return;
+
+    const row = this.dbService.executeQuery('SELECT * FROM prd_beer_types WHERE num_id = ? LIMIT 1', [beerId])[0];
+    if (!row) return;
+
+    const payload: SyncBeerPayload = {
+      beerSyncId: this.ensureSyncId('beer', row),
+      name: String(row['desc_name']),
+      color: String(row['desc_color']),
+      description: String(row['desc_description'] ?? ''),
+      kind: row['desc_kind'] === 'unit' ? 'unit' : 'draft',
+      archivedAt: toNullableText(row['dt_archived_at'])
+    };
+    this.enqueue('beer', payload);
+  }
+
+  /**
+   * Enfileira o cadastro atual de um evento (inclusão, edição, status, arquivamento)
+   */
+  public enqueueEvent(eventId: number): void {
+    if (!this.isEnabled()) return;
+
+    const row = this.dbService.executeQuery('SELECT * FROM prd_events WHERE num_id = ? LIMIT 1', [eventId])[0];
+    if (!row) return;
+
+    const payload: SyncEventPayload = {
+      eventSyncId: this.ensureSyncId('event', row),
+      name: String(row['desc_name_event']),
+      local: String(row['desc_local_event'] ?? ''),
+      date: String(row['dt_data_event']),
+      contact: toNullableText(row['desc_contact_event']),
+      contactName: toNullableText(row['desc_name_contact_event']),
+      status: row['desc_status'] as SyncEventPayload['status'],
+      archivedAt: toNullableText(row['dt_archived_at'])
+    };
+    this.enqueue('event', payload);
+  }
+
+  /**
+   * Enfileira todo o catálogo (ao ativar a sincronização)
+   */
+  public enqueueCatalog(): void {
+    this.dbService.executeQuery('SELECT num_id FROM prd_beer_types ORDER BY num_id')
+      .forEach(row => this.enqueueBeer(toNumber(row['num_id'])));
+    this.dbService.executeQuery('SELECT num_id FROM prd_events ORDER BY num_id')
+      .forEach(row => this.enqueueEvent(toNumber(row['num_id'])));
+  }
+
+  /**
+   * Enfileira uma transição de status de comanda
+   */
+  public enqueueComanda(numero: number, fromStatus: ComandaStatus, toStatus: ComandaStatus, totalValue: number): void {
+    if (!this.isEnabled()) return;
+    this.enqueue('comanda', { numero, fromStatus, toStatus, totalValue, at: new Date().toISOString() });
+  }
+
+  /**
+   * Alterações pendentes, na ordem em que foram feitas
+   */
+  public findPending(limit: number): PendingSyncChange[] {
+    const rows = this.dbService.executeQuery(
+      'SELECT * FROM prd_sync_outbox ORDER BY num_id LIMIT ?',
+      [limit]
+    );
+
+    const pending: PendingSyncChange[] = [];
+    for (const row of rows) {
+      const change = {
+        opId: row['desc_op_id'],
+        entity: row['desc_entity'],
+        payload: JSON.parse(String(row['desc_payload'])),
+        createdAt: row['dt_created_at']
+      };
+
+      if (isSyncChange(change)) {
+        pending.push({ outboxId: toNumber(row['num_id']), change });
+      } else {
+        console.warn('⚠️ Alteração inválida na fila de sincronização descartada:', row);
+        this.dbService.executeRun('DELETE FROM prd_sync_outbox WHERE num_id = ?', [row['num_id']]);
+      }
+    }
+    return pending;
+  }
+
+  public countPending(): number {
+    const result = this.dbService.executeQuery('SELECT COUNT(*) as count FROM prd_sync_outbox');
+    return toNumber(result[0]?.['count']);
+  }
+
+  /**
+   * Alterações remotas estacionadas, mais antigas primeiro
+   */
+  public findParked(): ParkedSyncChange[] {
+    return this.dbService.executeQuery('SELECT * FROM prd_sync_parked ORDER BY num_id').map(row => ({
+      opId: String(row['desc_op_id']),
+      entity: row['desc_entity'] as SyncEntity,
+      reason: String(row['desc_reason']),
+      attempts: toNumber(row['num_attempts']),
+      createdAt: String(row['dt_created_at'])
+    }));
+  }
+
+  /**
+   * Troca o identificador de um cadastro pelo que o servidor já conhecia
+   * (mesmo nome cadastrado antes em outro terminal)
+   */
+  public rekeyCatalog(entity: SyncCatalogEntity, fromSyncId: string, toSyncId: string): void {
+    if (fromSyncId === toSyncId) return;
+
+    const table = CATALOG_TABLES[entity];
+    this.dbService.transaction(() => {
+      const taken = this.findBySyncId(entity, toSyncId);
+      if (taken) {
+        // O cadastro do servidor já chegou pelo pull: este registro local é o duplicado
+        console.warn(`⚠️ ${entity} ${fromSyncId} já existe localmente como ${toSyncId}`);
+        return;
+      }
+      this.dbService.executeRun(`UPDATE ${table} SET desc_sync_id = ? WHERE desc_sync_id = ?`, [toSyncId, fromSyncId]);
+      console.log(`🔗 ${entity} ${fromSyncId} vinculado ao cadastro ${toSyncId} do servidor`);
+    });
+  }
+
+  /**
+   * Remove da fila as alterações confirmadas pelo servidor
+   */
+  public removeFromOutbox(outboxIds: number[]): void {
+    if (outboxIds.length === 0) return;
+
+    this.dbService.executeRun(
+      `DELETE FROM prd_sync_outbox WHERE num_id IN (${outboxIds.map(() => '?').join(', ')})`,
+      outboxIds
+    );
+  }
+
+  /**
+   * Registra a falha de envio (as alterações continuam na fila)
+   */
+  public markFailed(outboxIds: number[], error: string): void {
+    if (outboxIds.length === 0) return;
+
+    this.dbService.executeRun(
+      `UPDATE prd_sync_outbox
+       SET num_attempts = num_attempts + 1, desc_last_error = ?
+       WHERE num_id IN (${outboxIds.map(() => '?').join(', ')})`,
+      [error, ...outboxIds]
+    );
+  }
+
+  // ==================== ALTERAÇÕES REMOTAS ====================
+
+  /**
+   * Aplica o resultado de um pull em uma única transação
+   * 1. Cadastros de cervejas e eventos
+   * 2. Alterações estacionadas em pulls anteriores e vendas, estornos e
+   *    contas pagas de outros terminais (ignorados se já existirem;
+   *    estacionados se citarem cerveja, evento ou venda ainda desconhecido)
+   * 3. Estado consolidado de estoque (litros e unidades) e comandas
+   *    (prevalece sobre o local)
+   * 4. Cursor do pull
+   *
+   * @returns Quantidade de vendas remotas incluídas
+   */
+  public applyPull(response: SyncPullResponse): number {
+    // Alterações no formato anterior aos identificadores de cadastro
+    const changes = response.changes.filter(change => {
+      const valid = isSyncChange(change);
+      if (!valid) console.warn('⚠️ Alteração remota em formato inválido ignorada:', change);
+      return valid;
+    });
+
+    return this.dbService.transaction(() => {
+      for (const change of changes) {
+        if (change.entity === 'beer') this.applyRemoteBeer(change.payload);
+        if (change.entity === 'event') this.applyRemoteEvent(change.payload);
+      }
+
+      let inserted = this.retryParked();
+      for (const change of changes) {
+        if (this.applyRemoteRecord(change) && change.entity === 'sale') {
+          inserted++;
+        }
+      }
+
+      response.stock.forEach(state => this.applyStockState(state));
+      response.comandas.forEach(state => this.applyComandaState(state));
+      this.saveCursor(response.lastSeq);
+      return inserted;
+    });
+  }
+
+  /**
+   * Cadastro de cerveja de outro terminal
+   * Sem o identificador localmente, uma cerveja com o mesmo nome (único)
+   * passa a usar o identificador do servidor.
+   */
+  private applyRemoteBeer(payload: SyncBeerPayload): void {
+    const existing = this.findBySyncId('beer', payload.beerSyncId)
+      ?? this.dbService.executeQuery('SELECT * FROM prd_beer_types WHERE desc_name = ? COLLATE NOCASE LIMIT 1', [payload.name])[0];
+
+    if (!existing) {
+      this.dbService.executeRun(
+        `INSERT INTO prd_beer_types (desc_name, desc_color, desc_description, desc_kind, dt_archived_at, desc_sync_id)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [payload.name, payload.color, payload.description, payload.kind, payload.archivedAt, payload.beerSyncId]
+      );
+      return;
+    }
+
+    if (existing['desc_sync_id'] !== payload.beerSyncId) {
+      console.log(`🔗 Cerveja "${payload.name}" vinculada ao cadastro ${payload.beerSyncId} do servidor`);
+    }
+
+    // Nome já usado por outra cerveja local: mantém o nome atual
+    const nameTaken = this.dbService.executeQuery(
+      'SELECT 1 FROM prd_beer_types WHERE desc_name = ? COLLATE NOCASE AND num_id != ? LIMIT 1',
+      [payload.name, existing['num_id']]
+    ).length > 0;
+    if (nameTaken) {
+      console.warn(`⚠️ Cerveja "${payload.name}" recebida com nome já usado neste terminal; nome mantido`);
+    }
+
+    this.dbService.executeRun(
+      `UPDATE prd_beer_types
+       SET desc_name = ?, desc_color = ?, desc_description = ?, desc_kind = ?, dt_archived_at = ?, desc_sync_id = ?
+       WHERE num_id = ?`,
+      [
+        nameTaken ? existing['desc_name'] : payload.name,
+        payload.color,
+        payload.description,
+        payload.kind,
+        payload.archivedAt,
+        payload.beerSyncId,
+        existing['num_id']
+      ]
+    );
+  }
+
+  /**
+   * Cadastro de evento de outro terminal (nomes de evento se repetem:
+   * a correspondência é só pelo identificador)
+   */
+  private applyRemoteEvent(payload: SyncEventPayload): void {
+    const existing = this.findBySyncId('event', payload.eventSyncId);
+    const values = [
+      payload.name,
+      payload.local,
+      payload.date,
+      payload.contact,
+      payload.contactName,
+      payload.status,
+      payload.archivedAt,
+      new Date().toISOString()
+    ];
+
+    if (existing) {
+      this.dbService.executeRun(
+        `UPDATE prd_events
+         SET desc_name_event = ?, desc_local_event = ?, dt_data_event = ?, desc_contact_event = ?, desc_name_contact_event = ?,
+             desc_status = ?, dt_archived_at = ?, dt_updated_at = ?
+         WHERE num_id = ?`,
+        [...values, existing['num_id']]
+      );
+      return;
+    }
+
+    this.dbService.executeRun(
+      `INSERT INTO prd_events (desc_name_event, desc_local_event, dt_data_event, desc_contact_event, desc_name_contact_event,
+                               desc_status, dt_archived_at, dt_updated_at, dt_created_at, desc_sync_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [...values, values[7], payload.eventSyncId]
+    );
+  }
+
+  /**
+   * Venda, estorno ou conta paga de outro terminal
+   * @returns true se a alteração foi incluída
+   */
+  private applyRemoteRecord(change: SyncChange): boolean {
+    switch (change.entity) {
+      case 'sale':
+        return this.applyRemoteSale(change);
+      case 'void':
+        return this.applyRemoteVoid(change);
+      case 'bill':
+        return this.applyRemoteBill(change);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Venda de outro terminal: incluída, ignorada (já existe) ou estacionada
+   * @returns true se a venda foi incluída
+   */
+  private applyRemoteSale(change: Extract<SyncChange, { entity: 'sale' }>): boolean {
+    const payload = change.payload;
+    const beerId = this.findCatalogId('beer', payload.beerSyncId);
+    const eventId = payload.eventSyncId !== null ? this.findCatalogId('event', payload.eventSyncId) : null;
+
+    if (beerId === null || (payload.eventSyncId !== null && eventId === null)) {
+      const reason = beerId === null
+        ? `Cerveja "${payload.beerName}" ainda não recebida`
+        : `Evento "${payload.eventName ?? payload.eventSyncId}" ainda não recebido`;
+      this.park(change, reason);
+      return false;
+    }
+
+    this.dbService.executeRun('DELETE FROM prd_sync_parked WHERE desc_op_id = ?', [change.opId]);
+    return this.insertRemoteSale(payload, beerId, eventId);
+  }
+
+  /**
+   * Estorno de outro terminal: incluído, ignorado (já existe) ou estacionado
+   * até a venda chegar. O estoque (litros ou unidades) não é tocado: a
+   * devolução chega como ajuste de estoque e o estado consolidado do
+   * servidor prevalece.
+   * @returns true se o estorno foi incluído
+   */
+  private applyRemoteVoid(change: Extract<SyncChange, { entity: 'void' }>): boolean {
+    const payload = change.payload;
+    const sale = this.dbService.executeQuery(
+      'SELECT num_id, num_beer_id, desc_beer_name, num_comanda_id, num_event_id FROM prd_sales WHERE desc_sync_id = ? LIMIT 1',
+      [payload.saleUid]
+    )[0];
+
+    if (!sale) {
+      this.park(change, 'Venda do estorno ainda não recebida');
+      return false;
+    }
+    this.dbService.executeRun('DELETE FROM prd_sync_parked WHERE desc_op_id = ?', [change.opId]);
+
+    const exists = this.dbService.executeQuery('SELECT 1 FROM prd_sale_voids WHERE desc_sync_id = ? LIMIT 1', [payload.voidUid]);
+    if (exists.length > 0) return false;
+
+    this.dbService.executeRun(
+      `INSERT INTO prd_sale_voids (num_sale_id, num_beer_id, desc_beer_name, num_quantity, num_total_volume, num_amount, desc_reason, num_user_id, num_authorized_by, num_comanda_id, num_event_id, dt_timestamp, desc_sync_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        sale['num_id'],
+        sale['num_beer_id'],
+        sale['desc_beer_name'],
+        payload.quantity,
+        payload.totalVolume,
+        payload.amount,
+        payload.reason,
+        this.resolveUserId(payload.username),
+        this.resolveUserId(payload.authorizedBy),
+        sale['num_comanda_id'],
+        sale['num_event_id'],
+        payload.timestamp,
+        payload.voidUid
+      ]
+    );
+
+    // Estornos simultâneos da mesma venda em dois terminais não passam do total vendido
+    this.dbService.executeRun(
+      'UPDATE prd_sales SET num_voided_quantity = MIN(num_quantity, num_voided_quantity + ?) WHERE num_id = ?',
+      [payload.quantity, sale['num_id']]
+    );
+    return true;
+  }
+
+  /**
+   * Conta paga em outro terminal: incluída, ignorada (já existe) ou
+   * estacionada até o evento e todas as vendas da conta chegarem
+   * @returns true se a conta foi incluída
+   */
+  private applyRemoteBill(change: Extract<SyncChange, { entity: 'bill' }>): boolean {
+    const payload = change.payload;
+    const eventId = payload.eventSyncId !== null ? this.findCatalogId('event', payload.eventSyncId) : null;
+    const knownSales = payload.saleUids.length === 0 ? 0 : toNumber(this.dbService.executeQuery(
+      `SELECT COUNT(*) as count FROM prd_sales WHERE desc_sync_id IN (${payload.saleUids.map(() => '?').join(', ')})`,
+      payload.saleUids
+    )[0]?.['count']);
+
+    if ((payload.eventSyncId !== null && eventId === null) || knownSales < payload.saleUids.length) {
+      const reason = knownSales < payload.saleUids.length
+        ? `${payload.saleUids.length - knownSales} venda(s) da conta ainda não recebida(s)`
+        : `Evento ${payload.eventSyncId} ainda não recebido`;
+      this.park(change, reason);
+      return false;
+    }
+    this.dbService.executeRun('DELETE FROM prd_sync_parked WHERE desc_op_id = ?', [change.opId]);
+
+    const exists = this.dbService.executeQuery('SELECT 1 FROM prd_payments WHERE desc_bill_id = ? LIMIT 1', [payload.billId]);
+    if (exists.length > 0) return false;
+
+    const comandaId = this.findComandaId(payload.comandaNumero);
+    const userId = this.resolveUserId(payload.username);
+
+    payload.payments.forEach(payment => {
+      this.dbService.executeRun(
+        `INSERT INTO prd_payments (desc_bill_id, desc_method, num_amount, num_change, desc_reference, desc_pix_txid, num_comanda_id, num_user_id, num_event_id, dt_timestamp)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [payload.billId, payment.method, payment.amount, payment.change, payment.reference, payment.pixTxid, comandaId, userId, eventId, payload.timestamp]
+      );
+    });
+
+    if (payload.serviceRate > 0 || payload.tip > 0) {
+      this.dbService.executeRun(
+        `INSERT INTO prd_bill_charges (desc_bill_id, num_comanda_id, num_items_total, num_service_rate, num_service_charge, num_tip, num_user_id, num_event_id, dt_timestamp)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [payload.billId, comandaId, payload.itemsTotal, payload.serviceRate, payload.serviceCharge, payload.tip, userId, eventId, payload.timestamp]
+      );
+    }
+
+    // Mesma ligação de confirmPayment(): as vendas saem da comanda e ficam na conta
+    if (payload.saleUids.length > 0) {
+      this.dbService.executeRun(
+        `UPDATE prd_sales SET num_comanda_id = NULL, desc_bill_id = ?
+         WHERE desc_sync_id IN (${payload.saleUids.map(() => '?').join(', ')})`,
+        [payload.billId, ...payload.saleUids]
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Reprocessa as alterações estacionadas
+   * @returns Quantidade de vendas incluídas
+   */
+  private retryParked(): number {
+    let inserted = 0;
+    for (const row of this.dbService.executeQuery('SELECT * FROM prd_sync_parked ORDER BY num_id')) {
+      const change = {
+        opId: row['desc_op_id'],
+        entity: row['desc_entity'],
+        payload: JSON.parse(String(row['desc_payload'])),
+        createdAt: row['dt_created_at']
+      };
+
+      if (!isSyncChange(change) || !PARKABLE_ENTITIES.includes(change.entity)) {
+        console.warn('⚠️ Alteração estacionada inválida descartada:', row);
+        this.dbService.executeRun('DELETE FROM prd_sync_parked WHERE num_id = ?', [row['num_id']]);
+        continue;
+      }
+      if (this.applyRemoteRecord(change) && change.entity === 'sale') inserted++;
+    }
+    return inserted;
+  }
+
+  private park(change: SyncChange, reason: string): void {
+    this.dbService.executeRun(
+      `INSERT INTO prd_sync_parked (desc_op_id, desc_entity, desc_payload, desc_reason, dt_created_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(desc_op_id) DO UPDATE SET
+         num_attempts = num_attempts + 1, desc_reason = excluded.desc_reason, dt_last_attempt_at = CURRENT_TIMESTAMP`,
+      [change.opId, change.entity, JSON.stringify(change.payload), reason, change.createdAt]
+    );
+  }
+
+  private insertRemoteSale(payload: SyncSalePayload, beerId: number, eventId: number | null): boolean {
+    const exists = this.dbService.executeQuery(
+      'SELECT 1 FROM prd_sales WHERE desc_sync_id = ? LIMIT 1',
+      [payload.saleUid]
+    );
+    if (exists.length > 0) return false;
+
+    // Terminal de versão anterior não envia o preço: usa o vigente neste terminal
+    const unitPrice = payload.unitPrice ?? this.findEffectivePrice(beerId, eventId, payload.cupSize);
+    const discount = payload.discount ?? 0;
+    const totalPrice = payload.totalPrice ?? unitPrice * payload.quantity - discount;
+
+    this.dbService.executeRun(
+      `INSERT INTO prd_sales (num_beer_id, desc_beer_name, num_cup_size, num_quantity, dt_timestamp, num_total_volume, num_unit_price, num_discount, num_total_price, desc_promotions, num_comanda_id, num_user_id, num_event_id, desc_sync_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        beerId,
+        payload.beerName,
+        payload.cupSize,
+        payload.quantity,
+        payload.timestamp,
+        payload.totalVolume,
+        unitPrice,
+        discount,
+        totalPrice,
+        payload.promotions ?? null,
+        this.findComandaId(payload.comandaNumero),
+        this.resolveUserId(payload.username),
+        eventId,
+        payload.saleUid
+      ]
+    );
+    return true;
+  }
+
+  private applyStockState(state: SyncStockState): void {
+    const beerId = this.findCatalogId('beer', state.beerSyncId);
+    const eventId = state.eventSyncId !== null ? this.findCatalogId('event', state.eventSyncId) : null;
+
+    // Cerveja ou evento que ainda não existe neste terminal (chega em um próximo pull)
+    if (beerId === null || (state.eventSyncId !== null && eventId === null)) return;
+
+    if (state.units !== undefined) {
+      this.dbService.executeRun(
+        `INSERT INTO config_event_unit_stock (num_beer_id, desc_beer_name, num_quantity, num_event_id)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(num_beer_id, IFNULL(num_event_id, 0)) DO UPDATE SET
+           num_quantity = excluded.num_quantity,
+           dt_updated_at = CURRENT_TIMESTAMP`,
+        [beerId, this.findBeerName(beerId), state.units, eventId]
+      );
+      return;
+    }
+
+    const existing = this.dbService.executeQuery(
+      `SELECT num_id FROM config_event_sale
+       WHERE num_beer_id = ? AND ${eventId === null ? 'num_event_id IS NULL' : 'num_event_id = ?'}
+       LIMIT 1`,
+      eventId === null ? [beerId] : [beerId, eventId]
+    )[0];
+
+    if (existing) {
+      this.dbService.executeRun(
+        'UPDATE config_event_sale SET num_quantidade_litros = ?, dt_updated_at = CURRENT_TIMESTAMP WHERE num_id = ?',
+        [state.liters, existing['num_id']]
+      );
+    } else {
+      this.dbService.executeRun(
+        `INSERT INTO config_event_sale (num_beer_id, desc_beer_name, num_quantidade_litros, num_event_id)
+         VALUES (?, ?, ?, ?)`,
+        [beerId, this.findBeerName(beerId), state.liters, eventId]
+      );
+    }
+  }
+
+  private applyComandaState(state: SyncComandaState): void {
+    const comanda = this.dbService.executeQuery(
+      'SELECT num_id, desc_status FROM prd_comandas WHERE num_numero = ? LIMIT 1',
+      [state.numero]
+    )[0];
+    if (!comanda || comanda['desc_status'] === state.status) return;
+
+    if (state.status === ComandaStatus.DISPONIVEL) {
+      // Pagamento confirmado em outro terminal: mesma limpeza de confirmPayment()
+      this.dbService.executeRun(
+        `UPDATE prd_comandas
+         SET desc_status = ?, dt_paid_at = ?, num_total_value = 0, num_service_rate = 0, num_tip = 0, num_closed_by = NULL,
+             desc_pix_txid = NULL, dt_opened_at = NULL, dt_closed_at = NULL, dt_updated_at = ?
+         WHERE num_id = ?`,
+        [state.status, state.updatedAt, state.updatedAt, comanda['num_id']]
+      );
+      this.dbService.executeRun('UPDATE prd_sales SET num_comanda_id = NULL WHERE num_comanda_id = ?', [comanda['num_id']]);
+      return;
+    }
+
+    const timestampColumn = state.status === ComandaStatus.EM_USO ? 'dt_opened_at' : 'dt_closed_at';
+    this.dbService.executeRun(
+      `UPDATE prd_comandas
+       SET desc_status = ?, num_total_value = ?, ${timestampColumn} = ?, dt_updated_at = ?
+       WHERE num_id = ?`,
+      [state.status, state.totalValue, state.updatedAt, state.updatedAt, comanda['num_id']]
+    );
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  private isEnabled(): boolean {
+    const row = this.dbService.executeQuery('SELECT int_enabled FROM config_sync WHERE num_id = 1 LIMIT 1')[0];
+    return toNumber(row?.['int_enabled']) === 1;
+  }
+
+  private enqueue(entity: SyncEntity, payload: object): void {
+    this.dbService.executeRun(
+      'INSERT INTO prd_sync_outbox (desc_op_id, desc_entity, desc_payload, dt_created_at) VALUES (?, ?, ?, ?)',
+      [createSyncId(), entity, JSON.stringify(payload), new Date().toISOString()]
+    );
+  }
+
+  /**
+   * desc_sync_id de uma cerveja/evento local
+   * Um cadastro que ainda não tinha identificador (anterior à sincronização)
+   * recebe um agora e é enfileirado antes da alteração que o cita.
+   */
+  private catalogSyncId(entity: SyncCatalogEntity, id: number): string {
+    const row = this.dbService.executeQuery(
+      `SELECT num_id, desc_sync_id FROM ${CATALOG_TABLES[entity]} WHERE num_id = ? LIMIT 1`,
+      [id]
+    )[0];
+    if (!row) {
+      throw new Error(`Cadastro ${entity} ${id} não encontrado para sincronização`);
+    }
+    if (row['desc_sync_id']) return String(row['desc_sync_id']);
+
+    const syncId = this.ensureSyncId(entity, row);
+    if (entity === 'beer') {
+      this.enqueueBeer(id);
+    } else {
+      this.enqueueEvent(id);
+    }
+    return syncId;
+  }
+
+  /**
+   * Atribui o desc_sync_id se o registro ainda não tiver um
+   */
+  private ensureSyncId(entity: SyncCatalogEntity, row: DbRow): string {
+    if (row['desc_sync_id']) return String(row['desc_sync_id']);
+
+    const syncId = createSyncId();
+    this.dbService.executeRun(
+      `UPDATE ${CATALOG_TABLES[entity]} SET desc_sync_id = ? WHERE num_id = ? AND desc_sync_id IS NULL`,
+      [syncId, row['num_id']]
+    );
+    return syncId;
+  }
+
+  private findBySyncId(entity: SyncCatalogEntity, syncId: string): DbRow | undefined {
+    return this.dbService.executeQuery(
+      `SELECT * FROM ${CATALOG_TABLES[entity]} WHERE desc_sync_id = ? LIMIT 1`,
+      [syncId]
+    )[0];
+  }
+
+  private findCatalogId(entity: SyncCatalogEntity, syncId: string): number | null {
+    return toNullableNumber(this.findBySyncId(entity, syncId)?.['num_id']);
+  }
+
+  private findBeerName(beerId: number): string {
+    const row = this.dbService.executeQuery('SELECT desc_name FROM prd_beer_types WHERE num_id = ? LIMIT 1', [beerId])[0];
+    return String(row?.['desc_name'] ?? '');
+  }
+
+  private findComandaId(numero: number | null): number | null {
+    if (numero === null) return null;
+    const row = this.dbService.executeQuery('SELECT num_id FROM prd_comandas WHERE num_numero = ? LIMIT 1', [numero])[0];
+    return toNullableNumber(row?.['num_id']);
+  }
+
+  /**
+   * ID local do usuário pelo username (admin mais antigo se não existir)
+   */
+  private resolveUserId(username: string | null): number {
+    const row = this.dbService.executeQuery(
+      `SELECT num_id FROM prd_users
+       WHERE desc_username = ? OR desc_role = 'admin'
+       ORDER BY CASE WHEN desc_username = ? THEN 0 ELSE 1 END, num_id
+       LIMIT 1`,
+      [username, username]
+    )[0];
+    return toNumber(row?.['num_id']);
+  }
+
+  /**
+   * Preço do copo em config_sale_prices: o do evento, se houver, senão o geral (0 sem preço)
+   */
+  private findEffectivePrice(beerId: number, eventId: number | null, cupSize: number): number {
+    const row = this.dbService.executeQuery(
+      `SELECT sp.num_price as price
+       FROM config_sale_prices sp
+       JOIN config_cup_sizes cs ON cs.num_id = sp.num_cup_size_id
+       WHERE sp.num_beer_id = ? AND cs.num_volume_ml = ?
+         AND (sp.num_event_id = ? OR sp.num_event_id IS NULL)
+       ORDER BY sp.num_event_id IS NULL
+       LIMIT 1`,
+      [beerId, cupSize, eventId]
+    )[0];
+    return toNumber(row?.['price']);
+  }
+}
@@ -0,0 +1,142 @@
+// src/app/core/repositories/user.repository.ts
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from '../services/database';
+import {
+  GestorOption,
+  User,
+  UserRole,
+  UserSummary,
+  isGestorOption,
+  isUserSummary,
+  isValidUser
+} from '../models/user.model';
+import { DbRow, mapFirstRow, mapRows, toNumber, toStrictNumber } from './row-mapper';
+
+const mapUserRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  desc_username: row['desc_username'],
+  desc_email: row['desc_email'],
+  desc_password_hash: row['desc_password_hash'],
+  desc_role: row['desc_role'],
+  int_user_active: toNumber(row['int_user_active'], 1),
+  dt_created_at: row['dt_created_at'],
+  dt_last_login_at: row['dt_last_login_at'] ?? undefined
+});
+
+const mapUserSummaryRow = (row: DbRow) => {
+  const { desc_password_hash, ...summary } = mapUserRow(row);
+  return summary;
+};
+
+const mapGestorRow = (row: DbRow) => ({
+  num_id: toStrictNumber(row['num_id']),
+  desc_username: row['desc_username'],
+  desc_email: row['desc_email']
+});
+
+/**
+ * Repositório de usuários (prd_users)
+ * Hash de senha e regras de sessão ficam no AuthService.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UserRepository {
+  private readonly dbService = inject(DatabaseService);
+
+  /**
+   * Lista todos os usuários (sem o hash da senha)
+   */
+  public findAll(): UserSummary[] {
+    const rows = this.dbService.executeQuery(
+      'SELECT num_id, desc_username, desc_email, desc_role, int_user_active, dt_created_at, dt_last_login_at FROM prd_users'
+    );
+    return mapRows(rows, mapUserSummaryRow, isUserSummary, 'usuário');
+  }
+
+  /**
+   * Busca usuário por ID
+   */
+  public findById(id: number): User | null {
+    const rows = this.dbService.executeQuery('SELECT * FROM prd_users WHERE num_id = ? LIMIT 1', [id]);
+    return mapFirstRow(rows, mapUserRow, isValidUser, 'usuário');
+  }
+
+  /**
+   * Busca usuário por email ou username (sem diferenciar maiúsculas)
+   */
+  public findByEmailOrUsername(emailOrUsername: string): User | null {
+    const input = emailOrUsername.trim().toLowerCase();
+    const rows = this.dbService.executeQuery(
+      'SELECT * FROM prd_users WHERE LOWER(desc_email) = ? OR LOWER(desc_username) = ? LIMIT 1',
+      [input, input]
+    );
+    return mapFirstRow(rows, mapUserRow, isValidUser, 'usuário');
+  }
+
+  /**
+   * Verifica se o username já está em uso
+   */
+  public usernameExists(username: string): boolean {
+    const rows = this.dbService.executeQuery(
+      'SELECT num_id FROM prd_users WHERE LOWER(desc_username) = LOWER(?) LIMIT 1',
+      [username.trim()]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Verifica se o email já está cadastrado
+   */
+  public emailExists(email: string): boolean {
+    const rows = this.dbService.executeQuery(
+      'SELECT num_id FROM prd_users WHERE LOWER(desc_email) = LOWER(?) LIMIT 1',
+      [email.trim()]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Cadastra um usuário ativo
+   * @param passwordHash Senha já convertida em hash
+   */
+  public create(username: string, email: string, passwordHash: string, role: UserRole): void {
+    this.dbService.executeRun(
+      'INSERT INTO prd_users (desc_username, desc_email, desc_password_hash, desc_role, int_user_active) VALUES (?, ?, ?, ?, ?)',
+      [username, email, passwordHash, role, 1]
+    );
+  }
+
+  /**
+   * Registra a data do último login
+   */
+  public updateLastLogin(userId: number): void {
+    this.dbService.executeRun(
+      'UPDATE prd_users SET dt_last_login_at = ? WHERE num_id = ?',
+      [new Date().toISOString(), userId]
+    );
+  }
+
+  /**
+   * Ativa ou desativa um usuário
+   */
+  public setActive(userId: number, active: boolean): void {
+    this.dbService.executeRun(
+      'UPDATE prd_users SET int_user_active = ? WHERE num_id = ?',
+      [active ? 1 : 0, userId]
+    );
+  }
+
+  /**
+   * Gestores ativos, para vincular a empresas
+   */
+  public findGestores(): GestorOption[] {
+    const rows = this.dbService.executeQuery(
+      `SELECT num_id, desc_username, desc_email
+       FROM prd_users
+       WHERE desc_role = 'gestor' AND int_user_active = 1
+       ORDER BY desc_username ASC`
+    );
+    return mapRows(rows, mapGestorRow, isGestorOption, 'gestor');
+  }
+}
@@ -15,6 +15,9 @@ import { Injectable, inject, signal, computed, PLATFORM_ID } from '@angular/core
 import { isPlatformBrowser } from '@angular/common';
 import { Router } from '@angular/router';
 import { DatabaseService } from './database';
+import { UserRepository } from '../repositories/user.repository';
+import { BusinessRepository } from '../repositories/business.repository';
+import { BusinessDisplay } from '../models/business.model';
 import {
   User,
   UserSession,
@@ -22,6 +25,8 @@ import {
   LoginDto,
   LoginResponse,
   UserRole,
+  UserSummary,
+  GestorOption,
   isValidSession,
   isSessionExpired,
   userToSession,
@@ -43,6 +48,8 @@ import {
 export class AuthService {
   // ==================== INJEÇÃO ====================
   private readonly dbService = inject(DatabaseService);
+  private readonly userRepository = inject(UserRepository);
+  private readonly businessRepository = inject(BusinessRepository);
   private readonly router = inject(Router);
 
   // ✅ Correção SSR: injetar PLATFORM_ID e usar isPlatformBrowser
@@ -81,7 +88,7 @@ export class AuthService {
 
   // ==================== REGISTRO (CADASTRO) ====================
 
-  public listarUsuarios(): any[] {
+  public listarUsuarios(): UserSummary[] {
     try {
       // Verifica se o banco está pronto
       if (!this.dbService.isDbReady()) {
@@ -89,7 +96,7 @@ export class AuthService {
         return [];
       }
 
-      const result = this.dbService.getUsuarios();
+      const result = this.userRepository.findAll();
       console.log('✅ Usuários listados:', result);
       console.log('✅ Total de usuários:', result.length);
       return result;
@@ -128,13 +135,8 @@ export class AuthService {
 
       const emailNormalized = dto.desc_email.trim().toLowerCase();
 
-      this.dbService.executeRun('INSERT INTO prd_users (desc_username, desc_email, desc_password_hash, desc_role, int_user_active) VALUES (?, ?, ?, ?, ?)', [
-        dto.desc_username.trim(),
-        emailNormalized,
-        passwordHash,
-        role,
-        1  // Novo usuário sempre ativo
-      ]);
+      // Novo usuário sempre ativo
+      this.userRepository.create(dto.desc_username.trim(), emailNormalized, passwordHash, role);
 
       // Buscar usuário pelo email (mais confiável que last_insert_rowid)
       const user = this.findUserByEmailOrUsername(emailNormalized);
@@ -200,9 +202,9 @@ export class AuthService {
         return { success: false, message: 'Usuário inativo. Entre em contato com o administrador.' };
       }
 
-      this.updateLastLogin(user.num_id);
       const session = userToSession(user);
       this.setSession(session);
+      this.updateLastLogin(user.num_id);
 
       return { success: true, user: sanitizeUser(user), message: 'Login realizado com sucesso!' };
     } catch (error) {
@@ -211,6 +213,32 @@ export class AuthService {
     }
   }
 
+  // ==================== AUTORIZAÇÃO ====================
+  /**
+   * Confere as credenciais de quem autoriza uma operação (ex: estorno)
+   * sem trocar a sessão atual do terminal
+   * @param roles Papéis aceitos para autorizar
+   */
+  authorize(dto: LoginDto, roles: readonly UserRole[]): LoginResponse {
+    try {
+      const user = this.findUserByEmailOrUsername(dto.desc_email_or_username);
+      if (!user || !this.verifyPassword(dto.desc_password, user.desc_password_hash)) {
+        return { success: false, message: 'Usuário ou senha do autorizador incorretos' };
+      }
+      if (!isUserActive(user)) {
+        return { success: false, message: 'Autorizador inativo' };
+      }
+      if (!roles.includes(user.desc_role)) {
+        return { success: false, message: 'Usuário sem permissão para autorizar esta operação' };
+      }
+
+      return { success: true, user: sanitizeUser(user) };
+    } catch (error) {
+      console.error('❌ Erro ao verificar autorização:', error);
+      return { success: false, message: 'Erro ao verificar autorização. Tente novamente.' };
+    }
+  }
+
   // ==================== LOGOUT ====================
   logout(redirectToLogin: boolean = true): void {
     this.clearSession();
@@ -226,6 +254,7 @@ export class AuthService {
         localStorage.setItem(USER_CONSTANTS.SESSION_STORAGE_KEY, JSON.stringify(session));
       }
       this.currentSessionSignal.set(session);
+      this.dbService.setAuditContext({ userId: session.num_user_id, username: session.desc_username });
     } catch (error) {
       console.error('❌ Erro ao salvar sessão:', error);
     }
@@ -237,6 +266,7 @@ export class AuthService {
         localStorage.removeItem(USER_CONSTANTS.SESSION_STORAGE_KEY);
       }
       this.currentSessionSignal.set(null);
+      this.dbService.setAuditContext({ userId: null, username: null, origin: null });
     } catch (error) {
       console.error('❌ Erro ao limpar sessão:', error);
     }
@@ -256,6 +286,7 @@ export class AuthService {
         return;
       }
       this.currentSessionSignal.set(session);
+      this.dbService.setAuditContext({ userId: session.num_user_id, username: session.desc_username });
       console.log('✅ Sessão restaurada:', session.desc_username);
     } catch (error) {
       console.error('❌ Erro ao restaurar sessão:', error);
@@ -266,8 +297,7 @@ export class AuthService {
   // ==================== QUERIES E SUPORTE ====================
   private usernameExists(username: string): boolean {
     try {
-      const result = this.dbService.executeQuery('SELECT num_id FROM prd_users WHERE LOWER(desc_username) = LOWER(?) LIMIT 1', [username.trim()]);
-      return result.length > 0;
+      return this.userRepository.usernameExists(username);
     } catch (error) {
       console.error('❌ Erro ao verificar username:', error);
       return false;
@@ -276,8 +306,7 @@ export class AuthService {
 
   private emailExists(email: string): boolean {
     try {
-      const result = this.dbService.executeQuery('SELECT num_id FROM prd_users WHERE LOWER(desc_email) = LOWER(?) LIMIT 1', [email.trim()]);
-      return result.length > 0;
+      return this.userRepository.emailExists(email);
     } catch (error) {
       console.error('❌ Erro ao verificar email:', error);
       return false;
@@ -286,9 +315,7 @@ export class AuthService {
 
   private getUserById(id: number): User | null {
     try {
-      const result = this.dbService.executeQuery('SELECT * FROM prd_users WHERE num_id = ? LIMIT 1', [id]);
-      if (result.length === 0) return null;
-      return this.mapToUser(result[0]);
+      return this.userRepository.findById(id);
     } catch (error) {
       console.error('❌ Erro ao buscar usuário:', error);
       return null;
@@ -297,10 +324,7 @@ export class AuthService {
 
   private findUserByEmailOrUsername(emailOrUsername: string): User | null {
     try {
-      const input = emailOrUsername.trim().toLowerCase();
-      const result = this.dbService.executeQuery('SELECT * FROM prd_users WHERE LOWER(desc_email) = ? OR LOWER(desc_username) = ? LIMIT 1', [input, input]);
-      if (result.length === 0) return null;
-      return this.mapToUser(result[0]);
+      return this.userRepository.findByEmailOrUsername(emailOrUsername);
     } catch (error) {
       console.error('❌ Erro ao buscar usuário:', error);
       return null;
@@ -309,25 +333,12 @@ export class AuthService {
 
   private updateLastLogin(userId: number): void {
     try {
-      this.dbService.executeRun('UPDATE prd_users SET dt_last_login_at = ? WHERE num_id = ?', [new Date().toISOString(), userId]);
+      this.userRepository.updateLastLogin(userId);
     } catch (error) {
       console.error('❌ Erro ao atualizar último login:', error);
     }
   }
 
-  private mapToUser(row: any): User {
-    return {
-      num_id: Number(row.num_id),
-      desc_username: row.desc_username,
-      desc_email: row.desc_email,
-      desc_password_hash: row.desc_password_hash,
-      desc_role: row.desc_role as UserRole,
-      int_user_active: Number(row.int_user_active ?? 1),
-      dt_created_at: row.dt_created_at,
-      dt_last_login_at: row.dt_last_login_at,
-    };
-  }
-
   // ==================== HASH (SIMPLIFICADO) ====================
   private hashPassword(password: string): string {
     const salt = 'blackbeer_salt_2025';
@@ -390,24 +401,22 @@ export class AuthService {
       return false;
     }
 
-    return this.dbService.toggleUserActive(userId, active);
+    try {
+      this.userRepository.setActive(userId, active);
+      console.log(`✅ Usuário ${userId} ${active ? 'ativado' : 'desativado'}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Erro ao alterar status do usuário:', error);
+      return false;
+    }
   }
 
   /**
    * Retorna lista de usuários (sem senha)
    * Para uso no painel de gestão
    */
-  getUsuariosList(): Omit<User, 'desc_password_hash'>[] {
-    const usuarios = this.listarUsuarios();
-    return usuarios.map((u: any) => ({
-      num_id: Number(u.num_id),
-      desc_username: u.desc_username,
-      desc_email: u.desc_email,
-      desc_role: u.desc_role as UserRole,
-      int_user_active: Number(u.int_user_active ?? 1),
-      dt_created_at: u.dt_created_at,
-      dt_last_login_at: u.dt_last_login_at,
-    }));
+  getUsuariosList(): UserSummary[] {
+    return this.listarUsuarios();
   }
 
   // ==================== GESTÃO DE EMPRESAS ====================
@@ -415,14 +424,14 @@ export class AuthService {
   /**
    * Retorna lista de todas as empresas
    */
-  getEmpresasList(): any[] {
+  getEmpresasList(): BusinessDisplay[] {
     if (!this.dbService.isDbReady()) {
       console.warn('⚠️ Banco de dados ainda não está pronto.');
       return [];
     }
 
     try {
-      const empresas = this.dbService.getAllEmpresas();
+      const empresas = this.businessRepository.findAll();
       console.log('✅ Empresas listadas:', empresas.length);
       return empresas;
     } catch (error) {
@@ -434,12 +443,17 @@ export class AuthService {
   /**
    * Busca empresa por ID
    */
-  getEmpresaById(id: number): any | null {
+  getEmpresaById(id: number): BusinessDisplay | null {
     if (!this.dbService.isDbReady()) {
       return null;
     }
 
-    return this.dbService.getEmpresaById(id);
+    try {
+      return this.businessRepository.findById(id);
+    } catch (error) {
+      console.error('❌ Erro ao buscar empresa:', error);
+      return null;
+    }
   }
 
   /**
@@ -459,19 +473,30 @@ export class AuthService {
       return { success: false, message: 'Sistema não está pronto. Aguarde...' };
     }
 
-    // Verifica se CNPJ já existe
-    const existingEmpresa = this.dbService.getEmpresaByCnpj(empresaData.cnpj);
-    if (existingEmpresa) {
-      return { success: false, message: 'CNPJ já cadastrado no sistema.' };
-    }
-
-    const empresaId = this.dbService.createEmpresa(empresaData);
+    try {
+      // Verifica se CNPJ já existe
+      const existingEmpresa = this.businessRepository.findByCnpj(empresaData.cnpj);
+      if (existingEmpresa) {
+        return { success: false, message: 'CNPJ já cadastrado no sistema.' };
+      }
 
-    if (empresaId) {
+      const empresaId = this.businessRepository.create({
+        desc_razao_social: empresaData.razaoSocial,
+        desc_cnpj: empresaData.cnpj,
+        desc_endereco: empresaData.endereco,
+        desc_cep: empresaData.cep,
+        desc_cidade: empresaData.cidade,
+        desc_estado: empresaData.estado,
+        desc_responsavel_empresa: empresaData.responsavelEmpresa,
+        num_gestor_empresa: empresaData.gestorEmpresa || null
+      });
+
+      console.log('✅ Empresa criada com sucesso - ID:', empresaId);
       return { success: true, empresaId, message: 'Empresa criada com sucesso!' };
+    } catch (error) {
+      console.error('❌ Erro ao criar empresa:', error);
+      return { success: false, message: 'Erro ao criar empresa. Tente novamente.' };
     }
-
-    return { success: false, message: 'Erro ao criar empresa. Tente novamente.' };
   }
 
   /**
@@ -492,18 +517,33 @@ export class AuthService {
       return { success: false, message: 'Sistema não está pronto. Aguarde...' };
     }
 
-    // Se estiver atualizando CNPJ, verifica se já existe em outra empresa
-    if (empresaData.cnpj) {
-      const existingEmpresa = this.dbService.getEmpresaByCnpj(empresaData.cnpj);
-      if (existingEmpresa && existingEmpresa.num_id !== id) {
-        return { success: false, message: 'CNPJ já cadastrado em outra empresa.' };
+    try {
+      // Se estiver atualizando CNPJ, verifica se já existe em outra empresa
+      if (empresaData.cnpj) {
+        const existingEmpresa = this.businessRepository.findByCnpj(empresaData.cnpj);
+        if (existingEmpresa && existingEmpresa.num_id !== id) {
+          return { success: false, message: 'CNPJ já cadastrado em outra empresa.' };
+        }
       }
-    }
 
-    const success = this.dbService.updateEmpresa(id, empresaData);
-
-    if (success) {
-      return { success: true, message: 'Empresa atualizada com sucesso!' };
+      const success = this.businessRepository.update(id, {
+        desc_razao_social: empresaData.razaoSocial,
+        desc_cnpj: empresaData.cnpj,
+        desc_endereco: empresaData.endereco,
+        desc_cep: empresaData.cep,
+        desc_cidade: empresaData.cidade,
+        desc_estado: empresaData.estado,
+        desc_responsavel_empresa: empresaData.responsavelEmpresa,
+        num_gestor_empresa: empresaData.gestorEmpresa,
+        int_active: empresaData.active === undefined ? undefined : (empresaData.active ? 1 : 0)
+      });
+
+      if (success) {
+        console.log('✅ Empresa atualizada com sucesso:', id);
+        return { success: true, message: 'Empresa atualizada com sucesso!' };
+      }
+    } catch (error) {
+      console.error('❌ Erro ao atualizar empresa:', error);
     }
 
     return { success: false, message: 'Erro ao atualizar empresa. Tente novamente.' };
@@ -517,7 +557,14 @@ export class AuthService {
       return false;
     }
 
-    return this.dbService.toggleEmpresaActive(empresaId, active);
+    try {
+      this.businessRepository.setActive(empresaId, active);
+      console.log(`✅ Empresa ${empresaId} ${active ? 'ativada' : 'desativada'}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Erro ao alterar status da empresa:', error);
+      return false;
+    }
   }
 
   /**
@@ -528,23 +575,29 @@ export class AuthService {
       return { success: false, message: 'Sistema não está pronto. Aguarde...' };
     }
 
-    const success = this.dbService.deleteEmpresa(id);
-
-    if (success) {
+    try {
+      this.businessRepository.delete(id);
+      console.log('✅ Empresa deletada com sucesso:', id);
       return { success: true, message: 'Empresa excluída com sucesso!' };
+    } catch (error) {
+      console.error('❌ Erro ao deletar empresa:', error);
+      return { success: false, message: 'Erro ao excluir empresa. Tente novamente.' };
     }
-
-    return { success: false, message: 'Erro ao excluir empresa. Tente novamente.' };
   }
 
   /**
    * Retorna lista de usuários gestores para seleção
    */
-  getGestoresList(): any[] {
+  getGestoresList(): GestorOption[] {
     if (!this.dbService.isDbReady()) {
       return [];
     }
 
-    return this.dbService.getGestores();
+    try {
+      return this.userRepository.findGestores();
+    } catch (error) {
+      console.error('❌ Erro ao listar gestores:', error);
+      return [];
+    }
   }
 }
@@ -0,0 +1,261 @@
+import { Injectable, inject } from '@angular/core';
+import { DatabaseService } from './database';
+import { LATEST_SCHEMA_VERSION } from './db-migrations';
+import {
+  BACKUP_APP_NAME,
+  BACKUP_FORMAT_VERSION,
+  BackupManifest,
+  BackupTableDiff,
+  BackupValidationResult,
+  isBackupManifest
+} from '../models/backup.model';
+
+/**
+ * Cabeçalho obrigatório de todo arquivo SQLite 3 ("SQLite format 3\0")
+ */
+const SQLITE_HEADER = 'SQLite format 3\u0000';
+
+/**
+ * Tabelas sem as quais o arquivo não é um banco do Black Beer
+ */
+const REQUIRED_TABLES = ['prd_beer_types', 'prd_sales', 'config_settings', 'db_version'] as const;
+
+/**
+ * Service de backup e restauração completa do banco de dados
+ *
+ * EXPORTAÇÃO:
+ * - Arquivo .sqlite (binário exportado pelo sql.js)
+ * - Manifesto .json com versão do schema, contagem de registros e SHA-256
+ *
+ * IMPORTAÇÃO:
+ * 1. validateBackup(): cabeçalho, integrity_check, tabelas obrigatórias,
+ *    versão do schema, checksum do manifesto (se enviado) e diff de registros
+ * 2. restoreBackup(): substitui o banco ativo (somente após confirmação na UI)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BackupService {
+  private readonly dbService = inject(DatabaseService);
+
+  // ==================== EXPORTAÇÃO ====================
+
+  /**
+   * Exporta o banco atual e baixa o arquivo .sqlite e o manifesto .json
+   * @returns Manifesto gerado
+   */
+  public async exportBackup(): Promise<BackupManifest> {
+    await this.dbService.flushPersist();
+
+    const data = this.dbService.exportDatabase();
+    const baseName = `black-beer-backup-${this.formatTimestamp(new Date())}`;
+    const fileName = `${baseName}.sqlite`;
+
+    const manifest: BackupManifest = {
+      appName: BACKUP_APP_NAME,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      dbVersion: this.dbService.getDatabaseStats().dbVersion,
+      createdAt: new Date().toISOString(),
+      fileName,
+      sizeBytes: data.length,
+      checksumSha256: await this.sha256(data),
+      rowCounts: this.dbService.getTableRowCounts()
+    };
+
+    this.downloadFile(new Blob([data as BlobPart], { type: 'application/x-sqlite3' }), fileName);
+    this.downloadFile(
+      new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }),
+      `${baseName}.manifest.json`
+    );
+
+    console.log(`✅ Backup exportado: ${fileName} (${data.length} bytes)`);
+    return manifest;
+  }
+
+  // ==================== IMPORTAÇÃO ====================
+
+  /**
+   * Valida os arquivos selecionados para restauração
+   * Não altera o banco ativo.
+   *
+   * @param files Arquivo .sqlite e, opcionalmente, o manifesto .json
+   * @returns Resultado com erros, avisos e diff de registros
+   */
+  public async validateBackup(files: File[]): Promise<BackupValidationResult> {
+    const dbFile = files.find(file => !file.name.toLowerCase().endsWith('.json'));
+    const manifestFile = files.find(file => file.name.toLowerCase().endsWith('.json'));
+
+    const currentDbVersion = this.dbService.getDatabaseStats().dbVersion;
+    const result: BackupValidationResult = {
+      isValid: false,
+      errors: [],
+      warnings: [],
+      fileName: dbFile?.name ?? '',
+      sizeBytes: dbFile?.size ?? 0,
+      dbVersion: 0,
+      currentDbVersion,
+      manifest: null,
+      diff: [],
+      data: new Uint8Array()
+    };
+
+    if (!dbFile) {
+      result.errors.push('Selecione o arquivo .sqlite do backup.');
+      return result;
+    }
+
+    result.data = new Uint8Array(await dbFile.arrayBuffer());
+
+    // 1. Cabeçalho SQLite
+    if (!this.hasSqliteHeader(result.data)) {
+      result.errors.push('O arquivo selecionado não é um banco SQLite válido.');
+      return result;
+    }
+
+    // 2. Manifesto (opcional) e checksum
+    if (manifestFile) {
+      result.manifest = await this.readManifest(manifestFile, result.errors);
+
+      if (result.manifest) {
+        const checksum = await this.sha256(result.data);
+        if (checksum !== result.manifest.checksumSha256) {
+          result.errors.push('Checksum não confere com o manifesto: o arquivo foi alterado ou corrompido.');
+        }
+        if (result.manifest.fileName !== dbFile.name) {
+          result.warnings.push(`O manifesto se refere ao arquivo "${result.manifest.fileName}".`);
+        }
+      }
+    } else {
+      result.warnings.push('Manifesto não enviado: o checksum do arquivo não será verificado.');
+    }
+
+    // 3. Integridade, tabelas e versão do schema
+    try {
+      const inspection = this.dbService.inspectDatabaseFile(result.data);
+      result.dbVersion = inspection.dbVersion;
+
+      if (inspection.integrityCheck !== 'ok') {
+        result.errors.push(`Falha na verificação de integridade: ${inspection.integrityCheck}`);
+      }
+
+      const missingTables = REQUIRED_TABLES.filter(table => !inspection.tables.includes(table));
+      if (missingTables.length > 0) {
+        result.errors.push(`Tabelas obrigatórias ausentes: ${missingTables.join(', ')}`);
+      }
+
+      if (inspection.dbVersion > LATEST_SCHEMA_VERSION) {
+        result.errors.push(
+          `O backup está na versão ${inspection.dbVersion}, mais nova que a suportada pelo aplicativo (${LATEST_SCHEMA_VERSION}).`
+        );
+      } else if (inspection.dbVersion < currentDbVersion) {
+        result.warnings.push(
+          `O backup está na versão ${inspection.dbVersion} e será atualizado para a versão ${LATEST_SCHEMA_VERSION} após a restauração.`
+        );
+      }
+
+      if (result.manifest && result.manifest.dbVersion !== inspection.dbVersion) {
+        result.errors.push('A versão informada no manifesto não confere com a do arquivo.');
+      }
+
+      result.diff = this.buildDiff(this.dbService.getTableRowCounts(), inspection.rowCounts);
+    } catch (error) {
+      console.error('❌ Erro ao inspecionar backup:', error);
+      result.errors.push('Não foi possível abrir o arquivo como banco de dados.');
+    }
+
+    result.isValid = result.errors.length === 0;
+    return result;
+  }
+
+  /**
+   * Substitui o banco atual pelo backup validado
+   * @returns true se o banco restaurado está na versão atual do schema
+   */
+  public async restoreBackup(validation: BackupValidationResult): Promise<boolean> {
+    if (!validation.isValid) {
+      throw new Error('O backup não passou na validação e não pode ser restaurado.');
+    }
+
+    return this.dbService.replaceDatabase(validation.data);
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  /**
+   * Lê e valida o manifesto JSON
+   * Adiciona erros ao array informado e retorna null se inválido
+   */
+  private async readManifest(file: File, errors: string[]): Promise<BackupManifest | null> {
+    try {
+      const parsed = JSON.parse(await file.text());
+
+      if (!isBackupManifest(parsed)) {
+        errors.push('Manifesto em formato inválido.');
+        return null;
+      }
+      if (parsed.appName !== BACKUP_APP_NAME) {
+        errors.push('O manifesto não pertence a um backup do Black Beer.');
+        return null;
+      }
+      if (parsed.formatVersion > BACKUP_FORMAT_VERSION) {
+        errors.push('O manifesto foi gerado por uma versão mais nova do aplicativo.');
+        return null;
+      }
+      return parsed;
+    } catch {
+      errors.push('Não foi possível ler o manifesto (JSON inválido).');
+      return null;
+    }
+  }
+
+  /**
+   * Compara contagens de registros (banco atual × backup) tabela a tabela
+   */
+  private buildDiff(current: Record<string, number>, backup: Record<string, number>): BackupTableDiff[] {
+    const tableNames = Array.from(new Set([...Object.keys(current), ...Object.keys(backup)])).sort();
+
+    return tableNames.map(tableName => {
+      const currentRows = current[tableName] ?? 0;
+      const backupRows = backup[tableName] ?? 0;
+      return { tableName, currentRows, backupRows, difference: backupRows - currentRows };
+    });
+  }
+
+  private hasSqliteHeader(data: Uint8Array): boolean {
+    if (data.length < SQLITE_HEADER.length) return false;
+    const header = String.fromCharCode(...data.subarray(0, SQLITE_HEADER.length));
+    return header === SQLITE_HEADER;
+  }
+
+  /**
+   * SHA-256 em hexadecimal (Web Crypto)
+   */
+  private async sha256(data: Uint8Array): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data as BufferSource);
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /**
+   * Formata data para nome de arquivo (AAAAMMDD-HHmm)
+   */
+  private formatTimestamp(date: Date): string {
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  }
+
+  private downloadFile(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.style.display = 'none';
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+  }
+}
@@ -1,6 +1,8 @@
 import { Injectable, inject, signal, effect } from '@angular/core';
 import { DatabaseService } from './database';
 import { ClientConfig } from '../models/client-config.model';
+import { PixMerchant, isPixMerchantConfigured, normalizePixKey } from '../models/pix.model';
+import { DEFAULT_RECEIPT_WIDTH, ReceiptPaperWidth, isReceiptPaperWidth } from '../models/receipt.model';
 
 /**
  * Service para gerenciar configurações do cliente (white-label)
@@ -70,6 +72,10 @@ export class ClientConfigService {
         desc_logo_base64: row.desc_logo_base64 || undefined,
         desc_logo_mime_type: row.desc_logo_mime_type || undefined,
         desc_logo_file_name: row.desc_logo_file_name || undefined,
+        desc_pix_key: row.desc_pix_key || undefined,
+        desc_pix_merchant_name: row.desc_pix_merchant_name || undefined,
+        desc_pix_merchant_city: row.desc_pix_merchant_city || undefined,
+        num_receipt_width: row.num_receipt_width != null ? Number(row.num_receipt_width) : undefined,
         dt_updated_at: new Date(row.dt_updated_at)
       };
     } catch (error) {
@@ -226,6 +232,82 @@ export class ClientConfigService {
     }
   }
 
+  /**
+   * Recebedor PIX configurado (null se faltar chave, nome ou cidade)
+   * Lê do banco: o signal é sobrescrito pelo upload de logo sem os campos PIX.
+   */
+  getPixMerchant(): PixMerchant | null {
+    const config = this.getConfig();
+    const merchant = {
+      key: config?.desc_pix_key,
+      name: config?.desc_pix_merchant_name || config?.desc_company_name,
+      city: config?.desc_pix_merchant_city
+    };
+    return isPixMerchantConfigured(merchant) ? merchant : null;
+  }
+
+  /**
+   * Salva o recebedor PIX (chave, nome e cidade)
+   * Campos vazios removem a configuração e desativam o QR Code.
+   */
+  updatePixConfig(merchant: PixMerchant): void {
+    try {
+      const key = normalizePixKey(merchant.key) || null;
+      const name = merchant.name.trim() || null;
+      const city = merchant.city.trim() || null;
+      const now = new Date().toISOString();
+
+      this.db.executeRun(
+        `INSERT INTO config_client (num_id, desc_pix_key, desc_pix_merchant_name, desc_pix_merchant_city, dt_updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(num_id) DO UPDATE SET
+           desc_pix_key = excluded.desc_pix_key,
+           desc_pix_merchant_name = excluded.desc_pix_merchant_name,
+           desc_pix_merchant_city = excluded.desc_pix_merchant_city,
+           dt_updated_at = excluded.dt_updated_at`,
+        [this.CONFIG_ID, key, name, city, now]
+      );
+
+      this.loadConfig();
+    } catch (error) {
+      console.error('Erro ao salvar configuração PIX:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Largura da bobina da impressora de recibos (padrão: 80 mm)
+   */
+  getReceiptWidth(): ReceiptPaperWidth {
+    const width = this.getConfig()?.num_receipt_width;
+    return isReceiptPaperWidth(width) ? width : DEFAULT_RECEIPT_WIDTH;
+  }
+
+  /**
+   * Salva a largura da bobina da impressora de recibos
+   */
+  updateReceiptWidth(width: ReceiptPaperWidth): void {
+    if (!isReceiptPaperWidth(width)) {
+      throw new Error('Largura de bobina inválida. Use 58 ou 80 mm.');
+    }
+
+    try {
+      this.db.executeRun(
+        `INSERT INTO config_client (num_id, num_receipt_width, dt_updated_at)
+         VALUES (?, ?, ?)
+         ON CONFLICT(num_id) DO UPDATE SET
+           num_receipt_width = excluded.num_receipt_width,
+           dt_updated_at = excluded.dt_updated_at`,
+        [this.CONFIG_ID, width, new Date().toISOString()]
+      );
+
+      this.loadConfig();
+    } catch (error) {
+      console.error('Erro ao salvar largura da bobina:', error);
+      throw error;
+    }
+  }
+
   /**
    * Obtém a URL da logo (data URL)
    */
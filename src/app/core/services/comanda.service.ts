@@ -1,7 +1,10 @@
 // src/app/core/services/comanda.service.ts
 import { Injectable, inject } from '@angular/core';
-import { DatabaseService } from './database';
+import { ComandaRepository } from '../repositories/comanda.repository';
+import { ServiceChargeRepository } from '../repositories/service-charge.repository';
 import { Comanda, ComandaStatus, ComandaWithItems } from '../models/comanda.model';
+import { PaymentInput, validatePayments } from '../models/payment.model';
+import { ComandaClosingInput, validateComandaClosing } from '../models/service-charge.model';
 
 /**
  * Serviço de negócio para gerenciamento de comandas
@@ -11,14 +14,15 @@ import { Comanda, ComandaStatus, ComandaWithItems } from '../models/comanda.mode
   providedIn: 'root'
 })
 export class ComandaService {
-  private readonly dbService = inject(DatabaseService);
+  private readonly comandaRepository = inject(ComandaRepository);
+  private readonly serviceChargeRepository = inject(ServiceChargeRepository);
 
   /**
    * Lista todas as comandas disponíveis para uso
    * @returns Array de comandas com status 'disponivel'
    */
   public getAvailableComandas(): Comanda[] {
-    return this.dbService.getComandasByStatus(ComandaStatus.DISPONIVEL);
+    return this.comandaRepository.findByStatus(ComandaStatus.DISPONIVEL);
   }
 
   /**
@@ -26,7 +30,7 @@ export class ComandaService {
    * @returns Array de comandas com status 'em_uso'
    */
   public getInUseComandas(): Comanda[] {
-    return this.dbService.getComandasByStatus(ComandaStatus.EM_USO);
+    return this.comandaRepository.findByStatus(ComandaStatus.EM_USO);
   }
 
   /**
@@ -34,7 +38,7 @@ export class ComandaService {
    * @returns Array de comandas com status 'aguardando_pagamento'
    */
   public getPendingPaymentComandas(): Comanda[] {
-    return this.dbService.getComandasByStatus(ComandaStatus.AGUARDANDO_PAGAMENTO);
+    return this.comandaRepository.findByStatus(ComandaStatus.AGUARDANDO_PAGAMENTO);
   }
 
   /**
@@ -43,7 +47,7 @@ export class ComandaService {
    * @throws Error se comanda não estiver disponível
    */
   public openComanda(numero: number): void {
-    const comanda = this.dbService.getComandaByNumero(numero);
+    const comanda = this.comandaRepository.findByNumero(numero);
 
     if (!comanda) {
       throw new Error(`Comanda ${numero} não encontrada`);
@@ -53,17 +57,28 @@ export class ComandaService {
       throw new Error(`Comanda ${numero} não está disponível (status: ${comanda.desc_status})`);
     }
 
-    this.dbService.openComanda(numero);
+    this.comandaRepository.open(numero);
+  }
+
+  /**
+   * Taxa de serviço sugerida no fechamento: a do evento da comanda
+   * (ou a taxa geral)
+   * @returns Percentual (0 = sem taxa configurada)
+   */
+  public getServiceRate(comandaId: number): number {
+    return this.serviceChargeRepository.findEffectiveRate(this.comandaRepository.findEventId(comandaId));
   }
 
   /**
    * Fecha uma comanda e calcula o total
    * @param comandaId ID da comanda a ser fechada
-   * @returns Valor total da comanda em reais
-   * @throws Error se comanda não estiver em uso
+   * @param charges Taxa de serviço (%) e gorjeta (R$) informadas no fechamento
+   * @param userId Atendente que fechou a comanda (recebe taxa e gorjeta nos relatórios)
+   * @returns Valor total da comanda em reais (itens + taxa + gorjeta)
+   * @throws Error se comanda não estiver em uso ou a taxa/gorjeta forem inválidas
    */
-  public closeComanda(comandaId: number): number {
-    const comanda = this.dbService.getComandaById(comandaId);
+  public closeComanda(comandaId: number, charges: ComandaClosingInput, userId: number): number {
+    const comanda = this.comandaRepository.findById(comandaId);
 
     if (!comanda) {
       throw new Error(`Comanda ID ${comandaId} não encontrada`);
@@ -74,25 +89,26 @@ export class ComandaService {
     }
 
     // Valida se há itens na comanda
-    const items = this.dbService.getComandaItems(comandaId);
+    const items = this.comandaRepository.findItems(comandaId);
     if (items.length === 0) {
       throw new Error(`Comanda ${comanda.num_numero} não possui itens para fechar`);
     }
 
-    this.dbService.closeComanda(comandaId);
+    validateComandaClosing(charges);
 
-    // Retorna o valor total calculado
-    const updatedComanda = this.dbService.getComandaById(comandaId);
-    return updatedComanda?.num_total_value ?? 0;
+    // Retorna o valor total calculado e gravado na comanda
+    return this.comandaRepository.close(comandaId, charges, userId);
   }
 
   /**
    * Confirma o pagamento de uma comanda e a libera para reutilização
    * @param comandaId ID da comanda
-   * @throws Error se comanda não estiver aguardando pagamento
+   * @param payments Formas de pagamento (a soma deve fechar itens + taxa + gorjeta)
+   * @param userId Usuário que recebeu o pagamento
+   * @throws Error se comanda não estiver aguardando pagamento ou os pagamentos não fecharem o total
    */
-  public confirmPayment(comandaId: number): void {
-    const comanda = this.dbService.getComandaById(comandaId);
+  public confirmPayment(comandaId: number, payments: PaymentInput[], userId: number): void {
+    const comanda = this.comandaRepository.findById(comandaId);
 
     if (!comanda) {
       throw new Error(`Comanda ID ${comandaId} não encontrada`);
@@ -102,7 +118,17 @@ export class ComandaService {
       throw new Error(`Comanda ${comanda.num_numero} não está aguardando pagamento`);
     }
 
-    this.dbService.confirmPayment(comandaId);
+    validatePayments(this.comandaRepository.calculateAmountDue(comandaId), payments);
+    this.comandaRepository.confirmPayment(comandaId, payments, userId);
+  }
+
+  /**
+   * txid do QR Code PIX impresso na via da comanda
+   * O mesmo txid é usado no pagamento em PIX, até a comanda ser liberada.
+   * @param comandaId ID da comanda
+   */
+  public getPixTxid(comandaId: number): string {
+    return this.comandaRepository.ensurePixTxid(comandaId);
   }
 
   /**
@@ -111,7 +137,7 @@ export class ComandaService {
    * @returns Comanda com array de itens ou null se não encontrada
    */
   public getComandaWithItems(comandaId: number): ComandaWithItems | null {
-    return this.dbService.getComandaWithItems(comandaId);
+    return this.comandaRepository.findWithItems(comandaId);
   }
 
   /**
@@ -120,7 +146,7 @@ export class ComandaService {
    * @returns true se todos os itens têm preços, false caso contrário
    */
   public validateComandaPricing(comandaId: number): boolean {
-    const items = this.dbService.getComandaItems(comandaId);
+    const items = this.comandaRepository.findItems(comandaId);
 
     if (items.length === 0) {
       return true; // Comanda vazia é válida
@@ -136,7 +162,7 @@ export class ComandaService {
    * @returns Comanda ou null se não encontrada
    */
   public getComandaByNumero(numero: number): Comanda | null {
-    return this.dbService.getComandaByNumero(numero);
+    return this.comandaRepository.findByNumero(numero);
   }
 
   /**
@@ -145,7 +171,7 @@ export class ComandaService {
    * @returns Comanda ou null se não encontrada
    */
   public getComandaById(id: number): Comanda | null {
-    return this.dbService.getComandaById(id);
+    return this.comandaRepository.findById(id);
   }
 
   /**
@@ -153,6 +179,6 @@ export class ComandaService {
    * @returns Array com todas as comandas
    */
   public getAllComandas(): Comanda[] {
-    return this.dbService.getAllComandas();
+    return this.comandaRepository.findAll();
   }
 }
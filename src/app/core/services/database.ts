@@ -1,12 +1,113 @@
 // src/app/core/services/database.ts
 import { inject, Injectable, PLATFORM_ID, signal } from '@angular/core';
 import initSqlJs, { type Database } from 'sql.js';
-import { BeerType, Sale } from '../models/beer.model';
-import { FullReport, SalesSummary, SalesByCupSize, SalesByBeerType } from '../models/report.model';
+import { DatabaseFileInspection } from '../models/backup.model';
 import { isPlatformBrowser } from '@angular/common';
+import {
+  DbStorageBackend,
+  IndexedDbStorageBackend,
+  LOCAL_STORAGE_QUOTA_BYTES,
+  LocalStorageBackend,
+  StorageUsage,
+  createDefaultStorageBackend,
+  describeStorageError,
+  estimateStorage,
+  requestPersistentStorage,
+  storageLevel
+} from './db-storage';
+import {
+  BASE_SCHEMA_VERSION,
+  DB_MIGRATIONS,
+  DbMigration,
+  LATEST_SCHEMA_VERSION,
+  readSchemaVersion,
+  writeSchemaVersion
+} from './db-migrations';
+import {
+  DEFAULT_SNAPSHOT_CONFIG,
+  DbSnapshotStore,
+  SnapshotConfig,
+  SnapshotInfo,
+  SnapshotKind,
+  createSnapshotBackend,
+  dueSnapshotKind
+} from './db-snapshots';
+import { DEFAULT_STREAM_CHUNK_SIZE, DbReadReplica } from './db-read-replica';
+import { DbReplicaStatement } from './db-read-replica-protocol';
+import { DbTabCoordinator, DbTabRole } from './db-tab-coordinator';
+import {
+  AUDIT_CONTEXT_SQL,
+  AUDIT_PAUSE_SQL,
+  AuditContext,
+  EMPTY_AUDIT_CONTEXT,
+  auditContextParams,
+  dropAuditTriggers,
+  installAuditTriggers,
+  pruneAuditLog
+} from './db-audit';
+import {
+  DbCipher,
+  DbEncryptionState,
+  DbKeyringStore,
+  DbUnlockedKeys,
+  EncryptedStorageBackend,
+  isEncryptionSupported
+} from './db-crypto';
+import { createArchiveBackend, isArchiveSupported } from './db-archive';
+import { buildArchiveInserts, dropArchiveView, installArchiveView } from './db-archive-view';
+import { SalesArchiveFile } from '../models/archive.model';
+import { QueryConsoleResult, normalizeReadOnlyQuery } from '../models/query-console.model';
+
+const DB_STORAGE_KEY = 'black_beer_sqlite_db_v12'; // Chave fixa: o schema evolui por migrations
+const DB_VERSION = LATEST_SCHEMA_VERSION; // Versionamento do schema (última migration)
 
-const DB_STORAGE_KEY = 'black_beer_sqlite_db_v12'; // v12 tabela prd_empresa
-const DB_VERSION = 12; // Versionamento do schema
+/**
+ * Chave do backup automático gravado antes de aplicar migrations
+ */
+const DB_MIGRATION_BACKUP_KEY = `${DB_STORAGE_KEY}_pre_migration`;
+
+/**
+ * Chave da cópia do banco gravada antes de restaurar um backup importado
+ */
+const DB_IMPORT_BACKUP_KEY = `${DB_STORAGE_KEY}_pre_import`;
+
+/**
+ * Chave do keyring da criptografia em repouso (gravado fora da criptografia)
+ */
+const DB_KEYRING_KEY = `${DB_STORAGE_KEY}_keyring`;
+
+/**
+ * Janela de agrupamento das gravações (ms)
+ * Várias escritas seguidas geram uma única persistência
+ */
+const PERSIST_DEBOUNCE_MS = 400;
+
+/**
+ * Atraso máximo de uma gravação pendente (ms)
+ * Garante persistência mesmo com escritas contínuas (ex: evento movimentado)
+ */
+const PERSIST_MAX_DELAY_MS = 3000;
+
+/**
+ * Intervalo de verificação dos snapshots automáticos (ms)
+ */
+const SNAPSHOT_CHECK_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Intervalo mínimo entre verificações de uso do armazenamento após gravações (ms)
+ */
+const STORAGE_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Arquivo WebAssembly do sql.js (servido de src/assets)
+ */
+const SQL_WASM_FILE = 'sql-wasm.wasm';
+
+/**
+ * Tempo sem consultas de relatório após o qual a réplica do worker é
+ * encerrada, liberando a memória da cópia do banco (ms)
+ */
+const REPLICA_IDLE_MS = 2 * 60 * 1000;
 
 /**
  * Constantes para validação de emails
@@ -42,6 +143,12 @@ declare global {
  * - Controle de estoque com alertas personalizados
  * - White-label (logo e nome da empresa)
  * - Relatórios detalhados com filtros por data e evento
+ * - Persistência binária em IndexedDB com gravações agrupadas (debounce)
+ * - Relatórios em uma cópia somente leitura no Web Worker (sob demanda)
+ * - Uma única aba grava o banco; as demais ficam somente leitura (Web Locks)
+ * - Auditoria de todas as alterações (usuário, tela, antes/depois)
+ * - Criptografia opcional em repouso (AES-GCM, senha do admin)
+ * - Monitoramento da cota de armazenamento e arquivos de vendas antigas
  *
  * @version 11.0.0
  */
@@ -54,8 +161,141 @@ export class DatabaseService {
   private platformId = inject(PLATFORM_ID);
   private SQL: any = null;
 
+  /**
+   * Backend de persistência (IndexedDB por padrão)
+   * storage cifra/decifra os binários; rawStorage é o meio físico
+   */
+  private rawStorage: DbStorageBackend | null = null;
+  private storage: EncryptedStorageBackend | null = null;
+
+  /**
+   * Criptografia em repouso: cifra compartilhada pelo banco e pelos snapshots
+   */
+  private readonly cipher = new DbCipher();
+  private keyring: DbKeyringStore | null = null;
+  private unlockWaiter: (() => void) | null = null;
+
+  /**
+   * Estado da criptografia: 'locked' aguarda a senha na tela de desbloqueio
+   */
+  public readonly encryptionState = signal<DbEncryptionState>('disabled');
+
+  /**
+   * Controle das gravações agrupadas (debounce)
+   */
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingSince: number | null = null;
+  private persistInFlight: Promise<void> | null = null;
+  private lastPersistedSize = 0;
+
+  /**
+   * Profundidade de transações abertas por transaction()
+   * 0 = fora de transação; > 1 = transações aninhadas (SAVEPOINT)
+   */
+  private transactionDepth = 0;
+
+  /**
+   * Snapshots locais (IndexedDB separado do banco principal)
+   */
+  private snapshotStore: DbSnapshotStore | null = null;
+  private snapshotTimer: ReturnType<typeof setInterval> | null = null;
+  private changedSinceSnapshot = true;
+
+  /**
+   * Réplica somente leitura do banco em um Web Worker (db-read-replica.worker.ts)
+   *
+   * O banco da thread principal é o único autoritativo: escritas,
+   * persistência e snapshots usam só ele. A réplica é uma cópia do binário
+   * para as consultas dos relatórios (queryAsync/streamQuery), carregada na
+   * primeira consulta e recarregada quando o banco mudou desde a cópia.
+   * Não recebe escritas, então não diverge do banco principal.
+   * Sem consultas por REPLICA_IDLE_MS o worker é encerrado (libera a cópia).
+   * null = réplica não carregada.
+   */
+  private replica: DbReadReplica | null = null;
+  private replicaLoading: Promise<DbReadReplica | null> | null = null;
+  private replicaIdleTimer: ReturnType<typeof setTimeout> | null = null;
+  private replicaActiveQueries = 0;
+  private replicaUnavailable = false;   // Sem suporte a Web Worker ou falha na carga
+
+  /**
+   * Versão do conteúdo do banco em memória (incrementa a cada alteração)
+   * e versão copiada para a réplica
+   */
+  private dataVersion = 0;
+  private replicaDataVersion = -1;
+
+  /**
+   * Coordenação entre abas (uma única aba grava; as demais só leem)
+   */
+  private tabCoordinator: DbTabCoordinator | null = null;
+
+  /**
+   * Usuário e tela registrados na auditoria das próximas alterações
+   */
+  private auditContext: AuditContext = { ...EMPTY_AUDIT_CONTEXT };
+
+  /**
+   * Arquivos de vendas (IndexedDB próprio, cifrado como o banco)
+   * e os arquivos carregados nos relatórios (temp.archived_sales)
+   */
+  private archiveStorage: EncryptedStorageBackend | null = null;
+  private readonly loadedArchives = new Map<string, SalesArchiveFile>();
+  private archiveColumns: string[] = [];
+  private lastStorageCheck = 0;
+
+  /**
+   * Papel desta aba: 'reader' bloqueia escritas (outra aba grava o banco)
+   */
+  public readonly tabRole = signal<DbTabRole>('writer');
+
+  /**
+   * Banco desta aba ficou desatualizado com alterações não gravadas
+   * (somente em navegadores sem Web Locks, onde todas as abas gravam).
+   * As escritas ficam bloqueadas até recarregar a página.
+   */
+  public readonly isStale = signal<boolean>(false);
+
+  /**
+   * Momento da última escrita bloqueada nesta aba (aviso na interface)
+   */
+  public readonly blockedWriteAt = signal<Date | null>(null);
+
+  /**
+   * Incrementado quando o banco é recarregado com alterações de outra aba
+   * Telas de consulta observam este signal para atualizar os dados.
+   */
+  public readonly remoteChanges = signal<number>(0);
+
+  /**
+   * Último erro de persistência (null = última gravação OK)
+   */
+  public readonly persistError = signal<string | null>(null);
+
+  /**
+   * Momento da última gravação bem-sucedida
+   */
+  public readonly lastPersistedAt = signal<Date | null>(null);
+
+  /**
+   * Último uso do armazenamento medido (atualizado após as gravações)
+   */
+  public readonly storageUsage = signal<StorageUsage | null>(null);
+
+  /**
+   * Chaves dos arquivos de vendas carregados nos relatórios
+   */
+  public readonly loadedArchiveKeys = signal<string[]>([]);
+
+  /**
+   * Erro da última atualização de schema (null = schema atualizado)
+   * Quando preenchido, o banco foi mantido na versão anterior (backup restaurado)
+   */
+  public readonly migrationError = signal<string | null>(null);
+
   constructor() {
     if (isPlatformBrowser(this.platformId)) {
+      this.registerFlushListeners();
       this.initializeDatabase();
     }
   }
@@ -71,44 +311,98 @@ export class DatabaseService {
         locateFile: (file: string) => `assets/${file}`
       });
 
-      // Tentar carregar banco existente V10
-      const savedDb = localStorage.getItem(DB_STORAGE_KEY);
+      this.rawStorage = createDefaultStorageBackend();
+      this.storage = new EncryptedStorageBackend(this.rawStorage, this.cipher);
+      this.keyring = new DbKeyringStore(this.rawStorage, DB_KEYRING_KEY);
+      if (isArchiveSupported()) {
+        this.archiveStorage = new EncryptedStorageBackend(createArchiveBackend(), this.cipher);
+      }
+      requestPersistentStorage().then(granted =>
+        console.log(`💾 Armazenamento persistente: ${granted ? 'concedido' : 'não concedido'}`)
+      );
+
+      // Banco criptografado: aguarda a senha na tela de desbloqueio
+      await this.waitForUnlock();
+
+      // Define se esta aba grava o banco antes de carregá-lo
+      await this.startTabCoordination();
+
+      // Tentar carregar banco existente (migrando do localStorage se necessário)
+      const savedDb = await this.loadPersistedDatabase();
 
       if (!savedDb) {
         // Não há DB, criar novo
-        console.log('🔄 Criando novo banco de dados (versão 11)...');
+        console.log(`🔄 Criando novo banco de dados (versão ${DB_VERSION})...`);
         this.createNewDatabase();
       } else {
         // Carrega banco existente
-        const dbArray = this.stringToUint8Array(savedDb);
-        this.db = new this.SQL.Database(dbArray);
+        this.lastPersistedSize = savedDb.length;
+        this.db = new this.SQL.Database(savedDb);
 
         const currentVersion = this.getCurrentDbVersion();
         console.log(`📦 Banco de dados carregado. Versão: ${currentVersion}`);
 
-        // Validação do schema
-        await this.validateAndFixSchema();
+        // Atualização do schema (migrations pendentes)
+        await this.migrateSchema();
       }
 
+      // Triggers de auditoria e view dos relatórios (TEMP) do banco carregado
+      this.prepareLoadedDatabase();
+      this.applyAuditRetention();
       this.isDbReady.set(true);
+      this.startSnapshotScheduler();
+      void this.completePendingRotation();
+      void this.refreshStorageUsage();
     } catch (err) {
       console.error("❌ Erro na inicialização do banco:", err);
     }
   }
 
   /**
-   * Cria um novo banco de dados do zero com schema v10
+   * Cria um novo banco de dados do zero
+   * Schema base + migrations posteriores à versão base
    */
   private createNewDatabase(): void {
+    this.forgetLoadedArchives();
+
     this.db = new this.SQL.Database();
-    this.createSchemaV11();
+    this.createBaseSchema();
+    this.applyMigrations(this.getPendingMigrations(BASE_SCHEMA_VERSION));
     this.seedInitialData();
-    this.setStoredVersion(DB_VERSION);
     this.persist();
+    this.prepareLoadedDatabase();
+  }
+
+  /**
+   * Carrega o binário do banco do backend de armazenamento
+   *
+   * MIGRAÇÃO AUTOMÁTICA: se o backend ativo estiver vazio e existir um banco
+   * no formato antigo (base64 no localStorage), copia para o backend ativo
+   * e remove a entrada antiga.
+   */
+  private async loadPersistedDatabase(): Promise<Uint8Array | null> {
+    if (!this.storage) return null;
+
+    const saved = await this.storage.load(DB_STORAGE_KEY);
+    if (saved || this.rawStorage instanceof LocalStorageBackend) {
+      return saved;
+    }
+
+    const legacy = new LocalStorageBackend();
+    const legacyDb = await legacy.load(DB_STORAGE_KEY);
+    if (!legacyDb) return null;
+
+    console.log(`🔄 Migrando banco do localStorage para ${this.storage.name} (${legacyDb.length} bytes)...`);
+    await this.storage.save(DB_STORAGE_KEY, legacyDb);
+    await legacy.remove(DB_STORAGE_KEY);
+    console.log('✅ Migração de armazenamento concluída');
+
+    return legacyDb;
   }
 
   /**
-   * Cria o schema do banco de dados versão 10 (padronização de colunas)
+   * Cria o schema base do banco de dados (BASE_SCHEMA_VERSION)
+   * Alterações posteriores NÃO entram aqui: são migrations em db-migrations.ts
    *
    * CONVENÇÃO DE NOMENCLATURA:
    * - num_ → Colunas INTEGER e REAL
@@ -137,7 +431,7 @@ export class DatabaseService {
    * - prd_sales.num_comanda_id → prd_comandas.num_id (SET NULL)
    * - prd_sales.num_event_id → prd_events.num_id (SET NULL)
    */
-  private createSchemaV11(): void {
+  private createBaseSchema(): void {
     if (!this.db) return;
 
     const schema = `
@@ -311,11 +605,11 @@ export class DatabaseService {
         num_version INTEGER PRIMARY KEY
       );
 
-      INSERT INTO db_version (num_version) VALUES (${DB_VERSION});
+      INSERT INTO db_version (num_version) VALUES (${BASE_SCHEMA_VERSION});
     `;
 
     this.db.exec(schema);
-    console.log('✅ Schema V11 criado com sucesso');
+    console.log(`✅ Schema base v${BASE_SCHEMA_VERSION} criado com sucesso`);
     // Seed de comandas iniciais
     this.seedInitialComandas(10);
     // Cria admin padrão
@@ -375,19 +669,7 @@ export class DatabaseService {
    * Obtém a versão atual do banco de dados
    */
   private getCurrentDbVersion(): number {
-    if (!this.db) return 0;
-
-    try {
-      const result = this.db.exec('SELECT num_version FROM db_version LIMIT 1');
-      if (result.length > 0 && result[0].values.length > 0) {
-        return Number(result[0].values[0][0]);
-      }
-      return 0;
-    } catch (error) {
-      // Tabela db_version não existe, versão muito antiga
-      console.warn('⚠️ Tabela db_version não encontrada, assumindo versão 0');
-      return 0;
-    }
+    return this.db ? readSchemaVersion(this.db) : 0;
   }
 
   /**
@@ -434,8 +716,11 @@ export class DatabaseService {
       return;
     }
 
+    this.assertWritable();
+
     try {
       this.db.run(sql, params);
+      this.dataVersion++;
       this.persist();
     } catch (error) {
       console.error('❌ Erro ao executar comando:', error);
@@ -446,1826 +731,1491 @@ export class DatabaseService {
   }
 
   /**
-   * Persiste o banco de dados no localStorage
-   * Converte os dados binários para string base64
+   * Executa um bloco de operações como uma unidade atômica
+   *
+   * - Sucesso: COMMIT e uma única persistência ao final
+   * - Erro: ROLLBACK de tudo que o bloco alterou e o erro é relançado
+   * - Chamadas aninhadas usam SAVEPOINT: o erro interno desfaz apenas o
+   *   bloco interno (se capturado), a transação externa decide o COMMIT
+   *
+   * IMPORTANTE: o bloco deve ser síncrono (o sql.js é síncrono); não use
+   * await dentro dele.
+   *
+   * @param fn Bloco de operações (executeRun, executeQuery, etc.)
+   * @returns Valor retornado pelo bloco
    */
-  private persist(): void {
-    if (!this.db) return;
+  public transaction<T>(fn: () => T): T {
+    if (!this.db) {
+      throw new Error('Banco de dados não está inicializado');
+    }
+    this.assertWritable();
+
+    const isOuter = this.transactionDepth === 0;
+    const savepoint = `sp_${this.transactionDepth}`;
+
+    this.db.exec(isOuter ? 'BEGIN TRANSACTION' : `SAVEPOINT ${savepoint}`);
+    this.transactionDepth++;
 
     try {
-      const dbArray = this.db.export();
-      const dbString = this.uint8ArrayToString(dbArray);
-      localStorage.setItem(DB_STORAGE_KEY, dbString);
+      const result = fn();
+
+      this.transactionDepth--;
+      this.db.exec(isOuter ? 'COMMIT' : `RELEASE ${savepoint}`);
+
+      if (isOuter) {
+        this.persist();
+      }
+      return result;
     } catch (error) {
-      console.error('❌ Erro ao persistir banco de dados:', error);
+      this.transactionDepth--;
+      this.db.exec(isOuter ? 'ROLLBACK' : `ROLLBACK TO ${savepoint}; RELEASE ${savepoint}`);
+      this.dataVersion++;
+
+      console.error(`❌ Transação revertida${isOuter ? '' : ` (${savepoint})`}:`, error);
+      throw error;
     }
   }
 
   /**
-   * Obtém a versão do schema armazenada
+   * Executa uma query SELECT na réplica do worker, sem bloquear a interface
+   * A réplica é (re)carregada antes se o banco mudou desde a última cópia.
+   * Sem réplica disponível, executa na thread principal (executeQuery).
+   *
+   * @param sql Query SQL a ser executada
+   * @param params Parâmetros da query (opcional)
+   * @returns Array de objetos com os resultados
    */
-  private getStoredVersion(): number {
-    const versionKey = `${DB_STORAGE_KEY}_version`;
-    const version = localStorage.getItem(versionKey);
-    return version ? parseInt(version, 10) : 0;
+  public async queryAsync(sql: string, params?: (string | number | null)[]): Promise<any[]> {
+    const replica = await this.acquireReplica();
+    if (replica) {
+      try {
+        return await replica.query(sql, params);
+      } catch (error) {
+        console.warn('⚠️ Consulta no worker falhou, executando na thread principal:', error);
+      } finally {
+        this.releaseReplica();
+      }
+    }
+    return this.executeQuery(sql, params);
   }
 
   /**
-   * Armazena a versão do schema
-   */
-  private setStoredVersion(version: number): void {
-    const versionKey = `${DB_STORAGE_KEY}_version`;
-    localStorage.setItem(versionKey, version.toString());
+   * Executa uma query SELECT entregando o resultado em lotes
+   * Indicado para listas grandes (ex: todas as vendas de um evento): as
+   * linhas chegam aos poucos e nunca ficam todas em uma única mensagem.
+   *
+   * @param sql Query SQL a ser executada
+   * @param params Parâmetros da query (opcional)
+   * @param onChunk Chamado a cada lote de linhas
+   * @param chunkSize Linhas por lote
+   * @returns Total de linhas
+   */
+  public async streamQuery(
+    sql: string,
+    params: (string | number | null)[] | undefined,
+    onChunk: (rows: any[]) => void,
+    chunkSize: number = DEFAULT_STREAM_CHUNK_SIZE
+  ): Promise<number> {
+    const replica = await this.acquireReplica();
+    if (replica) {
+      let delivered = 0;
+      try {
+        return await replica.stream(sql, params, rows => {
+          delivered += rows.length;
+          onChunk(rows);
+        }, chunkSize);
+      } catch (error) {
+        // Lotes já entregues não podem ser repetidos
+        if (delivered > 0) throw error;
+        console.warn('⚠️ Streaming no worker falhou, executando na thread principal:', error);
+      } finally {
+        this.releaseReplica();
+      }
+    }
+
+    const rows = this.executeQuery(sql, params);
+    for (let i = 0; i < rows.length; i += chunkSize) {
+      onChunk(rows.slice(i, i + chunkSize));
+    }
+    return rows.length;
   }
 
   /**
-   * Converte Uint8Array para string base64
-   * Usa chunks para evitar "Maximum call stack size exceeded"
+   * Executa uma consulta do console SQL do admin (somente leitura)
+   *
+   * A consulta roda como subconsulta de um SELECT externo (um único comando,
+   * sem escrita) e com PRAGMA query_only ligado, na thread principal: o
+   * console vê o banco autoritativo, não a cópia dos relatórios.
+   *
+   * @param sql Consulta SELECT/WITH digitada pelo admin
+   * @param limit Máximo de linhas lidas
+   * @throws Error se a consulta não for somente leitura ou falhar
    */
-  private uint8ArrayToString = (arr: Uint8Array): string => {
-    const CHUNK_SIZE = 8192;
-    let result = '';
-    for (let i = 0; i < arr.length; i += CHUNK_SIZE) {
-      const chunk = arr.subarray(i, i + CHUNK_SIZE);
-      result += String.fromCharCode.apply(null, Array.from(chunk));
+  public executeReadOnlyQuery(sql: string, limit: number): QueryConsoleResult {
+    if (!this.db) {
+      throw new Error('Banco de dados não inicializado');
+    }
+
+    const query = normalizeReadOnlyQuery(sql);
+    const startedAt = performance.now();
+
+    this.db.exec('PRAGMA query_only = 1');
+    try {
+      // Quebra de linha antes do parêntese: um comentário no fim da consulta não o engole
+      const stmt = this.db.prepare(`SELECT * FROM (\n${query}\n) LIMIT ?`);
+      try {
+        stmt.bind([limit + 1]);
+        const columns = stmt.getColumnNames();
+        const rows: unknown[][] = [];
+        while (stmt.step()) {
+          rows.push(stmt.get());
+        }
+
+        return {
+          columns,
+          rows: rows.slice(0, limit),
+          truncated: rows.length > limit,
+          durationMs: Math.round(performance.now() - startedAt)
+        };
+      } finally {
+        stmt.free();
+      }
+    } finally {
+      this.db.exec('PRAGMA query_only = 0');
     }
-    return btoa(result);
-  };
+  }
 
   /**
-   * Converte string base64 para Uint8Array
+   * Prepara o banco recém-carregado (criação, migrations, restauração,
+   * recarga de outra aba): reinstala as triggers de auditoria e a view dos
+   * relatórios (TEMP) e marca a cópia da réplica como desatualizada.
    */
-  private stringToUint8Array = (str: string): Uint8Array =>
-    new Uint8Array(atob(str).split('').map(c => c.charCodeAt(0)));
+  private prepareLoadedDatabase(): void {
+    if (!this.db || !isPlatformBrowser(this.platformId)) return;
+
+    this.installSessionObjects();
+    this.dataVersion++;
+  }
 
   /**
-   * Limpa completamente o banco de dados e reinicia ao estado inicial
-   * Remove todos os dados mas mantém o schema v2
-   *
-   * @returns Promise<void>
+   * Instala os objetos TEMP da sessão: triggers de auditoria e view dos
+   * relatórios, com os arquivos de vendas já carregados
    */
-  public async clearDatabase(): Promise<void> {
+  private installSessionObjects(): void {
+    if (!this.db) return;
+
     try {
-      if (!this.db || !this.SQL) {
-        throw new Error('Banco de dados não está inicializado');
-      }
+      installAuditTriggers(this.db, this.auditContext);
+    } catch (error) {
+      console.error('❌ Erro ao instalar a auditoria do banco:', error);
+    }
+    this.installReportView();
+  }
 
-      // Fecha o banco atual
-      this.db.close();
+  /**
+   * Exporta o binário do banco da thread principal
+   * O db.export() do sql.js fecha e reabre a conexão, o que descarta os
+   * objetos TEMP: eles são reinstalados logo em seguida.
+   */
+  private exportBinary(db: Database): Uint8Array {
+    const data = db.export();
+    this.installSessionObjects();
+    return data;
+  }
 
-      // Remove do localStorage
-      localStorage.removeItem(DB_STORAGE_KEY);
-      localStorage.removeItem(`${DB_STORAGE_KEY}_version`);
+  /**
+   * Réplica carregada com o conteúdo atual do banco
+   * Carrega (ou recarrega) a cópia quando necessário.
+   * @returns null sem suporte a Web Worker ou se a carga falhar
+   */
+  private async acquireReplica(): Promise<DbReadReplica | null> {
+    if (!this.db || this.replicaUnavailable || !isPlatformBrowser(this.platformId)) return null;
 
-      // Cria novo banco limpo
-      this.createNewDatabase();
+    this.replicaActiveQueries++;
+    if (this.replica?.isReady && this.replicaDataVersion === this.dataVersion) {
+      return this.replica;
+    }
 
-      console.log('✅ Banco de dados limpo e reiniciado (versão 2)');
-    } catch (error) {
-      console.error('❌ Erro ao limpar banco de dados:', error);
-      throw error;
+    this.replicaLoading ??= this.loadReplica().finally(() => {
+      this.replicaLoading = null;
+    });
+    const replica = await this.replicaLoading;
+    if (!replica) {
+      this.replicaActiveQueries--;
     }
+    return replica;
   }
 
   /**
-   * Obtém estatísticas do banco de dados
-   * @returns Objeto com contadores de registros
+   * Libera a réplica após uma consulta e agenda o encerramento por ociosidade
    */
-  public getDatabaseStats(): {
-    totalSales: number;
-    totalBeerTypes: number;
-    hasSettings: boolean;
-    dbVersion: number;
-  } {
-    if (!this.db) {
-      return {
-        totalSales: 0,
-        totalBeerTypes: 0,
-        hasSettings: false,
-        dbVersion: 0
-      };
+  private releaseReplica(): void {
+    this.replicaActiveQueries = Math.max(0, this.replicaActiveQueries - 1);
+
+    if (this.replicaIdleTimer) {
+      clearTimeout(this.replicaIdleTimer);
     }
+    this.replicaIdleTimer = setTimeout(() => {
+      this.replicaIdleTimer = null;
+      if (this.replicaActiveQueries > 0 || !this.replica) return;
 
-    try {
-      const salesCount = this.executeQuery('SELECT COUNT(*) as count FROM prd_sales')[0]?.count || 0;
-      const beerTypesCount = this.executeQuery('SELECT COUNT(*) as count FROM prd_beer_types')[0]?.count || 0;
-      const settingsCount = this.executeQuery('SELECT COUNT(*) as count FROM config_settings')[0]?.count || 0;
-      const version = this.executeQuery('SELECT num_version FROM db_version LIMIT 1')[0]?.num_version || 0;
+      this.replica.terminate();
+      this.replica = null;
+      this.replicaDataVersion = -1;
+      console.log('ℹ️ Réplica dos relatórios encerrada por ociosidade');
+    }, REPLICA_IDLE_MS);
+  }
 
-      return {
-        totalSales: Number(salesCount),
-        totalBeerTypes: Number(beerTypesCount),
-        hasSettings: Number(settingsCount) > 0,
-        dbVersion: Number(version)
-      };
+  /**
+   * Copia o banco atual para a réplica do worker
+   */
+  private async loadReplica(): Promise<DbReadReplica | null> {
+    if (!this.db) return null;
+
+    if (!this.replica) {
+      this.replica = DbReadReplica.create();
+      if (!this.replica) {
+        this.replicaUnavailable = true;
+        console.log('ℹ️ Web Worker indisponível: relatórios executando na thread principal');
+        return null;
+      }
+    }
+
+    const replica = this.replica;
+    const version = this.dataVersion;
+    try {
+      const data = this.exportBinary(this.db);
+      await replica.load(new URL(`assets/${SQL_WASM_FILE}`, document.baseURI).href, data, this.loadedArchiveInserts());
+      this.replicaDataVersion = version;
+      console.log('✅ Cópia do banco carregada na réplica dos relatórios');
+      return replica;
     } catch (error) {
-      console.error('❌ Erro ao obter estatísticas:', error);
-      return {
-        totalSales: 0,
-        totalBeerTypes: 0,
-        hasSettings: false,
-        dbVersion: 0
-      };
+      // Sem réplica confiável: relatórios seguem na thread principal até recarregar a página
+      console.error('❌ Erro ao carregar réplica do banco no worker:', error);
+      if (this.replica === replica) {
+        this.replica = null;
+        this.replicaUnavailable = true;
+        replica.terminate();
+      }
+      return null;
     }
   }
 
   /**
-   * Gera relatório completo com filtros opcionais de data
-   * ATUALIZADO para trabalhar com IDs INTEGER
+   * Agenda a persistência do banco de dados
    *
-   * @param startDate Data inicial do filtro (opcional)
-   * @param endDate Data final do filtro (opcional)
-   * @returns Relatório completo com resumo e dados agregados
+   * As gravações são agrupadas: várias escritas em sequência geram uma única
+   * exportação do binário, no máximo a cada PERSIST_MAX_DELAY_MS.
+   * Dentro de transaction() não agenda nada: a persistência ocorre no COMMIT.
    */
-  public getFullReport(startDate?: Date, endDate?: Date, eventId?: number): FullReport {
-    if (!this.db) {
-      return {
-        summary: { num_total_sales: 0, num_total_volume_liters: 0 },
-        salesByCupSize: [],
-        salesByBeerType: []
-      };
-    }
+  private persist(): void {
+    if (!this.db || !this.storage || this.transactionDepth > 0) return;
 
-    // Construir WHERE clauses separadas para queries com e sem JOIN
-    let whereClauseSales = ''; // Para queries simples (prd_sales apenas)
-    let whereClauseJoin = '';  // Para queries com JOIN (prd_sales + prd_beer_types + config_sales)
-    const params: any[] = [];
-    const paramsJoin: any[] = [];
+    this.changedSinceSnapshot = true;
 
-    // Filtro de data inicial
-    if (startDate) {
-      whereClauseSales += ' WHERE dt_timestamp >= ?';
-      whereClauseJoin += ' WHERE s.dt_timestamp >= ?';
-      params.push(startDate.toISOString());
-      paramsJoin.push(startDate.toISOString());
+    const now = Date.now();
+    this.pendingSince ??= now;
+
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
     }
 
-    // Filtro de data final
-    if (endDate) {
-      const endOfDay = new Date(endDate);
-      endOfDay.setDate(endOfDay.getDate() + 1);
-      endOfDay.setSeconds(endOfDay.getSeconds() - 1);
+    const maxWait = Math.max(0, this.pendingSince + PERSIST_MAX_DELAY_MS - now);
+    this.persistTimer = setTimeout(() => {
+      void this.flushPersist();
+    }, Math.min(PERSIST_DEBOUNCE_MS, maxWait));
+  }
 
-      whereClauseSales += whereClauseSales ? ' AND dt_timestamp <= ?' : ' WHERE dt_timestamp <= ?';
-      whereClauseJoin += whereClauseJoin ? ' AND s.dt_timestamp <= ?' : ' WHERE s.dt_timestamp <= ?';
-      params.push(endOfDay.toISOString());
-      paramsJoin.push(endOfDay.toISOString());
+  /**
+   * Grava imediatamente qualquer alteração pendente no backend de armazenamento
+   * Chamado automaticamente ao ocultar/fechar a página
+   */
+  public async flushPersist(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
     }
 
-    // Filtro de evento (CRÍTICO: usar alias correto para evitar ambiguidade)
-    if (eventId !== undefined) {
-      whereClauseSales += whereClauseSales ? ' AND num_event_id = ?' : ' WHERE num_event_id = ?';
-      whereClauseJoin += whereClauseJoin ? ' AND s.num_event_id = ?' : ' WHERE s.num_event_id = ?';
-      params.push(eventId);
-      paramsJoin.push(eventId);
+    // Aguarda gravação anterior para manter a ordem das escritas
+    if (this.persistInFlight) {
+      await this.persistInFlight;
     }
 
-    // Query de resumo (tabela prd_sales apenas)
-    const summaryQuery = `
-      SELECT
-        COUNT(num_id) as num_total_sales,
-        COALESCE(SUM(num_total_volume) / 1000.0, 0) as num_total_volume_liters
-      FROM prd_sales
-      ${whereClauseSales}
-    `;
-    const summaryResult = this.executeQuery(summaryQuery, params)[0] || {
-      num_total_sales: 0,
-      num_total_volume_liters: 0
-    };
+    if (this.pendingSince === null || !this.db || !this.storage) return;
 
-    // Query por tamanho de copo (tabela prd_sales apenas)
-    const byCupSizeQuery = `
-      SELECT
-        num_cup_size,
-        SUM(num_quantity) as num_count
-      FROM prd_sales
-      ${whereClauseSales}
-      GROUP BY num_cup_size
-      ORDER BY num_cup_size
-    `;
-    const salesByCupSize = this.executeQuery(byCupSizeQuery, params);
-
-    // Query por tipo de cerveja (JOIN com prd_beer_types e config_sales)
-    // IMPORTANTE: Usar whereClauseJoin que qualifica colunas com alias 's.'
-    const byBeerTypeQuery = `
-      SELECT
-        bt.num_id as num_beer_id,
-        bt.desc_name,
-        bt.desc_color,
-        bt.desc_description,
-        SUM(s.num_quantity) as num_total_cups,
-        COALESCE(SUM(s.num_total_volume) / 1000.0, 0) as num_total_liters,
-        COALESCE(SUM(
-          CASE
-            WHEN s.num_cup_size = 300 THEN s.num_quantity * COALESCE(sc.num_price_300ml, 0)
-            WHEN s.num_cup_size = 500 THEN s.num_quantity * COALESCE(sc.num_price_500ml, 0)
-            WHEN s.num_cup_size = 1000 THEN s.num_quantity * COALESCE(sc.num_price_1000ml, 0)
-            ELSE 0
-          END
-        ), 0) as num_total_revenue
-      FROM prd_sales s
-      INNER JOIN prd_beer_types bt ON s.num_beer_id = bt.num_id
-      LEFT JOIN config_sales sc ON s.num_beer_id = sc.num_beer_id
-      ${whereClauseJoin}
-      GROUP BY bt.num_id, bt.desc_name, bt.desc_color, bt.desc_description
-      ORDER BY num_total_liters DESC
-    `;
+    // Aba somente leitura ou desatualizada: gravar sobrescreveria a outra aba
+    if (!this.canPersist()) {
+      this.pendingSince = null;
+      return;
+    }
 
-    const salesByBeerType = this.executeQuery(byBeerTypeQuery, paramsJoin);
+    this.pendingSince = null;
+    const data = this.exportBinary(this.db);
+
+    this.persistInFlight = this.storage.save(DB_STORAGE_KEY, data)
+      .then(() => {
+        this.lastPersistedSize = data.length;
+        this.lastPersistedAt.set(new Date());
+        this.persistError.set(null);
+        this.tabCoordinator?.notifyChanged();
+        if (Date.now() - this.lastStorageCheck >= STORAGE_CHECK_INTERVAL_MS) {
+          void this.refreshStorageUsage();
+        }
+      })
+      .catch(error => {
+        // Mantém pendente para nova tentativa na próxima escrita
+        this.pendingSince ??= Date.now();
+        this.persistError.set(describeStorageError(error));
+        console.error('❌ Erro ao persistir banco de dados:', error);
+        void this.refreshStorageUsage();
+      })
+      .finally(() => {
+        this.persistInFlight = null;
+      });
 
-    return {
-      summary: {
-        num_total_sales: Number(summaryResult.num_total_sales) || 0,
-        num_total_volume_liters: Number(summaryResult.num_total_volume_liters) || 0,
-      },
-      salesByCupSize: salesByCupSize.map(item => ({
-        num_cup_size: Number(item.num_cup_size),
-        num_count: Number(item.num_count)
-      })),
-      salesByBeerType: salesByBeerType.map(item => ({
-        num_beer_id: Number(item.num_beer_id),
-        desc_name: item.desc_name,
-        desc_color: item.desc_color,
-        desc_description: item.desc_description,
-        num_total_cups: Number(item.num_total_cups),
-        num_total_liters: Number(item.num_total_liters),
-        num_total_revenue: Number(item.num_total_revenue) || 0
-      }))
-    };
+    await this.persistInFlight;
   }
 
+  // ==================== COORDENAÇÃO ENTRE ABAS ====================
+
   /**
-   * Retorna vendas detalhadas agrupadas por evento, data e usuário
-   * Usado para geração de relatório CSV detalhado
-   *
-   * @param startDate Data inicial do filtro (opcional)
-   * @param endDate Data final do filtro (opcional)
-   * @returns Array de vendas diárias com informações de evento e usuário
-   */
-  public getSalesDetailedByEvent(startDate?: Date, endDate?: Date): any[] {
-    if (!this.db) return [];
-
-    let whereClause = 'WHERE s.num_event_id IS NOT NULL';
-    const params: any[] = [];
-
-    // Filtro de data inicial
-    if (startDate) {
-      whereClause += ' AND s.dt_timestamp >= ?';
-      params.push(startDate.toISOString());
-    }
-
-    // Filtro de data final
-    if (endDate) {
-      const endOfDay = new Date(endDate);
-      endOfDay.setDate(endOfDay.getDate() + 1);
-      endOfDay.setSeconds(endOfDay.getSeconds() - 1);
-      whereClause += ' AND s.dt_timestamp <= ?';
-      params.push(endOfDay.toISOString());
-    }
-
-    const query = `
-      SELECT
-        e.num_id as eventId,
-        e.desc_name_event as nameEvent,
-        e.desc_local_event as localEvent,
-        e.dt_data_event as dataEvent,
-        DATE(s.dt_timestamp) as saleDate,
-        COALESCE(u.desc_username, 'Usuário Desconhecido') as username,
-        COUNT(s.num_id) as salesCount,
-        SUM(s.num_quantity) as totalQuantity,
-        COALESCE(SUM(s.num_total_volume) / 1000.0, 0) as totalLiters,
-        COALESCE(SUM(
-          CASE
-            WHEN s.num_cup_size = 300 THEN s.num_quantity * COALESCE(sc.num_price_300ml, 0)
-            WHEN s.num_cup_size = 500 THEN s.num_quantity * COALESCE(sc.num_price_500ml, 0)
-            WHEN s.num_cup_size = 1000 THEN s.num_quantity * COALESCE(sc.num_price_1000ml, 0)
-            ELSE 0
-          END
-        ), 0) as totalRevenue
-      FROM prd_sales s
-      INNER JOIN prd_events e ON s.num_event_id = e.num_id
-      LEFT JOIN prd_users u ON s.num_user_id = u.num_id
-      LEFT JOIN config_sales sc ON s.num_beer_id = sc.num_beer_id AND (sc.num_event_id = s.num_event_id OR sc.num_event_id IS NULL)
-      ${whereClause}
-      GROUP BY e.num_id, e.desc_name_event, e.desc_local_event, e.dt_data_event, DATE(s.dt_timestamp), username
-      ORDER BY e.dt_data_event DESC, saleDate DESC, username
-    `;
+   * Inicia a coordenação entre abas (DbTabCoordinator)
+   * A primeira aba aberta grava; as seguintes ficam somente leitura e
+   * recarregam o banco sempre que a aba writer grava.
+   */
+  private async startTabCoordination(): Promise<void> {
+    this.tabCoordinator = new DbTabCoordinator({
+      beforeBecomeWriter: () => this.reloadFromStorage(),
+      beforeHandover: () => this.flushPersist(),
+      onRoleChange: role => this.tabRole.set(role),
+      onRemoteChange: () => void this.handleRemoteChange()
+    });
 
-    return this.executeQuery(query, params).map(row => ({
-      eventId: Number(row.eventId),
-      nameEvent: row.nameEvent,
-      localEvent: row.localEvent,
-      dataEvent: row.dataEvent,
-      saleDate: row.saleDate,
-      username: row.username,
-      salesCount: Number(row.salesCount),
-      totalQuantity: Number(row.totalQuantity),
-      totalLiters: Number(row.totalLiters),
-      totalRevenue: Number(row.totalRevenue)
-    }));
+    const role = await this.tabCoordinator.start();
+    this.tabRole.set(role);
+
+    if (!DbTabCoordinator.supportsSingleWriter()) {
+      console.warn('⚠️ Web Locks indisponível: todas as abas gravam o banco (apenas avisos de alteração)');
+    } else if (role === 'reader') {
+      console.log('👀 Banco aberto para gravação em outra aba: esta aba está somente leitura');
+    }
   }
 
   /**
-   * Retorna vendas detalhadas SEM evento vinculado, agrupadas por data e usuário
-   * Usado para geração de relatório CSV detalhado
-   *
-   * @param startDate Data inicial do filtro (opcional)
-   * @param endDate Data final do filtro (opcional)
-   * @returns Array de vendas diárias sem evento
-   */
-  public getSalesDetailedWithoutEvent(startDate?: Date, endDate?: Date): any[] {
-    if (!this.db) return [];
-
-    let whereClause = 'WHERE s.num_event_id IS NULL';
-    const params: any[] = [];
-
-    // Filtro de data inicial
-    if (startDate) {
-      whereClause += ' AND s.dt_timestamp >= ?';
-      params.push(startDate.toISOString());
-    }
-
-    // Filtro de data final
-    if (endDate) {
-      const endOfDay = new Date(endDate);
-      endOfDay.setDate(endOfDay.getDate() + 1);
-      endOfDay.setSeconds(endOfDay.getSeconds() - 1);
-      whereClause += ' AND s.dt_timestamp <= ?';
-      params.push(endOfDay.toISOString());
-    }
-
-    const query = `
-      SELECT
-        DATE(s.dt_timestamp) as saleDate,
-        COALESCE(u.desc_username, 'Usuário Desconhecido') as username,
-        COUNT(s.num_id) as salesCount,
-        SUM(s.num_quantity) as totalQuantity,
-        COALESCE(SUM(s.num_total_volume) / 1000.0, 0) as totalLiters,
-        COALESCE(SUM(
-          CASE
-            WHEN s.num_cup_size = 300 THEN s.num_quantity * COALESCE(sc.num_price_300ml, 0)
-            WHEN s.num_cup_size = 500 THEN s.num_quantity * COALESCE(sc.num_price_500ml, 0)
-            WHEN s.num_cup_size = 1000 THEN s.num_quantity * COALESCE(sc.num_price_1000ml, 0)
-            ELSE 0
-          END
-        ), 0) as totalRevenue
-      FROM prd_sales s
-      LEFT JOIN prd_users u ON s.num_user_id = u.num_id
-      LEFT JOIN config_sales sc ON s.num_beer_id = sc.num_beer_id AND sc.num_event_id IS NULL
-      ${whereClause}
-      GROUP BY DATE(s.dt_timestamp), username
-      ORDER BY saleDate DESC, username
-    `;
-
-    return this.executeQuery(query, params).map(row => ({
-      saleDate: row.saleDate,
-      username: row.username,
-      salesCount: Number(row.salesCount),
-      totalQuantity: Number(row.totalQuantity),
-      totalLiters: Number(row.totalLiters),
-      totalRevenue: Number(row.totalRevenue)
-    }));
+   * Assume as gravações nesta aba (a aba writer atual passa a somente leitura)
+   */
+  public async takeOverWrites(): Promise<void> {
+    await this.tabCoordinator?.requestWriter();
+    this.blockedWriteAt.set(null);
   }
 
   /**
-   * Retorna totais por evento
-   * Usado para exibir totalizadores no relatório CSV
-   *
-   * @param startDate Data inicial do filtro (opcional)
-   * @param endDate Data final do filtro (opcional)
-   * @returns Array de totais por evento
-   */
-  public getEventTotals(startDate?: Date, endDate?: Date): any[] {
-    if (!this.db) return [];
-
-    let whereClause = 'WHERE s.num_event_id IS NOT NULL';
-    const params: any[] = [];
-
-    // Filtro de data inicial
-    if (startDate) {
-      whereClause += ' AND s.dt_timestamp >= ?';
-      params.push(startDate.toISOString());
-    }
-
-    // Filtro de data final
-    if (endDate) {
-      const endOfDay = new Date(endDate);
-      endOfDay.setDate(endOfDay.getDate() + 1);
-      endOfDay.setSeconds(endOfDay.getSeconds() - 1);
-      whereClause += ' AND s.dt_timestamp <= ?';
-      params.push(endOfDay.toISOString());
-    }
-
-    const query = `
-      SELECT
-        e.num_id as eventId,
-        e.desc_name_event as nameEvent,
-        COUNT(s.num_id) as salesCount,
-        SUM(s.num_quantity) as totalQuantity,
-        COALESCE(SUM(s.num_total_volume) / 1000.0, 0) as totalLiters,
-        COALESCE(SUM(
-          CASE
-            WHEN s.num_cup_size = 300 THEN s.num_quantity * COALESCE(sc.num_price_300ml, 0)
-            WHEN s.num_cup_size = 500 THEN s.num_quantity * COALESCE(sc.num_price_500ml, 0)
-            WHEN s.num_cup_size = 1000 THEN s.num_quantity * COALESCE(sc.num_price_1000ml, 0)
-            ELSE 0
-          END
-        ), 0) as totalRevenue
-      FROM prd_sales s
-      INNER JOIN prd_events e ON s.num_event_id = e.num_id
-      LEFT JOIN config_sales sc ON s.num_beer_id = sc.num_beer_id AND (sc.num_event_id = s.num_event_id OR sc.num_event_id IS NULL)
-      ${whereClause}
-      GROUP BY e.num_id, e.desc_name_event
-      ORDER BY e.dt_data_event DESC
-    `;
-
-    return this.executeQuery(query, params).map(row => ({
-      eventId: Number(row.eventId),
-      nameEvent: row.nameEvent,
-      salesCount: Number(row.salesCount),
-      totalQuantity: Number(row.totalQuantity),
-      totalLiters: Number(row.totalLiters),
-      totalRevenue: Number(row.totalRevenue)
-    }));
-  }
-
-  /**
-   * Obtém o último ID inserido (útil após INSERT)
-   * @returns ID do último registro inserido
+   * Outra aba gravou o banco: recarrega se não houver alterações locais pendentes
    */
-  public getLastInsertId(): number {
-    if (!this.db) return 0;
+  private async handleRemoteChange(): Promise<void> {
+    if (this.pendingSince !== null || this.transactionDepth > 0 || this.persistInFlight) {
+      console.warn('⚠️ Banco alterado em outra aba com alterações locais pendentes: esta aba está desatualizada');
+      this.isStale.set(true);
+      return;
+    }
 
     try {
-      // Usar db.exec para obter last_insert_rowid() de forma mais confiável
-      const result = this.db.exec('SELECT last_insert_rowid() as id');
-      if (result.length > 0 && result[0].values.length > 0) {
-        return Number(result[0].values[0][0]);
-      }
-      return 0;
+      await this.reloadFromStorage();
     } catch (error) {
-      console.error('❌ Erro ao obter último ID:', error);
-      return 0;
+      console.error('❌ Erro ao recarregar banco alterado em outra aba:', error);
     }
   }
 
   /**
-   * Verifica se uma tabela existe no banco
-   * @param tableName Nome da tabela
-   * @returns true se a tabela existe
+   * Substitui o banco em memória pela versão gravada no armazenamento
    */
-  public tableExists(tableName: string): boolean {
-    if (!this.db) return false;
+  private async reloadFromStorage(): Promise<void> {
+    if (!this.storage || !this.SQL) return;
 
-    try {
-      const result = this.executeQuery(
-        "SELECT name FROM sqlite_master WHERE type='table' AND name=?",
-        [tableName]
-      );
-      return result.length > 0;
-    } catch (error) {
-      console.error('❌ Erro ao verificar tabela:', error);
-      return false;
+    await this.syncEncryptionState();
+    const saved = await this.storage.load(DB_STORAGE_KEY);
+    if (!saved) return;
+
+    // Uma escrita local pode ter ocorrido durante a leitura
+    if (this.pendingSince !== null || this.transactionDepth > 0) {
+      this.isStale.set(true);
+      return;
     }
+
+    this.db?.close();
+    this.db = new this.SQL.Database(saved);
+    this.lastPersistedSize = saved.length;
+    this.isStale.set(false);
+
+    if (this.getCurrentDbVersion() < DB_VERSION) {
+      await this.migrateSchema();
+    } else {
+      this.prepareLoadedDatabase();
+    }
+
+    this.remoteChanges.update(n => n + 1);
+    console.log('🔄 Banco recarregado com as alterações de outra aba');
   }
 
   /**
-   * Verifica se uma coluna existe em uma tabela
-   * @param tableName Nome da tabela
-   * @param columnName Nome da coluna
-   * @returns true se a coluna existe
+   * Indica se esta aba pode gravar no armazenamento
    */
-  public columnExists(tableName: string, columnName: string): boolean {
-    if (!this.db) return false;
+  private canPersist(): boolean {
+    return this.tabRole() === 'writer' && !this.isStale() && this.encryptionState() !== 'locked';
+  }
 
-    try {
-      const result = this.executeQuery(`PRAGMA table_info(${tableName})`);
-      return result.some((col: any) => col.name === columnName);
-    } catch (error) {
-      console.error(`❌ Erro ao verificar coluna ${columnName} na tabela ${tableName}:`, error);
-      return false;
+  /**
+   * Bloqueia escritas em abas somente leitura ou desatualizadas
+   * Durante a inicialização (schema base, seed, migrations) as escritas são
+   * apenas em memória e sempre permitidas.
+   *
+   * @throws Erro com a orientação para o usuário
+   */
+  private assertWritable(): void {
+    if (!this.isDbReady() || this.canPersist()) return;
+
+    this.blockedWriteAt.set(new Date());
+    if (this.encryptionState() === 'locked') {
+      throw new Error('Banco bloqueado: informe a senha do banco para continuar.');
     }
+    throw new Error(this.isStale()
+      ? 'O banco foi alterado em outra aba. Recarregue a página antes de registrar novas alterações.'
+      : 'Esta aba está somente leitura: as vendas estão sendo registradas em outra aba.');
   }
 
   /**
-   * Valida o schema do banco de dados
-   * Método público para ser chamado em caso de erros
+   * Define o usuário e a tela registrados na auditoria das próximas alterações
+   * Não é uma escrita do banco: vale também em abas somente leitura.
+   *
+   * @param changes Campos do contexto a alterar
    */
-  public async validateAndFixSchema(): Promise<boolean> {
-    if (!this.db) {
-      console.error('❌ Banco de dados não inicializado');
-      return false;
-    }
+  public setAuditContext(changes: Partial<AuditContext>): void {
+    this.auditContext = { ...this.auditContext, ...changes };
+    if (!this.db || !this.isDbReady()) return;
 
     try {
-      console.log('🔍 Validando schema do banco de dados...');
-
-      const currentVersion = this.getCurrentDbVersion();
-      console.log(`📦 Versão do banco: ${currentVersion}`);
-
-      // Verifica se tabelas principais existem
-      const eventsTableExists = this.tableExists('prd_events');
-      const comandasTableExists = this.tableExists('prd_comandas');
-      const usersTableExists = this.tableExists('prd_users');
-
-      console.log(`📋 Tabela 'prd_events': ${eventsTableExists}`);
-      console.log(`📋 Tabela 'prd_comandas': ${comandasTableExists}`);
-      console.log(`📋 Tabela 'prd_users': ${usersTableExists}`);
-
-      // Verifica colunas críticas
-      const salesHasEventId = this.columnExists('prd_sales', 'num_event_id');
-      const salesHasUserId = this.columnExists('prd_sales', 'num_user_id');
-      const salesHasComandaId = this.columnExists('prd_sales', 'num_comanda_id');
-      const usersHasActive = this.columnExists('prd_users', 'int_user_active');
-
-      console.log(`📋 Coluna 'prd_sales.num_event_id': ${salesHasEventId}`);
-      console.log(`📋 Coluna 'prd_sales.num_user_id': ${salesHasUserId}`);
-      console.log(`📋 Coluna 'prd_sales.num_comanda_id': ${salesHasComandaId}`);
-      console.log(`📋 Coluna 'prd_users.int_user_active': ${usersHasActive}`);
-
-      // Se schema estiver incompleto, avisar que precisa recriar
-      if (!eventsTableExists || !salesHasEventId || !salesHasUserId) {
-        console.warn('⚠️ Schema desatualizado! Recomenda-se resetar o banco de dados.');
-        console.warn('   Execute: this.resetDatabase() no console do navegador');
-        return false;
-      }
-
-      // Migration v10 -> v11: adicionar coluna int_user_active
-      if (!usersHasActive) {
-        console.log('🔄 Aplicando migration v10 -> v11: adicionando coluna int_user_active...');
-        this.executeRun('ALTER TABLE prd_users ADD COLUMN int_user_active INTEGER NOT NULL DEFAULT 1');
-        this.executeRun('UPDATE db_version SET num_version = 11');
-        console.log('✅ Migration v11 aplicada com sucesso');
-      }
-
-      // Migration v11 -> v12: adicionar tabela prd_empresa
-      const empresaTableExists = this.tableExists('prd_empresa');
-      if (!empresaTableExists) {
-        console.log('🔄 Aplicando migration v11 -> v12: criando tabela prd_empresa...');
-        this.executeRun(`
-          CREATE TABLE IF NOT EXISTS prd_empresa (
-            num_id INTEGER PRIMARY KEY AUTOINCREMENT,
-            desc_razao_social TEXT NOT NULL,
-            desc_cnpj TEXT NOT NULL UNIQUE,
-            desc_endereco TEXT NOT NULL,
-            desc_cep TEXT NOT NULL,
-            desc_cidade TEXT NOT NULL,
-            desc_estado TEXT NOT NULL,
-            desc_responsavel_empresa TEXT NOT NULL,
-            num_gestor_empresa INTEGER,
-            int_active INTEGER NOT NULL DEFAULT 1 CHECK(int_active IN (0, 1)),
-            dt_created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
-            dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
-            FOREIGN KEY (num_gestor_empresa) REFERENCES prd_users(num_id) ON DELETE SET NULL
-          )
-        `);
-        this.executeRun('CREATE INDEX IF NOT EXISTS idx_empresa_desc_cnpj ON prd_empresa(desc_cnpj)');
-        this.executeRun('CREATE INDEX IF NOT EXISTS idx_empresa_int_active ON prd_empresa(int_active)');
-        this.executeRun('CREATE INDEX IF NOT EXISTS idx_empresa_num_gestor ON prd_empresa(num_gestor_empresa)');
-        this.executeRun('UPDATE db_version SET num_version = 12');
-        console.log('✅ Migration v12 aplicada com sucesso');
-      }
-
-      console.log('✅ Schema está correto!');
-      return true;
+      this.db.run(AUDIT_CONTEXT_SQL, auditContextParams(this.auditContext));
     } catch (error) {
-      console.error('❌ Erro ao validar schema:', error);
-      return false;
+      // Banco sem auditoria (schema anterior à v15)
+      console.warn('⚠️ Contexto de auditoria não aplicado:', error);
     }
   }
 
   /**
-   * Reseta o banco de dados (CUIDADO: apaga todos os dados!)
-   * Método público para casos de emergência
+   * Garante a gravação das alterações pendentes quando a aba é ocultada ou fechada
    */
-  public resetDatabase(): void {
-    console.warn('⚠️ ATENÇÃO: Resetando banco de dados - todos os dados serão perdidos!');
-
-    if (isPlatformBrowser(this.platformId)) {
-      // Remove do localStorage
-      localStorage.removeItem(DB_STORAGE_KEY);
-      localStorage.removeItem(`${DB_STORAGE_KEY}_version`);
-
-      // Recria o banco
-      this.createNewDatabase();
-
-      console.log('✅ Banco de dados resetado com sucesso');
-      console.log('🔄 Recarregue a página para aplicar as mudanças');
-    }
+  private registerFlushListeners(): void {
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        void this.flushPersist();
+      }
+    });
+    window.addEventListener('pagehide', () => {
+      void this.flushPersist();
+    });
   }
 
-  private createDefaultAdmin(): void {
-    try {
-      // Verifica se já existe admin
-      const existing = this.executeQuery(
-        "SELECT num_id FROM prd_users WHERE desc_email = 'admin@blackbeer.com' LIMIT 1"
-      );
-      if (existing.length > 0) {
-        console.log('ℹ️ Admin padrão já existe');
-        return;
-      }
-      // Hash simplificado da senha 'admin123'
-      const salt = 'blackbeer_salt_2025';
-      const password = 'admin123';
-      const combined = salt + password + salt;
-      const adminPassword = btoa(combined);
-      this.executeRun(
-        'INSERT INTO prd_users (desc_username, desc_email, desc_password_hash, desc_role, int_user_active) VALUES (?, ?, ?, ?, ?)',
-        ['admin', 'admin@blackbeer.com', adminPassword, 'admin', 1]
-      );
-      console.log('✅ Usuário admin padrão criado');
-      console.log('   Email: admin@blackbeer.com');
-      console.log('   Senha: admin123');
+  /**
+   * Informa o uso de armazenamento do navegador e o tamanho do banco
+   * @returns Uso, cota e percentual ocupado
+   */
+  public async getStorageUsage(): Promise<StorageUsage> {
+    let { usageBytes, quotaBytes, persisted } = await estimateStorage();
 
-    } catch (error) {
-      console.error('❌ Erro ao criar admin padrão:', error);
+    // localStorage tem limite próprio, bem menor que a cota da origem (base64: +33%)
+    if (this.rawStorage instanceof LocalStorageBackend) {
+      usageBytes = Math.ceil(this.lastPersistedSize * 4 / 3);
+      quotaBytes = LOCAL_STORAGE_QUOTA_BYTES;
     }
-  }
 
-  public getUsuarios(): any[] {
-    return this.executeQuery('SELECT num_id, desc_username, desc_email, desc_role, int_user_active, dt_created_at, dt_last_login_at FROM prd_users');
+    const percentUsed = quotaBytes > 0 ? (usageBytes / quotaBytes) * 100 : 0;
+    return {
+      backend: this.storage?.name ?? 'indisponível',
+      dbSizeBytes: this.lastPersistedSize,
+      usageBytes,
+      quotaBytes,
+      percentUsed,
+      persisted,
+      level: storageLevel(percentUsed),
+      checkedAt: new Date().toISOString()
+    };
   }
 
   /**
-   * Ativa ou desativa um usuário
-   * @param userId ID do usuário
-   * @param active true para ativar, false para desativar
-   * @returns true se a operação foi bem-sucedida
+   * Mede o uso do armazenamento e atualiza storageUsage
+   * Avisa no console quando o nível de ocupação muda para pior.
    */
-  public toggleUserActive(userId: number, active: boolean): boolean {
+  public async refreshStorageUsage(): Promise<StorageUsage | null> {
+    this.lastStorageCheck = Date.now();
+
     try {
-      this.executeRun(
-        'UPDATE prd_users SET int_user_active = ? WHERE num_id = ?',
-        [active ? 1 : 0, userId]
-      );
-      console.log(`✅ Usuário ${userId} ${active ? 'ativado' : 'desativado'}`);
-      return true;
+      const usage = await this.getStorageUsage();
+      const previous = this.storageUsage()?.level ?? 'ok';
+      this.storageUsage.set(usage);
+
+      if (usage.level !== 'ok' && usage.level !== previous) {
+        console.warn(`⚠️ Armazenamento ${usage.level === 'critical' ? 'quase esgotado' : 'próximo do limite'}: ${usage.percentUsed.toFixed(1)}% usado`);
+      }
+      return usage;
     } catch (error) {
-      console.error('❌ Erro ao alterar status do usuário:', error);
-      return false;
+      console.error('❌ Erro ao medir o uso do armazenamento:', error);
+      return null;
     }
   }
 
   /**
-   * Busca emails configurados para relatórios no banco de dados
-   * @returns Array de strings com emails configurados
+   * Limpa completamente o banco de dados e reinicia ao estado inicial
+   * Remove todos os dados mas mantém o schema v2
+   *
+   * @returns Promise<void>
    */
-  public getConfiguredEmails(): string[] {
+  public async clearDatabase(): Promise<void> {
     try {
-      const result = this.executeQuery('SELECT desc_email FROM config_settings LIMIT 1');
+      if (!this.db || !this.SQL) {
+        throw new Error('Banco de dados não está inicializado');
+      }
+      this.assertWritable();
 
-      if (result && result.length > 0) {
-        const emailString = result[0].desc_email;
+      // Descarta gravações pendentes do banco atual
+      if (this.persistTimer) {
+        clearTimeout(this.persistTimer);
+        this.persistTimer = null;
+      }
+      this.pendingSince = null;
 
-        // Converter string do banco para array
-        // Formato no banco: "email1@example.com,email2@example.com"
-        const emails = emailString
-          ? emailString.split(',').map((e: string) => e.trim()).filter((e: string) => e.length > 0)
-          : [];
+      // Snapshot de segurança: permite desfazer a limpeza pela tela de snapshots
+      await this.createSnapshot('pre_clear');
 
-        console.log('✅ Emails configurados recuperados do banco:', emails);
-        return emails;
-      }
+      // Fecha o banco atual
+      this.db.close();
 
-      console.log('⚠️ Nenhuma configuração de email encontrada no banco');
-      return [];
+      // Remove do armazenamento
+      await this.storage?.remove(DB_STORAGE_KEY);
+
+      // Cria novo banco limpo
+      this.createNewDatabase();
+      await this.flushPersist();
+
+      console.log('✅ Banco de dados limpo e reiniciado (versão 2)');
     } catch (error) {
-      console.error('❌ Erro ao buscar emails configurados:', error);
-      return [];
+      console.error('❌ Erro ao limpar banco de dados:', error);
+      throw error;
     }
   }
 
-  // ==================== MÉTODOS PARA GERENCIAR ESTOQUE DE EVENTOS (V4) ====================
+  // ==================== CRIPTOGRAFIA EM REPOUSO ====================
 
   /**
-   * Busca todos os registros de estoque do evento atual
-   * @returns Array com estoque de todas as cervejas
+   * Aguarda a senha quando o banco gravado está criptografado
+   * A inicialização continua em unlockDatabase()/recoverDatabase().
    */
-  public getEventStock(): any[] {
-    try {
-      const result = this.executeQuery(`
-        SELECT
-          es.num_id,
-          es.num_beer_id,
-          es.desc_beer_name,
-          es.num_quantidade_litros,
-          bt.desc_color,
-          es.dt_created_at,
-          es.dt_updated_at
-        FROM config_event_sale es
-        INNER JOIN prd_beer_types bt ON es.num_beer_id = bt.num_id
-        ORDER BY es.desc_beer_name
-      `);
-      return result;
-    } catch (error) {
-      console.error('❌ Erro ao buscar estoque do evento:', error);
-      return [];
-    }
+  private async waitForUnlock(): Promise<void> {
+    if (!this.keyring || !(await this.keyring.currentKeyId())) return;
+
+    this.encryptionState.set('locked');
+    console.log('🔒 Banco criptografado: aguardando a senha');
+    await new Promise<void>(resolve => {
+      this.unlockWaiter = resolve;
+    });
   }
 
   /**
-   * Busca estoque de uma cerveja específica
-   * @param beerId ID da cerveja
-   * @returns Objeto com dados do estoque ou null
+   * Desbloqueia o banco criptografado com a senha do admin
+   * @throws Erro se a senha estiver incorreta
    */
-  public getEventStockByBeerId(beerId: number, eventId: number | null = null): any | null {
-    try {
-      const query = eventId !== null
-        ? 'SELECT * FROM config_event_sale WHERE num_beer_id = ? AND num_event_id = ?'
-        : 'SELECT * FROM config_event_sale WHERE num_beer_id = ? AND num_event_id IS NULL';
-      const params = eventId !== null ? [beerId, eventId] : [beerId];
+  public async unlockDatabase(passphrase: string): Promise<void> {
+    const keyring = this.requireKeyring();
+    await this.applyUnlockedKeys(await keyring.unlock(passphrase));
+  }
 
-      const result = this.executeQuery(query, params);
-      return result.length > 0 ? result[0] : null;
-    } catch (error) {
-      console.error('❌ Erro ao buscar estoque da cerveja:', error);
-      return null;
-    }
+  /**
+   * Desbloqueia com o código de recuperação e define uma nova senha
+   * @throws Erro se o código estiver incorreto ou a nova senha for inválida
+   */
+  public async recoverDatabase(recoveryCode: string, newPassphrase: string): Promise<void> {
+    const keyring = this.requireKeyring();
+    await this.applyUnlockedKeys(await keyring.recover(recoveryCode, newPassphrase));
+    console.log('🔑 Senha do banco redefinida pelo código de recuperação');
   }
 
   /**
-   * Define ou atualiza a quantidade de litros disponível para uma cerveja no evento
-   * @param beerId ID da cerveja
-   * @param beerName Nome da cerveja
-   * @param quantidadeLitros Quantidade em litros
-   * @param minLitersAlert Limite mínimo em litros para alerta (opcional, padrão 5.0)
-   * @param eventId ID do evento (null = configuração geral)
+   * Ativa a criptografia e regrava banco, cópias e snapshots cifrados
+   * @returns Código de recuperação (exibir uma única vez)
    */
-  public setEventStock(beerId: number, beerName: string, quantidadeLitros: number, minLitersAlert: number = 5.0, eventId: number | null = null): void {
-    try {
-      // Verifica se já existe registro para esta cerveja e evento
-      const existing = this.getEventStockByBeerId(beerId, eventId);
-
-      if (existing) {
-        // Atualiza registro existente
-        const updateQuery = eventId !== null
-          ? `UPDATE config_event_sale SET num_quantidade_litros = ?, num_min_liters_alert = ?, dt_updated_at = CURRENT_TIMESTAMP WHERE num_beer_id = ? AND num_event_id = ?`
-          : `UPDATE config_event_sale SET num_quantidade_litros = ?, num_min_liters_alert = ?, dt_updated_at = CURRENT_TIMESTAMP WHERE num_beer_id = ? AND num_event_id IS NULL`;
-        const updateParams = eventId !== null
-          ? [quantidadeLitros, minLitersAlert, beerId, eventId]
-          : [quantidadeLitros, minLitersAlert, beerId];
-
-        this.executeRun(updateQuery, updateParams);
-        console.log(`✅ Estoque atualizado: ${beerName} = ${quantidadeLitros}L (alerta: ${minLitersAlert}L) [eventId: ${eventId || 'geral'}]`);
-      } else {
-        // Insere novo registro
-        this.executeRun(
-          `INSERT INTO config_event_sale (num_beer_id, desc_beer_name, num_quantidade_litros, num_min_liters_alert, num_event_id)
-           VALUES (?, ?, ?, ?, ?)`,
-          [beerId, beerName, quantidadeLitros, minLitersAlert, eventId]
-        );
-        console.log(`✅ Estoque criado: ${beerName} = ${quantidadeLitros}L (alerta: ${minLitersAlert}L) [eventId: ${eventId || 'geral'}]`);
-      }
-    } catch (error) {
-      console.error('❌ Erro ao definir estoque do evento:', error);
-      throw error;
+  public async enableEncryption(passphrase: string): Promise<string> {
+    const keyring = this.requireKeyring();
+    this.assertWritable();
+    if (await keyring.currentKeyId()) {
+      throw new Error('A criptografia do banco já está ativada');
     }
+
+    const { unlocked, recoveryCode } = await keyring.create(passphrase);
+    this.cipher.use(unlocked);
+    this.encryptionState.set('unlocked');
+
+    await this.rewriteStoredFiles();
+    this.tabCoordinator?.notifyChanged();
+    console.log('🔒 Criptografia do banco ativada');
+    return recoveryCode;
   }
 
   /**
-   * Atualiza apenas o limite de alerta de uma cerveja
-   * @param beerId ID da cerveja
-   * @param minLitersAlert Novo limite mínimo para alerta
+   * Troca a senha do banco (sem regravar os dados)
+   * @throws Erro se a senha atual estiver incorreta
    */
-  public updateMinLitersAlert(beerId: number, minLitersAlert: number): void {
-    try {
-      this.executeRun(
-        `UPDATE config_event_sale
-         SET num_min_liters_alert = ?,
-             dt_updated_at = CURRENT_TIMESTAMP
-         WHERE num_beer_id = ?`,
-        [minLitersAlert, beerId]
-      );
-      console.log(`✅ Limite de alerta atualizado: beerId ${beerId} = ${minLitersAlert}L`);
-    } catch (error) {
-      console.error('❌ Erro ao atualizar limite de alerta:', error);
-      throw error;
-    }
+  public async changeEncryptionPassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    const keyring = this.requireKeyring();
+    this.assertWritable();
+
+    await keyring.changePassphrase(currentPassphrase, newPassphrase);
+    console.log('🔑 Senha do banco alterada');
   }
 
   /**
-   * Subtrai quantidade vendida do estoque do evento
-   * @param beerId ID da cerveja
-   * @param litersToSubtract Quantidade em litros a subtrair
-   * @param eventId ID do evento (null = estoque geral)
-   * @returns true se subtraiu com sucesso, false se não havia estoque configurado
+   * Gera uma nova chave de dados e regrava tudo com ela
+   * O código de recuperação anterior deixa de valer.
+   *
+   * @returns Novo código de recuperação (exibir uma única vez)
+   * @throws Erro se a senha estiver incorreta
    */
-  public subtractFromEventStock(beerId: number, litersToSubtract: number, eventId: number | null = null): boolean {
-    try {
-      const stock = this.getEventStockByBeerId(beerId, eventId);
+  public async rotateEncryptionKey(passphrase: string): Promise<string> {
+    const keyring = this.requireKeyring();
+    this.assertWritable();
 
-      // Se não há estoque configurado, retorna false (modo normal)
-      if (!stock || stock.num_quantidade_litros === 0) {
-        console.log(`ℹ️ Sem estoque configurado para beerId ${beerId} (eventId: ${eventId || 'geral'})`);
-        return false;
-      }
+    const { unlocked, recoveryCode } = await keyring.beginRotation(passphrase);
+    this.cipher.use(unlocked);
 
-      // Calcula novo estoque (não permite negativo)
-      const newQuantity = Math.max(0, stock.num_quantidade_litros - litersToSubtract);
+    await this.rewriteStoredFiles();
+    await keyring.finishRotation();
+    this.tabCoordinator?.notifyChanged();
+    console.log('🔄 Chave de criptografia do banco rotacionada');
+    return recoveryCode;
+  }
 
-      // Atualiza com filtro correto incluindo eventId
-      const updateQuery = eventId !== null
-        ? `UPDATE config_event_sale SET num_quantidade_litros = ?, dt_updated_at = CURRENT_TIMESTAMP WHERE num_beer_id = ? AND num_event_id = ?`
-        : `UPDATE config_event_sale SET num_quantidade_litros = ?, dt_updated_at = CURRENT_TIMESTAMP WHERE num_beer_id = ? AND num_event_id IS NULL`;
-      const updateParams = eventId !== null
-        ? [newQuantity, beerId, eventId]
-        : [newQuantity, beerId];
+  /**
+   * Desativa a criptografia e regrava tudo em texto puro
+   * @throws Erro se a senha estiver incorreta
+   */
+  public async disableEncryption(passphrase: string): Promise<void> {
+    const keyring = this.requireKeyring();
+    this.assertWritable();
 
-      this.executeRun(updateQuery, updateParams);
+    // Confirma a senha antes de expor os dados
+    await keyring.unlock(passphrase);
+    this.cipher.disable();
 
-      console.log(`✅ Estoque subtraído: ${stock.desc_beer_name} -${litersToSubtract}L = ${newQuantity}L [eventId: ${eventId || 'geral'}]`);
-      return true;
-    } catch (error) {
-      console.error('❌ Erro ao subtrair do estoque:', error);
-      return false;
-    }
+    await this.rewriteStoredFiles();
+    await keyring.remove();
+    this.encryptionState.set('disabled');
+    this.tabCoordinator?.notifyChanged();
+    console.log('🔓 Criptografia do banco desativada');
   }
 
   /**
-   * Remove registro de estoque de uma cerveja (volta ao modo normal)
-   * @param beerId ID da cerveja
+   * Indica se o navegador permite criptografar (WebCrypto em contexto seguro)
    */
-  public removeEventStock(beerId: number): void {
-    try {
-      this.executeRun('DELETE FROM config_event_sale WHERE num_beer_id = ?', [beerId]);
-      console.log('✅ Estoque removido para beerId:', beerId);
-    } catch (error) {
-      console.error('❌ Erro ao remover estoque:', error);
-      throw error;
+  public encryptionSupported(): boolean {
+    return isEncryptionSupported();
+  }
+
+  private async applyUnlockedKeys(unlocked: DbUnlockedKeys): Promise<void> {
+    this.cipher.use(unlocked);
+    this.encryptionState.set('unlocked');
+    console.log('🔓 Banco desbloqueado');
+
+    // Inicialização aguardando a senha
+    if (this.unlockWaiter) {
+      const resume = this.unlockWaiter;
+      this.unlockWaiter = null;
+      resume();
+      return;
     }
+
+    // Bloqueado durante o uso (criptografia alterada em outra aba)
+    await this.reloadFromStorage();
   }
 
   /**
-   * Verifica se alguma cerveja está com estoque abaixo do limite configurado
-   * @returns Array com cervejas em alerta
+   * Regrava banco, cópias de segurança e snapshots com a cifra atual
+   * Falhas interrompem a operação: a chave anterior segue no keyring.
    */
-  public getStockAlerts(): any[] {
-    try {
-      const config = this.getStockAlertConfig();
-      const minLiters = config?.num_min_liters || 5.0;
+  private async rewriteStoredFiles(): Promise<void> {
+    if (!this.storage) return;
 
-      const result = this.executeQuery(
-        `SELECT
-          es.num_beer_id,
-          es.desc_beer_name,
-          es.num_quantidade_litros,
-          bt.desc_color
-         FROM config_event_sale es
-         INNER JOIN prd_beer_types bt ON es.num_beer_id = bt.num_id
-         WHERE es.num_quantidade_litros > 0
-           AND es.num_quantidade_litros < ?
-         ORDER BY es.num_quantidade_litros ASC`,
-        [minLiters]
-      );
+    // O banco em memória é gravado com a cifra atual (aguarda gravações em andamento)
+    this.pendingSince ??= Date.now();
+    await this.flushPersist();
+    const persistError = this.persistError();
+    if (persistError) {
+      throw new Error(`Falha ao regravar o banco: ${persistError}`);
+    }
 
-      // Mapeia para formato esperado pelo template
-      return result.map(row => ({
-        beerId: row.num_beer_id,
-        beerName: row.desc_beer_name,
-        quantidadeLitros: row.num_quantidade_litros,
-        color: row.desc_color
-      }));
-    } catch (error) {
-      console.error('❌ Erro ao buscar alertas de estoque:', error);
-      return [];
+    for (const key of [DB_MIGRATION_BACKUP_KEY, DB_IMPORT_BACKUP_KEY]) {
+      await this.storage.rewrite(key);
     }
-  }
 
-  // ==================== MÉTODOS PARA CONFIGURAÇÃO DE ALERTAS ====================
+    const snapshots = await this.snapshotStore?.rewriteAll() ?? 0;
 
-  /**
-   * Busca a configuração de alerta de estoque
-   * @returns Objeto com minLiters ou null
-   */
-  public getStockAlertConfig(): any | null {
-    try {
-      const result = this.executeQuery('SELECT * FROM config_stock_alert WHERE num_id = 1');
-      return result.length > 0 ? result[0] : null;
-    } catch (error) {
-      console.error('❌ Erro ao buscar configuração de alerta:', error);
-      return null;
+    const archiveKeys = this.tableExists('prd_sales_archives')
+      ? this.executeQuery('SELECT desc_key FROM prd_sales_archives').map(row => String(row.desc_key))
+      : [];
+    for (const key of archiveKeys) {
+      await this.archiveStorage?.rewrite(key);
     }
+
+    console.log(`💾 Banco, ${snapshots} snapshot(s) e ${archiveKeys.length} arquivo(s) de vendas regravados (${this.storage.name})`);
   }
 
   /**
-   * Atualiza o limite mínimo de litros para alerta
-   * @param minLiters Quantidade mínima em litros
+   * Conclui uma rotação de chave interrompida (ex: aba fechada no meio)
    */
-  public setStockAlertConfig(minLiters: number): void {
+  private async completePendingRotation(): Promise<void> {
+    if (!this.keyring || this.tabRole() === 'reader') return;
+
     try {
-      this.executeRun(
-        `UPDATE config_stock_alert
-         SET num_min_liters = ?,
-             dt_updated_at = CURRENT_TIMESTAMP
-         WHERE num_id = 1`,
-        [minLiters]
-      );
-      console.log('✅ Configuração de alerta atualizada:', minLiters, 'litros');
+      if (!(await this.keyring.hasPendingRotation())) return;
+
+      await this.rewriteStoredFiles();
+      await this.keyring.finishRotation();
+      console.log('✅ Rotação de chave interrompida concluída');
     } catch (error) {
-      console.error('❌ Erro ao atualizar configuração de alerta:', error);
-      throw error;
+      console.error('❌ Erro ao concluir a rotação de chave do banco:', error);
     }
   }
 
-  // ==================== MÉTODOS DE CONFIGURAÇÃO DE PREÇOS (V5) ====================
-
   /**
-   * Busca a configuração de preços de uma cerveja
-   * @param beerId ID da cerveja
-   * @returns Objeto com preços ou null
+   * Confere se outra aba ativou, desativou ou rotacionou a criptografia
+   * @throws Erro se for preciso desbloquear novamente
    */
-  public getSalesConfigByBeerId(beerId: number, eventId: number | null = null): any | null {
-    try {
-      const query = eventId !== null
-        ? 'SELECT * FROM config_sales WHERE num_beer_id = ? AND num_event_id = ?'
-        : 'SELECT * FROM config_sales WHERE num_beer_id = ? AND num_event_id IS NULL';
-      const params = eventId !== null ? [beerId, eventId] : [beerId];
+  private async syncEncryptionState(): Promise<void> {
+    if (!this.keyring) return;
 
-      const result = this.executeQuery(query, params);
-      return result.length > 0 ? result[0] : null;
-    } catch (error) {
-      console.error('❌ Erro ao buscar configuração de preços:', error);
-      return null;
+    const keyId = await this.keyring.currentKeyId();
+    if (keyId === this.cipher.keyId) return;
+
+    if (keyId === null) {
+      this.cipher.disable();
+      this.encryptionState.set('disabled');
+      return;
+    }
+
+    this.encryptionState.set('locked');
+    throw new Error('Criptografia do banco alterada em outra aba: desbloqueie novamente');
+  }
+
+  private requireKeyring(): DbKeyringStore {
+    if (!this.keyring) {
+      throw new Error('Banco de dados não está inicializado');
     }
+    if (!isEncryptionSupported()) {
+      throw new Error('Criptografia indisponível: acesse o sistema por HTTPS ou localhost');
+    }
+    return this.keyring;
   }
 
+  // ==================== ARQUIVOS DE VENDAS ====================
+
   /**
-   * Busca todas as configurações de preços
-   * @returns Array com todas as configurações de preços
+   * Indica se o ambiente suporta arquivos de vendas (IndexedDB + gzip)
    */
-  public getAllSalesConfig(): any[] {
-    try {
-      return this.executeQuery('SELECT * FROM config_sales ORDER BY desc_beer_name');
-    } catch (error) {
-      console.error('❌ Erro ao buscar todas as configurações de preços:', error);
-      return [];
-    }
+  public archivesAvailable(): boolean {
+    return this.archiveStorage !== null;
   }
 
   /**
-   * Define ou atualiza a configuração de preços de uma cerveja
-   * @param beerId ID da cerveja
-   * @param beerName Nome da cerveja
-   * @param price300ml Preço do copo de 300ml
-   * @param price500ml Preço do copo de 500ml
-   * @param price1000ml Preço do copo de 1000ml
-   * @param eventId ID do evento (null = configuração geral)
+   * Grava o binário compactado de um arquivo de vendas
    */
-  public setSalesConfig(
-    beerId: number,
-    beerName: string,
-    price300ml: number,
-    price500ml: number,
-    price1000ml: number,
-    eventId: number | null = null
-  ): void {
-    try {
-      // Verifica se já existe configuração para esta cerveja e evento
-      const existing = this.getSalesConfigByBeerId(beerId, eventId);
-
-      if (existing) {
-        // Atualiza configuração existente
-        const updateQuery = eventId !== null
-          ? `UPDATE config_sales SET desc_beer_name = ?, num_price_300ml = ?, num_price_500ml = ?, num_price_1000ml = ?, dt_updated_at = CURRENT_TIMESTAMP WHERE num_beer_id = ? AND num_event_id = ?`
-          : `UPDATE config_sales SET desc_beer_name = ?, num_price_300ml = ?, num_price_500ml = ?, num_price_1000ml = ?, dt_updated_at = CURRENT_TIMESTAMP WHERE num_beer_id = ? AND num_event_id IS NULL`;
-        const updateParams = eventId !== null
-          ? [beerName, price300ml, price500ml, price1000ml, beerId, eventId]
-          : [beerName, price300ml, price500ml, price1000ml, beerId];
-
-        this.executeRun(updateQuery, updateParams);
-        console.log(`✅ Configuração de preços atualizada: ${beerName} [eventId: ${eventId || 'geral'}]`);
-      } else {
-        // Insere nova configuração
-        this.executeRun(
-          `INSERT INTO config_sales (num_beer_id, desc_beer_name, num_price_300ml, num_price_500ml, num_price_1000ml, num_event_id)
-           VALUES (?, ?, ?, ?, ?, ?)`,
-          [beerId, beerName, price300ml, price500ml, price1000ml, eventId]
-        );
-        console.log(`✅ Configuração de preços criada: ${beerName} [eventId: ${eventId || 'geral'}]`);
-      }
+  public async saveArchiveFile(key: string, data: Uint8Array): Promise<void> {
+    await this.requireArchiveStorage().save(key, data);
+  }
 
-      this.persist();
-    } catch (error) {
-      console.error('❌ Erro ao salvar configuração de preços:', error);
-      throw error;
-    }
+  /**
+   * Carrega o binário compactado de um arquivo de vendas
+   * @returns Binário ou null se não existir neste navegador
+   */
+  public async loadArchiveFile(key: string): Promise<Uint8Array | null> {
+    return this.requireArchiveStorage().load(key);
   }
 
   /**
-   * Remove a configuração de preços de uma cerveja
-   * @param beerId ID da cerveja
+   * Remove o binário de um arquivo de vendas
    */
-  public removeSalesConfig(beerId: number): void {
-    try {
-      this.executeRun('DELETE FROM config_sales WHERE num_beer_id = ?', [beerId]);
-      console.log('✅ Configuração de preços removida para beerId:', beerId);
-      this.persist();
-    } catch (error) {
-      console.error('❌ Erro ao remover configuração de preços:', error);
-      throw error;
-    }
+  public async removeArchiveFile(key: string): Promise<void> {
+    this.detachArchive(key);
+    await this.requireArchiveStorage().remove(key);
   }
 
   /**
-   * Calcula o valor total de vendas (receita) em R$
-   * @param startDate Data inicial do filtro (opcional)
-   * @param endDate Data final do filtro (opcional)
-   * @returns Valor total em reais
+   * Carrega as vendas de um arquivo na view dos relatórios (report_sales)
+   * Não é uma escrita do banco (tabela TEMP): vale também em abas somente
+   * leitura e é refeito a cada recarga do banco.
    */
-  public getTotalRevenue(startDate?: Date, endDate?: Date, eventId?: number): number {
+  public attachArchive(key: string, file: SalesArchiveFile): void {
     if (!this.db) {
-      return 0;
+      throw new Error('Banco de dados não está inicializado');
     }
 
-    try {
-      let sql = `
-        SELECT
-          SUM(
-            CASE
-              WHEN s.num_cup_size = 300 THEN s.num_quantity * COALESCE(sc.num_price_300ml, 0)
-              WHEN s.num_cup_size = 500 THEN s.num_quantity * COALESCE(sc.num_price_500ml, 0)
-              WHEN s.num_cup_size = 1000 THEN s.num_quantity * COALESCE(sc.num_price_1000ml, 0)
-              ELSE 0
-            END
-          ) as totalRevenue
-        FROM prd_sales s
-        LEFT JOIN config_sales sc ON s.num_beer_id = sc.num_beer_id
-      `;
-
-      const params: any[] = [];
-      let whereClause = '';
-
-      // Aplicar filtros de data se houver
-      if (startDate && endDate) {
-        whereClause = ' WHERE s.dt_timestamp BETWEEN ? AND ?';
-        params.push(startDate.toISOString(), endDate.toISOString());
-      }
+    this.detachArchive(key);
+    for (const insert of buildArchiveInserts(key, file, this.archiveColumns)) {
+      this.db.run(insert.sql, insert.params);
+    }
+    this.dataVersion++;
 
-      // Aplicar filtro de evento se houver
-      if (eventId !== undefined) {
-        whereClause += whereClause ? ' AND s.num_event_id = ?' : ' WHERE s.num_event_id = ?';
-        params.push(eventId);
-      }
+    this.loadedArchives.set(key, file);
+    this.loadedArchiveKeys.set([...this.loadedArchives.keys()]);
+    console.log(`📂 Arquivo de vendas carregado nos relatórios: ${key} (${file.rows.length} vendas)`);
+  }
 
-      sql += whereClause;
+  /**
+   * Retira as vendas de um arquivo da view dos relatórios
+   */
+  public detachArchive(key: string): void {
+    if (!this.loadedArchives.delete(key)) return;
 
-      const result = this.executeQuery(sql, params);
+    this.db?.run('DELETE FROM temp.archived_sales WHERE desc_archive_key = ?', [key]);
+    this.dataVersion++;
+    this.loadedArchiveKeys.set([...this.loadedArchives.keys()]);
+  }
 
-      if (result.length > 0 && result[0].totalRevenue !== null) {
-        return Number(result[0].totalRevenue);
-      }
+  /**
+   * Executa o bloco sem gerar linhas de auditoria
+   * Para operações em massa já registradas por uma linha própria (ex: vendas
+   * movidas para um arquivo, registradas pelo índice prd_sales_archives).
+   * Deve ser chamado dentro de transaction().
+   */
+  public withoutAudit<T>(fn: () => T): T {
+    if (!this.db || this.transactionDepth === 0) {
+      throw new Error('withoutAudit deve ser chamado dentro de transaction()');
+    }
 
-      return 0;
-    } catch (error) {
-      console.error('❌ Erro ao calcular valor total:', error);
-      return 0;
+    this.db.run(AUDIT_PAUSE_SQL, [1]);
+    try {
+      return fn();
+    } finally {
+      this.db.run(AUDIT_PAUSE_SQL, [0]);
     }
   }
 
-  // ==================== COMANDAS CRUD ====================
-
   /**
-   * Busca todas as comandas ordenadas por número
-   * @returns Array de comandas
+   * (Re)cria a view dos relatórios no banco da thread principal
+   * e recarrega os arquivos de vendas já carregados
    */
-  public getAllComandas(): any[] {
-    const query = 'SELECT * FROM prd_comandas ORDER BY num_numero ASC';
-    return this.executeQuery(query);
+  private installReportView(): void {
+    if (!this.db) return;
+
+    try {
+      this.archiveColumns = installArchiveView(this.db);
+      this.loadedArchiveInserts().forEach(insert => this.db?.run(insert.sql, insert.params));
+    } catch (error) {
+      console.error('❌ Erro ao instalar a view dos relatórios:', error);
+    }
   }
 
   /**
-   * Busca comandas por status
-   * @param status Status da comanda (disponivel, em_uso, aguardando_pagamento)
-   * @returns Array de comandas com o status especificado
+   * INSERTs das vendas dos arquivos carregados na tabela TEMP dos relatórios
    */
-  public getComandasByStatus(status: string): any[] {
-    const query = 'SELECT * FROM prd_comandas WHERE desc_status = ? ORDER BY num_numero ASC';
-    return this.executeQuery(query, [status]);
+  private loadedArchiveInserts(): DbReplicaStatement[] {
+    return [...this.loadedArchives].flatMap(([key, file]) =>
+      buildArchiveInserts(key, file, this.archiveColumns)
+    );
   }
 
+
   /**
-   * Busca comanda por número
-   * @param numero Número da comanda
-   * @returns Comanda ou null se não encontrada
+   * Esquece os arquivos carregados (banco substituído ou recriado)
    */
-  public getComandaByNumero(numero: number): any | null {
-    const query = 'SELECT * FROM prd_comandas WHERE num_numero = ? LIMIT 1';
-    const result = this.executeQuery(query, [numero]);
-    return result.length > 0 ? result[0] : null;
+  private forgetLoadedArchives(): void {
+    this.loadedArchives.clear();
+    this.loadedArchiveKeys.set([]);
   }
 
-  /**
-   * Busca comanda por ID
-   * @param id ID da comanda
-   * @returns Comanda ou null se não encontrada
-   */
-  public getComandaById(id: number): any | null {
-    const query = 'SELECT * FROM prd_comandas WHERE num_id = ? LIMIT 1';
-    const result = this.executeQuery(query, [id]);
-    return result.length > 0 ? result[0] : null;
+  private requireArchiveStorage(): EncryptedStorageBackend {
+    if (!this.archiveStorage) {
+      throw new Error('Arquivos de vendas indisponíveis neste navegador');
+    }
+    return this.archiveStorage;
   }
 
+  // ==================== BACKUP / RESTAURAÇÃO ====================
+
   /**
-   * Abre uma comanda (muda status de disponivel para em_uso)
-   * @param numero Número da comanda a ser aberta
+   * Exporta o binário SQLite do banco atual
+   * @returns Conteúdo do arquivo .sqlite
    */
-  public openComanda(numero: number): void {
-    const now = new Date().toISOString();
-    this.executeRun(
-      `UPDATE prd_comandas
-       SET desc_status = ?, dt_opened_at = ?, dt_updated_at = ?
-       WHERE num_numero = ? AND desc_status = ?`,
-      ['em_uso', now, now, numero, 'disponivel']
-    );
-    this.persist();
+  public exportDatabase(): Uint8Array {
+    if (!this.db) {
+      throw new Error('Banco de dados não está inicializado');
+    }
+    return this.exportBinary(this.db);
   }
 
   /**
-   * Fecha uma comanda (muda status para aguardando_pagamento e calcula total)
-   * @param comandaId ID da comanda a ser fechada
+   * Conta os registros de cada tabela do banco atual
+   * @returns Tabela → quantidade de registros
    */
-  public closeComanda(comandaId: number): void {
-    const now = new Date().toISOString();
-    const total = this.calculateComandaTotal(comandaId);
-
-    this.executeRun(
-      `UPDATE prd_comandas
-       SET desc_status = ?, dt_closed_at = ?, num_total_value = ?, dt_updated_at = ?
-       WHERE num_id = ?`,
-      ['aguardando_pagamento', now, total, now, comandaId]
-    );
-    this.persist();
+  public getTableRowCounts(): Record<string, number> {
+    return this.db ? this.countRowsPerTable(this.db) : {};
   }
 
   /**
-   * Confirma pagamento de uma comanda (libera comanda para reutilização)
-   * @param comandaId ID da comanda
+   * Inspeciona um arquivo SQLite sem substituir o banco ativo
+   * Abre uma cópia isolada, executa PRAGMA integrity_check e coleta versão,
+   * tabelas e contagens. A cópia é descartada ao final.
+   *
+   * @param data Conteúdo do arquivo .sqlite
+   * @throws Erro se o arquivo não puder ser aberto pelo SQLite
    */
-  public confirmPayment(comandaId: number): void {
-    const now = new Date().toISOString();
+  public inspectDatabaseFile(data: Uint8Array): DatabaseFileInspection {
+    if (!this.SQL) {
+      throw new Error('Banco de dados não está inicializado');
+    }
 
-    this.executeRun(
-      `UPDATE prd_comandas
-       SET desc_status = ?, dt_paid_at = ?, num_total_value = 0, dt_opened_at = NULL, dt_closed_at = NULL, dt_updated_at = ?
-       WHERE num_id = ?`,
-      ['disponivel', now, now, comandaId]
-    );
+    const candidate: Database = new this.SQL.Database(data);
 
-    // Remover vínculo das vendas desta comanda (vendas ficam no histórico)
-    this.executeRun(
-      'UPDATE prd_sales SET num_comanda_id = NULL WHERE num_comanda_id = ?',
-      [comandaId]
-    );
+    try {
+      const integrity = candidate.exec('PRAGMA integrity_check');
+      const integrityCheck = integrity.length > 0
+        ? integrity[0].values.map((row: unknown[]) => String(row[0])).join('; ')
+        : 'sem resposta';
 
-    this.persist();
+      const rowCounts = this.countRowsPerTable(candidate);
+
+      return {
+        dbVersion: readSchemaVersion(candidate),
+        integrityCheck,
+        tables: Object.keys(rowCounts),
+        rowCounts
+      };
+    } finally {
+      candidate.close();
+    }
   }
 
   /**
-   * Calcula o valor total de uma comanda baseado em suas vendas
-   * @param comandaId ID da comanda
-   * @returns Valor total em reais
-   */
-  public calculateComandaTotal(comandaId: number): number {
-    const query = `
-      SELECT
-        COALESCE(SUM(
-          CASE
-            WHEN s.num_cup_size = 300 THEN s.num_quantity * COALESCE(sc.num_price_300ml, 0)
-            WHEN s.num_cup_size = 500 THEN s.num_quantity * COALESCE(sc.num_price_500ml, 0)
-            WHEN s.num_cup_size = 1000 THEN s.num_quantity * COALESCE(sc.num_price_1000ml, 0)
-            ELSE 0
-          END
-        ), 0) as total
-      FROM prd_sales s
-      LEFT JOIN config_sales sc ON s.num_beer_id = sc.num_beer_id
-      WHERE s.num_comanda_id = ?
-    `;
+   * Substitui o banco ativo pelo arquivo informado (restauração de backup)
+   *
+   * FLUXO:
+   * 1. Grava uma cópia do banco atual (DB_IMPORT_BACKUP_KEY)
+   * 2. Carrega o novo arquivo e aplica migrations pendentes
+   * 3. Persiste imediatamente
+   *
+   * O arquivo deve ter sido validado antes (BackupService.validateBackup).
+   *
+   * @param data Conteúdo do arquivo .sqlite
+   * @returns true se o schema ficou na versão atual
+   */
+  public async replaceDatabase(data: Uint8Array): Promise<boolean> {
+    if (!this.db || !this.SQL) {
+      throw new Error('Banco de dados não está inicializado');
+    }
+    this.assertWritable();
 
-    const result = this.executeQuery(query, [comandaId]);
-    return result.length > 0 ? Number(result[0].total) : 0;
-  }
-
-  /**
-   * Busca todos os itens (vendas) de uma comanda
-   * @param comandaId ID da comanda
-   * @returns Array de itens da comanda com preços calculados
-   */
-  public getComandaItems(comandaId: number): any[] {
-    const query = `
-      SELECT
-        s.num_id as num_sale_id,
-        s.num_beer_id,
-        s.desc_beer_name,
-        s.num_cup_size,
-        s.num_quantity,
-        s.dt_timestamp,
-        CASE
-          WHEN s.num_cup_size = 300 THEN COALESCE(sc.num_price_300ml, 0)
-          WHEN s.num_cup_size = 500 THEN COALESCE(sc.num_price_500ml, 0)
-          WHEN s.num_cup_size = 1000 THEN COALESCE(sc.num_price_1000ml, 0)
-          ELSE 0
-        END as num_unit_price,
-        CASE
-          WHEN s.num_cup_size = 300 THEN s.num_quantity * COALESCE(sc.num_price_300ml, 0)
-          WHEN s.num_cup_size = 500 THEN s.num_quantity * COALESCE(sc.num_price_500ml, 0)
-          WHEN s.num_cup_size = 1000 THEN s.num_quantity * COALESCE(sc.num_price_1000ml, 0)
-          ELSE 0
-        END as num_total_price
-      FROM prd_sales s
-      LEFT JOIN config_sales sc ON s.num_beer_id = sc.num_beer_id
-        AND (
-          (s.num_event_id IS NULL AND sc.num_event_id IS NULL)
-          OR s.num_event_id = sc.num_event_id
-        )
-      WHERE s.num_comanda_id = ?
-      ORDER BY s.dt_timestamp DESC
-    `;
+    await this.storage?.save(DB_IMPORT_BACKUP_KEY, this.db.export());
+    console.log('💾 Cópia do banco atual salva antes da restauração');
 
-    return this.executeQuery(query, [comandaId]);
-  }
+    // Descarta gravações pendentes do banco atual
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
 
-  /**
-   * Busca comanda completa com seus itens
-   * @param comandaId ID da comanda
-   * @returns Comanda com array de itens ou null se não encontrada
-   */
-  public getComandaWithItems(comandaId: number): any | null {
-    const comanda = this.getComandaById(comandaId);
-    if (!comanda) return null;
+    this.db.close();
+    this.db = new this.SQL.Database(data);
+    this.forgetLoadedArchives();
+    this.prepareLoadedDatabase();
 
-    const items = this.getComandaItems(comandaId);
+    const migrated = await this.migrateSchema();
 
-    // Calcula o total a partir dos itens (mais confiável que o valor salvo)
-    const calculatedTotal = items.reduce((sum, item) => sum + (item.num_total_price || 0), 0);
+    this.pendingSince ??= Date.now();
+    await this.flushPersist();
 
-    return {
-      ...comanda,
-      items,
-      num_total_value: calculatedTotal // Sobrescreve com o valor calculado
-    };
+    console.log(`✅ Banco de dados restaurado (versão ${this.getCurrentDbVersion()})`);
+    return migrated;
   }
 
-  // ==================== EVENTS CRUD ====================
+  // ==================== SNAPSHOTS ====================
 
   /**
-   * Cria um novo evento
-   * @param eventData Dados do evento (nameEvent, localEvent, dataEvent, contactEvent, nameContactEvent, status)
-   * @returns ID do evento criado ou null se falhar
+   * Inicia a verificação periódica de snapshots automáticos
+   * - Horário: enquanto houver evento ativo
+   * - Diário: sempre (um por dia)
+   * Só grava se houve alteração desde o último snapshot.
    */
-  public createEvent(eventData: {
-    nameEvent: string;
-    localEvent: string;
-    dataEvent: string;
-    contactEvent?: string;
-    nameContactEvent?: string;
-    status?: 'planejamento' | 'ativo' | 'finalizado';
-  }): number | null {
-    if (!this.db) {
-      console.error('❌ Banco de dados não inicializado');
-      return null;
+  private startSnapshotScheduler(): void {
+    if (!IndexedDbStorageBackend.isSupported()) {
+      console.warn('⚠️ IndexedDB indisponível: snapshots automáticos desativados');
+      return;
     }
 
-    try {
-      const now = new Date().toISOString();
-      const status = eventData.status || 'planejamento';
-
-      console.log('📝 Criando evento:', eventData);
+    this.snapshotStore = new DbSnapshotStore(new EncryptedStorageBackend(createSnapshotBackend(), this.cipher));
+    void this.runScheduledSnapshot();
+    this.snapshotTimer = setInterval(() => void this.runScheduledSnapshot(), SNAPSHOT_CHECK_INTERVAL_MS);
+  }
 
-      // Usar statement preparado para obter melhor controle
-      const stmt = this.db.prepare(
-        `INSERT INTO prd_events (desc_name_event, desc_local_event, dt_data_event, desc_contact_event, desc_name_contact_event, desc_status, dt_created_at, dt_updated_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
-      );
+  /**
+   * Cria o snapshot automático devido (se houver) e aplica a retenção
+   */
+  private async runScheduledSnapshot(): Promise<void> {
+    // Apenas a aba que grava o banco gera snapshots automáticos
+    if (!this.snapshotStore || !this.db || this.tabRole() === 'reader') return;
 
-      stmt.run([
-        eventData.nameEvent,
-        eventData.localEvent,
-        eventData.dataEvent,
-        eventData.contactEvent || null,
-        eventData.nameContactEvent || null,
-        status,
-        now,
-        now
-      ]);
+    this.applyAuditRetention();
 
-      stmt.free();
+    try {
+      const config = this.getSnapshotConfig();
+      if (!config.enabled) return;
 
-      // Obter ID imediatamente após o INSERT
-      const eventId = this.getLastInsertId();
+      const snapshots = await this.snapshotStore.list();
+      const kind = dueSnapshotKind(snapshots, this.countActiveEvents() > 0);
 
-      if (!eventId || eventId === 0) {
-        console.error('❌ Erro: ID do evento é 0 ou null');
-        console.error('   Isso indica que o INSERT pode ter falhado silenciosamente');
-        console.error('   Verifique se a tabela prd_events existe');
-        return null;
+      if (kind && (this.changedSinceSnapshot || snapshots.length === 0)) {
+        await this.createSnapshot(kind);
       }
 
-      this.persist();
-      console.log('✅ Evento criado com sucesso - ID:', eventId);
-      return eventId;
+      const removed = await this.snapshotStore.prune(config);
+      if (removed > 0) {
+        console.log(`🧹 ${removed} snapshot(s) removido(s) pela política de retenção`);
+      }
     } catch (error) {
-      console.error('❌ Erro ao criar evento:', error);
-      console.error('   Detalhes do evento:', eventData);
-      return null;
+      console.error('❌ Erro no snapshot automático:', error);
     }
   }
 
   /**
-   * Busca todos os eventos ordenados por data (mais recentes primeiro)
-   * @returns Array de eventos
+   * Grava um snapshot do banco atual
+   * @param kind Origem do snapshot
+   * @returns Metadados do snapshot ou null se snapshots estiverem indisponíveis
    */
-  public getAllEvents(): any[] {
-    const query = 'SELECT * FROM prd_events ORDER BY dt_data_event DESC';
-    return this.executeQuery(query);
+  public async createSnapshot(kind: SnapshotKind = 'manual'): Promise<SnapshotInfo | null> {
+    if (!this.snapshotStore || !this.db) return null;
+
+    const salesCount = this.executeQuery('SELECT COUNT(*) as count FROM prd_sales')[0]?.count ?? 0;
+    const snapshot = await this.snapshotStore.save(this.exportBinary(this.db), {
+      kind,
+      createdAt: new Date().toISOString(),
+      dbVersion: this.getCurrentDbVersion(),
+      salesCount: Number(salesCount),
+      activeEvents: this.countActiveEvents()
+    });
+
+    this.changedSinceSnapshot = false;
+    console.log(`📸 Snapshot criado (${kind}): ${snapshot.salesCount} vendas, ${snapshot.sizeBytes} bytes`);
+    return snapshot;
   }
 
   /**
-   * Busca eventos por status
-   * @param status Status do evento (planejamento, ativo, finalizado)
-   * @returns Array de eventos com o status especificado
+   * Lista os snapshots disponíveis (mais recente primeiro)
    */
-  public getEventsByStatus(status: 'planejamento' | 'ativo' | 'finalizado'): any[] {
-    const query = 'SELECT * FROM prd_events WHERE desc_status = ? ORDER BY dt_data_event DESC';
-    return this.executeQuery(query, [status]);
+  public async listSnapshots(): Promise<SnapshotInfo[]> {
+    return this.snapshotStore ? this.snapshotStore.list() : [];
   }
 
   /**
-   * Busca evento por ID
-   * @param id ID do evento
-   * @returns Evento ou null se não encontrado
+   * Indica se o ambiente suporta snapshots (IndexedDB)
    */
-  public getEventById(id: number): any | null {
-    const query = 'SELECT * FROM prd_events WHERE num_id = ? LIMIT 1';
-    const result = this.executeQuery(query, [id]);
-    return result.length > 0 ? result[0] : null;
+  public snapshotsAvailable(): boolean {
+    return this.snapshotStore !== null;
   }
 
   /**
-   * Atualiza um evento existente
-   * @param id ID do evento
-   * @param eventData Dados a serem atualizados (parciais)
-   * @returns true se atualizado com sucesso, false caso contrário
+   * Restaura o banco para o estado de um snapshot
+   * Antes de substituir, grava um snapshot 'pre_restore' do estado atual.
+   *
+   * @param id ID do snapshot
+   * @returns true se o schema restaurado ficou na versão atual
+   * @throws Erro se o snapshot não existir ou falhar na verificação de integridade
    */
-  public updateEvent(id: number, eventData: {
-    nameEvent?: string;
-    localEvent?: string;
-    dataEvent?: string;
-    contactEvent?: string;
-    nameContactEvent?: string;
-    status?: 'planejamento' | 'ativo' | 'finalizado';
-  }): boolean {
-    try {
-      const now = new Date().toISOString();
-      const updates: string[] = [];
-      const values: any[] = [];
-
-      // Construir query dinamicamente baseado nos campos fornecidos
-      if (eventData.nameEvent !== undefined) {
-        updates.push('desc_name_event = ?');
-        values.push(eventData.nameEvent);
-      }
-      if (eventData.localEvent !== undefined) {
-        updates.push('desc_local_event = ?');
-        values.push(eventData.localEvent);
-      }
-      if (eventData.dataEvent !== undefined) {
-        updates.push('dt_data_event = ?');
-        values.push(eventData.dataEvent);
-      }
-      if (eventData.contactEvent !== undefined) {
-        updates.push('desc_contact_event = ?');
-        values.push(eventData.contactEvent || null);
-      }
-      if (eventData.nameContactEvent !== undefined) {
-        updates.push('desc_name_contact_event = ?');
-        values.push(eventData.nameContactEvent || null);
-      }
-      if (eventData.status !== undefined) {
-        updates.push('desc_status = ?');
-        values.push(eventData.status);
-      }
+  public async restoreSnapshot(id: string): Promise<boolean> {
+    if (!this.snapshotStore) {
+      throw new Error('Snapshots indisponíveis neste navegador');
+    }
+    this.assertWritable();
 
-      // Sempre atualizar dt_updated_at
-      updates.push('dt_updated_at = ?');
-      values.push(now);
+    const data = await this.snapshotStore.load(id);
+    if (!data) {
+      throw new Error('Snapshot não encontrado');
+    }
 
-      // Adicionar ID ao final
-      values.push(id);
+    const inspection = this.inspectDatabaseFile(data);
+    if (inspection.integrityCheck !== 'ok') {
+      throw new Error(`Snapshot corrompido: ${inspection.integrityCheck}`);
+    }
 
-      if (updates.length === 1) {
-        // Apenas dt_updated_at, nada para atualizar
-        return false;
-      }
+    await this.createSnapshot('pre_restore');
+    return this.replaceDatabase(data);
+  }
 
-      const query = `UPDATE prd_events SET ${updates.join(', ')} WHERE num_id = ?`;
-      this.executeRun(query, values);
-      this.persist();
-      console.log('✅ Evento atualizado com sucesso:', id);
-      return true;
-    } catch (error) {
-      console.error('❌ Erro ao atualizar evento:', error);
-      return false;
-    }
+  /**
+   * Remove um snapshot
+   */
+  public async deleteSnapshot(id: string): Promise<void> {
+    await this.snapshotStore?.remove(id);
   }
 
   /**
-   * Deleta um evento
-   * ATENÇÃO: Isso irá:
-   * - Deletar configurações de estoque relacionadas (config_event_sale CASCADE)
-   * - Deletar configurações de preços relacionadas (config_sales CASCADE)
-   * - Setar num_event_id = NULL nas vendas relacionadas (prd_sales SET NULL)
-   *
-   * @param id ID do evento
-   * @returns true se deletado com sucesso, false caso contrário
+   * Obtém a configuração dos snapshots automáticos
    */
-  public deleteEvent(id: number): boolean {
+  public getSnapshotConfig(): SnapshotConfig {
     try {
-      this.executeRun('DELETE FROM prd_events WHERE num_id = ?', [id]);
-      this.persist();
-      console.log('✅ Evento deletado com sucesso:', id);
-      return true;
+      const row = this.executeQuery('SELECT * FROM config_snapshot WHERE num_id = 1 LIMIT 1')[0];
+      if (!row) return { ...DEFAULT_SNAPSHOT_CONFIG };
+
+      return {
+        enabled: Number(row.int_enabled) === 1,
+        hourlyRetentionHours: Number(row.num_hourly_retention_hours),
+        dailyRetentionDays: Number(row.num_daily_retention_days)
+      };
     } catch (error) {
-      console.error('❌ Erro ao deletar evento:', error);
-      return false;
+      console.error('❌ Erro ao buscar configuração de snapshots:', error);
+      return { ...DEFAULT_SNAPSHOT_CONFIG };
     }
   }
 
   /**
-   * Busca eventos ativos (status = 'ativo')
-   * Útil para seletor de eventos na tela de vendas
-   * @returns Array de eventos ativos
+   * Atualiza a configuração dos snapshots automáticos
+   */
+  public setSnapshotConfig(config: SnapshotConfig): void {
+    this.executeRun(
+      `INSERT INTO config_snapshot (num_id, int_enabled, num_hourly_retention_hours, num_daily_retention_days, dt_updated_at)
+       VALUES (1, ?, ?, ?, CURRENT_TIMESTAMP)
+       ON CONFLICT(num_id) DO UPDATE SET
+         int_enabled = excluded.int_enabled,
+         num_hourly_retention_hours = excluded.num_hourly_retention_hours,
+         num_daily_retention_days = excluded.num_daily_retention_days,
+         dt_updated_at = CURRENT_TIMESTAMP`,
+      [config.enabled ? 1 : 0, config.hourlyRetentionHours, config.dailyRetentionDays]
+    );
+    console.log('✅ Configuração de snapshots atualizada:', config);
+  }
+
+  /**
+   * Remove os registros de auditoria fora da retenção (config_audit)
+   * Apenas a aba que grava o banco; chamado na abertura e a cada verificação de snapshot.
    */
-  public getActiveEvents(): any[] {
-    return this.getEventsByStatus('ativo');
+  private applyAuditRetention(): void {
+    if (!this.db || this.tabRole() === 'reader') return;
+
+    try {
+      const removed = pruneAuditLog(this.db);
+      if (removed > 0) {
+        this.dataVersion++;
+        this.persist();
+        console.log(`🧹 ${removed} registro(s) de auditoria removido(s) pela política de retenção`);
+      }
+    } catch (error) {
+      console.error('❌ Erro ao aplicar a retenção da auditoria:', error);
+    }
+  }
+
+  private countActiveEvents(): number {
+    const result = this.executeQuery("SELECT COUNT(*) as count FROM prd_events WHERE desc_status = 'ativo'");
+    return Number(result[0]?.count ?? 0);
   }
 
   /**
-   * Muda o status de um evento
-   * @param id ID do evento
-   * @param status Novo status
-   * @returns true se atualizado com sucesso, false caso contrário
+   * Conta os registros de cada tabela de usuário (ignora tabelas internas sqlite_*)
    */
-  public updateEventStatus(id: number, status: 'planejamento' | 'ativo' | 'finalizado'): boolean {
-    return this.updateEvent(id, { status });
+  private countRowsPerTable(db: Database): Record<string, number> {
+    const tables = db.exec(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+    );
+    if (tables.length === 0) return {};
+
+    const counts: Record<string, number> = {};
+    for (const [name] of tables[0].values) {
+      const result = db.exec(`SELECT COUNT(*) FROM "${String(name)}"`);
+      counts[String(name)] = Number(result[0]?.values[0]?.[0] ?? 0);
+    }
+    return counts;
   }
 
   /**
-   * Busca estatísticas de um evento (total de vendas, volume, receita)
-   * @param eventId ID do evento
-   * @returns Objeto com estatísticas do evento
+   * Obtém estatísticas do banco de dados
+   * @returns Objeto com contadores de registros
    */
-  public getEventStatistics(eventId: number): {
-    num_total_sales: number;
-    num_total_volume: number;
-    num_total_revenue: number;
-    salesByBeer: any[];
+  public getDatabaseStats(): {
+    totalSales: number;
+    totalBeerTypes: number;
+    hasSettings: boolean;
+    dbVersion: number;
   } {
+    if (!this.db) {
+      return {
+        totalSales: 0,
+        totalBeerTypes: 0,
+        hasSettings: false,
+        dbVersion: 0
+      };
+    }
+
     try {
-      // Total de vendas e volume
-      const summaryQuery = `
-        SELECT
-          COUNT(*) as num_total_sales,
-          COALESCE(SUM(num_total_volume), 0) as num_total_volume
-        FROM prd_sales
-        WHERE num_event_id = ?
-      `;
-      const summary = this.executeQuery(summaryQuery, [eventId]);
-
-      // Receita total
-      const revenueQuery = `
-        SELECT
-          COALESCE(SUM(
-            CASE
-              WHEN s.num_cup_size = 300 THEN s.num_quantity * COALESCE(sc.num_price_300ml, 0)
-              WHEN s.num_cup_size = 500 THEN s.num_quantity * COALESCE(sc.num_price_500ml, 0)
-              WHEN s.num_cup_size = 1000 THEN s.num_quantity * COALESCE(sc.num_price_1000ml, 0)
-              ELSE 0
-            END
-          ), 0) as num_total_revenue
-        FROM prd_sales s
-        LEFT JOIN config_sales sc ON s.num_beer_id = sc.num_beer_id AND (sc.num_event_id = ? OR sc.num_event_id IS NULL)
-        WHERE s.num_event_id = ?
-      `;
-      const revenue = this.executeQuery(revenueQuery, [eventId, eventId]);
-
-      // Vendas por cerveja
-      const salesByBeerQuery = `
-        SELECT
-          s.desc_beer_name,
-          COUNT(*) as num_sales_count,
-          COALESCE(SUM(s.num_quantity), 0) as num_total_quantity,
-          COALESCE(SUM(s.num_total_volume), 0) as num_total_volume,
-          COALESCE(SUM(
-            CASE
-              WHEN s.num_cup_size = 300 THEN s.num_quantity * COALESCE(sc.num_price_300ml, 0)
-              WHEN s.num_cup_size = 500 THEN s.num_quantity * COALESCE(sc.num_price_500ml, 0)
-              WHEN s.num_cup_size = 1000 THEN s.num_quantity * COALESCE(sc.num_price_1000ml, 0)
-              ELSE 0
-            END
-          ), 0) as num_revenue
-        FROM prd_sales s
-        LEFT JOIN config_sales sc ON s.num_beer_id = sc.num_beer_id AND (sc.num_event_id = ? OR sc.num_event_id IS NULL)
-        WHERE s.num_event_id = ?
-        GROUP BY s.num_beer_id, s.desc_beer_name
-        ORDER BY num_revenue DESC
-      `;
-      const salesByBeer = this.executeQuery(salesByBeerQuery, [eventId, eventId]);
+      const salesCount = this.executeQuery('SELECT COUNT(*) as count FROM prd_sales')[0]?.count || 0;
+      const beerTypesCount = this.executeQuery('SELECT COUNT(*) as count FROM prd_beer_types')[0]?.count || 0;
+      const settingsCount = this.executeQuery('SELECT COUNT(*) as count FROM config_settings')[0]?.count || 0;
+      const version = this.executeQuery('SELECT num_version FROM db_version LIMIT 1')[0]?.num_version || 0;
 
       return {
-        num_total_sales: summary[0]?.num_total_sales || 0,
-        num_total_volume: summary[0]?.num_total_volume || 0,
-        num_total_revenue: revenue[0]?.num_total_revenue || 0,
-        salesByBeer
+        totalSales: Number(salesCount),
+        totalBeerTypes: Number(beerTypesCount),
+        hasSettings: Number(settingsCount) > 0,
+        dbVersion: Number(version)
       };
     } catch (error) {
-      console.error('❌ Erro ao buscar estatísticas do evento:', error);
+      console.error('❌ Erro ao obter estatísticas:', error);
       return {
-        num_total_sales: 0,
-        num_total_volume: 0,
-        num_total_revenue: 0,
-        salesByBeer: []
+        totalSales: 0,
+        totalBeerTypes: 0,
+        hasSettings: false,
+        dbVersion: 0
       };
     }
   }
 
   /**
-   * Verifica se um evento tem vendas associadas
-   * @param eventId ID do evento
-   * @returns true se o evento tem vendas, false caso contrário
+   * Obtém o último ID inserido (útil após INSERT)
+   * @returns ID do último registro inserido
    */
-  public eventHasSales(eventId: number): boolean {
-    const query = 'SELECT COUNT(*) as count FROM prd_sales WHERE num_event_id = ?';
-    const result = this.executeQuery(query, [eventId]);
-    return result[0]?.count > 0;
-  }
+  public getLastInsertId(): number {
+    if (!this.db) return 0;
 
-  /**
-   * Busca todas as vendas de um evento
-   * @param eventId ID do evento
-   * @returns Array de vendas do evento
-   */
-  public getSalesByEvent(eventId: number): any[] {
-    const query = `
-      SELECT s.*, u.desc_username as username
-      FROM prd_sales s
-      LEFT JOIN prd_users u ON s.num_user_id = u.num_id
-      WHERE s.num_event_id = ?
-      ORDER BY s.dt_timestamp DESC
-    `;
-    return this.executeQuery(query, [eventId]);
+    try {
+      // Usar db.exec para obter last_insert_rowid() de forma mais confiável
+      const result = this.db.exec('SELECT last_insert_rowid() as id');
+      if (result.length > 0 && result[0].values.length > 0) {
+        return Number(result[0].values[0][0]);
+      }
+      return 0;
+    } catch (error) {
+      console.error('❌ Erro ao obter último ID:', error);
+      return 0;
+    }
   }
 
-  // ==================== EMPRESA CRUD ====================
-
   /**
-   * Busca todas as empresas com informações do gestor
-   * @returns Array de empresas
+   * Verifica se uma tabela existe no banco
+   * @param tableName Nome da tabela
+   * @returns true se a tabela existe
    */
-  public getAllEmpresas(): any[] {
-    const query = `
-      SELECT
-        e.*,
-        u.desc_username as gestor_username
-      FROM prd_empresa e
-      LEFT JOIN prd_users u ON e.num_gestor_empresa = u.num_id
-      ORDER BY e.desc_razao_social ASC
-    `;
-    return this.executeQuery(query);
-  }
+  public tableExists(tableName: string): boolean {
+    if (!this.db) return false;
 
-  /**
-   * Busca empresa por ID
-   * @param id ID da empresa
-   * @returns Empresa ou null se não encontrada
-   */
-  public getEmpresaById(id: number): any | null {
-    const query = `
-      SELECT
-        e.*,
-        u.desc_username as gestor_username
-      FROM prd_empresa e
-      LEFT JOIN prd_users u ON e.num_gestor_empresa = u.num_id
-      WHERE e.num_id = ?
-      LIMIT 1
-    `;
-    const result = this.executeQuery(query, [id]);
-    return result.length > 0 ? result[0] : null;
+    try {
+      const result = this.executeQuery(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name=?",
+        [tableName]
+      );
+      return result.length > 0;
+    } catch (error) {
+      console.error('❌ Erro ao verificar tabela:', error);
+      return false;
+    }
   }
 
   /**
-   * Busca empresa por CNPJ
-   * @param cnpj CNPJ da empresa
-   * @returns Empresa ou null se não encontrada
+   * Verifica se uma coluna existe em uma tabela
+   * @param tableName Nome da tabela
+   * @param columnName Nome da coluna
+   * @returns true se a coluna existe
    */
-  public getEmpresaByCnpj(cnpj: string): any | null {
-    const cnpjClean = cnpj.replace(/\D/g, '');
-    const query = 'SELECT * FROM prd_empresa WHERE REPLACE(REPLACE(REPLACE(desc_cnpj, ".", ""), "/", ""), "-", "") = ? LIMIT 1';
-    const result = this.executeQuery(query, [cnpjClean]);
-    return result.length > 0 ? result[0] : null;
+  public columnExists(tableName: string, columnName: string): boolean {
+    if (!this.db) return false;
+
+    try {
+      const result = this.executeQuery(`PRAGMA table_info(${tableName})`);
+      return result.some((col: any) => col.name === columnName);
+    } catch (error) {
+      console.error(`❌ Erro ao verificar coluna ${columnName} na tabela ${tableName}:`, error);
+      return false;
+    }
   }
 
   /**
-   * Cria uma nova empresa
-   * @param empresaData Dados da empresa
-   * @returns ID da empresa criada ou null se falhar
+   * Atualiza o schema aplicando as migrations pendentes (db_version → DB_VERSION)
+   *
+   * FLUXO:
+   * 1. Grava um backup automático do banco atual (DB_MIGRATION_BACKUP_KEY)
+   * 2. Aplica cada migration em ordem, cada uma em sua própria transação
+   * 3. Em caso de falha: ROLLBACK da migration, restauração do backup em memória
+   *    e registro em migrationError. O banco segue utilizável na versão
+   *    anterior e nenhum dado é apagado.
+   *
+   * @returns true se o schema está na versão atual
    */
-  public createEmpresa(empresaData: {
-    razaoSocial: string;
-    cnpj: string;
-    endereco: string;
-    cep: string;
-    cidade: string;
-    estado: string;
-    responsavelEmpresa: string;
-    gestorEmpresa?: number | null;
-  }): number | null {
+  public async migrateSchema(): Promise<boolean> {
     if (!this.db) {
       console.error('❌ Banco de dados não inicializado');
-      return null;
+      return false;
     }
 
-    try {
-      const now = new Date().toISOString();
-
-      const stmt = this.db.prepare(
-        `INSERT INTO prd_empresa (
-          desc_razao_social,
-          desc_cnpj,
-          desc_endereco,
-          desc_cep,
-          desc_cidade,
-          desc_estado,
-          desc_responsavel_empresa,
-          num_gestor_empresa,
-          int_active,
-          dt_created_at,
-          dt_updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-      );
+    const fromVersion = this.getCurrentDbVersion();
+    console.log(`📦 Versão do banco: ${fromVersion} (app: ${DB_VERSION})`);
 
-      stmt.run([
-        empresaData.razaoSocial.trim(),
-        empresaData.cnpj.replace(/\D/g, ''),
-        empresaData.endereco.trim(),
-        empresaData.cep.replace(/\D/g, ''),
-        empresaData.cidade.trim(),
-        empresaData.estado.trim().toUpperCase(),
-        empresaData.responsavelEmpresa.trim(),
-        empresaData.gestorEmpresa || null,
-        1, // int_active = 1 (ativa por padrão)
-        now,
-        now
-      ]);
+    if (fromVersion > DB_VERSION) {
+      const message = `O banco está na versão ${fromVersion}, mais nova que a suportada pelo aplicativo (${DB_VERSION}). Atualize o aplicativo.`;
+      console.warn(`⚠️ ${message}`);
+      this.migrationError.set(message);
+      return false;
+    }
 
-      stmt.free();
+    const pending = this.getPendingMigrations(fromVersion);
+    if (pending.length === 0) {
+      console.log('✅ Schema está atualizado!');
+      this.migrationError.set(null);
+      return true;
+    }
 
-      const empresaId = this.getLastInsertId();
+    const backup = this.db.export();
 
-      if (!empresaId || empresaId === 0) {
-        console.error('❌ Erro: ID da empresa é 0 ou null');
-        return null;
-      }
+    try {
+      await this.storage?.save(DB_MIGRATION_BACKUP_KEY, backup);
+      console.log(`💾 Backup pré-migration salvo (v${fromVersion}, ${backup.length} bytes)`);
+    } catch (error) {
+      const message = `Não foi possível salvar o backup antes da atualização do schema: ${this.describeError(error)}`;
+      console.error(`❌ ${message}`);
+      this.migrationError.set(message);
+      return false;
+    }
 
-      this.persist();
-      console.log('✅ Empresa criada com sucesso - ID:', empresaId);
-      return empresaId;
+    try {
+      // Triggers de auditoria e view dos relatórios refletem as colunas atuais: reinstaladas após as migrations
+      dropAuditTriggers(this.db);
+      dropArchiveView(this.db);
+      this.applyMigrations(pending);
     } catch (error) {
-      console.error('❌ Erro ao criar empresa:', error);
-      return null;
+      this.db.close();
+      this.db = new this.SQL.Database(backup);
+      this.prepareLoadedDatabase();
+
+      const message = `${this.describeError(error)}. O banco foi mantido na versão ${fromVersion}.`;
+      console.error(`❌ Atualização do schema revertida: ${message}`);
+      this.migrationError.set(message);
+      return false;
     }
+
+    this.prepareLoadedDatabase();
+
+    // Bancos anteriores à v10 não tinham usuários: garante o acesso do admin padrão
+    if (fromVersion < 10) {
+      this.createDefaultAdmin();
+    }
+
+    this.migrationError.set(null);
+    await this.flushPersist();
+    console.log(`✅ Schema atualizado: v${fromVersion} → v${DB_VERSION}`);
+    return true;
   }
 
   /**
-   * Atualiza uma empresa existente
-   * @param id ID da empresa
-   * @param empresaData Dados a serem atualizados (parciais)
-   * @returns true se atualizado com sucesso, false caso contrário
+   * Migrations com versão maior que a informada, em ordem crescente
    */
-  public updateEmpresa(id: number, empresaData: {
-    razaoSocial?: string;
-    cnpj?: string;
-    endereco?: string;
-    cep?: string;
-    cidade?: string;
-    estado?: string;
-    responsavelEmpresa?: string;
-    gestorEmpresa?: number | null;
-    active?: boolean;
-  }): boolean {
-    try {
-      const now = new Date().toISOString();
-      const updates: string[] = [];
-      const values: any[] = [];
-
-      if (empresaData.razaoSocial !== undefined) {
-        updates.push('desc_razao_social = ?');
-        values.push(empresaData.razaoSocial.trim());
-      }
-      if (empresaData.cnpj !== undefined) {
-        updates.push('desc_cnpj = ?');
-        values.push(empresaData.cnpj.replace(/\D/g, ''));
-      }
-      if (empresaData.endereco !== undefined) {
-        updates.push('desc_endereco = ?');
-        values.push(empresaData.endereco.trim());
-      }
-      if (empresaData.cep !== undefined) {
-        updates.push('desc_cep = ?');
-        values.push(empresaData.cep.replace(/\D/g, ''));
-      }
-      if (empresaData.cidade !== undefined) {
-        updates.push('desc_cidade = ?');
-        values.push(empresaData.cidade.trim());
-      }
-      if (empresaData.estado !== undefined) {
-        updates.push('desc_estado = ?');
-        values.push(empresaData.estado.trim().toUpperCase());
-      }
-      if (empresaData.responsavelEmpresa !== undefined) {
-        updates.push('desc_responsavel_empresa = ?');
-        values.push(empresaData.responsavelEmpresa.trim());
-      }
-      if (empresaData.gestorEmpresa !== undefined) {
-        updates.push('num_gestor_empresa = ?');
-        values.push(empresaData.gestorEmpresa);
-      }
-      if (empresaData.active !== undefined) {
-        updates.push('int_active = ?');
-        values.push(empresaData.active ? 1 : 0);
-      }
-
-      // Sempre atualiza dt_updated_at
-      updates.push('dt_updated_at = ?');
-      values.push(now);
+  private getPendingMigrations(fromVersion: number): DbMigration[] {
+    return DB_MIGRATIONS
+      .filter(migration => migration.version > fromVersion)
+      .sort((a, b) => a.version - b.version);
+  }
 
-      // Adiciona ID ao final
-      values.push(id);
+  /**
+   * Aplica as migrations informadas, cada uma em uma transação
+   * Lança erro (após ROLLBACK da migration corrente) se alguma falhar
+   */
+  private applyMigrations(migrations: DbMigration[]): void {
+    if (!this.db) return;
 
-      if (updates.length === 1) {
-        // Apenas dt_updated_at, nada para atualizar
-        return false;
+    for (const migration of migrations) {
+      console.log(`🔄 Aplicando migration v${migration.version}: ${migration.description}...`);
+      this.db.exec('BEGIN TRANSACTION');
+
+      try {
+        migration.up(this.db);
+        writeSchemaVersion(this.db, migration.version);
+        this.db.exec('COMMIT');
+      } catch (error) {
+        this.db.exec('ROLLBACK');
+        throw new Error(`Migration v${migration.version} (${migration.description}) falhou: ${this.describeError(error)}`);
       }
 
-      const query = `UPDATE prd_empresa SET ${updates.join(', ')} WHERE num_id = ?`;
-      this.executeRun(query, values);
-      this.persist();
-      console.log('✅ Empresa atualizada com sucesso:', id);
-      return true;
-    } catch (error) {
-      console.error('❌ Erro ao atualizar empresa:', error);
-      return false;
+      console.log(`✅ Migration v${migration.version} aplicada com sucesso`);
     }
   }
 
   /**
-   * Ativa ou desativa uma empresa
-   * @param empresaId ID da empresa
-   * @param active true para ativar, false para desativar
-   * @returns true se a operação foi bem-sucedida
+   * Mensagem legível de um erro desconhecido
    */
-  public toggleEmpresaActive(empresaId: number, active: boolean): boolean {
+  private describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Reseta o banco de dados (CUIDADO: apaga todos os dados!)
+   * Método público para casos de emergência
+   */
+  public resetDatabase(): void {
+    console.warn('⚠️ ATENÇÃO: Resetando banco de dados - todos os dados serão perdidos!');
+
+    if (isPlatformBrowser(this.platformId)) {
+      // Recria o banco (a próxima gravação sobrescreve o armazenado)
+      this.db?.close();
+      this.createNewDatabase();
+
+      console.log('✅ Banco de dados resetado com sucesso');
+      console.log('🔄 Recarregue a página para aplicar as mudanças');
+    }
+  }
+
+  private createDefaultAdmin(): void {
     try {
-      const now = new Date().toISOString();
+      // Verifica se já existe admin
+      const existing = this.executeQuery(
+        "SELECT num_id FROM prd_users WHERE desc_email = 'admin@blackbeer.com' LIMIT 1"
+      );
+      if (existing.length > 0) {
+        console.log('ℹ️ Admin padrão já existe');
+        return;
+      }
+      // Hash simplificado da senha 'admin123'
+      const salt = 'blackbeer_salt_2025';
+      const password = 'admin123';
+      const combined = salt + password + salt;
+      const adminPassword = btoa(combined);
       this.executeRun(
-        'UPDATE prd_empresa SET int_active = ?, dt_updated_at = ? WHERE num_id = ?',
-        [active ? 1 : 0, now, empresaId]
+        'INSERT INTO prd_users (desc_username, desc_email, desc_password_hash, desc_role, int_user_active) VALUES (?, ?, ?, ?, ?)',
+        ['admin', 'admin@blackbeer.com', adminPassword, 'admin', 1]
       );
-      console.log(`✅ Empresa ${empresaId} ${active ? 'ativada' : 'desativada'}`);
-      return true;
+      console.log('✅ Usuário admin padrão criado');
+      console.log('   Email: admin@blackbeer.com');
+      console.log('   Senha: admin123');
+
     } catch (error) {
-      console.error('❌ Erro ao alterar status da empresa:', error);
-      return false;
+      console.error('❌ Erro ao criar admin padrão:', error);
     }
   }
 
   /**
-   * Deleta uma empresa
-   * @param id ID da empresa
-   * @returns true se deletado com sucesso, false caso contrário
+   * Busca emails configurados para relatórios no banco de dados
+   * @returns Array de strings com emails configurados
    */
-  public deleteEmpresa(id: number): boolean {
+  public getConfiguredEmails(): string[] {
     try {
-      this.executeRun('DELETE FROM prd_empresa WHERE num_id = ?', [id]);
-      this.persist();
-      console.log('✅ Empresa deletada com sucesso:', id);
-      return true;
+      const result = this.executeQuery('SELECT desc_email FROM config_settings LIMIT 1');
+
+      if (result && result.length > 0) {
+        const emailString = result[0].desc_email;
+
+        // Converter string do banco para array
+        // Formato no banco: "email1@example.com,email2@example.com"
+        const emails = emailString
+          ? emailString.split(',').map((e: string) => e.trim()).filter((e: string) => e.length > 0)
+          : [];
+
+        console.log('✅ Emails configurados recuperados do banco:', emails);
+        return emails;
+      }
+
+      console.log('⚠️ Nenhuma configuração de email encontrada no banco');
+      return [];
     } catch (error) {
-      console.error('❌ Erro ao deletar empresa:', error);
-      return false;
+      console.error('❌ Erro ao buscar emails configurados:', error);
+      return [];
     }
   }
-
-  /**
-   * Busca usuários do tipo gestor para seleção
-   * @returns Array de usuários gestores
-   */
-  public getGestores(): any[] {
-    const query = `
-      SELECT num_id, desc_username, desc_email
-      FROM prd_users
-      WHERE desc_role = 'gestor' AND int_user_active = 1
-      ORDER BY desc_username ASC
-    `;
-    return this.executeQuery(query);
-  }
 }
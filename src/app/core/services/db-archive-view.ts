@@ -0,0 +1,125 @@
+// src/app/core/services/db-archive-view.ts
+import { type Database } from 'sql.js';
+import { type SalesArchiveFile } from '../models/archive.model';
+
+/**
+ * View dos relatórios com vendas arquivadas
+ *
+ * Os relatórios leem a view TEMP report_sales: prd_sales + as vendas dos
+ * arquivos carregados sob demanda na tabela TEMP archived_sales. Assim como
+ * a auditoria, view e tabela são recriadas a cada carga do banco (thread
+ * principal e cópia da réplica dos relatórios) e nunca vão para o arquivo
+ * exportado.
+ */
+
+/**
+ * Coluna extra da tabela TEMP: arquivo de origem (NULL nas vendas atuais)
+ */
+export const ARCHIVE_KEY_COLUMN = 'desc_archive_key';
+
+/**
+ * Linhas por INSERT ao carregar um arquivo
+ */
+const ARCHIVE_INSERT_BATCH = 200;
+
+/**
+ * (Re)cria a tabela TEMP archived_sales e a view report_sales
+ *
+ * As colunas acompanham prd_sales (inclusive colunas de migrations
+ * posteriores); a tabela é recriada vazia: quem carregou arquivos deve
+ * inseri-los novamente (buildArchiveInserts).
+ *
+ * @returns Colunas de prd_sales
+ */
+export function installArchiveView(db: Database): string[] {
+  const columns = (db.exec('PRAGMA main.table_info(prd_sales)')[0]?.values ?? [])
+    .map((row: unknown[]) => String(row[1]));
+
+  dropArchiveView(db);
+  if (columns.length === 0) return columns;
+
+  const list = columns.join(', ');
+  db.run(`CREATE TEMP TABLE archived_sales (${list}, ${ARCHIVE_KEY_COLUMN} TEXT)`);
+  db.run(`CREATE INDEX temp.idx_archived_sales_key ON archived_sales (${ARCHIVE_KEY_COLUMN})`);
+  db.run(`
+    CREATE TEMP VIEW report_sales AS
+    SELECT ${list}, NULL AS ${ARCHIVE_KEY_COLUMN} FROM main.prd_sales
+    UNION ALL
+    SELECT ${list}, ${ARCHIVE_KEY_COLUMN} FROM temp.archived_sales
+  `);
+  return columns;
+}
+
+/**
+ * Remove a view dos relatórios (antes de migrations que alteram prd_sales)
+ */
+export function dropArchiveView(db: Database): void {
+  db.run('DROP VIEW IF EXISTS temp.report_sales');
+  db.run('DROP TABLE IF EXISTS temp.archived_sales');
+}
+
+/**
+ * Preço das vendas de arquivos anteriores ao preço gravado na venda (v19)
+ * Mesmo critério da migration: preço vigente do evento, senão o geral.
+ */
+const ARCHIVE_PRICE_BACKFILL_SQL = [
+  `UPDATE temp.archived_sales SET num_unit_price = COALESCE((
+     SELECT sp.num_price
+     FROM main.config_sale_prices sp
+     JOIN main.config_cup_sizes cs ON cs.num_id = sp.num_cup_size_id
+     WHERE sp.num_beer_id = archived_sales.num_beer_id
+       AND cs.num_volume_ml = archived_sales.num_cup_size
+       AND (sp.num_event_id = archived_sales.num_event_id OR sp.num_event_id IS NULL)
+     ORDER BY sp.num_event_id IS NULL
+     LIMIT 1
+   ), 0)
+   WHERE ${ARCHIVE_KEY_COLUMN} = ?`,
+  `UPDATE temp.archived_sales SET num_total_price = num_quantity * num_unit_price
+   WHERE ${ARCHIVE_KEY_COLUMN} = ?`
+];
+
+/**
+ * Monta os INSERTs que carregam um arquivo em temp.archived_sales
+ * Colunas que o arquivo não tem (criadas depois dele) ficam NULL; colunas
+ * que prd_sales não tem mais são ignoradas. Arquivos sem o preço gravado
+ * recebem o preço vigente (ARCHIVE_PRICE_BACKFILL_SQL).
+ *
+ * @param tableColumns Colunas atuais de prd_sales (installArchiveView)
+ * @returns Comandos em lotes, prontos para db.run / mirror
+ */
+export function buildArchiveInserts(
+  key: string,
+  file: SalesArchiveFile,
+  tableColumns: string[]
+): { sql: string; params: (string | number | null)[] }[] {
+  const indexes = tableColumns
+    .map(column => ({ column, index: file.columns.indexOf(column) }))
+    .filter(entry => entry.index >= 0);
+  if (indexes.length === 0) return [];
+
+  const columnList = [...indexes.map(entry => entry.column), ARCHIVE_KEY_COLUMN].join(', ');
+  const placeholders = `(${new Array(indexes.length + 1).fill('?').join(', ')})`;
+  const statements: { sql: string; params: (string | number | null)[] }[] = [];
+
+  for (let i = 0; i < file.rows.length; i += ARCHIVE_INSERT_BATCH) {
+    const batch = file.rows.slice(i, i + ARCHIVE_INSERT_BATCH);
+    statements.push({
+      sql: `INSERT INTO temp.archived_sales (${columnList}) VALUES ${batch.map(() => placeholders).join(', ')}`,
+      params: batch.flatMap(row => [
+        ...indexes.map(entry => toSqlValue(row[entry.index])),
+        key
+      ])
+    });
+  }
+
+  if (tableColumns.includes('num_total_price') && !file.columns.includes('num_total_price')) {
+    ARCHIVE_PRICE_BACKFILL_SQL.forEach(sql => statements.push({ sql, params: [key] }));
+  }
+
+  return statements;
+}
+
+function toSqlValue(value: unknown): string | number | null {
+  if (value === null || value === undefined) return null;
+  return typeof value === 'number' ? value : String(value);
+}
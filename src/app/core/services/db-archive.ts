@@ -0,0 +1,67 @@
+// src/app/core/services/db-archive.ts
+import { DbStorageBackend, IndexedDbStorageBackend } from './db-storage';
+import { SalesArchiveFile, isSalesArchiveFile } from '../models/archive.model';
+
+/**
+ * Arquivos de vendas antigas
+ *
+ * Vendas arquivadas saem de prd_sales e vão, compactadas (gzip), para um
+ * banco IndexedDB próprio. Os relatórios as leem sob demanda pela view
+ * report_sales (db-archive-view.ts).
+ */
+
+const ARCHIVE_DATABASE = 'black_beer_archives';
+const ARCHIVE_STORE = 'archives';
+
+/**
+ * Prefixo das chaves dos arquivos no IndexedDB
+ */
+export const ARCHIVE_KEY_PREFIX = 'sales_archive_';
+
+/**
+ * Backend padrão dos arquivos de vendas (banco IndexedDB próprio)
+ */
+export function createArchiveBackend(): DbStorageBackend {
+  return new IndexedDbStorageBackend(ARCHIVE_DATABASE, ARCHIVE_STORE);
+}
+
+/**
+ * Indica se o ambiente suporta arquivos de vendas (IndexedDB + CompressionStream)
+ */
+export function isArchiveSupported(): boolean {
+  return IndexedDbStorageBackend.isSupported() && typeof CompressionStream !== 'undefined';
+}
+
+// ==================== COMPACTAÇÃO ====================
+
+/**
+ * Serializa e compacta (gzip) o conteúdo de um arquivo de vendas
+ */
+export async function compressArchive(file: SalesArchiveFile): Promise<Uint8Array> {
+  const json = new TextEncoder().encode(JSON.stringify(file));
+  return pipeBytes(json, new CompressionStream('gzip'));
+}
+
+/**
+ * Descompacta e valida um arquivo de vendas
+ * @throws Erro se o conteúdo não for um arquivo de vendas
+ */
+export async function decompressArchive(data: Uint8Array): Promise<SalesArchiveFile> {
+  let parsed: unknown;
+  try {
+    const json = await pipeBytes(data, new DecompressionStream('gzip'));
+    parsed = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error('Arquivo de vendas corrompido ou em formato desconhecido');
+  }
+
+  if (!isSalesArchiveFile(parsed)) {
+    throw new Error('Arquivo de vendas corrompido ou em formato desconhecido');
+  }
+  return parsed;
+}
+
+async function pipeBytes(data: Uint8Array, transform: GenericTransformStream): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -0,0 +1,101 @@
+import initSqlJs, { type Database, type SqlJsStatic } from 'sql.js';
+import { EMPTY_AUDIT_CONTEXT, installAuditTriggers, pruneAuditLog } from './db-audit';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-10T12:00:00Z').getTime();
+
+const AUDIT_SCHEMA = `
+  CREATE TABLE prd_audit_log (
+    num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    dt_created_at TEXT NOT NULL,
+    num_user_id INTEGER,
+    desc_username TEXT,
+    desc_origin TEXT,
+    desc_table TEXT NOT NULL,
+    num_row_id INTEGER,
+    desc_action TEXT NOT NULL,
+    desc_before TEXT,
+    desc_after TEXT
+  );
+  CREATE TABLE config_audit (
+    num_id INTEGER PRIMARY KEY CHECK(num_id = 1),
+    num_retention_days INTEGER NOT NULL DEFAULT 180,
+    num_max_rows INTEGER NOT NULL DEFAULT 200000
+  );
+  INSERT INTO config_audit (num_id) VALUES (1);
+`;
+
+function count(db: Database, sql: string): number {
+  return Number(db.exec(sql)[0]?.values[0]?.[0] ?? 0);
+}
+
+function insertLog(db: Database, ageMs: number): void {
+  db.run(
+    "INSERT INTO prd_audit_log (dt_created_at, desc_table, desc_action) VALUES (?, 'prd_sales', 'INSERT')",
+    [new Date(NOW - ageMs).toISOString()]
+  );
+}
+
+describe('db-audit', () => {
+  let SQL: SqlJsStatic;
+  let db: Database;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs({ locateFile: (file: string) => `assets/${file}` });
+  });
+
+  beforeEach(() => {
+    db = new SQL.Database();
+    db.exec(AUDIT_SCHEMA);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('pruneAuditLog', () => {
+    it('remove os registros mais antigos que a retenção em dias', () => {
+      db.run('UPDATE config_audit SET num_retention_days = 30');
+      insertLog(db, 31 * DAY_MS);
+      insertLog(db, 29 * DAY_MS);
+      insertLog(db, DAY_MS);
+
+      expect(pruneAuditLog(db, NOW)).toBe(1);
+      expect(count(db, 'SELECT COUNT(*) FROM prd_audit_log')).toBe(2);
+    });
+
+    it('mantém só os registros mais recentes além do máximo', () => {
+      db.run('UPDATE config_audit SET num_max_rows = 2');
+      [4, 3, 2, 1].forEach(days => insertLog(db, days * DAY_MS));
+
+      expect(pruneAuditLog(db, NOW)).toBe(2);
+      expect(count(db, 'SELECT MIN(num_id) FROM prd_audit_log')).toBe(3);
+    });
+
+    it('não remove nada sem config_audit (schema anterior à v29)', () => {
+      db.run('DROP TABLE config_audit');
+      insertLog(db, 1000 * DAY_MS);
+
+      expect(pruneAuditLog(db, NOW)).toBe(0);
+      expect(count(db, 'SELECT COUNT(*) FROM prd_audit_log')).toBe(1);
+    });
+  });
+
+  describe('installAuditTriggers', () => {
+    it('não audita a fila nem as alterações estacionadas da sincronização', () => {
+      db.exec(`
+        CREATE TABLE prd_sync_outbox (num_id INTEGER PRIMARY KEY, desc_payload TEXT);
+        CREATE TABLE prd_sync_parked (num_id INTEGER PRIMARY KEY, desc_payload TEXT);
+        CREATE TABLE prd_beer_types (num_id INTEGER PRIMARY KEY, desc_name TEXT);
+      `);
+
+      installAuditTriggers(db, EMPTY_AUDIT_CONTEXT);
+      db.run("INSERT INTO prd_sync_outbox (desc_payload) VALUES ('{}')");
+      db.run("INSERT INTO prd_sync_parked (desc_payload) VALUES ('{}')");
+      db.run("INSERT INTO prd_beer_types (desc_name) VALUES ('IPA')");
+
+      expect(count(db, 'SELECT COUNT(*) FROM prd_audit_log')).toBe(1);
+      expect(count(db, "SELECT COUNT(*) FROM prd_audit_log WHERE desc_table = 'prd_beer_types'")).toBe(1);
+    });
+  });
+});
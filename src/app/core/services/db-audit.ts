@@ -0,0 +1,200 @@
+// src/app/core/services/db-audit.ts
+import { type Database } from 'sql.js';
+
+/**
+ * Auditoria das alterações do banco (prd_audit_log)
+ *
+ * Cada INSERT/UPDATE/DELETE nas tabelas do app gera uma linha de auditoria
+ * por meio de triggers TEMP: são recriadas a cada carga do banco e após
+ * cada exportação (o db.export() do sql.js reabre a conexão) e nunca vão
+ * para o arquivo exportado. Só o banco da thread principal é auditado: a
+ * réplica dos relatórios é somente leitura.
+ *
+ * Usuário e tela de origem vêm da tabela temp.audit_context, atualizada pelo
+ * DatabaseService (setAuditContext).
+ *
+ * Operações em massa já registradas por uma linha própria (ex: vendas
+ * movidas para um arquivo) pausam a auditoria com AUDIT_PAUSE_SQL.
+ *
+ * A tabela não cresce sem limite: pruneAuditLog aplica a retenção de
+ * config_audit (dias e quantidade de registros).
+ */
+
+/**
+ * Quem está alterando e a partir de qual tela
+ */
+export interface AuditContext {
+  userId: number | null;
+  username: string | null;
+  origin: string | null;
+}
+
+export const EMPTY_AUDIT_CONTEXT: AuditContext = {
+  userId: null,
+  username: null,
+  origin: null
+};
+
+/**
+ * Tabelas fora da auditoria (a própria auditoria e controles internos)
+ * A fila e as alterações estacionadas da sincronização mudam a cada envio/pull.
+ */
+const AUDIT_IGNORED_TABLES = ['prd_audit_log', 'prd_sync_outbox', 'prd_sync_parked', 'db_version'];
+
+/**
+ * Colunas que não disparam auditoria quando são as únicas alteradas
+ * (cursor da sincronização, atualizado a cada pull)
+ */
+const AUDIT_IGNORED_COLUMNS: Record<string, string[]> = {
+  config_sync: ['num_last_seq', 'dt_last_sync_at']
+};
+
+/**
+ * Colunas registradas apenas como "***" (sigilosas ou grandes demais)
+ */
+const AUDIT_MASKED_COLUMNS: Record<string, string[]> = {
+  prd_users: ['desc_password_hash'],
+  config_client: ['desc_logo_base64'],
+  config_sync: ['desc_token']
+};
+
+const AUDIT_TRIGGER_PREFIX = 'audit_';
+
+/**
+ * Grava o contexto atual
+ */
+export const AUDIT_CONTEXT_SQL =
+  'INSERT OR REPLACE INTO temp.audit_context (num_id, num_user_id, desc_username, desc_origin) VALUES (1, ?, ?, ?)';
+
+/**
+ * Pausa (1) ou retoma (0) a auditoria
+ */
+export const AUDIT_PAUSE_SQL = 'UPDATE temp.audit_context SET int_paused = ? WHERE num_id = 1';
+
+export function auditContextParams(context: AuditContext): (string | number | null)[] {
+  return [context.userId, context.username, context.origin];
+}
+
+/**
+ * (Re)cria as triggers de auditoria de todas as tabelas do app
+ * Sem prd_audit_log (schema anterior à v15) não instala nada.
+ *
+ * @returns Quantidade de tabelas auditadas
+ */
+export function installAuditTriggers(db: Database, context: AuditContext): number {
+  dropAuditTriggers(db);
+
+  const hasAuditTable = db.exec(
+    "SELECT 1 FROM main.sqlite_master WHERE type = 'table' AND name = 'prd_audit_log'"
+  ).length > 0;
+  if (!hasAuditTable) return 0;
+
+  db.run(`
+    CREATE TEMP TABLE IF NOT EXISTS audit_context (
+      num_id INTEGER PRIMARY KEY CHECK(num_id = 1),
+      num_user_id INTEGER,
+      desc_username TEXT,
+      desc_origin TEXT,
+      int_paused INTEGER NOT NULL DEFAULT 0
+    )
+  `);
+  db.run(AUDIT_CONTEXT_SQL, auditContextParams(context));
+
+  const tables = db.exec(
+    "SELECT name FROM main.sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+  );
+  const tableNames = (tables[0]?.values ?? [])
+    .map((row: unknown[]) => String(row[0]))
+    .filter((name: string) => !AUDIT_IGNORED_TABLES.includes(name));
+
+  for (const table of tableNames) {
+    const columns = (db.exec(`PRAGMA main.table_info(${table})`)[0]?.values ?? [])
+      .map((row: unknown[]) => String(row[1]));
+    createTableTriggers(db, table, columns);
+  }
+
+  return tableNames.length;
+}
+
+/**
+ * Aplica a retenção de config_audit (sem config_audit, anterior à v29, não remove nada)
+ * @param now Instante de referência (ms)
+ * @returns Quantidade de registros removidos
+ */
+export function pruneAuditLog(db: Database, now: number = Date.now()): number {
+  const hasConfig = db.exec(
+    "SELECT 1 FROM main.sqlite_master WHERE type = 'table' AND name = 'config_audit'"
+  ).length > 0;
+  if (!hasConfig) return 0;
+
+  const config = db.exec('SELECT num_retention_days, num_max_rows FROM config_audit WHERE num_id = 1');
+  const [retentionDays, maxRows] = (config[0]?.values[0] ?? []).map(Number);
+  if (!retentionDays || !maxRows) return 0;
+
+  const cutoff = new Date(now - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  const changes = () => Number(db.exec('SELECT changes()')[0].values[0][0]);
+
+  db.run('DELETE FROM prd_audit_log WHERE dt_created_at < ?', [cutoff]);
+  let removed = changes();
+
+  db.run(
+    `DELETE FROM prd_audit_log
+     WHERE num_id <= (SELECT num_id FROM prd_audit_log ORDER BY num_id DESC LIMIT 1 OFFSET ?)`,
+    [maxRows]
+  );
+  removed += changes();
+  return removed;
+}
+
+/**
+ * Remove as triggers de auditoria (antes de migrations que alteram tabelas)
+ */
+export function dropAuditTriggers(db: Database): void {
+  const triggers = db.exec(
+    `SELECT name FROM sqlite_temp_master WHERE type = 'trigger' AND name LIKE '${AUDIT_TRIGGER_PREFIX}%'`
+  );
+  for (const row of triggers[0]?.values ?? []) {
+    db.run(`DROP TRIGGER IF EXISTS temp.${String(row[0])}`);
+  }
+}
+
+function createTableTriggers(db: Database, table: string, columns: string[]): void {
+  const masked = AUDIT_MASKED_COLUMNS[table] ?? [];
+  const ignored = AUDIT_IGNORED_COLUMNS[table] ?? [];
+
+  // Coluna mascarada alterada no UPDATE: o "depois" indica a troca sem expor o valor
+  const maskedValue = (alias: 'OLD' | 'NEW', column: string, isUpdate: boolean) =>
+    `CASE WHEN ${alias}.${column} IS NULL THEN NULL` +
+    (isUpdate && alias === 'NEW' ? ` WHEN NEW.${column} IS NOT OLD.${column} THEN '*** (alterado)'` : '') +
+    ` ELSE '***' END`;
+
+  const snapshot = (alias: 'OLD' | 'NEW', isUpdate = false) => `json_object(${columns
+    .map(column => `'${column}', ${masked.includes(column) ? maskedValue(alias, column, isUpdate) : `${alias}.${column}`}`)
+    .join(', ')})`;
+
+  const compared = columns.filter(column => !ignored.includes(column));
+  const changed = compared.map(column => `OLD.${column} IS NOT NEW.${column}`).join(' OR ') || '0';
+
+  const insertLog = (action: string, rowId: string, before: string, after: string) => `
+    INSERT INTO prd_audit_log (
+      dt_created_at, num_user_id, desc_username, desc_origin,
+      desc_table, num_row_id, desc_action, desc_before, desc_after
+    )
+    SELECT strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), num_user_id, desc_username, desc_origin,
+      '${table}', ${rowId}, '${action}', ${before}, ${after}
+    FROM temp.audit_context WHERE num_id = 1 AND int_paused = 0;`;
+
+  db.run(`
+    CREATE TEMP TRIGGER ${AUDIT_TRIGGER_PREFIX}${table}_insert AFTER INSERT ON main.${table}
+    BEGIN ${insertLog('INSERT', 'NEW.rowid', 'NULL', snapshot('NEW'))} END
+  `);
+  db.run(`
+    CREATE TEMP TRIGGER ${AUDIT_TRIGGER_PREFIX}${table}_update AFTER UPDATE ON main.${table}
+    WHEN ${changed}
+    BEGIN ${insertLog('UPDATE', 'NEW.rowid', snapshot('OLD'), snapshot('NEW', true))} END
+  `);
+  db.run(`
+    CREATE TEMP TRIGGER ${AUDIT_TRIGGER_PREFIX}${table}_delete AFTER DELETE ON main.${table}
+    BEGIN ${insertLog('DELETE', 'OLD.rowid', snapshot('OLD'), 'NULL')} END
+  `);
+}
@@ -0,0 +1,507 @@
+// src/app/core/services/db-crypto.ts
+import { DbStorageBackend, base64ToUint8Array, uint8ArrayToBase64 } from './db-storage';
+
+/**
+ * Criptografia do banco em repouso (WebCrypto AES-GCM)
+ *
+ * ESQUEMA (envelope):
+ * - Uma chave de dados AES-256 aleatória cifra os binários gravados
+ *   (banco, cópias de segurança e snapshots)
+ * - A chave de dados é guardada no keyring embrulhada duas vezes: pela chave
+ *   derivada da senha do admin (PBKDF2) e pela chave derivada do código de
+ *   recuperação exibido uma única vez na ativação/rotação
+ *
+ * Trocar a senha apenas reembrulha a chave de dados. Rotacionar gera uma
+ * nova chave de dados e regrava todos os binários; a chave anterior fica no
+ * keyring (previous) até o fim da regravação, para uma rotação interrompida
+ * continuar legível.
+ *
+ * Binários sem o cabeçalho BBENC1 são tratados como texto puro: bancos
+ * gravados antes da ativação continuam legíveis e são cifrados na próxima
+ * gravação.
+ */
+
+/**
+ * Estado da criptografia nesta aba
+ * - disabled: banco gravado em texto puro
+ * - locked: banco cifrado aguardando a senha
+ * - unlocked: banco cifrado e chave carregada
+ */
+export type DbEncryptionState = 'disabled' | 'locked' | 'unlocked';
+
+/**
+ * Chave de dados embrulhada por uma chave derivada (senha ou código de recuperação)
+ */
+interface WrappedKey {
+  salt: string;         // base64
+  iterations: number;
+  iv: string;           // base64
+  data: string;         // base64 (chave de dados cifrada com AES-GCM)
+}
+
+interface DbKeyringEntry {
+  keyId: string;
+  passphrase: WrappedKey;
+  recovery: WrappedKey;
+}
+
+/**
+ * Keyring gravado ao lado do banco (JSON, fora da criptografia)
+ */
+interface DbKeyring {
+  version: 1;
+  current: DbKeyringEntry;
+  previous: DbKeyringEntry | null;  // Preenchido durante a rotação
+  createdAt: string;
+  rotatedAt: string | null;
+}
+
+/**
+ * Chaves de dados desbloqueadas
+ */
+export interface DbUnlockedKeys {
+  currentKeyId: string;
+  keys: Map<string, CryptoKey>;
+}
+
+const MAGIC = new TextEncoder().encode('BBENC1');
+const KEY_ID_LENGTH = 16;
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+const HEADER_LENGTH = MAGIC.length + KEY_ID_LENGTH + IV_LENGTH;
+
+/**
+ * Iterações do PBKDF2-SHA256 (gravadas no keyring: podem subir sem migração)
+ */
+const PBKDF2_ITERATIONS = 310_000;
+
+/**
+ * Tamanho mínimo da senha do banco
+ */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Alfabeto do código de recuperação (sem 0/O, 1/I/L para facilitar a digitação)
+ */
+const RECOVERY_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const RECOVERY_GROUPS = 6;
+const RECOVERY_GROUP_SIZE = 5;
+
+/**
+ * Valida a senha escolhida pelo admin
+ * @throws Erro com a orientação para o usuário
+ */
+export function assertPassphrase(passphrase: string): void {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`A senha do banco deve ter ao menos ${MIN_PASSPHRASE_LENGTH} caracteres`);
+  }
+}
+
+/**
+ * Indica se o navegador oferece WebCrypto (exige contexto seguro: HTTPS/localhost)
+ */
+export function isEncryptionSupported(): boolean {
+  return typeof crypto !== 'undefined' && typeof crypto.subtle !== 'undefined';
+}
+
+/**
+ * Indica se o binário foi gravado cifrado
+ */
+export function isEncryptedBlob(data: Uint8Array): boolean {
+  return data.length >= HEADER_LENGTH && MAGIC.every((byte, i) => data[i] === byte);
+}
+
+// ==================== CIFRA ====================
+
+/**
+ * Chaves em uso nesta aba
+ * Cifra com a chave atual (ou grava em texto puro sem chave atual) e
+ * decifra com qualquer chave conhecida.
+ */
+export class DbCipher {
+  private keys = new Map<string, CryptoKey>();
+  private currentKeyId: string | null = null;
+
+  get keyId(): string | null {
+    return this.currentKeyId;
+  }
+
+  /**
+   * Passa a cifrar com as chaves desbloqueadas
+   */
+  use(unlocked: DbUnlockedKeys): void {
+    unlocked.keys.forEach((key, keyId) => this.keys.set(keyId, key));
+    this.currentKeyId = unlocked.currentKeyId;
+  }
+
+  /**
+   * Passa a gravar em texto puro (as chaves seguem disponíveis para leitura)
+   */
+  disable(): void {
+    this.currentKeyId = null;
+  }
+
+  async encrypt(data: Uint8Array): Promise<Uint8Array> {
+    if (!this.currentKeyId) return data;
+
+    const keyId = new TextEncoder().encode(this.currentKeyId);
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const header = concatBytes(MAGIC, keyId, iv);
+
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: toArrayBuffer(iv), additionalData: toArrayBuffer(header) },
+      this.keys.get(this.currentKeyId)!,
+      toArrayBuffer(data)
+    );
+    return concatBytes(header, new Uint8Array(ciphertext));
+  }
+
+  /**
+   * @throws Erro se o binário usa uma chave não desbloqueada ou foi adulterado
+   */
+  async decrypt(data: Uint8Array): Promise<Uint8Array> {
+    if (!isEncryptedBlob(data)) return data;
+
+    const header = data.subarray(0, HEADER_LENGTH);
+    const keyId = new TextDecoder().decode(data.subarray(MAGIC.length, MAGIC.length + KEY_ID_LENGTH));
+    const iv = data.subarray(MAGIC.length + KEY_ID_LENGTH, HEADER_LENGTH);
+
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error('Banco criptografado com uma chave não desbloqueada nesta aba');
+    }
+
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: toArrayBuffer(iv), additionalData: toArrayBuffer(header) },
+        key,
+        toArrayBuffer(data.subarray(HEADER_LENGTH))
+      );
+      return new Uint8Array(plaintext);
+    } catch {
+      throw new Error('Arquivo do banco criptografado corrompido ou adulterado');
+    }
+  }
+}
+
+/**
+ * Backend que cifra/decifra os binários de outro backend (decorator)
+ */
+export class EncryptedStorageBackend implements DbStorageBackend {
+  constructor(
+    private readonly inner: DbStorageBackend,
+    private readonly cipher: DbCipher
+  ) {}
+
+  get name(): string {
+    return this.cipher.keyId ? `${this.inner.name} (criptografado)` : this.inner.name;
+  }
+
+  async load(key: string): Promise<Uint8Array | null> {
+    const data = await this.inner.load(key);
+    return data ? this.cipher.decrypt(data) : null;
+  }
+
+  async save(key: string, data: Uint8Array): Promise<void> {
+    await this.inner.save(key, await this.cipher.encrypt(data));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.inner.remove(key);
+  }
+
+  /**
+   * Regrava uma chave com a cifra atual (após ativar, desativar ou rotacionar)
+   * @returns true se a chave existia
+   */
+  async rewrite(key: string): Promise<boolean> {
+    const data = await this.load(key);
+    if (!data) return false;
+    await this.save(key, data);
+    return true;
+  }
+}
+
+// ==================== KEYRING ====================
+
+/**
+ * Keyring gravado no backend bruto (sem criptografia) sob uma chave própria
+ */
+export class DbKeyringStore {
+  private readonly encoder = new TextEncoder();
+  private readonly decoder = new TextDecoder();
+
+  constructor(
+    private readonly backend: DbStorageBackend,
+    private readonly storageKey: string
+  ) {}
+
+  /**
+   * @returns Keyring ou null se a criptografia está desativada
+   */
+  async load(): Promise<DbKeyring | null> {
+    const raw = await this.backend.load(this.storageKey);
+    if (!raw) return null;
+    return JSON.parse(this.decoder.decode(raw)) as DbKeyring;
+  }
+
+  /**
+   * ID da chave atual gravada (null = criptografia desativada)
+   */
+  async currentKeyId(): Promise<string | null> {
+    return (await this.load())?.current.keyId ?? null;
+  }
+
+  /**
+   * Cria o keyring com uma nova chave de dados
+   * @returns Chaves desbloqueadas e o código de recuperação (exibir uma única vez)
+   */
+  async create(passphrase: string): Promise<{ unlocked: DbUnlockedKeys; recoveryCode: string }> {
+    assertPassphrase(passphrase);
+    const { entry, key, recoveryCode } = await createEntry(passphrase);
+
+    await this.save({
+      version: 1,
+      current: entry,
+      previous: null,
+      createdAt: new Date().toISOString(),
+      rotatedAt: null
+    });
+
+    return { unlocked: { currentKeyId: entry.keyId, keys: new Map([[entry.keyId, key]]) }, recoveryCode };
+  }
+
+  /**
+   * Desbloqueia com a senha
+   * @throws Erro se a senha estiver incorreta
+   */
+  async unlock(passphrase: string): Promise<DbUnlockedKeys> {
+    return this.unlockWith(passphrase, 'passphrase', 'Senha do banco incorreta');
+  }
+
+  /**
+   * Desbloqueia com o código de recuperação e define uma nova senha
+   * @throws Erro se o código estiver incorreto
+   */
+  async recover(recoveryCode: string, newPassphrase: string): Promise<DbUnlockedKeys> {
+    assertPassphrase(newPassphrase);
+    const keyring = await this.require();
+    const unlocked = await this.unlockWith(normalizeRecoveryCode(recoveryCode), 'recovery', 'Código de recuperação incorreto');
+
+    await this.save(await rewrapPassphrase(keyring, unlocked, newPassphrase));
+    return unlocked;
+  }
+
+  /**
+   * Troca a senha (a chave de dados e o código de recuperação não mudam)
+   */
+  async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    assertPassphrase(newPassphrase);
+    const keyring = await this.require();
+    const unlocked = await this.unlock(currentPassphrase);
+
+    await this.save(await rewrapPassphrase(keyring, unlocked, newPassphrase));
+  }
+
+  /**
+   * Inicia a rotação: nova chave de dados passa a ser a atual e a anterior
+   * fica em previous até finishRotation()
+   * @returns Chaves (nova + anterior) e o novo código de recuperação
+   */
+  async beginRotation(passphrase: string): Promise<{ unlocked: DbUnlockedKeys; recoveryCode: string }> {
+    const keyring = await this.require();
+    if (keyring.previous) {
+      throw new Error('Rotação anterior não concluída: desbloqueie o banco novamente');
+    }
+    const previousKeys = await this.unlock(passphrase);
+    const previousKey = previousKeys.keys.get(keyring.current.keyId)!;
+    const { entry, key, recoveryCode } = await createEntry(passphrase);
+
+    await this.save({
+      ...keyring,
+      current: entry,
+      previous: {
+        keyId: keyring.current.keyId,
+        passphrase: keyring.current.passphrase,
+        recovery: await wrapKey(previousKey, recoveryCode)
+      },
+      rotatedAt: new Date().toISOString()
+    });
+
+    return {
+      unlocked: {
+        currentKeyId: entry.keyId,
+        keys: new Map([[keyring.current.keyId, previousKey], [entry.keyId, key]])
+      },
+      recoveryCode
+    };
+  }
+
+  /**
+   * Conclui a rotação (todos os binários regravados com a nova chave)
+   */
+  async finishRotation(): Promise<void> {
+    const keyring = await this.require();
+    if (keyring.previous) {
+      await this.save({ ...keyring, previous: null });
+    }
+  }
+
+  /**
+   * Indica uma rotação interrompida (binários ainda com a chave anterior)
+   */
+  async hasPendingRotation(): Promise<boolean> {
+    return Boolean((await this.load())?.previous);
+  }
+
+  async remove(): Promise<void> {
+    await this.backend.remove(this.storageKey);
+  }
+
+  private async unlockWith(secret: string, slot: 'passphrase' | 'recovery', errorMessage: string): Promise<DbUnlockedKeys> {
+    const keyring = await this.require();
+    const entries = [keyring.current, keyring.previous].filter((entry): entry is DbKeyringEntry => entry !== null);
+    const keys = new Map<string, CryptoKey>();
+
+    try {
+      for (const entry of entries) {
+        keys.set(entry.keyId, await unwrapKey(entry[slot], secret));
+      }
+    } catch {
+      // AES-GCM autentica o embrulho: falha = segredo incorreto
+      throw new Error(errorMessage);
+    }
+
+    return { currentKeyId: keyring.current.keyId, keys };
+  }
+
+  private async require(): Promise<DbKeyring> {
+    const keyring = await this.load();
+    if (!keyring) {
+      throw new Error('Criptografia do banco não está ativada');
+    }
+    return keyring;
+  }
+
+  private async save(keyring: DbKeyring): Promise<void> {
+    await this.backend.save(this.storageKey, this.encoder.encode(JSON.stringify(keyring)));
+  }
+}
+
+// ==================== CHAVES ====================
+
+async function createEntry(passphrase: string): Promise<{ entry: DbKeyringEntry; key: CryptoKey; recoveryCode: string }> {
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const recoveryCode = generateRecoveryCode();
+
+  return {
+    entry: {
+      keyId: randomHex(KEY_ID_LENGTH / 2),
+      passphrase: await wrapKey(key, passphrase),
+      recovery: await wrapKey(key, normalizeRecoveryCode(recoveryCode))
+    },
+    key,
+    recoveryCode
+  };
+}
+
+/**
+ * Reembrulha as chaves de dados com uma nova senha (current e previous)
+ */
+async function rewrapPassphrase(keyring: DbKeyring, unlocked: DbUnlockedKeys, newPassphrase: string): Promise<DbKeyring> {
+  const rewrap = async (entry: DbKeyringEntry): Promise<DbKeyringEntry> => ({
+    ...entry,
+    passphrase: await wrapKey(unlocked.keys.get(entry.keyId)!, newPassphrase)
+  });
+
+  return {
+    ...keyring,
+    current: await rewrap(keyring.current),
+    previous: keyring.previous ? await rewrap(keyring.previous) : null
+  };
+}
+
+async function deriveWrappingKey(secret: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    toArrayBuffer(new TextEncoder().encode(secret)),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: toArrayBuffer(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+async function wrapKey(key: CryptoKey, secret: string): Promise<WrappedKey> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const wrappingKey = await deriveWrappingKey(secret, salt, PBKDF2_ITERATIONS);
+  const wrapped = await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv: toArrayBuffer(iv) });
+
+  return {
+    salt: uint8ArrayToBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    iv: uint8ArrayToBase64(iv),
+    data: uint8ArrayToBase64(new Uint8Array(wrapped))
+  };
+}
+
+async function unwrapKey(wrapped: WrappedKey, secret: string): Promise<CryptoKey> {
+  const wrappingKey = await deriveWrappingKey(secret, base64ToUint8Array(wrapped.salt), wrapped.iterations);
+  return crypto.subtle.unwrapKey(
+    'raw',
+    toArrayBuffer(base64ToUint8Array(wrapped.data)),
+    wrappingKey,
+    { name: 'AES-GCM', iv: toArrayBuffer(base64ToUint8Array(wrapped.iv)) },
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Código de recuperação legível (ex: ABCDE-FGHJK-...)
+ */
+function generateRecoveryCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_GROUPS * RECOVERY_GROUP_SIZE));
+  const chars = Array.from(bytes, byte => RECOVERY_ALPHABET[byte % RECOVERY_ALPHABET.length]);
+  const groups: string[] = [];
+  for (let i = 0; i < chars.length; i += RECOVERY_GROUP_SIZE) {
+    groups.push(chars.slice(i, i + RECOVERY_GROUP_SIZE).join(''));
+  }
+  return groups.join('-');
+}
+
+/**
+ * Ignora hífens, espaços e maiúsculas/minúsculas digitados
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Cópia em um ArrayBuffer próprio (WebCrypto não aceita views de SharedArrayBuffer)
+ */
+function toArrayBuffer(data: Uint8Array): ArrayBuffer {
+  return data.slice().buffer as ArrayBuffer;
+}
@@ -0,0 +1,245 @@
+import initSqlJs, { type Database, type SqlJsStatic } from 'sql.js';
+import {
+  BASE_SCHEMA_VERSION,
+  DB_MIGRATIONS,
+  LATEST_SCHEMA_VERSION,
+  addColumnIfMissing,
+  columnExists,
+  readSchemaVersion,
+  rebuildTable,
+  tableExists,
+  writeSchemaVersion
+} from './db-migrations';
+
+/**
+ * Schema anterior à v10: só tipos de cerveja, vendas e configurações
+ */
+const LEGACY_V9_SCHEMA = `
+  CREATE TABLE prd_beer_types (
+    num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    desc_name TEXT NOT NULL UNIQUE,
+    desc_color TEXT NOT NULL DEFAULT '#D4A574',
+    desc_description TEXT
+  );
+  CREATE TABLE prd_sales (
+    num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    num_beer_id INTEGER NOT NULL,
+    desc_beer_name TEXT NOT NULL,
+    num_cup_size INTEGER NOT NULL CHECK(num_cup_size IN (300, 500, 1000)),
+    num_quantity INTEGER NOT NULL CHECK(num_quantity > 0),
+    dt_timestamp TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    num_total_volume REAL NOT NULL CHECK(num_total_volume > 0),
+    FOREIGN KEY (num_beer_id) REFERENCES prd_beer_types(num_id) ON DELETE CASCADE
+  );
+  CREATE INDEX idx_sales_dt_timestamp ON prd_sales(dt_timestamp);
+  CREATE TABLE config_settings (
+    num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    desc_email TEXT NOT NULL UNIQUE,
+    num_is_configured INTEGER NOT NULL DEFAULT 0 CHECK(num_is_configured IN (0, 1))
+  );
+  CREATE TABLE db_version (num_version INTEGER PRIMARY KEY);
+  INSERT INTO db_version (num_version) VALUES (9);
+`;
+
+/**
+ * Aplica as migrations como DatabaseService.applyMigrations (uma transação cada)
+ */
+function migrate(db: Database, fromVersion: number): void {
+  DB_MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .forEach(migration => {
+      db.run('BEGIN TRANSACTION');
+      migration.up(db);
+      writeSchemaVersion(db, migration.version);
+      db.run('COMMIT');
+    });
+}
+
+function scalar(db: Database, sql: string): unknown {
+  return db.exec(sql)[0]?.values[0]?.[0] ?? null;
+}
+
+function schemaSnapshot(db: Database): string[] {
+  const result = db.exec("SELECT type || ' ' || name || ': ' || sql FROM sqlite_master WHERE sql IS NOT NULL ORDER BY type, name");
+  return (result[0]?.values ?? []).map((row: unknown[]) => String(row[0]));
+}
+
+describe('db-migrations', () => {
+  let SQL: SqlJsStatic;
+  let db: Database;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs({ locateFile: (file: string) => `assets/${file}` });
+  });
+
+  beforeEach(() => {
+    db = new SQL.Database();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('DB_MIGRATIONS', () => {
+    it('tem versões consecutivas a partir da v10', () => {
+      const versions = DB_MIGRATIONS.map(migration => migration.version);
+      expect(versions[0]).toBe(10);
+      versions.forEach((version, index) => expect(version).toBe(10 + index));
+    });
+
+    it('LATEST_SCHEMA_VERSION é a última migration e não fica abaixo da base', () => {
+      expect(LATEST_SCHEMA_VERSION).toBe(DB_MIGRATIONS[DB_MIGRATIONS.length - 1].version);
+      expect(LATEST_SCHEMA_VERSION).toBeGreaterThanOrEqual(BASE_SCHEMA_VERSION);
+    });
+
+    it('toda migration tem descrição', () => {
+      DB_MIGRATIONS.forEach(migration => expect(migration.description.trim()).not.toBe(''));
+    });
+  });
+
+  describe('migração de um banco v9', () => {
+    beforeEach(() => {
+      db.exec(LEGACY_V9_SCHEMA);
+      db.run("INSERT INTO prd_beer_types (desc_name) VALUES ('Pilsen')");
+      db.run("INSERT INTO prd_sales (num_beer_id, desc_beer_name, num_cup_size, num_quantity, num_total_volume) VALUES (1, 'Pilsen', 500, 2, 1000)");
+    });
+
+    it('chega à última versão preservando as vendas', () => {
+      migrate(db, readSchemaVersion(db));
+
+      expect(readSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+      expect(scalar(db, 'SELECT COUNT(*) FROM prd_sales')).toBe(1);
+      expect(scalar(db, 'SELECT num_total_volume FROM prd_sales WHERE num_id = 1')).toBe(1000);
+      expect(scalar(db, "SELECT desc_name FROM prd_beer_types WHERE num_id = 1")).toBe('Pilsen');
+    });
+
+    it('cria as tabelas e colunas das migrations', () => {
+      migrate(db, readSchemaVersion(db));
+
+      ['prd_users', 'prd_events', 'prd_comandas', 'prd_empresa', 'config_snapshot', 'prd_sync_outbox', 'config_audit'].forEach(table => {
+        expect(tableExists(db, table)).withContext(table).toBeTrue();
+      });
+      expect(columnExists(db, 'prd_sales', 'num_comanda_id')).toBeTrue();
+      expect(columnExists(db, 'prd_sales', 'desc_sync_id')).toBeTrue();
+      expect(columnExists(db, 'prd_users', 'int_user_active')).toBeTrue();
+      expect(columnExists(db, 'config_client', 'num_receipt_width')).toBeTrue();
+      expect(columnExists(db, 'prd_comandas', 'desc_pix_txid')).toBeTrue();
+    });
+
+    it('é idempotente: reaplicar as migrations não altera o schema', () => {
+      migrate(db, readSchemaVersion(db));
+      const before = schemaSnapshot(db);
+
+      migrate(db, 9);
+
+      expect(schemaSnapshot(db)).toEqual(before);
+      expect(scalar(db, 'SELECT COUNT(*) FROM prd_sales')).toBe(1);
+    });
+  });
+
+  describe('v28 e v30: sincronização do catálogo, estornos e contas pagas', () => {
+    const migrateTo = (target: number) => DB_MIGRATIONS
+      .filter(migration => migration.version > readSchemaVersion(db) && migration.version <= target)
+      .forEach(migration => {
+        migration.up(db);
+        writeSchemaVersion(db, migration.version);
+      });
+
+    beforeEach(() => {
+      db.exec(LEGACY_V9_SCHEMA);
+      db.run("INSERT INTO prd_beer_types (desc_name) VALUES ('Pilsen'), ('IPA')");
+      migrateTo(27);
+      db.run("INSERT INTO prd_events (desc_name_event, desc_local_event, dt_data_event) VALUES ('Festa', 'Clube', '2026-03-10')");
+      db.run("INSERT INTO prd_users (desc_username, desc_email, desc_password_hash, desc_role) VALUES ('admin', 'admin@x', 'x', 'admin')");
+      db.run(
+        `INSERT INTO prd_sales (num_beer_id, desc_beer_name, num_cup_size, num_quantity, num_total_volume, num_user_id, num_event_id, desc_sync_id)
+         VALUES (2, 'IPA', 500, 1, 500, 1, 1, 'venda-1')`
+      );
+      db.run(
+        `INSERT INTO prd_sync_outbox (desc_op_id, desc_entity, desc_payload, dt_created_at) VALUES
+         ('op-1', 'sale', '{"saleUid":"venda-1","beerName":"IPA","eventName":"Festa"}', '2026-03-10'),
+         ('op-2', 'stock', '{"beerName":"Pilsen","eventName":null,"mode":"set","liters":50}', '2026-03-10')`
+      );
+    });
+
+    it('atribui identificadores únicos às cervejas e eventos existentes', () => {
+      migrateTo(28);
+
+      expect(scalar(db, 'SELECT COUNT(DISTINCT desc_sync_id) FROM prd_beer_types')).toBe(2);
+      expect(scalar(db, 'SELECT COUNT(*) FROM prd_events WHERE desc_sync_id IS NULL')).toBe(0);
+      expect(() => db.run("UPDATE prd_beer_types SET desc_sync_id = (SELECT desc_sync_id FROM prd_beer_types WHERE num_id = 1) WHERE num_id = 2"))
+        .toThrowError(/UNIQUE/);
+    });
+
+    it('acrescenta os identificadores às alterações pendentes na fila', () => {
+      migrateTo(28);
+
+      const payload = (opId: string) => JSON.parse(String(scalar(db, `SELECT desc_payload FROM prd_sync_outbox WHERE desc_op_id = '${opId}'`)));
+      expect(payload('op-1').beerSyncId).toBe(scalar(db, 'SELECT desc_sync_id FROM prd_beer_types WHERE num_id = 2'));
+      expect(payload('op-1').eventSyncId).toBe(scalar(db, 'SELECT desc_sync_id FROM prd_events WHERE num_id = 1'));
+      expect(payload('op-2').beerSyncId).toBe(scalar(db, 'SELECT desc_sync_id FROM prd_beer_types WHERE num_id = 1'));
+      expect(payload('op-2').eventSyncId).toBeNull();
+    });
+
+    it('aceita cadastros de cerveja e evento na fila e cria a tabela de estacionadas', () => {
+      migrateTo(28);
+
+      db.run("INSERT INTO prd_sync_outbox (desc_op_id, desc_entity, desc_payload, dt_created_at) VALUES ('op-3', 'beer', '{}', '2026-03-10')");
+      expect(tableExists(db, 'prd_sync_parked')).toBeTrue();
+      expect(scalar(db, 'SELECT COUNT(*) FROM prd_sync_outbox')).toBe(3);
+    });
+
+    it('aceita estornos e contas pagas na fila sem perder as pendentes', () => {
+      migrateTo(30);
+
+      db.run("INSERT INTO prd_sync_outbox (desc_op_id, desc_entity, desc_payload, dt_created_at) VALUES ('op-3', 'void', '{}', '2026-03-10'), ('op-4', 'bill', '{}', '2026-03-10')");
+      expect(scalar(db, 'SELECT COUNT(*) FROM prd_sync_outbox')).toBe(4);
+      expect(columnExists(db, 'prd_sale_voids', 'desc_sync_id')).toBeTrue();
+    });
+  });
+
+  describe('helpers', () => {
+    it('readSchemaVersion devolve 0 sem db_version e a versão gravada depois', () => {
+      expect(readSchemaVersion(db)).toBe(0);
+
+      writeSchemaVersion(db, 14);
+      writeSchemaVersion(db, 15);
+
+      expect(readSchemaVersion(db)).toBe(15);
+      expect(scalar(db, 'SELECT COUNT(*) FROM db_version')).toBe(1);
+    });
+
+    it('addColumnIfMissing só adiciona a coluna uma vez', () => {
+      db.run('CREATE TABLE t (num_id INTEGER PRIMARY KEY)');
+
+      addColumnIfMissing(db, 't', 'desc_name', 'TEXT');
+      addColumnIfMissing(db, 't', 'desc_name', 'TEXT');
+
+      expect(columnExists(db, 't', 'desc_name')).toBeTrue();
+    });
+
+    it('rebuildTable troca o CHECK preservando linhas, índices e a sequência', () => {
+      db.run("CREATE TABLE t (num_id INTEGER PRIMARY KEY AUTOINCREMENT, desc_kind TEXT NOT NULL CHECK(desc_kind IN ('a')))");
+      db.run('CREATE INDEX idx_t_desc_kind ON t(desc_kind)');
+      db.run("INSERT INTO t (desc_kind) VALUES ('a'), ('a'), ('a')");
+      db.run('DELETE FROM t WHERE num_id = 3');
+
+      rebuildTable(db, 't', sql => sql.replace("IN ('a')", "IN ('a', 'b')"));
+      db.run("INSERT INTO t (desc_kind) VALUES ('b')");
+
+      expect(scalar(db, 'SELECT COUNT(*) FROM t')).toBe(3);
+      expect(scalar(db, "SELECT num_id FROM t WHERE desc_kind = 'b'")).toBe(4);
+      expect(scalar(db, "SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 't'")).toBe('idx_t_desc_kind');
+      expect(tableExists(db, 't_rebuild')).toBeFalse();
+    });
+
+    it('rebuildTable não recria a tabela se a definição não mudar', () => {
+      db.run('CREATE TABLE t (num_id INTEGER PRIMARY KEY)');
+      const before = schemaSnapshot(db);
+
+      rebuildTable(db, 't', sql => sql);
+
+      expect(schemaSnapshot(db)).toEqual(before);
+    });
+  });
+});
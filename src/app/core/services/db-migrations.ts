@@ -0,0 +1,805 @@
+// src/app/core/services/db-migrations.ts
+import type { Database } from 'sql.js';
+import { createSyncId } from '../models/sync.model';
+
+/**
+ * Migrations versionadas do schema SQLite
+ *
+ * REGRAS:
+ * - Cada migration leva o banco da versão (version - 1) para a versão `version`
+ * - A lista é aplicada em ordem crescente, a partir da versão gravada em db_version
+ * - Cada migration roda dentro de uma transação (DatabaseService.migrateSchema)
+ * - Migrations devem ser idempotentes: bancos antigos podem ter recebido
+ *   parte das alterações pelo validador ad-hoc anterior
+ * - NUNCA altere uma migration já publicada; crie uma nova com a próxima versão
+ */
+export interface DbMigration {
+  version: number;
+  description: string;
+  up(db: Database): void;
+}
+
+/**
+ * Versão criada diretamente por DatabaseService.createBaseSchema()
+ * Bancos novos nascem nesta versão e recebem as migrations seguintes
+ */
+export const BASE_SCHEMA_VERSION = 12;
+
+// ==================== HELPERS ====================
+
+/**
+ * Verifica se uma tabela existe
+ */
+export function tableExists(db: Database, tableName: string): boolean {
+  const stmt = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?");
+  stmt.bind([tableName]);
+  const exists = stmt.step();
+  stmt.free();
+  return exists;
+}
+
+/**
+ * Verifica se uma coluna existe em uma tabela
+ */
+export function columnExists(db: Database, tableName: string, columnName: string): boolean {
+  const result = db.exec(`PRAGMA table_info(${tableName})`);
+  if (result.length === 0) return false;
+
+  const nameIndex = result[0].columns.indexOf('name');
+  return result[0].values.some((row: unknown[]) => row[nameIndex] === columnName);
+}
+
+/**
+ * Adiciona uma coluna apenas se ela ainda não existir
+ */
+export function addColumnIfMissing(db: Database, tableName: string, columnName: string, definition: string): void {
+  if (!columnExists(db, tableName, columnName)) {
+    db.run(`ALTER TABLE ${tableName} ADD COLUMN ${columnName} ${definition}`);
+  }
+}
+
+/**
+ * Recria uma tabela com outra definição, preservando linhas, índices e a
+ * sequência do AUTOINCREMENT (SQLite não altera CHECKs de colunas existentes)
+ * @param transform Recebe o CREATE TABLE atual e devolve o novo (mesmas colunas);
+ *                  se nada mudar, a tabela é mantida
+ */
+export function rebuildTable(db: Database, tableName: string, transform: (createSql: string) => string): void {
+  const entries: { type: string; sql: string }[] = [];
+  const stmt = db.prepare("SELECT type, sql FROM sqlite_master WHERE tbl_name = ? AND sql IS NOT NULL");
+  stmt.bind([tableName]);
+  while (stmt.step()) {
+    const [type, sql] = stmt.get();
+    entries.push({ type: String(type), sql: String(sql) });
+  }
+  stmt.free();
+
+  const createSql = entries.find(entry => entry.type === 'table')?.sql;
+  if (!createSql) return;
+
+  const transformed = transform(createSql);
+  if (transformed === createSql) return;
+
+  const indexSqls = entries.filter(entry => entry.type === 'index').map(entry => entry.sql);
+  const tempName = `${tableName}_rebuild`;
+  const newSql = transformed.replace(
+    /^CREATE TABLE\s+(IF NOT EXISTS\s+)?["'`]?\w+["'`]?/i,
+    `CREATE TABLE ${tempName}`
+  );
+
+  const columns = db.exec(`PRAGMA table_info(${tableName})`)[0].values
+    .map((row: unknown[]) => String(row[1]))
+    .join(', ');
+  const sequence = tableExists(db, 'sqlite_sequence')
+    ? db.exec(`SELECT seq FROM sqlite_sequence WHERE name = '${tableName}'`)[0]?.values[0]?.[0] ?? null
+    : null;
+
+  db.run(`DROP TABLE IF EXISTS ${tempName}`);
+  db.run(newSql);
+  db.run(`INSERT INTO ${tempName} (${columns}) SELECT ${columns} FROM ${tableName}`);
+  db.run(`DROP TABLE ${tableName}`);
+  db.run(`ALTER TABLE ${tempName} RENAME TO ${tableName}`);
+  indexSqls.forEach(sql => db.run(sql));
+
+  if (sequence !== null) {
+    db.run('UPDATE sqlite_sequence SET seq = MAX(seq, ?) WHERE name = ?', [sequence, tableName]);
+  }
+}
+
+/**
+ * Lê a versão gravada em db_version (0 se a tabela não existir)
+ */
+export function readSchemaVersion(db: Database): number {
+  if (!tableExists(db, 'db_version')) return 0;
+
+  const result = db.exec('SELECT MAX(num_version) FROM db_version');
+  if (result.length === 0 || result[0].values.length === 0) return 0;
+  return Number(result[0].values[0][0]) || 0;
+}
+
+/**
+ * Grava a versão em db_version (mantém uma única linha)
+ */
+export function writeSchemaVersion(db: Database, version: number): void {
+  db.run('CREATE TABLE IF NOT EXISTS db_version (num_version INTEGER PRIMARY KEY)');
+  db.run('DELETE FROM db_version');
+  db.run('INSERT INTO db_version (num_version) VALUES (?)', [version]);
+}
+
+// ==================== MIGRATIONS ====================
+
+export const DB_MIGRATIONS: readonly DbMigration[] = [
+  {
+    version: 10,
+    description: 'Estrutura v10: usuários, eventos, comandas e vínculos em prd_sales',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS prd_users (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          desc_username TEXT NOT NULL UNIQUE,
+          desc_email TEXT NOT NULL UNIQUE,
+          desc_password_hash TEXT NOT NULL,
+          desc_role TEXT NOT NULL CHECK(desc_role IN ('user', 'gestor', 'admin')) DEFAULT 'user',
+          dt_created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          dt_last_login_at TEXT
+        )
+      `);
+      db.run(`
+        CREATE TABLE IF NOT EXISTS prd_events (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          desc_name_event TEXT NOT NULL,
+          desc_local_event TEXT NOT NULL,
+          dt_data_event TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          desc_contact_event TEXT,
+          desc_name_contact_event TEXT,
+          desc_status TEXT NOT NULL CHECK(desc_status IN ('planejamento', 'ativo', 'finalizado')) DEFAULT 'planejamento',
+          dt_created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      db.run(`
+        CREATE TABLE IF NOT EXISTS prd_comandas (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          num_numero INTEGER NOT NULL UNIQUE,
+          desc_status TEXT NOT NULL CHECK(desc_status IN ('disponivel', 'em_uso', 'aguardando_pagamento')) DEFAULT 'disponivel',
+          num_total_value REAL DEFAULT 0,
+          dt_opened_at TEXT,
+          dt_closed_at TEXT,
+          dt_paid_at TEXT,
+          dt_created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      db.run(`
+        CREATE TABLE IF NOT EXISTS config_client (
+          num_id INTEGER PRIMARY KEY CHECK(num_id = 1),
+          desc_company_name TEXT,
+          desc_logo_base64 TEXT,
+          desc_logo_mime_type TEXT,
+          desc_logo_file_name TEXT,
+          dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      db.run(`
+        CREATE TABLE IF NOT EXISTS config_stock_alert (
+          num_id INTEGER PRIMARY KEY CHECK(num_id = 1),
+          num_min_liters REAL NOT NULL DEFAULT 5.0 CHECK(num_min_liters >= 0),
+          dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      db.run('INSERT OR IGNORE INTO config_stock_alert (num_id, num_min_liters) VALUES (1, 5.0)');
+      db.run(`
+        CREATE TABLE IF NOT EXISTS config_event_sale (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          num_beer_id INTEGER NOT NULL,
+          desc_beer_name TEXT NOT NULL,
+          num_quantidade_litros REAL NOT NULL DEFAULT 0 CHECK(num_quantidade_litros >= 0),
+          num_min_liters_alert REAL DEFAULT 5.0 CHECK(num_min_liters_alert >= 0),
+          num_event_id INTEGER,
+          dt_created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (num_beer_id) REFERENCES prd_beer_types(num_id) ON DELETE CASCADE,
+          FOREIGN KEY (num_event_id) REFERENCES prd_events(num_id) ON DELETE CASCADE,
+          UNIQUE(num_beer_id, num_event_id)
+        )
+      `);
+      db.run(`
+        CREATE TABLE IF NOT EXISTS config_sales (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          num_beer_id INTEGER NOT NULL,
+          desc_beer_name TEXT NOT NULL,
+          num_price_300ml REAL NOT NULL DEFAULT 0 CHECK(num_price_300ml >= 0),
+          num_price_500ml REAL NOT NULL DEFAULT 0 CHECK(num_price_500ml >= 0),
+          num_price_1000ml REAL NOT NULL DEFAULT 0 CHECK(num_price_1000ml >= 0),
+          num_event_id INTEGER,
+          dt_created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (num_beer_id) REFERENCES prd_beer_types(num_id) ON DELETE CASCADE,
+          FOREIGN KEY (num_event_id) REFERENCES prd_events(num_id) ON DELETE CASCADE,
+          UNIQUE(num_beer_id, num_event_id)
+        )
+      `);
+
+      // Vínculos de prd_sales (colunas adicionadas como opcionais em bancos antigos)
+      addColumnIfMissing(db, 'prd_sales', 'num_comanda_id', 'INTEGER');
+      addColumnIfMissing(db, 'prd_sales', 'num_user_id', 'INTEGER');
+      addColumnIfMissing(db, 'prd_sales', 'num_event_id', 'INTEGER');
+
+      db.run('CREATE INDEX IF NOT EXISTS idx_sales_num_comanda_id ON prd_sales(num_comanda_id)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_sales_num_user_id ON prd_sales(num_user_id)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_sales_num_event_id ON prd_sales(num_event_id)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_events_desc_status ON prd_events(desc_status)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_comandas_desc_status ON prd_comandas(desc_status)');
+    }
+  },
+  {
+    version: 11,
+    description: 'Coluna int_user_active em prd_users',
+    up: (db) => {
+      addColumnIfMissing(db, 'prd_users', 'int_user_active', 'INTEGER NOT NULL DEFAULT 1 CHECK(int_user_active IN (0, 1))');
+    }
+  },
+  {
+    version: 12,
+    description: 'Tabela prd_empresa',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS prd_empresa (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          desc_razao_social TEXT NOT NULL,
+          desc_cnpj TEXT NOT NULL UNIQUE,
+          desc_endereco TEXT NOT NULL,
+          desc_cep TEXT NOT NULL,
+          desc_cidade TEXT NOT NULL,
+          desc_estado TEXT NOT NULL,
+          desc_responsavel_empresa TEXT NOT NULL,
+          num_gestor_empresa INTEGER,
+          int_active INTEGER NOT NULL DEFAULT 1 CHECK(int_active IN (0, 1)),
+          dt_created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (num_gestor_empresa) REFERENCES prd_users(num_id) ON DELETE SET NULL
+        )
+      `);
+      db.run('CREATE INDEX IF NOT EXISTS idx_empresa_desc_cnpj ON prd_empresa(desc_cnpj)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_empresa_int_active ON prd_empresa(int_active)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_empresa_num_gestor ON prd_empresa(num_gestor_empresa)');
+    }
+  },
+  {
+    version: 13,
+    description: 'Configuração de snapshots automáticos (config_snapshot)',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS config_snapshot (
+          num_id INTEGER PRIMARY KEY CHECK(num_id = 1),
+          int_enabled INTEGER NOT NULL DEFAULT 1 CHECK(int_enabled IN (0, 1)),
+          num_hourly_retention_hours INTEGER NOT NULL DEFAULT 48 CHECK(num_hourly_retention_hours >= 1),
+          num_daily_retention_days INTEGER NOT NULL DEFAULT 30 CHECK(num_daily_retention_days >= 1),
+          dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      db.run('INSERT OR IGNORE INTO config_snapshot (num_id) VALUES (1)');
+    }
+  },
+  {
+    version: 14,
+    description: 'Sincronização entre terminais (prd_sync_outbox, config_sync)',
+    up: (db) => {
+      // Identificador global da venda entre terminais (vendas remotas não duplicam)
+      addColumnIfMissing(db, 'prd_sales', 'desc_sync_id', 'TEXT');
+      db.run('CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_desc_sync_id ON prd_sales(desc_sync_id)');
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS prd_sync_outbox (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          desc_op_id TEXT NOT NULL UNIQUE,
+          desc_entity TEXT NOT NULL CHECK(desc_entity IN ('sale', 'stock', 'comanda')),
+          desc_payload TEXT NOT NULL,
+          num_attempts INTEGER NOT NULL DEFAULT 0,
+          desc_last_error TEXT,
+          dt_created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      db.run(`
+        CREATE TABLE IF NOT EXISTS config_sync (
+          num_id INTEGER PRIMARY KEY CHECK(num_id = 1),
+          int_enabled INTEGER NOT NULL DEFAULT 0 CHECK(int_enabled IN (0, 1)),
+          desc_server_url TEXT NOT NULL DEFAULT '',
+          desc_token TEXT NOT NULL DEFAULT '',
+          desc_terminal_id TEXT NOT NULL,
+          num_last_seq INTEGER NOT NULL DEFAULT 0,
+          dt_last_sync_at TEXT,
+          dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      db.run(
+        'INSERT OR IGNORE INTO config_sync (num_id, desc_terminal_id) VALUES (1, ?)',
+        [`T-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`.toUpperCase()]
+      );
+    }
+  },
+  {
+    version: 15,
+    description: 'Auditoria de alterações (prd_audit_log)',
+    up: (db) => {
+      // Preenchida pelas triggers TEMP de db-audit.ts
+      db.run(`
+        CREATE TABLE IF NOT EXISTS prd_audit_log (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          dt_created_at TEXT NOT NULL,
+          num_user_id INTEGER,
+          desc_username TEXT,
+          desc_origin TEXT,
+          desc_table TEXT NOT NULL,
+          num_row_id INTEGER,
+          desc_action TEXT NOT NULL CHECK(desc_action IN ('INSERT', 'UPDATE', 'DELETE')),
+          desc_before TEXT,
+          desc_after TEXT
+        )
+      `);
+      db.run('CREATE INDEX IF NOT EXISTS idx_audit_dt_created_at ON prd_audit_log(dt_created_at)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_audit_desc_table ON prd_audit_log(desc_table, num_row_id)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_audit_desc_username ON prd_audit_log(desc_username)');
+    }
+  },
+  {
+    version: 16,
+    description: 'Arquivamento de cervejas e eventos (dt_archived_at)',
+    up: (db) => {
+      // NULL = ativo; arquivado fica fora das vendas e continua nos relatórios
+      addColumnIfMissing(db, 'prd_beer_types', 'dt_archived_at', 'TEXT');
+      addColumnIfMissing(db, 'prd_events', 'dt_archived_at', 'TEXT');
+    }
+  },
+  {
+    version: 17,
+    description: 'Índice dos arquivos de vendas antigas (prd_sales_archives)',
+    up: (db) => {
+      // As vendas ficam compactadas fora do banco (db-archive.ts); aqui só o índice
+      db.run(`
+        CREATE TABLE IF NOT EXISTS prd_sales_archives (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          desc_key TEXT NOT NULL UNIQUE,
+          dt_created_at TEXT NOT NULL,
+          desc_criteria TEXT NOT NULL,
+          num_sales_count INTEGER NOT NULL,
+          dt_first_sale TEXT,
+          dt_last_sale TEXT,
+          num_size_bytes INTEGER NOT NULL,
+          desc_beer_ids TEXT NOT NULL DEFAULT '[]',
+          desc_event_ids TEXT NOT NULL DEFAULT '[]'
+        )
+      `);
+    }
+  },
+  {
+    version: 18,
+    description: 'Consultas salvas do console SQL (prd_saved_queries)',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS prd_saved_queries (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          desc_name TEXT NOT NULL UNIQUE,
+          desc_sql TEXT NOT NULL,
+          dt_created_at TEXT NOT NULL,
+          dt_updated_at TEXT NOT NULL
+        )
+      `);
+    }
+  },
+  {
+    version: 19,
+    description: 'Preço unitário e total gravados na venda (prd_sales)',
+    up: (db) => {
+      addColumnIfMissing(db, 'prd_sales', 'num_unit_price', 'REAL NOT NULL DEFAULT 0');
+      addColumnIfMissing(db, 'prd_sales', 'num_total_price', 'REAL NOT NULL DEFAULT 0');
+
+      // Vendas anteriores: preço vigente hoje (o do evento da venda, senão o geral)
+      db.run(`
+        UPDATE prd_sales SET num_unit_price = COALESCE((
+          SELECT CASE prd_sales.num_cup_size
+                   WHEN 300 THEN sc.num_price_300ml
+                   WHEN 500 THEN sc.num_price_500ml
+                   WHEN 1000 THEN sc.num_price_1000ml
+                 END
+          FROM config_sales sc
+          WHERE sc.num_beer_id = prd_sales.num_beer_id
+            AND (sc.num_event_id = prd_sales.num_event_id OR sc.num_event_id IS NULL)
+          ORDER BY sc.num_event_id IS NULL
+          LIMIT 1
+        ), 0)
+        WHERE num_unit_price = 0
+      `);
+      db.run('UPDATE prd_sales SET num_total_price = num_quantity * num_unit_price WHERE num_total_price = 0');
+    }
+  },
+  {
+    version: 20,
+    description: 'Catálogo de tamanhos de copo e preços por tamanho',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS config_cup_sizes (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          desc_label TEXT NOT NULL,
+          num_volume_ml INTEGER NOT NULL UNIQUE CHECK(num_volume_ml > 0),
+          int_active INTEGER NOT NULL DEFAULT 1 CHECK(int_active IN (0, 1)),
+          num_order INTEGER NOT NULL DEFAULT 0,
+          dt_created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      db.run(`
+        INSERT OR IGNORE INTO config_cup_sizes (desc_label, num_volume_ml, num_order)
+        VALUES ('300ml', 300, 1), ('500ml', 500, 2), ('1L', 1000, 3)
+      `);
+
+      // Preço por cerveja × tamanho × evento (NULL = preço geral)
+      db.run(`
+        CREATE TABLE IF NOT EXISTS config_sale_prices (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          num_beer_id INTEGER NOT NULL,
+          num_cup_size_id INTEGER NOT NULL,
+          num_event_id INTEGER,
+          num_price REAL NOT NULL DEFAULT 0 CHECK(num_price >= 0),
+          dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (num_beer_id) REFERENCES prd_beer_types(num_id) ON DELETE CASCADE,
+          FOREIGN KEY (num_cup_size_id) REFERENCES config_cup_sizes(num_id) ON DELETE CASCADE,
+          FOREIGN KEY (num_event_id) REFERENCES prd_events(num_id) ON DELETE CASCADE
+        )
+      `);
+      db.run(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_sale_prices_beer_size_event
+        ON config_sale_prices(num_beer_id, num_cup_size_id, IFNULL(num_event_id, 0))
+      `);
+      db.run('CREATE INDEX IF NOT EXISTS idx_sale_prices_num_event_id ON config_sale_prices(num_event_id)');
+
+      // Preços das colunas fixas (300/500/1000ml) viram linhas do catálogo
+      if (tableExists(db, 'config_sales')) {
+        db.run(`
+          INSERT OR IGNORE INTO config_sale_prices (num_beer_id, num_cup_size_id, num_event_id, num_price, dt_updated_at)
+          SELECT sc.num_beer_id, cs.num_id, sc.num_event_id,
+                 CASE cs.num_volume_ml
+                   WHEN 300 THEN sc.num_price_300ml
+                   WHEN 500 THEN sc.num_price_500ml
+                   ELSE sc.num_price_1000ml
+                 END,
+                 sc.dt_updated_at
+          FROM config_sales sc
+          JOIN config_cup_sizes cs ON cs.num_volume_ml IN (300, 500, 1000)
+        `);
+        db.run('DROP TABLE config_sales');
+      }
+
+      // Vendas aceitam qualquer volume do catálogo
+      rebuildTable(db, 'prd_sales', createSql =>
+        createSql.replace(/CHECK\s*\(\s*num_cup_size\s+IN\s*\([^)]*\)\s*\)/i, 'CHECK(num_cup_size > 0)')
+      );
+    }
+  },
+  {
+    version: 21,
+    description: 'Promoções (config_promotions) e desconto gravado na venda',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS config_promotions (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          desc_name TEXT NOT NULL,
+          desc_type TEXT NOT NULL CHECK(desc_type IN ('fixed_price', 'percent', 'buy_x_get_y')),
+          num_value REAL NOT NULL DEFAULT 0 CHECK(num_value >= 0),
+          num_buy_qty INTEGER CHECK(num_buy_qty IS NULL OR num_buy_qty > 0),
+          num_free_qty INTEGER CHECK(num_free_qty IS NULL OR num_free_qty > 0),
+          num_event_id INTEGER,
+          num_beer_id INTEGER,
+          num_cup_size_id INTEGER,
+          dt_starts_at TEXT,
+          dt_ends_at TEXT,
+          desc_start_time TEXT,
+          desc_end_time TEXT,
+          desc_weekdays TEXT,
+          int_stackable INTEGER NOT NULL DEFAULT 0 CHECK(int_stackable IN (0, 1)),
+          int_active INTEGER NOT NULL DEFAULT 1 CHECK(int_active IN (0, 1)),
+          dt_created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (num_event_id) REFERENCES prd_events(num_id) ON DELETE CASCADE,
+          FOREIGN KEY (num_beer_id) REFERENCES prd_beer_types(num_id) ON DELETE CASCADE,
+          FOREIGN KEY (num_cup_size_id) REFERENCES config_cup_sizes(num_id) ON DELETE CASCADE
+        )
+      `);
+      db.run('CREATE INDEX IF NOT EXISTS idx_promotions_num_event_id ON config_promotions(num_event_id)');
+
+      // num_total_price já é líquido: num_quantity × num_unit_price − num_discount
+      addColumnIfMissing(db, 'prd_sales', 'num_discount', 'REAL NOT NULL DEFAULT 0');
+      addColumnIfMissing(db, 'prd_sales', 'desc_promotions', 'TEXT');
+    }
+  },
+  {
+    version: 22,
+    description: 'Pagamentos (prd_payments) vinculados às vendas e comandas',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS prd_payments (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          desc_bill_id TEXT NOT NULL,
+          desc_method TEXT NOT NULL CHECK(desc_method IN ('cash', 'credit', 'debit', 'pix', 'other')),
+          num_amount REAL NOT NULL CHECK(num_amount > 0),
+          num_change REAL NOT NULL DEFAULT 0 CHECK(num_change >= 0),
+          desc_reference TEXT,
+          num_comanda_id INTEGER,
+          num_user_id INTEGER NOT NULL,
+          num_event_id INTEGER,
+          dt_timestamp TEXT NOT NULL,
+          FOREIGN KEY (num_comanda_id) REFERENCES prd_comandas(num_id),
+          FOREIGN KEY (num_user_id) REFERENCES prd_users(num_id),
+          FOREIGN KEY (num_event_id) REFERENCES prd_events(num_id)
+        )
+      `);
+      db.run('CREATE INDEX IF NOT EXISTS idx_payments_desc_bill_id ON prd_payments(desc_bill_id)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_payments_dt_timestamp ON prd_payments(dt_timestamp)');
+
+      // Conta paga (mesmo desc_bill_id dos pagamentos); NULL em vendas anteriores
+      addColumnIfMissing(db, 'prd_sales', 'desc_bill_id', 'TEXT');
+      db.run('CREATE INDEX IF NOT EXISTS idx_sales_desc_bill_id ON prd_sales(desc_bill_id)');
+    }
+  },
+  {
+    version: 23,
+    description: 'Recebedor PIX nas configurações da empresa e txid nos pagamentos',
+    up: (db) => {
+      addColumnIfMissing(db, 'config_client', 'desc_pix_key', 'TEXT');
+      addColumnIfMissing(db, 'config_client', 'desc_pix_merchant_name', 'TEXT');
+      addColumnIfMissing(db, 'config_client', 'desc_pix_merchant_city', 'TEXT');
+      addColumnIfMissing(db, 'prd_payments', 'desc_pix_txid', 'TEXT');
+      db.run('CREATE INDEX IF NOT EXISTS idx_payments_desc_pix_txid ON prd_payments(desc_pix_txid)');
+    }
+  },
+  {
+    version: 24,
+    description: 'Estornos de vendas (prd_sale_voids) e quantidade estornada na venda',
+    up: (db) => {
+      // Sem FK em num_sale_id: o registro do estorno continua após o arquivamento da venda
+      db.run(`
+        CREATE TABLE IF NOT EXISTS prd_sale_voids (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          num_sale_id INTEGER NOT NULL,
+          num_beer_id INTEGER NOT NULL,
+          desc_beer_name TEXT NOT NULL,
+          num_quantity INTEGER NOT NULL CHECK(num_quantity > 0),
+          num_total_volume REAL NOT NULL CHECK(num_total_volume >= 0),
+          num_amount REAL NOT NULL CHECK(num_amount >= 0),
+          desc_reason TEXT NOT NULL,
+          num_user_id INTEGER NOT NULL,
+          num_authorized_by INTEGER NOT NULL,
+          num_comanda_id INTEGER,
+          num_event_id INTEGER,
+          dt_timestamp TEXT NOT NULL,
+          FOREIGN KEY (num_user_id) REFERENCES prd_users(num_id),
+          FOREIGN KEY (num_authorized_by) REFERENCES prd_users(num_id)
+        )
+      `);
+      db.run('CREATE INDEX IF NOT EXISTS idx_sale_voids_num_sale_id ON prd_sale_voids(num_sale_id)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_sale_voids_dt_timestamp ON prd_sale_voids(dt_timestamp)');
+
+      // A venda original é mantida; num_voided_quantity = num_quantity marca o estorno total
+      addColumnIfMissing(db, 'prd_sales', 'num_voided_quantity', 'INTEGER NOT NULL DEFAULT 0');
+    }
+  },
+  {
+    version: 25,
+    description: 'Catálogo de produtos: itens vendidos por unidade, com preço e estoque próprios',
+    up: (db) => {
+      // prd_beer_types passa a ser o catálogo de produtos: chope (por volume) ou unidade
+      addColumnIfMissing(db, 'prd_beer_types', 'desc_kind', "TEXT NOT NULL DEFAULT 'draft' CHECK(desc_kind IN ('draft', 'unit'))");
+
+      // Preço por produto unitário × evento (NULL = preço geral)
+      db.run(`
+        CREATE TABLE IF NOT EXISTS config_unit_prices (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          num_beer_id INTEGER NOT NULL,
+          num_event_id INTEGER,
+          num_price REAL NOT NULL DEFAULT 0 CHECK(num_price >= 0),
+          dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (num_beer_id) REFERENCES prd_beer_types(num_id) ON DELETE CASCADE,
+          FOREIGN KEY (num_event_id) REFERENCES prd_events(num_id) ON DELETE CASCADE
+        )
+      `);
+      db.run(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_unit_prices_beer_event
+        ON config_unit_prices(num_beer_id, IFNULL(num_event_id, 0))
+      `);
+
+      // Estoque em unidades, ao lado do estoque em litros (config_event_sale)
+      db.run(`
+        CREATE TABLE IF NOT EXISTS config_event_unit_stock (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          num_beer_id INTEGER NOT NULL,
+          desc_beer_name TEXT NOT NULL,
+          num_quantity INTEGER NOT NULL DEFAULT 0 CHECK(num_quantity >= 0),
+          num_min_units_alert INTEGER NOT NULL DEFAULT 0 CHECK(num_min_units_alert >= 0),
+          num_event_id INTEGER,
+          dt_created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (num_beer_id) REFERENCES prd_beer_types(num_id) ON DELETE CASCADE,
+          FOREIGN KEY (num_event_id) REFERENCES prd_events(num_id) ON DELETE CASCADE
+        )
+      `);
+      db.run(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_unit_stock_beer_event
+        ON config_event_unit_stock(num_beer_id, IFNULL(num_event_id, 0))
+      `);
+
+      // Venda de produto unitário: num_cup_size = 0 e num_total_volume = 0
+      rebuildTable(db, 'prd_sales', createSql =>
+        createSql
+          .replace(/CHECK\s*\(\s*num_cup_size\s*>\s*0\s*\)/i, 'CHECK(num_cup_size >= 0)')
+          .replace(/CHECK\s*\(\s*num_total_volume\s*>\s*0\s*\)/i, 'CHECK(num_total_volume >= 0)')
+      );
+    }
+  },
+  {
+    version: 26,
+    description: 'Taxa de serviço por evento e gorjeta no fechamento da comanda',
+    up: (db) => {
+      // Percentual por evento (NULL = taxa geral)
+      db.run(`
+        CREATE TABLE IF NOT EXISTS config_service_charge (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          num_event_id INTEGER,
+          num_rate REAL NOT NULL DEFAULT 0 CHECK(num_rate >= 0 AND num_rate <= 100),
+          dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (num_event_id) REFERENCES prd_events(num_id) ON DELETE CASCADE
+        )
+      `);
+      db.run(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_service_charge_event
+        ON config_service_charge(IFNULL(num_event_id, 0))
+      `);
+
+      // Taxa e gorjeta da comanda fechada (zeradas quando a comanda é liberada)
+      addColumnIfMissing(db, 'prd_comandas', 'num_service_rate', 'REAL NOT NULL DEFAULT 0');
+      addColumnIfMissing(db, 'prd_comandas', 'num_tip', 'REAL NOT NULL DEFAULT 0');
+      addColumnIfMissing(db, 'prd_comandas', 'num_closed_by', 'INTEGER');
+
+      // Taxa e gorjeta das contas pagas, à parte da receita dos produtos
+      db.run(`
+        CREATE TABLE IF NOT EXISTS prd_bill_charges (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          desc_bill_id TEXT NOT NULL,
+          num_comanda_id INTEGER,
+          num_items_total REAL NOT NULL DEFAULT 0 CHECK(num_items_total >= 0),
+          num_service_rate REAL NOT NULL DEFAULT 0 CHECK(num_service_rate >= 0),
+          num_service_charge REAL NOT NULL DEFAULT 0 CHECK(num_service_charge >= 0),
+          num_tip REAL NOT NULL DEFAULT 0 CHECK(num_tip >= 0),
+          num_user_id INTEGER NOT NULL,
+          num_event_id INTEGER,
+          dt_timestamp TEXT NOT NULL,
+          FOREIGN KEY (num_comanda_id) REFERENCES prd_comandas(num_id),
+          FOREIGN KEY (num_user_id) REFERENCES prd_users(num_id),
+          FOREIGN KEY (num_event_id) REFERENCES prd_events(num_id)
+        )
+      `);
+      db.run('CREATE INDEX IF NOT EXISTS idx_bill_charges_desc_bill_id ON prd_bill_charges(desc_bill_id)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_bill_charges_dt_timestamp ON prd_bill_charges(dt_timestamp)');
+    }
+  },
+  {
+    version: 27,
+    description: 'Largura da bobina da impressora de recibos',
+    up: (db) => {
+      addColumnIfMissing(db, 'config_client', 'num_receipt_width', 'INTEGER NOT NULL DEFAULT 80 CHECK(num_receipt_width IN (58, 80))');
+    }
+  },
+  {
+    version: 28,
+    description: 'Identificador de sincronização de cervejas e eventos (desc_sync_id) e alterações estacionadas',
+    up: (db) => {
+      // Cervejas e eventos deixam de ser identificados pelo nome entre terminais
+      for (const table of ['prd_beer_types', 'prd_events']) {
+        addColumnIfMissing(db, table, 'desc_sync_id', 'TEXT');
+        db.run(`CREATE UNIQUE INDEX IF NOT EXISTS idx_${table.replace('prd_', '')}_desc_sync_id ON ${table}(desc_sync_id)`);
+
+        const ids = db.exec(`SELECT num_id FROM ${table} WHERE desc_sync_id IS NULL`)[0]?.values ?? [];
+        ids.forEach((row: unknown[]) => db.run(`UPDATE ${table} SET desc_sync_id = ? WHERE num_id = ?`, [createSyncId(), Number(row[0])]));
+      }
+
+      rebuildTable(db, 'prd_sync_outbox', createSql =>
+        createSql.replace(
+          "CHECK(desc_entity IN ('sale', 'stock', 'comanda'))",
+          "CHECK(desc_entity IN ('sale', 'stock', 'comanda', 'beer', 'event'))"
+        )
+      );
+
+      // Fila pendente no formato anterior: acrescenta os identificadores
+      const pending = db.exec("SELECT num_id, desc_entity, desc_payload FROM prd_sync_outbox WHERE desc_entity IN ('sale', 'stock')")[0]?.values ?? [];
+      for (const [id, entity, json] of pending as [number, string, string][]) {
+        const payload = JSON.parse(json);
+        if (payload.beerSyncId) continue;
+
+        const lookup = (sql: string, params: (string | number | null)[]): string | null => {
+          const stmt = db.prepare(sql);
+          stmt.bind(params);
+          const value = stmt.step() ? stmt.get()[0] : null;
+          stmt.free();
+          return value === null || value === undefined ? null : String(value);
+        };
+
+        if (entity === 'sale') {
+          payload.beerSyncId = lookup(
+            'SELECT b.desc_sync_id FROM prd_sales s JOIN prd_beer_types b ON b.num_id = s.num_beer_id WHERE s.desc_sync_id = ?',
+            [payload.saleUid]
+          );
+          payload.eventSyncId = lookup(
+            'SELECT e.desc_sync_id FROM prd_sales s JOIN prd_events e ON e.num_id = s.num_event_id WHERE s.desc_sync_id = ?',
+            [payload.saleUid]
+          );
+        } else {
+          payload.beerSyncId = lookup('SELECT desc_sync_id FROM prd_beer_types WHERE desc_name = ? LIMIT 1', [payload.beerName]);
+          payload.eventSyncId = payload.eventName
+            ? lookup('SELECT desc_sync_id FROM prd_events WHERE desc_name_event = ? ORDER BY num_id DESC LIMIT 1', [payload.eventName])
+            : null;
+        }
+        db.run('UPDATE prd_sync_outbox SET desc_payload = ? WHERE num_id = ?', [JSON.stringify(payload), id]);
+      }
+
+      // Alterações recebidas que citam cerveja/evento ainda desconhecido neste terminal
+      db.run(`
+        CREATE TABLE IF NOT EXISTS prd_sync_parked (
+          num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          desc_op_id TEXT NOT NULL UNIQUE,
+          desc_entity TEXT NOT NULL,
+          desc_payload TEXT NOT NULL,
+          desc_reason TEXT NOT NULL,
+          num_attempts INTEGER NOT NULL DEFAULT 1,
+          dt_created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          dt_last_attempt_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+    }
+  },
+  {
+    version: 29,
+    description: 'Retenção da auditoria (config_audit)',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS config_audit (
+          num_id INTEGER PRIMARY KEY CHECK(num_id = 1),
+          num_retention_days INTEGER NOT NULL DEFAULT 180 CHECK(num_retention_days >= 1),
+          num_max_rows INTEGER NOT NULL DEFAULT 200000 CHECK(num_max_rows >= 1000),
+          dt_updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      db.run('INSERT OR IGNORE INTO config_audit (num_id) VALUES (1)');
+    }
+  },
+  {
+    version: 30,
+    description: 'Sincronização de estornos e contas pagas (pagamentos, taxa e gorjeta)',
+    up: (db) => {
+      rebuildTable(db, 'prd_sync_outbox', createSql =>
+        createSql.replace(
+          "CHECK(desc_entity IN ('sale', 'stock', 'comanda', 'beer', 'event'))",
+          "CHECK(desc_entity IN ('sale', 'stock', 'comanda', 'beer', 'event', 'void', 'bill'))"
+        )
+      );
+
+      // Estorno recebido de outro terminal é gravado uma única vez
+      addColumnIfMissing(db, 'prd_sale_voids', 'desc_sync_id', 'TEXT');
+      db.run('CREATE UNIQUE INDEX IF NOT EXISTS idx_sale_voids_desc_sync_id ON prd_sale_voids(desc_sync_id)');
+    }
+  },
+  {
+    version: 31,
+    description: 'txid do QR Code PIX impresso na via da comanda',
+    up: (db) => {
+      // Reutilizado no pagamento; limpo quando a comanda é liberada
+      addColumnIfMissing(db, 'prd_comandas', 'desc_pix_txid', 'TEXT');
+    }
+  }
+];
+
+/**
+ * Versão mais recente do schema (última migration registrada)
+ */
+export const LATEST_SCHEMA_VERSION = DB_MIGRATIONS.reduce(
+  (max, migration) => Math.max(max, migration.version),
+  BASE_SCHEMA_VERSION
+);
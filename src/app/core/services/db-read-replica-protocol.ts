@@ -0,0 +1,45 @@
+// src/app/core/services/db-read-replica-protocol.ts
+
+/**
+ * Mensagens trocadas entre o DatabaseService (thread principal) e o
+ * db-read-replica.worker (cópia somente leitura do banco em um Web Worker)
+ *
+ * O worker processa as mensagens na ordem de chegada: uma consulta enviada
+ * depois de um load sempre enxerga a cópia carregada.
+ */
+
+/**
+ * Parâmetros de uma query (mesmo formato de executeQuery/executeRun)
+ */
+export type DbReplicaParams = (string | number | null)[];
+
+/**
+ * Comando aplicado na carga, antes de a réplica virar somente leitura
+ * (vendas dos arquivos carregados na tabela TEMP dos relatórios)
+ */
+export interface DbReplicaStatement {
+  sql: string;
+  params: DbReplicaParams;
+}
+
+/**
+ * Mensagens enviadas ao worker
+ * - load: (re)carrega a réplica a partir do binário do banco e aplica o setup
+ * - query: consulta com o resultado completo
+ * - stream: consulta com o resultado enviado em lotes (chunk) e um result final
+ */
+export type DbReplicaRequest =
+  | { type: 'load'; id: number; wasmUrl: string; data: Uint8Array; setup: DbReplicaStatement[] }
+  | { type: 'query'; id: number; sql: string; params?: DbReplicaParams }
+  | { type: 'stream'; id: number; sql: string; params?: DbReplicaParams; chunkSize: number };
+
+/**
+ * Mensagens enviadas pelo worker
+ * - result: conclusão de load/query/stream
+ * - chunk: lote de linhas de um stream
+ * - error: falha de uma requisição
+ */
+export type DbReplicaResponse =
+  | { type: 'result'; id: number; rows?: Record<string, unknown>[]; count?: number }
+  | { type: 'chunk'; id: number; rows: Record<string, unknown>[] }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,132 @@
+// src/app/core/services/db-read-replica.ts
+import { DbReplicaParams, DbReplicaRequest, DbReplicaResponse, DbReplicaStatement } from './db-read-replica-protocol';
+
+/**
+ * Tamanho padrão dos lotes de streamQuery()
+ */
+export const DEFAULT_STREAM_CHUNK_SIZE = 500;
+
+/**
+ * Requisição aguardando resposta do worker
+ */
+interface PendingRequest {
+  resolve: (response: Extract<DbReplicaResponse, { type: 'result' }>) => void;
+  reject: (error: Error) => void;
+  onChunk?: (rows: Record<string, unknown>[]) => void;
+}
+
+/**
+ * Cliente da réplica somente leitura no Web Worker (db-read-replica.worker.ts)
+ *
+ * Mantém a correlação requisição → resposta por ID. A réplica não recebe
+ * escritas: quem a usa decide quando recarregá-la com o binário atual.
+ */
+export class DbReadReplica {
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+  private loaded = false;
+
+  private constructor(private readonly worker: Worker) {
+    this.worker.addEventListener('message', ({ data }: MessageEvent<DbReplicaResponse>) => this.handleResponse(data));
+    this.worker.addEventListener('error', event => this.fail(new Error(event.message || 'Falha no worker do banco')));
+  }
+
+  /**
+   * Cria o worker da réplica
+   * @returns null se o navegador não suportar módulos em Web Workers
+   */
+  public static create(): DbReadReplica | null {
+    if (typeof Worker === 'undefined') return null;
+
+    try {
+      const worker = new Worker(new URL('./db-read-replica.worker', import.meta.url), { type: 'module' });
+      return new DbReadReplica(worker);
+    } catch (error) {
+      console.warn('⚠️ Web Worker do banco indisponível:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Réplica carregada e pronta para consultas
+   */
+  public get isReady(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * (Re)carrega a réplica com o binário atual do banco
+   * @param setup Comandos aplicados antes de a réplica virar somente leitura
+   */
+  public async load(wasmUrl: string, data: Uint8Array, setup: DbReplicaStatement[] = []): Promise<void> {
+    this.loaded = false;
+    await this.request({ type: 'load', id: this.nextId++, wasmUrl, data, setup }, [data.buffer]);
+    this.loaded = true;
+  }
+
+  /**
+   * Consulta na réplica com o resultado completo
+   */
+  public async query(sql: string, params?: DbReplicaParams): Promise<Record<string, unknown>[]> {
+    const response = await this.request({ type: 'query', id: this.nextId++, sql, params });
+    return response.rows ?? [];
+  }
+
+  /**
+   * Consulta na réplica entregando o resultado em lotes
+   * @returns Total de linhas
+   */
+  public async stream(
+    sql: string,
+    params: DbReplicaParams | undefined,
+    onChunk: (rows: Record<string, unknown>[]) => void,
+    chunkSize: number = DEFAULT_STREAM_CHUNK_SIZE
+  ): Promise<number> {
+    const response = await this.request({ type: 'stream', id: this.nextId++, sql, params, chunkSize }, [], onChunk);
+    return response.count ?? 0;
+  }
+
+  /**
+   * Encerra o worker (libera a memória da cópia) e rejeita as requisições pendentes
+   */
+  public terminate(): void {
+    this.worker.terminate();
+    this.fail(new Error('Worker do banco encerrado'));
+  }
+
+  private request(
+    message: DbReplicaRequest,
+    transfer: Transferable[] = [],
+    onChunk?: (rows: Record<string, unknown>[]) => void
+  ): Promise<Extract<DbReplicaResponse, { type: 'result' }>> {
+    return new Promise((resolve, reject) => {
+      this.pending.set(message.id, { resolve, reject, onChunk });
+      this.worker.postMessage(message, transfer);
+    });
+  }
+
+  private handleResponse(response: DbReplicaResponse): void {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+
+    switch (response.type) {
+      case 'chunk':
+        pending.onChunk?.(response.rows);
+        break;
+      case 'result':
+        this.pending.delete(response.id);
+        pending.resolve(response);
+        break;
+      case 'error':
+        this.pending.delete(response.id);
+        pending.reject(new Error(response.message));
+        break;
+    }
+  }
+
+  private fail(error: Error): void {
+    this.loaded = false;
+    this.pending.forEach(pending => pending.reject(error));
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,123 @@
+/// <reference lib="webworker" />
+// src/app/core/services/db-read-replica.worker.ts
+import initSqlJs, { type Database, type SqlJsStatic } from 'sql.js';
+import { DbReplicaParams, DbReplicaRequest, DbReplicaResponse } from './db-read-replica-protocol';
+import { installArchiveView } from './db-archive-view';
+
+/**
+ * Cópia somente leitura do banco fora da thread principal
+ *
+ * Atende as consultas pesadas dos relatórios e o streaming de listas
+ * grandes, para que a tela de vendas não trave enquanto elas rodam.
+ * Não recebe escritas: cada load traz o binário atual do banco da thread
+ * principal (o único autoritativo) e a cópia fica em query_only até a
+ * próxima carga.
+ *
+ * A view dos relatórios (report_sales) é instalada na carga; as vendas dos
+ * arquivos carregados chegam no setup do load.
+ */
+
+let SQL: SqlJsStatic | null = null;
+let db: Database | null = null;
+
+/**
+ * Fila de processamento: o load é assíncrono e as consultas seguintes
+ * precisam esperar por ele
+ */
+let queue: Promise<void> = Promise.resolve();
+
+addEventListener('message', ({ data }: MessageEvent<DbReplicaRequest>) => {
+  queue = queue.then(() => handleRequest(data));
+});
+
+async function handleRequest(request: DbReplicaRequest): Promise<void> {
+  try {
+    switch (request.type) {
+      case 'load':
+        SQL ??= await initSqlJs({ locateFile: () => request.wasmUrl });
+        db?.close();
+        db = new SQL.Database(request.data);
+        installArchiveView(db);
+        request.setup.forEach(statement => db?.run(statement.sql, statement.params));
+        db.run('PRAGMA query_only = 1');
+        reply({ type: 'result', id: request.id });
+        break;
+
+      case 'query':
+        reply({ type: 'result', id: request.id, rows: runQuery(request.sql, request.params) });
+        break;
+
+      case 'stream': {
+        const count = streamQuery(request.id, request.sql, request.params, request.chunkSize);
+        reply({ type: 'result', id: request.id, count });
+        break;
+      }
+    }
+  } catch (error) {
+    reply({
+      type: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+function requireDb(): Database {
+  if (!db) {
+    throw new Error('Réplica do banco não carregada');
+  }
+  return db;
+}
+
+function runQuery(sql: string, params?: DbReplicaParams): Record<string, unknown>[] {
+  const stmt = requireDb().prepare(sql);
+  try {
+    if (params) {
+      stmt.bind(params);
+    }
+
+    const rows: Record<string, unknown>[] = [];
+    while (stmt.step()) {
+      rows.push(stmt.getAsObject());
+    }
+    return rows;
+  } finally {
+    stmt.free();
+  }
+}
+
+/**
+ * Percorre o resultado enviando lotes de chunkSize linhas
+ * @returns Total de linhas enviadas
+ */
+function streamQuery(id: number, sql: string, params: DbReplicaParams | undefined, chunkSize: number): number {
+  const stmt = requireDb().prepare(sql);
+  try {
+    if (params) {
+      stmt.bind(params);
+    }
+
+    let count = 0;
+    let chunk: Record<string, unknown>[] = [];
+    while (stmt.step()) {
+      chunk.push(stmt.getAsObject());
+      if (chunk.length >= chunkSize) {
+        reply({ type: 'chunk', id, rows: chunk });
+        count += chunk.length;
+        chunk = [];
+      }
+    }
+
+    if (chunk.length > 0) {
+      reply({ type: 'chunk', id, rows: chunk });
+      count += chunk.length;
+    }
+    return count;
+  } finally {
+    stmt.free();
+  }
+}
+
+function reply(response: DbReplicaResponse): void {
+  postMessage(response);
+}
@@ -0,0 +1,117 @@
+import { DbStorageBackend } from './db-storage';
+import { DbSnapshotStore, SnapshotInfo, SnapshotKind, dueSnapshotKind } from './db-snapshots';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NOW = new Date('2026-03-10T12:00:00Z').getTime();
+
+/**
+ * Backend em memória (o repositório real usa IndexedDB)
+ */
+class MemoryStorageBackend implements DbStorageBackend {
+  readonly name = 'memória';
+  readonly entries = new Map<string, Uint8Array>();
+
+  async load(key: string): Promise<Uint8Array | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async save(key: string, data: Uint8Array): Promise<void> {
+    this.entries.set(key, data);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+function snapshot(kind: SnapshotKind, ageMs: number, id = `${kind}-${ageMs}`): SnapshotInfo {
+  return {
+    id,
+    kind,
+    createdAt: new Date(NOW - ageMs).toISOString(),
+    dbVersion: 27,
+    salesCount: 0,
+    activeEvents: 0,
+    sizeBytes: 1
+  };
+}
+
+describe('dueSnapshotKind', () => {
+  it('pede o diário quando não há snapshot nenhum', () => {
+    expect(dueSnapshotKind([], false, NOW)).toBe('daily');
+  });
+
+  it('pede o diário quando o último diário tem 24h ou mais', () => {
+    expect(dueSnapshotKind([snapshot('daily', DAY_MS)], false, NOW)).toBe('daily');
+    expect(dueSnapshotKind([snapshot('daily', DAY_MS - 1)], false, NOW)).toBeNull();
+  });
+
+  it('manuais e de segurança não contam como diário', () => {
+    const snapshots = [snapshot('manual', HOUR_MS), snapshot('pre_restore', 2 * HOUR_MS)];
+    expect(dueSnapshotKind(snapshots, false, NOW)).toBe('daily');
+  });
+
+  it('pede o horário só com evento ativo e após uma hora do último automático', () => {
+    const snapshots = [snapshot('hourly', HOUR_MS), snapshot('daily', 3 * HOUR_MS)];
+
+    expect(dueSnapshotKind(snapshots, true, NOW)).toBe('hourly');
+    expect(dueSnapshotKind(snapshots, false, NOW)).toBeNull();
+  });
+
+  it('um diário recente dispensa o horário', () => {
+    const snapshots = [snapshot('daily', 30 * 60 * 1000), snapshot('hourly', 2 * HOUR_MS)];
+    expect(dueSnapshotKind(snapshots, true, NOW)).toBeNull();
+  });
+});
+
+describe('DbSnapshotStore.prune', () => {
+  let backend: MemoryStorageBackend;
+  let store: DbSnapshotStore;
+
+  const seed = async (snapshots: SnapshotInfo[]) => {
+    for (const info of snapshots) {
+      backend.entries.set(info.id, new Uint8Array([1]));
+    }
+    backend.entries.set('snapshot_index', new TextEncoder().encode(JSON.stringify(snapshots)));
+  };
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend();
+    store = new DbSnapshotStore(backend);
+  });
+
+  it('remove horários além da retenção em horas e os demais além da retenção em dias', async () => {
+    await seed([
+      snapshot('hourly', HOUR_MS),
+      snapshot('hourly', 49 * HOUR_MS),
+      snapshot('daily', 10 * DAY_MS),
+      snapshot('daily', 31 * DAY_MS),
+      snapshot('manual', 40 * DAY_MS)
+    ]);
+
+    const removed = await store.prune({ hourlyRetentionHours: 48, dailyRetentionDays: 30 }, NOW);
+
+    expect(removed).toBe(3);
+    expect((await store.list()).map(info => info.id)).toEqual([`hourly-${HOUR_MS}`, `daily-${10 * DAY_MS}`]);
+    expect(backend.entries.has(`hourly-${49 * HOUR_MS}`)).toBeFalse();
+    expect(backend.entries.has(`manual-${40 * DAY_MS}`)).toBeFalse();
+  });
+
+  it('mantém sempre o snapshot mais recente, mesmo expirado', async () => {
+    await seed([snapshot('daily', 90 * DAY_MS), snapshot('daily', 120 * DAY_MS)]);
+
+    const removed = await store.prune({ hourlyRetentionHours: 48, dailyRetentionDays: 30 }, NOW);
+
+    expect(removed).toBe(1);
+    expect((await store.list()).map(info => info.id)).toEqual([`daily-${90 * DAY_MS}`]);
+  });
+
+  it('não regrava o índice se nada expirou', async () => {
+    await seed([snapshot('daily', DAY_MS)]);
+    const saveSpy = spyOn(backend, 'save').and.callThrough();
+
+    expect(await store.prune({ hourlyRetentionHours: 48, dailyRetentionDays: 30 }, NOW)).toBe(0);
+    expect(saveSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,197 @@
+// src/app/core/services/db-snapshots.ts
+import { DbStorageBackend, IndexedDbStorageBackend } from './db-storage';
+
+/**
+ * Origem de um snapshot
+ * - hourly: automático durante eventos ativos
+ * - daily: automático (um por dia)
+ * - manual: criado pelo admin
+ * - pre_clear: antes de clearDatabase()
+ * - pre_restore: antes de restaurar outro snapshot
+ * - pre_repair: antes de um reparo do diagnóstico
+ */
+export type SnapshotKind = 'hourly' | 'daily' | 'manual' | 'pre_clear' | 'pre_restore' | 'pre_repair';
+
+/**
+ * Metadados de um snapshot (o binário fica em uma chave própria)
+ */
+export interface SnapshotInfo {
+  id: string;
+  kind: SnapshotKind;
+  createdAt: string;        // ISO 8601
+  dbVersion: number;
+  salesCount: number;
+  activeEvents: number;     // Eventos ativos no momento do snapshot
+  sizeBytes: number;
+}
+
+/**
+ * Política de retenção dos snapshots
+ */
+export interface SnapshotRetention {
+  hourlyRetentionHours: number;   // Por quanto tempo manter snapshots horários
+  dailyRetentionDays: number;     // Por quanto tempo manter os demais snapshots
+}
+
+/**
+ * Configuração dos snapshots automáticos (tabela config_snapshot)
+ */
+export interface SnapshotConfig extends SnapshotRetention {
+  enabled: boolean;
+}
+
+export const DEFAULT_SNAPSHOT_CONFIG: SnapshotConfig = {
+  enabled: true,
+  hourlyRetentionHours: 48,
+  dailyRetentionDays: 30
+};
+
+const SNAPSHOT_DATABASE = 'black_beer_snapshots';
+const SNAPSHOT_STORE = 'snapshots';
+const SNAPSHOT_INDEX_KEY = 'snapshot_index';
+const SNAPSHOT_KEY_PREFIX = 'snapshot_';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Backend padrão dos snapshots (banco IndexedDB próprio)
+ */
+export function createSnapshotBackend(): DbStorageBackend {
+  return new IndexedDbStorageBackend(SNAPSHOT_DATABASE, SNAPSHOT_STORE);
+}
+
+/**
+ * Repositório de snapshots do banco
+ *
+ * Fica em um banco IndexedDB separado do banco principal: uma gravação
+ * corrompida ou um clearDatabase() não atingem os snapshots.
+ * O índice (lista de SnapshotInfo) é gravado como JSON em uma chave própria,
+ * para listar snapshots sem carregar os binários.
+ *
+ * Requer IndexedDB: o localStorage não comporta múltiplas cópias do banco.
+ */
+export class DbSnapshotStore {
+  private readonly encoder = new TextEncoder();
+  private readonly decoder = new TextDecoder();
+
+  constructor(
+    private readonly backend: DbStorageBackend = createSnapshotBackend()
+  ) {}
+
+  /**
+   * Lista os snapshots (mais recente primeiro)
+   */
+  async list(): Promise<SnapshotInfo[]> {
+    const raw = await this.backend.load(SNAPSHOT_INDEX_KEY);
+    if (!raw) return [];
+
+    try {
+      const parsed = JSON.parse(this.decoder.decode(raw));
+      return Array.isArray(parsed)
+        ? (parsed as SnapshotInfo[]).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        : [];
+    } catch {
+      console.error('❌ Índice de snapshots corrompido, reiniciando lista');
+      return [];
+    }
+  }
+
+  /**
+   * Grava um novo snapshot
+   */
+  async save(data: Uint8Array, info: Omit<SnapshotInfo, 'id' | 'sizeBytes'>): Promise<SnapshotInfo> {
+    const snapshot: SnapshotInfo = {
+      ...info,
+      id: `${SNAPSHOT_KEY_PREFIX}${Date.now()}`,
+      sizeBytes: data.length
+    };
+
+    await this.backend.save(snapshot.id, data);
+    await this.writeIndex([snapshot, ...(await this.list())]);
+    return snapshot;
+  }
+
+  /**
+   * Carrega o binário de um snapshot
+   */
+  async load(id: string): Promise<Uint8Array | null> {
+    return this.backend.load(id);
+  }
+
+  /**
+   * Regrava o índice e todos os binários pelo backend
+   * (após alterar a criptografia do backend)
+   * @returns Quantidade de snapshots regravados
+   */
+  async rewriteAll(): Promise<number> {
+    const snapshots = await this.list();
+    for (const snapshot of snapshots) {
+      const data = await this.backend.load(snapshot.id);
+      if (data) {
+        await this.backend.save(snapshot.id, data);
+      }
+    }
+    await this.writeIndex(snapshots);
+    return snapshots.length;
+  }
+
+  /**
+   * Remove um snapshot
+   */
+  async remove(id: string): Promise<void> {
+    await this.backend.remove(id);
+    await this.writeIndex((await this.list()).filter(snapshot => snapshot.id !== id));
+  }
+
+  /**
+   * Aplica a política de retenção
+   * O snapshot mais recente é sempre mantido.
+   * @returns Quantidade de snapshots removidos
+   */
+  async prune(retention: SnapshotRetention, now: number = Date.now()): Promise<number> {
+    const snapshots = await this.list();
+    const expired = snapshots.slice(1).filter(snapshot => {
+      const age = now - new Date(snapshot.createdAt).getTime();
+      return snapshot.kind === 'hourly'
+        ? age > retention.hourlyRetentionHours * HOUR_MS
+        : age > retention.dailyRetentionDays * DAY_MS;
+    });
+
+    for (const snapshot of expired) {
+      await this.backend.remove(snapshot.id);
+    }
+
+    if (expired.length > 0) {
+      const expiredIds = new Set(expired.map(snapshot => snapshot.id));
+      await this.writeIndex(snapshots.filter(snapshot => !expiredIds.has(snapshot.id)));
+    }
+
+    return expired.length;
+  }
+
+  private async writeIndex(snapshots: SnapshotInfo[]): Promise<void> {
+    await this.backend.save(SNAPSHOT_INDEX_KEY, this.encoder.encode(JSON.stringify(snapshots)));
+  }
+}
+
+/**
+ * Decide qual snapshot automático é devido agora (ou null se nenhum)
+ *
+ * - daily: nenhum snapshot diário nas últimas 24h
+ * - hourly: há evento ativo e nenhum snapshot automático na última hora
+ */
+export function dueSnapshotKind(
+  snapshots: SnapshotInfo[],
+  hasActiveEvent: boolean,
+  now: number = Date.now()
+): SnapshotKind | null {
+  const ageOfLatest = (kinds: SnapshotKind[]) => {
+    const latest = snapshots.find(snapshot => kinds.includes(snapshot.kind));
+    return latest ? now - new Date(latest.createdAt).getTime() : Infinity;
+  };
+
+  if (ageOfLatest(['daily']) >= DAY_MS) return 'daily';
+  if (hasActiveEvent && ageOfLatest(['hourly', 'daily']) >= HOUR_MS) return 'hourly';
+  return null;
+}
@@ -0,0 +1,266 @@
+// src/app/core/services/db-storage.ts
+
+/**
+ * Backends de armazenamento do arquivo SQLite
+ *
+ * O DatabaseService não conhece o meio físico de persistência: ele apenas
+ * entrega o binário exportado pelo sql.js para um DbStorageBackend.
+ *
+ * IMPLEMENTAÇÕES:
+ * - IndexedDbStorageBackend → padrão; grava o Uint8Array bruto (sem base64)
+ * - LocalStorageBackend → legado (base64 no localStorage, limite de ~5 MB);
+ *   mantido apenas para migrar bancos antigos para o IndexedDB
+ */
+export interface DbStorageBackend {
+  /**
+   * Nome do backend (exibição e logs)
+   */
+  readonly name: string;
+
+  /**
+   * Carrega o binário salvo sob a chave informada
+   * @returns Binário do banco ou null se não existir
+   */
+  load(key: string): Promise<Uint8Array | null>;
+
+  /**
+   * Grava o binário sob a chave informada (sobrescreve)
+   */
+  save(key: string, data: Uint8Array): Promise<void>;
+
+  /**
+   * Remove a chave do armazenamento
+   */
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Nível de ocupação do armazenamento
+ * - ok: abaixo de STORAGE_WARNING_PERCENT
+ * - warn: próximo do limite (arquivar vendas antigas)
+ * - critical: gravações podem falhar a qualquer momento
+ */
+export type StorageLevel = 'ok' | 'warn' | 'critical';
+
+/**
+ * Uso do armazenamento do navegador
+ */
+export interface StorageUsage {
+  backend: string;          // Nome do backend ativo
+  dbSizeBytes: number;      // Tamanho do último binário persistido
+  usageBytes: number;       // Uso total da origem (navigator.storage.estimate)
+  quotaBytes: number;       // Cota total da origem
+  percentUsed: number;      // usageBytes / quotaBytes (0-100)
+  persisted: boolean;       // true se o navegador garantiu armazenamento persistente
+  level: StorageLevel;      // Nível de ocupação (percentUsed)
+  checkedAt: string;        // ISO 8601
+}
+
+/**
+ * Percentuais de ocupação que disparam os avisos
+ */
+export const STORAGE_WARNING_PERCENT = 80;
+export const STORAGE_CRITICAL_PERCENT = 95;
+
+/**
+ * Limite prático do localStorage (caracteres por origem na maioria dos navegadores)
+ * O StorageManager não informa a cota do localStorage
+ */
+export const LOCAL_STORAGE_QUOTA_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Classifica o percentual de ocupação
+ */
+export function storageLevel(percentUsed: number): StorageLevel {
+  if (percentUsed >= STORAGE_CRITICAL_PERCENT) return 'critical';
+  if (percentUsed >= STORAGE_WARNING_PERCENT) return 'warn';
+  return 'ok';
+}
+
+/**
+ * Descreve uma falha de gravação para o usuário
+ * Cota esgotada recebe orientação própria (arquivar vendas antigas)
+ */
+export function describeStorageError(error: unknown): string {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return 'Espaço de armazenamento esgotado: arquive vendas antigas ou remova snapshots';
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+// ==================== INDEXEDDB ====================
+
+const IDB_DEFAULT_DATABASE = 'black_beer_storage';
+const IDB_DEFAULT_STORE = 'sqlite_files';
+
+/**
+ * Armazena o banco como binário em um object store do IndexedDB
+ *
+ * Cada instância abre (sob demanda) um banco IndexedDB próprio com um único
+ * object store chave → Uint8Array.
+ */
+export class IndexedDbStorageBackend implements DbStorageBackend {
+  readonly name = 'IndexedDB';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly databaseName: string = IDB_DEFAULT_DATABASE,
+    private readonly storeName: string = IDB_DEFAULT_STORE
+  ) {}
+
+  /**
+   * Verifica se o IndexedDB está disponível no ambiente atual
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async load(key: string): Promise<Uint8Array | null> {
+    const result = await this.request<unknown>('readonly', store => store.get(key));
+    if (!result) return null;
+    return result instanceof Uint8Array ? result : new Uint8Array(result as ArrayBuffer);
+  }
+
+  async save(key: string, data: Uint8Array): Promise<void> {
+    await this.request('readwrite', store => store.put(data, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  /**
+   * Executa uma requisição em uma transação do object store
+   * Resolve somente quando a transação é concluída (dados gravados)
+   */
+  private async request<T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(this.storeName, mode);
+      const req = action(tx.objectStore(this.storeName));
+
+      tx.oncomplete = () => resolve(req.result as T);
+      tx.onerror = () => reject(tx.error ?? req.error);
+      tx.onabort = () => reject(tx.error ?? new Error('Transação do IndexedDB abortada'));
+    });
+  }
+
+  /**
+   * Abre (uma única vez) o banco IndexedDB, criando o object store se necessário
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const req = indexedDB.open(this.databaseName, 1);
+
+        req.onupgradeneeded = () => {
+          if (!req.result.objectStoreNames.contains(this.storeName)) {
+            req.result.createObjectStore(this.storeName);
+          }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => {
+          this.dbPromise = null;
+          reject(req.error);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+}
+
+// ==================== LOCALSTORAGE (LEGADO) ====================
+
+/**
+ * Formato antigo: binário convertido para base64 no localStorage
+ * Usado apenas para ler/remover bancos gravados antes do IndexedDB
+ */
+export class LocalStorageBackend implements DbStorageBackend {
+  readonly name = 'localStorage';
+
+  async load(key: string): Promise<Uint8Array | null> {
+    const saved = localStorage.getItem(key);
+    return saved ? base64ToUint8Array(saved) : null;
+  }
+
+  async save(key: string, data: Uint8Array): Promise<void> {
+    localStorage.setItem(key, uint8ArrayToBase64(data));
+  }
+
+  async remove(key: string): Promise<void> {
+    localStorage.removeItem(key);
+    localStorage.removeItem(`${key}_version`);
+  }
+}
+
+/**
+ * Cria o backend padrão do ambiente (IndexedDB quando disponível)
+ */
+export function createDefaultStorageBackend(): DbStorageBackend {
+  return IndexedDbStorageBackend.isSupported()
+    ? new IndexedDbStorageBackend()
+    : new LocalStorageBackend();
+}
+
+/**
+ * Consulta uso e cota de armazenamento da origem (StorageManager API)
+ * Retorna zeros quando a API não está disponível
+ */
+export async function estimateStorage(): Promise<{ usageBytes: number; quotaBytes: number; persisted: boolean }> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return { usageBytes: 0, quotaBytes: 0, persisted: false };
+  }
+
+  const estimate = await navigator.storage.estimate();
+  const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+
+  return {
+    usageBytes: estimate.usage ?? 0,
+    quotaBytes: estimate.quota ?? 0,
+    persisted
+  };
+}
+
+/**
+ * Pede ao navegador armazenamento persistente (evita remoção automática sob pressão de espaço)
+ * @returns true se concedido
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) {
+    return false;
+  }
+
+  try {
+    return await navigator.storage.persist();
+  } catch {
+    return false;
+  }
+}
+
+// ==================== CONVERSÕES ====================
+
+/**
+ * Converte Uint8Array para string base64
+ * Usa chunks para evitar "Maximum call stack size exceeded"
+ */
+export function uint8ArrayToBase64(arr: Uint8Array): string {
+  const CHUNK_SIZE = 8192;
+  let result = '';
+  for (let i = 0; i < arr.length; i += CHUNK_SIZE) {
+    const chunk = arr.subarray(i, i + CHUNK_SIZE);
+    result += String.fromCharCode.apply(null, Array.from(chunk));
+  }
+  return btoa(result);
+}
+
+/**
+ * Converte string base64 para Uint8Array
+ */
+export function base64ToUint8Array(str: string): Uint8Array {
+  return new Uint8Array(atob(str).split('').map(c => c.charCodeAt(0)));
+}
@@ -0,0 +1,236 @@
+// src/app/core/services/db-tab-coordinator.ts
+
+/**
+ * Papel da aba em relação ao banco local
+ * - writer: única aba que grava (detém o Web Lock)
+ * - reader: somente leitura; recarrega o banco quando a aba writer grava
+ */
+export type DbTabRole = 'writer' | 'reader';
+
+/**
+ * Mensagens trocadas entre as abas (BroadcastChannel)
+ * - changed: a aba writer gravou o banco no armazenamento
+ * - handover-request: uma aba reader pediu para assumir as gravações
+ * - handover-ready: a aba writer gravou as pendências e parou de escrever
+ */
+type DbTabMessage =
+  | { type: 'changed'; tabId: string }
+  | { type: 'handover-request'; tabId: string }
+  | { type: 'handover-ready'; tabId: string; to: string };
+
+/**
+ * Ações do DatabaseService acionadas pela coordenação
+ */
+export interface DbTabCoordinatorHooks {
+  /** Antes de assumir as gravações: recarrega o banco do armazenamento */
+  beforeBecomeWriter(): Promise<void>;
+  /** Antes de entregar as gravações: grava as alterações pendentes */
+  beforeHandover(): Promise<void>;
+  /** Papel da aba mudou */
+  onRoleChange(role: DbTabRole): void;
+  /** Outra aba gravou o banco */
+  onRemoteChange(): void;
+}
+
+const DB_TAB_CHANNEL = 'black_beer_db';
+const DB_WRITER_LOCK = 'black_beer_db_writer';
+
+/**
+ * Tempo máximo de espera pela aba writer ao assumir as gravações (ms)
+ * Uma aba congelada pelo navegador pode não responder: o lock é tomado assim mesmo.
+ */
+const HANDOVER_TIMEOUT_MS = 3000;
+
+/**
+ * Coordenação do banco entre abas do navegador
+ *
+ * Cada aba mantém sua própria cópia do sql.js em memória. Para que a última
+ * gravação de uma aba não sobrescreva as vendas de outra:
+ * - Apenas a aba que detém o Web Lock DB_WRITER_LOCK grava (writer)
+ * - As demais ficam somente leitura e recarregam o banco a cada aviso
+ *   "changed" da writer (BroadcastChannel)
+ * - Ao fechar a aba writer, o lock passa para a próxima aba da fila
+ * - Uma aba reader pode assumir as gravações (requestWriter): a writer grava
+ *   as pendências e o lock é transferido (steal)
+ *
+ * Sem Web Locks (navegadores antigos) todas as abas gravam e apenas os
+ * avisos de alteração são trocados.
+ */
+export class DbTabCoordinator {
+  public readonly tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+  private readonly channel: BroadcastChannel | null;
+  private role: DbTabRole = 'writer';
+  private releaseLock: (() => void) | null = null;
+  private queued = false;
+  private handoverWaiter: (() => void) | null = null;
+
+  constructor(private readonly hooks: DbTabCoordinatorHooks) {
+    this.channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(DB_TAB_CHANNEL) : null;
+    this.channel?.addEventListener('message', ({ data }: MessageEvent<DbTabMessage>) => void this.handleMessage(data));
+  }
+
+  /**
+   * Indica se o navegador permite garantir uma única aba writer
+   */
+  public static supportsSingleWriter(): boolean {
+    return typeof navigator !== 'undefined' && 'locks' in navigator;
+  }
+
+  public get currentRole(): DbTabRole {
+    return this.role;
+  }
+
+  /**
+   * Define o papel inicial da aba
+   * Writer se nenhuma outra aba detém o lock; caso contrário, reader na fila do lock.
+   */
+  public async start(): Promise<DbTabRole> {
+    if (!DbTabCoordinator.supportsSingleWriter()) {
+      return this.role;
+    }
+
+    const acquired = await new Promise<boolean>(resolve => {
+      navigator.locks.request(DB_WRITER_LOCK, { ifAvailable: true }, lock => {
+        resolve(lock !== null);
+        return lock ? this.holdLock() : undefined;
+      }).catch(error => this.onLockLost(error));
+    });
+
+    if (!acquired) {
+      this.role = 'reader';
+      this.queueForLock();
+    }
+    return this.role;
+  }
+
+  /**
+   * Avisa as outras abas que o banco foi gravado
+   */
+  public notifyChanged(): void {
+    this.post({ type: 'changed', tabId: this.tabId });
+  }
+
+  /**
+   * Assume as gravações nesta aba
+   * Pede à writer atual que grave as pendências e toma o lock.
+   */
+  public async requestWriter(): Promise<void> {
+    if (this.role === 'writer' || !DbTabCoordinator.supportsSingleWriter()) return;
+
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        console.warn('⚠️ A aba com as gravações não respondeu; assumindo o banco assim mesmo');
+        resolve();
+      }, HANDOVER_TIMEOUT_MS);
+
+      this.handoverWaiter = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      this.post({ type: 'handover-request', tabId: this.tabId });
+    });
+    this.handoverWaiter = null;
+
+    // A requisição da fila é descartada pelo steal; o lock vem desta requisição
+    navigator.locks.request(DB_WRITER_LOCK, { steal: true }, () => this.becomeWriter())
+      .catch(error => this.onLockLost(error));
+  }
+
+  /**
+   * Libera o lock e fecha o canal (ex: destruição do serviço)
+   */
+  public close(): void {
+    this.releaseLock?.();
+    this.releaseLock = null;
+    this.channel?.close();
+  }
+
+  /**
+   * Entra na fila do lock (no máximo uma requisição por aba)
+   */
+  private queueForLock(): void {
+    if (this.queued) return;
+    this.queued = true;
+
+    navigator.locks.request(DB_WRITER_LOCK, () => {
+      this.queued = false;
+      return this.becomeWriter();
+    }).catch(error => this.onLockLost(error));
+  }
+
+  private async becomeWriter(): Promise<void> {
+    await this.hooks.beforeBecomeWriter();
+    this.setRole('writer');
+    console.log('✍️ Esta aba passou a gravar o banco de dados');
+    return this.holdLock();
+  }
+
+  /**
+   * Mantém o lock até close() ou até ser tomado por outra aba
+   */
+  private holdLock(): Promise<void> {
+    return new Promise<void>(resolve => {
+      this.releaseLock = resolve;
+    });
+  }
+
+  /**
+   * O lock foi tomado por outra aba (steal): passa a reader e volta para a fila
+   */
+  private onLockLost(error: unknown): void {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      this.releaseLock = null;
+      this.setRole('reader');
+      console.log('👀 Outra aba assumiu as gravações; esta aba ficou somente leitura');
+      this.queueForLock();
+      return;
+    }
+    console.error('❌ Erro no lock de gravação do banco:', error);
+  }
+
+  private async handleMessage(message: DbTabMessage): Promise<void> {
+    if (message.tabId === this.tabId) return;
+
+    switch (message.type) {
+      case 'changed':
+        this.hooks.onRemoteChange();
+        break;
+
+      case 'handover-request':
+        if (this.role !== 'writer' || !this.releaseLock) return;
+        try {
+          await this.hooks.beforeHandover();
+        } catch (error) {
+          console.error('❌ Erro ao gravar pendências antes de entregar as gravações:', error);
+        }
+        // Para de escrever antes de a outra aba tomar o lock
+        this.setRole('reader');
+        this.post({ type: 'handover-ready', tabId: this.tabId, to: message.tabId });
+
+        // Se a outra aba não tomar o lock (ex: foi fechada), volta a gravar
+        setTimeout(() => {
+          if (this.releaseLock && this.role === 'reader') {
+            this.setRole('writer');
+          }
+        }, HANDOVER_TIMEOUT_MS * 2);
+        break;
+
+      case 'handover-ready':
+        if (message.to === this.tabId) {
+          this.handoverWaiter?.();
+        }
+        break;
+    }
+  }
+
+  private setRole(role: DbTabRole): void {
+    if (this.role === role) return;
+    this.role = role;
+    this.hooks.onRoleChange(role);
+  }
+
+  private post(message: DbTabMessage): void {
+    this.channel?.postMessage(message);
+  }
+}
@@ -5,7 +5,8 @@
 import { Injectable, inject } from '@angular/core';
 import { DatabaseService } from './database';
 import { FullReport } from '../models/report.model';
-import { emailsFromDb, toBooleanFromDb } from '../models/beer.model';
+import { getPaymentMethodLabel } from '../models/payment.model';
+import { PRODUCT_KIND_LABELS, emailsFromDb, toBooleanFromDb } from '../models/beer.model';
 
 /**
  * Serviço responsável por enviar relatórios por email
@@ -84,6 +85,7 @@ export class EmailService {
     lines.push('# RESUMO GERAL');
     lines.push('Total de Vendas,' + report.summary.num_total_sales);
     lines.push('Volume Total (Litros),' + report.summary.num_total_volume_liters.toFixed(2));
+    lines.push('Unidades Vendidas,' + report.summary.num_total_units);
     lines.push('');
     
     // ========== SEÇÃO 2: VENDAS POR TAMANHO ==========
@@ -92,23 +94,61 @@ export class EmailService {
     
     if (report.salesByCupSize.length > 0) {
       report.salesByCupSize.forEach(item => {
-        lines.push(`${item.num_cup_size}ml,${item.num_count}`);
+        lines.push(`"${item.desc_label}",${item.num_count}`);
       });
     } else {
       lines.push('Nenhuma venda registrada,0');
     }
     lines.push('');
     
+    // ========== RECEBIMENTOS POR FORMA DE PAGAMENTO ==========
+    if (report.salesByPaymentMethod.length > 0) {
+      lines.push('# RECEBIMENTOS POR FORMA DE PAGAMENTO');
+      lines.push('Forma,Pagamentos,Valor (R$),Troco (R$)');
+      report.salesByPaymentMethod.forEach(item => {
+        lines.push(`${getPaymentMethodLabel(item.desc_method)},${item.num_payments},${item.num_amount.toFixed(2)},${item.num_change.toFixed(2)}`);
+      });
+      lines.push('');
+    }
+
+    // ========== TAXA DE SERVIÇO E GORJETAS ==========
+    if (report.serviceChargesByUser.length > 0) {
+      lines.push('# TAXA DE SERVIÇO E GORJETAS POR ATENDENTE');
+      lines.push('Atendente,Contas,Taxa de Serviço (R$),Gorjetas (R$)');
+      report.serviceChargesByUser.forEach(item => {
+        lines.push(`${item.desc_username},${item.num_bills},${item.num_service_charge.toFixed(2)},${item.num_tip.toFixed(2)}`);
+      });
+      lines.push('');
+    }
+
+    // ========== ESTORNOS ==========
+    if (report.voids.num_voids > 0) {
+      lines.push('# ESTORNOS');
+      lines.push('Estornos,Itens,Litros,Valor (R$)');
+      lines.push(`${report.voids.num_voids},${report.voids.num_quantity},${report.voids.num_liters.toFixed(2)},${report.voids.num_amount.toFixed(2)}`);
+      lines.push('');
+    }
+
+    // ========== DESCONTOS POR PROMOÇÃO ==========
+    if (report.salesByPromotion.length > 0) {
+      lines.push('# DESCONTOS POR PROMOÇÃO');
+      lines.push('Promoção,Vendas,Desconto (R$)');
+      report.salesByPromotion.forEach(item => {
+        lines.push(`"${item.desc_promotions}",${item.num_sales},${item.num_discount.toFixed(2)}`);
+      });
+      lines.push('');
+    }
+
     // ========== SEÇÃO 3: VENDAS POR TIPO DE CERVEJA ==========
     lines.push('# VENDAS POR TIPO DE CERVEJA');
-    lines.push('Nome,Litros,Copos');
+    lines.push('Nome,Tipo,Litros,Quantidade');
     
     if (report.salesByBeerType.length > 0) {
       report.salesByBeerType.forEach(item => {
-        lines.push(`${item.desc_name},${item.num_total_liters.toFixed(2)},${item.num_total_cups}`);
+        lines.push(`${item.desc_name},${PRODUCT_KIND_LABELS[item.desc_kind]},${item.num_total_liters.toFixed(2)},${item.num_total_cups}`);
       });
     } else {
-      lines.push('Nenhuma venda registrada,0.00,0');
+      lines.push('Nenhuma venda registrada,,0.00,0');
     }
     
     return lines.join('\n');
@@ -324,7 +364,11 @@ export class EmailService {
  *     const report = {
  *       summary: { totalSales: 10, totalVolumeLiters: 5 },
  *       salesByCupSize: [],
- *       salesByBeerType: []
+ *       salesByBeerType: [],
+ *       salesByPromotion: [],
+ *       salesByPaymentMethod: [],
+ *       serviceChargesByUser: [],
+ *       voids: { num_voids: 0, num_quantity: 0, num_liters: 0, num_amount: 0 }
  *     };
  *     expect(service.isReportValid(report)).toBe(true);
  *   });
@@ -333,7 +377,11 @@ export class EmailService {
  *     const report = {
  *       summary: { totalSales: 0, totalVolumeLiters: 0 },
  *       salesByCupSize: [],
- *       salesByBeerType: []
+ *       salesByBeerType: [],
+ *       salesByPromotion: [],
+ *       salesByPaymentMethod: [],
+ *       serviceChargesByUser: [],
+ *       voids: { num_voids: 0, num_quantity: 0, num_liters: 0, num_amount: 0 }
  *     };
  *     expect(service.isReportValid(report)).toBe(false);
  *   });
@@ -3,15 +3,18 @@
 // ========================================
 
 import { Injectable, inject, signal, computed, WritableSignal } from '@angular/core';
-import { DatabaseService } from './database';
+import { EventRepository } from '../repositories/event.repository';
+import { SaleRepository } from '../repositories/sale.repository';
+import { SaleWithUser } from '../models/beer.model';
 import {
   Event,
   EventStatus,
+  EventStatistics,
   CreateEventDto,
   UpdateEventDto,
+  EMPTY_EVENT_STATISTICS,
   validateCreateEvent,
-  validateUpdateEvent,
-  isValidEvent
+  validateUpdateEvent
 } from '../models/event.model';
 
 /**
@@ -30,7 +33,8 @@ import {
   providedIn: 'root'
 })
 export class EventService {
-  private readonly dbService = inject(DatabaseService);
+  private readonly eventRepository = inject(EventRepository);
+  private readonly saleRepository = inject(SaleRepository);
 
   // ==================== SIGNALS PARA ESTADO REATIVO ====================
 
@@ -71,7 +75,7 @@ export class EventService {
    * Eventos ativos
    */
   public readonly activeEvents = computed(() =>
-    this._events().filter(e => e.desc_status === 'ativo')
+    this._events().filter(e => e.desc_status === 'ativo' && !e.dt_archived_at)
   );
 
   /**
@@ -81,6 +85,13 @@ export class EventService {
     this._events().filter(e => e.desc_status === 'finalizado')
   );
 
+  /**
+   * Eventos arquivados (ocultos na gestão, mantidos nos relatórios)
+   */
+  public readonly archivedEvents = computed(() =>
+    this._events().filter(e => !!e.dt_archived_at)
+  );
+
   /**
    * Total de eventos
    */
@@ -107,11 +118,8 @@ export class EventService {
     this._lastError.set(null);
 
     try {
-      const rawEvents = this.dbService.getAllEvents();
-
-      // Valida e filtra eventos
-      const validEvents = rawEvents
-        .filter(isValidEvent)
+      // Eventos já validados pelo repositório
+      const validEvents = this.eventRepository.findAll()
         .sort((a, b) => {
           // Ordena por data (mais recentes primeiro)
           return new Date(b.dt_data_event).getTime() - new Date(a.dt_data_event).getTime();
@@ -148,21 +156,17 @@ export class EventService {
     }
 
     try {
-      const eventId = this.dbService.createEvent({
-        nameEvent: eventData.desc_name_event.trim(),
-        localEvent: eventData.desc_local_event.trim(),
-        dataEvent: eventData.dt_data_event,
-        contactEvent: eventData.desc_contact_event?.trim() || undefined,
-        nameContactEvent: eventData.desc_name_contact_event?.trim() || undefined,
-        status: eventData.desc_status || 'planejamento'
+      const eventId = this.eventRepository.create({
+        desc_name_event: eventData.desc_name_event.trim(),
+        desc_local_event: eventData.desc_local_event.trim(),
+        dt_data_event: eventData.dt_data_event,
+        desc_contact_event: eventData.desc_contact_event?.trim() || undefined,
+        desc_name_contact_event: eventData.desc_name_contact_event?.trim() || undefined,
+        desc_status: eventData.desc_status || 'planejamento'
       });
 
-      console.log('Debug - ID do evento criado:', eventId);
-
-      if (eventId) {
-        await this.loadEvents();
-        console.log('✅ Evento criado com sucesso:', eventId);
-      }
+      await this.loadEvents();
+      console.log('✅ Evento criado com sucesso:', eventId);
 
       return eventId;
     } catch (error) {
@@ -190,15 +194,7 @@ export class EventService {
     }
 
     try {
-      // Prepara dados para atualização (remove undefined)
-      const updateData: any = { ...eventData };
-      Object.keys(updateData).forEach(key => {
-        if (updateData[key] === undefined) {
-          delete updateData[key];
-        }
-      });
-
-      const success = this.dbService.updateEvent(eventData.num_id, updateData);
+      const success = this.eventRepository.update(eventData);
 
       if (success) {
         await this.loadEvents();
@@ -224,26 +220,22 @@ export class EventService {
 
     try {
       // Verifica se há vendas vinculadas
-      const hasSales = this.dbService.eventHasSales(eventId);
+      const hasSales = this.saleRepository.existsForEvent(eventId);
       if (hasSales) {
-        this._lastError.set('Este evento possui vendas associadas e não pode ser deletado');
+        this._lastError.set('Este evento possui vendas associadas: arquive-o em vez de excluir');
         return false;
       }
 
-      const success = this.dbService.deleteEvent(eventId);
-
-      if (success) {
-        await this.loadEvents();
-
-        // Limpa seleção se for o evento selecionado
-        if (this._selectedEvent()?.num_id === eventId) {
-          this._selectedEvent.set(null);
-        }
+      this.eventRepository.delete(eventId);
+      await this.loadEvents();
 
-        console.log('✅ Evento deletado com sucesso:', eventId);
+      // Limpa seleção se for o evento selecionado
+      if (this._selectedEvent()?.num_id === eventId) {
+        this._selectedEvent.set(null);
       }
 
-      return success;
+      console.log('✅ Evento deletado com sucesso:', eventId);
+      return true;
     } catch (error) {
       console.error('❌ Erro ao deletar evento:', error);
       this._lastError.set('Não foi possível deletar o evento');
@@ -251,6 +243,58 @@ export class EventService {
     }
   }
 
+  /**
+   * Arquiva um evento (vendas continuam nos relatórios)
+   * Eventos ativos precisam ser finalizados antes.
+   * @param eventId ID do evento
+   * @returns Promise<boolean> - true se sucesso
+   */
+  public async archiveEvent(eventId: number): Promise<boolean> {
+    this._lastError.set(null);
+
+    const event = this.getEventById(eventId);
+    if (event?.desc_status === 'ativo') {
+      this._lastError.set('Finalize o evento antes de arquivá-lo');
+      return false;
+    }
+
+    try {
+      this.eventRepository.archive(eventId);
+      await this.loadEvents();
+
+      if (this._selectedEvent()?.num_id === eventId) {
+        this._selectedEvent.set(null);
+      }
+
+      console.log('✅ Evento arquivado:', eventId);
+      return true;
+    } catch (error) {
+      console.error('❌ Erro ao arquivar evento:', error);
+      this._lastError.set('Não foi possível arquivar o evento');
+      return false;
+    }
+  }
+
+  /**
+   * Restaura um evento arquivado
+   * @param eventId ID do evento
+   * @returns Promise<boolean> - true se sucesso
+   */
+  public async restoreEvent(eventId: number): Promise<boolean> {
+    this._lastError.set(null);
+
+    try {
+      this.eventRepository.restore(eventId);
+      await this.loadEvents();
+      console.log('✅ Evento restaurado:', eventId);
+      return true;
+    } catch (error) {
+      console.error('❌ Erro ao restaurar evento:', error);
+      this._lastError.set('Não foi possível restaurar o evento');
+      return false;
+    }
+  }
+
   // ==================== MÉTODOS PÚBLICOS - SELEÇÃO ====================
 
   /**
@@ -319,7 +363,7 @@ export class EventService {
     this._lastError.set(null);
 
     try {
-      const success = this.dbService.updateEventStatus(eventId, newStatus);
+      const success = this.eventRepository.updateStatus(eventId, newStatus);
 
       if (success) {
         await this.loadEvents();
@@ -359,22 +403,12 @@ export class EventService {
    * @param eventId ID do evento
    * @returns Estatísticas do evento
    */
-  public getEventStatistics(eventId: number): {
-    num_total_sales: number;
-    num_total_volume: number;
-    num_total_revenue: number;
-    salesByBeer: any[];
-  } {
+  public getEventStatistics(eventId: number): EventStatistics {
     try {
-      return this.dbService.getEventStatistics(eventId);
+      return this.saleRepository.getEventStatistics(eventId);
     } catch (error) {
       console.error('❌ Erro ao obter estatísticas do evento:', error);
-      return {
-        num_total_sales: 0,
-        num_total_volume: 0,
-        num_total_revenue: 0,
-        salesByBeer: []
-      };
+      return EMPTY_EVENT_STATISTICS;
     }
   }
 
@@ -384,7 +418,7 @@ export class EventService {
    * @returns true se tem vendas
    */
   public eventHasSales(eventId: number): boolean {
-    return this.dbService.eventHasSales(eventId);
+    return this.saleRepository.existsForEvent(eventId);
   }
 
   /**
@@ -392,8 +426,8 @@ export class EventService {
    * @param eventId ID do evento
    * @returns Array de vendas
    */
-  public getEventSales(eventId: number): any[] {
-    return this.dbService.getSalesByEvent(eventId);
+  public getEventSales(eventId: number): SaleWithUser[] {
+    return this.saleRepository.findByEvent(eventId);
   }
 
   // ==================== MÉTODOS PÚBLICOS - VALIDAÇÃO ====================
@@ -418,12 +452,12 @@ export class EventService {
    * @returns { canDelete: boolean, reason?: string }
    */
   public canDeleteEvent(eventId: number): { canDelete: boolean; reason?: string } {
-    const hasSales = this.dbService.eventHasSales(eventId);
+    const hasSales = this.saleRepository.existsForEvent(eventId);
 
     if (hasSales) {
       return {
         canDelete: false,
-        reason: 'Este evento possui vendas associadas e não pode ser deletado'
+        reason: 'Este evento possui vendas associadas: arquive-o em vez de excluir'
       };
     }
 
@@ -0,0 +1,100 @@
+import { QrMatrix, encodeQrCode, qrCodeToSvgPath } from './qr-code';
+
+/**
+ * "PIX" em versão 1, nível M (conferido com um leitor de QR Code)
+ */
+const PIX_V1 = [
+  '#######.......#######',
+  '#.....#..##...#.....#',
+  '#.###.#.#..##.#.###.#',
+  '#.###.#.#..##.#.###.#',
+  '#.###.#.#.#.#.#.###.#',
+  '#.....#.#.##..#.....#',
+  '#######.#.#.#.#######',
+  '........###..........',
+  '#.#####...##..#####..',
+  '...##..########......',
+  '...##.###...#.##.###.',
+  '####.#..#..####..##..',
+  '#######..#..#..#.##..',
+  '........#...#..#...#.',
+  '#######..#.#.#..#.##.',
+  '#.....#.#......##.###',
+  '#.###.#.####.#..#.#..',
+  '#.###.#.##.####..#...',
+  '#.###.#.#...#.##.....',
+  '#.....#...#####..#...',
+  '#######.#...#..#..##.'
+];
+
+const FINDER = [
+  '#######',
+  '#.....#',
+  '#.###.#',
+  '#.###.#',
+  '#.###.#',
+  '#.....#',
+  '#######'
+];
+
+function render(matrix: QrMatrix, top = 0, left = 0, size = matrix.length): string[] {
+  return matrix.slice(top, top + size).map(row => row.slice(left, left + size).map(dark => (dark ? '#' : '.')).join(''));
+}
+
+/**
+ * Bits de formato lidos ao redor do localizador superior esquerdo (sem a máscara 0x5412)
+ */
+function readFormat(matrix: QrMatrix): number {
+  const bits: boolean[] = [];
+  for (let i = 0; i <= 5; i++) bits.push(matrix[8][i]);
+  bits.push(matrix[8][7], matrix[8][8], matrix[7][8]);
+  for (let i = 5; i >= 0; i--) bits.push(matrix[i][8]);
+  return bits.reduce((value, bit) => (value << 1) | (bit ? 1 : 0), 0) ^ 0x5412;
+}
+
+describe('encodeQrCode', () => {
+  it('gera a matriz esperada para um texto curto', () => {
+    expect(render(encodeQrCode('PIX'))).toEqual(PIX_V1);
+  });
+
+  it('escolhe a menor versão que comporta o conteúdo (modo byte, nível M)', () => {
+    expect(encodeQrCode('A'.repeat(14)).length).toBe(21);
+    expect(encodeQrCode('A'.repeat(15)).length).toBe(25);
+    expect(encodeQrCode('A'.repeat(300)).length).toBe(17 + 4 * 13);
+  });
+
+  it('conta os bytes UTF-8, não os caracteres', () => {
+    expect(encodeQrCode('ç'.repeat(7)).length).toBe(21);
+    expect(encodeQrCode('ç'.repeat(8)).length).toBe(25);
+  });
+
+  it('tem os três localizadores, os padrões de sincronismo e o módulo escuro', () => {
+    const matrix = encodeQrCode('00020126360014br.gov.bcb.pix0114+5511999999999');
+    const size = matrix.length;
+
+    expect(render(matrix, 0, 0, 7)).toEqual(FINDER);
+    expect(render(matrix, 0, size - 7, 7)).toEqual(FINDER);
+    expect(render(matrix, size - 7, 0, 7)).toEqual(FINDER);
+    for (let i = 8; i < size - 8; i++) {
+      expect(matrix[6][i]).withContext(`linha 6, coluna ${i}`).toBe(i % 2 === 0);
+      expect(matrix[i][6]).withContext(`coluna 6, linha ${i}`).toBe(i % 2 === 0);
+    }
+    expect(matrix[size - 8][8]).toBeTrue();
+  });
+
+  it('grava o formato do nível M com uma máscara válida', () => {
+    const format = readFormat(encodeQrCode('PIX'));
+    expect(format >> 13).toBe(0);
+    expect((format >> 10) & 0b111).toBeLessThan(8);
+  });
+
+  it('rejeita conteúdo maior que a versão 40', () => {
+    expect(() => encodeQrCode('x'.repeat(2400))).toThrowError('Conteúdo grande demais para um QR Code');
+  });
+});
+
+describe('qrCodeToSvgPath', () => {
+  it('desenha um quadrado por módulo escuro', () => {
+    expect(qrCodeToSvgPath([[true, false], [false, true]])).toBe('M0 0h1v1h-1zM1 1h1v1h-1z');
+  });
+});
@@ -0,0 +1,414 @@
+// src/app/core/services/qr-code.ts
+
+/**
+ * Gerador de QR Code (ISO/IEC 18004) sem dependências, para uso offline
+ *
+ * Codifica texto UTF-8 no modo byte com correção de erro nível M
+ * (≈15% de recuperação), escolhendo a menor versão (1 a 40) que comporta
+ * o conteúdo e a máscara de menor penalidade. Usado no PIX copia e cola.
+ */
+
+/**
+ * Matriz de módulos: true = escuro; [linha][coluna]
+ */
+export type QrMatrix = boolean[][];
+
+// Tabelas do nível M (índice = versão; posição 0 não usada)
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28
+];
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49
+];
+
+// Bits de formato do nível M
+const ECC_FORMAT_BITS = 0;
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+/**
+ * Gera a matriz do QR Code de um texto
+ * @throws Error se o texto não couber na versão 40
+ */
+export function encodeQrCode(text: string): QrMatrix {
+  const data = new TextEncoder().encode(text);
+
+  let version = MIN_VERSION;
+  for (; version <= MAX_VERSION; version++) {
+    const capacityBits = getNumDataCodewords(version) * 8;
+    if (4 + getCountBits(version) + data.length * 8 <= capacityBits) break;
+  }
+  if (version > MAX_VERSION) {
+    throw new Error('Conteúdo grande demais para um QR Code');
+  }
+
+  const codewords = addEccAndInterleave(encodeData(data, version), version);
+  return new QrBuilder(version).build(codewords);
+}
+
+/**
+ * Caminho SVG dos módulos escuros (viewBox "0 0 tamanho tamanho", sem margem)
+ */
+export function qrCodeToSvgPath(matrix: QrMatrix): string {
+  const parts: string[] = [];
+  matrix.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) parts.push(`M${x} ${y}h1v1h-1z`);
+  }));
+  return parts.join('');
+}
+
+// ==================== DADOS ====================
+
+function getCountBits(version: number): number {
+  return version <= 9 ? 8 : 16;
+}
+
+/**
+ * Módulos disponíveis para dados + correção (descontados os padrões fixos)
+ */
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function getNumDataCodewords(version: number): number {
+  return Math.floor(getNumRawDataModules(version) / 8)
+    - ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version];
+}
+
+/**
+ * Modo byte + contagem + dados + terminador + bytes de preenchimento
+ */
+function encodeData(data: Uint8Array, version: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4);
+  append(data.length, getCountBits(version));
+  data.forEach(byte => append(byte, 8));
+
+  const capacityBits = getNumDataCodewords(version) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - bits.length % 8) % 8);
+  for (let pad = 0xEC; bits.length < capacityBits; pad ^= 0xEC ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+/**
+ * Divide em blocos, calcula a correção Reed-Solomon e intercala os blocos
+ */
+function addEccAndInterleave(data: number[], version: number): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - rawCodewords % numBlocks;
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEccLength);
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const length = shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < numShortBlocks) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Blocos curtos têm um byte de preenchimento que não entra no QR
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+// ==================== REED-SOLOMON (GF(256), polinômio 0x11D) ====================
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11D);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+// ==================== MATRIZ ====================
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0
+];
+
+class QrBuilder {
+  private readonly size: number;
+  private readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  build(codewords: number[]): QrMatrix {
+    this.drawFunctionPatterns();
+    this.drawCodewords(codewords);
+
+    let bestMask = 0;
+    let bestPenalty = Infinity;
+    for (let mask = 0; mask < MASKS.length; mask++) {
+      this.applyMask(mask);
+      this.drawFormatBits(mask);
+      const penalty = this.getPenaltyScore();
+      if (penalty < bestPenalty) {
+        bestMask = mask;
+        bestPenalty = penalty;
+      }
+      this.applyMask(mask); // XOR desfaz a máscara
+    }
+
+    this.applyMask(bestMask);
+    this.drawFormatBits(bestMask);
+    return this.modules;
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  private drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    const positions = this.getAlignmentPatternPositions();
+    const last = positions.length - 1;
+    positions.forEach((x, i) => positions.forEach((y, j) => {
+      // Não sobrepõe os três padrões de localização
+      if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) {
+        this.drawAlignmentPattern(x, y);
+      }
+    }));
+
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  private drawFinderPattern(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunction(xx, yy, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private getAlignmentPatternPositions(): number[] {
+    if (this.version === 1) return [];
+
+    const numAlign = Math.floor(this.version / 7) + 2;
+    const step = this.version === 32 ? 26 : Math.ceil((this.version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+    const result = [6];
+    for (let position = this.size - 7; result.length < numAlign; position -= step) {
+      result.splice(1, 0, position);
+    }
+    return result;
+  }
+
+  private drawFormatBits(mask: number): void {
+    const data = (ECC_FORMAT_BITS << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+    // Primeira cópia (ao redor do localizador superior esquerdo)
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+
+    // Segunda cópia (localizadores superior direito e inferior esquerdo)
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, bit(i));
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return;
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1F25);
+    }
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = this.size - 11 + i % 3;
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  /**
+   * Preenche os dados em zigue-zague (pares de colunas, da direita para a esquerda)
+   */
+  private drawCodewords(codewords: number[]): void {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  private applyMask(mask: number): void {
+    const invert = MASKS[mask];
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && invert(x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  /**
+   * Penalidade da máscara (regras 1 a 4 da norma)
+   */
+  private getPenaltyScore(): number {
+    const size = this.size;
+    const at = (x: number, y: number) => this.modules[y][x];
+    let penalty = 0;
+
+    // Regra 1 (sequências de 5+ módulos iguais) e regra 3 (padrão 1:1:3:1:1), linhas e colunas
+    const finderLike = [true, false, true, true, true, false, true];
+    for (let horizontal = 0; horizontal < 2; horizontal++) {
+      for (let a = 0; a < size; a++) {
+        const line = Array.from({ length: size }, (_, b) => horizontal ? at(b, a) : at(a, b));
+
+        let run = 1;
+        for (let b = 1; b <= size; b++) {
+          if (b < size && line[b] === line[b - 1]) {
+            run++;
+          } else {
+            if (run >= 5) penalty += 3 + run - 5;
+            run = 1;
+          }
+        }
+
+        for (let b = 0; b + 7 <= size; b++) {
+          if (!finderLike.every((dark, k) => line[b + k] === dark)) continue;
+          const lightBefore = b >= 4 && line.slice(b - 4, b).every(dark => !dark);
+          const lightAfter = b + 11 <= size && line.slice(b + 7, b + 11).every(dark => !dark);
+          if (lightBefore || lightAfter) penalty += 40;
+        }
+      }
+    }
+
+    // Regra 2: blocos 2x2 da mesma cor
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = at(x, y);
+        if (color === at(x + 1, y) && color === at(x, y + 1) && color === at(x + 1, y + 1)) {
+          penalty += 3;
+        }
+      }
+    }
+
+    // Regra 4: proporção de módulos escuros distante de 50%
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    penalty += Math.floor(Math.abs(dark * 20 - total * 10) / total) * 10;
+
+    return penalty;
+  }
+}
@@ -0,0 +1,75 @@
+// src/app/core/services/quick-sale-settings.service.ts
+import { Injectable, PLATFORM_ID, inject, signal } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import {
+  DEFAULT_QUICK_SALE_SETTINGS,
+  QUICK_SALE_STORAGE_KEY,
+  QuickSaleSettings,
+  isQuickSaleSettings,
+  normalizeQuickSaleSettings,
+  validateQuickSaleSettings
+} from '../models/quick-sale.model';
+
+/**
+ * Configuração da venda rápida (atalhos e códigos) deste dispositivo
+ *
+ * Fica no localStorage e não vai para o banco: cada caixa tem o seu
+ * teclado e o seu leitor, e a configuração não sincroniza.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class QuickSaleSettingsService {
+  private readonly platformId = inject(PLATFORM_ID);
+
+  private readonly settingsSignal = signal<QuickSaleSettings>(DEFAULT_QUICK_SALE_SETTINGS);
+
+  /**
+   * Configuração atual (somente leitura)
+   */
+  public readonly settings = this.settingsSignal.asReadonly();
+
+  constructor() {
+    this.restore();
+  }
+
+  /**
+   * Valida e grava a configuração neste dispositivo
+   * @throws Error se houver atalho/código inválido ou repetido
+   */
+  public save(settings: QuickSaleSettings): void {
+    const normalized = normalizeQuickSaleSettings(settings);
+    validateQuickSaleSettings(normalized);
+
+    if (isPlatformBrowser(this.platformId)) {
+      localStorage.setItem(QUICK_SALE_STORAGE_KEY, JSON.stringify(normalized));
+    }
+    this.settingsSignal.set(normalized);
+    console.log(`✅ Venda rápida salva: ${normalized.bindings.length} atalho(s)/código(s) [${normalized.enabled ? 'ativa' : 'inativa'}]`);
+  }
+
+  /**
+   * Liga ou desliga a venda rápida mantendo atalhos e códigos
+   */
+  public setEnabled(enabled: boolean): void {
+    this.save({ ...this.settingsSignal(), enabled });
+  }
+
+  private restore(): void {
+    if (!isPlatformBrowser(this.platformId)) return;
+
+    try {
+      const saved = localStorage.getItem(QUICK_SALE_STORAGE_KEY);
+      if (!saved) return;
+
+      const settings = JSON.parse(saved);
+      if (!isQuickSaleSettings(settings)) {
+        console.warn('⚠️ Configuração de venda rápida inválida ignorada');
+        return;
+      }
+      this.settingsSignal.set(settings);
+    } catch (error) {
+      console.error('❌ Erro ao carregar configuração de venda rápida:', error);
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { Receipt, buildSaleReceipt } from '../models/receipt.model';
+import { encodeQrCode } from './qr-code';
+import {
+  createMonoBitmap,
+  imageToMonoBitmap,
+  padColumns,
+  qrMatrixToBitmap,
+  renderReceiptEscPos,
+  toPrinterText,
+  wrapText
+} from './receipt-escpos';
+
+const INIT = [0x1b, 0x40];
+const CENTER = [0x1b, 0x61, 1];
+const LEFT = [0x1b, 0x61, 0];
+const BOLD_ON = [0x1b, 0x45, 1];
+const BOLD_OFF = [0x1b, 0x45, 0];
+const DOUBLE_SIZE = [0x1d, 0x21, 0x11];
+const DOUBLE_HEIGHT = [0x1d, 0x21, 0x01];
+const NORMAL_SIZE = [0x1d, 0x21, 0x00];
+const FEED_3 = [0x1b, 0x64, 3];
+const PARTIAL_CUT = [0x1d, 0x56, 0x42, 0];
+
+/** 13/03/2026 21:05 no fuso local (formatReceiptDate usa a hora local) */
+const TIMESTAMP = new Date(2026, 2, 13, 21, 5).toISOString();
+
+/**
+ * Texto seguido de LF
+ */
+function line(text = ''): number[] {
+  return [...Array.from(text, char => char.charCodeAt(0)), 0x0a];
+}
+
+function rasterHeader(bytesPerRow: number, rows: number): number[] {
+  return [0x1d, 0x76, 0x30, 0, bytesPerRow & 0xff, bytesPerRow >> 8, rows & 0xff, rows >> 8];
+}
+
+function receipt(overrides: Partial<Receipt> = {}): Receipt {
+  return {
+    title: 'RECIBO',
+    companyName: null,
+    timestamp: TIMESTAMP,
+    items: [],
+    subtotal: 0,
+    discount: 0,
+    serviceRate: 0,
+    serviceCharge: 0,
+    tip: 0,
+    total: 0,
+    payments: [],
+    pixPayload: null,
+    footer: null,
+    ...overrides
+  };
+}
+
+describe('renderReceiptEscPos', () => {
+  it('inicializa a impressora e termina com avanço e corte parcial', () => {
+    const bytes = Array.from(renderReceiptEscPos(receipt(), { width: 58 }));
+
+    expect(bytes.slice(0, 5)).toEqual([...INIT, ...CENTER]);
+    expect(bytes.slice(-7)).toEqual([...FEED_3, ...PARTIAL_CUT]);
+  });
+
+  it('não corta o papel com cut: false', () => {
+    const bytes = Array.from(renderReceiptEscPos(receipt(), { width: 58, cut: false }));
+    expect(bytes.slice(-3)).toEqual(FEED_3);
+  });
+
+  it('gera o recibo de um carrinho pago em dinheiro (58 mm)', () => {
+    const sale = buildSaleReceipt(
+      [{ description: 'Pilsen (300ml)', quantity: 2, unitPrice: 10, discount: 0, total: 20 }],
+      [{ method: 'cash', amount: 20, received: 50 }],
+      { companyName: 'Black Beer', timestamp: TIMESTAMP, footer: 'Obrigado pela preferência!' }
+    );
+    const separator = line('-'.repeat(32));
+
+    expect(Array.from(renderReceiptEscPos(sale, { width: 58 }))).toEqual([
+      ...INIT,
+      ...CENTER,
+      ...BOLD_ON, ...DOUBLE_SIZE, ...line('Black Beer'), ...NORMAL_SIZE, ...BOLD_OFF,
+      ...BOLD_ON, ...line('RECIBO'), ...BOLD_OFF,
+      ...line('13/03/2026 21:05'),
+      ...LEFT, ...separator,
+      ...line('Pilsen (300ml)'),
+      ...line('  2 x R$ 10,00          R$ 20,00'),
+      ...separator,
+      ...line('Subtotal                R$ 20,00'),
+      ...BOLD_ON, ...DOUBLE_HEIGHT, ...line('TOTAL                   R$ 20,00'), ...NORMAL_SIZE, ...BOLD_OFF,
+      ...separator,
+      ...line('Dinheiro                R$ 20,00'),
+      ...line('  Troco                 R$ 30,00'),
+      ...separator, ...CENTER, ...line('Obrigado pela preferencia!'), ...LEFT,
+      ...FEED_3,
+      ...PARTIAL_CUT
+    ]);
+  });
+
+  it('gera a via da comanda com taxa de serviço, gorjeta e QR Code PIX (80 mm)', () => {
+    const comanda = receipt({
+      title: 'COMANDA 12',
+      items: [{ description: 'Chopp IPA (500ml)', quantity: 3, unitPrice: 15, discount: 0, total: 45 }],
+      subtotal: 45,
+      serviceRate: 10,
+      serviceCharge: 4.5,
+      tip: 5,
+      total: 54.5,
+      pixPayload: 'PIX'
+    });
+
+    // QR Code v1 (21 módulos + margem de 4) a 11 pontos por módulo: 319 × 319 pontos
+    const qr = qrMatrixToBitmap(encodeQrCode('PIX'), 11);
+    expect(qr.width).toBe(319);
+    const band = (top: number, rows: number) => [...rasterHeader(40, rows), ...qr.data.subarray(top * 40, (top + rows) * 40)];
+    const separator = line('-'.repeat(48));
+
+    expect(Array.from(renderReceiptEscPos(comanda, { width: 80 }))).toEqual([
+      ...INIT,
+      ...CENTER,
+      ...BOLD_ON, ...line('COMANDA 12'), ...BOLD_OFF,
+      ...line('13/03/2026 21:05'),
+      ...LEFT, ...separator,
+      ...line('Chopp IPA (500ml)'),
+      ...line('  3 x R$ 15,00                          R$ 45,00'),
+      ...separator,
+      ...line('Subtotal                                R$ 45,00'),
+      ...line('Taxa de servico (10%)                    R$ 4,50'),
+      ...line('Gorjeta                                  R$ 5,00'),
+      ...BOLD_ON, ...DOUBLE_HEIGHT, ...line('TOTAL                                   R$ 54,50'), ...NORMAL_SIZE, ...BOLD_OFF,
+      ...separator, ...CENTER,
+      ...BOLD_ON, ...line('Pague com PIX'), ...BOLD_OFF,
+      ...band(0, 128),
+      ...band(128, 128),
+      ...band(256, 63),
+      ...LEFT,
+      ...FEED_3,
+      ...PARTIAL_CUT
+    ]);
+  });
+
+  it('envia a imagem em faixas de 128 linhas com largura e altura little-endian', () => {
+    const logo = createMonoBitmap(2400, 300, x => x === 0);
+    const bytes = renderReceiptEscPos(receipt(), { width: 80, logo });
+    const bytesPerRow = 300;
+
+    let offset = 5;
+    for (const rows of [128, 128, 44]) {
+      expect(Array.from(bytes.subarray(offset, offset + 8))).withContext(`faixa de ${rows}`).toEqual([0x1d, 0x76, 0x30, 0, 0x2c, 0x01, rows, 0]);
+      expect(bytes[offset + 8]).toBe(0x80);
+      offset += 8 + bytesPerRow * rows;
+    }
+    expect(Array.from(bytes.subarray(offset, offset + 3))).toEqual(BOLD_ON);
+  });
+});
+
+describe('padColumns', () => {
+  it('alinha o valor à direita em 32 colunas (58 mm) e 48 colunas (80 mm)', () => {
+    expect(padColumns('Subtotal', 'R$ 20,00', 32)).toBe('Subtotal                R$ 20,00');
+    expect(padColumns('Subtotal', 'R$ 20,00', 48)).toBe('Subtotal                                R$ 20,00');
+  });
+
+  it('trunca o texto para manter um espaço antes do valor', () => {
+    expect(padColumns('Taxa de servico (10%) sobre os itens', 'R$ 4,50', 32)).toBe('Taxa de servico (10%) so R$ 4,50');
+    expect(padColumns('Total', 'R$ 1.234.567,89', 10)).toBe('234.567,89');
+  });
+});
+
+describe('wrapText', () => {
+  const description = 'Chopp Pilsen artesanal da casa com lupulo extra (500ml)';
+
+  it('quebra por palavra em 32 e 48 colunas', () => {
+    expect(wrapText(description, 32)).toEqual(['Chopp Pilsen artesanal da casa', 'com lupulo extra (500ml)']);
+    expect(wrapText(description, 48)).toEqual(['Chopp Pilsen artesanal da casa com lupulo extra', '(500ml)']);
+  });
+
+  it('corta palavras maiores que a linha e ignora espaços repetidos', () => {
+    expect(wrapText('  ABCDEFGHIJ   KL ', 4)).toEqual(['ABCD', 'EFGH', 'IJ', 'KL']);
+    expect(wrapText('   ', 32)).toEqual([]);
+  });
+});
+
+describe('toPrinterText', () => {
+  it('remove acentos e troca o que não é ASCII por "?"', () => {
+    expect(toPrinterText('Serviço à vontade €5')).toBe('Servico a vontade ?5');
+  });
+});
+
+describe('imagens monocromáticas', () => {
+  it('createMonoBitmap grava o ponto mais à esquerda no bit mais significativo', () => {
+    const bitmap = createMonoBitmap(10, 1, x => x === 0 || x === 9);
+    expect(Array.from(bitmap.data)).toEqual([0x80, 0x40]);
+  });
+
+  it('imageToMonoBitmap imprime pontos escuros e deixa transparentes em branco', () => {
+    const rgba = [0, 0, 0, 255, 255, 255, 255, 255, 0, 0, 0, 0];
+    const bitmap = imageToMonoBitmap(rgba, 3, 1, 576);
+    expect(Array.from(bitmap.data)).toEqual([0x80]);
+  });
+
+  it('qrMatrixToBitmap inclui a margem de 4 módulos', () => {
+    const bitmap = qrMatrixToBitmap([[true]], 1);
+    expect(bitmap.width).toBe(9);
+    expect(Array.from(bitmap.data.subarray(8, 10))).toEqual([0x08, 0x00]);
+    expect(Array.from(bitmap.data).filter(byte => byte !== 0)).toEqual([0x08]);
+  });
+});
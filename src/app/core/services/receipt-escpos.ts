@@ -0,0 +1,298 @@
+// src/app/core/services/receipt-escpos.ts
+
+/**
+ * Renderizador de recibos em ESC/POS para impressoras térmicas (58/80 mm)
+ *
+ * Funções puras, sem DOM: recebem o recibo e devolvem os bytes a enviar
+ * para a impressora. Logo e QR Code PIX são impressos como imagem raster
+ * (GS v 0), aceita inclusive pelos modelos que não geram QR Code sozinhos.
+ * O texto sai em ASCII (sem acentos), legível em qualquer página de código.
+ */
+
+import { getPaymentMethodLabel } from '../models/payment.model';
+import {
+  RECEIPT_COLUMNS,
+  RECEIPT_DOTS,
+  Receipt,
+  ReceiptPaperWidth,
+  formatReceiptDate,
+  formatReceiptMoney
+} from '../models/receipt.model';
+import { QrMatrix, encodeQrCode } from './qr-code';
+
+/**
+ * Imagem monocromática: 1 bit por ponto, linhas de ceil(width / 8) bytes,
+ * bit mais significativo = ponto mais à esquerda, 1 = preto
+ */
+export interface MonoBitmap {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface EscPosOptions {
+  width: ReceiptPaperWidth;
+  logo?: MonoBitmap | null;         // Já redimensionada para a bobina (imageToMonoBitmap)
+  cut?: boolean;                    // Corte parcial ao final (padrão: true)
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+/** Linhas por comando GS v 0 (buffer pequeno em muitos modelos) */
+const RASTER_BAND_HEIGHT = 128;
+
+/** Margem (quiet zone) exigida em volta do QR Code, em módulos */
+const QR_QUIET_ZONE = 4;
+
+/** Fração da largura da bobina ocupada pelo QR Code */
+const QR_WIDTH_RATIO = 0.6;
+
+/** Luminância abaixo da qual o ponto é impresso */
+const DARK_THRESHOLD = 128;
+
+type Align = 'left' | 'center' | 'right';
+
+const ALIGN_CODES: Record<Align, number> = { left: 0, center: 1, right: 2 };
+
+/**
+ * Acumula os comandos ESC/POS
+ */
+class EscPosWriter {
+  private readonly bytes: number[] = [];
+
+  init(): this {
+    return this.raw(ESC, 0x40);
+  }
+
+  align(align: Align): this {
+    return this.raw(ESC, 0x61, ALIGN_CODES[align]);
+  }
+
+  bold(on: boolean): this {
+    return this.raw(ESC, 0x45, on ? 1 : 0);
+  }
+
+  /**
+   * Tamanho dos caracteres: largura e altura dobradas reduzem as colunas à metade
+   */
+  size(doubleWidth: boolean, doubleHeight: boolean): this {
+    return this.raw(GS, 0x21, (doubleWidth ? 0x10 : 0) | (doubleHeight ? 0x01 : 0));
+  }
+
+  line(text = ''): this {
+    for (const char of toPrinterText(text)) this.bytes.push(char.charCodeAt(0));
+    return this.raw(LF);
+  }
+
+  feed(lines: number): this {
+    return this.raw(ESC, 0x64, lines);
+  }
+
+  image(bitmap: MonoBitmap): this {
+    const bytesPerRow = Math.ceil(bitmap.width / 8);
+    for (let top = 0; top < bitmap.height; top += RASTER_BAND_HEIGHT) {
+      const rows = Math.min(RASTER_BAND_HEIGHT, bitmap.height - top);
+      this.raw(GS, 0x76, 0x30, 0, bytesPerRow & 0xff, bytesPerRow >> 8, rows & 0xff, rows >> 8);
+      const band = bitmap.data.subarray(top * bytesPerRow, (top + rows) * bytesPerRow);
+      for (const byte of band) this.bytes.push(byte);
+    }
+    return this;
+  }
+
+  cut(): this {
+    return this.raw(GS, 0x56, 0x42, 0);
+  }
+
+  raw(...values: number[]): this {
+    this.bytes.push(...values);
+    return this;
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/**
+ * Gera os bytes ESC/POS de um recibo
+ */
+export function renderReceiptEscPos(receipt: Receipt, options: EscPosOptions): Uint8Array {
+  const columns = RECEIPT_COLUMNS[options.width];
+  const writer = new EscPosWriter().init();
+
+  // Cabeçalho: logo, empresa, título e data
+  writer.align('center');
+  if (options.logo) {
+    writer.image(options.logo);
+  }
+  if (receipt.companyName) {
+    writer.bold(true).size(true, true);
+    wrapText(receipt.companyName, Math.floor(columns / 2)).forEach(line => writer.line(line));
+    writer.size(false, false).bold(false);
+  }
+  writer.bold(true).line(receipt.title).bold(false);
+  writer.line(formatReceiptDate(receipt.timestamp));
+  writer.align('left').line(separator(columns));
+
+  // Itens
+  for (const item of receipt.items) {
+    wrapText(item.description, columns).forEach(line => writer.line(line));
+    writer.line(padColumns(`  ${item.quantity} x ${formatReceiptMoney(item.unitPrice)}`, formatReceiptMoney(item.unitPrice * item.quantity), columns));
+    if (item.discount > 0) {
+      writer.line(padColumns('  Desconto', formatReceiptMoney(-item.discount), columns));
+    }
+  }
+  writer.line(separator(columns));
+
+  // Totais
+  writer.line(padColumns('Subtotal', formatReceiptMoney(receipt.subtotal), columns));
+  if (receipt.discount > 0) {
+    writer.line(padColumns('Descontos', formatReceiptMoney(-receipt.discount), columns));
+  }
+  if (receipt.serviceCharge > 0) {
+    writer.line(padColumns(`Taxa de servico (${receipt.serviceRate}%)`, formatReceiptMoney(receipt.serviceCharge), columns));
+  }
+  if (receipt.tip > 0) {
+    writer.line(padColumns('Gorjeta', formatReceiptMoney(receipt.tip), columns));
+  }
+  writer.bold(true).size(false, true);
+  writer.line(padColumns('TOTAL', formatReceiptMoney(receipt.total), columns));
+  writer.size(false, false).bold(false);
+
+  // Pagamentos
+  if (receipt.payments.length > 0) {
+    writer.line(separator(columns));
+    for (const payment of receipt.payments) {
+      writer.line(padColumns(getPaymentMethodLabel(payment.method), formatReceiptMoney(payment.amount), columns));
+      if (payment.change > 0) {
+        writer.line(padColumns('  Troco', formatReceiptMoney(payment.change), columns));
+      }
+    }
+  }
+
+  // QR Code PIX do valor em aberto
+  if (receipt.pixPayload) {
+    const matrix = encodeQrCode(receipt.pixPayload);
+    const scale = Math.max(1, Math.floor(RECEIPT_DOTS[options.width] * QR_WIDTH_RATIO / (matrix.length + QR_QUIET_ZONE * 2)));
+    writer.line(separator(columns)).align('center');
+    writer.bold(true).line('Pague com PIX').bold(false);
+    writer.image(qrMatrixToBitmap(matrix, scale));
+    writer.align('left');
+  }
+
+  if (receipt.footer) {
+    writer.line(separator(columns)).align('center');
+    wrapText(receipt.footer, columns).forEach(line => writer.line(line));
+    writer.align('left');
+  }
+
+  writer.feed(3);
+  if (options.cut !== false) {
+    writer.cut();
+  }
+  return writer.toBytes();
+}
+
+// ==================== TEXTO ====================
+
+/**
+ * Texto imprimível: sem acentos e só ASCII (demais caracteres viram "?")
+ */
+export function toPrinterText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?');
+}
+
+/**
+ * Linha com o texto à esquerda e o valor alinhado à direita
+ * O texto é truncado quando os dois não cabem na largura.
+ */
+export function padColumns(left: string, right: string, columns: number): string {
+  const space = columns - right.length - 1;
+  if (space <= 0) return right.slice(-columns);
+  const text = left.length > space ? left.slice(0, space) : left;
+  return text + ' '.repeat(columns - text.length - right.length) + right;
+}
+
+/**
+ * Quebra o texto em linhas de até `columns` caracteres (por palavra)
+ */
+export function wrapText(text: string, columns: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.trim().split(/\s+/)) {
+    if (!word) continue;
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= columns) {
+      current += ' ' + word;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+    while (current.length > columns) {
+      lines.push(current.slice(0, columns));
+      current = current.slice(columns);
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+function separator(columns: number): string {
+  return '-'.repeat(columns);
+}
+
+// ==================== IMAGENS ====================
+
+/**
+ * Cria uma imagem monocromática a partir de uma função ponto a ponto
+ */
+export function createMonoBitmap(width: number, height: number, isDark: (x: number, y: number) => boolean): MonoBitmap {
+  const bytesPerRow = Math.ceil(width / 8);
+  const data = new Uint8Array(bytesPerRow * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isDark(x, y)) data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Converte pixels RGBA (ImageData) em imagem monocromática
+ * Reduz para no máximo `maxWidth` pontos mantendo a proporção;
+ * áreas transparentes saem em branco.
+ */
+export function imageToMonoBitmap(rgba: ArrayLike<number>, width: number, height: number, maxWidth: number): MonoBitmap {
+  const scale = Math.min(1, maxWidth / width);
+  const targetWidth = Math.max(1, Math.floor(width * scale));
+  const targetHeight = Math.max(1, Math.floor(height * scale));
+
+  return createMonoBitmap(targetWidth, targetHeight, (x, y) => {
+    const sourceX = Math.min(width - 1, Math.floor(x / scale));
+    const sourceY = Math.min(height - 1, Math.floor(y / scale));
+    const offset = (sourceY * width + sourceX) * 4;
+    const alpha = rgba[offset + 3];
+    if (alpha < DARK_THRESHOLD) return false;
+    const luminance = 0.299 * rgba[offset] + 0.587 * rgba[offset + 1] + 0.114 * rgba[offset + 2];
+    return luminance < DARK_THRESHOLD;
+  });
+}
+
+/**
+ * QR Code como imagem: `scale` pontos por módulo, com a margem exigida
+ */
+export function qrMatrixToBitmap(matrix: QrMatrix, scale: number): MonoBitmap {
+  const size = (matrix.length + QR_QUIET_ZONE * 2) * scale;
+  return createMonoBitmap(size, size, (x, y) => {
+    const row = Math.floor(y / scale) - QR_QUIET_ZONE;
+    const column = Math.floor(x / scale) - QR_QUIET_ZONE;
+    return matrix[row]?.[column] === true;
+  });
+}
@@ -0,0 +1,45 @@
+import { Receipt } from '../models/receipt.model';
+import { renderReceiptHtml } from './receipt-html';
+
+function receipt(overrides: Partial<Receipt> = {}): Receipt {
+  return {
+    title: 'RECIBO',
+    companyName: null,
+    timestamp: new Date(2026, 2, 13, 21, 5).toISOString(),
+    items: [],
+    subtotal: 0,
+    discount: 0,
+    serviceRate: 0,
+    serviceCharge: 0,
+    tip: 0,
+    total: 0,
+    payments: [],
+    pixPayload: null,
+    footer: null,
+    ...overrides
+  };
+}
+
+describe('renderReceiptHtml', () => {
+  it('escapa o nome da empresa, os itens e o rodapé', () => {
+    const html = renderReceiptHtml(receipt({
+      companyName: '<script>alert("x")</script>',
+      items: [{ description: 'Chopp & <b>IPA</b>', quantity: 1, unitPrice: 15, discount: 0, total: 15 }],
+      footer: "Volte 'sempre'"
+    }), { width: 80 });
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('<div class="company">&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</div>');
+    expect(html).toContain('<div class="item">Chopp &amp; &lt;b&gt;IPA&lt;/b&gt;</div>');
+    expect(html).toContain('<div class="center">Volte &#39;sempre&#39;</div>');
+  });
+
+  it('não deixa a URL da logo fechar o atributo', () => {
+    const html = renderReceiptHtml(receipt(), { width: 58, logoUrl: 'data:image/png;base64,x" onerror="alert(1)' });
+    expect(html).toContain('src="data:image/png;base64,x&quot; onerror=&quot;alert(1)"');
+  });
+
+  it('usa a largura da bobina na página', () => {
+    expect(renderReceiptHtml(receipt(), { width: 58 })).toContain('@page { size: 58mm auto; margin: 0; }');
+  });
+});
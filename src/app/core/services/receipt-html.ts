@@ -0,0 +1,120 @@
+// src/app/core/services/receipt-html.ts
+
+/**
+ * Renderizador de recibos em HTML para impressão pelo navegador
+ *
+ * Alternativa ao ESC/POS quando não há impressora térmica conectada:
+ * gera um documento completo com @page na largura da bobina (58/80 mm),
+ * que também funciona em impressoras comuns (A4).
+ */
+
+import { getPaymentMethodLabel } from '../models/payment.model';
+import {
+  Receipt,
+  ReceiptPaperWidth,
+  formatReceiptDate,
+  formatReceiptMoney
+} from '../models/receipt.model';
+import { encodeQrCode, qrCodeToSvgPath } from './qr-code';
+
+export interface ReceiptHtmlOptions {
+  width: ReceiptPaperWidth;
+  logoUrl?: string | null;          // Data URL da logo (ClientConfigService)
+}
+
+/** Margem (quiet zone) exigida em volta do QR Code, em módulos */
+const QR_QUIET_ZONE = 4;
+
+/**
+ * Gera o documento HTML de um recibo
+ */
+export function renderReceiptHtml(receipt: Receipt, options: ReceiptHtmlOptions): string {
+  const rows: string[] = [];
+  const amountRow = (label: string, value: number, className = '') =>
+    `<div class="row ${className}"><span>${escapeHtml(label)}</span><span>${formatReceiptMoney(value)}</span></div>`;
+
+  // Itens
+  for (const item of receipt.items) {
+    rows.push(`<div class="item">${escapeHtml(item.description)}</div>`);
+    rows.push(amountRow(`${item.quantity} x ${formatReceiptMoney(item.unitPrice)}`, item.unitPrice * item.quantity, 'indent'));
+    if (item.discount > 0) {
+      rows.push(amountRow('Desconto', -item.discount, 'indent'));
+    }
+  }
+  rows.push('<hr>');
+
+  // Totais
+  rows.push(amountRow('Subtotal', receipt.subtotal));
+  if (receipt.discount > 0) rows.push(amountRow('Descontos', -receipt.discount));
+  if (receipt.serviceCharge > 0) rows.push(amountRow(`Taxa de serviço (${receipt.serviceRate}%)`, receipt.serviceCharge));
+  if (receipt.tip > 0) rows.push(amountRow('Gorjeta', receipt.tip));
+  rows.push(amountRow('TOTAL', receipt.total, 'total'));
+
+  // Pagamentos
+  if (receipt.payments.length > 0) {
+    rows.push('<hr>');
+    for (const payment of receipt.payments) {
+      rows.push(amountRow(getPaymentMethodLabel(payment.method), payment.amount));
+      if (payment.change > 0) rows.push(amountRow('Troco', payment.change, 'indent'));
+    }
+  }
+
+  // QR Code PIX do valor em aberto
+  if (receipt.pixPayload) {
+    const matrix = encodeQrCode(receipt.pixPayload);
+    const size = matrix.length + QR_QUIET_ZONE * 2;
+    rows.push('<hr>');
+    rows.push('<div class="center bold">Pague com PIX</div>');
+    rows.push(
+      `<svg class="qr" viewBox="${-QR_QUIET_ZONE} ${-QR_QUIET_ZONE} ${size} ${size}" shape-rendering="crispEdges">` +
+      `<path d="${qrCodeToSvgPath(matrix)}"/></svg>`
+    );
+  }
+
+  if (receipt.footer) {
+    rows.push('<hr>');
+    rows.push(`<div class="center">${escapeHtml(receipt.footer)}</div>`);
+  }
+
+  const logo = options.logoUrl ? `<img class="logo" src="${escapeHtml(options.logoUrl)}" alt="">` : '';
+  const company = receipt.companyName ? `<div class="company">${escapeHtml(receipt.companyName)}</div>` : '';
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(receipt.title)}</title>
+<style>
+  @page { size: ${options.width}mm auto; margin: 0; }
+  * { box-sizing: border-box; }
+  body { width: ${options.width}mm; margin: 0; padding: 3mm; font: ${options.width === 58 ? 11 : 12}px/1.35 'Courier New', monospace; color: #000; }
+  hr { border: 0; border-top: 1px dashed #000; margin: 2mm 0; }
+  .center { text-align: center; }
+  .bold { font-weight: bold; }
+  .logo { display: block; max-width: 60%; max-height: 25mm; margin: 0 auto 2mm; }
+  .company { text-align: center; font-size: 1.4em; font-weight: bold; }
+  .row { display: flex; justify-content: space-between; gap: 2mm; }
+  .indent { padding-left: 2mm; }
+  .total { font-size: 1.3em; font-weight: bold; margin-top: 1mm; }
+  .qr { display: block; width: 60%; margin: 2mm auto; }
+</style>
+</head>
+<body>
+${logo}
+${company}
+<div class="center bold">${escapeHtml(receipt.title)}</div>
+<div class="center">${formatReceiptDate(receipt.timestamp)}</div>
+<hr>
+${rows.join('\n')}
+</body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,147 @@
+// src/app/core/services/receipt-printer.ts
+
+/**
+ * Envio direto de ESC/POS para a impressora térmica pelo navegador
+ *
+ * - Web Serial: impressoras seriais, Bluetooth (SPP) e USB com porta COM virtual;
+ * - WebUSB: impressoras USB da classe "impressora", sem driver do sistema.
+ *
+ * As duas APIs só existem em navegadores Chromium e em contexto seguro;
+ * escolher uma impressora nova exige um clique do usuário. O TypeScript não
+ * traz os tipos dessas APIs: as interfaces abaixo cobrem só o que é usado.
+ */
+
+export type ReceiptPrinterTransport = 'serial' | 'usb';
+
+/**
+ * Impressora conectada pelo navegador
+ */
+export interface ReceiptPrinter {
+  transport: ReceiptPrinterTransport;
+  write(bytes: Uint8Array): Promise<void>;
+}
+
+/** Velocidade padrão das impressoras térmicas seriais */
+const SERIAL_BAUD_RATE = 9600;
+
+/** Classe USB das impressoras */
+const USB_PRINTER_CLASS = 0x07;
+
+interface SerialPortLike {
+  readonly writable: WritableStream<Uint8Array> | null;
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface SerialLike {
+  getPorts(): Promise<SerialPortLike[]>;
+  requestPort(): Promise<SerialPortLike>;
+}
+
+interface UsbInterfaceLike {
+  interfaceNumber: number;
+  alternate: {
+    interfaceClass: number;
+    endpoints: { endpointNumber: number; direction: 'in' | 'out'; type: string }[];
+  };
+}
+
+interface UsbDeviceLike {
+  readonly configuration: { interfaces: UsbInterfaceLike[] } | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(configurationValue: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<unknown>;
+}
+
+interface UsbLike {
+  getDevices(): Promise<UsbDeviceLike[]>;
+  requestDevice(options: { filters: { classCode: number }[] }): Promise<UsbDeviceLike>;
+}
+
+type PrinterNavigator = Navigator & { serial?: SerialLike; usb?: UsbLike };
+
+function printerNavigator(): PrinterNavigator | null {
+  return typeof navigator === 'undefined' ? null : navigator as PrinterNavigator;
+}
+
+/**
+ * Impressora já autorizada neste navegador; sem nenhuma, pede ao usuário
+ * que escolha uma (Web Serial, ou WebUSB se não houver Web Serial)
+ * Deve ser chamado a partir de um clique, antes de qualquer outra espera.
+ * @returns null sem suporte no navegador ou se o usuário cancelar a escolha
+ */
+export async function connectReceiptPrinter(): Promise<ReceiptPrinter | null> {
+  const nav = printerNavigator();
+  if (!nav) return null;
+
+  const port = (await nav.serial?.getPorts())?.[0];
+  if (port) return serialPrinter(port);
+
+  const device = (await nav.usb?.getDevices())?.[0];
+  if (device) return usbPrinter(device);
+
+  try {
+    if (nav.serial) return serialPrinter(await nav.serial.requestPort());
+    if (nav.usb) return usbPrinter(await nav.usb.requestDevice({ filters: [{ classCode: USB_PRINTER_CLASS }] }));
+  } catch (error) {
+    // Seletor fechado sem escolher uma impressora
+    if (error instanceof DOMException && error.name === 'NotFoundError') return null;
+    throw error;
+  }
+  return null;
+}
+
+function serialPrinter(port: SerialPortLike): ReceiptPrinter {
+  return {
+    transport: 'serial',
+    write: async (bytes) => {
+      await port.open({ baudRate: SERIAL_BAUD_RATE });
+      try {
+        if (!port.writable) {
+          throw new Error('Porta serial da impressora sem escrita');
+        }
+        const writer = port.writable.getWriter();
+        try {
+          await writer.write(bytes);
+        } finally {
+          writer.releaseLock();
+        }
+      } finally {
+        await port.close();
+      }
+    }
+  };
+}
+
+function usbPrinter(device: UsbDeviceLike): ReceiptPrinter {
+  return {
+    transport: 'usb',
+    write: async (bytes) => {
+      await device.open();
+      try {
+        if (!device.configuration) {
+          await device.selectConfiguration(1);
+        }
+
+        // Interface de impressora com endpoint bulk de saída
+        const target = (device.configuration?.interfaces ?? [])
+          .filter(usbInterface => usbInterface.alternate.interfaceClass === USB_PRINTER_CLASS)
+          .map(usbInterface => ({
+            interfaceNumber: usbInterface.interfaceNumber,
+            endpoint: usbInterface.alternate.endpoints.find(endpoint => endpoint.direction === 'out' && endpoint.type === 'bulk')
+          }))
+          .find(candidate => candidate.endpoint !== undefined);
+        if (!target?.endpoint) {
+          throw new Error('Dispositivo USB não é uma impressora compatível');
+        }
+
+        await device.claimInterface(target.interfaceNumber);
+        await device.transferOut(target.endpoint.endpointNumber, bytes);
+      } finally {
+        await device.close();
+      }
+    }
+  };
+}
@@ -0,0 +1,192 @@
+// src/app/core/services/receipt.service.ts
+import { Injectable, inject } from '@angular/core';
+import { ClientConfigService } from './client-config.service';
+import { ComandaService } from './comanda.service';
+import { MonoBitmap, imageToMonoBitmap, renderReceiptEscPos } from './receipt-escpos';
+import { ReceiptPrinter, ReceiptPrinterTransport, connectReceiptPrinter } from './receipt-printer';
+import { renderReceiptHtml } from './receipt-html';
+import { ComandaWithItems } from '../models/comanda.model';
+import { PaymentInput } from '../models/payment.model';
+import { buildPixPayload } from '../models/pix.model';
+import {
+  RECEIPT_DOTS,
+  Receipt,
+  ReceiptItem,
+  buildComandaReceipt,
+  buildSaleReceipt
+} from '../models/receipt.model';
+
+/**
+ * Fração da largura da bobina ocupada pela logo
+ */
+const LOGO_WIDTH_RATIO = 0.6;
+
+/**
+ * Recibos de venda e vias de comanda
+ *
+ * Monta o recibo com os dados da empresa (ClientConfigService) e entrega
+ * em dois formatos:
+ * - ESC/POS enviado à impressora térmica (58/80 mm) por Web Serial/WebUSB,
+ *   ou baixado (.bin) quando o navegador não tem essas APIs;
+ * - HTML impresso pelo navegador, quando não há impressora térmica.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ReceiptService {
+  private readonly clientConfig = inject(ClientConfigService);
+  private readonly comandaService = inject(ComandaService);
+
+  // ==================== MONTAGEM ====================
+
+  /**
+   * Recibo de uma venda direta (carrinho já pago)
+   */
+  public buildSaleReceipt(items: ReceiptItem[], payments: PaymentInput[]): Receipt {
+    return buildSaleReceipt(items, payments, {
+      companyName: this.clientConfig.getCompanyName()
+    });
+  }
+
+  /**
+   * Via de conferência de uma comanda
+   * Sem pagamentos, inclui o QR Code PIX do total (se o PIX estiver configurado)
+   * com o txid gravado na comanda, reutilizado no diálogo de pagamento.
+   */
+  public buildComandaReceipt(comanda: ComandaWithItems, payments: PaymentInput[] = []): Receipt {
+    const merchant = this.clientConfig.getPixMerchant();
+    const pixPayload = merchant && payments.length === 0 && comanda.num_total_value > 0
+      ? buildPixPayload(merchant, comanda.num_total_value, this.comandaService.getPixTxid(comanda.num_id))
+      : null;
+
+    return buildComandaReceipt(comanda, payments, {
+      companyName: this.clientConfig.getCompanyName(),
+      pixPayload
+    });
+  }
+
+  // ==================== SAÍDA ====================
+
+  /**
+   * Bytes ESC/POS do recibo, com a logo convertida para a bobina configurada
+   */
+  public async toEscPos(receipt: Receipt): Promise<Uint8Array> {
+    const width = this.clientConfig.getReceiptWidth();
+    const logo = await this.loadLogoBitmap(Math.floor(RECEIPT_DOTS[width] * LOGO_WIDTH_RATIO));
+    return renderReceiptEscPos(receipt, { width, logo });
+  }
+
+  /**
+   * Envia o recibo em ESC/POS para a impressora térmica (Web Serial ou WebUSB)
+   * Sem suporte no navegador, sem impressora escolhida ou se o envio falhar,
+   * baixa o .bin para envio manual.
+   * @returns Como o recibo saiu
+   */
+  public async sendEscPos(receipt: Receipt): Promise<ReceiptPrinterTransport | 'download'> {
+    // A impressora é escolhida antes de gerar os bytes: o seletor exige o clique recente
+    let printer: ReceiptPrinter | null = null;
+    try {
+      printer = await connectReceiptPrinter();
+    } catch (error) {
+      console.warn('⚠️ Impressora térmica indisponível:', error);
+    }
+
+    const bytes = await this.toEscPos(receipt);
+    if (printer) {
+      try {
+        await printer.write(bytes);
+        console.log(`✅ Recibo enviado à impressora térmica (${printer.transport})`);
+        return printer.transport;
+      } catch (error) {
+        console.warn('⚠️ Falha ao enviar o recibo à impressora térmica, baixando o arquivo:', error);
+      }
+    }
+
+    this.downloadEscPos(bytes, receipt.timestamp);
+    return 'download';
+  }
+
+  /**
+   * Baixa os bytes ESC/POS (.bin) para envio manual à impressora térmica
+   */
+  private downloadEscPos(bytes: Uint8Array, timestamp: string): void {
+    const stamp = timestamp.slice(0, 19).replace(/[-:T]/g, '');
+
+    const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: 'application/octet-stream' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `black-beer-recibo-${stamp}.bin`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Imprime o recibo pelo navegador (iframe oculto com o HTML do recibo)
+   */
+  public print(receipt: Receipt): Promise<void> {
+    const html = renderReceiptHtml(receipt, {
+      width: this.clientConfig.getReceiptWidth(),
+      logoUrl: this.clientConfig.getLogoUrl()
+    });
+
+    return new Promise((resolve, reject) => {
+      const frame = document.createElement('iframe');
+      frame.style.position = 'fixed';
+      frame.style.width = '0';
+      frame.style.height = '0';
+      frame.style.border = '0';
+      frame.setAttribute('aria-hidden', 'true');
+
+      frame.onload = () => {
+        const printWindow = frame.contentWindow;
+        if (!printWindow) {
+          frame.remove();
+          reject(new Error('Não foi possível abrir a impressão do recibo'));
+          return;
+        }
+        // Remove o iframe só depois que o diálogo de impressão fecha
+        printWindow.addEventListener('afterprint', () => frame.remove(), { once: true });
+        printWindow.focus();
+        printWindow.print();
+        resolve();
+      };
+
+      frame.srcdoc = html;
+      document.body.appendChild(frame);
+    });
+  }
+
+  // ==================== UTILIDADES ====================
+
+  /**
+   * Converte a logo da empresa em imagem monocromática
+   * @returns null se não houver logo ou ela não puder ser lida
+   */
+  private async loadLogoBitmap(maxWidth: number): Promise<MonoBitmap | null> {
+    const logoUrl = this.clientConfig.getLogoUrl();
+    if (!logoUrl) return null;
+
+    try {
+      const image = new Image();
+      image.src = logoUrl;
+      await image.decode();
+
+      // SVG sem dimensões declaradas: desenha na largura máxima
+      const width = image.naturalWidth || maxWidth;
+      const height = image.naturalHeight || maxWidth;
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      if (!context) return null;
+
+      context.drawImage(image, 0, 0, width, height);
+      const pixels = context.getImageData(0, 0, width, height);
+      return imageToMonoBitmap(pixels.data, width, height, maxWidth);
+    } catch (error) {
+      console.warn('⚠️ Logo não incluída no recibo:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,180 @@
+// src/app/core/services/sales-archive.service.ts
+import { Injectable, inject, signal } from '@angular/core';
+import { DatabaseService } from './database';
+import { ARCHIVE_KEY_PREFIX, compressArchive, decompressArchive } from './db-archive';
+import { SalesArchiveRepository } from '../repositories/sales-archive.repository';
+import {
+  SALES_ARCHIVE_FILE_VERSION,
+  SalesArchive,
+  SalesArchiveCriteria,
+  SalesArchivePreview,
+  describeArchiveCriteria
+} from '../models/archive.model';
+
+/**
+ * Arquivamento de vendas antigas
+ *
+ * FLUXO (createArchive):
+ * 1. Seleciona as vendas (eventos finalizados e/ou mais antigas que N meses)
+ * 2. Compacta (gzip) e grava o arquivo no IndexedDB de arquivos
+ * 3. Registra o índice e remove as vendas de prd_sales (uma transação)
+ *
+ * O arquivo é gravado antes da remoção: uma falha no meio deixa no máximo
+ * um arquivo sem índice, nunca vendas perdidas.
+ *
+ * Os relatórios carregam arquivos sob demanda (loadArchive): as vendas
+ * voltam para a view report_sales sem voltar para prd_sales.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SalesArchiveService {
+  private readonly dbService = inject(DatabaseService);
+  private readonly archiveRepository = inject(SalesArchiveRepository);
+
+  /**
+   * Arquivos registrados (mais recente primeiro)
+   */
+  public readonly archives = signal<SalesArchive[]>([]);
+
+  /**
+   * Chaves dos arquivos carregados nos relatórios
+   */
+  public readonly loadedKeys = this.dbService.loadedArchiveKeys;
+
+  /**
+   * Indica se o ambiente suporta arquivos de vendas
+   */
+  public isAvailable(): boolean {
+    return this.dbService.archivesAvailable();
+  }
+
+  /**
+   * Recarrega a lista de arquivos do índice
+   */
+  public refresh(): SalesArchive[] {
+    try {
+      const archives = this.dbService.tableExists('prd_sales_archives')
+        ? this.archiveRepository.findAll()
+        : [];
+      this.archives.set(archives);
+      return archives;
+    } catch (error) {
+      console.error('❌ Erro ao listar arquivos de vendas:', error);
+      this.archives.set([]);
+      return [];
+    }
+  }
+
+  /**
+   * Vendas que seriam arquivadas com os critérios informados
+   */
+  public preview(criteria: SalesArchiveCriteria): SalesArchivePreview {
+    return this.archiveRepository.preview(criteria);
+  }
+
+  /**
+   * Move as vendas que atendem aos critérios para um novo arquivo
+   * @returns Arquivo criado ou null se nenhuma venda atende aos critérios
+   * @throws Erro se a gravação do arquivo ou a remoção das vendas falhar
+   */
+  public async createArchive(criteria: SalesArchiveCriteria): Promise<SalesArchive | null> {
+    if (!this.isAvailable()) {
+      throw new Error('Arquivos de vendas indisponíveis neste navegador');
+    }
+
+    const sales = this.archiveRepository.selectSales(criteria);
+    if (sales.saleIds.length === 0) return null;
+
+    const createdAt = new Date().toISOString();
+    const key = `${ARCHIVE_KEY_PREFIX}${Date.now()}`;
+    const data = await compressArchive({
+      version: SALES_ARCHIVE_FILE_VERSION,
+      createdAt,
+      dbVersion: this.dbService.getDatabaseStats().dbVersion,
+      criteria,
+      columns: sales.columns,
+      rows: sales.rows
+    });
+
+    await this.dbService.saveArchiveFile(key, data);
+
+    const timestampIndex = sales.columns.indexOf('dt_timestamp');
+    const archive: Omit<SalesArchive, 'num_id'> = {
+      desc_key: key,
+      dt_created_at: createdAt,
+      desc_criteria: describeArchiveCriteria(criteria),
+      num_sales_count: sales.saleIds.length,
+      dt_first_sale: timestampIndex >= 0 ? String(sales.rows[0][timestampIndex]) : null,
+      dt_last_sale: timestampIndex >= 0 ? String(sales.rows[sales.rows.length - 1][timestampIndex]) : null,
+      num_size_bytes: data.length,
+      desc_beer_ids: JSON.stringify(sales.beerIds),
+      desc_event_ids: JSON.stringify(sales.eventIds)
+    };
+
+    let id: number;
+    try {
+      id = this.archiveRepository.register(archive, sales.saleIds);
+    } catch (error) {
+      // Vendas mantidas no banco: o arquivo gravado não tem mais uso
+      await this.dbService.removeArchiveFile(key).catch(() => undefined);
+      throw error;
+    }
+
+    await this.dbService.flushPersist();
+    console.log(`🗄️ ${archive.num_sales_count} vendas arquivadas (${data.length} bytes compactados)`);
+
+    this.refresh();
+    void this.dbService.refreshStorageUsage();
+    return { ...archive, num_id: id };
+  }
+
+  /**
+   * Carrega as vendas de um arquivo nos relatórios
+   * @throws Erro se o arquivo não existir neste navegador ou estiver corrompido
+   */
+  public async loadArchive(archive: SalesArchive): Promise<void> {
+    const data = await this.dbService.loadArchiveFile(archive.desc_key);
+    if (!data) {
+      throw new Error('Arquivo de vendas não encontrado neste navegador');
+    }
+
+    this.dbService.attachArchive(archive.desc_key, await decompressArchive(data));
+  }
+
+  /**
+   * Retira as vendas de um arquivo dos relatórios
+   */
+  public unloadArchive(archive: SalesArchive): void {
+    this.dbService.detachArchive(archive.desc_key);
+  }
+
+  /**
+   * Baixa o arquivo compactado (.json.gz, sem criptografia)
+   */
+  public async downloadArchive(archive: SalesArchive): Promise<void> {
+    const data = await this.dbService.loadArchiveFile(archive.desc_key);
+    if (!data) {
+      throw new Error('Arquivo de vendas não encontrado neste navegador');
+    }
+
+    const url = URL.createObjectURL(new Blob([data as BlobPart], { type: 'application/gzip' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `black-beer-vendas-${archive.dt_created_at.slice(0, 10)}-${archive.num_id}.json.gz`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Exclui definitivamente um arquivo e as vendas dele
+   */
+  public async deleteArchive(archive: SalesArchive): Promise<void> {
+    this.archiveRepository.delete(archive.num_id);
+    await this.dbService.removeArchiveFile(archive.desc_key);
+    console.log(`🗑️ Arquivo de vendas excluído: ${archive.desc_key}`);
+
+    this.refresh();
+    void this.dbService.refreshStorageUsage();
+  }
+}
@@ -1,13 +1,37 @@
 // src/app/core/services/sales.service.ts
 import { Injectable, inject } from '@angular/core';
 import { DatabaseService } from './database';
+import { SaleRepository } from '../repositories/sale.repository';
+import { PriceRepository } from '../repositories/price.repository';
+import { SaleVoidRepository } from '../repositories/sale-void.repository';
+import { StockRepository } from '../repositories/stock.repository';
+import { ComandaRepository } from '../repositories/comanda.repository';
+import { AuthService } from './auth.service';
+import { CupSize, Sale, SaleWithUser, isUnitSale } from '../models/beer.model';
+import {
+  SaleVoidRequest,
+  VOID_AUTHORIZER_ROLES,
+  calculateVoidAmount,
+  calculateVoidVolume,
+  validateSaleVoid
+} from '../models/sale-void.model';
+
+/**
+ * Resultado de um estorno
+ */
+export interface SaleVoidResult {
+  amount: number;                   // Valor estornado (R$)
+  liters: number;                   // Litros devolvidos
+  units: number;                    // Unidades devolvidas (produtos unitários)
+  stockRestored: boolean;           // false = produto sem controle de estoque
+}
 
 /**
  * Serviço de negócio para operações relacionadas a vendas
  *
  * Responsabilidades:
  * - Encapsular lógica de negócio de vendas
- * - Servir como camada intermediária entre componentes e DatabaseService
+ * - Servir como camada intermediária entre componentes e repositórios
  * - Processar e formatar dados antes de retornar aos componentes
  *
  * @version 1.0.0
@@ -17,6 +41,12 @@ import { DatabaseService } from './database';
 })
 export class SalesService {
   private readonly dbService = inject(DatabaseService);
+  private readonly saleRepository = inject(SaleRepository);
+  private readonly priceRepository = inject(PriceRepository);
+  private readonly saleVoidRepository = inject(SaleVoidRepository);
+  private readonly stockRepository = inject(StockRepository);
+  private readonly comandaRepository = inject(ComandaRepository);
+  private readonly authService = inject(AuthService);
 
   /**
    * Obtém o valor total de vendas (receita) em R$
@@ -44,7 +74,12 @@ export class SalesService {
       return 0;
     }
 
-    return this.dbService.getTotalRevenue(startDate, endDate, eventId);
+    try {
+      return this.saleRepository.getTotalRevenue(startDate, endDate, eventId);
+    } catch (error) {
+      console.error('❌ Erro ao calcular valor total:', error);
+      return 0;
+    }
   }
 
   /**
@@ -54,34 +89,18 @@ export class SalesService {
    * @returns true se há preços configurados, false caso contrário
    */
   public hasPriceConfiguration(beerId: number): boolean {
-    const config = this.dbService.getSalesConfigByBeerId(beerId);
-    return config !== null;
+    return this.priceRepository.hasPrices(beerId);
   }
 
   /**
    * Obtém o preço unitário de uma cerveja para um tamanho específico
    *
    * @param beerId ID da cerveja
-   * @param cupSize Tamanho do copo (300, 500 ou 1000)
+   * @param cupSize Volume do copo em ml (catálogo config_cup_sizes)
    * @returns Preço em reais ou 0 se não configurado
    */
-  public getUnitPrice(beerId: number, cupSize: 300 | 500 | 1000): number {
-    const config = this.dbService.getSalesConfigByBeerId(beerId);
-
-    if (!config) {
-      return 0;
-    }
-
-    switch (cupSize) {
-      case 300:
-        return Number(config.num_price_300ml) || 0;
-      case 500:
-        return Number(config.num_price_500ml) || 0;
-      case 1000:
-        return Number(config.num_price_1000ml) || 0;
-      default:
-        return 0;
-    }
+  public getUnitPrice(beerId: number, cupSize: CupSize): number {
+    return this.priceRepository.findEffectivePrice(beerId, cupSize) ?? 0;
   }
 
   /**
@@ -94,10 +113,102 @@ export class SalesService {
    */
   public calculateSaleValue(
     beerId: number,
-    cupSize: 300 | 500 | 1000,
+    cupSize: CupSize,
     quantity: number
   ): number {
     const unitPrice = this.getUnitPrice(beerId, cupSize);
     return unitPrice * quantity;
   }
+
+  // ==================== ESTORNOS ====================
+
+  /**
+   * Busca uma venda por ID (null se não existir ou em caso de erro)
+   */
+  public getSale(saleId: number): Sale | null {
+    try {
+      return this.saleRepository.findById(saleId);
+    } catch (error) {
+      console.error('❌ Erro ao buscar venda:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Últimas vendas que ainda podem ser estornadas
+   * @param eventId Evento selecionado no caixa (null = vendas sem evento)
+   */
+  public getRecentVoidableSales(eventId: number | null, limit: number = 10): SaleWithUser[] {
+    try {
+      return this.saleRepository.findRecentVoidable(eventId, limit);
+    } catch (error) {
+      console.error('❌ Erro ao buscar vendas recentes:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Estorna copos de uma venda (total ou parcial)
+   *
+   * - Exige motivo e as credenciais de um gestor/admin
+   * - Devolve os litros (ou as unidades) ao estoque do evento da venda
+   * - Tira o valor da comanda em aberto (o total da comanda fechada é regravado)
+   * - A venda original é mantida, marcada com os copos estornados
+   *
+   * @param request Copos, motivo e credenciais de quem autoriza
+   * @param userId Operador logado que registra o estorno
+   * @throws Error com a regra violada; nada é gravado
+   */
+  public voidSale(saleId: number, request: SaleVoidRequest, userId: number): SaleVoidResult {
+    const { quantity, reason } = request;
+    const authorized = this.authService.authorize(request.authorization, VOID_AUTHORIZER_ROLES);
+    if (!authorized.success || !authorized.user) {
+      throw new Error(authorized.message || 'Estorno não autorizado');
+    }
+    const authorizerId = authorized.user.num_id;
+
+    const result = this.dbService.transaction(() => {
+      const sale = this.saleRepository.findById(saleId);
+      if (!sale) {
+        throw new Error('Venda não encontrada');
+      }
+      validateSaleVoid(sale, quantity, reason);
+
+      const amount = calculateVoidAmount(sale, quantity);
+      const volume = calculateVoidVolume(sale, quantity);
+      const comandaId = sale.num_comanda_id ?? null;
+      const eventId = sale.num_event_id ?? null;
+
+      this.saleVoidRepository.insert({
+        num_sale_id: sale.num_id,
+        num_beer_id: sale.num_beer_id,
+        desc_beer_name: sale.desc_beer_name,
+        num_quantity: quantity,
+        num_total_volume: volume,
+        num_amount: amount,
+        desc_reason: reason,
+        num_user_id: userId,
+        num_authorized_by: authorizerId,
+        num_comanda_id: comandaId,
+        num_event_id: eventId,
+        dt_timestamp: new Date().toISOString()
+      });
+
+      if (comandaId !== null) {
+        this.comandaRepository.refreshClosedTotal(comandaId);
+      }
+
+      if (isUnitSale(sale)) {
+        const stockRestored = this.stockRepository.restoreUnits(sale.num_beer_id, quantity, eventId);
+        return { amount, liters: 0, units: quantity, stockRestored };
+      }
+
+      const liters = volume / 1000;
+      const stockRestored = this.stockRepository.restore(sale.num_beer_id, liters, eventId);
+      return { amount, liters, units: 0, stockRestored };
+    });
+
+    console.log(`🔄 Venda ${saleId} estornada: ${quantity} copo(s), R$ ${result.amount.toFixed(2)} (autorizado por ${authorized.user.desc_username})`);
+    return result;
+  }
 }
@@ -0,0 +1,220 @@
+// src/app/core/services/sync.service.ts
+import { Injectable, PLATFORM_ID, inject, signal } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { HttpClient, HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { DatabaseService } from './database';
+import { SyncRepository } from '../repositories/sync.repository';
+import { SyncConfig, SyncPullResponse, SyncPushResponse } from '../models/sync.model';
+
+/**
+ * Intervalo da sincronização automática (ms)
+ */
+const SYNC_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Alterações enviadas por requisição de push
+ */
+const PUSH_BATCH_SIZE = 200;
+
+/**
+ * Resumo de uma sincronização
+ */
+export interface SyncResult {
+  pushed: number;
+  rejected: number;
+  received: number;
+}
+
+/**
+ * Sincronização entre terminais via servidor (/api/sync em server.ts)
+ *
+ * FLUXO (syncNow):
+ * 1. Push: envia a fila offline (prd_sync_outbox) em lotes; cada alteração
+ *    confirmada (aplicada, duplicada ou rejeitada) sai da fila
+ * 2. Pull: recebe as vendas dos outros terminais e o estado consolidado de
+ *    estoque e comandas, que prevalece sobre o local
+ *
+ * Sem rede, as alterações ficam na fila e são enviadas na próxima tentativa
+ * (a cada SYNC_INTERVAL_MS e ao voltar a conexão). Somente a aba que grava
+ * o banco sincroniza.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SyncService {
+  private readonly http = inject(HttpClient);
+  private readonly dbService = inject(DatabaseService);
+  private readonly syncRepository = inject(SyncRepository);
+  private readonly platformId = inject(PLATFORM_ID);
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  public readonly isSyncing = signal<boolean>(false);
+  public readonly lastError = signal<string | null>(null);
+  public readonly lastResult = signal<SyncResult | null>(null);
+  public readonly pendingCount = signal<number>(0);
+
+  /**
+   * Inicia a sincronização automática (idempotente)
+   */
+  public start(): void {
+    if (!isPlatformBrowser(this.platformId) || this.timer) return;
+
+    this.timer = setInterval(() => void this.syncNow(), SYNC_INTERVAL_MS);
+    window.addEventListener('online', () => void this.syncNow());
+  }
+
+  /**
+   * Sincroniza agora
+   * @returns Resumo ou null se a sincronização está desativada/indisponível
+   */
+  public async syncNow(): Promise<SyncResult | null> {
+    if (this.isSyncing() || !this.dbService.isDbReady() || this.dbService.tabRole() === 'reader') {
+      return null;
+    }
+
+    const config = this.syncRepository.getConfig();
+    if (!config?.enabled || !config.serverUrl) {
+      return null;
+    }
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      this.refreshPendingCount();
+      return null;
+    }
+
+    this.isSyncing.set(true);
+    try {
+      const { pushed, rejected } = await this.push(config);
+      const received = await this.pull(config);
+
+      const result: SyncResult = { pushed, rejected, received };
+      this.lastResult.set(result);
+      this.lastError.set(null);
+
+      if (pushed > 0 || received > 0) {
+        console.log(`✅ Sincronização: ${pushed} enviada(s), ${rejected} rejeitada(s), ${received} venda(s) recebida(s)`);
+      }
+      return result;
+    } catch (error) {
+      const message = this.describeError(error);
+      console.error('❌ Erro na sincronização:', error);
+      this.lastError.set(message);
+      return null;
+    } finally {
+      this.isSyncing.set(false);
+      this.refreshPendingCount();
+    }
+  }
+
+  /**
+   * Atualiza o contador de alterações na fila
+   */
+  public refreshPendingCount(): void {
+    try {
+      this.pendingCount.set(this.syncRepository.countPending());
+    } catch (error) {
+      console.error('❌ Erro ao contar alterações pendentes:', error);
+    }
+  }
+
+  /**
+   * Envia a fila offline em lotes
+   */
+  private async push(config: SyncConfig): Promise<{ pushed: number; rejected: number }> {
+    let pushed = 0;
+    let rejected = 0;
+
+    while (true) {
+      const pending = this.syncRepository.findPending(PUSH_BATCH_SIZE);
+      if (pending.length === 0) break;
+
+      const outboxIds = pending.map(item => item.outboxId);
+      let response: SyncPushResponse;
+
+      try {
+        response = await firstValueFrom(this.http.post<SyncPushResponse>(
+          `${config.serverUrl}/api/sync/push`,
+          { terminalId: config.terminalId, changes: pending.map(item => item.change) },
+          { headers: this.buildHeaders(config) }
+        ));
+      } catch (error) {
+        this.syncRepository.markFailed(outboxIds, this.describeError(error));
+        throw error;
+      }
+
+      // Rejeitadas também saem da fila: o estado do servidor chega no pull
+      response.results
+        .filter(result => result.status === 'rejected')
+        .forEach(result => console.warn(`⚠️ Alteração ${result.opId} rejeitada pelo servidor: ${result.reason}`));
+
+      // Cadastro que o servidor já conhecia por outro identificador (mesmo nome)
+      for (const result of response.results) {
+        const change = pending.find(item => item.change.opId === result.opId)?.change;
+        if (!result.resolvedSyncId || !change) continue;
+
+        if (change.entity === 'beer') {
+          this.syncRepository.rekeyCatalog('beer', change.payload.beerSyncId, result.resolvedSyncId);
+        } else if (change.entity === 'event') {
+          this.syncRepository.rekeyCatalog('event', change.payload.eventSyncId, result.resolvedSyncId);
+        }
+      }
+
+      const confirmed = new Set(response.results.map(result => result.opId));
+      this.syncRepository.removeFromOutbox(
+        pending.filter(item => confirmed.has(item.change.opId)).map(item => item.outboxId)
+      );
+
+      pushed += response.results.filter(result => result.status !== 'rejected').length;
+      rejected += response.results.filter(result => result.status === 'rejected').length;
+
+      if (confirmed.size < pending.length) {
+        throw new Error('O servidor não confirmou todas as alterações enviadas');
+      }
+    }
+
+    return { pushed, rejected };
+  }
+
+  /**
+   * Recebe as alterações dos outros terminais desde o último cursor
+   * @returns Quantidade de vendas recebidas
+   */
+  private async pull(config: SyncConfig): Promise<number> {
+    let since = config.lastSeq;
+    let received = 0;
+    let response: SyncPullResponse;
+
+    do {
+      response = await firstValueFrom(this.http.get<SyncPullResponse>(
+        `${config.serverUrl}/api/sync/pull`,
+        {
+          params: { terminalId: config.terminalId, since },
+          headers: this.buildHeaders(config)
+        }
+      ));
+
+      received += this.syncRepository.applyPull(response);
+      since = response.lastSeq;
+    } while (response.hasMore);
+
+    return received;
+  }
+
+  private buildHeaders(config: SyncConfig): HttpHeaders {
+    return config.token
+      ? new HttpHeaders({ Authorization: `Bearer ${config.token}` })
+      : new HttpHeaders();
+  }
+
+  private describeError(error: unknown): string {
+    if (typeof error === 'object' && error !== null && 'status' in error && (error as { status: number }).status === 0) {
+      return 'Servidor de sincronização inacessível';
+    }
+    // Mensagem do servidor (token inválido, sincronização desativada etc.)
+    if (error instanceof HttpErrorResponse && typeof error.error?.error === 'string') {
+      return error.error.error;
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+}
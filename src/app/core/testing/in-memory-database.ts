@@ -0,0 +1,111 @@
+// src/app/core/testing/in-memory-database.ts
+import initSqlJs, { type Database } from 'sql.js';
+import { DB_MIGRATIONS, writeSchemaVersion } from '../services/db-migrations';
+
+/**
+ * Schema anterior à v10 (o mesmo de db-migrations.spec.ts); as migrations criam o resto
+ */
+const LEGACY_V9_SCHEMA = `
+  CREATE TABLE prd_beer_types (
+    num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    desc_name TEXT NOT NULL UNIQUE,
+    desc_color TEXT NOT NULL DEFAULT '#D4A574',
+    desc_description TEXT
+  );
+  CREATE TABLE prd_sales (
+    num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    num_beer_id INTEGER NOT NULL,
+    desc_beer_name TEXT NOT NULL,
+    num_cup_size INTEGER NOT NULL CHECK(num_cup_size IN (300, 500, 1000)),
+    num_quantity INTEGER NOT NULL CHECK(num_quantity > 0),
+    dt_timestamp TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    num_total_volume REAL NOT NULL CHECK(num_total_volume > 0),
+    FOREIGN KEY (num_beer_id) REFERENCES prd_beer_types(num_id) ON DELETE CASCADE
+  );
+  CREATE TABLE config_settings (
+    num_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    desc_email TEXT NOT NULL UNIQUE,
+    num_is_configured INTEGER NOT NULL DEFAULT 0 CHECK(num_is_configured IN (0, 1))
+  );
+  CREATE TABLE db_version (num_version INTEGER PRIMARY KEY);
+  INSERT INTO db_version (num_version) VALUES (9);
+`;
+
+type Params = (string | number | null)[];
+
+/**
+ * DatabaseService em memória para specs de repositórios
+ * Só a parte usada pelos repositórios, sem persistência nem réplica.
+ */
+export class InMemoryDatabaseService {
+  private transactionDepth = 0;
+
+  constructor(public readonly db: Database) {}
+
+  public executeQuery(sql: string, params?: Params): any[] {
+    const stmt = this.db.prepare(sql);
+    try {
+      if (params) {
+        stmt.bind(params);
+      }
+      const results: any[] = [];
+      while (stmt.step()) {
+        results.push(stmt.getAsObject());
+      }
+      return results;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  public executeRun(sql: string, params?: Params): void {
+    this.db.run(sql, params);
+  }
+
+  public transaction<T>(fn: () => T): T {
+    const isOuter = this.transactionDepth === 0;
+    const savepoint = `sp_${this.transactionDepth}`;
+
+    this.db.exec(isOuter ? 'BEGIN TRANSACTION' : `SAVEPOINT ${savepoint}`);
+    this.transactionDepth++;
+    try {
+      const result = fn();
+      this.transactionDepth--;
+      this.db.exec(isOuter ? 'COMMIT' : `RELEASE ${savepoint}`);
+      return result;
+    } catch (error) {
+      this.transactionDepth--;
+      this.db.exec(isOuter ? 'ROLLBACK' : `ROLLBACK TO ${savepoint}; RELEASE ${savepoint}`);
+      throw error;
+    }
+  }
+
+  public getLastInsertId(): number {
+    return Number(this.db.exec('SELECT last_insert_rowid()')[0].values[0][0]);
+  }
+
+  /**
+   * Primeira coluna da primeira linha (null sem resultado)
+   */
+  public scalar(sql: string, params?: Params): unknown {
+    const row = this.executeQuery(sql, params)[0];
+    return row ? Object.values(row)[0] : null;
+  }
+}
+
+/**
+ * Banco em memória com o schema atual (schema legado + todas as migrations)
+ */
+export async function createInMemoryDatabase(): Promise<InMemoryDatabaseService> {
+  const SQL = await initSqlJs({ locateFile: (file: string) => `assets/${file}` });
+  const db = new SQL.Database();
+
+  db.exec(LEGACY_V9_SCHEMA);
+  DB_MIGRATIONS
+    .filter(migration => migration.version > 9)
+    .forEach(migration => {
+      migration.up(db);
+      writeSchemaVersion(db, migration.version);
+    });
+  return new InMemoryDatabaseService(db);
+}
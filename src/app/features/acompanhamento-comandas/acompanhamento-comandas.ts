@@ -7,8 +7,18 @@ import { ToastModule } from 'primeng/toast';
 import { TagModule } from 'primeng/tag';
 import { MessageService } from 'primeng/api';
 import { ComandaService } from '../../core/services/comanda.service';
+import { AuthService } from '../../core/services/auth.service';
 import { TabRefreshService, MainTab } from '../../core/services/tab-refresh.service';
-import { Comanda, ComandaStatus, ComandaWithItems } from '../../core/models/comanda.model';
+import { SalesService } from '../../core/services/sales.service';
+import { ReceiptService } from '../../core/services/receipt.service';
+import { Comanda, ComandaItem, ComandaStatus, ComandaWithItems } from '../../core/models/comanda.model';
+import { PaymentInput } from '../../core/models/payment.model';
+import { Sale } from '../../core/models/beer.model';
+import { SaleVoidRequest } from '../../core/models/sale-void.model';
+import { ComandaClosingInput } from '../../core/models/service-charge.model';
+import { CloseComandaDialogComponent } from '../close-comanda-dialog/close-comanda-dialog';
+import { PaymentDialogComponent } from '../payment-dialog/payment-dialog';
+import { VoidSaleDialogComponent } from '../void-sale-dialog/void-sale-dialog';
 
 @Component({
   selector: 'app-acompanhamento-comandas',
@@ -18,7 +28,10 @@ import { Comanda, ComandaStatus, ComandaWithItems } from '../../core/models/coma
     CardModule,
     ButtonModule,
     ToastModule,
-    TagModule
+    TagModule,
+    CloseComandaDialogComponent,
+    PaymentDialogComponent,
+    VoidSaleDialogComponent
   ],
   providers: [MessageService],
   templateUrl: './acompanhamento-comandas.html',
@@ -28,12 +41,28 @@ export class AcompanhamentoComandosComponent implements OnInit {
   private readonly comandaService = inject(ComandaService);
   private readonly messageService = inject(MessageService);
   private readonly tabRefreshService = inject(TabRefreshService);
+  private readonly authService = inject(AuthService);
+  private readonly salesService = inject(SalesService);
+  private readonly receiptService = inject(ReceiptService);
 
   // Signals para dados
   protected comandasDisponiveis = signal<Comanda[]>([]);
   protected comandasEmUso = signal<ComandaWithItems[]>([]);
   protected comandasAguardandoPagamento = signal<ComandaWithItems[]>([]);
 
+  // Comanda em fechamento (diálogo aberto)
+  protected comandaEmFechamento = signal<ComandaWithItems | null>(null);
+  protected taxaServicoSugerida = signal(0);
+  protected isClosing = signal(false);
+
+  // Comanda em pagamento (diálogo aberto)
+  protected comandaEmPagamento = signal<ComandaWithItems | null>(null);
+  protected isPaying = signal(false);
+
+  // Item em estorno (diálogo aberto)
+  protected vendaEmEstorno = signal<Sale | null>(null);
+  protected isVoiding = signal(false);
+
   // Computed para totais
   protected totalDisponiveis = computed(() => this.comandasDisponiveis().length);
   protected totalEmUso = computed(() => this.comandasEmUso().length);
@@ -80,12 +109,32 @@ export class AcompanhamentoComandosComponent implements OnInit {
   }
 
   /**
-   * Fecha uma comanda e move para aguardando pagamento
-   * @param comandaId ID da comanda a ser fechada
+   * Abre o diálogo de fechamento (taxa de serviço e gorjeta)
+   * @param comanda Comanda em uso
+   */
+  protected fecharComanda(comanda: ComandaWithItems): void {
+    this.taxaServicoSugerida.set(this.comandaService.getServiceRate(comanda.num_id));
+    this.comandaEmFechamento.set(comanda);
+    this.isClosing.set(true);
+  }
+
+  /**
+   * Fecha a comanda com a taxa e a gorjeta informadas e move para aguardando pagamento
+   * @param charges Taxa de serviço e gorjeta informadas no diálogo
    */
-  protected fecharComanda(comandaId: number): void {
+  protected onClosingConfirmed(charges: ComandaClosingInput): void {
+    const comanda = this.comandaEmFechamento();
+    const currentUser = this.authService.getCurrentUser();
+    if (!comanda) return;
+    if (!currentUser) {
+      this.showError('Você precisa estar logado para fechar comandas');
+      return;
+    }
+
     try {
-      const total = this.comandaService.closeComanda(comandaId);
+      const total = this.comandaService.closeComanda(comanda.num_id, charges, currentUser.num_user_id);
+      this.isClosing.set(false);
+      this.comandaEmFechamento.set(null);
       this.refreshData();
       this.showSuccess(`Comanda fechada! Total: R$ ${total.toFixed(2)}`);
     } catch (error: any) {
@@ -94,12 +143,37 @@ export class AcompanhamentoComandosComponent implements OnInit {
   }
 
   /**
-   * Confirma o pagamento de uma comanda e a libera
-   * @param comandaId ID da comanda
+   * Abre o diálogo de pagamento da comanda
+   * @param comanda Comanda aguardando pagamento
    */
-  protected confirmarPagamento(comandaId: number): void {
+  protected confirmarPagamento(comanda: ComandaWithItems): void {
+    // Recarrega: a via pode ter sido impressa (txid PIX) depois da listagem
+    this.comandaEmPagamento.set(this.comandaService.getComandaWithItems(comanda.num_id) ?? comanda);
+    // Comanda zerada por estornos: libera sem formas de pagamento
+    if (comanda.num_total_value <= 0) {
+      this.onPaymentConfirmed([]);
+      return;
+    }
+    this.isPaying.set(true);
+  }
+
+  /**
+   * Registra os pagamentos e libera a comanda
+   * @param payments Formas de pagamento informadas no diálogo
+   */
+  protected onPaymentConfirmed(payments: PaymentInput[]): void {
+    const comanda = this.comandaEmPagamento();
+    const currentUser = this.authService.getCurrentUser();
+    if (!comanda) return;
+    if (!currentUser) {
+      this.showError('Você precisa estar logado para receber pagamentos');
+      return;
+    }
+
     try {
-      this.comandaService.confirmPayment(comandaId);
+      this.comandaService.confirmPayment(comanda.num_id, payments, currentUser.num_user_id);
+      this.isPaying.set(false);
+      this.comandaEmPagamento.set(null);
       this.refreshData();
       this.showSuccess('Pagamento confirmado! Comanda disponível novamente.');
     } catch (error: any) {
@@ -107,6 +181,72 @@ export class AcompanhamentoComandosComponent implements OnInit {
     }
   }
 
+  /**
+   * Imprime a via de conferência da comanda pelo navegador
+   * @param comanda Comanda aguardando pagamento
+   */
+  protected async imprimirVia(comanda: ComandaWithItems): Promise<void> {
+    try {
+      await this.receiptService.print(this.receiptService.buildComandaReceipt(comanda));
+    } catch (error: any) {
+      this.showError(error.message || 'Erro ao imprimir a via da comanda');
+    }
+  }
+
+  /**
+   * Envia a via de conferência da comanda em ESC/POS à impressora térmica
+   * (baixa o .bin se o navegador não puder enviar)
+   * @param comanda Comanda aguardando pagamento
+   */
+  protected async enviarViaEscPos(comanda: ComandaWithItems): Promise<void> {
+    try {
+      const output = await this.receiptService.sendEscPos(this.receiptService.buildComandaReceipt(comanda));
+      this.showSuccess(output === 'download'
+        ? 'Impressora térmica não conectada: a via foi baixada em ESC/POS (.bin)'
+        : 'Via da comanda enviada à impressora térmica');
+    } catch (error: any) {
+      this.showError(error.message || 'Erro ao gerar a via ESC/POS da comanda');
+    }
+  }
+
+  /**
+   * Abre o diálogo de estorno de um item da comanda
+   * @param item Item (venda) da comanda
+   */
+  protected estornarItem(item: ComandaItem): void {
+    const sale = this.salesService.getSale(item.num_sale_id);
+    if (!sale) {
+      this.showError('Venda não encontrada');
+      return;
+    }
+    this.vendaEmEstorno.set(sale);
+    this.isVoiding.set(true);
+  }
+
+  /**
+   * Registra o estorno autorizado e atualiza o total da comanda
+   * @param request Copos, motivo e autorização informados no diálogo
+   */
+  protected onVoidConfirmed(request: SaleVoidRequest): void {
+    const sale = this.vendaEmEstorno();
+    const currentUser = this.authService.getCurrentUser();
+    if (!sale) return;
+    if (!currentUser) {
+      this.showError('Você precisa estar logado para estornar vendas');
+      return;
+    }
+
+    try {
+      const result = this.salesService.voidSale(sale.num_id, request, currentUser.num_user_id);
+      this.isVoiding.set(false);
+      this.vendaEmEstorno.set(null);
+      this.refreshData();
+      this.showSuccess(`Estorno registrado: R$ ${result.amount.toFixed(2)} retirados da comanda.`);
+    } catch (error: any) {
+      this.showError(error.message || 'Erro ao estornar venda');
+    }
+  }
+
   /**
    * Exibe mensagem de sucesso
    * @param message Mensagem a ser exibida
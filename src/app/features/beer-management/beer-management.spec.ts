@@ -1,18 +1,18 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 
-import { BeerManagement } from './beer-management';
+import { BeerManagementComponent } from './beer-management';
 
-describe('BeerManagement', () => {
-  let component: BeerManagement;
-  let fixture: ComponentFixture<BeerManagement>;
+describe('BeerManagementComponent', () => {
+  let component: BeerManagementComponent;
+  let fixture: ComponentFixture<BeerManagementComponent>;
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [BeerManagement]
+      imports: [BeerManagementComponent]
     })
     .compileComponents();
 
-    fixture = TestBed.createComponent(BeerManagement);
+    fixture = TestBed.createComponent(BeerManagementComponent);
     component = fixture.componentInstance;
     fixture.detectChanges();
   });
@@ -15,11 +15,13 @@ import { TagModule } from 'primeng/tag';
 import { ConfirmDialogModule } from 'primeng/confirmdialog';
 import { ToastModule } from 'primeng/toast';
 import { DialogModule } from 'primeng/dialog';
+import { SelectButtonModule } from 'primeng/selectbutton';
 import { ConfirmationService, MessageService } from 'primeng/api';
 
 // App Services and Models
-import { BeerType } from '../../core/models/beer.model';
+import { BeerType, PRODUCT_KIND_LABELS, ProductKind } from '../../core/models/beer.model';
 import { DatabaseService } from '../../core/services/database';
+import { BeerRepository } from '../../core/repositories/beer.repository';
 import { AuthService } from '../../core/services/auth.service';
 import { TabRefreshService, MainTab } from '../../core/services/tab-refresh.service';
 
@@ -46,7 +48,8 @@ import { TabRefreshService, MainTab } from '../../core/services/tab-refresh.serv
     TagModule,
     ConfirmDialogModule,
     ToastModule,
-    DialogModule
+    DialogModule,
+    SelectButtonModule
   ],
   providers: [ConfirmationService, MessageService],
   templateUrl: './beer-management.html',
@@ -55,6 +58,7 @@ import { TabRefreshService, MainTab } from '../../core/services/tab-refresh.serv
 export class BeerManagementComponent implements OnInit {
   // ==================== INJEÇÃO DE DEPENDÊNCIAS ====================
   private dbService = inject(DatabaseService);
+  private beerRepository = inject(BeerRepository);
   private authService = inject(AuthService);
   private fb = inject(FormBuilder);
   private confirmationService = inject(ConfirmationService);
@@ -73,6 +77,7 @@ export class BeerManagementComponent implements OnInit {
 
   // ==================== SIGNALS PARA ESTADO REATIVO ====================
   beerTypes: WritableSignal<BeerType[]> = signal([]);
+  beerIdsWithSales = signal<Set<number>>(new Set());
   isAdding = signal(false);
   isEditing = signal(false);
   beerForm: FormGroup;
@@ -89,6 +94,13 @@ export class BeerManagementComponent implements OnInit {
    */
   private readonly DEFAULT_BEER_IDS = [1, 2, 3, 4];  // ← MUDANÇA: numbers
   private readonly DEFAULT_COLOR = '#D4A574';
+  private readonly DEFAULT_KIND: ProductKind = 'draft';
+
+  /**
+   * Tipos de produto: chope (por volume) ou item vendido por unidade
+   */
+  readonly productKindOptions = (Object.keys(PRODUCT_KIND_LABELS) as ProductKind[])
+    .map(kind => ({ label: PRODUCT_KIND_LABELS[kind], value: kind }));
   router: any;
 
   // ==================== CONSTRUCTOR ====================
@@ -97,14 +109,16 @@ export class BeerManagementComponent implements OnInit {
     this.beerForm = this.fb.group({
       name: ['', [Validators.required, Validators.minLength(3)]],
       description: [''],
-      color: [this.DEFAULT_COLOR, Validators.required]
+      color: [this.DEFAULT_COLOR, Validators.required],
+      kind: [this.DEFAULT_KIND, Validators.required]
     });
 
     // Inicialização do formulário reativo para editar
     this.editForm = this.fb.group({
       name: ['', [Validators.required, Validators.minLength(3)]],
       description: [''],
-      color: [this.DEFAULT_COLOR, Validators.required]
+      color: [this.DEFAULT_COLOR, Validators.required],
+      kind: [this.DEFAULT_KIND, Validators.required]
     });
 
     // Effect para recarregar quando DB estiver pronto
@@ -129,19 +143,10 @@ export class BeerManagementComponent implements OnInit {
    */
   loadBeerTypes(): void {
     try {
-      const beers = this.dbService.executeQuery(
-        'SELECT * FROM prd_beer_types ORDER BY desc_name'
-      );
-
-      // Conversão explícita para garantir type safety
-      const typedBeers: BeerType[] = beers.map(beer => ({
-        num_id: Number(beer.num_id),
-        desc_name: beer.desc_name,
-        desc_color: beer.desc_color,
-        desc_description: beer.desc_description
-      }));
+      const typedBeers = this.beerRepository.findAll();
 
       this.beerTypes.set(typedBeers);
+      this.beerIdsWithSales.set(this.beerRepository.findIdsWithSales());
       console.log('✅ Beer types carregados:', typedBeers.length);
     } catch (error) {
       console.error('❌ Erro ao carregar beer types:', error);
@@ -155,7 +160,7 @@ export class BeerManagementComponent implements OnInit {
    */
   toggleAddForm(): void {
     this.isAdding.update(value => !value);
-    this.beerForm.reset({ color: this.DEFAULT_COLOR });
+    this.beerForm.reset({ color: this.DEFAULT_COLOR, kind: this.DEFAULT_KIND });
   }
 
   /**
@@ -192,19 +197,14 @@ export class BeerManagementComponent implements OnInit {
     // MUDANÇA: Não criamos objeto com ID, deixamos o banco gerar
     const newBeer = {
       desc_name: beerName,
-      desc_description: formValue.description?.trim() || `Cerveja ${beerName}`,
-      desc_color: formValue.color
+      desc_description: formValue.description?.trim() || this.defaultDescription(beerName, formValue.kind),
+      desc_color: formValue.color,
+      desc_kind: formValue.kind as ProductKind
     };
 
     try {
       // INSERT sem ID - banco gera via AUTOINCREMENT
-      this.dbService.executeRun(
-        'INSERT INTO prd_beer_types (desc_name, desc_description, desc_color) VALUES (?, ?, ?)',
-        [newBeer.desc_name, newBeer.desc_description, newBeer.desc_color]
-      );
-
-      // Obtém o ID gerado pelo banco
-      const insertedId = this.dbService.getLastInsertId();
+      const insertedId = this.beerRepository.create(newBeer);
       console.log('✅ Cerveja adicionada com ID:', insertedId);
 
       this.showSuccess(`${newBeer.desc_name} adicionada com sucesso!`);
@@ -228,11 +228,7 @@ export class BeerManagementComponent implements OnInit {
    */
   private beerNameExists(name: string): boolean {
     try {
-      const existing = this.dbService.executeQuery(
-        'SELECT num_id FROM prd_beer_types WHERE LOWER(desc_name) = LOWER(?)',
-        [name.trim()]
-      );
-      return existing.length > 0;
+      return this.beerRepository.nameExists(name);
     } catch (error) {
       console.error('❌ Erro ao verificar nome da cerveja:', error);
       return false;
@@ -249,8 +245,17 @@ export class BeerManagementComponent implements OnInit {
     this.editForm.patchValue({
       name: beer.desc_name,
       description: beer.desc_description,
-      color: beer.desc_color
+      color: beer.desc_color,
+      kind: beer.desc_kind
     });
+
+    // Com vendas registradas o tipo não muda (volume e unidades não se misturam)
+    const kindControl = this.editForm.get('kind');
+    if (this.hasSales(beer)) {
+      kindControl?.disable();
+    } else {
+      kindControl?.enable();
+    }
     this.isEditing.set(true);
   }
 
@@ -260,7 +265,7 @@ export class BeerManagementComponent implements OnInit {
   closeEditDialog(): void {
     this.isEditing.set(false);
     this.currentEditingBeer = null;
-    this.editForm.reset({ color: this.DEFAULT_COLOR });
+    this.editForm.reset({ color: this.DEFAULT_COLOR, kind: this.DEFAULT_KIND });
   }
 
   /**
@@ -272,7 +277,7 @@ export class BeerManagementComponent implements OnInit {
       return;
     }
 
-    const formValue = this.editForm.value;
+    const formValue = this.editForm.getRawValue();
     const beerName = formValue.name.trim();
 
     // Validação: verifica se já existe outra cerveja com este nome
@@ -283,16 +288,14 @@ export class BeerManagementComponent implements OnInit {
 
     const updatedBeer = {
       desc_name: beerName,
-      desc_description: formValue.description?.trim() || `Cerveja ${beerName}`,
-      desc_color: formValue.color
+      desc_description: formValue.description?.trim() || this.defaultDescription(beerName, formValue.kind),
+      desc_color: formValue.color,
+      desc_kind: formValue.kind as ProductKind
     };
 
     try {
       // UPDATE no banco de dados
-      this.dbService.executeRun(
-        'UPDATE prd_beer_types SET desc_name = ?, desc_description = ?, desc_color = ? WHERE num_id = ?',
-        [updatedBeer.desc_name, updatedBeer.desc_description, updatedBeer.desc_color, this.currentEditingBeer.num_id]
-      );
+      this.beerRepository.update({ ...updatedBeer, num_id: this.currentEditingBeer.num_id });
 
       console.log('✅ Cerveja atualizada:', updatedBeer.desc_name, '(ID:', this.currentEditingBeer.num_id, ')');
 
@@ -302,21 +305,76 @@ export class BeerManagementComponent implements OnInit {
 
       // Notifica sales-form para recarregar lista de cervejas
       this.tabRefreshService.notifyMainTabActivated(MainTab.SALES);
-    } catch (error) {
-      this.showError('Não foi possível atualizar a cerveja.');
+    } catch (error: any) {
+      this.showError(error?.message || 'Não foi possível atualizar a cerveja.');
       console.error('❌ Erro ao atualizar cerveja:', error);
     }
   }
 
+  // ==================== ARQUIVAR CERVEJA ====================
+  /**
+   * Verifica se a cerveja tem vendas (só pode ser arquivada)
+   */
+  hasSales(beer: BeerType): boolean {
+    return this.beerIdsWithSales().has(beer.num_id);
+  }
+
+  /**
+   * Abre dialog de confirmação para arquivar cerveja
+   */
+  confirmArchive(beer: BeerType): void {
+    this.confirmationService.confirm({
+      message: `Arquivar a cerveja "${beer.desc_name}"? Ela deixa de aparecer nas vendas e na configuração de estoque, mas o histórico continua nos relatórios.`,
+      header: 'Arquivar Cerveja',
+      icon: 'pi pi-inbox',
+      acceptLabel: 'Sim, arquivar',
+      rejectLabel: 'Cancelar',
+      accept: () => {
+        this.handleArchiveBeer(beer);
+      }
+    });
+  }
+
+  private handleArchiveBeer(beer: BeerType): void {
+    try {
+      this.beerRepository.archive(beer.num_id);
+      this.showSuccess(`${beer.desc_name} foi arquivada.`);
+      this.loadBeerTypes();
+      this.tabRefreshService.notifyMainTabActivated(MainTab.SALES);
+    } catch (error) {
+      this.showError('Não foi possível arquivar a cerveja.');
+      console.error('❌ Erro ao arquivar cerveja:', error);
+    }
+  }
+
+  /**
+   * Restaura uma cerveja arquivada (volta às vendas)
+   */
+  handleRestoreBeer(beer: BeerType): void {
+    try {
+      this.beerRepository.restore(beer.num_id);
+      this.showSuccess(`${beer.desc_name} foi restaurada.`);
+      this.loadBeerTypes();
+      this.tabRefreshService.notifyMainTabActivated(MainTab.SALES);
+    } catch (error) {
+      this.showError('Não foi possível restaurar a cerveja.');
+      console.error('❌ Erro ao restaurar cerveja:', error);
+    }
+  }
+
   // ==================== REMOVER CERVEJA ====================
   /**
    * Abre dialog de confirmação para deletar cerveja
-   * MUDANÇA: Recebe BeerType com id: number
-   * MUDANÇA: Permite deletar todas as cervejas (inclusive padrão)
+   * Somente cervejas sem vendas: as demais devem ser arquivadas
    */
   confirmDelete(beer: BeerType): void {
+    if (this.hasSales(beer)) {
+      this.showWarning('Esta cerveja possui vendas registradas: arquive-a em vez de remover.');
+      return;
+    }
+
     this.confirmationService.confirm({
-      message: `Você tem certeza que deseja remover a cerveja "${beer.desc_name}"? Todas as vendas relacionadas também serão removidas.`,
+      message: `Você tem certeza que deseja remover a cerveja "${beer.desc_name}"? Estoques e preços configurados também serão removidos.`,
       header: 'Confirmação de Exclusão',
       icon: 'pi pi-info-circle',
       acceptLabel: 'Sim, remover',
@@ -329,27 +387,14 @@ export class BeerManagementComponent implements OnInit {
   }
 
   /**
-   * Deleta a cerveja e suas vendas relacionadas
-   * MUDANÇA: beerId agora é number (FK cascade já remove vendas)
+   * Deleta a cerveja (sem vendas)
+   * Estoques e preços da cerveja são removidos na mesma transação
    * 
    * @param beer Cerveja a ser removida
    */
   private handleDeleteBeer(beer: BeerType): void {
     try {
-      // CASCADE DELETE já configurado no schema remove vendas automaticamente
-      // Mas por segurança, fazemos explicitamente:
-
-      // 1. Remove vendas relacionadas
-      this.dbService.executeRun(
-        'DELETE FROM prd_sales WHERE num_beer_id = ?',
-        [beer.num_id]
-      );
-
-      // 2. Remove a cerveja
-      this.dbService.executeRun(
-        'DELETE FROM prd_beer_types WHERE num_id = ?',
-        [beer.num_id]
-      );
+      this.beerRepository.delete(beer.num_id);
 
       console.log('✅ Cerveja removida:', beer.desc_name, '(ID:', beer.num_id, ')');
 
@@ -409,6 +454,13 @@ export class BeerManagementComponent implements OnInit {
     return this.beerTypes().length;
   }
 
+  /**
+   * Retorna o número de cervejas arquivadas
+   */
+  getArchivedBeerTypesCount(): number {
+    return this.beerTypes().filter(beer => !!beer.dt_archived_at).length;
+  }
+
   /**
    * Retorna o número de cervejas customizadas (não-padrão)
    */
@@ -440,6 +492,20 @@ export class BeerManagementComponent implements OnInit {
     return this.beerTypes().filter(beer => !this.isDefaultBeer(beer.num_id));
   }
 
+  /**
+   * Nome do tipo de produto para exibição
+   */
+  kindLabel(beer: BeerType): string {
+    return PRODUCT_KIND_LABELS[beer.desc_kind];
+  }
+
+  /**
+   * Descrição usada quando o campo fica em branco
+   */
+  private defaultDescription(name: string, kind: ProductKind): string {
+    return kind === 'unit' ? name : `Cerveja ${name}`;
+  }
+
   /**
    * Valida se uma cor é válida (formato hexadecimal)
    */
@@ -0,0 +1,127 @@
+// src/app/features/close-comanda-dialog/close-comanda-dialog.ts
+import { Component, EventEmitter, Input, Output, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+// PrimeNG
+import { ButtonModule } from 'primeng/button';
+import { CheckboxModule } from 'primeng/checkbox';
+import { DialogModule } from 'primeng/dialog';
+import { InputNumberModule } from 'primeng/inputnumber';
+
+// App
+import { ComandaWithItems } from '../../core/models/comanda.model';
+import {
+  ComandaClosingInput,
+  MAX_SERVICE_RATE,
+  calculateAmountDue,
+  calculateServiceCharge,
+  validateComandaClosing
+} from '../../core/models/service-charge.model';
+
+/**
+ * Diálogo de fechamento de uma comanda
+ * Mostra o valor dos itens, aplica (ou dispensa) a taxa de serviço
+ * sugerida e recebe a gorjeta. Emite a taxa e a gorjeta já validadas;
+ * a gravação fica com quem abriu o diálogo.
+ */
+@Component({
+  selector: 'app-close-comanda-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    ButtonModule,
+    CheckboxModule,
+    DialogModule,
+    InputNumberModule
+  ],
+  templateUrl: './close-comanda-dialog.html',
+  styleUrls: ['./close-comanda-dialog.scss']
+})
+export class CloseComandaDialogComponent {
+  readonly MAX_RATE = MAX_SERVICE_RATE;
+
+  @Input() loading = false;
+
+  /**
+   * Comanda a fechar; trocar a comanda recomeça o formulário
+   */
+  @Input() set comanda(value: ComandaWithItems | null) {
+    this.comandaValue.set(value);
+    this.reset();
+  }
+
+  /**
+   * Taxa de serviço sugerida (configurada para o evento)
+   */
+  @Input() set suggestedRate(value: number) {
+    this.suggestedRateValue.set(value);
+    this.reset();
+  }
+
+  @Input() set visible(value: boolean) {
+    if (value && !this.isVisible()) this.reset();
+    this.isVisible.set(value);
+  }
+
+  @Output() visibleChange = new EventEmitter<boolean>();
+  @Output() confirmed = new EventEmitter<ComandaClosingInput>();
+
+  // ==================== SIGNALS ====================
+  readonly isVisible = signal<boolean>(false);
+  readonly comandaValue = signal<ComandaWithItems | null>(null);
+  readonly suggestedRateValue = signal<number>(0);
+  readonly applyServiceCharge = signal<boolean>(false);
+  readonly serviceRate = signal<number>(0);
+  readonly tip = signal<number>(0);
+  readonly errorMessage = signal<string | null>(null);
+
+  readonly itemsTotal = computed(() => this.comandaValue()?.num_items_total ?? 0);
+  readonly appliedRate = computed(() => this.applyServiceCharge() ? this.serviceRate() : 0);
+  readonly serviceCharge = computed(() => calculateServiceCharge(this.itemsTotal(), this.appliedRate()));
+  readonly total = computed(() => calculateAmountDue(this.itemsTotal(), this.appliedRate(), this.tip()));
+
+  // ==================== AÇÕES ====================
+
+  setApplyServiceCharge(value: boolean): void {
+    this.applyServiceCharge.set(value);
+    if (value && this.serviceRate() === 0) this.serviceRate.set(this.suggestedRateValue());
+    this.errorMessage.set(null);
+  }
+
+  setServiceRate(value: number | null): void {
+    this.serviceRate.set(value ?? 0);
+    this.errorMessage.set(null);
+  }
+
+  setTip(value: number | null): void {
+    this.tip.set(value ?? 0);
+    this.errorMessage.set(null);
+  }
+
+  confirm(): void {
+    const charges: ComandaClosingInput = { serviceRate: this.appliedRate(), tip: this.tip() };
+    try {
+      validateComandaClosing(charges);
+      this.confirmed.emit(charges);
+    } catch (error: any) {
+      this.errorMessage.set(error?.message || 'Fechamento inválido');
+    }
+  }
+
+  close(): void {
+    this.isVisible.set(false);
+    this.visibleChange.emit(false);
+  }
+
+  // ==================== UTILIDADES ====================
+
+  private reset(): void {
+    const rate = this.suggestedRateValue();
+    this.applyServiceCharge.set(rate > 0);
+    this.serviceRate.set(rate);
+    this.tip.set(0);
+    this.errorMessage.set(null);
+  }
+}
@@ -0,0 +1,49 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+// PrimeNG
+import { ButtonModule } from 'primeng/button';
+
+// App
+import { DatabaseService } from '../../core/services/database';
+
+/**
+ * Aviso de coordenação do banco entre abas
+ * - Aba somente leitura: outra aba registra as vendas; permite assumir as gravações
+ * - Aba desatualizada: o banco foi alterado em outra aba; pede para recarregar
+ * O aviso fica em destaque quando uma escrita foi bloqueada nesta aba.
+ */
+@Component({
+  selector: 'app-db-tab-status',
+  standalone: true,
+  imports: [CommonModule, ButtonModule],
+  templateUrl: './db-tab-status.html',
+  styleUrls: ['./db-tab-status.scss']
+})
+export class DbTabStatusComponent {
+  // ==================== INJEÇÃO DE DEPENDÊNCIAS ====================
+  private readonly dbService = inject(DatabaseService);
+
+  // ==================== SIGNALS ====================
+  readonly isReader = computed(() => this.dbService.tabRole() === 'reader');
+  readonly isStale = computed(() => this.dbService.isStale());
+  readonly blockedWriteAt = computed(() => this.dbService.blockedWriteAt());
+  readonly isTakingOver = signal(false);
+
+  // ==================== AÇÕES ====================
+
+  async takeOver(): Promise<void> {
+    this.isTakingOver.set(true);
+    try {
+      await this.dbService.takeOverWrites();
+    } catch (error) {
+      console.error('❌ Erro ao assumir as gravações nesta aba:', error);
+    } finally {
+      this.isTakingOver.set(false);
+    }
+  }
+
+  reload(): void {
+    window.location.reload();
+  }
+}
@@ -0,0 +1,83 @@
+import { Component, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+// PrimeNG
+import { ButtonModule } from 'primeng/button';
+import { InputTextModule } from 'primeng/inputtext';
+import { PasswordModule } from 'primeng/password';
+
+// App
+import { DatabaseService } from '../../core/services/database';
+
+/**
+ * Tela de desbloqueio do banco criptografado
+ * Exibida no lugar do app enquanto o banco aguarda a senha (inicialização
+ * ou criptografia alterada em outra aba). Sem a senha, o código de
+ * recuperação desbloqueia e define uma nova senha.
+ */
+@Component({
+  selector: 'app-db-unlock',
+  standalone: true,
+  imports: [CommonModule, FormsModule, ButtonModule, InputTextModule, PasswordModule],
+  templateUrl: './db-unlock.html',
+  styleUrls: ['./db-unlock.scss']
+})
+export class DbUnlockComponent {
+  // ==================== INJEÇÃO DE DEPENDÊNCIAS ====================
+  private readonly dbService = inject(DatabaseService);
+
+  // ==================== SIGNALS ====================
+  readonly isRecovering = signal<boolean>(false);
+  readonly isUnlocking = signal<boolean>(false);
+  readonly error = signal<string | null>(null);
+  readonly supported = this.dbService.encryptionSupported();
+
+  /**
+   * Campos (ngModel)
+   */
+  passphrase = '';
+  recoveryCode = '';
+  newPassphrase = '';
+  confirmPassphrase = '';
+
+  // ==================== AÇÕES ====================
+
+  async unlock(): Promise<void> {
+    if (!this.passphrase) return;
+
+    await this.run(() => this.dbService.unlockDatabase(this.passphrase));
+  }
+
+  async recover(): Promise<void> {
+    if (!this.recoveryCode || !this.newPassphrase) return;
+    if (this.newPassphrase !== this.confirmPassphrase) {
+      this.error.set('A confirmação não confere com a nova senha.');
+      return;
+    }
+
+    await this.run(() => this.dbService.recoverDatabase(this.recoveryCode, this.newPassphrase));
+  }
+
+  toggleRecovery(): void {
+    this.isRecovering.update(value => !value);
+    this.error.set(null);
+  }
+
+  private async run(action: () => Promise<void>): Promise<void> {
+    this.isUnlocking.set(true);
+    this.error.set(null);
+    try {
+      await action();
+      this.passphrase = '';
+      this.recoveryCode = '';
+      this.newPassphrase = '';
+      this.confirmPassphrase = '';
+    } catch (error: any) {
+      console.error('❌ Erro ao desbloquear o banco:', error);
+      this.error.set(error?.message || 'Não foi possível desbloquear o banco.');
+    } finally {
+      this.isUnlocking.set(false);
+    }
+  }
+}
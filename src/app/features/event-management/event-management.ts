@@ -25,12 +25,18 @@ import { EventService } from '../../core/services/event.service';
 import {
   Event,
   EventStatus,
+  EventStatistics,
   CreateEventDto,
   formatEventDate,
   getEventStatusLabel,
   getEventStatusSeverity
 } from '../../core/models/event.model';
 
+/**
+ * Filtro da lista: por status (somente não arquivados) ou arquivados
+ */
+type EventStatusFilter = EventStatus | 'all' | 'archived';
+
 /**
  * Componente para gerenciar eventos de venda
  *
@@ -38,7 +44,7 @@ import {
  * - Listar todos os eventos
  * - Criar novos eventos
  * - Editar eventos existentes
- * - Deletar eventos
+ * - Deletar eventos sem vendas; arquivar/restaurar os demais
  * - Alterar status (planejamento → ativo → finalizado)
  * - Visualizar estatísticas
  *
@@ -80,14 +86,14 @@ export class EventManagementComponent implements OnInit {
   isViewingStats = signal(false);
   currentEditingEvent: Event | null = null;
   currentStatsEvent: Event | null = null;
-  eventStats: any = null;
+  eventStats: EventStatistics | null = null;
 
   // ==================== FORMULÁRIOS ====================
   eventForm: FormGroup;
   editForm: FormGroup;
 
   // ==================== FILTROS E EXIBIÇÃO ====================
-  statusFilter = signal<EventStatus | 'all'>('all');
+  statusFilter = signal<EventStatusFilter>('all');
 
   constructor() {
     // Formulário de criação
@@ -127,22 +133,27 @@ export class EventManagementComponent implements OnInit {
 
   /**
    * Retorna eventos filtrados por status
+   * Arquivados aparecem apenas no filtro próprio
    */
   getFilteredEvents(): Event[] {
     const filter = this.statusFilter();
-    const allEvents = this.eventService.events();
 
+    if (filter === 'archived') {
+      return this.eventService.archivedEvents();
+    }
+
+    const visibleEvents = this.eventService.events().filter(e => !e.dt_archived_at);
     if (filter === 'all') {
-      return allEvents;
+      return visibleEvents;
     }
 
-    return allEvents.filter(e => e.desc_status === filter);
+    return visibleEvents.filter(e => e.desc_status === filter);
   }
 
   /**
    * Aplica filtro de status
    */
-  applyStatusFilter(status: EventStatus | 'all'): void {
+  applyStatusFilter(status: EventStatusFilter): void {
     this.statusFilter.set(status);
     this.events.set(this.getFilteredEvents());
   }
@@ -326,6 +337,52 @@ export class EventManagementComponent implements OnInit {
     }
   }
 
+  // ==================== ARQUIVAMENTO ====================
+
+  /**
+   * Confirma arquivamento de evento
+   */
+  confirmArchive(event: Event): void {
+    this.confirmationService.confirm({
+      message: `Arquivar o evento "${event.desc_name_event}"? Ele deixa a lista de eventos, mas as vendas continuam nos relatórios. É possível restaurá-lo depois.`,
+      header: 'Arquivar Evento',
+      icon: 'pi pi-inbox',
+      acceptLabel: 'Sim, arquivar',
+      rejectLabel: 'Cancelar',
+      accept: () => {
+        this.archiveEvent(event);
+      }
+    });
+  }
+
+  /**
+   * Arquiva evento
+   */
+  async archiveEvent(event: Event): Promise<void> {
+    const success = await this.eventService.archiveEvent(event.num_id);
+
+    if (success) {
+      this.showSuccess(`Evento "${event.desc_name_event}" arquivado.`);
+      await this.loadEvents();
+    } else {
+      this.showError(this.eventService.lastError() || 'Não foi possível arquivar o evento.');
+    }
+  }
+
+  /**
+   * Restaura evento arquivado
+   */
+  async restoreEvent(event: Event): Promise<void> {
+    const success = await this.eventService.restoreEvent(event.num_id);
+
+    if (success) {
+      this.showSuccess(`Evento "${event.desc_name_event}" restaurado.`);
+      await this.loadEvents();
+    } else {
+      this.showError(this.eventService.lastError() || 'Não foi possível restaurar o evento.');
+    }
+  }
+
   // ==================== MUDANÇA DE STATUS ====================
 
   /**
@@ -430,6 +487,9 @@ export class EventManagementComponent implements OnInit {
     if (filter === 'all') {
       return 'Total de Eventos';
     }
+    if (filter === 'archived') {
+      return 'Eventos Arquivados';
+    }
     return `Eventos ${getEventStatusLabel(filter)}`;
   }
 
@@ -1,5 +1,5 @@
 import { CommonModule } from '@angular/common';
-import { Component, signal, inject, effect, computed } from '@angular/core';
+import { Component, signal, inject, effect, computed, untracked } from '@angular/core';
 import { TabsModule } from 'primeng/tabs';
 import { TooltipModule } from 'primeng/tooltip';
 import { ButtonModule } from 'primeng/button';
@@ -18,9 +18,12 @@ import { EventManagementComponent } from '../event-management/event-management';
 import { ClientConfigService } from '../../core/services/client-config.service';
 import { AuthService } from '../../core/services/auth.service';
 import { TabRefreshService, MainTab, SettingsSubTab } from '../../core/services/tab-refresh.service';
+import { SyncService } from '../../core/services/sync.service';
+import { DatabaseService } from '../../core/services/database';
 import { MenuItem } from 'primeng/api';
 import RegisterComponent from "../auth/register/register.component";
 import { SettingsUserComponent } from "../settings-user/settings-user";
+import { DbTabStatusComponent } from '../db-tab-status/db-tab-status';
 
 
 @Component({
@@ -43,7 +46,8 @@ import { SettingsUserComponent } from "../settings-user/settings-user";
     SettingsBusinessAdminComponent,
     EventManagementComponent,
     HelpComponent,
-    SettingsUserComponent
+    SettingsUserComponent,
+    DbTabStatusComponent
 ],
    templateUrl: './menu.html',
   styleUrl: './menu.scss'
@@ -53,6 +57,8 @@ export class Menu {
   private readonly clientConfigService = inject(ClientConfigService);
   private readonly authService = inject(AuthService);
   private readonly tabRefreshService = inject(TabRefreshService);
+  private readonly syncService = inject(SyncService);
+  private readonly dbService = inject(DatabaseService);
 
   protected readonly title = signal('black-beer');
 
@@ -89,6 +95,9 @@ export class Menu {
 
   // ==================== CONSTRUCTOR ====================
   constructor() {
+    // Sincronização automática entre terminais (se ativada em Admin)
+    this.syncService.start();
+
     // Effect para notificar quando mudar aba mobile
     effect(() => {
       const activeTab = this.activeTabMobile();
@@ -314,6 +323,8 @@ export class Menu {
 
     const tab = tabMap[tabIndex];
     if (tab) {
+      // Tela de origem registrada na auditoria das alterações
+      this.dbService.setAuditContext({ origin: tab });
       this.tabRefreshService.notifyMainTabActivated(tab);
     }
   }
@@ -333,6 +344,10 @@ export class Menu {
 
     const subTab = subTabMap[subTabIndex];
     if (subTab) {
+      // untracked: chamado dentro de effects, não deve criar dependência da aba principal
+      if (untracked(() => this.activeTabMobile() === 4 || this.activeTabDesktop() === '4')) {
+        this.dbService.setAuditContext({ origin: `${MainTab.SETTINGS}/${subTab}` });
+      }
       this.tabRefreshService.notifySettingsSubTabActivated(subTab);
     }
   }
@@ -0,0 +1,228 @@
+// src/app/features/payment-dialog/payment-dialog.ts
+import { Component, EventEmitter, Input, Output, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+// PrimeNG
+import { ButtonModule } from 'primeng/button';
+import { DialogModule } from 'primeng/dialog';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { InputTextModule } from 'primeng/inputtext';
+
+// App
+import {
+  PAYMENT_METHODS,
+  PaymentInput,
+  PaymentMethod,
+  calculateChange,
+  calculateRemaining,
+  validatePayments
+} from '../../core/models/payment.model';
+import { PixMerchant, buildPixPayload, createPixTxid } from '../../core/models/pix.model';
+import { ClientConfigService } from '../../core/services/client-config.service';
+import { encodeQrCode, qrCodeToSvgPath } from '../../core/services/qr-code';
+
+/**
+ * Linha de pagamento em edição (ngModel)
+ */
+interface PaymentLine {
+  method: PaymentMethod;
+  amount: number | null;
+  received: number | null;
+  reference: string;
+  pixTxid: string | null;
+}
+
+/**
+ * QR Code PIX de uma linha (payload copia e cola + desenho SVG)
+ */
+interface PixCode {
+  payload: string;
+  path: string;
+  viewBox: string;
+}
+
+/** Margem (quiet zone) exigida em volta do QR Code, em módulos */
+const QR_QUIET_ZONE = 4;
+
+/**
+ * Diálogo de pagamento de uma conta (venda direta ou comanda)
+ * Permite dividir o total entre várias formas de pagamento e
+ * calcula o troco do dinheiro. Emite os pagamentos já validados.
+ * Linhas em PIX exibem o BR Code com o valor e o txid, gerado offline
+ * (ou o txid já impresso na via da comanda, na primeira linha em PIX).
+ */
+@Component({
+  selector: 'app-payment-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    ButtonModule,
+    DialogModule,
+    InputNumberModule,
+    InputTextModule
+  ],
+  templateUrl: './payment-dialog.html',
+  styleUrls: ['./payment-dialog.scss']
+})
+export class PaymentDialogComponent {
+  private readonly clientConfigService = inject(ClientConfigService);
+
+  readonly methods = PAYMENT_METHODS;
+
+  @Input() header = 'Pagamento';
+  @Input() loading = false;
+
+  /**
+   * txid do QR Code já impresso (via da comanda): usado pela primeira linha em PIX
+   */
+  @Input() pixTxid: string | null = null;
+
+  /**
+   * Total da conta; reabrir o diálogo recomeça com um pagamento do valor total
+   */
+  @Input() set total(value: number) {
+    this.totalValue.set(value);
+    this.reset();
+  }
+
+  @Input() set visible(value: boolean) {
+    if (value && !this.isVisible()) this.reset();
+    this.isVisible.set(value);
+  }
+
+  @Output() visibleChange = new EventEmitter<boolean>();
+  @Output() confirmed = new EventEmitter<PaymentInput[]>();
+
+  // ==================== SIGNALS ====================
+  readonly isVisible = signal<boolean>(false);
+  readonly totalValue = signal<number>(0);
+  readonly lines = signal<PaymentLine[]>([]);
+  readonly errorMessage = signal<string | null>(null);
+  readonly pixMerchant = signal<PixMerchant | null>(null);
+
+  readonly remaining = computed(() =>
+    calculateRemaining(this.totalValue(), this.lines().map(line => this.toInput(line)))
+  );
+  readonly totalChange = computed(() =>
+    this.lines().reduce((sum, line) => sum + calculateChange(this.toInput(line)), 0)
+  );
+
+  /**
+   * BR Code de cada linha em PIX (null sem recebedor configurado ou sem valor)
+   */
+  readonly pixCodes = computed<(PixCode | null)[]>(() => {
+    const merchant = this.pixMerchant();
+    return this.lines().map(line => {
+      if (!merchant || line.method !== 'pix' || !line.pixTxid || !((line.amount ?? 0) > 0)) return null;
+      try {
+        const payload = buildPixPayload(merchant, line.amount!, line.pixTxid);
+        const matrix = encodeQrCode(payload);
+        const size = matrix.length + QR_QUIET_ZONE * 2;
+        return {
+          payload,
+          path: qrCodeToSvgPath(matrix),
+          viewBox: `${-QR_QUIET_ZONE} ${-QR_QUIET_ZONE} ${size} ${size}`
+        };
+      } catch (error) {
+        console.error('❌ Erro ao gerar QR Code PIX:', error);
+        return null;
+      }
+    });
+  });
+
+  // ==================== LINHAS ====================
+
+  /**
+   * Adiciona uma forma de pagamento com o valor que falta
+   */
+  addLine(method: PaymentMethod = 'pix'): void {
+    const amount = Math.max(0, this.remaining());
+    this.lines.update(lines => [...lines, this.createLine(method, amount || null)]);
+  }
+
+  removeLine(index: number): void {
+    this.lines.update(lines => lines.filter((_, i) => i !== index));
+  }
+
+  /**
+   * Atualiza uma linha (recria o array para os computed)
+   */
+  updateLine(index: number, changes: Partial<PaymentLine>): void {
+    this.lines.update(lines => lines.map((line, i) => {
+      if (i !== index) return line;
+      const updated = { ...line, ...changes };
+      if (updated.method !== 'cash') updated.received = null;
+      updated.pixTxid = updated.method === 'pix' ? updated.pixTxid ?? this.nextPixTxid() : null;
+      return updated;
+    }));
+    this.errorMessage.set(null);
+  }
+
+  changeFor(line: PaymentLine): number {
+    return calculateChange(this.toInput(line));
+  }
+
+  // ==================== AÇÕES ====================
+
+  async copyPixCode(payload: string): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(payload);
+    } catch (error) {
+      console.error('❌ Erro ao copiar código PIX:', error);
+      this.errorMessage.set('Não foi possível copiar o código PIX');
+    }
+  }
+
+  confirm(): void {
+    const payments = this.lines().map(line => this.toInput(line));
+    try {
+      validatePayments(this.totalValue(), payments);
+      this.confirmed.emit(payments);
+    } catch (error: any) {
+      this.errorMessage.set(error?.message || 'Pagamento inválido');
+    }
+  }
+
+  close(): void {
+    this.isVisible.set(false);
+    this.visibleChange.emit(false);
+  }
+
+  // ==================== UTILIDADES ====================
+
+  private reset(): void {
+    this.pixMerchant.set(this.clientConfigService.getPixMerchant());
+    this.lines.set([this.createLine('cash', this.totalValue() || null)]);
+    this.errorMessage.set(null);
+  }
+
+  private createLine(method: PaymentMethod, amount: number | null): PaymentLine {
+    return {
+      method,
+      amount,
+      received: null,
+      reference: '',
+      pixTxid: method === 'pix' ? this.nextPixTxid() : null
+    };
+  }
+
+  /**
+   * txid da via impressa enquanto nenhuma linha o usa; senão um novo
+   */
+  private nextPixTxid(): string {
+    const printed = this.pixTxid;
+    return printed && !this.lines().some(line => line.pixTxid === printed) ? printed : createPixTxid();
+  }
+
+  private toInput(line: PaymentLine): PaymentInput {
+    return {
+      method: line.method,
+      amount: line.amount ?? 0,
+      received: line.method === 'cash' ? line.received : null,
+      reference: line.reference.trim() || null,
+      pixTxid: line.method === 'pix' ? line.pixTxid : null
+    };
+  }
+}
@@ -0,0 +1,181 @@
+// src/app/features/quick-sale-input/quick-sale-input.ts
+import { Component, ElementRef, EventEmitter, Input, Output, ViewChild, computed, inject, signal } from '@angular/core';
+
+// PrimeNG
+import { InputTextModule } from 'primeng/inputtext';
+import { MessageService } from 'primeng/api';
+import { TagModule } from 'primeng/tag';
+
+// App
+import { BeerType } from '../../core/models/beer.model';
+import { ComandaStatus } from '../../core/models/comanda.model';
+import { CupSizeConfig, getCupSizeLabel } from '../../core/models/cup-size.model';
+import {
+  QuickSaleBinding,
+  QuickSaleCommand,
+  findShortcutBinding,
+  parseQuantityPrefix,
+  parseQuickSaleInput
+} from '../../core/models/quick-sale.model';
+import { ComandaService } from '../../core/services/comanda.service';
+import { QuickSaleSettingsService } from '../../core/services/quick-sale-settings.service';
+
+/**
+ * Entrada da venda rápida (teclado / leitor de código de barras)
+ * Interpreta atalhos, códigos e comandas lidas e emite os pedidos;
+ * o carrinho e a gravação ficam com o formulário de vendas.
+ */
+@Component({
+  selector: 'app-quick-sale-input',
+  standalone: true,
+  imports: [InputTextModule, TagModule],
+  templateUrl: './quick-sale-input.html',
+  styleUrls: ['./quick-sale-input.scss']
+})
+export class QuickSaleInputComponent {
+  private readonly quickSaleSettingsService = inject(QuickSaleSettingsService);
+  private readonly comandaService = inject(ComandaService);
+  private readonly messageService = inject(MessageService);
+
+  @Input() set beerTypes(value: BeerType[]) {
+    this.beers.set(value);
+  }
+
+  @Input() set cupSizes(value: CupSizeConfig[]) {
+    this.sizes.set(value);
+  }
+
+  /**
+   * Com itens no carrinho, a comanda lida recebe os itens na hora
+   */
+  @Input() hasCartItems = false;
+
+  @Output() itemAdded = new EventEmitter<{ binding: QuickSaleBinding; quantity: number }>();
+
+  /**
+   * Finalizar o carrinho: na comanda informada ou, com null, pela venda direta
+   */
+  @Output() finalized = new EventEmitter<number | null>();
+
+  @ViewChild('quickSaleInput') quickSaleInput?: ElementRef<HTMLInputElement>;
+
+  // ==================== SIGNALS ====================
+  private readonly beers = signal<BeerType[]>([]);
+  private readonly sizes = signal<CupSizeConfig[]>([]);
+  protected readonly quickSale = this.quickSaleSettingsService.settings;
+  protected readonly comanda = signal<number | null>(null);
+
+  protected readonly shortcuts = computed(() =>
+    this.quickSale().bindings.flatMap(binding => {
+      const beer = this.beers().find(b => b.num_id === binding.beerId);
+      return binding.shortcut && beer
+        ? [{ key: binding.shortcut, label: `${beer.desc_name} (${getCupSizeLabel(this.sizes(), binding.cupSize)})` }]
+        : [];
+    })
+  );
+
+  // ==================== AÇÕES ====================
+
+  /**
+   * Devolve o foco à entrada (após finalizar uma venda)
+   */
+  focus(): void {
+    setTimeout(() => this.quickSaleInput?.nativeElement.focus(), 0);
+  }
+
+  /**
+   * Teclas da venda rápida
+   * - Atalho: adiciona na hora (a entrada pode ter só a quantidade, ex: "3")
+   * - Enter: confirma o código digitado/lido; com a entrada vazia, finaliza
+   * - Esc: limpa a entrada e a comanda lida
+   */
+  protected onKeydown(event: KeyboardEvent): void {
+    const input = event.target as HTMLInputElement;
+    const settings = this.quickSale();
+
+    if (event.key === 'Escape') {
+      input.value = '';
+      this.comanda.set(null);
+      return;
+    }
+
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      const command = parseQuickSaleInput(input.value, settings);
+      input.value = '';
+      this.runCommand(command);
+      return;
+    }
+
+    if (event.ctrlKey || event.altKey || event.metaKey) return;
+
+    const quantity = parseQuantityPrefix(input.value);
+    const binding = quantity !== null ? findShortcutBinding(event.key, settings) : null;
+    if (binding && quantity !== null) {
+      event.preventDefault();
+      input.value = '';
+      this.itemAdded.emit({ binding, quantity });
+    }
+  }
+
+  private runCommand(command: QuickSaleCommand): void {
+    switch (command.type) {
+      case 'item':
+        this.itemAdded.emit({ binding: command.binding, quantity: command.quantity });
+        break;
+      case 'comanda':
+        this.selectComanda(command.numero);
+        break;
+      case 'finalize':
+        this.finalize();
+        break;
+      case 'unknown':
+        this.showWarning(`Código "${command.input}" não cadastrado na venda rápida.`);
+        break;
+    }
+  }
+
+  /**
+   * Comanda lida: com itens no carrinho, lança na comanda;
+   * com o carrinho vazio, fica selecionada para o próximo Enter
+   */
+  private selectComanda(numero: number): void {
+    const comanda = this.comandaService.getComandaByNumero(numero);
+    if (!comanda || comanda.desc_status === ComandaStatus.AGUARDANDO_PAGAMENTO) {
+      this.showWarning(`Comanda ${numero} não está disponível para lançamentos.`);
+      return;
+    }
+
+    if (this.hasCartItems) {
+      this.finalizeOnComanda(numero);
+    } else {
+      this.comanda.set(numero);
+    }
+  }
+
+  /**
+   * Enter com a entrada vazia: lança na comanda lida ou abre o pagamento
+   */
+  private finalize(): void {
+    const numero = this.comanda();
+    if (numero !== null && this.hasCartItems) {
+      this.finalizeOnComanda(numero);
+    } else {
+      this.finalized.emit(null);
+    }
+  }
+
+  private finalizeOnComanda(numero: number): void {
+    this.finalized.emit(numero);
+    this.comanda.set(null);
+  }
+
+  private showWarning(message: string): void {
+    this.messageService.add({
+      severity: 'warn',
+      summary: 'Atenção',
+      detail: message,
+      life: 3000
+    });
+  }
+}
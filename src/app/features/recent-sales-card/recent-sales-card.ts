@@ -0,0 +1,190 @@
+// src/app/features/recent-sales-card/recent-sales-card.ts
+import { Component, Input, effect, inject, signal } from '@angular/core';
+import { DatePipe } from '@angular/common';
+
+// PrimeNG
+import { ButtonModule } from 'primeng/button';
+import { CardModule } from 'primeng/card';
+import { MessageService } from 'primeng/api';
+
+// App
+import { CupSize, Sale, SaleWithUser } from '../../core/models/beer.model';
+import { CupSizeConfig, getCupSizeLabel } from '../../core/models/cup-size.model';
+import { Receipt } from '../../core/models/receipt.model';
+import { SaleVoidRequest, calculateVoidAmount, getVoidableQuantity } from '../../core/models/sale-void.model';
+import { AuthService } from '../../core/services/auth.service';
+import { DatabaseService } from '../../core/services/database';
+import { ReceiptService } from '../../core/services/receipt.service';
+import { SalesService } from '../../core/services/sales.service';
+import { VoidSaleDialogComponent } from '../void-sale-dialog/void-sale-dialog';
+
+/**
+ * Últimas vendas do caixa: recibo da última venda direta e estorno
+ * Some enquanto não houver recibo nem venda estornável.
+ */
+@Component({
+  selector: 'app-recent-sales-card',
+  standalone: true,
+  imports: [DatePipe, ButtonModule, CardModule, VoidSaleDialogComponent],
+  templateUrl: './recent-sales-card.html',
+  styleUrls: ['./recent-sales-card.scss']
+})
+export class RecentSalesCardComponent {
+  private readonly dbService = inject(DatabaseService);
+  private readonly salesService = inject(SalesService);
+  private readonly receiptService = inject(ReceiptService);
+  private readonly authService = inject(AuthService);
+  private readonly messageService = inject(MessageService);
+
+  private readonly RECENT_SALES_LIMIT = 10;
+
+  /**
+   * Evento selecionado no caixa (null = vendas sem evento)
+   */
+  @Input() set eventId(value: number | null) {
+    this.selectedEventId.set(value);
+  }
+
+  @Input() set cupSizes(value: CupSizeConfig[]) {
+    this.sizes.set(value);
+  }
+
+  /**
+   * Recibo da última venda direta
+   */
+  @Input() receipt: Receipt | null = null;
+
+  // ==================== SIGNALS ====================
+  private readonly selectedEventId = signal<number | null>(null);
+  private readonly sizes = signal<CupSizeConfig[]>([]);
+  protected readonly recentSales = signal<SaleWithUser[]>([]);
+  protected readonly saleToVoid = signal<Sale | null>(null);
+  protected readonly isVoiding = signal(false);
+
+  constructor() {
+    effect(() => {
+      if (this.dbService.isDbReady()) {
+        this.loadRecentSales(this.selectedEventId());
+      }
+    });
+  }
+
+  /**
+   * Recarrega as últimas vendas (após registrar uma venda)
+   */
+  reload(): void {
+    if (this.dbService.isDbReady()) {
+      this.loadRecentSales(this.selectedEventId());
+    }
+  }
+
+  private loadRecentSales(eventId: number | null): void {
+    this.recentSales.set(this.salesService.getRecentVoidableSales(eventId, this.RECENT_SALES_LIMIT));
+  }
+
+  protected cupSizeLabel(volumeMl: CupSize): string {
+    return getCupSizeLabel(this.sizes(), volumeMl);
+  }
+
+  // ==================== RECIBO ====================
+  /**
+   * Imprime o recibo da última venda pelo navegador
+   */
+  protected async printReceipt(): Promise<void> {
+    if (!this.receipt) return;
+
+    try {
+      await this.receiptService.print(this.receipt);
+    } catch (error) {
+      this.showError('Não foi possível imprimir o recibo.');
+      console.error('❌ Erro ao imprimir recibo:', error);
+    }
+  }
+
+  /**
+   * Envia o recibo da última venda em ESC/POS à impressora térmica
+   * (baixa o .bin se o navegador não puder enviar)
+   */
+  protected async sendReceipt(): Promise<void> {
+    if (!this.receipt) return;
+
+    try {
+      const output = await this.receiptService.sendEscPos(this.receipt);
+      if (output === 'download') {
+        this.messageService.add({
+          severity: 'warn',
+          summary: 'Atenção',
+          detail: 'Impressora térmica não conectada: o recibo foi baixado em ESC/POS (.bin).',
+          life: 3000
+        });
+      }
+    } catch (error) {
+      this.showError('Não foi possível gerar o recibo ESC/POS.');
+      console.error('❌ Erro ao gerar recibo ESC/POS:', error);
+    }
+  }
+
+  // ==================== ESTORNO ====================
+  /**
+   * Copos da venda que ainda podem ser estornados
+   */
+  protected voidableQuantity(sale: Sale): number {
+    return getVoidableQuantity(sale);
+  }
+
+  /**
+   * Valor ainda não estornado da venda
+   */
+  protected voidableAmount(sale: Sale): number {
+    return calculateVoidAmount(sale, getVoidableQuantity(sale));
+  }
+
+  /**
+   * Abre o diálogo de estorno de uma venda
+   */
+  protected openVoidDialog(sale: Sale): void {
+    this.saleToVoid.set(sale);
+    this.isVoiding.set(true);
+  }
+
+  /**
+   * Registra o estorno autorizado e devolve os litros (ou unidades) ao estoque
+   */
+  protected onVoidConfirmed(request: SaleVoidRequest): void {
+    const sale = this.saleToVoid();
+    const currentUser = this.authService.getCurrentUser();
+    if (!sale) return;
+    if (!currentUser) {
+      this.showError('Você precisa estar logado para estornar vendas.');
+      return;
+    }
+
+    try {
+      const result = this.salesService.voidSale(sale.num_id, request, currentUser.num_user_id);
+
+      this.messageService.add({
+        severity: 'success',
+        summary: 'Venda Estornada',
+        detail: result.stockRestored
+          ? `R$ ${result.amount.toFixed(2)} estornados - ${result.units > 0 ? `${result.units} un.` : `${result.liters.toFixed(1)}L`} devolvidos ao estoque`
+          : `R$ ${result.amount.toFixed(2)} estornados`,
+        life: 5000
+      });
+
+      this.isVoiding.set(false);
+      this.saleToVoid.set(null);
+      this.reload();
+    } catch (error: any) {
+      this.showError(error.message || 'Não foi possível estornar a venda.');
+    }
+  }
+
+  private showError(message: string): void {
+    this.messageService.add({
+      severity: 'error',
+      summary: 'Erro',
+      detail: message,
+      life: 5000
+    });
+  }
+}
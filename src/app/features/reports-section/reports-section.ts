@@ -1,6 +1,6 @@
 // src/app/features/reports-section/reports-section.ts
 import { CommonModule } from '@angular/common';
-import { Component, signal, computed, inject, OnInit } from '@angular/core';
+import { Component, signal, computed, effect, inject, OnInit } from '@angular/core';
 import { FormsModule } from '@angular/forms';
 import { CardModule } from 'primeng/card';
 import { TableModule } from 'primeng/table';
@@ -16,12 +16,27 @@ import { DatabaseService } from '../../core/services/database';
 import { EmailService } from '../../core/services/email.service';
 import { SalesService } from '../../core/services/sales.service';
 import { EventService } from '../../core/services/event.service';
-import { FullReport } from '../../core/models/report.model';
+import { EventSalesDetail, FullReport } from '../../core/models/report.model';
+import { PRODUCT_KIND_LABELS, SaleWithUser } from '../../core/models/beer.model';
+import { SaleRepository } from '../../core/repositories/sale.repository';
 import { TabRefreshService, MainTab } from '../../core/services/tab-refresh.service';
+import { SalesArchiveService } from '../../core/services/sales-archive.service';
+import { SalesArchive } from '../../core/models/archive.model';
+import { getPaymentMethodLabel } from '../../core/models/payment.model';
 
 // Registrar componentes do Chart.js ANTES de usar
 Chart.register(...registerables);
 
+const EMPTY_REPORT: FullReport = {
+  summary: { num_total_sales: 0, num_total_volume_liters: 0, num_total_units: 0 },
+  salesByCupSize: [],
+  salesByBeerType: [],
+  salesByPromotion: [],
+  salesByPaymentMethod: [],
+  serviceChargesByUser: [],
+  voids: { num_voids: 0, num_quantity: 0, num_liters: 0, num_amount: 0 }
+};
+
 @Component({
   selector: 'app-reports-section',
   standalone: true,
@@ -44,11 +59,13 @@ export class ReportsSectionComponent implements OnInit {
 
   // ==================== SERVIÇOS ====================
   private readonly dbService = inject(DatabaseService);
+  private readonly saleRepository = inject(SaleRepository);
   private readonly emailService = inject(EmailService);
   private readonly salesService = inject(SalesService);
   private readonly eventService = inject(EventService);
   private readonly messageService = inject(MessageService);
   private readonly tabRefreshService = inject(TabRefreshService);
+  private readonly archiveService = inject(SalesArchiveService);
 
   // ==================== SIGNALS ====================
   
@@ -112,31 +129,52 @@ export class ReportsSectionComponent implements OnInit {
 
   /**
    * Relatório completo carregado do banco de dados
-   * Computed que reage a mudanças de filtro E ao refreshTrigger
+   * Recarregado (no Web Worker) quando os filtros mudam ou pelo refreshTrigger
    */
-  protected readonly report = computed<FullReport>(() => {
-    // Observa refreshTrigger para forçar recálculo quando necessário
-    this.refreshTrigger();
+  protected readonly report = signal<FullReport>(EMPTY_REPORT);
 
-    if (!this.dbService.isDbReady()) {
-      return {
-        summary: { num_total_sales: 0, num_total_volume_liters: 0 },
-        salesByCupSize: [],
-        salesByBeerType: []
-      };
-    }
+  /**
+   * Indicador de carregamento do relatório
+   */
+  protected readonly isLoadingReport = signal<boolean>(false);
 
-    const start = this.startDate();
-    const end = this.endDate();
-    const eventId = this.selectedEventId();
+  /**
+   * Sequência das cargas: descarta resultados de filtros já substituídos
+   */
+  private reportRequest = 0;
 
-    // DatabaseService.getFullReport já faz a filtragem no SQL
-    return this.dbService.getFullReport(
-      start ?? undefined,
-      end ?? undefined,
-      eventId ?? undefined
-    );
-  });
+  /**
+   * Arquivos de vendas antigas (carregados sob demanda nos relatórios)
+   */
+  protected readonly archives = this.archiveService.archives;
+
+  /**
+   * Quantidade de arquivos incluídos no relatório
+   */
+  protected readonly loadedArchiveCount = computed(() => this.archiveService.loadedKeys().length);
+
+  /**
+   * Arquivo sendo carregado/descompactado
+   */
+  protected readonly loadingArchiveKey = signal<string | null>(null);
+
+  constructor() {
+    effect(() => {
+      // Observa refreshTrigger para forçar recarga quando necessário
+      this.refreshTrigger();
+      // Vendas registradas em outra aba
+      this.dbService.remoteChanges();
+
+      if (!this.dbService.isDbReady()) return;
+
+      this.archiveService.refresh();
+      void this.loadReport(
+        this.startDate() ?? undefined,
+        this.endDate() ?? undefined,
+        this.selectedEventId() ?? undefined
+      );
+    });
+  }
   
   // ==================== CONFIGURAÇÕES DOS GRÁFICOS ====================
   
@@ -266,7 +304,7 @@ export class ReportsSectionComponent implements OnInit {
     const sortedSizes = [...salesBySize].sort((a, b) => a.num_cup_size - b.num_cup_size);
 
     return {
-      labels: sortedSizes.map(item => `${item.num_cup_size}ml`),
+      labels: sortedSizes.map(item => item.desc_label),
       datasets: [{
         label: 'Quantidade Vendida',
         data: sortedSizes.map(item => item.num_count),
@@ -281,6 +319,31 @@ export class ReportsSectionComponent implements OnInit {
     };
   });
   
+  /**
+   * Carrega o relatório agregado
+   * SaleRepository.getFullReport já faz a filtragem no SQL
+   */
+  private async loadReport(start?: Date, end?: Date, eventId?: number): Promise<void> {
+    const request = ++this.reportRequest;
+    this.isLoadingReport.set(true);
+
+    try {
+      const report = await this.saleRepository.getFullReport(start, end, eventId);
+      if (request === this.reportRequest) {
+        this.report.set(report);
+      }
+    } catch (error) {
+      console.error('❌ Erro ao carregar relatório:', error);
+      if (request === this.reportRequest) {
+        this.showError('Erro ao carregar relatório.');
+      }
+    } finally {
+      if (request === this.reportRequest) {
+        this.isLoadingReport.set(false);
+      }
+    }
+  }
+
   ngOnInit(): void {
     // Carrega eventos ao inicializar
     this.eventService.loadEvents();
@@ -404,11 +467,11 @@ export class ReportsSectionComponent implements OnInit {
   /**
    * Retorna o tamanho preferido
    */
-  protected getPreferredSize(): number {
+  protected getPreferredSize(): string {
     const salesBySize = this.report().salesByCupSize;
 
     if (salesBySize.length === 0) {
-      return 0;
+      return 'N/A';
     }
 
     // Encontra o tamanho com maior quantidade
@@ -420,7 +483,14 @@ export class ReportsSectionComponent implements OnInit {
       }
     }
 
-    return preferredSize.num_cup_size;
+    return preferredSize.desc_label;
+  }
+
+  /**
+   * Nome da forma de pagamento
+   */
+  protected paymentMethodLabel(method: string): string {
+    return getPaymentMethodLabel(method);
   }
 
   /**
@@ -446,6 +516,40 @@ export class ReportsSectionComponent implements OnInit {
     this.selectedEventId.set(eventId);
   }
 
+  /**
+   * Indica se as vendas do arquivo estão incluídas no relatório
+   */
+  protected isArchiveLoaded(archive: SalesArchive): boolean {
+    return this.archiveService.loadedKeys().includes(archive.desc_key);
+  }
+
+  /**
+   * Inclui ou retira as vendas de um arquivo do relatório
+   */
+  protected async toggleArchive(archive: SalesArchive): Promise<void> {
+    if (this.loadingArchiveKey()) return;
+
+    this.loadingArchiveKey.set(archive.desc_key);
+    try {
+      if (this.isArchiveLoaded(archive)) {
+        this.archiveService.unloadArchive(archive);
+      } else {
+        await this.archiveService.loadArchive(archive);
+      }
+      this.refreshTrigger.update(n => n + 1);
+    } catch (error: any) {
+      console.error('❌ Erro ao carregar arquivo de vendas:', error);
+      this.messageService.add({
+        severity: 'error',
+        summary: 'Erro',
+        detail: error?.message || 'Não foi possível carregar o arquivo de vendas.',
+        life: 5000
+      });
+    } finally {
+      this.loadingArchiveKey.set(null);
+    }
+  }
+
   /**
    * Retorna o nome do evento selecionado ou "Todos os Eventos"
    */
@@ -459,20 +563,6 @@ export class ReportsSectionComponent implements OnInit {
     return event ? event.desc_name_event : 'Evento não encontrado';
   }
   
-  /**
-   * Retorna a lista de vendas para a tabela/cards
-   * NOTA: Como agora usamos FullReport (dados agregados),
-   * precisamos reconstruir a lista de vendas individuais
-   * ou adaptar o template para mostrar dados agregados
-   */
-  protected getSalesList(): any[] {
-    // Para manter compatibilidade com o template,
-    // retornamos array vazio por enquanto
-    // O ideal seria adaptar o template para mostrar dados agregados
-    // ou criar um método no DatabaseService que retorne vendas individuais
-    return [];
-  }
-  
   /**
    * Retorna a contagem de vendas
    */
@@ -497,9 +587,10 @@ export class ReportsSectionComponent implements OnInit {
    * VERSÃO 2.0 - Relatório Detalhado:
    * - Inclui vendas detalhadas por evento com breakdown diário e por usuário
    * - Inclui vendas sem evento vinculado
+   * - Inclui a lista de vendas individuais (lida em lotes do Web Worker)
    * - Mantém compatibilidade com seções agregadas existentes
    */
-  private generateCSV(): File {
+  private async generateCSV(): Promise<File> {
     const report = this.report();
     const csvLines: string[] = [];
 
@@ -515,22 +606,22 @@ export class ReportsSectionComponent implements OnInit {
     // ===========================================
     const totalRevenue = this.getTotalRevenue();
     csvLines.push('=== RESUMO GERAL ===');
-    csvLines.push('Total vendas;Volume Total(Litros);Valor Total(R$)');
-    csvLines.push(`="${report.summary.num_total_sales}";"${report.summary.num_total_volume_liters.toFixed(2)}";"${totalRevenue.toFixed(2)}"`);
+    csvLines.push('Total vendas;Volume Total(Litros);Unidades;Valor Total(R$)');
+    csvLines.push(`="${report.summary.num_total_sales}";"${report.summary.num_total_volume_liters.toFixed(2)}";"${report.summary.num_total_units}";"${totalRevenue.toFixed(2)}"`);
     csvLines.push(''); // Linha em branco
 
     // ===========================================
     // VENDAS POR TIPO DE CERVEJA
     // ===========================================
     csvLines.push('=== VENDAS POR TIPO DE CERVEJA ===');
-    csvLines.push('Cerveja;Quantidade;Volume(Litros);Valor(R$)');
+    csvLines.push('Cerveja;Tipo;Quantidade;Volume(Litros);Valor(R$)');
 
     if (report.salesByBeerType.length > 0) {
       report.salesByBeerType.forEach(beer => {
-        csvLines.push(`${beer.desc_name};"${beer.num_total_cups}";"${beer.num_total_liters.toFixed(2)}";"${beer.num_total_revenue.toFixed(2)}"`);
+        csvLines.push(`${beer.desc_name};${PRODUCT_KIND_LABELS[beer.desc_kind]};"${beer.num_total_cups}";"${beer.num_total_liters.toFixed(2)}";"${beer.num_total_revenue.toFixed(2)}"`);
       });
     } else {
-      csvLines.push('Nenhuma venda registrada;;;');
+      csvLines.push('Nenhuma venda registrada;;;;');
     }
 
     csvLines.push(''); // Linha em branco
@@ -539,12 +630,12 @@ export class ReportsSectionComponent implements OnInit {
     // VENDAS POR TAMANHO DE COPO
     // ===========================================
     csvLines.push('=== VENDAS POR TAMANHO DE COPO ===');
-    csvLines.push('Tamanho(ml);Quantidade');
+    csvLines.push('Tamanho;Volume(ml);Quantidade');
 
     if (report.salesByCupSize.length > 0) {
       const sortedSizes = [...report.salesByCupSize].sort((a, b) => a.num_cup_size - b.num_cup_size);
       sortedSizes.forEach(size => {
-        csvLines.push(`"${size.num_cup_size}";"${size.num_count}"`);
+        csvLines.push(`"${size.desc_label}";"${size.num_cup_size}";"${size.num_count}"`);
       });
     } else {
       csvLines.push('Nenhuma venda registrada;');
@@ -552,6 +643,54 @@ export class ReportsSectionComponent implements OnInit {
 
     csvLines.push(''); // Linha em branco
 
+    // ===========================================
+    // RECEBIMENTOS POR FORMA DE PAGAMENTO
+    // ===========================================
+    csvLines.push('=== RECEBIMENTOS POR FORMA DE PAGAMENTO ===');
+    csvLines.push('Forma;Pagamentos;Valor(R$);Troco(R$)');
+
+    if (report.salesByPaymentMethod.length > 0) {
+      report.salesByPaymentMethod.forEach(payment => {
+        csvLines.push(`${getPaymentMethodLabel(payment.desc_method)};"${payment.num_payments}";"${payment.num_amount.toFixed(2)}";"${payment.num_change.toFixed(2)}"`);
+      });
+    } else {
+      csvLines.push('Nenhum pagamento registrado;;;');
+    }
+
+    csvLines.push(''); // Linha em branco
+
+    // ===========================================
+    // TAXA DE SERVIÇO E GORJETAS (fora da receita dos produtos)
+    // ===========================================
+    if (report.serviceChargesByUser.length > 0) {
+      csvLines.push('=== TAXA DE SERVIÇO E GORJETAS POR ATENDENTE ===');
+      csvLines.push('Atendente;Contas;Taxa de Serviço(R$);Gorjetas(R$)');
+      report.serviceChargesByUser.forEach(charge => {
+        csvLines.push(`${charge.desc_username};"${charge.num_bills}";"${charge.num_service_charge.toFixed(2)}";"${charge.num_tip.toFixed(2)}"`);
+      });
+      csvLines.push(''); // Linha em branco
+    }
+
+    // ===========================================
+    // ESTORNOS (vendas mantidas acima, valor abatido da receita)
+    // ===========================================
+    csvLines.push('=== ESTORNOS ===');
+    csvLines.push('Estornos;Itens;Volume(Litros);Valor(R$);Valor Líquido(R$)');
+    csvLines.push(`"${report.voids.num_voids}";"${report.voids.num_quantity}";"${report.voids.num_liters.toFixed(2)}";"${report.voids.num_amount.toFixed(2)}";"${(totalRevenue - report.voids.num_amount).toFixed(2)}"`);
+    csvLines.push(''); // Linha em branco
+
+    // ===========================================
+    // DESCONTOS POR PROMOÇÃO
+    // ===========================================
+    if (report.salesByPromotion.length > 0) {
+      csvLines.push('=== DESCONTOS POR PROMOÇÃO ===');
+      csvLines.push('Promoção;Vendas;Desconto(R$)');
+      report.salesByPromotion.forEach(promotion => {
+        csvLines.push(`"${promotion.desc_promotions}";"${promotion.num_sales}";"${promotion.num_discount.toFixed(2)}"`);
+      });
+      csvLines.push(''); // Linha em branco
+    }
+
     // ===========================================
     // VENDAS DETALHADAS POR EVENTO (NOVO!)
     // ===========================================
@@ -560,14 +699,10 @@ export class ReportsSectionComponent implements OnInit {
 
     const start = this.startDate();
     const end = this.endDate();
-    const salesByEvent = this.dbService.getSalesDetailedByEvent(
-      start ?? undefined,
-      end ?? undefined
-    );
-    const eventTotals = this.dbService.getEventTotals(
-      start ?? undefined,
-      end ?? undefined
-    );
+    const [salesByEvent, eventTotals] = await Promise.all([
+      this.saleRepository.getDetailedByEvent(start ?? undefined, end ?? undefined),
+      this.saleRepository.getEventTotals(start ?? undefined, end ?? undefined)
+    ]);
 
     if (salesByEvent.length > 0) {
       // Agrupar vendas por evento
@@ -624,7 +759,7 @@ export class ReportsSectionComponent implements OnInit {
     csvLines.push('=== VENDAS SEM EVENTO VINCULADO ===');
     csvLines.push('');
 
-    const salesWithoutEvent = this.dbService.getSalesDetailedWithoutEvent(
+    const salesWithoutEvent = await this.saleRepository.getDetailedWithoutEvent(
       start ?? undefined,
       end ?? undefined
     );
@@ -664,6 +799,25 @@ export class ReportsSectionComponent implements OnInit {
 
     csvLines.push('');
 
+    // ===========================================
+    // VENDAS INDIVIDUAIS
+    // ===========================================
+    csvLines.push('=== VENDAS INDIVIDUAIS ===');
+    csvLines.push('Data/Hora;Cerveja;Copo (ml);Quantidade;Volume (Litros);Valor (R$);Usuário');
+
+    const salesCount = await this.saleRepository.streamSales(
+      sales => sales.forEach(sale => csvLines.push(this.formatSaleForCSV(sale))),
+      start ?? undefined,
+      end ?? undefined,
+      this.selectedEventId() ?? undefined
+    );
+
+    if (salesCount === 0) {
+      csvLines.push('Nenhuma venda registrada no período.;;;;;;');
+    }
+
+    csvLines.push('');
+
     // ===========================================
     // PERÍODO DO RELATÓRIO
     // ===========================================
@@ -743,7 +897,7 @@ export class ReportsSectionComponent implements OnInit {
       this.uploadProgress.set(0);
 
       // Gerar CSV
-      const csvFile = this.generateCSV();
+      const csvFile = await this.generateCSV();
 
       // Enviar via API
       this.emailService.sendEmailWithCSV({
@@ -796,14 +950,14 @@ export class ReportsSectionComponent implements OnInit {
   /**
    * Baixa o CSV localmente (sem enviar por email)
    */
-  protected downloadCSV(): void {
+  protected async downloadCSV(): Promise<void> {
     if (this.report().summary.num_total_sales === 0) {
       this.showError('Não há dados para exportar.');
       return;
     }
 
     try {
-      const csvFile = this.generateCSV();
+      const csvFile = await this.generateCSV();
       const url = URL.createObjectURL(csvFile);
       const link = document.createElement('a');
       link.href = url;
@@ -845,8 +999,8 @@ export class ReportsSectionComponent implements OnInit {
    * @param sales Array de vendas detalhadas
    * @returns Map com vendas agrupadas por evento
    */
-  private groupByEvent(sales: any[]): Map<number, any[]> {
-    const grouped = new Map<number, any[]>();
+  private groupByEvent(sales: EventSalesDetail[]): Map<number, EventSalesDetail[]> {
+    const grouped = new Map<number, EventSalesDetail[]>();
 
     sales.forEach(sale => {
       const eventId = sale.eventId;
@@ -859,6 +1013,22 @@ export class ReportsSectionComponent implements OnInit {
     return grouped;
   }
 
+  /**
+   * Linha da seção de vendas individuais
+   */
+  private formatSaleForCSV(sale: SaleWithUser): string {
+    const date = new Date(sale.dt_timestamp);
+    return (
+      `${date.toLocaleDateString('pt-BR')} ${date.toLocaleTimeString('pt-BR')};` +
+      `${sale.desc_beer_name};` +
+      `"${sale.num_cup_size}";` +
+      `"${sale.num_quantity}";` +
+      `"${(sale.num_total_volume / 1000).toFixed(2)}";` +
+      `"${sale.num_total_price.toFixed(2)}";` +
+      `${sale.username ?? 'Usuário Desconhecido'}`
+    );
+  }
+
   /**
    * Formata data ISO para formato brasileiro
    * @param isoDate Data em formato ISO string
@@ -945,14 +1115,14 @@ export class ReportsSectionComponent implements OnInit {
 
   /**
    * Atualiza os dados do relatório
-   * Força re-computação do signal computed 'report'
+   * Força a recarga do signal 'report'
    * Chamado quando a aba de relatórios é ativada
    */
   public refreshData(): void {
     console.log('🔄 Atualizando dados de relatórios...');
 
-    // Incrementa o trigger para forçar recálculo do computed signal
-    // O computed 'report' observa este signal, então vai recalcular
+    // Incrementa o trigger para forçar a recarga do relatório
+    // O effect do construtor observa este signal e recarrega 'report'
     this.refreshTrigger.update(n => n + 1);
 
     // Recarrega emails salvos
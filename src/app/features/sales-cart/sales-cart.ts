@@ -0,0 +1,67 @@
+// src/app/features/sales-cart/sales-cart.ts
+import { Component, EventEmitter, Input, Output, computed, signal } from '@angular/core';
+
+// App
+import { CartItem } from '../../core/models/cart.model';
+import { CupSize } from '../../core/models/beer.model';
+import { CupSizeConfig, getCupSizeLabel } from '../../core/models/cup-size.model';
+import { PROMOTION_NAMES_SEPARATOR } from '../../core/models/promotion.model';
+
+/**
+ * Carrinho do formulário de vendas
+ * - sheet: bottom sheet expansível (mobile)
+ * - panel: lista com totais dentro do formulário (desktop)
+ *
+ * Só exibe os itens; validação de estoque e preços ficam com o formulário.
+ */
+@Component({
+  selector: 'app-sales-cart',
+  standalone: true,
+  templateUrl: './sales-cart.html',
+  styleUrls: ['./sales-cart.scss']
+})
+export class SalesCartComponent {
+  @Input() layout: 'sheet' | 'panel' = 'panel';
+
+  @Input() set items(value: CartItem[]) {
+    this.cartItems.set(value);
+  }
+
+  @Input() set cupSizes(value: CupSizeConfig[]) {
+    this.sizes.set(value);
+  }
+
+  @Output() increment = new EventEmitter<string>();
+  @Output() decrement = new EventEmitter<string>();
+  @Output() remove = new EventEmitter<string>();
+  @Output() clear = new EventEmitter<void>();
+
+  // ==================== SIGNALS ====================
+  protected readonly cartItems = signal<CartItem[]>([]);
+  private readonly sizes = signal<CupSizeConfig[]>([]);
+
+  // Estado do bottom sheet (mobile only)
+  protected readonly isExpanded = signal(false);
+
+  protected readonly totalPrice = computed(() => this.cartItems().reduce((sum, item) => sum + item.totalPrice, 0));
+  protected readonly totalDiscount = computed(() => this.cartItems().reduce((sum, item) => sum + item.discount, 0));
+  protected readonly totalVolume = computed(() => this.cartItems().reduce((sum, item) => sum + item.totalVolume, 0));
+
+  /**
+   * Toggle do estado do bottom sheet (expandir/colapsar)
+   */
+  protected toggle(): void {
+    this.isExpanded.update(expanded => !expanded);
+  }
+
+  protected cupSizeLabel(volumeMl: CupSize): string {
+    return getCupSizeLabel(this.sizes(), volumeMl);
+  }
+
+  /**
+   * Texto das promoções aplicadas a um item do carrinho
+   */
+  protected promotionText(item: CartItem): string {
+    return item.promotions.join(PROMOTION_NAMES_SEPARATOR);
+  }
+}
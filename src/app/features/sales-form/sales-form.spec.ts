@@ -1,18 +1,18 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 
-import { SalesForm } from './sales-form';
+import { SalesFormComponent } from './sales-form';
 
-describe('SalesForm', () => {
-  let component: SalesForm;
-  let fixture: ComponentFixture<SalesForm>;
+describe('SalesFormComponent', () => {
+  let component: SalesFormComponent;
+  let fixture: ComponentFixture<SalesFormComponent>;
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [SalesForm]
+      imports: [SalesFormComponent]
     })
     .compileComponents();
 
-    fixture = TestBed.createComponent(SalesForm);
+    fixture = TestBed.createComponent(SalesFormComponent);
     component = fixture.componentInstance;
     fixture.detectChanges();
   });
@@ -1,5 +1,5 @@
 // src/app/features/sales-form/sales-form.ts
-import { Component, OnInit, inject, signal, computed, effect } from '@angular/core';
+import { Component, OnInit, ViewChild, inject, signal, computed, effect } from '@angular/core';
 import { ReactiveFormsModule, FormBuilder, FormGroup, Validators, FormControl } from '@angular/forms';
 
 // PrimeNG Modules
@@ -11,7 +11,7 @@ import { TagModule } from 'primeng/tag';
 import { DialogModule } from 'primeng/dialog';
 
 // App Services and Models
-import { BeerType, Sale, CUP_SIZES, CupSize } from '../../core/models/beer.model';
+import { BeerType, Sale, CupSize, ProductKind, UNIT_SALE_CUP_SIZE, isUnitSale } from '../../core/models/beer.model';
 import { DatabaseService } from '../../core/services/database';
 import { ComandaService } from '../../core/services/comanda.service';
 import { Comanda } from '../../core/models/comanda.model';
@@ -19,27 +19,43 @@ import { TabRefreshService, MainTab } from '../../core/services/tab-refresh.serv
 import { AuthService } from '../../core/services/auth.service';
 import { EventService } from '../../core/services/event.service';
 import { Event } from '../../core/models/event.model';
+import { DEFAULT_MIN_LITERS_ALERT } from '../../core/models/stock.model';
+import { CupSizeConfig, formatCupVolume, getCupSizeLabel } from '../../core/models/cup-size.model';
+import { PROMOTION_NAMES_SEPARATOR, applyPromotions } from '../../core/models/promotion.model';
+import { BeerRepository } from '../../core/repositories/beer.repository';
+import { SaleRepository } from '../../core/repositories/sale.repository';
+import { StockRepository } from '../../core/repositories/stock.repository';
+import { PriceRepository } from '../../core/repositories/price.repository';
+import { CupSizeRepository } from '../../core/repositories/cup-size.repository';
+import { PromotionRepository } from '../../core/repositories/promotion.repository';
+import { PaymentRepository } from '../../core/repositories/payment.repository';
+import { PaymentInput, validatePayments } from '../../core/models/payment.model';
+import { createSyncId } from '../../core/models/sync.model';
+import { Receipt, ReceiptItem } from '../../core/models/receipt.model';
+import { CartItem } from '../../core/models/cart.model';
+import { ReceiptService } from '../../core/services/receipt.service';
+import { QuickSaleSettingsService } from '../../core/services/quick-sale-settings.service';
+import { QuickSaleBinding } from '../../core/models/quick-sale.model';
+import { PaymentDialogComponent } from '../payment-dialog/payment-dialog';
+import { QuickSaleInputComponent } from '../quick-sale-input/quick-sale-input';
+import { RecentSalesCardComponent } from '../recent-sales-card/recent-sales-card';
+import { SalesCartComponent } from '../sales-cart/sales-cart';
 
 interface SaleSummary {
   beerName: string;
-  cupSize: number;
+  kind: ProductKind;
+  cupSize: number;         // UNIT_SALE_CUP_SIZE nos produtos unitários
   quantity: number;
-  totalVolume: string;
+  total: string;           // "1.5L" (chope) ou "3 un."
 }
 
 /**
- * Interface para itens do carrinho de compras
+ * Estoque controlado de um produto, na medida do seu tipo
  */
-interface CartItem {
-  id: string;              // `${beerId}-${cupSize}`
-  beerId: number;
-  beerName: string;
-  beerColor: string;
-  cupSize: CupSize;
-  quantity: number;
-  totalVolume: number;     // em ml
-  unitPrice: number;       // preço unitário do copo
-  totalPrice: number;      // unitPrice * quantity
+interface StockLevel {
+  kind: ProductKind;
+  quantity: number;        // litros (chope) ou unidades
+  minAlert: number;        // limite de alerta na mesma medida
 }
 
 @Component({
@@ -51,7 +67,11 @@ interface CartItem {
     ButtonModule,
     ToastModule,
     TagModule,
-    DialogModule
+    DialogModule,
+    PaymentDialogComponent,
+    QuickSaleInputComponent,
+    RecentSalesCardComponent,
+    SalesCartComponent
   ],
   providers: [MessageService],
   templateUrl: './sales-form.html',
@@ -60,16 +80,23 @@ interface CartItem {
 export class SalesFormComponent implements OnInit {
   // ==================== INJEÇÃO DE DEPENDÊNCIAS ====================
   private readonly dbService = inject(DatabaseService);
+  private readonly beerRepository = inject(BeerRepository);
+  private readonly saleRepository = inject(SaleRepository);
+  private readonly stockRepository = inject(StockRepository);
+  private readonly priceRepository = inject(PriceRepository);
+  private readonly cupSizeRepository = inject(CupSizeRepository);
+  private readonly promotionRepository = inject(PromotionRepository);
+  private readonly paymentRepository = inject(PaymentRepository);
   private readonly comandaService = inject(ComandaService);
   private readonly authService = inject(AuthService);
   private readonly eventService = inject(EventService);
+  private readonly receiptService = inject(ReceiptService);
+  private readonly quickSaleSettingsService = inject(QuickSaleSettingsService);
   private readonly fb = inject(FormBuilder);
   private readonly messageService = inject(MessageService);
   private readonly tabRefreshService = inject(TabRefreshService);
 
   // ==================== CONSTANTES ====================
-  readonly cupSizes: readonly CupSize[] = [CUP_SIZES.SMALL, CUP_SIZES.MEDIUM, CUP_SIZES.LARGE] as const;
-  private readonly DEFAULT_CUP_SIZE: CupSize = CUP_SIZES.SMALL;
   private readonly DEFAULT_QUANTITY = 1;
   private readonly ML_TO_LITERS = 1000;
 
@@ -77,6 +104,12 @@ export class SalesFormComponent implements OnInit {
   readonly beerTypes = signal<BeerType[]>([]);
   readonly saleForm: FormGroup;
 
+  /**
+   * Tamanhos de copo ativos do catálogo (Configurações > Vendas)
+   * O primeiro é o tamanho padrão do formulário
+   */
+  readonly cupSizes = signal<CupSizeConfig[]>([]);
+
   // Signals para carrinho de compras
   readonly cartItems = signal<CartItem[]>([]);
   readonly cartTotalPrice = computed(() => {
@@ -88,6 +121,7 @@ export class SalesFormComponent implements OnInit {
 
   // Signals para modal de comanda
   protected isOpeningComanda = signal(false);
+  protected isPaying = signal(false);
   protected selectedComandaNumero = signal<number | null>(null);
   protected availableComandas = signal<Comanda[]>([]);
 
@@ -96,8 +130,13 @@ export class SalesFormComponent implements OnInit {
   protected stockErrorMessage = signal('');
   protected stockErrorTitle = signal('Erro de Estoque');
 
-  // Signal para controlar estado do bottom sheet (mobile only)
-  protected isBottomSheetExpanded = signal(false);
+  // Últimas vendas (recibo e estorno) e recibo da última venda direta
+  @ViewChild(RecentSalesCardComponent) recentSalesCard?: RecentSalesCardComponent;
+  protected lastReceipt = signal<Receipt | null>(null);
+
+  // Venda rápida (teclado / leitor de código de barras), configurada por dispositivo
+  @ViewChild(QuickSaleInputComponent) quickSaleInput?: QuickSaleInputComponent;
+  protected readonly quickSaleEnabled = computed(() => this.quickSaleSettingsService.settings().enabled);
 
   // Event management signals
   readonly selectedEventId = signal<number | null>(null);
@@ -118,13 +157,16 @@ export class SalesFormComponent implements OnInit {
 
     if (!selectedBeer) return null;
 
-    const totalVolume = (cupSize * quantity) / this.ML_TO_LITERS;
+    // Produto unitário não tem copo: o total é em unidades
+    const kind = selectedBeer.desc_kind;
+    const size = kind === 'unit' ? UNIT_SALE_CUP_SIZE : cupSize;
 
     return {
       beerName: selectedBeer.desc_name,
-      cupSize,
+      kind,
+      cupSize: size,
       quantity,
-      totalVolume: totalVolume.toFixed(1)
+      total: this.formatStock(kind, this.stockNeeded(kind, size, quantity))
     };
   });
 
@@ -140,7 +182,7 @@ export class SalesFormComponent implements OnInit {
     const eventId = this.selectedEventId();
 
     // Busca o estoque da cerveja selecionada para o evento atual
-    const stock = this.dbService.getEventStockByBeerId(beerId, eventId);
+    const stock = this.stockRepository.findByBeer(beerId, eventId);
 
     // Se não tem registro de estoque, estoque está desabilitado
     if (!stock) return false;
@@ -157,7 +199,7 @@ export class SalesFormComponent implements OnInit {
     if (!beerId) return null;
 
     const eventId = this.selectedEventId();
-    const stock = this.dbService.getEventStockByBeerId(beerId, eventId);
+    const stock = this.stockRepository.findByBeer(beerId, eventId);
     return stock ? stock.num_quantidade_litros : null;
   });
 
@@ -172,7 +214,7 @@ export class SalesFormComponent implements OnInit {
     const eventId = this.selectedEventId();
 
     // Busca o estoque da cerveja selecionada para o evento atual
-    const stock = this.dbService.getEventStockByBeerId(beerId, eventId);
+    const stock = this.stockRepository.findByBeer(beerId, eventId);
 
     // Se não tem registro de estoque, estoque está desabilitado
     if (!stock) return false;
@@ -194,7 +236,7 @@ export class SalesFormComponent implements OnInit {
     const eventId = this.selectedEventId();
 
     // Busca o estoque da cerveja selecionada para o evento atual
-    const stock = this.dbService.getEventStockByBeerId(beerId, eventId);
+    const stock = this.stockRepository.findByBeer(beerId, eventId);
 
     // Se não tem registro de estoque, estoque está desabilitado (permite venda)
     if (!stock) return false;
@@ -237,6 +279,7 @@ export class SalesFormComponent implements OnInit {
 
     if (this.dbService.isDbReady()) {
       this.loadBeerTypes();
+      this.loadCupSizes();
     }
   }
 
@@ -256,7 +299,7 @@ export class SalesFormComponent implements OnInit {
   private createSaleForm(): FormGroup {
     return this.fb.group({
       beerId: [null as number | null, Validators.required],
-      cupSize: [this.DEFAULT_CUP_SIZE, Validators.required],
+      cupSize: [this.defaultCupSize, [Validators.required, Validators.min(1)]],
       quantity: [this.DEFAULT_QUANTITY, [Validators.required, Validators.min(1)]]
     });
   }
@@ -268,6 +311,7 @@ export class SalesFormComponent implements OnInit {
     effect(() => {
       if (this.dbService.isDbReady()) {
         this.loadBeerTypes();
+        this.loadCupSizes();
       }
     });
   }
@@ -281,6 +325,8 @@ export class SalesFormComponent implements OnInit {
       console.log('📢 Sales-form: Recebeu notificação para recarregar cervejas');
       if (this.dbService.isDbReady()) {
         this.loadBeerTypes();
+        this.loadCupSizes();
+        this.loadRecentSales();
       }
     });
   }
@@ -292,33 +338,85 @@ export class SalesFormComponent implements OnInit {
    */
   private loadBeerTypes(): void {
     try {
-      const beers = this.dbService.executeQuery(
-        'SELECT * FROM prd_beer_types ORDER BY desc_name'
-      );
-
-      // Garante que IDs são numbers
-      const typedBeers: BeerType[] = beers.map(beer => ({
-        num_id: Number(beer.num_id),
-        desc_name: beer.desc_name,
-        desc_color: beer.desc_color,
-        desc_description: beer.desc_description
-      }));
+      // Cervejas arquivadas não aparecem para venda
+      const beers = this.beerRepository.findActive();
 
-      this.beerTypes.set(typedBeers);
-      console.log('✅ Tipos de cerveja carregados:', typedBeers.length);
+      this.beerTypes.set(beers);
+      console.log('✅ Tipos de cerveja carregados:', beers.length);
     } catch (error) {
       console.error('❌ Erro ao carregar tipos de cerveja:', error);
       this.showError('Não foi possível carregar os tipos de cerveja.');
     }
   }
 
+  /**
+   * Carrega os tamanhos de copo ativos
+   * Se o tamanho selecionado saiu do catálogo, volta para o padrão
+   */
+  private loadCupSizes(): void {
+    try {
+      const sizes = this.cupSizeRepository.findActive();
+      this.cupSizes.set(sizes);
+
+      if (!sizes.some(size => size.num_volume_ml === this.cupSize.value)) {
+        this.cupSize.setValue(this.defaultCupSize);
+      }
+    } catch (error) {
+      console.error('❌ Erro ao carregar tamanhos de copo:', error);
+      this.showError('Não foi possível carregar os tamanhos de copo.');
+    }
+  }
+
+  private get defaultCupSize(): CupSize {
+    return this.cupSizes()[0]?.num_volume_ml ?? 0;
+  }
+
+  /**
+   * Nome do tamanho de copo (catálogo) para exibição
+   */
+  cupSizeLabel(volumeMl: CupSize): string {
+    return getCupSizeLabel(this.cupSizes(), volumeMl);
+  }
+
+  /**
+   * Volume exibido abaixo do nome, quando o nome não for o próprio volume
+   */
+  cupSizeVolume(size: CupSizeConfig): string {
+    const volume = formatCupVolume(size.num_volume_ml);
+    return size.desc_label === volume ? '' : volume;
+  }
+
+  /**
+   * Tamanho do ícone do copo conforme a posição no catálogo
+   */
+  cupIconClass(index: number): string {
+    const classes = ['text-2xl', 'text-3xl', 'text-4xl', 'text-5xl'];
+    const scaled = Math.round((index / Math.max(this.cupSizes().length - 1, 1)) * (classes.length - 1));
+    return classes[scaled];
+  }
+
   // ==================== MÉTODOS PÚBLICOS DE MANIPULAÇÃO DO FORM ====================
   /**
    * Seleciona uma cerveja
    * MUDANÇA: beerId agora é number
+   * Produtos unitários não têm tamanho de copo: o controle fica desativado
    */
   selectBeer(beerId: number): void {
     this.beerId.setValue(beerId);
+
+    const isUnit = this.beerTypes().find(b => b.num_id === beerId)?.desc_kind === 'unit';
+    if (isUnit) {
+      this.cupSize.disable();
+    } else {
+      this.cupSize.enable();
+    }
+  }
+
+  /**
+   * Indica se o produto selecionado é vendido por unidade
+   */
+  isUnitSelected(): boolean {
+    return this.beerTypes().find(b => b.num_id === this.beerId.value)?.desc_kind === 'unit';
   }
 
   /**
@@ -350,12 +448,15 @@ export class SalesFormComponent implements OnInit {
     const selectedBeer = this.getSelectedBeer();
     if (!selectedBeer) return;
 
-    const { beerId, cupSize, quantity } = this.saleForm.value;
+    const beerId = selectedBeer.num_id;
+    const kind = selectedBeer.desc_kind;
+    const cupSize = kind === 'unit' ? UNIT_SALE_CUP_SIZE : this.cupSize.value;
+    const quantity = this.quantity.value;
 
-    // Busca o preço unitário do banco
-    const unitPrice = this.getPriceForCupSize(beerId, cupSize);
+    // Busca o preço do copo (ou da unidade) no banco
+    const unitPrice = kind === 'unit' ? this.getPriceForUnit(beerId) : this.getPriceForCupSize(beerId, cupSize);
     if (unitPrice === null) {
-      this.showError(`Preço não configurado para ${selectedBeer.desc_name} (${cupSize}ml). Configure em Configurações > Vendas.`);
+      this.showError(`Preço não configurado para ${selectedBeer.desc_name} (${this.cupSizeLabel(cupSize)}). Configure em Configurações > Vendas.`);
       return;
     }
 
@@ -368,20 +469,20 @@ export class SalesFormComponent implements OnInit {
       this.updateCartItemQuantity(cartItemId, existingItem.quantity + quantity);
     } else {
       // Adiciona novo item ao carrinho
-      const totalVolume = cupSize * quantity;
-      const totalPrice = unitPrice * quantity;
-
-      const newItem: CartItem = {
+      const newItem = this.priceCartItem({
         id: cartItemId,
         beerId,
         beerName: selectedBeer.desc_name,
         beerColor: selectedBeer.desc_color,
+        kind,
         cupSize,
         quantity,
-        totalVolume,
+        totalVolume: 0,
         unitPrice,
-        totalPrice
-      };
+        discount: 0,
+        promotions: [],
+        totalPrice: 0
+      }, quantity);
 
       this.cartItems.update(items => [...items, newItem]);
       console.log('✅ Item adicionado ao carrinho:', newItem);
@@ -391,7 +492,7 @@ export class SalesFormComponent implements OnInit {
     this.messageService.add({
       severity: 'success',
       summary: 'Adicionado ao Carrinho',
-      detail: `${quantity}x ${selectedBeer.desc_name} (${cupSize}ml)`,
+      detail: `${quantity}x ${selectedBeer.desc_name} (${this.cupSizeLabel(cupSize)})`,
       life: 2000
     });
 
@@ -415,9 +516,8 @@ export class SalesFormComponent implements OnInit {
       return false;
     }
 
-    const { cupSize, quantity } = this.saleForm.value;
     const eventId = this.selectedEventId();
-    const stock = this.dbService.getEventStockByBeerId(beerId, eventId);
+    const stock = this.findStockLevel(beerId);
 
     // Se não há registro de estoque, permite adicionar (modo normal)
     if (!stock) {
@@ -426,40 +526,37 @@ export class SalesFormComponent implements OnInit {
     }
 
     const selectedBeer = this.beerTypes().find(b => b.num_id === beerId);
-    const beerName = selectedBeer?.desc_name || 'desta cerveja';
+    const beerName = selectedBeer?.desc_name || 'deste produto';
+    const cupSize = stock.kind === 'unit' ? UNIT_SALE_CUP_SIZE : this.cupSize.value;
 
-    // Calcula quantos litros já estão no carrinho para esta cerveja
-    const litersInCart = this.cartItems()
-      .filter(item => item.beerId === beerId)
-      .reduce((sum, item) => sum + item.totalVolume, 0) / this.ML_TO_LITERS;
-
-    // Calcula quantos litros estão sendo adicionados
-    const litersToAdd = (cupSize * quantity) / this.ML_TO_LITERS;
+    // Quanto do estoque já está no carrinho e quanto está sendo adicionado
+    const inCart = this.stockNeededInCart(beerId);
+    const toAdd = this.stockNeeded(stock.kind, cupSize, this.quantity.value);
 
     // Total que será necessário
-    const totalLitersNeeded = litersInCart + litersToAdd;
+    const totalNeeded = inCart + toAdd;
 
     // Validação de estoque esgotado
-    if (stock.num_quantidade_litros === 0) {
-      console.log(`❌ Estoque esgotado para beerId ${beerId} (0L) [eventId: ${eventId || 'geral'}]`);
+    if (stock.quantity === 0) {
+      console.log(`❌ Estoque esgotado para beerId ${beerId} [eventId: ${eventId || 'geral'}]`);
       this.showStockError(
         'Estoque Esgotado!',
-        `O estoque de ${beerName} está esgotado (0L disponível).\n\nNão é possível adicionar ao carrinho. Por favor, reponha o estoque em Configurações > Vendas.`
+        `O estoque de ${beerName} está esgotado (${this.formatStock(stock.kind, 0)} disponível).\n\nNão é possível adicionar ao carrinho. Por favor, reponha o estoque em Configurações > Vendas.`
       );
       return false;
     }
 
     // Validação de estoque insuficiente (considerando o que já está no carrinho)
-    if (totalLitersNeeded > stock.num_quantidade_litros) {
-      console.log(`❌ Estoque insuficiente para beerId ${beerId}: necessário ${totalLitersNeeded}L (${litersInCart}L no carrinho + ${litersToAdd}L agora), disponível ${stock.num_quantidade_litros}L [eventId: ${eventId || 'geral'}]`);
+    if (totalNeeded > stock.quantity) {
+      console.log(`❌ Estoque insuficiente para beerId ${beerId}: necessário ${totalNeeded} (${inCart} no carrinho + ${toAdd} agora), disponível ${stock.quantity} [eventId: ${eventId || 'geral'}]`);
       this.showStockError(
         'Estoque Insuficiente!',
-        `Você já tem ${litersInCart.toFixed(1)}L de ${beerName} no carrinho.\n\nTentando adicionar mais ${litersToAdd.toFixed(1)}L = ${totalLitersNeeded.toFixed(1)}L total.\n\nEstoque disponível: ${stock.num_quantidade_litros.toFixed(1)}L\n\nPor favor, ajuste a quantidade ou reponha o estoque.`
+        `Você já tem ${this.formatStock(stock.kind, inCart)} de ${beerName} no carrinho.\n\nTentando adicionar mais ${this.formatStock(stock.kind, toAdd)} = ${this.formatStock(stock.kind, totalNeeded)} total.\n\nEstoque disponível: ${this.formatStock(stock.kind, stock.quantity)}\n\nPor favor, ajuste a quantidade ou reponha o estoque.`
       );
       return false;
     }
 
-    console.log(`✅ Validação OK: ${litersToAdd}L sendo adicionado (${litersInCart}L já no carrinho, ${stock.num_quantidade_litros}L disponíveis) [eventId: ${eventId || 'geral'}]`);
+    console.log(`✅ Validação OK: ${toAdd} sendo adicionado (${inCart} já no carrinho, ${stock.quantity} disponíveis) [eventId: ${eventId || 'geral'}]`);
     return true;
   }
 
@@ -468,31 +565,31 @@ export class SalesFormComponent implements OnInit {
    */
   private getPriceForCupSize(beerId: number, cupSize: CupSize): number | null {
     try {
-      const result = this.dbService.executeQuery(
-        'SELECT * FROM config_sales WHERE num_beer_id = ?',
-        [beerId]
-      );
+      // Preço do evento selecionado, com fallback para o preço geral
+      const price = this.priceRepository.findEffectivePrice(beerId, cupSize, this.selectedEventId());
 
-      if (result.length === 0) {
-        console.warn(`⚠️ Sem configuração de preço para beerId ${beerId}`);
-        return null;
+      if (price === null) {
+        console.warn(`⚠️ Sem preço para beerId ${beerId} (${cupSize}ml)`);
       }
+      return price;
+    } catch (error) {
+      console.error('❌ Erro ao buscar preço:', error);
+      return null;
+    }
+  }
 
-      const priceConfig = result[0];
-
-      // Mapeia cupSize para coluna correspondente
-      const priceColumn = cupSize === 300 ? 'num_price_300ml' :
-                         cupSize === 500 ? 'num_price_500ml' :
-                         'num_price_1000ml';
-
-      const price = priceConfig[priceColumn];
+  /**
+   * Busca o preço da unidade de um produto unitário
+   */
+  private getPriceForUnit(beerId: number): number | null {
+    try {
+      // Preço do evento selecionado, com fallback para o preço geral
+      const price = this.priceRepository.findEffectiveUnitPrice(beerId, this.selectedEventId());
 
-      if (price === null || price === undefined) {
-        console.warn(`⚠️ Preço não configurado para ${cupSize}ml (beerId ${beerId})`);
-        return null;
+      if (price === null) {
+        console.warn(`⚠️ Sem preço unitário para beerId ${beerId}`);
       }
-
-      return Number(price);
+      return price;
     } catch (error) {
       console.error('❌ Erro ao buscar preço:', error);
       return null;
@@ -509,17 +606,38 @@ export class SalesFormComponent implements OnInit {
     }
 
     this.cartItems.update(items => {
-      return items.map(item => {
-        if (item.id === itemId) {
-          const totalVolume = item.cupSize * newQuantity;
-          const totalPrice = item.unitPrice * newQuantity;
-          return { ...item, quantity: newQuantity, totalVolume, totalPrice };
-        }
-        return item;
-      });
+      return items.map(item => item.id === itemId ? this.priceCartItem(item, newQuantity) : item);
     });
   }
 
+  /**
+   * Recalcula volume, desconto das promoções vigentes e total de um item
+   * As promoções são avaliadas no horário atual e no evento selecionado
+   */
+  private priceCartItem(item: CartItem, quantity: number): CartItem {
+    const applied = applyPromotions(
+      { beerId: item.beerId, cupSize: item.cupSize, quantity, unitPrice: item.unitPrice },
+      this.promotionRepository.findApplicable(this.selectedEventId()),
+      new Date()
+    );
+
+    return {
+      ...item,
+      quantity,
+      totalVolume: item.cupSize * quantity,
+      discount: applied.discount,
+      promotions: applied.names,
+      totalPrice: Math.round((item.unitPrice * quantity - applied.discount) * 100) / 100
+    };
+  }
+
+  /**
+   * Texto das promoções aplicadas a um item do carrinho
+   */
+  promotionText(item: CartItem): string {
+    return item.promotions.join(PROMOTION_NAMES_SEPARATOR);
+  }
+
   /**
    * Incrementa a quantidade de um item do carrinho
    */
@@ -527,20 +645,13 @@ export class SalesFormComponent implements OnInit {
     const item = this.cartItems().find(i => i.id === itemId);
     if (!item) return;
 
-    const eventId = this.selectedEventId();
-
     // Valida estoque antes de incrementar
-    const stock = this.dbService.getEventStockByBeerId(item.beerId, eventId);
+    const stock = this.findStockLevel(item.beerId);
     if (stock) {
-      const litersInCart = this.cartItems()
-        .filter(i => i.beerId === item.beerId)
-        .reduce((sum, i) => sum + i.totalVolume, 0) / this.ML_TO_LITERS;
-
-      const litersToAdd = item.cupSize / this.ML_TO_LITERS;
-      const totalNeeded = litersInCart + litersToAdd;
+      const totalNeeded = this.stockNeededInCart(item.beerId) + this.stockNeeded(item.kind, item.cupSize, 1);
 
-      if (totalNeeded > stock.num_quantidade_litros) {
-        this.showError(`Estoque insuficiente. Disponível: ${stock.num_quantidade_litros.toFixed(1)}L`);
+      if (totalNeeded > stock.quantity) {
+        this.showError(`Estoque insuficiente. Disponível: ${this.formatStock(stock.kind, stock.quantity)}`);
         return;
       }
     }
@@ -586,16 +697,9 @@ export class SalesFormComponent implements OnInit {
     return this.cartItems().length > 0;
   }
 
-  /**
-   * Toggle do estado do bottom sheet (expandir/colapsar)
-   */
-  toggleBottomSheet(): void {
-    this.isBottomSheetExpanded.update(expanded => !expanded);
-  }
-
   // ==================== HANDLER PRINCIPAL DE VENDA ====================
   /**
-   * Finaliza a venda processando todos os itens do carrinho
+   * Finaliza a venda direta: valida o carrinho e abre o pagamento
    */
   finalizeSale(): void {
     if (!this.hasCartItems()) {
@@ -615,26 +719,36 @@ export class SalesFormComponent implements OnInit {
       return;
     }
 
-    try {
-      const eventId = this.selectedEventId();
+    // Total final (promoções no horário atual) antes de pedir o pagamento
+    this.cartItems.update(items => items.map(item => this.priceCartItem(item, item.quantity)));
+    if (this.cartTotalPrice() > 0) {
+      this.isPaying.set(true);
+    } else {
+      this.completeSale([]);
+    }
+  }
 
-      // Registra cada item do carrinho como uma venda
-      this.cartItems().forEach(item => {
-        const sale: Omit<Sale, 'num_id'> = {
-          num_beer_id: item.beerId,
-          desc_beer_name: item.beerName,
-          num_cup_size: item.cupSize,
-          num_quantity: item.quantity,
-          dt_timestamp: new Date().toISOString(),
-          num_total_volume: item.totalVolume,
-          num_comanda_id: null,
-          num_user_id: currentUser.num_user_id,
-          num_event_id: eventId
-        };
+  /**
+   * Pagamento confirmado no diálogo: registra a venda direta
+   */
+  protected onPaymentConfirmed(payments: PaymentInput[]): void {
+    this.completeSale(payments);
+  }
 
-        this.insertSaleIntoDatabase(sale);
-        this.updateEventStock(sale);
-      });
+  /**
+   * Registra a venda direta com os pagamentos informados
+   */
+  private completeSale(payments: PaymentInput[]): void {
+    const currentUser = this.authService.getCurrentUser();
+    if (!currentUser) {
+      this.showError('Você precisa estar logado para finalizar uma venda.');
+      return;
+    }
+
+    try {
+      // Registra o carrinho inteiro e os pagamentos de forma atômica (tudo ou nada)
+      this.registerCartSales(currentUser.num_user_id, null, payments);
+      this.lastReceipt.set(this.receiptService.buildSaleReceipt(this.toReceiptItems(this.cartItems()), payments));
 
       // Mensagem de sucesso
       const totalItems = this.cartItems().reduce((sum, item) => sum + item.quantity, 0);
@@ -648,9 +762,12 @@ export class SalesFormComponent implements OnInit {
         life: 5000
       });
 
-      // Limpa carrinho e reseta formulário
+      // Fecha o pagamento, limpa carrinho e reseta formulário
+      this.isPaying.set(false);
       this.clearCart();
       this.resetForm();
+      this.loadRecentSales();
+      this.focusQuickSale();
 
       console.log('✅ Venda finalizada com sucesso');
     } catch (error) {
@@ -658,27 +775,43 @@ export class SalesFormComponent implements OnInit {
     }
   }
 
+  // ==================== RECIBO ====================
   /**
-   * Valida estoque para todos os itens do carrinho
-   * Retorna false se algum item não tem estoque suficiente
+   * Itens do carrinho no formato do recibo
+   */
+  private toReceiptItems(items: CartItem[]): ReceiptItem[] {
+    return items.map(item => ({
+      description: `${item.beerName} (${formatCupVolume(item.cupSize)})`,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      discount: item.discount,
+      total: item.totalPrice
+    }));
+  }
+
+  /**
+   * Valida estoque para todos os produtos do carrinho
+   * Retorna false se algum produto não tem estoque suficiente
    */
   private validateCartStock(): boolean {
-    const eventId = this.selectedEventId();
+    const items = this.cartItems();
+    const beerIds = [...new Set(items.map(item => item.beerId))];
 
-    for (const item of this.cartItems()) {
-      const stock = this.dbService.getEventStockByBeerId(item.beerId, eventId);
+    for (const beerId of beerIds) {
+      const stock = this.findStockLevel(beerId);
 
       // Se não há controle de estoque, continua
       if (!stock) continue;
 
-      // Calcula quantos litros deste item precisam
-      const litersNeeded = item.totalVolume / this.ML_TO_LITERS;
+      // Soma todas as linhas do produto (copos de tamanhos diferentes saem do mesmo estoque)
+      const needed = this.stockNeededInCart(beerId);
 
       // Verifica se há estoque suficiente
-      if (litersNeeded > stock.num_quantidade_litros) {
+      if (needed > stock.quantity) {
+        const beerName = items.find(item => item.beerId === beerId)?.beerName;
         this.showStockError(
           'Estoque Insuficiente!',
-          `${item.beerName}: necessário ${litersNeeded.toFixed(1)}L, disponível ${stock.num_quantidade_litros.toFixed(1)}L.\n\nPor favor, ajuste o carrinho ou reponha o estoque.`
+          `${beerName}: necessário ${this.formatStock(stock.kind, needed)}, disponível ${this.formatStock(stock.kind, stock.quantity)}.\n\nPor favor, ajuste o carrinho ou reponha o estoque.`
         );
         return false;
       }
@@ -687,6 +820,46 @@ export class SalesFormComponent implements OnInit {
     return true;
   }
 
+  /**
+   * Estoque controlado do produto no evento selecionado (null = sem controle)
+   * Chope usa o estoque em litros; produtos unitários, o estoque em unidades
+   */
+  private findStockLevel(beerId: number): StockLevel | null {
+    const eventId = this.selectedEventId();
+    const beer = this.beerTypes().find(b => b.num_id === beerId);
+
+    if (beer?.desc_kind === 'unit') {
+      const stock = this.stockRepository.findUnitStock(beerId, eventId);
+      return stock ? { kind: 'unit', quantity: stock.num_quantity, minAlert: stock.num_min_units_alert } : null;
+    }
+
+    const stock = this.stockRepository.findByBeer(beerId, eventId);
+    return stock ? { kind: 'draft', quantity: stock.num_quantidade_litros, minAlert: stock.num_min_liters_alert } : null;
+  }
+
+  /**
+   * Quanto uma quantidade tira do estoque: litros (chope) ou unidades
+   */
+  private stockNeeded(kind: ProductKind, cupSize: CupSize, quantity: number): number {
+    return kind === 'unit' ? quantity : (cupSize * quantity) / this.ML_TO_LITERS;
+  }
+
+  /**
+   * Quanto do estoque do produto já está no carrinho
+   */
+  private stockNeededInCart(beerId: number): number {
+    return this.cartItems()
+      .filter(item => item.beerId === beerId)
+      .reduce((sum, item) => sum + this.stockNeeded(item.kind, item.cupSize, item.quantity), 0);
+  }
+
+  /**
+   * Quantidade de estoque legível: "12.5L" ou "30 un."
+   */
+  protected formatStock(kind: ProductKind, quantity: number): string {
+    return kind === 'unit' ? `${quantity} un.` : `${quantity.toFixed(1)}L`;
+  }
+
   // ==================== MÉTODOS PRIVADOS DE VALIDAÇÃO ====================
   /**
    * Obtém a cerveja selecionada
@@ -715,55 +888,98 @@ export class SalesFormComponent implements OnInit {
    * MUDANÇA V9: Inclui eventId opcional para vincular a eventos
    */
   private insertSaleIntoDatabase(sale: Omit<Sale, 'num_id'>): void {
-    const query = `
-      INSERT INTO prd_sales (num_beer_id, desc_beer_name, num_cup_size, num_quantity, dt_timestamp, num_total_volume, num_comanda_id, num_user_id, num_event_id)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `;
-
-    // MUDANÇA: Removemos o ID da inserção
-    // O banco gera automaticamente via AUTOINCREMENT
-    this.dbService.executeRun(query, [
-      sale.num_beer_id,
-      sale.desc_beer_name,
-      sale.num_cup_size,
-      sale.num_quantity,
-      sale.dt_timestamp,
-      sale.num_total_volume,
-      sale.num_comanda_id ?? null,
-      sale.num_user_id,
-      sale.num_event_id ?? null
-    ]);
+    // O banco gera o ID automaticamente via AUTOINCREMENT
+    this.saleRepository.insert(sale);
+  }
+
+  /**
+   * Registra todos os itens do carrinho como vendas em uma única transação
+   * Se qualquer venda ou baixa de estoque falhar, nada é gravado
+   * Os alertas de estoque baixo são exibidos somente após o COMMIT
+   *
+   * @param userId ID do usuário que realizou a venda
+   * @param comandaId ID da comanda vinculada (null = venda direta)
+   * @param payments Pagamentos da venda direta (comandas pagam no fechamento)
+   *                 Sem pagamentos (total zero), as vendas ficam sem conta
+   */
+  private registerCartSales(userId: number, comandaId: number | null, payments?: PaymentInput[]): void {
+    const eventId = this.selectedEventId();
+    const billId = payments && payments.length > 0 ? createSyncId() : null;
+
+    // O horário pode ter saído (ou entrado) na janela de uma promoção
+    this.cartItems.update(items => items.map(item => this.priceCartItem(item, item.quantity)));
+
+    const stockTracked = this.dbService.transaction(() => {
+      if (payments) {
+        validatePayments(this.cartTotalPrice(), payments);
+      }
+
+      const tracked = this.cartItems().map(item => {
+        const sale: Omit<Sale, 'num_id'> = {
+          num_beer_id: item.beerId,
+          desc_beer_name: item.beerName,
+          num_cup_size: item.cupSize,
+          num_quantity: item.quantity,
+          dt_timestamp: new Date().toISOString(),
+          num_total_volume: item.totalVolume,
+          num_unit_price: item.unitPrice,
+          num_discount: item.discount,
+          num_total_price: item.totalPrice,
+          desc_promotions: item.promotions.length > 0 ? this.promotionText(item) : null,
+          num_comanda_id: comandaId,
+          num_user_id: userId,
+          num_event_id: eventId,
+          desc_bill_id: billId
+        };
+
+        this.insertSaleIntoDatabase(sale);
+        return this.updateEventStock(sale) ? sale : null;
+      });
+
+      if (billId && payments) {
+        this.paymentRepository.insertForBill(billId, payments, { comandaId, userId, eventId });
+      }
+      return tracked;
+    });
+
+    stockTracked.forEach(sale => {
+      if (sale) {
+        this.checkStockAlert(sale.num_beer_id, sale.desc_beer_name, sale.num_event_id ?? null);
+      }
+    });
   }
 
   /**
    * Atualiza o estoque do evento (se configurado)
    * Converte volume de ml para litros e subtrai do estoque
    * IMPORTANTE: Passa o eventId para subtrair do estoque correto
+   * Erros são propagados para desfazer a transação da venda
+   *
+   * @returns true se a cerveja tem controle de estoque (baixa realizada)
    */
-  private updateEventStock(sale: Omit<Sale, 'num_id'>): void {
-    try {
-      // Converte totalVolume (ml) para litros
-      const litersToSubtract = sale.num_total_volume / this.ML_TO_LITERS;
-
-      // Tenta subtrair do estoque passando o eventId (retorna false se não há estoque configurado)
-      const wasSubtracted = this.dbService.subtractFromEventStock(
-        sale.num_beer_id,
-        litersToSubtract,
-        sale.num_event_id ?? null
-      );
+  private updateEventStock(sale: Omit<Sale, 'num_id'>): boolean {
+    // Produtos unitários baixam unidades do estoque em unidades
+    if (isUnitSale(sale)) {
+      return this.stockRepository.subtractUnits(sale.num_beer_id, sale.num_quantity, sale.num_event_id ?? null);
+    }
 
-      if (wasSubtracted) {
-        console.log(`📦 Estoque atualizado: -${litersToSubtract}L de ${sale.desc_beer_name} [eventId: ${sale.num_event_id || 'geral'}]`);
+    // Converte totalVolume (ml) para litros
+    const litersToSubtract = sale.num_total_volume / this.ML_TO_LITERS;
 
-        // Verifica se está abaixo do limite de alerta
-        this.checkStockAlert(sale.num_beer_id, sale.desc_beer_name, sale.num_event_id ?? null);
-      } else {
-        console.log(`ℹ️ Sem controle de estoque para ${sale.desc_beer_name} [eventId: ${sale.num_event_id || 'geral'}]`);
-      }
-    } catch (error) {
-      // Não propaga o erro - venda já foi registrada com sucesso
-      console.error('⚠️ Erro ao atualizar estoque do evento (venda registrada):', error);
+    // Tenta subtrair do estoque passando o eventId (retorna false se não há estoque configurado)
+    const wasSubtracted = this.stockRepository.subtract(
+      sale.num_beer_id,
+      litersToSubtract,
+      sale.num_event_id ?? null
+    );
+
+    if (wasSubtracted) {
+      console.log(`📦 Estoque atualizado: -${litersToSubtract}L de ${sale.desc_beer_name} [eventId: ${sale.num_event_id || 'geral'}]`);
+    } else {
+      console.log(`ℹ️ Sem controle de estoque para ${sale.desc_beer_name} [eventId: ${sale.num_event_id || 'geral'}]`);
     }
+
+    return wasSubtracted;
   }
 
   /**
@@ -774,11 +990,16 @@ export class SalesFormComponent implements OnInit {
    */
   private checkStockAlert(beerId: number, beerName: string, eventId: number | null = null): void {
     try {
-      const stock = this.dbService.getEventStockByBeerId(beerId, eventId);
+      if (this.beerTypes().find(b => b.num_id === beerId)?.desc_kind === 'unit') {
+        this.checkUnitStockAlert(beerId, beerName, eventId);
+        return;
+      }
+
+      const stock = this.stockRepository.findByBeer(beerId, eventId);
       if (!stock) return;
 
-      const config = this.dbService.getStockAlertConfig();
-      const minLiters = config?.minLiters || 5.0;
+      const config = this.stockRepository.getAlertConfig();
+      const minLiters = config?.num_min_liters ?? DEFAULT_MIN_LITERS_ALERT;
 
       // Se estoque está acima do limite, não há alerta
       if (stock.num_quantidade_litros >= minLiters) return;
@@ -799,13 +1020,32 @@ export class SalesFormComponent implements OnInit {
     }
   }
 
+  /**
+   * Alerta de estoque baixo dos produtos unitários (limite próprio de cada produto)
+   */
+  private checkUnitStockAlert(beerId: number, beerName: string, eventId: number | null): void {
+    const stock = this.stockRepository.findUnitStock(beerId, eventId);
+    if (!stock || stock.num_quantity >= stock.num_min_units_alert) return;
+
+    this.messageService.add({
+      severity: 'warn',
+      summary: 'Estoque Baixo!',
+      detail: `${beerName}: apenas ${stock.num_quantity} un. restantes (limite: ${stock.num_min_units_alert} un.)`,
+      life: 6000,
+      sticky: false
+    });
+
+    console.log(`⚠️ ALERTA: ${beerName} com estoque baixo (${stock.num_quantity} un.) [eventId: ${eventId || 'geral'}]`);
+  }
+
   /**
    * Reseta o formulário para valores padrão
    */
   private resetForm(): void {
+    this.cupSize.enable();
     this.saleForm.reset({
       beerId: null,
-      cupSize: this.DEFAULT_CUP_SIZE,
+      cupSize: this.defaultCupSize,
       quantity: this.DEFAULT_QUANTITY
     });
   }
@@ -872,7 +1112,7 @@ export class SalesFormComponent implements OnInit {
    * Trata erros ao salvar venda
    */
   private handleSaleError(error: unknown): void {
-    this.showError('Não foi possível registrar a venda.');
+    this.showError('Não foi possível registrar a venda. Nenhum item do carrinho foi gravado.');
     console.error('❌ Erro ao registrar venda:', error);
   }
 
@@ -898,13 +1138,12 @@ export class SalesFormComponent implements OnInit {
   /**
    * Verifica se uma cerveja específica tem estoque baixo
    * @param beerId ID da cerveja a verificar
-   * @returns true se estoque está ativo E 0 < quantidade < minLitersAlert
+   * @returns true se estoque está ativo E 0 < quantidade < limite de alerta
    */
   checkLowStockForBeer(beerId: number): boolean {
-    const eventId = this.selectedEventId();
-    const stock = this.dbService.getEventStockByBeerId(beerId, eventId);
+    const stock = this.findStockLevel(beerId);
     if (!stock) return false;
-    return stock.num_quantidade_litros > 0 && stock.num_quantidade_litros < stock.num_min_liters_alert;
+    return stock.quantity > 0 && stock.quantity < stock.minAlert;
   }
 
   /**
@@ -913,21 +1152,19 @@ export class SalesFormComponent implements OnInit {
    * @returns true se estoque está ativo E quantidade = 0
    */
   checkDepletedStockForBeer(beerId: number): boolean {
-    const eventId = this.selectedEventId();
-    const stock = this.dbService.getEventStockByBeerId(beerId, eventId);
+    const stock = this.findStockLevel(beerId);
     if (!stock) return false;
-    return stock.num_quantidade_litros === 0;
+    return stock.quantity === 0;
   }
 
   /**
-   * Retorna a quantidade de estoque de uma cerveja específica
-   * @param beerId ID da cerveja
-   * @returns Quantidade em litros ou null se não tem controle
+   * Retorna o estoque de um produto, formatado na sua medida
+   * @param beerId ID do produto
+   * @returns "12.5L", "30 un." ou null se não tem controle
    */
-  getStockForBeer(beerId: number): number | null {
-    const eventId = this.selectedEventId();
-    const stock = this.dbService.getEventStockByBeerId(beerId, eventId);
-    return stock ? stock.num_quantidade_litros : null;
+  getStockForBeer(beerId: number): string | null {
+    const stock = this.findStockLevel(beerId);
+    return stock ? this.formatStock(stock.kind, stock.quantity) : null;
   }
 
   // ==================== MÉTODOS DE COMANDA ====================
@@ -994,36 +1231,21 @@ export class SalesFormComponent implements OnInit {
     }
 
     // Buscar a comanda pelo número
-    const comanda = this.dbService.getComandaByNumero(comandaNumero);
+    const comanda = this.comandaService.getComandaByNumero(comandaNumero);
     if (!comanda) {
       this.showError(`Comanda ${comandaNumero} não encontrada`);
       return;
     }
 
-    // Abrir a comanda se ainda estiver disponível
     try {
-      if (comanda.desc_status === 'disponivel') {
-        this.comandaService.openComanda(comandaNumero);
-      }
-
-      const eventId = this.selectedEventId();
-
-      // Processar todos os itens do carrinho vinculados à comanda
-      this.cartItems().forEach(item => {
-        const sale: Omit<Sale, 'num_id'> = {
-          num_beer_id: item.beerId,
-          desc_beer_name: item.beerName,
-          num_cup_size: item.cupSize,
-          num_quantity: item.quantity,
-          dt_timestamp: new Date().toISOString(),
-          num_total_volume: item.totalVolume,
-          num_comanda_id: comanda.num_id,
-          num_user_id: currentUser.num_user_id,
-          num_event_id: eventId
-        };
+      // Abertura da comanda e itens do carrinho em uma única transação:
+      // se algum item falhar, a comanda volta ao estado anterior
+      this.dbService.transaction(() => {
+        if (comanda.desc_status === 'disponivel') {
+          this.comandaService.openComanda(comandaNumero);
+        }
 
-        this.insertSaleIntoDatabase(sale);
-        this.updateEventStock(sale);
+        this.registerCartSales(currentUser.num_user_id, comanda.num_id);
       });
 
       // Mensagem de sucesso
@@ -1041,10 +1263,68 @@ export class SalesFormComponent implements OnInit {
       this.clearCart();
       this.resetForm();
       this.closeComandaDialog();
+      this.loadRecentSales();
+      this.focusQuickSale();
 
       console.log('✅ Venda com comanda finalizada com sucesso');
     } catch (error: any) {
       this.showError(error.message || 'Erro ao processar venda com comanda');
     }
   }
-}
\ No newline at end of file
+
+  // ==================== VENDA RÁPIDA ====================
+  /**
+   * Adiciona a combinação do atalho/código pelo mesmo fluxo dos botões
+   * (selectBeer → selectCupSize → quantidade → addToCart)
+   */
+  protected onQuickSaleItem({ binding, quantity }: { binding: QuickSaleBinding; quantity: number }): void {
+    const beer = this.beerTypes().find(b => b.num_id === binding.beerId);
+    if (!beer) {
+      this.showWarning('O produto deste atalho não está disponível para venda.');
+      return;
+    }
+
+    const isUnit = beer.desc_kind === 'unit';
+    if (!isUnit && !this.cupSizes().some(size => size.num_volume_ml === binding.cupSize)) {
+      this.showWarning(`O copo de ${formatCupVolume(binding.cupSize)} não está mais ativo.`);
+      return;
+    }
+
+    this.selectBeer(beer.num_id);
+    if (!isUnit) {
+      this.selectCupSize(binding.cupSize);
+    }
+    this.quantity.setValue(quantity);
+    this.addToCart();
+    this.quantity.setValue(this.DEFAULT_QUANTITY);
+  }
+
+  /**
+   * Finalização pela venda rápida: na comanda lida ou pelo pagamento direto
+   */
+  protected onQuickSaleFinalized(comandaNumero: number | null): void {
+    if (comandaNumero === null) {
+      this.finalizeSale();
+      return;
+    }
+
+    this.selectedComandaNumero.set(comandaNumero);
+    this.finalizeWithComanda();
+    this.selectedComandaNumero.set(null);
+  }
+
+  /**
+   * Devolve o foco à entrada da venda rápida (após finalizar)
+   */
+  private focusQuickSale(): void {
+    this.quickSaleInput?.focus();
+  }
+
+  // ==================== ÚLTIMAS VENDAS ====================
+  /**
+   * Recarrega as últimas vendas (estornáveis) do evento selecionado
+   */
+  private loadRecentSales(): void {
+    this.recentSalesCard?.reload();
+  }
+}
@@ -8,9 +8,21 @@ import { ToastModule } from 'primeng/toast';
 import { MessageService } from 'primeng/api';
 import { DialogModule } from 'primeng/dialog';
 import { DividerModule } from 'primeng/divider';
+import { TableModule } from 'primeng/table';
 
 // App
 import { DatabaseService } from '../../core/services/database';
+import { AuthService } from '../../core/services/auth.service';
+import { BackupService } from '../../core/services/backup.service';
+import { BackupValidationResult } from '../../core/models/backup.model';
+import { SettingsSnapshotsComponent } from '../settings-snapshots/settings-snapshots';
+import { SettingsEncryptionComponent } from '../settings-encryption/settings-encryption';
+import { SettingsSyncComponent } from '../settings-sync/settings-sync';
+import { SettingsAuditComponent } from '../settings-audit/settings-audit';
+import { SettingsDiagnosticsComponent } from '../settings-diagnostics/settings-diagnostics';
+import { SettingsQueryConsoleComponent } from '../settings-query-console/settings-query-console';
+import { SettingsArchiveComponent } from '../settings-archive/settings-archive';
+import { STORAGE_CRITICAL_PERCENT, STORAGE_WARNING_PERCENT } from '../../core/services/db-storage';
 
 /**
  * Interface para as estatísticas do banco de dados
@@ -31,7 +43,15 @@ interface DatabaseStats {
     ButtonModule,
     ToastModule,
     DialogModule,
-    DividerModule
+    DividerModule,
+    TableModule,
+    SettingsSnapshotsComponent,
+    SettingsArchiveComponent,
+    SettingsEncryptionComponent,
+    SettingsSyncComponent,
+    SettingsAuditComponent,
+    SettingsDiagnosticsComponent,
+    SettingsQueryConsoleComponent
   ],
   providers: [MessageService],
   templateUrl: './settings-admin.html',
@@ -41,6 +61,8 @@ export class SettingsAdminComponent implements OnInit {
   // ==================== INJEÇÃO DE DEPENDÊNCIAS ====================
   private readonly dbService = inject(DatabaseService);
   private readonly messageService = inject(MessageService);
+  private readonly authService = inject(AuthService);
+  private readonly backupService = inject(BackupService);
 
   // ==================== SIGNALS ====================
 
@@ -54,6 +76,31 @@ export class SettingsAdminComponent implements OnInit {
    */
   readonly showClearDialog = signal<boolean>(false);
 
+  /**
+   * Indica se a exportação do backup está em andamento
+   */
+  readonly isExporting = signal<boolean>(false);
+
+  /**
+   * Indica se a validação/restauração do backup está em andamento
+   */
+  readonly isRestoring = signal<boolean>(false);
+
+  /**
+   * Resultado da validação do backup selecionado (exibido no dialog de restauração)
+   */
+  readonly backupValidation = signal<BackupValidationResult | null>(null);
+
+  /**
+   * Controla a visibilidade do dialog de restauração
+   */
+  readonly showRestoreDialog = signal<boolean>(false);
+
+  /**
+   * Indica se a medição do armazenamento está em andamento
+   */
+  readonly isCheckingStorage = signal<boolean>(false);
+
   /**
    * Armazena as estatísticas do banco de dados
    */
@@ -78,11 +125,42 @@ export class SettingsAdminComponent implements OnInit {
    */
   readonly dbReady = computed(() => this.dbService.isDbReady());
 
+  /**
+   * Erro da última atualização de schema (banco mantido na versão anterior)
+   */
+  readonly migrationError = computed(() => this.dbService.migrationError());
+
+  /**
+   * Uso do armazenamento (medido após as gravações do banco)
+   */
+  readonly storageUsage = computed(() => this.dbService.storageUsage());
+
+  /**
+   * Falha da última gravação do banco (alterações ainda não salvas)
+   */
+  readonly persistError = computed(() => this.dbService.persistError());
+
+  readonly storageWarningPercent = STORAGE_WARNING_PERCENT;
+  readonly storageCriticalPercent = STORAGE_CRITICAL_PERCENT;
+
+  /**
+   * Backup e restauração completos são exclusivos do admin
+   */
+  readonly isAdmin = computed(() => this.authService.isAdmin());
+
+  /**
+   * Tabelas com diferença de registros entre o banco atual e o backup
+   */
+  readonly backupChangedTables = computed(() =>
+    (this.backupValidation()?.diff ?? []).filter(row => row.difference !== 0).length
+  );
+
   // ==================== LIFECYCLE HOOKS ====================
 
   ngOnInit(): void {
     if (this.dbService.isDbReady()) {
       this.updateDatabaseStats();
+      void this.refreshStorageUsage();
     }
   }
 
@@ -106,6 +184,17 @@ export class SettingsAdminComponent implements OnInit {
     }
   }
 
+  // ==================== ARMAZENAMENTO ====================
+
+  async refreshStorageUsage(): Promise<void> {
+    this.isCheckingStorage.set(true);
+    try {
+      await this.dbService.refreshStorageUsage();
+    } finally {
+      this.isCheckingStorage.set(false);
+    }
+  }
+
   // ==================== LIMPAR BANCO ====================
 
   openClearDialog(): void {
@@ -143,6 +232,81 @@ export class SettingsAdminComponent implements OnInit {
     }
   }
 
+  // ==================== BACKUP / RESTAURAÇÃO ====================
+
+  async exportBackup(): Promise<void> {
+    if (!this.isAdmin()) return;
+
+    this.isExporting.set(true);
+    try {
+      const manifest = await this.backupService.exportBackup();
+      this.showSuccessMessage(`Backup gerado: ${manifest.fileName} (${this.formatBytes(manifest.sizeBytes)})`);
+    } catch (error) {
+      console.error('❌ Erro ao exportar backup:', error);
+      this.showErrorMessage('Não foi possível gerar o backup.');
+    } finally {
+      this.isExporting.set(false);
+    }
+  }
+
+  /**
+   * Valida os arquivos selecionados e abre o dialog com o resumo
+   */
+  async onBackupFilesSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    input.value = '';
+
+    if (!this.isAdmin() || files.length === 0) return;
+
+    this.isRestoring.set(true);
+    try {
+      this.backupValidation.set(await this.backupService.validateBackup(files));
+      this.showRestoreDialog.set(true);
+    } catch (error) {
+      console.error('❌ Erro ao validar backup:', error);
+      this.showErrorMessage('Não foi possível ler o arquivo selecionado.');
+    } finally {
+      this.isRestoring.set(false);
+    }
+  }
+
+  closeRestoreDialog(): void {
+    if (this.isRestoring()) return;
+    this.showRestoreDialog.set(false);
+    this.backupValidation.set(null);
+  }
+
+  /**
+   * Substitui o banco atual pelo backup (após confirmação no dialog)
+   * Recarrega a aplicação para que todas as telas leiam o banco restaurado
+   */
+  async confirmRestore(): Promise<void> {
+    const validation = this.backupValidation();
+    if (!validation?.isValid || !this.isAdmin()) return;
+
+    this.isRestoring.set(true);
+    try {
+      const migrated = await this.backupService.restoreBackup(validation);
+      this.showRestoreDialog.set(false);
+      this.backupValidation.set(null);
+
+      if (!migrated) {
+        this.showErrorMessage('Backup restaurado, mas a atualização do schema falhou. Verifique os detalhes nesta tela.');
+        this.updateDatabaseStats();
+        return;
+      }
+
+      this.showSuccessMessage('Backup restaurado com sucesso! A aplicação será recarregada.');
+      setTimeout(() => window.location.reload(), 1500);
+    } catch (error) {
+      console.error('❌ Erro ao restaurar backup:', error);
+      this.showErrorMessage('Não foi possível restaurar o backup. O banco atual foi mantido.');
+    } finally {
+      this.isRestoring.set(false);
+    }
+  }
+
   // ==================== MENSAGENS ====================
 
   private showSuccessMessage(detail: string, summary: string = 'Sucesso'): void {
@@ -169,6 +333,12 @@ export class SettingsAdminComponent implements OnInit {
     return value.toLocaleString('pt-BR');
   }
 
+  formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
   getDatabaseStatus(): string {
     if (!this.dbReady()) {
       return 'Inicializando...';
@@ -0,0 +1,203 @@
+import { Component, computed, effect, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+// PrimeNG
+import { ButtonModule } from 'primeng/button';
+import { CheckboxModule } from 'primeng/checkbox';
+import { ConfirmDialogModule } from 'primeng/confirmdialog';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { TableModule } from 'primeng/table';
+import { ToastModule } from 'primeng/toast';
+import { ConfirmationService, MessageService } from 'primeng/api';
+
+// App
+import { DatabaseService } from '../../core/services/database';
+import { SalesArchiveService } from '../../core/services/sales-archive.service';
+import {
+  DEFAULT_ARCHIVE_MONTHS,
+  SalesArchive,
+  SalesArchiveCriteria,
+  SalesArchivePreview
+} from '../../core/models/archive.model';
+
+/**
+ * Arquivamento de vendas antigas (somente admin)
+ * Move vendas de eventos finalizados e/ou mais antigas que N meses para
+ * arquivos compactados, que os relatórios carregam sob demanda.
+ */
+@Component({
+  selector: 'app-settings-archive',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    ButtonModule,
+    CheckboxModule,
+    ConfirmDialogModule,
+    InputNumberModule,
+    TableModule,
+    ToastModule
+  ],
+  providers: [ConfirmationService, MessageService],
+  templateUrl: './settings-archive.html',
+  styleUrls: ['./settings-archive.scss']
+})
+export class SettingsArchiveComponent {
+  // ==================== INJEÇÃO DE DEPENDÊNCIAS ====================
+  private readonly dbService = inject(DatabaseService);
+  private readonly archiveService = inject(SalesArchiveService);
+  private readonly confirmationService = inject(ConfirmationService);
+  private readonly messageService = inject(MessageService);
+
+  readonly available = this.archiveService.isAvailable();
+
+  // ==================== SIGNALS ====================
+  readonly archives = this.archiveService.archives;
+  readonly preview = signal<SalesArchivePreview | null>(null);
+  readonly isWorking = signal<boolean>(false);
+
+  readonly totalArchivedSales = computed(() =>
+    this.archives().reduce((sum, archive) => sum + archive.num_sales_count, 0)
+  );
+  readonly totalSizeBytes = computed(() =>
+    this.archives().reduce((sum, archive) => sum + archive.num_size_bytes, 0)
+  );
+
+  /**
+   * Critérios (ngModel)
+   */
+  finalizedEvents = true;
+  useMonths = true;
+  olderThanMonths = DEFAULT_ARCHIVE_MONTHS;
+
+  constructor() {
+    effect(() => {
+      if (this.dbService.isDbReady()) {
+        this.archiveService.refresh();
+        this.updatePreview();
+      }
+    });
+  }
+
+  // ==================== PRÉVIA ====================
+
+  updatePreview(): void {
+    const criteria = this.buildCriteria();
+    if (!criteria) {
+      this.preview.set(null);
+      return;
+    }
+
+    try {
+      this.preview.set(this.archiveService.preview(criteria));
+    } catch (error) {
+      console.error('❌ Erro ao calcular prévia do arquivamento:', error);
+      this.preview.set(null);
+    }
+  }
+
+  // ==================== AÇÕES ====================
+
+  confirmArchive(): void {
+    const criteria = this.buildCriteria();
+    const preview = this.preview();
+    if (!criteria || !preview || preview.salesCount === 0) return;
+
+    this.confirmationService.confirm({
+      message: `Mover ${preview.salesCount} venda(s) de ${this.formatDate(preview.firstSale)} a ${this.formatDate(preview.lastSale)} ` +
+        'para um arquivo compactado? Elas saem do banco e continuam disponíveis nos relatórios ao carregar o arquivo.',
+      header: 'Arquivar Vendas',
+      icon: 'pi pi-box',
+      acceptLabel: 'Sim, arquivar',
+      rejectLabel: 'Cancelar',
+      accept: () => {
+        void this.archive(criteria);
+      }
+    });
+  }
+
+  async download(archive: SalesArchive): Promise<void> {
+    try {
+      await this.archiveService.downloadArchive(archive);
+    } catch (error: any) {
+      console.error('❌ Erro ao baixar arquivo de vendas:', error);
+      this.showError(error?.message || 'Não foi possível baixar o arquivo.');
+    }
+  }
+
+  confirmDelete(archive: SalesArchive): void {
+    this.confirmationService.confirm({
+      message: `Excluir o arquivo de ${this.formatDate(archive.dt_created_at)}? ` +
+        `As ${archive.num_sales_count} venda(s) dele serão apagadas definitivamente. Baixe o arquivo antes se quiser guardá-lo.`,
+      header: 'Excluir Arquivo de Vendas',
+      icon: 'pi pi-exclamation-triangle',
+      acceptLabel: 'Sim, excluir',
+      rejectLabel: 'Cancelar',
+      acceptButtonStyleClass: 'p-button-danger',
+      accept: () => {
+        void this.delete(archive);
+      }
+    });
+  }
+
+  private async archive(criteria: SalesArchiveCriteria): Promise<void> {
+    this.isWorking.set(true);
+    try {
+      const archive = await this.archiveService.createArchive(criteria);
+      if (archive) {
+        this.showSuccess(`${archive.num_sales_count} venda(s) arquivada(s) (${this.formatBytes(archive.num_size_bytes)}).`);
+      } else {
+        this.showError('Nenhuma venda atende aos critérios.');
+      }
+    } catch (error: any) {
+      console.error('❌ Erro ao arquivar vendas:', error);
+      this.showError(error?.message || 'Não foi possível arquivar as vendas.');
+    } finally {
+      this.isWorking.set(false);
+      this.updatePreview();
+    }
+  }
+
+  private async delete(archive: SalesArchive): Promise<void> {
+    this.isWorking.set(true);
+    try {
+      await this.archiveService.deleteArchive(archive);
+      this.showSuccess('Arquivo de vendas excluído.');
+    } catch (error: any) {
+      console.error('❌ Erro ao excluir arquivo de vendas:', error);
+      this.showError(error?.message || 'Não foi possível excluir o arquivo.');
+    } finally {
+      this.isWorking.set(false);
+    }
+  }
+
+  // ==================== UTILIDADES ====================
+
+  private buildCriteria(): SalesArchiveCriteria | null {
+    const olderThanMonths = this.useMonths && this.olderThanMonths > 0 ? this.olderThanMonths : null;
+    if (!this.finalizedEvents && olderThanMonths === null) return null;
+
+    return { finalizedEvents: this.finalizedEvents, olderThanMonths };
+  }
+
+  formatDate(iso: string | null): string {
+    return iso ? new Date(iso).toLocaleDateString('pt-BR') : '-';
+  }
+
+  formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  // ==================== MENSAGENS ====================
+
+  private showSuccess(detail: string): void {
+    this.messageService.add({ severity: 'success', summary: 'Sucesso', detail, life: 4000 });
+  }
+
+  private showError(detail: string): void {
+    this.messageService.add({ severity: 'error', summary: 'Erro', detail, life: 5000 });
+  }
+}
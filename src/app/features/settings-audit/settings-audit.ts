@@ -0,0 +1,210 @@
+import { Component, inject, signal, effect } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+// PrimeNG
+import { ButtonModule } from 'primeng/button';
+import { DatePickerModule } from 'primeng/datepicker';
+import { DialogModule } from 'primeng/dialog';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { SelectModule } from 'primeng/select';
+import { TableModule } from 'primeng/table';
+import { TagModule } from 'primeng/tag';
+import { ToastModule } from 'primeng/toast';
+import { MessageService } from 'primeng/api';
+
+// App
+import { DatabaseService } from '../../core/services/database';
+import { AuditRepository } from '../../core/repositories/audit.repository';
+import {
+  AUDIT_PAGE_LIMIT,
+  AuditAction,
+  AuditFieldChange,
+  AuditLogEntry,
+  AuditRetentionConfig,
+  DEFAULT_AUDIT_RETENTION,
+  MIN_AUDIT_MAX_ROWS,
+  diffAuditEntry
+} from '../../core/models/audit.model';
+
+/**
+ * Rótulos e cores das operações auditadas
+ */
+const AUDIT_ACTION_LABELS: Record<AuditAction, { label: string; severity: 'success' | 'info' | 'danger' }> = {
+  INSERT: { label: 'Inclusão', severity: 'success' },
+  UPDATE: { label: 'Alteração', severity: 'info' },
+  DELETE: { label: 'Exclusão', severity: 'danger' }
+};
+
+/**
+ * Tela de auditoria (somente admin)
+ * Lista quem alterou o quê, quando e em qual tela, com o antes/depois
+ * de cada registro. Filtros por usuário, tabela e período.
+ */
+@Component({
+  selector: 'app-settings-audit',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    ButtonModule,
+    DatePickerModule,
+    DialogModule,
+    InputNumberModule,
+    SelectModule,
+    TableModule,
+    TagModule,
+    ToastModule
+  ],
+  providers: [MessageService],
+  templateUrl: './settings-audit.html',
+  styleUrls: ['./settings-audit.scss']
+})
+export class SettingsAuditComponent {
+  // ==================== INJEÇÃO DE DEPENDÊNCIAS ====================
+  private readonly dbService = inject(DatabaseService);
+  private readonly auditRepository = inject(AuditRepository);
+  private readonly messageService = inject(MessageService);
+
+  readonly pageLimit = AUDIT_PAGE_LIMIT;
+  readonly minMaxRows = MIN_AUDIT_MAX_ROWS;
+
+  // ==================== SIGNALS ====================
+  readonly entries = signal<AuditLogEntry[]>([]);
+  readonly usernames = signal<string[]>([]);
+  readonly tables = signal<string[]>([]);
+  readonly isLoading = signal<boolean>(false);
+  readonly selectedEntry = signal<AuditLogEntry | null>(null);
+  readonly selectedChanges = signal<AuditFieldChange[]>([]);
+
+  /**
+   * Filtros (ngModel)
+   */
+  username: string | null = null;
+  table: string | null = null;
+  startDate: Date | null = null;
+  endDate: Date | null = null;
+
+  /**
+   * Retenção (ngModel)
+   */
+  retention: AuditRetentionConfig = { ...DEFAULT_AUDIT_RETENTION };
+
+  showDetailsDialog = false;
+
+  constructor() {
+    effect(() => {
+      if (this.dbService.isDbReady()) {
+        this.dbService.remoteChanges();
+        this.loadRetention();
+        this.loadEntries();
+      }
+    });
+  }
+
+  // ==================== CARREGAMENTO ====================
+
+  async loadEntries(): Promise<void> {
+    this.isLoading.set(true);
+    try {
+      const [entries, usernames, tables] = await Promise.all([
+        this.auditRepository.find({
+          username: this.username,
+          table: this.table,
+          startDate: this.startDate,
+          endDate: this.endDate ? this.endOfDay(this.endDate) : null
+        }),
+        this.auditRepository.findUsernames(),
+        this.auditRepository.findTables()
+      ]);
+
+      this.entries.set(entries);
+      this.usernames.set(usernames);
+      this.tables.set(tables);
+    } catch (error) {
+      console.error('❌ Erro ao carregar auditoria:', error);
+      this.showError('Não foi possível carregar a auditoria.');
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  loadRetention(): void {
+    try {
+      this.retention = this.auditRepository.getRetention();
+    } catch (error) {
+      console.error('❌ Erro ao carregar retenção da auditoria:', error);
+    }
+  }
+
+  saveRetention(): void {
+    try {
+      this.auditRepository.saveRetention(this.retention);
+      this.showSuccess('Retenção da auditoria atualizada.');
+    } catch (error: any) {
+      console.error('❌ Erro ao salvar retenção da auditoria:', error);
+      this.showError(error.message || 'Não foi possível salvar a retenção.');
+    }
+  }
+
+  clearFilters(): void {
+    this.username = null;
+    this.table = null;
+    this.startDate = null;
+    this.endDate = null;
+    this.loadEntries();
+  }
+
+  // ==================== DETALHES ====================
+
+  openDetails(entry: AuditLogEntry): void {
+    this.selectedChanges.set(diffAuditEntry(entry));
+    this.selectedEntry.set(entry);
+    this.showDetailsDialog = true;
+  }
+
+  // ==================== UTILIDADES ====================
+
+  getActionLabel(action: AuditAction): string {
+    return AUDIT_ACTION_LABELS[action].label;
+  }
+
+  getActionSeverity(action: AuditAction): 'success' | 'info' | 'danger' {
+    return AUDIT_ACTION_LABELS[action].severity;
+  }
+
+  formatDate(iso: string): string {
+    return new Date(iso).toLocaleString('pt-BR');
+  }
+
+  formatValue(value: unknown): string {
+    if (value === null || value === undefined) return '—';
+    return String(value);
+  }
+
+  /**
+   * Resumo das colunas alteradas (coluna da tabela)
+   */
+  summarize(entry: AuditLogEntry): string {
+    if (entry.desc_action !== 'UPDATE') {
+      return `#${entry.num_row_id ?? '?'}`;
+    }
+    return diffAuditEntry(entry).map(change => change.column).join(', ');
+  }
+
+  private endOfDay(date: Date): Date {
+    const end = new Date(date);
+    end.setHours(23, 59, 59, 999);
+    return end;
+  }
+
+  // ==================== MENSAGENS ====================
+
+  private showSuccess(detail: string): void {
+    this.messageService.add({ severity: 'success', summary: 'Sucesso', detail, life: 3000 });
+  }
+
+  private showError(detail: string): void {
+    this.messageService.add({ severity: 'error', summary: 'Erro', detail, life: 5000 });
+  }
+}
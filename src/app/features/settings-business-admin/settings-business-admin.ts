@@ -74,7 +74,7 @@ export class SettingsBusinessAdminComponent implements OnInit, OnDestroy {
 
   // ==================== SIGNALS ====================
   readonly empresas = signal<BusinessDisplay[]>([]);
-  readonly gestores = signal<any[]>([]);
+  readonly gestores = signal<{ label: string; value: number }[]>([]);
   readonly showDialog = signal<boolean>(false);
   readonly isLoading = signal<boolean>(false);
   readonly isEditing = signal<boolean>(false);
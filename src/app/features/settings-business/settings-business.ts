@@ -12,6 +12,7 @@ import { MessageService } from 'primeng/api';
 import { TagModule } from 'primeng/tag';
 import { TextareaModule } from 'primeng/textarea';
 import { TooltipModule } from 'primeng/tooltip';
+import { SelectButtonModule } from 'primeng/selectbutton';
 
 // App
 import {
@@ -25,6 +26,8 @@ import {
 } from '../../core/models/beer.model';
 import { DatabaseService, EMAIL_CONFIG } from '../../core/services/database';
 import { ClientConfigService } from '../../core/services/client-config.service';
+import { PixMerchant, isPixMerchantConfigured } from '../../core/models/pix.model';
+import { RECEIPT_PAPER_WIDTHS, ReceiptPaperWidth } from '../../core/models/receipt.model';
 
 @Component({
   selector: 'app-settings-business',
@@ -39,7 +42,8 @@ import { ClientConfigService } from '../../core/services/client-config.service';
     TextareaModule,
     ToastModule,
     TagModule,
-    TooltipModule
+    TooltipModule,
+    SelectButtonModule
   ],
   providers: [MessageService],
   templateUrl: './settings-business.html',
@@ -65,6 +69,18 @@ export class SettingsBusinessComponent implements OnInit, OnDestroy {
   readonly isDragging = signal<boolean>(false);
   companyNameInput = '';
 
+  // ==================== PIX ====================
+  readonly MAX_PIX_MERCHANT_NAME = 25;
+  readonly MAX_PIX_MERCHANT_CITY = 15;
+  pixKeyInput = '';
+  pixMerchantNameInput = '';
+  pixMerchantCityInput = '';
+  readonly isPixConfigured = signal<boolean>(false);
+
+  // ==================== RECIBOS ====================
+  readonly receiptWidthOptions = RECEIPT_PAPER_WIDTHS.map(width => ({ label: `${width} mm`, value: width }));
+  readonly receiptWidth = signal<ReceiptPaperWidth>(80);
+
   // ==================== FORMULÁRIO REATIVO ====================
   readonly settingsForm: FormGroup;
 
@@ -172,6 +188,9 @@ export class SettingsBusinessComponent implements OnInit, OnDestroy {
    * Carrega as configurações do banco de dados
    */
   loadSettings(): void {
+    this.loadPixConfig();
+    this.receiptWidth.set(this.clientConfigService.getReceiptWidth());
+
     try {
       const result = this.dbService.executeQuery(
         'SELECT num_id, desc_email, num_is_configured FROM config_settings LIMIT 1'
@@ -564,6 +583,74 @@ export class SettingsBusinessComponent implements OnInit, OnDestroy {
     }
   }
 
+  // ==================== MÉTODOS DE PIX ====================
+
+  /**
+   * Carrega o recebedor PIX nos campos do formulário
+   */
+  private loadPixConfig(): void {
+    const config = this.clientConfigService.getConfig();
+    this.pixKeyInput = config?.desc_pix_key ?? '';
+    this.pixMerchantNameInput = config?.desc_pix_merchant_name ?? '';
+    this.pixMerchantCityInput = config?.desc_pix_merchant_city ?? '';
+    this.isPixConfigured.set(this.clientConfigService.getPixMerchant() !== null);
+  }
+
+  /**
+   * Salva chave, nome e cidade do recebedor PIX
+   */
+  savePixConfig(): void {
+    const merchant: PixMerchant = {
+      key: this.pixKeyInput,
+      name: this.pixMerchantNameInput,
+      city: this.pixMerchantCityInput
+    };
+
+    if (!isPixMerchantConfigured(merchant)) {
+      this.showErrorMessage('Informe chave, nome e cidade do recebedor PIX.');
+      return;
+    }
+
+    try {
+      this.clientConfigService.updatePixConfig(merchant);
+      this.loadPixConfig();
+      this.showSuccessMessage('Recebedor PIX salvo com sucesso!');
+    } catch (error) {
+      console.error('❌ Erro ao salvar PIX:', error);
+      this.showErrorMessage('Erro ao salvar recebedor PIX.');
+    }
+  }
+
+  /**
+   * Remove o recebedor PIX (o caixa deixa de gerar QR Code)
+   */
+  removePixConfig(): void {
+    try {
+      this.clientConfigService.updatePixConfig({ key: '', name: '', city: '' });
+      this.loadPixConfig();
+      this.showSuccessMessage('Recebedor PIX removido.');
+    } catch (error) {
+      console.error('❌ Erro ao remover PIX:', error);
+      this.showErrorMessage('Erro ao remover recebedor PIX.');
+    }
+  }
+
+  // ==================== MÉTODOS DE RECIBO ====================
+
+  /**
+   * Salva a largura da bobina da impressora de recibos
+   */
+  saveReceiptWidth(width: ReceiptPaperWidth): void {
+    try {
+      this.clientConfigService.updateReceiptWidth(width);
+      this.receiptWidth.set(width);
+      this.showSuccessMessage(`Recibos configurados para bobina de ${width} mm.`);
+    } catch (error) {
+      console.error('❌ Erro ao salvar largura da bobina:', error);
+      this.showErrorMessage('Erro ao salvar largura da bobina.');
+    }
+  }
+
   /**
    * Formata o tamanho do arquivo em formato legível
    */
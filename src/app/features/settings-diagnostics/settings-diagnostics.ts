@@ -0,0 +1,136 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+// PrimeNG
+import { ButtonModule } from 'primeng/button';
+import { DialogModule } from 'primeng/dialog';
+import { TagModule } from 'primeng/tag';
+import { ToastModule } from 'primeng/toast';
+import { MessageService } from 'primeng/api';
+
+// App
+import { DatabaseService } from '../../core/services/database';
+import { DiagnosticsRepository } from '../../core/repositories/diagnostics.repository';
+import {
+  DiagnosticIssue,
+  DiagnosticRepairResult,
+  DiagnosticReport,
+  DiagnosticSeverity
+} from '../../core/models/diagnostics.model';
+
+/**
+ * Tela de diagnóstico do banco (somente admin)
+ * Executa as verificações de integridade, lista os problemas encontrados
+ * e aplica reparos guiados, registrando o que foi alterado em cada um.
+ */
+@Component({
+  selector: 'app-settings-diagnostics',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ButtonModule,
+    DialogModule,
+    TagModule,
+    ToastModule
+  ],
+  providers: [MessageService],
+  templateUrl: './settings-diagnostics.html',
+  styleUrls: ['./settings-diagnostics.scss']
+})
+export class SettingsDiagnosticsComponent {
+  // ==================== INJEÇÃO DE DEPENDÊNCIAS ====================
+  private readonly dbService = inject(DatabaseService);
+  private readonly diagnosticsRepository = inject(DiagnosticsRepository);
+  private readonly messageService = inject(MessageService);
+
+  // ==================== SIGNALS ====================
+  readonly report = signal<DiagnosticReport | null>(null);
+  readonly repairs = signal<DiagnosticRepairResult[]>([]);
+  readonly isChecking = signal<boolean>(false);
+  readonly isRepairing = signal<boolean>(false);
+  readonly pendingRepair = signal<DiagnosticIssue | null>(null);
+
+  readonly errorCount = computed(() =>
+    this.report()?.issues.filter(issue => issue.severity === 'error').length ?? 0
+  );
+
+  showRepairDialog = false;
+
+  // ==================== DIAGNÓSTICO ====================
+
+  runDiagnostics(): void {
+    if (!this.dbService.isDbReady()) {
+      this.showError('Banco de dados não está pronto.');
+      return;
+    }
+
+    this.isChecking.set(true);
+    try {
+      const report = this.diagnosticsRepository.runDiagnostics();
+      this.report.set(report);
+      console.log(`ℹ️ Diagnóstico: ${report.issues.length} problema(s) encontrado(s)`);
+    } catch (error) {
+      console.error('❌ Erro ao executar diagnóstico:', error);
+      this.showError('Não foi possível executar o diagnóstico.');
+    } finally {
+      this.isChecking.set(false);
+    }
+  }
+
+  // ==================== REPARO ====================
+
+  confirmRepair(issue: DiagnosticIssue): void {
+    this.pendingRepair.set(issue);
+    this.showRepairDialog = true;
+  }
+
+  /**
+   * Grava um snapshot de segurança, aplica o reparo e refaz o diagnóstico
+   */
+  async repair(): Promise<void> {
+    const issue = this.pendingRepair();
+    if (!issue) return;
+
+    this.isRepairing.set(true);
+    try {
+      await this.dbService.createSnapshot('pre_repair');
+
+      const result = this.diagnosticsRepository.repair(issue.check);
+      this.repairs.update(repairs => [result, ...repairs]);
+      this.showSuccess(`${result.title}: ${result.changes.length} alteração(ões).`);
+
+      this.showRepairDialog = false;
+      this.pendingRepair.set(null);
+      this.runDiagnostics();
+    } catch (error: any) {
+      console.error('❌ Erro ao aplicar reparo:', error);
+      this.showError(error?.message || 'Não foi possível aplicar o reparo.');
+    } finally {
+      this.isRepairing.set(false);
+    }
+  }
+
+  // ==================== UTILIDADES ====================
+
+  getSeverityLabel(severity: DiagnosticSeverity): string {
+    return severity === 'error' ? 'Erro' : 'Atenção';
+  }
+
+  getSeverityTag(severity: DiagnosticSeverity): 'danger' | 'warn' {
+    return severity === 'error' ? 'danger' : 'warn';
+  }
+
+  formatDate(iso: string): string {
+    return new Date(iso).toLocaleString('pt-BR');
+  }
+
+  // ==================== MENSAGENS ====================
+
+  private showSuccess(detail: string): void {
+    this.messageService.add({ severity: 'success', summary: 'Sucesso', detail, life: 4000 });
+  }
+
+  private showError(detail: string): void {
+    this.messageService.add({ severity: 'error', summary: 'Erro', detail, life: 5000 });
+  }
+}
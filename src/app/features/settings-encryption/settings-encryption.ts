@@ -0,0 +1,157 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+// PrimeNG
+import { ButtonModule } from 'primeng/button';
+import { DialogModule } from 'primeng/dialog';
+import { PasswordModule } from 'primeng/password';
+import { ToastModule } from 'primeng/toast';
+import { MessageService } from 'primeng/api';
+
+// App
+import { DatabaseService } from '../../core/services/database';
+import { MIN_PASSPHRASE_LENGTH } from '../../core/services/db-crypto';
+
+/**
+ * Criptografia do banco em repouso (somente admin)
+ * Ativa/desativa a criptografia, troca a senha e rotaciona a chave.
+ * O código de recuperação é exibido uma única vez após ativar ou rotacionar.
+ */
+@Component({
+  selector: 'app-settings-encryption',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    ButtonModule,
+    DialogModule,
+    PasswordModule,
+    ToastModule
+  ],
+  providers: [MessageService],
+  templateUrl: './settings-encryption.html',
+  styleUrls: ['./settings-encryption.scss']
+})
+export class SettingsEncryptionComponent {
+  // ==================== INJEÇÃO DE DEPENDÊNCIAS ====================
+  private readonly dbService = inject(DatabaseService);
+  private readonly messageService = inject(MessageService);
+
+  readonly minLength = MIN_PASSPHRASE_LENGTH;
+  readonly supported = this.dbService.encryptionSupported();
+
+  // ==================== SIGNALS ====================
+  readonly isEnabled = computed(() => this.dbService.encryptionState() !== 'disabled');
+  readonly isWorking = signal<boolean>(false);
+  readonly recoveryCode = signal<string | null>(null);
+
+  /**
+   * Campos (ngModel)
+   */
+  passphrase = '';
+  newPassphrase = '';
+  confirmPassphrase = '';
+
+  showRecoveryDialog = false;
+
+  // ==================== AÇÕES ====================
+
+  async enable(): Promise<void> {
+    if (!this.checkConfirmation(this.passphrase)) return;
+
+    await this.run(async () => {
+      this.showRecoveryCode(await this.dbService.enableEncryption(this.passphrase));
+      this.showSuccess('Criptografia ativada. Guarde o código de recuperação.');
+    });
+  }
+
+  async changePassphrase(): Promise<void> {
+    if (!this.passphrase || !this.checkConfirmation(this.newPassphrase)) return;
+
+    await this.run(async () => {
+      await this.dbService.changeEncryptionPassphrase(this.passphrase, this.newPassphrase);
+      this.showSuccess('Senha do banco alterada.');
+    });
+  }
+
+  async rotateKey(): Promise<void> {
+    if (!this.passphrase) return;
+
+    await this.run(async () => {
+      this.showRecoveryCode(await this.dbService.rotateEncryptionKey(this.passphrase));
+      this.showSuccess('Chave rotacionada. O código de recuperação anterior deixou de valer.');
+    });
+  }
+
+  async disable(): Promise<void> {
+    if (!this.passphrase) return;
+
+    await this.run(async () => {
+      await this.dbService.disableEncryption(this.passphrase);
+      this.showSuccess('Criptografia desativada.');
+    });
+  }
+
+  async copyRecoveryCode(): Promise<void> {
+    const code = this.recoveryCode();
+    if (!code) return;
+
+    try {
+      await navigator.clipboard.writeText(code);
+      this.showSuccess('Código copiado.');
+    } catch (error) {
+      console.error('❌ Erro ao copiar código de recuperação:', error);
+      this.showError('Não foi possível copiar. Anote o código manualmente.');
+    }
+  }
+
+  closeRecoveryDialog(): void {
+    this.showRecoveryDialog = false;
+    this.recoveryCode.set(null);
+  }
+
+  // ==================== UTILIDADES ====================
+
+  private checkConfirmation(passphrase: string): boolean {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      this.showError(`A senha do banco deve ter ao menos ${MIN_PASSPHRASE_LENGTH} caracteres.`);
+      return false;
+    }
+    if (passphrase !== this.confirmPassphrase) {
+      this.showError('A confirmação não confere com a senha.');
+      return false;
+    }
+    return true;
+  }
+
+  private showRecoveryCode(code: string): void {
+    this.recoveryCode.set(code);
+    this.showRecoveryDialog = true;
+  }
+
+  private async run(action: () => Promise<void>): Promise<void> {
+    this.isWorking.set(true);
+    try {
+      await action();
+      this.passphrase = '';
+      this.newPassphrase = '';
+      this.confirmPassphrase = '';
+    } catch (error: any) {
+      console.error('❌ Erro na criptografia do banco:', error);
+      this.showError(error?.message || 'Não foi possível concluir a operação.');
+    } finally {
+      this.isWorking.set(false);
+    }
+  }
+
+  // ==================== MENSAGENS ====================
+
+  private showSuccess(detail: string): void {
+    this.messageService.add({ severity: 'success', summary: 'Sucesso', detail, life: 4000 });
+  }
+
+  private showError(detail: string): void {
+    this.messageService.add({ severity: 'error', summary: 'Erro', detail, life: 5000 });
+  }
+}
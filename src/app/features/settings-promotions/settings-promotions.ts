@@ -0,0 +1,313 @@
+// src/app/features/settings-promotions/settings-promotions.ts
+import { Component, computed, effect, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+// PrimeNG
+import { ButtonModule } from 'primeng/button';
+import { CheckboxModule } from 'primeng/checkbox';
+import { ConfirmDialogModule } from 'primeng/confirmdialog';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { InputTextModule } from 'primeng/inputtext';
+import { SelectModule } from 'primeng/select';
+import { SelectButtonModule } from 'primeng/selectbutton';
+import { TagModule } from 'primeng/tag';
+import { ToastModule } from 'primeng/toast';
+import { ConfirmationService, MessageService } from 'primeng/api';
+
+// App
+import { DatabaseService } from '../../core/services/database';
+import { EventService } from '../../core/services/event.service';
+import { BeerRepository } from '../../core/repositories/beer.repository';
+import { CupSizeRepository } from '../../core/repositories/cup-size.repository';
+import { PromotionRepository } from '../../core/repositories/promotion.repository';
+import { BeerType } from '../../core/models/beer.model';
+import { CupSizeConfig } from '../../core/models/cup-size.model';
+import {
+  PROMOTION_TYPE_LABELS,
+  Promotion,
+  PromotionDto,
+  PromotionType
+} from '../../core/models/promotion.model';
+
+/**
+ * Formulário de promoção (ngModel)
+ */
+interface PromotionForm {
+  name: string;
+  type: PromotionType;
+  value: number | null;
+  buyQty: number | null;
+  freeQty: number | null;
+  eventId: number | null;
+  beerId: number | null;
+  cupSizeId: number | null;
+  startsAt: string;                // AAAA-MM-DD (input date)
+  endsAt: string;
+  startTime: string;               // HH:MM (input time)
+  endTime: string;
+  weekdays: number[];
+  stackable: boolean;
+  active: boolean;
+}
+
+const WEEKDAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+/**
+ * Cadastro de promoções (happy hour, leve X ganhe Y, descontos percentuais)
+ * As regras são aplicadas pela tela de vendas no momento da venda.
+ */
+@Component({
+  selector: 'app-settings-promotions',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    ButtonModule,
+    CheckboxModule,
+    ConfirmDialogModule,
+    InputNumberModule,
+    InputTextModule,
+    SelectModule,
+    SelectButtonModule,
+    TagModule,
+    ToastModule
+  ],
+  providers: [ConfirmationService, MessageService],
+  templateUrl: './settings-promotions.html',
+  styleUrls: ['./settings-promotions.scss']
+})
+export class SettingsPromotionsComponent {
+  // ==================== INJEÇÃO DE DEPENDÊNCIAS ====================
+  private readonly dbService = inject(DatabaseService);
+  private readonly eventService = inject(EventService);
+  private readonly beerRepository = inject(BeerRepository);
+  private readonly cupSizeRepository = inject(CupSizeRepository);
+  private readonly promotionRepository = inject(PromotionRepository);
+  private readonly confirmationService = inject(ConfirmationService);
+  private readonly messageService = inject(MessageService);
+
+  // ==================== OPÇÕES ====================
+  readonly typeOptions = (Object.keys(PROMOTION_TYPE_LABELS) as PromotionType[])
+    .map(type => ({ label: PROMOTION_TYPE_LABELS[type], value: type }));
+  readonly weekdayOptions = WEEKDAY_LABELS.map((label, value) => ({ label, value }));
+
+  // ==================== SIGNALS ====================
+  readonly promotions = signal<Promotion[]>([]);
+  readonly beers = signal<BeerType[]>([]);
+  readonly cupSizes = signal<CupSizeConfig[]>([]);
+  readonly editingId = signal<number | null>(null);
+  readonly isFormOpen = signal<boolean>(false);
+
+  readonly eventOptions = computed(() =>
+    this.eventService.events().map(event => ({ label: event.desc_name_event, value: event.num_id }))
+  );
+
+  form: PromotionForm = this.emptyForm();
+
+  constructor() {
+    effect(() => {
+      if (this.dbService.isDbReady()) {
+        this.dbService.remoteChanges();
+        this.loadData();
+      }
+    });
+  }
+
+  // ==================== CARREGAMENTO ====================
+
+  loadData(): void {
+    try {
+      this.promotions.set(this.promotionRepository.findAll());
+      this.beers.set(this.beerRepository.findAll());
+      this.cupSizes.set(this.cupSizeRepository.findAll());
+    } catch (error) {
+      console.error('❌ Erro ao carregar promoções:', error);
+      this.showError('Não foi possível carregar as promoções.');
+    }
+  }
+
+  // ==================== FORMULÁRIO ====================
+
+  openNew(): void {
+    this.form = this.emptyForm();
+    this.editingId.set(null);
+    this.isFormOpen.set(true);
+  }
+
+  edit(promotion: Promotion): void {
+    this.form = {
+      name: promotion.desc_name,
+      type: promotion.desc_type,
+      value: promotion.num_value,
+      buyQty: promotion.num_buy_qty,
+      freeQty: promotion.num_free_qty,
+      eventId: promotion.num_event_id,
+      beerId: promotion.num_beer_id,
+      cupSizeId: promotion.num_cup_size_id,
+      startsAt: promotion.dt_starts_at ?? '',
+      endsAt: promotion.dt_ends_at ?? '',
+      startTime: promotion.desc_start_time ?? '',
+      endTime: promotion.desc_end_time ?? '',
+      weekdays: promotion.desc_weekdays ? promotion.desc_weekdays.split(',').map(Number) : [],
+      stackable: promotion.int_stackable === 1,
+      active: promotion.int_active === 1
+    };
+    this.editingId.set(promotion.num_id);
+    this.isFormOpen.set(true);
+  }
+
+  cancel(): void {
+    this.isFormOpen.set(false);
+    this.editingId.set(null);
+  }
+
+  save(): void {
+    const dto = this.toDto(this.form);
+    const id = this.editingId();
+
+    try {
+      if (id === null) {
+        this.promotionRepository.create(dto);
+      } else {
+        this.promotionRepository.update(id, dto);
+      }
+      this.showSuccess(`Promoção "${dto.desc_name}" salva.`);
+      this.cancel();
+      this.loadData();
+    } catch (error: any) {
+      console.error('❌ Erro ao salvar promoção:', error);
+      this.showError(error?.message || 'Não foi possível salvar a promoção.');
+    }
+  }
+
+  toggleActive(promotion: Promotion): void {
+    try {
+      this.promotionRepository.setActive(promotion.num_id, promotion.int_active !== 1);
+      this.loadData();
+    } catch (error) {
+      console.error('❌ Erro ao alterar promoção:', error);
+      this.showError('Não foi possível alterar a promoção.');
+    }
+  }
+
+  confirmDelete(promotion: Promotion): void {
+    this.confirmationService.confirm({
+      message: `Excluir a promoção "${promotion.desc_name}"? As vendas já registradas mantêm o desconto.`,
+      header: 'Excluir Promoção',
+      icon: 'pi pi-exclamation-triangle',
+      acceptLabel: 'Sim, excluir',
+      rejectLabel: 'Cancelar',
+      acceptButtonStyleClass: 'p-button-danger',
+      accept: () => {
+        try {
+          this.promotionRepository.delete(promotion.num_id);
+          if (this.editingId() === promotion.num_id) this.cancel();
+          this.loadData();
+          this.showSuccess('Promoção excluída.');
+        } catch (error) {
+          console.error('❌ Erro ao excluir promoção:', error);
+          this.showError('Não foi possível excluir a promoção.');
+        }
+      }
+    });
+  }
+
+  // ==================== EXIBIÇÃO ====================
+
+  /**
+   * Resumo da regra e do escopo (ex: "Desconto 20% · 500ml · Sex, Sáb 18:00–20:00")
+   */
+  describe(promotion: Promotion): string {
+    const parts: string[] = [];
+
+    switch (promotion.desc_type) {
+      case 'fixed_price':
+        parts.push(`Copo por R$ ${promotion.num_value.toFixed(2)}`);
+        break;
+      case 'percent':
+        parts.push(`${promotion.num_value}% de desconto`);
+        break;
+      case 'buy_x_get_y':
+        parts.push(`Leve ${(promotion.num_buy_qty ?? 0) + (promotion.num_free_qty ?? 0)}, pague ${promotion.num_buy_qty ?? 0}`);
+        break;
+    }
+
+    if (promotion.num_beer_id !== null) {
+      parts.push(this.beers().find(beer => beer.num_id === promotion.num_beer_id)?.desc_name ?? 'Cerveja removida');
+    }
+    if (promotion.num_cup_size_id !== null) {
+      parts.push(this.cupSizes().find(size => size.num_id === promotion.num_cup_size_id)?.desc_label ?? 'Tamanho removido');
+    }
+    if (promotion.num_event_id !== null) {
+      parts.push(this.eventOptions().find(event => event.value === promotion.num_event_id)?.label ?? 'Evento removido');
+    }
+    if (promotion.desc_weekdays) {
+      parts.push(promotion.desc_weekdays.split(',').map(day => WEEKDAY_LABELS[Number(day)]).join(', '));
+    }
+    if (promotion.desc_start_time && promotion.desc_end_time) {
+      parts.push(`${promotion.desc_start_time}–${promotion.desc_end_time}`);
+    }
+    if (promotion.dt_starts_at || promotion.dt_ends_at) {
+      parts.push(`${this.formatDate(promotion.dt_starts_at) ?? '...'} a ${this.formatDate(promotion.dt_ends_at) ?? '...'}`);
+    }
+
+    return parts.join(' · ');
+  }
+
+  // ==================== UTILIDADES ====================
+
+  private emptyForm(): PromotionForm {
+    return {
+      name: '',
+      type: 'percent',
+      value: null,
+      buyQty: 2,
+      freeQty: 1,
+      eventId: null,
+      beerId: null,
+      cupSizeId: null,
+      startsAt: '',
+      endsAt: '',
+      startTime: '',
+      endTime: '',
+      weekdays: [],
+      stackable: false,
+      active: true
+    };
+  }
+
+  private toDto(form: PromotionForm): PromotionDto {
+    return {
+      desc_name: form.name,
+      desc_type: form.type,
+      num_value: form.type === 'buy_x_get_y' ? 0 : form.value ?? 0,
+      num_buy_qty: form.buyQty,
+      num_free_qty: form.freeQty,
+      num_event_id: form.eventId,
+      num_beer_id: form.beerId,
+      num_cup_size_id: form.cupSizeId,
+      dt_starts_at: form.startsAt || null,
+      dt_ends_at: form.endsAt || null,
+      desc_start_time: form.startTime || null,
+      desc_end_time: form.endTime || null,
+      desc_weekdays: form.weekdays.length > 0 ? [...form.weekdays].sort().join(',') : null,
+      int_stackable: form.stackable ? 1 : 0,
+      int_active: form.active ? 1 : 0
+    };
+  }
+
+  private formatDate(date: string | null): string | null {
+    return date ? date.split('-').reverse().join('/') : null;
+  }
+
+  // ==================== MENSAGENS ====================
+
+  private showSuccess(detail: string): void {
+    this.messageService.add({ severity: 'success', summary: 'Sucesso', detail, life: 4000 });
+  }
+
+  private showError(detail: string): void {
+    this.messageService.add({ severity: 'error', summary: 'Erro', detail, life: 5000 });
+  }
+}
@@ -0,0 +1,213 @@
+import { Component, computed, effect, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+// PrimeNG
+import { ButtonModule } from 'primeng/button';
+import { ConfirmDialogModule } from 'primeng/confirmdialog';
+import { InputTextModule } from 'primeng/inputtext';
+import { SelectModule } from 'primeng/select';
+import { TableModule } from 'primeng/table';
+import { TextareaModule } from 'primeng/textarea';
+import { ToastModule } from 'primeng/toast';
+import { ConfirmationService, MessageService } from 'primeng/api';
+
+// App
+import { DatabaseService } from '../../core/services/database';
+import { SavedQueryRepository } from '../../core/repositories/saved-query.repository';
+import {
+  QUERY_CONSOLE_ROW_LIMIT,
+  QueryConsoleResult,
+  SavedQuery
+} from '../../core/models/query-console.model';
+
+/**
+ * Console SQL somente leitura (somente admin)
+ * Executa consultas SELECT no banco local, exibe o resultado paginado,
+ * guarda consultas com nome e exporta o resultado em CSV.
+ */
+@Component({
+  selector: 'app-settings-query-console',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    ButtonModule,
+    ConfirmDialogModule,
+    InputTextModule,
+    SelectModule,
+    TableModule,
+    TextareaModule,
+    ToastModule
+  ],
+  providers: [ConfirmationService, MessageService],
+  templateUrl: './settings-query-console.html',
+  styleUrls: ['./settings-query-console.scss']
+})
+export class SettingsQueryConsoleComponent {
+  // ==================== INJEÇÃO DE DEPENDÊNCIAS ====================
+  private readonly dbService = inject(DatabaseService);
+  private readonly savedQueryRepository = inject(SavedQueryRepository);
+  private readonly confirmationService = inject(ConfirmationService);
+  private readonly messageService = inject(MessageService);
+
+  readonly rowLimit = QUERY_CONSOLE_ROW_LIMIT;
+
+  // ==================== SIGNALS ====================
+  readonly result = signal<QueryConsoleResult | null>(null);
+  readonly errorMessage = signal<string | null>(null);
+  readonly savedQueries = signal<SavedQuery[]>([]);
+
+  readonly columnIndexes = computed(() =>
+    (this.result()?.columns ?? []).map((_, index) => index)
+  );
+
+  /**
+   * Editor e consulta salva selecionada (ngModel)
+   */
+  sql = 'SELECT name, type FROM sqlite_master ORDER BY type, name';
+  queryName = '';
+  selectedQuery: SavedQuery | null = null;
+
+  constructor() {
+    effect(() => {
+      if (this.dbService.isDbReady()) {
+        this.dbService.remoteChanges();
+        this.loadSavedQueries();
+      }
+    });
+  }
+
+  // ==================== EXECUÇÃO ====================
+
+  run(): void {
+    this.errorMessage.set(null);
+    try {
+      const result = this.dbService.executeReadOnlyQuery(this.sql, QUERY_CONSOLE_ROW_LIMIT);
+      this.result.set(result);
+      console.log(`ℹ️ Console SQL: ${result.rows.length} linha(s) em ${result.durationMs} ms`);
+    } catch (error: any) {
+      console.error('❌ Erro ao executar consulta do console:', error);
+      this.result.set(null);
+      this.errorMessage.set(error?.message || String(error));
+    }
+  }
+
+  /**
+   * Ctrl+Enter no editor executa a consulta
+   */
+  onEditorKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      this.run();
+    }
+  }
+
+  // ==================== CONSULTAS SALVAS ====================
+
+  loadSavedQueries(): void {
+    try {
+      this.savedQueries.set(this.savedQueryRepository.findAll());
+    } catch (error) {
+      console.error('❌ Erro ao carregar consultas salvas:', error);
+      this.savedQueries.set([]);
+    }
+  }
+
+  selectSavedQuery(query: SavedQuery | null): void {
+    if (!query) return;
+    this.sql = query.desc_sql;
+    this.queryName = query.desc_name;
+  }
+
+  saveQuery(): void {
+    const name = this.queryName.trim();
+    if (!name || !this.sql.trim()) {
+      this.showError('Informe um nome e a consulta para salvar.');
+      return;
+    }
+
+    try {
+      this.savedQueryRepository.save(name, this.sql.trim());
+      this.loadSavedQueries();
+      this.selectedQuery = this.savedQueries().find(query => query.desc_name === name) ?? null;
+      this.showSuccess(`Consulta "${name}" salva.`);
+    } catch (error: any) {
+      console.error('❌ Erro ao salvar consulta:', error);
+      this.showError(error?.message || 'Não foi possível salvar a consulta.');
+    }
+  }
+
+  confirmDeleteQuery(): void {
+    const query = this.selectedQuery;
+    if (!query) return;
+
+    this.confirmationService.confirm({
+      message: `Excluir a consulta salva "${query.desc_name}"?`,
+      header: 'Excluir Consulta',
+      icon: 'pi pi-exclamation-triangle',
+      acceptLabel: 'Sim, excluir',
+      rejectLabel: 'Cancelar',
+      acceptButtonStyleClass: 'p-button-danger',
+      accept: () => {
+        try {
+          this.savedQueryRepository.delete(query.num_id);
+          this.selectedQuery = null;
+          this.loadSavedQueries();
+          this.showSuccess('Consulta excluída.');
+        } catch (error: any) {
+          console.error('❌ Erro ao excluir consulta:', error);
+          this.showError(error?.message || 'Não foi possível excluir a consulta.');
+        }
+      }
+    });
+  }
+
+  // ==================== EXPORTAÇÃO ====================
+
+  /**
+   * Baixa o resultado atual em CSV (UTF-8 com BOM, separador ;)
+   */
+  exportCsv(): void {
+    const result = this.result();
+    if (!result) return;
+
+    const lines = [
+      result.columns.map(column => this.toCsvField(column)).join(';'),
+      ...result.rows.map(row => row.map(value => this.toCsvField(value)).join(';'))
+    ];
+    const blob = new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8;' });
+
+    const name = (this.queryName.trim() || 'consulta').replace(/[^a-z0-9-_]+/gi, '-').toLowerCase();
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `black-beer-${name}-${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // ==================== UTILIDADES ====================
+
+  formatValue(value: unknown): string {
+    if (value === null || value === undefined) return 'NULL';
+    if (value instanceof Uint8Array) return `<BLOB ${value.length} bytes>`;
+    return String(value);
+  }
+
+  private toCsvField(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    const text = value instanceof Uint8Array ? `<BLOB ${value.length} bytes>` : String(value);
+    return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  // ==================== MENSAGENS ====================
+
+  private showSuccess(detail: string): void {
+    this.messageService.add({ severity: 'success', summary: 'Sucesso', detail, life: 4000 });
+  }
+
+  private showError(detail: string): void {
+    this.messageService.add({ severity: 'error', summary: 'Erro', detail, life: 5000 });
+  }
+}
@@ -0,0 +1,147 @@
+// src/app/features/settings-quick-sale/settings-quick-sale.ts
+import { Component, effect, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+// PrimeNG
+import { ButtonModule } from 'primeng/button';
+import { CheckboxModule } from 'primeng/checkbox';
+import { InputTextModule } from 'primeng/inputtext';
+import { ToastModule } from 'primeng/toast';
+import { MessageService } from 'primeng/api';
+
+// App
+import { DatabaseService } from '../../core/services/database';
+import { QuickSaleSettingsService } from '../../core/services/quick-sale-settings.service';
+import { BeerRepository } from '../../core/repositories/beer.repository';
+import { CupSizeRepository } from '../../core/repositories/cup-size.repository';
+import { UNIT_SALE_CUP_SIZE } from '../../core/models/beer.model';
+import { getCupSizeLabel } from '../../core/models/cup-size.model';
+import { getQuickSaleBindingKey } from '../../core/models/quick-sale.model';
+
+/**
+ * Linha editável: uma combinação produto/copo
+ */
+interface BindingRow {
+  key: string;                     // `${beerId}-${cupSize}`
+  beerId: number;
+  beerName: string;
+  beerColor: string;
+  cupSize: number;
+  cupLabel: string;
+  shortcut: string;
+  barcode: string;
+}
+
+/**
+ * Atalhos de teclado e códigos de barras da venda rápida
+ *
+ * Lista cada produto ativo em cada copo ativo (produtos unitários numa
+ * linha só). A configuração vale para este dispositivo; combinações de
+ * produtos arquivados ou copos desativados são descartadas ao salvar.
+ */
+@Component({
+  selector: 'app-settings-quick-sale',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    ButtonModule,
+    CheckboxModule,
+    InputTextModule,
+    ToastModule
+  ],
+  providers: [MessageService],
+  templateUrl: './settings-quick-sale.html',
+  styleUrls: ['./settings-quick-sale.scss']
+})
+export class SettingsQuickSaleComponent {
+  // ==================== INJEÇÃO DE DEPENDÊNCIAS ====================
+  private readonly dbService = inject(DatabaseService);
+  private readonly quickSaleSettingsService = inject(QuickSaleSettingsService);
+  private readonly beerRepository = inject(BeerRepository);
+  private readonly cupSizeRepository = inject(CupSizeRepository);
+  private readonly messageService = inject(MessageService);
+
+  // ==================== SIGNALS ====================
+  readonly rows = signal<BindingRow[]>([]);
+  enabled = false;
+  comandaPrefix = '';
+
+  constructor() {
+    // Recarrega com o banco, com mudanças remotas e ao salvar a configuração
+    effect(() => {
+      if (this.dbService.isDbReady()) {
+        this.dbService.remoteChanges();
+        this.loadData();
+      }
+    });
+  }
+
+  // ==================== CARREGAMENTO ====================
+
+  loadData(): void {
+    try {
+      const settings = this.quickSaleSettingsService.settings();
+      const bindings = new Map(settings.bindings.map(binding => [getQuickSaleBindingKey(binding.beerId, binding.cupSize), binding]));
+      const cupSizes = this.cupSizeRepository.findActive();
+
+      const rows: BindingRow[] = [];
+      for (const beer of this.beerRepository.findActive()) {
+        const sizes = beer.desc_kind === 'unit' ? [UNIT_SALE_CUP_SIZE] : cupSizes.map(size => size.num_volume_ml);
+        for (const cupSize of sizes) {
+          const key = getQuickSaleBindingKey(beer.num_id, cupSize);
+          const binding = bindings.get(key);
+          rows.push({
+            key,
+            beerId: beer.num_id,
+            beerName: beer.desc_name,
+            beerColor: beer.desc_color,
+            cupSize,
+            cupLabel: getCupSizeLabel(cupSizes, cupSize),
+            shortcut: binding?.shortcut ?? '',
+            barcode: binding?.barcode ?? ''
+          });
+        }
+      }
+
+      this.rows.set(rows);
+      this.enabled = settings.enabled;
+      this.comandaPrefix = settings.comandaPrefix;
+    } catch (error) {
+      console.error('❌ Erro ao carregar venda rápida:', error);
+      this.showError('Não foi possível carregar os atalhos da venda rápida.');
+    }
+  }
+
+  // ==================== AÇÕES ====================
+
+  save(): void {
+    try {
+      this.quickSaleSettingsService.save({
+        enabled: this.enabled,
+        comandaPrefix: this.comandaPrefix,
+        bindings: this.rows().map(row => ({
+          beerId: row.beerId,
+          cupSize: row.cupSize,
+          shortcut: row.shortcut || null,
+          barcode: row.barcode || null
+        }))
+      });
+      this.showSuccess('Venda rápida salva neste dispositivo.');
+    } catch (error: any) {
+      console.error('❌ Erro ao salvar venda rápida:', error);
+      this.showError(error?.message || 'Não foi possível salvar a venda rápida.');
+    }
+  }
+
+  // ==================== MENSAGENS ====================
+
+  private showSuccess(detail: string): void {
+    this.messageService.add({ severity: 'success', summary: 'Sucesso', detail, life: 4000 });
+  }
+
+  private showError(detail: string): void {
+    this.messageService.add({ severity: 'error', summary: 'Erro', detail, life: 5000 });
+  }
+}
@@ -8,17 +8,31 @@ import { CardModule } from 'primeng/card';
 import { ButtonModule } from 'primeng/button';
 import { InputNumberModule } from 'primeng/inputnumber';
 import { ToastModule } from 'primeng/toast';
-import { MessageService } from 'primeng/api';
+import { ConfirmationService, MessageService } from 'primeng/api';
+import { ConfirmDialogModule } from 'primeng/confirmdialog';
 import { TagModule } from 'primeng/tag';
 import { TooltipModule } from 'primeng/tooltip';
 import { SelectButtonModule } from 'primeng/selectbutton';
+import { InputTextModule } from 'primeng/inputtext';
+import { CheckboxModule } from 'primeng/checkbox';
 
 // App
-import { BeerType } from '../../core/models/beer.model';
+import { BeerType, ProductKind } from '../../core/models/beer.model';
 import { DatabaseService } from '../../core/services/database';
 import { TabRefreshService, SettingsSubTab } from '../../core/services/tab-refresh.service';
 import { EventService } from '../../core/services/event.service';
 import { Event } from '../../core/models/event.model';
+import { DEFAULT_MIN_UNITS_ALERT, StockAlert } from '../../core/models/stock.model';
+import { BeerRepository } from '../../core/repositories/beer.repository';
+import { StockRepository } from '../../core/repositories/stock.repository';
+import { PriceRepository } from '../../core/repositories/price.repository';
+import { CupSizeRepository } from '../../core/repositories/cup-size.repository';
+import { ServiceChargeRepository } from '../../core/repositories/service-charge.repository';
+import { MAX_SERVICE_RATE, validateServiceRate } from '../../core/models/service-charge.model';
+import { CupSizeConfig } from '../../core/models/cup-size.model';
+import { SalePriceInput } from '../../core/models/price.model';
+import { SettingsPromotionsComponent } from '../settings-promotions/settings-promotions';
+import { SettingsQuickSaleComponent } from '../settings-quick-sale/settings-quick-sale';
 
 interface BeerStock {
   beerId: number;
@@ -30,16 +44,35 @@ interface BeerStock {
   originalMinLitersAlert: number; // Para controlar mudanças no limite
 }
 
+interface UnitStockRow {
+  beerId: number;
+  beerName: string;
+  color: string;
+  quantity: number;                // Unidades disponíveis
+  minUnitsAlert: number;
+  controlled: boolean;             // Há registro em config_event_unit_stock
+  originalQuantity: number;        // Para controlar mudanças
+  originalMinUnitsAlert: number;
+}
+
 interface BeerPrice {
   beerId: number;
   beerName: string;
   color: string;
-  price300ml: number;
-  price500ml: number;
-  price1000ml: number;
-  originalPrice300ml: number; // Para controlar mudanças
-  originalPrice500ml: number;
-  originalPrice1000ml: number;
+  kind: ProductKind;
+  prices: SalePriceInput;          // ID do tamanho de copo → preço (chope)
+  originalPrices: SalePriceInput;  // Para controlar mudanças
+  unitPrice: number;               // Preço da unidade (produtos unitários)
+  originalUnitPrice: number;
+}
+
+interface CupSizeRow {
+  id: number;
+  label: string;
+  volumeMl: number;
+  active: boolean;
+  originalLabel: string;           // Para controlar mudanças
+  originalVolumeMl: number;
 }
 
 /**
@@ -58,32 +91,54 @@ interface BeerPrice {
     ToastModule,
     TagModule,
     TooltipModule,
-    SelectButtonModule
+    SelectButtonModule,
+    InputTextModule,
+    CheckboxModule,
+    ConfirmDialogModule,
+    SettingsPromotionsComponent,
+    SettingsQuickSaleComponent
   ],
-  providers: [MessageService],
+  providers: [ConfirmationService, MessageService],
   templateUrl: './settings-sales.html',
   styleUrls: ['./settings-sales.scss']
 })
 export class SettingsSalesComponent implements OnInit, OnDestroy {
   // ==================== INJEÇÃO DE DEPENDÊNCIAS ====================
   private readonly dbService = inject(DatabaseService);
+  private readonly beerRepository = inject(BeerRepository);
+  private readonly stockRepository = inject(StockRepository);
+  private readonly priceRepository = inject(PriceRepository);
+  private readonly cupSizeRepository = inject(CupSizeRepository);
+  private readonly serviceChargeRepository = inject(ServiceChargeRepository);
   private readonly eventService = inject(EventService);
   private readonly messageService = inject(MessageService);
+  private readonly confirmationService = inject(ConfirmationService);
   private readonly tabRefreshService = inject(TabRefreshService);
 
   // ==================== SIGNALS PARA ESTADO REATIVO ====================
   readonly beerTypes = signal<BeerType[]>([]);
   readonly beerStocks = signal<BeerStock[]>([]);
+  readonly unitStocks = signal<UnitStockRow[]>([]);
   readonly beerPrices = signal<BeerPrice[]>([]);
+  readonly cupSizeRows = signal<CupSizeRow[]>([]);
+  readonly activeCupSizes = signal<CupSizeConfig[]>([]);
   readonly minLitersAlert = signal<number>(5.0);
   readonly originalMinLiters = signal<number>(5.0);
-  readonly stockAlerts = signal<any[]>([]);
+  readonly serviceRate = signal<number>(0);
+  readonly originalServiceRate = signal<number>(0);
+  readonly hasOwnServiceRate = signal<boolean>(false);    // Evento com taxa própria (senão usa a geral)
+  readonly MAX_SERVICE_RATE = MAX_SERVICE_RATE;
+  readonly stockAlerts = signal<StockAlert[]>([]);
   readonly isSaving = signal<boolean>(false);
 
   // Event management signals
   readonly selectedEventId = signal<number | null>(null);
   readonly availableEvents = computed(() => this.eventService.activeEvents());
 
+  // Novo tamanho de copo (ngModel)
+  newCupSizeLabel = '';
+  newCupSizeVolume: number | null = null;
+
   // ==================== CONSTANTES ====================
   private readonly DEFAULT_MIN_LITERS = 5.0;
 
@@ -142,30 +197,46 @@ export class SettingsSalesComponent implements OnInit, OnDestroy {
    * Carrega todos os dados necessários
    */
   private loadData(): void {
+    this.loadCupSizes();
     this.loadBeerTypes();
     this.loadAlertConfig();
+    this.loadServiceCharge();
     this.checkStockAlerts();
   }
 
+  /**
+   * Carrega o catálogo de tamanhos de copo
+   */
+  private loadCupSizes(): void {
+    try {
+      const sizes = this.cupSizeRepository.findAll();
+      this.activeCupSizes.set(sizes.filter(size => size.int_active === 1));
+      this.cupSizeRows.set(sizes.map(size => ({
+        id: size.num_id,
+        label: size.desc_label,
+        volumeMl: size.num_volume_ml,
+        active: size.int_active === 1,
+        originalLabel: size.desc_label,
+        originalVolumeMl: size.num_volume_ml
+      })));
+    } catch (error) {
+      console.error('❌ Erro ao carregar tamanhos de copo:', error);
+      this.showError('Não foi possível carregar os tamanhos de copo.');
+    }
+  }
+
   /**
    * Carrega tipos de cerveja do banco
    */
   private loadBeerTypes(): void {
     try {
-      const beers = this.dbService.executeQuery(
-        'SELECT * FROM prd_beer_types ORDER BY desc_name'
-      );
+      // Cervejas arquivadas não recebem estoque nem preços
+      const beers = this.beerRepository.findActive();
 
-      const typedBeers: BeerType[] = beers.map(beer => ({
-        num_id: Number(beer.num_id),
-        desc_name: beer.desc_name,
-        desc_color: beer.desc_color,
-        desc_description: beer.desc_description
-      }));
-
-      this.beerTypes.set(typedBeers);
-      this.loadBeerStocks(typedBeers);
-      this.loadBeerPrices(typedBeers);
+      this.beerTypes.set(beers);
+      this.loadBeerStocks(beers.filter(beer => beer.desc_kind === 'draft'));
+      this.loadUnitStocks(beers.filter(beer => beer.desc_kind === 'unit'));
+      this.loadBeerPrices(beers);
     } catch (error) {
       console.error('❌ Erro ao carregar tipos de cerveja:', error);
       this.showError('Não foi possível carregar os tipos de cerveja.');
@@ -181,7 +252,7 @@ export class SettingsSalesComponent implements OnInit, OnDestroy {
     try {
       const eventId = this.selectedEventId();
       const stocks: BeerStock[] = beers.map(beer => {
-        const eventStock = this.dbService.getEventStockByBeerId(beer.num_id, eventId);
+        const eventStock = this.stockRepository.findByBeer(beer.num_id, eventId);
 
         // Se não há registro no banco, não há controle ativo
         if (!eventStock) {
@@ -225,28 +296,62 @@ export class SettingsSalesComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Carrega o estoque em unidades dos produtos unitários
+   */
+  private loadUnitStocks(products: BeerType[]): void {
+    try {
+      const eventId = this.selectedEventId();
+      this.unitStocks.set(products.map(product => {
+        const stock = this.stockRepository.findUnitStock(product.num_id, eventId);
+        const quantity = stock?.num_quantity ?? 0;
+        const minAlert = stock?.num_min_units_alert ?? DEFAULT_MIN_UNITS_ALERT;
+
+        return {
+          beerId: product.num_id,
+          beerName: product.desc_name,
+          color: product.desc_color,
+          quantity,
+          minUnitsAlert: minAlert,
+          controlled: stock !== null,
+          originalQuantity: quantity,
+          originalMinUnitsAlert: minAlert
+        };
+      }));
+    } catch (error) {
+      console.error('❌ Erro ao carregar estoques em unidades:', error);
+      this.showError('Não foi possível carregar os estoques em unidades.');
+    }
+  }
+
   /**
    * Carrega preços configurados para cada cerveja
+   * Produtos unitários têm um único preço por unidade
    */
   private loadBeerPrices(beers: BeerType[]): void {
     try {
       const eventId = this.selectedEventId();
       const prices: BeerPrice[] = beers.map(beer => {
-        const salesConfig = this.dbService.getSalesConfigByBeerId(beer.num_id, eventId);
-        const price300ml = salesConfig?.price300ml || 0;
-        const price500ml = salesConfig?.price500ml || 0;
-        const price1000ml = salesConfig?.price1000ml || 0;
+        const beerPrices: SalePriceInput = {};
+        if (beer.desc_kind === 'draft') {
+          const saved = this.priceRepository.findByBeer(beer.num_id, eventId);
+          for (const size of this.activeCupSizes()) {
+            beerPrices[size.num_id] = saved.find(p => p.num_cup_size_id === size.num_id)?.num_price ?? 0;
+          }
+        }
+        const unitPrice = beer.desc_kind === 'unit'
+          ? this.priceRepository.findUnitPrice(beer.num_id, eventId)?.num_price ?? 0
+          : 0;
 
         return {
           beerId: beer.num_id,
           beerName: beer.desc_name,
           color: beer.desc_color,
-          price300ml,
-          price500ml,
-          price1000ml,
-          originalPrice300ml: price300ml,
-          originalPrice500ml: price500ml,
-          originalPrice1000ml: price1000ml
+          kind: beer.desc_kind,
+          prices: beerPrices,
+          originalPrices: { ...beerPrices },
+          unitPrice,
+          originalUnitPrice: unitPrice
         };
       });
 
@@ -263,8 +368,8 @@ export class SettingsSalesComponent implements OnInit, OnDestroy {
    */
   private loadAlertConfig(): void {
     try {
-      const config = this.dbService.getStockAlertConfig();
-      const minLiters = config?.minLiters || this.DEFAULT_MIN_LITERS;
+      const config = this.stockRepository.getAlertConfig();
+      const minLiters = config?.num_min_liters ?? this.DEFAULT_MIN_LITERS;
 
       this.minLitersAlert.set(minLiters);
       this.originalMinLiters.set(minLiters);
@@ -274,12 +379,48 @@ export class SettingsSalesComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Carrega a taxa de serviço do evento selecionado (ou a geral, como sugestão)
+   */
+  private loadServiceCharge(): void {
+    try {
+      const eventId = this.selectedEventId();
+      const config = this.serviceChargeRepository.findConfig(eventId);
+      const rate = config?.num_rate ?? this.serviceChargeRepository.findEffectiveRate(eventId);
+
+      this.serviceRate.set(rate);
+      this.originalServiceRate.set(rate);
+      this.hasOwnServiceRate.set(config !== null);
+    } catch (error) {
+      console.error('❌ Erro ao carregar taxa de serviço:', error);
+    }
+  }
+
+  /**
+   * Salva a taxa de serviço do evento selecionado (sem evento = taxa geral)
+   */
+  saveServiceCharge(): void {
+    try {
+      const rate = this.serviceRate() ?? 0;
+      validateServiceRate(rate);
+      this.serviceChargeRepository.saveRate(rate, this.selectedEventId());
+
+      this.serviceRate.set(rate);
+      this.originalServiceRate.set(rate);
+      this.hasOwnServiceRate.set(true);
+      this.showSuccess(rate > 0 ? `Taxa de serviço de ${rate}% salva` : 'Taxa de serviço desativada');
+    } catch (error: any) {
+      console.error('❌ Erro ao salvar taxa de serviço:', error);
+      this.showError(error?.message || 'Não foi possível salvar a taxa de serviço');
+    }
+  }
+
   /**
    * Verifica se há alertas de estoque baixo
    */
   checkStockAlerts(): void {
     try {
-      const alerts = this.dbService.getStockAlerts();
+      const alerts = this.stockRepository.findAlerts();
       this.stockAlerts.set(alerts);
 
       if (alerts.length > 0) {
@@ -297,7 +438,7 @@ export class SettingsSalesComponent implements OnInit, OnDestroy {
   saveStockForBeer(stock: BeerStock): void {
     try {
       const eventId = this.selectedEventId();
-      this.dbService.setEventStock(
+      this.stockRepository.save(
         stock.beerId,
         stock.beerName,
         stock.quantidadeLitros,
@@ -336,7 +477,7 @@ export class SettingsSalesComponent implements OnInit, OnDestroy {
           stock.minLitersAlert !== stock.originalMinLitersAlert;
 
         if (hasChanges) {
-          this.dbService.setEventStock(
+          this.stockRepository.save(
             stock.beerId,
             stock.beerName,
             stock.quantidadeLitros,
@@ -381,7 +522,7 @@ export class SettingsSalesComponent implements OnInit, OnDestroy {
         return;
       }
 
-      this.dbService.setStockAlertConfig(minLiters);
+      this.stockRepository.setAlertConfig(minLiters);
       this.originalMinLiters.set(minLiters);
       this.showSuccess(`Alerta configurado para ${minLiters}L`);
       this.checkStockAlerts();
@@ -396,26 +537,11 @@ export class SettingsSalesComponent implements OnInit, OnDestroy {
    */
   savePriceForBeer(price: BeerPrice): void {
     try {
-      const eventId = this.selectedEventId();
-      this.dbService.setSalesConfig(
-        price.beerId,
-        price.beerName,
-        price.price300ml,
-        price.price500ml,
-        price.price1000ml,
-        eventId
-      );
+      this.persistPrice(price);
 
       // Atualiza valor original
       const updatedPrices = this.beerPrices().map(p =>
-        p.beerId === price.beerId
-          ? {
-              ...p,
-              originalPrice300ml: price.price300ml,
-              originalPrice500ml: price.price500ml,
-              originalPrice1000ml: price.price1000ml
-            }
-          : p
+        p.beerId === price.beerId ? { ...p, originalPrices: { ...price.prices }, originalUnitPrice: price.unitPrice } : p
       );
       this.beerPrices.set(updatedPrices);
 
@@ -434,33 +560,15 @@ export class SettingsSalesComponent implements OnInit, OnDestroy {
     let savedCount = 0;
 
     try {
-      const eventId = this.selectedEventId();
       this.beerPrices().forEach(price => {
-        const hasChanges =
-          price.price300ml !== price.originalPrice300ml ||
-          price.price500ml !== price.originalPrice500ml ||
-          price.price1000ml !== price.originalPrice1000ml;
-
-        if (hasChanges) {
-          this.dbService.setSalesConfig(
-            price.beerId,
-            price.beerName,
-            price.price300ml,
-            price.price500ml,
-            price.price1000ml,
-            eventId
-          );
+        if (this.hasPriceChanges(price)) {
+          this.persistPrice(price);
           savedCount++;
         }
       });
 
       // Atualiza valores originais
-      const updatedPrices = this.beerPrices().map(p => ({
-        ...p,
-        originalPrice300ml: p.price300ml,
-        originalPrice500ml: p.price500ml,
-        originalPrice1000ml: p.price1000ml
-      }));
+      const updatedPrices = this.beerPrices().map(p => ({ ...p, originalPrices: { ...p.prices }, originalUnitPrice: p.unitPrice }));
       this.beerPrices.set(updatedPrices);
 
       if (savedCount > 0) {
@@ -480,11 +588,178 @@ export class SettingsSalesComponent implements OnInit, OnDestroy {
    * Verifica se uma cerveja tem alterações nos preços
    */
   hasPriceChanges(price: BeerPrice): boolean {
-    return (
-      price.price300ml !== price.originalPrice300ml ||
-      price.price500ml !== price.originalPrice500ml ||
-      price.price1000ml !== price.originalPrice1000ml
-    );
+    if (price.kind === 'unit') {
+      return price.unitPrice !== price.originalUnitPrice;
+    }
+    return Object.keys(price.prices).some(id => price.prices[+id] !== price.originalPrices[+id]);
+  }
+
+  /**
+   * Grava os preços por copo (chope) ou o preço da unidade no evento selecionado
+   */
+  private persistPrice(price: BeerPrice): void {
+    const eventId = this.selectedEventId();
+    if (price.kind === 'unit') {
+      this.priceRepository.saveUnitPrice(price.beerId, price.unitPrice ?? 0, eventId);
+    } else {
+      this.priceRepository.save(price.beerId, price.prices, eventId);
+    }
+  }
+
+  // ==================== ESTOQUE EM UNIDADES ====================
+  /**
+   * Salva as unidades disponíveis e o limite de alerta de um produto unitário
+   */
+  saveUnitStock(row: UnitStockRow): void {
+    try {
+      const quantity = row.quantity ?? 0;
+      const minAlert = row.minUnitsAlert ?? DEFAULT_MIN_UNITS_ALERT;
+      this.stockRepository.saveUnits(row.beerId, row.beerName, quantity, minAlert, this.selectedEventId());
+
+      this.unitStocks.update(rows => rows.map(r =>
+        r.beerId === row.beerId
+          ? { ...r, quantity, minUnitsAlert: minAlert, controlled: true, originalQuantity: quantity, originalMinUnitsAlert: minAlert }
+          : r
+      ));
+      this.showSuccess(`Estoque de ${row.beerName} salvo: ${quantity} un. (alerta: ${minAlert} un.)`);
+    } catch (error) {
+      console.error('❌ Erro ao salvar estoque em unidades:', error);
+      this.showError(`Não foi possível salvar o estoque de ${row.beerName}`);
+    }
+  }
+
+  /**
+   * Remove o controle de estoque em unidades de um produto (volta ao modo normal)
+   */
+  resetUnitStock(row: UnitStockRow): void {
+    try {
+      this.stockRepository.removeUnits(row.beerId);
+
+      this.unitStocks.update(rows => rows.map(r =>
+        r.beerId === row.beerId
+          ? {
+              ...r,
+              quantity: 0,
+              minUnitsAlert: DEFAULT_MIN_UNITS_ALERT,
+              controlled: false,
+              originalQuantity: 0,
+              originalMinUnitsAlert: DEFAULT_MIN_UNITS_ALERT
+            }
+          : r
+      ));
+      this.showSuccess(`Controle de estoque removido para ${row.beerName}`);
+    } catch (error) {
+      console.error('❌ Erro ao remover estoque em unidades:', error);
+      this.showError('Erro ao remover o controle de estoque.');
+    }
+  }
+
+  isUnitStockModified(row: UnitStockRow): boolean {
+    return row.quantity !== row.originalQuantity || row.minUnitsAlert !== row.originalMinUnitsAlert;
+  }
+
+  /**
+   * Status do estoque em unidades (mesmos estados do estoque em litros)
+   */
+  getUnitStockStatus(row: UnitStockRow): 'normal' | 'active' | 'alert' | 'depleted' {
+    if (!row.controlled) return 'normal';
+    if (row.originalQuantity === 0) return 'depleted';
+    if (row.originalQuantity < row.originalMinUnitsAlert) return 'alert';
+    return 'active';
+  }
+
+  // ==================== TAMANHOS DE COPO ====================
+  /**
+   * Cadastra um novo tamanho de copo (ativo, no fim da lista)
+   */
+  addCupSize(): void {
+    try {
+      this.cupSizeRepository.create({
+        label: this.newCupSizeLabel,
+        volumeMl: this.newCupSizeVolume ?? 0
+      });
+      this.showSuccess(`Tamanho "${this.newCupSizeLabel.trim()}" cadastrado. Defina os preços abaixo.`);
+      this.newCupSizeLabel = '';
+      this.newCupSizeVolume = null;
+      this.loadData();
+    } catch (error: any) {
+      console.error('❌ Erro ao cadastrar tamanho de copo:', error);
+      this.showError(error?.message || 'Não foi possível cadastrar o tamanho.');
+    }
+  }
+
+  /**
+   * Salva nome e volume de um tamanho
+   */
+  saveCupSize(row: CupSizeRow): void {
+    try {
+      this.cupSizeRepository.update(row.id, { label: row.label, volumeMl: row.volumeMl });
+      this.showSuccess(`Tamanho "${row.label.trim()}" salvo.`);
+      this.loadData();
+    } catch (error: any) {
+      console.error('❌ Erro ao salvar tamanho de copo:', error);
+      this.showError(error?.message || 'Não foi possível salvar o tamanho.');
+    }
+  }
+
+  /**
+   * Ativa ou desativa um tamanho nas vendas
+   */
+  toggleCupSize(row: CupSizeRow): void {
+    try {
+      this.cupSizeRepository.setActive(row.id, row.active);
+      this.loadData();
+    } catch (error: any) {
+      console.error('❌ Erro ao alterar tamanho de copo:', error);
+      this.showError(error?.message || 'Não foi possível alterar o tamanho.');
+      this.loadCupSizes();
+    }
+  }
+
+  /**
+   * Move um tamanho uma posição para cima (-1) ou para baixo (+1)
+   */
+  moveCupSize(index: number, direction: -1 | 1): void {
+    const ids = this.cupSizeRows().map(row => row.id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    try {
+      this.cupSizeRepository.reorder(ids);
+      this.loadData();
+    } catch (error) {
+      console.error('❌ Erro ao reordenar tamanhos de copo:', error);
+      this.showError('Não foi possível reordenar os tamanhos.');
+    }
+  }
+
+  /**
+   * Exclui um tamanho e seus preços (vendas registradas não mudam)
+   */
+  confirmDeleteCupSize(row: CupSizeRow): void {
+    this.confirmationService.confirm({
+      message: `Excluir o tamanho "${row.originalLabel}" e os preços configurados para ele? As vendas já registradas não são alteradas.`,
+      header: 'Excluir Tamanho de Copo',
+      icon: 'pi pi-exclamation-triangle',
+      acceptLabel: 'Sim, excluir',
+      rejectLabel: 'Cancelar',
+      acceptButtonStyleClass: 'p-button-danger',
+      accept: () => {
+        try {
+          this.cupSizeRepository.delete(row.id);
+          this.showSuccess(`Tamanho "${row.originalLabel}" excluído.`);
+          this.loadData();
+        } catch (error: any) {
+          console.error('❌ Erro ao excluir tamanho de copo:', error);
+          this.showError(error?.message || 'Não foi possível excluir o tamanho.');
+        }
+      }
+    });
+  }
+
+  isCupSizeModified(row: CupSizeRow): boolean {
+    return row.label !== row.originalLabel || row.volumeMl !== row.originalVolumeMl;
   }
 
   /**
@@ -500,7 +775,7 @@ export class SettingsSalesComponent implements OnInit, OnDestroy {
       }
 
       // Remove do banco de dados
-      this.dbService.removeEventStock(stock.beerId);
+      this.stockRepository.remove(stock.beerId);
 
       // Atualiza para valores padrão (sem controle)
       const updatedStocks = this.beerStocks().map(s =>
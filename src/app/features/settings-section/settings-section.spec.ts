@@ -1,18 +1,18 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 
-import { SettingsSection } from './settings-section';
+import { SettingsSectionComponent } from './settings-section';
 
-describe('SettingsSection', () => {
-  let component: SettingsSection;
-  let fixture: ComponentFixture<SettingsSection>;
+describe('SettingsSectionComponent', () => {
+  let component: SettingsSectionComponent;
+  let fixture: ComponentFixture<SettingsSectionComponent>;
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [SettingsSection]
+      imports: [SettingsSectionComponent]
     })
     .compileComponents();
 
-    fixture = TestBed.createComponent(SettingsSection);
+    fixture = TestBed.createComponent(SettingsSectionComponent);
     component = fixture.componentInstance;
     fixture.detectChanges();
   });
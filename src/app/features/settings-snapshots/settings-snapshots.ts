@@ -0,0 +1,205 @@
+import { Component, inject, signal, computed, effect } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+// PrimeNG
+import { ButtonModule } from 'primeng/button';
+import { CheckboxModule } from 'primeng/checkbox';
+import { ConfirmDialogModule } from 'primeng/confirmdialog';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { TableModule } from 'primeng/table';
+import { TagModule } from 'primeng/tag';
+import { ToastModule } from 'primeng/toast';
+import { ConfirmationService, MessageService } from 'primeng/api';
+
+// App
+import { DatabaseService } from '../../core/services/database';
+import { DEFAULT_SNAPSHOT_CONFIG, SnapshotConfig, SnapshotInfo, SnapshotKind } from '../../core/services/db-snapshots';
+
+/**
+ * Rótulos e cores das origens de snapshot
+ */
+const SNAPSHOT_KIND_LABELS: Record<SnapshotKind, { label: string; severity: 'info' | 'success' | 'warn' | 'danger' | 'secondary' }> = {
+  hourly: { label: 'Horário', severity: 'info' },
+  daily: { label: 'Diário', severity: 'success' },
+  manual: { label: 'Manual', severity: 'secondary' },
+  pre_clear: { label: 'Antes da limpeza', severity: 'danger' },
+  pre_restore: { label: 'Antes de restaurar', severity: 'warn' },
+  pre_repair: { label: 'Antes do reparo', severity: 'warn' }
+};
+
+/**
+ * Tela de snapshots locais (somente admin)
+ * Lista os snapshots automáticos/manuais, configura a retenção
+ * e permite restaurar o banco para um ponto anterior.
+ */
+@Component({
+  selector: 'app-settings-snapshots',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    ButtonModule,
+    CheckboxModule,
+    ConfirmDialogModule,
+    InputNumberModule,
+    TableModule,
+    TagModule,
+    ToastModule
+  ],
+  providers: [ConfirmationService, MessageService],
+  templateUrl: './settings-snapshots.html',
+  styleUrls: ['./settings-snapshots.scss']
+})
+export class SettingsSnapshotsComponent {
+  // ==================== INJEÇÃO DE DEPENDÊNCIAS ====================
+  private readonly dbService = inject(DatabaseService);
+  private readonly confirmationService = inject(ConfirmationService);
+  private readonly messageService = inject(MessageService);
+
+  // ==================== SIGNALS ====================
+  readonly snapshots = signal<SnapshotInfo[]>([]);
+  readonly isLoading = signal<boolean>(false);
+  readonly isWorking = signal<boolean>(false);
+  readonly available = signal<boolean>(true);
+
+  /**
+   * Configuração editável (ngModel)
+   */
+  config: SnapshotConfig = { ...DEFAULT_SNAPSHOT_CONFIG };
+
+  readonly totalSizeBytes = computed(() =>
+    this.snapshots().reduce((sum, snapshot) => sum + snapshot.sizeBytes, 0)
+  );
+
+  constructor() {
+    effect(() => {
+      if (this.dbService.isDbReady()) {
+        this.loadSnapshots();
+      }
+    });
+  }
+
+  // ==================== CARREGAMENTO ====================
+
+  async loadSnapshots(): Promise<void> {
+    this.isLoading.set(true);
+    try {
+      this.available.set(this.dbService.snapshotsAvailable());
+      this.config = this.dbService.getSnapshotConfig();
+      this.snapshots.set(await this.dbService.listSnapshots());
+    } catch (error) {
+      console.error('❌ Erro ao carregar snapshots:', error);
+      this.showError('Não foi possível carregar os snapshots.');
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  // ==================== AÇÕES ====================
+
+  async createSnapshot(): Promise<void> {
+    this.isWorking.set(true);
+    try {
+      const snapshot = await this.dbService.createSnapshot('manual');
+      if (snapshot) {
+        this.showSuccess(`Snapshot criado com ${snapshot.salesCount} venda(s).`);
+      }
+      await this.loadSnapshots();
+    } catch (error) {
+      console.error('❌ Erro ao criar snapshot:', error);
+      this.showError('Não foi possível criar o snapshot.');
+    } finally {
+      this.isWorking.set(false);
+    }
+  }
+
+  saveConfig(): void {
+    try {
+      this.dbService.setSnapshotConfig(this.config);
+      this.showSuccess('Política de retenção atualizada.');
+    } catch (error) {
+      console.error('❌ Erro ao salvar configuração de snapshots:', error);
+      this.showError('Não foi possível salvar a configuração.');
+    }
+  }
+
+  confirmRestore(snapshot: SnapshotInfo): void {
+    this.confirmationService.confirm({
+      message: `Restaurar o banco para ${this.formatDate(snapshot.createdAt)} (${snapshot.salesCount} vendas)? ` +
+        'O estado atual será salvo em um snapshot "Antes de restaurar" e a aplicação será recarregada.',
+      header: 'Restaurar Snapshot',
+      icon: 'pi pi-history',
+      acceptLabel: 'Sim, restaurar',
+      rejectLabel: 'Cancelar',
+      acceptButtonStyleClass: 'p-button-danger',
+      accept: () => {
+        this.restore(snapshot);
+      }
+    });
+  }
+
+  confirmDelete(snapshot: SnapshotInfo): void {
+    this.confirmationService.confirm({
+      message: `Excluir o snapshot de ${this.formatDate(snapshot.createdAt)}?`,
+      header: 'Excluir Snapshot',
+      icon: 'pi pi-info-circle',
+      acceptLabel: 'Sim, excluir',
+      rejectLabel: 'Cancelar',
+      acceptButtonStyleClass: 'p-button-danger',
+      accept: async () => {
+        await this.dbService.deleteSnapshot(snapshot.id);
+        await this.loadSnapshots();
+      }
+    });
+  }
+
+  private async restore(snapshot: SnapshotInfo): Promise<void> {
+    this.isWorking.set(true);
+    try {
+      const migrated = await this.dbService.restoreSnapshot(snapshot.id);
+      if (!migrated) {
+        this.showError('Snapshot restaurado, mas a atualização do schema falhou.');
+        return;
+      }
+
+      this.showSuccess('Snapshot restaurado! A aplicação será recarregada.');
+      setTimeout(() => window.location.reload(), 1500);
+    } catch (error: any) {
+      console.error('❌ Erro ao restaurar snapshot:', error);
+      this.showError(error.message || 'Não foi possível restaurar o snapshot.');
+    } finally {
+      this.isWorking.set(false);
+    }
+  }
+
+  // ==================== UTILIDADES ====================
+
+  getKindLabel(kind: SnapshotKind): string {
+    return SNAPSHOT_KIND_LABELS[kind]?.label ?? kind;
+  }
+
+  getKindSeverity(kind: SnapshotKind): 'info' | 'success' | 'warn' | 'danger' | 'secondary' {
+    return SNAPSHOT_KIND_LABELS[kind]?.severity ?? 'secondary';
+  }
+
+  formatDate(iso: string): string {
+    return new Date(iso).toLocaleString('pt-BR');
+  }
+
+  formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  // ==================== MENSAGENS ====================
+
+  private showSuccess(detail: string): void {
+    this.messageService.add({ severity: 'success', summary: 'Sucesso', detail, life: 4000 });
+  }
+
+  private showError(detail: string): void {
+    this.messageService.add({ severity: 'error', summary: 'Erro', detail, life: 5000 });
+  }
+}
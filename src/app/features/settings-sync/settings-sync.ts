@@ -0,0 +1,136 @@
+import { Component, inject, signal, effect } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+// PrimeNG
+import { ButtonModule } from 'primeng/button';
+import { CheckboxModule } from 'primeng/checkbox';
+import { InputTextModule } from 'primeng/inputtext';
+import { ToastModule } from 'primeng/toast';
+import { MessageService } from 'primeng/api';
+
+// App
+import { DatabaseService } from '../../core/services/database';
+import { SyncService } from '../../core/services/sync.service';
+import { ParkedSyncChange, SyncRepository } from '../../core/repositories/sync.repository';
+import { SyncConfig } from '../../core/models/sync.model';
+
+/**
+ * Configuração da sincronização entre terminais (somente admin)
+ * Define o servidor e o token, mostra a fila offline e sincroniza sob demanda.
+ */
+@Component({
+  selector: 'app-settings-sync',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    ButtonModule,
+    CheckboxModule,
+    InputTextModule,
+    ToastModule
+  ],
+  providers: [MessageService],
+  templateUrl: './settings-sync.html',
+  styleUrls: ['./settings-sync.scss']
+})
+export class SettingsSyncComponent {
+  // ==================== INJEÇÃO DE DEPENDÊNCIAS ====================
+  private readonly dbService = inject(DatabaseService);
+  private readonly syncRepository = inject(SyncRepository);
+  private readonly messageService = inject(MessageService);
+  readonly syncService = inject(SyncService);
+
+  // ==================== SIGNALS ====================
+  readonly config = signal<SyncConfig | null>(null);
+  readonly parked = signal<ParkedSyncChange[]>([]);
+  readonly isSaving = signal<boolean>(false);
+
+  /**
+   * Campos editáveis (ngModel)
+   */
+  enabled = false;
+  serverUrl = '';
+  token = '';
+
+  constructor() {
+    effect(() => {
+      if (this.dbService.isDbReady()) {
+        this.dbService.remoteChanges();
+        this.loadConfig();
+      }
+    });
+  }
+
+  // ==================== CARREGAMENTO ====================
+
+  loadConfig(): void {
+    try {
+      const config = this.syncRepository.getConfig();
+      this.config.set(config);
+      this.enabled = config?.enabled ?? false;
+      this.serverUrl = config?.serverUrl ?? '';
+      this.token = config?.token ?? '';
+      this.parked.set(config ? this.syncRepository.findParked() : []);
+      this.syncService.refreshPendingCount();
+    } catch (error) {
+      console.error('❌ Erro ao carregar configuração de sincronização:', error);
+      this.showError('Não foi possível carregar a configuração de sincronização.');
+    }
+  }
+
+  // ==================== AÇÕES ====================
+
+  saveConfig(): void {
+    if (this.enabled && !/^https?:\/\/\S+$/i.test(this.serverUrl.trim())) {
+      this.showError('Informe o endereço do servidor (http:// ou https://).');
+      return;
+    }
+    if (this.enabled && !this.token.trim()) {
+      this.showError('Informe o token de sincronização (SYNC_TOKEN do servidor).');
+      return;
+    }
+
+    this.isSaving.set(true);
+    try {
+      this.syncRepository.saveConfig({ enabled: this.enabled, serverUrl: this.serverUrl, token: this.token });
+      this.loadConfig();
+      this.showSuccess(this.enabled ? 'Sincronização ativada.' : 'Sincronização desativada.');
+    } catch (error: any) {
+      console.error('❌ Erro ao salvar configuração de sincronização:', error);
+      this.showError(error.message || 'Não foi possível salvar a configuração.');
+    } finally {
+      this.isSaving.set(false);
+    }
+  }
+
+  async syncNow(): Promise<void> {
+    const result = await this.syncService.syncNow();
+    this.loadConfig();
+
+    if (result) {
+      this.showSuccess(
+        `${result.pushed} alteração(ões) enviada(s), ${result.received} venda(s) recebida(s)` +
+        (result.rejected > 0 ? `, ${result.rejected} conflito(s) resolvido(s) pelo servidor` : '') + '.'
+      );
+    } else if (this.syncService.lastError()) {
+      this.showError(this.syncService.lastError()!);
+    }
+  }
+
+  // ==================== UTILIDADES ====================
+
+  formatDate(iso: string | null): string {
+    return iso ? new Date(iso).toLocaleString('pt-BR') : 'Nunca';
+  }
+
+  // ==================== MENSAGENS ====================
+
+  private showSuccess(detail: string): void {
+    this.messageService.add({ severity: 'success', summary: 'Sucesso', detail, life: 4000 });
+  }
+
+  private showError(detail: string): void {
+    this.messageService.add({ severity: 'error', summary: 'Erro', detail, life: 5000 });
+  }
+}
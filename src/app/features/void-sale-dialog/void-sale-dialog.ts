@@ -0,0 +1,144 @@
+// src/app/features/void-sale-dialog/void-sale-dialog.ts
+import { Component, EventEmitter, Input, Output, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+// PrimeNG
+import { ButtonModule } from 'primeng/button';
+import { DialogModule } from 'primeng/dialog';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { InputTextModule } from 'primeng/inputtext';
+import { PasswordModule } from 'primeng/password';
+import { TextareaModule } from 'primeng/textarea';
+
+// App
+import { Sale, isUnitSale } from '../../core/models/beer.model';
+import { formatCupVolume } from '../../core/models/cup-size.model';
+import {
+  MIN_VOID_REASON_LENGTH,
+  SaleVoidRequest,
+  calculateVoidAmount,
+  getVoidableQuantity,
+  validateSaleVoid
+} from '../../core/models/sale-void.model';
+
+/**
+ * Diálogo de estorno de uma venda (venda direta ou item de comanda)
+ * Coleta quantidade, motivo e as credenciais do gestor/admin que autoriza.
+ * Emite o pedido já validado; a gravação fica com quem abriu o diálogo.
+ */
+@Component({
+  selector: 'app-void-sale-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    ButtonModule,
+    DialogModule,
+    InputNumberModule,
+    InputTextModule,
+    PasswordModule,
+    TextareaModule
+  ],
+  templateUrl: './void-sale-dialog.html',
+  styleUrls: ['./void-sale-dialog.scss']
+})
+export class VoidSaleDialogComponent {
+  readonly MIN_REASON_LENGTH = MIN_VOID_REASON_LENGTH;
+
+  @Input() loading = false;
+
+  /**
+   * Venda a estornar; trocar a venda recomeça o formulário
+   */
+  @Input() set sale(value: Sale | null) {
+    this.saleValue.set(value);
+    this.reset();
+  }
+
+  @Input() set visible(value: boolean) {
+    if (value && !this.isVisible()) this.reset();
+    this.isVisible.set(value);
+  }
+
+  @Output() visibleChange = new EventEmitter<boolean>();
+  @Output() confirmed = new EventEmitter<SaleVoidRequest>();
+
+  // ==================== SIGNALS ====================
+  readonly isVisible = signal<boolean>(false);
+  readonly saleValue = signal<Sale | null>(null);
+  readonly quantity = signal<number>(1);
+  readonly errorMessage = signal<string | null>(null);
+  reason = '';
+  authorizerLogin = '';
+  authorizerPassword = '';
+
+  readonly available = computed(() => {
+    const sale = this.saleValue();
+    return sale ? getVoidableQuantity(sale) : 0;
+  });
+
+  readonly amount = computed(() => {
+    const sale = this.saleValue();
+    const quantity = this.quantity();
+    return sale && quantity >= 1 && quantity <= this.available() ? calculateVoidAmount(sale, quantity) : 0;
+  });
+
+  /**
+   * Venda de produto unitário: a quantidade é em unidades, não em copos
+   */
+  readonly isUnit = computed(() => {
+    const sale = this.saleValue();
+    return sale !== null && isUnitSale(sale);
+  });
+
+  readonly description = computed(() => {
+    const sale = this.saleValue();
+    return sale ? `${sale.desc_beer_name} (${formatCupVolume(sale.num_cup_size)})` : '';
+  });
+
+  // ==================== AÇÕES ====================
+
+  setQuantity(value: number | null): void {
+    this.quantity.set(value ?? 0);
+    this.errorMessage.set(null);
+  }
+
+  confirm(): void {
+    const sale = this.saleValue();
+    if (!sale) return;
+
+    try {
+      validateSaleVoid(sale, this.quantity(), this.reason);
+      if (!this.authorizerLogin.trim() || !this.authorizerPassword) {
+        throw new Error('Informe usuário e senha do gestor que autoriza o estorno');
+      }
+
+      this.confirmed.emit({
+        quantity: this.quantity(),
+        reason: this.reason.trim(),
+        authorization: {
+          desc_email_or_username: this.authorizerLogin.trim(),
+          desc_password: this.authorizerPassword
+        }
+      });
+    } catch (error: any) {
+      this.errorMessage.set(error?.message || 'Estorno inválido');
+    }
+  }
+
+  close(): void {
+    this.isVisible.set(false);
+    this.visibleChange.emit(false);
+  }
+
+  // ==================== UTILIDADES ====================
+
+  private reset(): void {
+    this.quantity.set(this.available());
+    this.reason = '';
+    this.authorizerLogin = '';
+    this.authorizerPassword = '';
+    this.errorMessage.set(null);
+  }
+}
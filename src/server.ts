@@ -6,6 +6,8 @@ import {
 } from '@angular/ssr/node';
 import express from 'express';
 import { join } from 'node:path';
+import { createSyncDisabledRouter, createSyncRouter } from './server/sync-api';
+import { SyncStore } from './server/sync-store';
 
 const browserDistFolder = join(import.meta.dirname, '../browser');
 
@@ -13,16 +15,24 @@ const app = express();
 const angularApp = new AngularNodeAppEngine();
 
 /**
- * Example Express Rest API endpoints can be defined here.
- * Uncomment and define endpoints as necessary.
- *
- * Example:
- * ```ts
- * app.get('/api/{*splat}', (req, res) => {
- *   // Handle API request
- * });
- * ```
+ * API de sincronização entre terminais (/api/sync)
+ * - SYNC_TOKEN: token exigido dos terminais (sem ele a API responde 503)
+ * - SYNC_DB_PATH: arquivo SQLite do servidor (padrão: ./data/black-beer-sync.sqlite)
+ * O sql-wasm.wasm é o mesmo servido ao navegador (assets).
  */
+const syncToken = process.env['SYNC_TOKEN'];
+if (syncToken) {
+  const syncStore = SyncStore.open(
+    process.env['SYNC_DB_PATH'] || join(process.cwd(), 'data', 'black-beer-sync.sqlite'),
+    process.env['SYNC_WASM_DIR'] || join(browserDistFolder, 'assets')
+  );
+  syncStore.catch(error => console.error('❌ Erro ao abrir banco de sincronização:', error));
+
+  app.use('/api/sync', createSyncRouter(syncStore, syncToken));
+} else {
+  console.warn('⚠️ SYNC_TOKEN não definido: API de sincronização desativada');
+  app.use('/api/sync', createSyncDisabledRouter());
+}
 
 /**
  * Serve static files from /browser
@@ -0,0 +1,107 @@
+// src/server/sync-api.ts
+import express, { NextFunction, Request, Response, Router } from 'express';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { SyncPushResponse, isSyncPushRequest } from '../app/core/models/sync.model';
+import { SyncStore } from './sync-store';
+
+/**
+ * Máximo de alterações aceitas em um push
+ */
+const MAX_PUSH_CHANGES = 1000;
+
+/**
+ * API de sincronização entre terminais
+ *
+ * POST /push  { terminalId, changes }    → { results }
+ * GET  /pull?terminalId=...&since=<seq>  → { changes, lastSeq, hasMore, stock, comandas }
+ *
+ * Exige o header "Authorization: Bearer <token>" com o SYNC_TOKEN do servidor.
+ *
+ * @param store Banco do servidor (aberto de forma assíncrona)
+ * @param token Token compartilhado pelos terminais
+ * @throws Error se o token estiver vazio
+ */
+export function createSyncRouter(store: Promise<SyncStore>, token: string): Router {
+  if (!token) {
+    throw new Error('Token de sincronização obrigatório');
+  }
+
+  const router = express.Router();
+
+  router.use(express.json({ limit: '5mb' }));
+
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    if (!isAuthorized(req.headers.authorization, token)) {
+      res.status(401).json({ error: 'Token de sincronização inválido' });
+      return;
+    }
+    next();
+  });
+
+  router.post('/push', async (req: Request, res: Response) => {
+    if (!isSyncPushRequest(req.body)) {
+      res.status(400).json({ error: 'Requisição de sincronização inválida' });
+      return;
+    }
+    if (req.body.changes.length > MAX_PUSH_CHANGES) {
+      res.status(413).json({ error: `Máximo de ${MAX_PUSH_CHANGES} alterações por envio` });
+      return;
+    }
+
+    try {
+      const results = (await store).push(req.body);
+      const rejected = results.filter(result => result.status === 'rejected').length;
+      console.log(`🔄 Sync push ${req.body.terminalId}: ${results.length} alteração(ões), ${rejected} rejeitada(s)`);
+      res.json({ results } satisfies SyncPushResponse);
+    } catch (error) {
+      console.error('❌ Erro no push de sincronização:', error);
+      res.status(500).json({ error: 'Erro ao registrar alterações' });
+    }
+  });
+
+  router.get('/pull', async (req: Request, res: Response) => {
+    const terminalId = typeof req.query['terminalId'] === 'string' ? req.query['terminalId'] : '';
+    const since = Number(req.query['since'] ?? 0);
+
+    if (!terminalId || !Number.isInteger(since) || since < 0) {
+      res.status(400).json({ error: 'Parâmetros terminalId e since são obrigatórios' });
+      return;
+    }
+
+    try {
+      res.json((await store).pull(terminalId, since));
+    } catch (error) {
+      console.error('❌ Erro no pull de sincronização:', error);
+      res.status(500).json({ error: 'Erro ao consultar alterações' });
+    }
+  });
+
+  return router;
+}
+
+/**
+ * API de sincronização sem SYNC_TOKEN configurado: responde 503 a tudo
+ * (sem token qualquer um poderia ler e gravar vendas e estoque)
+ */
+export function createSyncDisabledRouter(): Router {
+  const router = express.Router();
+
+  router.use((_req: Request, res: Response) => {
+    res.status(503).json({ error: 'Sincronização desativada: defina SYNC_TOKEN no servidor' });
+  });
+
+  return router;
+}
+
+/**
+ * Compara o header Authorization com o token em tempo constante
+ * Os dois lados passam pelo SHA-256: timingSafeEqual exige o mesmo tamanho.
+ */
+function isAuthorized(header: string | undefined, token: string): boolean {
+  const prefix = 'Bearer ';
+  if (!header?.startsWith(prefix)) return false;
+
+  const received = createHash('sha256').update(header.slice(prefix.length)).digest();
+  const expected = createHash('sha256').update(token).digest();
+  return timingSafeEqual(received, expected);
+}
@@ -0,0 +1,388 @@
+// src/server/sync-store.ts
+import initSqlJs, { type Database } from 'sql.js';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { ComandaStatus } from '../app/core/models/comanda.model';
+import { rebuildTable } from '../app/core/services/db-migrations';
+import {
+  COMANDA_TRANSITIONS,
+  SYNC_ENTITIES,
+  SyncBeerPayload,
+  SyncChange,
+  SyncComandaPayload,
+  SyncComandaState,
+  SyncPullResponse,
+  SyncPushRequest,
+  SyncPushResult,
+  SyncRemoteChange,
+  SyncStockPayload,
+  SyncStockState
+} from '../app/core/models/sync.model';
+
+/**
+ * Máximo de alterações por resposta de pull
+ */
+const PULL_PAGE_SIZE = 500;
+
+/**
+ * Chave de unicidade do nome de cerveja (como BeerRepository.nameExists)
+ */
+const beerNameKey = (name: string): string => name.trim().toLowerCase();
+
+const ENTITY_CHECK = `CHECK(desc_entity IN (${SYNC_ENTITIES.map(entity => `'${entity}'`).join(', ')}))`;
+
+const SERVER_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sync_changes (
+    num_seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    desc_op_id TEXT NOT NULL UNIQUE,
+    desc_terminal_id TEXT NOT NULL,
+    desc_entity TEXT NOT NULL ${ENTITY_CHECK},
+    desc_payload TEXT NOT NULL,
+    dt_created_at TEXT NOT NULL,
+    dt_received_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS sync_beers (
+    desc_sync_id TEXT PRIMARY KEY,
+    desc_name_key TEXT NOT NULL UNIQUE,
+    num_seq INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS sync_aliases (
+    desc_alias_id TEXT PRIMARY KEY,
+    desc_sync_id TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS sync_stock_levels (
+    desc_beer_sync_id TEXT NOT NULL,
+    desc_event_sync_id TEXT NOT NULL DEFAULT '',
+    num_liters REAL NOT NULL DEFAULT 0 CHECK(num_liters >= 0),
+    num_seq INTEGER NOT NULL,
+    PRIMARY KEY (desc_beer_sync_id, desc_event_sync_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS sync_unit_stock_levels (
+    desc_beer_sync_id TEXT NOT NULL,
+    desc_event_sync_id TEXT NOT NULL DEFAULT '',
+    num_units INTEGER NOT NULL DEFAULT 0 CHECK(num_units >= 0),
+    num_seq INTEGER NOT NULL,
+    PRIMARY KEY (desc_beer_sync_id, desc_event_sync_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS sync_comandas (
+    num_numero INTEGER PRIMARY KEY,
+    desc_status TEXT NOT NULL,
+    num_total_value REAL NOT NULL DEFAULT 0,
+    dt_updated_at TEXT NOT NULL,
+    num_seq INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_sync_changes_terminal ON sync_changes(desc_terminal_id);
+`;
+
+/**
+ * Banco do servidor de sincronização (arquivo SQLite via sql.js)
+ *
+ * Guarda o log de alterações de todos os terminais (ordem global = num_seq)
+ * e o estado consolidado de estoque e comandas.
+ *
+ * RESOLUÇÃO DE CONFLITOS (determinística, na ordem de chegada ao servidor):
+ * - Cerveja: o nome é único; um cadastro novo com nome já registrado por
+ *   outro identificador vira apelido do existente e é rejeitado com
+ *   resolvedSyncId (o terminal adota o identificador do servidor). Vendas e
+ *   estoque enviados com o apelido são gravados com o identificador real.
+ * - Evento: cadastro aceito sempre (nomes de evento se repetem)
+ * - Venda: somente inclusão, idempotente pelo opId
+ * - Estoque: "set" define a quantidade; "adjust" soma a variação sobre o valor
+ *   atual (nunca negativo). Vendas offline de vários terminais somam corretamente.
+ *   Chopes em litros (sync_stock_levels), produtos unitários em unidades
+ *   (sync_unit_stock_levels).
+ * - Comanda: a transição só vale se o status atual for o de origem
+ *   (COMANDA_TRANSITIONS); senão é rejeitada e o terminal recebe o estado
+ *   do servidor no pull.
+ */
+export class SyncStore {
+  /**
+   * Escrita no banco desde a última gravação do arquivo (push)
+   * Inclui os apelidos de cerveja gravados em alterações rejeitadas.
+   */
+  private changed = false;
+
+  private constructor(
+    private readonly db: Database,
+    private readonly filePath: string
+  ) {}
+
+  /**
+   * Abre (ou cria) o arquivo do banco
+   * @param filePath Caminho do arquivo .sqlite
+   * @param wasmDir Pasta com o sql-wasm.wasm
+   */
+  public static async open(filePath: string, wasmDir: string): Promise<SyncStore> {
+    const SQL = await initSqlJs({ locateFile: (file: string) => `${wasmDir}/${file}` });
+    const data = existsSync(filePath) ? readFileSync(filePath) : undefined;
+    const db = new SQL.Database(data ? new Uint8Array(data) : undefined);
+
+    db.exec(SERVER_SCHEMA);
+    SyncStore.upgradeSchema(db);
+    console.log(`✅ Banco de sincronização aberto: ${filePath}`);
+    return new SyncStore(db, filePath);
+  }
+
+  /**
+   * Atualiza um arquivo criado por versão anterior do servidor
+   * - CHECK de sync_changes com as entidades atuais
+   * - Estoque consolidado por nome (sync_stock) substituído pelo estoque por
+   *   identificador: os terminais reenviam a quantidade no próximo "set"
+   */
+  private static upgradeSchema(db: Database): void {
+    db.exec('BEGIN TRANSACTION');
+    try {
+      rebuildTable(db, 'sync_changes', createSql => createSql.replace(/CHECK\(desc_entity IN \([^)]*\)\)/, ENTITY_CHECK));
+      db.exec('DROP TABLE IF EXISTS sync_stock');
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Registra as alterações de um terminal (em uma transação)
+   */
+  public push(request: SyncPushRequest): SyncPushResult[] {
+    const results: SyncPushResult[] = [];
+
+    this.db.exec('BEGIN TRANSACTION');
+    try {
+      for (const change of request.changes) {
+        results.push(this.applyChange(request.terminalId, change));
+      }
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      this.changed = false;
+      throw error;
+    }
+
+    if (this.changed) {
+      this.save();
+      this.changed = false;
+    }
+    return results;
+  }
+
+  /**
+   * Alterações de outros terminais após "since" e estado consolidado
+   */
+  public pull(terminalId: string, since: number): SyncPullResponse {
+    const rows = this.query(
+      `SELECT num_seq, desc_op_id, desc_terminal_id, desc_entity, desc_payload, dt_created_at
+       FROM sync_changes
+       WHERE num_seq > ?
+       ORDER BY num_seq
+       LIMIT ?`,
+      [since, PULL_PAGE_SIZE + 1]
+    );
+
+    const hasMore = rows.length > PULL_PAGE_SIZE;
+    const page = rows.slice(0, PULL_PAGE_SIZE);
+
+    // As alterações do próprio terminal só avançam o cursor
+    const changes = page
+      .filter(row => row['desc_terminal_id'] !== terminalId)
+      .map(row => ({
+        opId: String(row['desc_op_id']),
+        entity: row['desc_entity'],
+        payload: JSON.parse(String(row['desc_payload'])),
+        createdAt: String(row['dt_created_at']),
+        seq: Number(row['num_seq']),
+        terminalId: String(row['desc_terminal_id'])
+      }) as SyncRemoteChange);
+
+    return {
+      changes,
+      lastSeq: page.length > 0 ? Number(page[page.length - 1]['num_seq']) : since,
+      hasMore,
+      stock: this.getStockState(),
+      comandas: this.getComandaState()
+    };
+  }
+
+  private applyChange(terminalId: string, change: SyncChange): SyncPushResult {
+    const existing = this.query('SELECT num_seq FROM sync_changes WHERE desc_op_id = ?', [change.opId]);
+    if (existing.length > 0) {
+      return { opId: change.opId, status: 'duplicate', seq: Number(existing[0]['num_seq']) };
+    }
+
+    if (change.entity === 'comanda') {
+      const reason = this.checkComandaTransition(change.payload);
+      if (reason) {
+        return { opId: change.opId, status: 'rejected', seq: null, reason };
+      }
+    }
+
+    if (change.entity === 'beer') {
+      const conflict = this.checkBeerName(change.opId, change.payload);
+      if (conflict) return conflict;
+    } else if (change.entity === 'sale' || change.entity === 'stock') {
+      change.payload.beerSyncId = this.resolveAlias(change.payload.beerSyncId);
+    }
+
+    this.db.run(
+      `INSERT INTO sync_changes (desc_op_id, desc_terminal_id, desc_entity, desc_payload, dt_created_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [change.opId, terminalId, change.entity, JSON.stringify(change.payload), change.createdAt]
+    );
+    const seq = Number(this.query('SELECT last_insert_rowid() as seq')[0]['seq']);
+
+    if (change.entity === 'stock') {
+      this.applyStock(change.payload, seq);
+    } else if (change.entity === 'comanda') {
+      this.applyComanda(change.payload, seq);
+    } else if (change.entity === 'beer') {
+      this.db.run(
+        `INSERT INTO sync_beers (desc_sync_id, desc_name_key, num_seq) VALUES (?, ?, ?)
+         ON CONFLICT(desc_sync_id) DO UPDATE SET desc_name_key = excluded.desc_name_key, num_seq = excluded.num_seq`,
+        [change.payload.beerSyncId, beerNameKey(change.payload.name), seq]
+      );
+    }
+
+    this.changed = true;
+    return { opId: change.opId, status: 'applied', seq };
+  }
+
+  /**
+   * Nome de cerveja já registrado por outro identificador
+   * Um cadastro novo vira apelido do existente; uma renomeação é rejeitada.
+   * @returns Resultado da rejeição ou null se o nome está livre
+   */
+  private checkBeerName(opId: string, payload: SyncBeerPayload): SyncPushResult | null {
+    payload.beerSyncId = this.resolveAlias(payload.beerSyncId);
+
+    const owner = this.query('SELECT desc_sync_id FROM sync_beers WHERE desc_name_key = ?', [beerNameKey(payload.name)])[0];
+    const ownerId = owner ? String(owner['desc_sync_id']) : null;
+    if (ownerId === null || ownerId === payload.beerSyncId) return null;
+
+    const known = this.query('SELECT 1 FROM sync_beers WHERE desc_sync_id = ?', [payload.beerSyncId]).length > 0;
+    if (known) {
+      return { opId, status: 'rejected', seq: null, reason: `Já existe outra cerveja com o nome "${payload.name}"` };
+    }
+
+    this.db.run('INSERT OR REPLACE INTO sync_aliases (desc_alias_id, desc_sync_id) VALUES (?, ?)', [payload.beerSyncId, ownerId]);
+    this.changed = true;
+    return {
+      opId,
+      status: 'rejected',
+      seq: null,
+      reason: `Cerveja "${payload.name}" já cadastrada em outro terminal`,
+      resolvedSyncId: ownerId
+    };
+  }
+
+  private resolveAlias(beerSyncId: string): string {
+    const alias = this.query('SELECT desc_sync_id FROM sync_aliases WHERE desc_alias_id = ?', [beerSyncId])[0];
+    return alias ? String(alias['desc_sync_id']) : beerSyncId;
+  }
+
+  private applyStock(payload: SyncStockPayload, seq: number): void {
+    const [table, column, amount] = payload.units !== undefined
+      ? ['sync_unit_stock_levels', 'num_units', payload.units]
+      : ['sync_stock_levels', 'num_liters', payload.liters];
+    const eventSyncId = payload.eventSyncId ?? '';
+    const current = this.query(
+      `SELECT ${column} FROM ${table} WHERE desc_beer_sync_id = ? AND desc_event_sync_id = ?`,
+      [payload.beerSyncId, eventSyncId]
+    )[0];
+
+    const base = current ? Number(current[column]) : 0;
+    const quantity = payload.mode === 'set' ? amount : base + amount;
+
+    this.db.run(
+      `INSERT INTO ${table} (desc_beer_sync_id, desc_event_sync_id, ${column}, num_seq)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(desc_beer_sync_id, desc_event_sync_id) DO UPDATE SET
+         ${column} = excluded.${column},
+         num_seq = excluded.num_seq`,
+      [payload.beerSyncId, eventSyncId, Math.max(0, quantity), seq]
+    );
+  }
+
+  /**
+   * @returns Motivo da rejeição ou null se a transição é válida
+   */
+  private checkComandaTransition(payload: SyncComandaPayload): string | null {
+    const current = this.query('SELECT desc_status FROM sync_comandas WHERE num_numero = ?', [payload.numero])[0];
+    const status = (current?.['desc_status'] as ComandaStatus | undefined) ?? ComandaStatus.DISPONIVEL;
+
+    if (status !== payload.fromStatus) {
+      return `Comanda ${payload.numero} está "${status}" no servidor (esperado "${payload.fromStatus}")`;
+    }
+    if (!COMANDA_TRANSITIONS[status].includes(payload.toStatus)) {
+      return `Transição inválida da comanda ${payload.numero}: ${status} → ${payload.toStatus}`;
+    }
+    return null;
+  }
+
+  private applyComanda(payload: SyncComandaPayload, seq: number): void {
+    this.db.run(
+      `INSERT INTO sync_comandas (num_numero, desc_status, num_total_value, dt_updated_at, num_seq)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(num_numero) DO UPDATE SET
+         desc_status = excluded.desc_status,
+         num_total_value = excluded.num_total_value,
+         dt_updated_at = excluded.dt_updated_at,
+         num_seq = excluded.num_seq`,
+      [payload.numero, payload.toStatus, payload.totalValue, payload.at, seq]
+    );
+  }
+
+  private getStockState(): SyncStockState[] {
+    const liters = this.query('SELECT desc_beer_sync_id, desc_event_sync_id, num_liters FROM sync_stock_levels').map(row => ({
+      beerSyncId: String(row['desc_beer_sync_id']),
+      eventSyncId: row['desc_event_sync_id'] ? String(row['desc_event_sync_id']) : null,
+      liters: Number(row['num_liters'])
+    }));
+    const units = this.query('SELECT desc_beer_sync_id, desc_event_sync_id, num_units FROM sync_unit_stock_levels').map(row => ({
+      beerSyncId: String(row['desc_beer_sync_id']),
+      eventSyncId: row['desc_event_sync_id'] ? String(row['desc_event_sync_id']) : null,
+      units: Number(row['num_units'])
+    }));
+    return [...liters, ...units];
+  }
+
+  private getComandaState(): SyncComandaState[] {
+    return this.query('SELECT * FROM sync_comandas ORDER BY num_numero').map(row => ({
+      numero: Number(row['num_numero']),
+      status: row['desc_status'] as ComandaStatus,
+      totalValue: Number(row['num_total_value']),
+      updatedAt: String(row['dt_updated_at'])
+    }));
+  }
+
+  private query(sql: string, params?: (string | number | null)[]): Record<string, unknown>[] {
+    const stmt = this.db.prepare(sql);
+    try {
+      if (params) {
+        stmt.bind(params);
+      }
+      const rows: Record<string, unknown>[] = [];
+      while (stmt.step()) {
+        rows.push(stmt.getAsObject());
+      }
+      return rows;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  /**
+   * Grava o arquivo (escrita em arquivo temporário + rename)
+   */
+  private save(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    writeFileSync(tempPath, this.db.export());
+    renameSync(tempPath, this.filePath);
+  }
+}